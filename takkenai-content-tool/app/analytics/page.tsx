@@ -0,0 +1,304 @@
+import Link from "next/link";
+import { loadCalendarStore } from "@/lib/calendar-engine";
+import { getEnabledPlatforms, resolveSiteManifest } from "@/lib/site-config";
+import { getPlatformLabel } from "@/lib/platform-registry";
+import {
+  buildTopicCoverageReport,
+  type UncoveredAsset,
+} from "@/lib/topic-coverage";
+import type { TopicAssetType } from "@/lib/topic-mix";
+import { getArticleTypeOption, type ArticleType } from "@/lib/article-type";
+import {
+  loadPerformanceWeights,
+  type PerformanceArmStats,
+} from "@/lib/performance-weights";
+import PerformanceImport from "./performance-import";
+import TrackingDecode from "./tracking-decode";
+
+export const dynamic = "force-dynamic";
+
+const TYPE_LABELS: Record<TopicAssetType, string> = {
+  "knowledge-point": "知識ポイント",
+  tool: "ツール",
+  "past-question": "過去問",
+};
+
+const TYPE_ORDER: TopicAssetType[] = ["tool", "knowledge-point", "past-question"];
+
+function formatPercent(rate: number): string {
+  return `${Math.round(rate * 100)}%`;
+}
+
+/** Arms with the largest deviation from the platform mean first. */
+function rankArms(arms: Record<string, PerformanceArmStats>, limit: number): Array<[string, PerformanceArmStats]> {
+  return Object.keys(arms)
+    .map((key): [string, PerformanceArmStats] => [key, arms[key]])
+    .sort((a, b) => Math.abs(b[1].multiplier - 1) - Math.abs(a[1].multiplier - 1))
+    .slice(0, limit);
+}
+
+function MultiplierBadge({ value }: { value: number }) {
+  const color =
+    value > 1.05 ? "text-green-700" : value < 0.95 ? "text-red-600" : "text-gray-500";
+  return <span className={`text-xs shrink-0 ${color}`}>×{value.toFixed(2)}</span>;
+}
+
+function UncoveredList({ items }: { items: UncoveredAsset[] }) {
+  if (items.length === 0) {
+    return <p className="text-sm text-gray-400 px-4 py-2">すべてカバー済みです</p>;
+  }
+  return (
+    <ul className="px-4 py-2 grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-1 text-sm">
+      {items.map((item) => (
+        <li key={item.path} className="flex justify-between gap-2">
+          <span className="text-gray-800 truncate">{item.label}</span>
+          <span className="text-xs text-gray-400 shrink-0">{item.group}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default async function AnalyticsPage() {
+  const manifest = resolveSiteManifest();
+  const report = buildTopicCoverageReport(
+    loadCalendarStore().calendars,
+    manifest.topicRotation
+  );
+  const topAssets = report.assets.slice(0, 30);
+  const weights = loadPerformanceWeights();
+
+  return (
+    <div className="space-y-6">
+      <Link
+        href="/"
+        className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700"
+      >
+        &#8592; カレンダーに戻る
+      </Link>
+
+      <div>
+        <h2 className="text-xl font-bold text-gray-900">トピックカバレッジ</h2>
+        <p className="text-sm text-gray-500 mt-1">
+          {report.range
+            ? `${report.range.from} 〜 ${report.range.to} のカレンダー`
+            : "カレンダーがまだありません"}
+          {" ・ "}同一ページの再登場間隔: {manifest.topicRotation.cooldownDays}日
+        </p>
+      </div>
+
+      <section className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {TYPE_ORDER.map((type) => {
+          const totals = report.byType[type];
+          return (
+            <div key={type} className="bg-white rounded-lg border border-gray-200 p-4">
+              <div className="text-sm font-medium text-gray-700">{TYPE_LABELS[type]}</div>
+              <div className="text-2xl font-bold text-gray-900 mt-1">
+                {totals.used}
+                <span className="text-sm font-normal text-gray-400"> / {totals.total}</span>
+              </div>
+              <div className="text-xs text-gray-500 mt-1">
+                予定 {totals.planned} ・ 公開 {totals.published}
+              </div>
+            </div>
+          );
+        })}
+      </section>
+
+      <section className="bg-white rounded-lg border border-gray-200">
+        <h3 className="px-4 py-3 border-b border-gray-200 font-semibold text-gray-800">
+          科目別カバー率（知識ポイント）
+        </h3>
+        <table className="w-full text-sm">
+          <thead className="text-xs text-gray-500 text-left">
+            <tr>
+              <th className="px-4 py-2">科目</th>
+              <th className="px-4 py-2 text-right">カバー</th>
+              <th className="px-4 py-2 text-right">公開</th>
+              <th className="px-4 py-2 text-right">使用回数</th>
+              <th className="px-4 py-2 w-1/3">カバー率</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.subjects.map((subject) => (
+              <tr key={subject.subject} className="border-t border-gray-100">
+                <td className="px-4 py-2 text-gray-800">{subject.subject}</td>
+                <td className="px-4 py-2 text-right">
+                  {subject.covered} / {subject.total}
+                </td>
+                <td className="px-4 py-2 text-right">{subject.published}</td>
+                <td className="px-4 py-2 text-right">{subject.uses}</td>
+                <td className="px-4 py-2">
+                  <div className="flex items-center gap-2">
+                    <div className="flex-1 h-2 bg-gray-100 rounded">
+                      <div
+                        className="h-2 bg-indigo-500 rounded"
+                        style={{ width: formatPercent(subject.coverageRate) }}
+                      />
+                    </div>
+                    <span className="text-xs text-gray-500 w-10 text-right">
+                      {formatPercent(subject.coverageRate)}
+                    </span>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+
+      <section className="bg-white rounded-lg border border-gray-200">
+        <h3 className="px-4 py-3 border-b border-gray-200 font-semibold text-gray-800">
+          よく使われているページ
+        </h3>
+        {topAssets.length === 0 ? (
+          <p className="text-sm text-gray-400 px-4 py-3">まだ使用実績がありません</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="text-xs text-gray-500 text-left">
+              <tr>
+                <th className="px-4 py-2">ページ</th>
+                <th className="px-4 py-2">種別</th>
+                <th className="px-4 py-2 text-right">予定</th>
+                <th className="px-4 py-2 text-right">使用</th>
+                <th className="px-4 py-2 text-right">公開</th>
+                <th className="px-4 py-2 text-right">最短間隔</th>
+                <th className="px-4 py-2">最終</th>
+              </tr>
+            </thead>
+            <tbody>
+              {topAssets.map((asset) => (
+                <tr key={asset.path} className="border-t border-gray-100">
+                  <td className="px-4 py-2">
+                    <div className="text-gray-800">{asset.label}</div>
+                    <div className="text-xs text-gray-400">{asset.path}</div>
+                  </td>
+                  <td className="px-4 py-2 text-gray-600">{TYPE_LABELS[asset.type]}</td>
+                  <td className="px-4 py-2 text-right">{asset.planned}</td>
+                  <td className="px-4 py-2 text-right">{asset.used}</td>
+                  <td className="px-4 py-2 text-right">{asset.published}</td>
+                  <td className="px-4 py-2 text-right">
+                    {asset.minGapDays === undefined ? "-" : `${asset.minGapDays}日`}
+                  </td>
+                  <td className="px-4 py-2 text-gray-600">{asset.lastDate}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      {report.repeats.length > 0 && (
+        <section className="bg-white rounded-lg border border-amber-200">
+          <h3 className="px-4 py-3 border-b border-amber-200 font-semibold text-amber-800">
+            間隔が短すぎる再登場（{report.repeats.length}件）
+          </h3>
+          <ul className="px-4 py-2 space-y-1 text-sm">
+            {report.repeats.map((repeat) => (
+              <li key={`${repeat.path}-${repeat.secondDate}-${repeat.secondPlatform}`}>
+                <span className="text-gray-800">{repeat.label}</span>
+                <span className="text-gray-500">
+                  {" "}
+                  {repeat.firstDate}（{getPlatformLabel(repeat.firstPlatform)}）→{" "}
+                  {repeat.secondDate}（{getPlatformLabel(repeat.secondPlatform)}）:{" "}
+                  {repeat.gapDays}日（基準 {repeat.cooldownDays}日）
+                </span>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      <section className="bg-white rounded-lg border border-gray-200">
+        <h3 className="px-4 py-3 border-b border-gray-200 font-semibold text-gray-800">
+          未使用のアセット（{report.neverCovered.length}件）
+        </h3>
+        {TYPE_ORDER.map((type) => {
+          const items = report.neverCovered.filter((item) => item.type === type);
+          return (
+            <details key={type} className="border-t border-gray-100 first:border-t-0">
+              <summary className="px-4 py-2 cursor-pointer text-sm text-gray-700">
+                {TYPE_LABELS[type]}（{items.length}件）
+              </summary>
+              <UncoveredList items={items} />
+            </details>
+          );
+        })}
+      </section>
+
+      {report.otherPages.length > 0 && (
+        <section className="bg-white rounded-lg border border-gray-200">
+          <h3 className="px-4 py-3 border-b border-gray-200 font-semibold text-gray-800">
+            その他のページ（GA4プロファイル由来）
+          </h3>
+          <ul className="px-4 py-2 space-y-1 text-sm">
+            {report.otherPages.map((page) => (
+              <li key={page.path} className="flex justify-between gap-2">
+                <span className="text-gray-800 truncate">{page.label}</span>
+                <span className="text-xs text-gray-500 shrink-0">
+                  予定 {page.planned} ・ 使用 {page.used} ・ 公開 {page.published}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      <section className="bg-white rounded-lg border border-gray-200">
+        <h3 className="px-4 py-3 border-b border-gray-200 font-semibold text-gray-800">
+          投稿成果の反映
+        </h3>
+        <PerformanceImport />
+        {weights && weights.samples > 0 ? (
+          <div className="border-t border-gray-100 px-4 py-3 grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+            {getEnabledPlatforms(manifest).map((platform) => (
+              <div key={platform} className="space-y-2">
+                <div className="font-medium text-gray-700">
+                  {getPlatformLabel(platform)}
+                  <span className="ml-2 text-xs font-normal text-gray-400">
+                    平均スコア {weights.platformMeans[platform] ?? 0}
+                  </span>
+                </div>
+                <ul className="space-y-0.5">
+                  {rankArms(weights.urls[platform] || {}, 8).map(([urlPath, arm]) => (
+                    <li key={urlPath} className="flex justify-between gap-2">
+                      <span className="text-gray-800 truncate">
+                        {urlPath}
+                        <span className="text-xs text-gray-400">（{arm.samples}件）</span>
+                      </span>
+                      <MultiplierBadge value={arm.multiplier} />
+                    </li>
+                  ))}
+                </ul>
+                <ul className="space-y-0.5 border-t border-gray-100 pt-1">
+                  {rankArms((weights.articleTypes[platform] || {}) as Record<string, PerformanceArmStats>, 6).map(
+                    ([articleType, arm]) => (
+                      <li key={articleType} className="flex justify-between gap-2">
+                        <span className="text-gray-600">
+                          {getArticleTypeOption(articleType as ArticleType).shortLabel}
+                          <span className="text-xs text-gray-400">（{arm.samples}件）</span>
+                        </span>
+                        <MultiplierBadge value={arm.multiplier} />
+                      </li>
+                    )
+                  )}
+                </ul>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-400 px-4 py-3 border-t border-gray-100">
+            まだ成果が記録された公開記事がありません
+          </p>
+        )}
+      </section>
+
+      <section className="bg-white rounded-lg border border-gray-200">
+        <h3 className="px-4 py-3 border-b border-gray-200 font-semibold text-gray-800">
+          トラッキングURLの照合
+        </h3>
+        <TrackingDecode />
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { EDITOR_NAME_STORAGE_KEY } from "@/lib/editorial-workflow";
+import type { PerformanceImportResult } from "@/lib/performance-feedback";
+
+export default function PerformanceImport() {
+  const router = useRouter();
+  const [file, setFile] = useState<File | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+  const [result, setResult] = useState<PerformanceImportResult | null>(null);
+
+  const handleImport = async () => {
+    if (!file) return;
+    setBusy(true);
+    setError("");
+    try {
+      const actor = window.localStorage.getItem(EDITOR_NAME_STORAGE_KEY) || "";
+      const res = await fetch(
+        `/api/calendar/performance/import?actor=${encodeURIComponent(actor)}`,
+        { method: "POST", headers: { "Content-Type": "text/csv" }, body: await file.text() }
+      );
+      const data = await res.json();
+      setResult(Array.isArray(data.errors) ? data : null);
+      if (!res.ok) {
+        setError(data.error || "取り込みに失敗しました");
+        return;
+      }
+      setFile(null);
+      router.refresh();
+    } catch (err) {
+      console.error("Performance import failed:", err);
+      setError("取り込みに失敗しました");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="px-4 py-3 space-y-2 text-sm">
+      <p className="text-xs text-gray-500">
+        記事ごとの CSV（date, platform, views, likes, referralClicks）か、GA4
+        の「セッションのソース × ランディングページ」のエクスポートを取り込めます。GA4
+        のセッションはソース・キャンペーン（utm_source / utm_campaign）がトラッキング設定と一致し、同じページにリンクした最新の公開記事に計上されます。
+      </p>
+      <div className="flex items-center gap-2">
+        <input
+          type="file"
+          accept=".csv,text/csv"
+          onChange={(e) => setFile(e.target.files?.[0] || null)}
+          className="text-sm"
+        />
+        <button
+          onClick={handleImport}
+          disabled={!file || busy}
+          className="px-4 py-1.5 text-sm rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+        >
+          取り込む
+        </button>
+      </div>
+      {error && <p className="text-red-600">{error}</p>}
+      {result && (
+        <div className="text-gray-600 space-y-1">
+          <p>
+            更新 {result.updated.length}件 ・ 対象外 {result.skipped}行 ・ 未照合{" "}
+            {result.unmatched.length}行
+          </p>
+          {result.errors.map((rowError) => (
+            <p key={rowError.line} className="text-red-600">
+              {rowError.line}行目: {rowError.message}
+            </p>
+          ))}
+          {result.unmatched.slice(0, 10).map((row) => (
+            <p key={row.line} className="text-xs text-gray-400">
+              {row.line}行目: {row.platform} {row.path}（{row.sessions}セッション）
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
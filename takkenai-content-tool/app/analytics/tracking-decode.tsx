@@ -0,0 +1,95 @@
+"use client";
+
+import { useState } from "react";
+import type { TrackingDecodeRow } from "@/lib/tracking-template";
+
+const STATUS_LABELS: Record<TrackingDecodeRow["status"], string> = {
+  matched: "一致",
+  ambiguous: "複数候補",
+  unmatched: "該当なし",
+};
+
+const STATUS_COLORS: Record<TrackingDecodeRow["status"], string> = {
+  matched: "text-green-700",
+  ambiguous: "text-amber-600",
+  unmatched: "text-gray-400",
+};
+
+export default function TrackingDecode() {
+  const [text, setText] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+  const [rows, setRows] = useState<TrackingDecodeRow[]>([]);
+
+  const handleDecode = async () => {
+    setBusy(true);
+    setError("");
+    try {
+      const res = await fetch("/api/tracking/decode", {
+        method: "POST",
+        headers: { "Content-Type": "text/plain" },
+        body: text,
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "照合に失敗しました");
+        return;
+      }
+      setRows(data.rows || []);
+    } catch (err) {
+      console.error("Tracking decode failed:", err);
+      setError("照合に失敗しました");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="px-4 py-3 space-y-2 text-sm">
+      <p className="text-xs text-gray-500">
+        GA4 のランディングページや流入URL（utm_source などのクエリ付き）を1行に1件貼り付けると、トラッキング設定からどのカレンダー記事のリンクかを照合します。
+      </p>
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        rows={4}
+        placeholder="/tools/loan?utm_source=note&utm_medium=blog&utm_campaign=daily_content"
+        className="w-full border border-gray-300 rounded px-2 py-1 font-mono text-xs"
+      />
+      <button
+        onClick={handleDecode}
+        disabled={!text.trim() || busy}
+        className="px-4 py-1.5 text-sm rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+      >
+        照合する
+      </button>
+      {error && <p className="text-red-600">{error}</p>}
+      {rows.length > 0 && (
+        <ul className="divide-y divide-gray-100">
+          {rows.map((row, index) => (
+            <li key={`${index}-${row.input}`} className="py-1.5 space-y-0.5">
+              <div className="flex justify-between gap-2">
+                <span className="font-mono text-xs text-gray-700 truncate">{row.input}</span>
+                <span className={`text-xs shrink-0 ${STATUS_COLORS[row.status]}`}>
+                  {STATUS_LABELS[row.status]}
+                </span>
+              </div>
+              {row.matches.slice(0, 5).map((match) => (
+                <p
+                  key={`${match.date}-${match.platform}-${match.contentKey}`}
+                  className="text-xs text-gray-500"
+                >
+                  {match.date} {match.platform}
+                  {match.contentKey === "note-viral" ? "（爆款独立版）" : ""} {match.title}
+                </p>
+              ))}
+              {row.matches.length > 5 && (
+                <p className="text-xs text-gray-400">ほか {row.matches.length - 5}件</p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { loadCalendarStore } from "@/lib/calendar-engine";
+import { resolveSiteManifest } from "@/lib/site-config";
+import { buildTopicCoverageReport } from "@/lib/topic-coverage";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/analytics
+ *   → how often each knowledge point / tool / past question has been planned,
+ *     used and published across every stored calendar, never-covered assets,
+ *     knowledge-subject coverage and repeats closer than the rotation cooldown
+ */
+export async function GET() {
+  try {
+    const report = buildTopicCoverageReport(
+      loadCalendarStore().calendars,
+      resolveSiteManifest().topicRotation
+    );
+    return NextResponse.json(report);
+  } catch (err: unknown) {
+    console.error("Coverage report failed:", err);
+    const message =
+      err instanceof Error ? err.message : "不明なエラーが発生しました";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  hasAssetMetadata,
+  isAssetMetadataError,
+  isAssetType,
+  listAssetRecords,
+  updateAssetMetadata,
+} from "@/lib/asset-metadata";
+
+export const dynamic = "force-dynamic";
+
+function handleError(err: unknown, label: string) {
+  if (isAssetMetadataError(err)) {
+    return NextResponse.json({ error: err.message, issues: err.issues }, { status: 400 });
+  }
+  console.error(`${label}:`, err);
+  const message = err instanceof Error ? err.message : "不明なエラーが発生しました";
+  return NextResponse.json({ error: message }, { status: 500 });
+}
+
+/**
+ * GET /api/assets?type=knowledge-point|tool|past-question[&q=...&limit=50]
+ *   → assets of one type matching `q`, with whether their metadata is filled in
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = req.nextUrl;
+    const type = searchParams.get("type") || "knowledge-point";
+    if (!isAssetType(type)) {
+      return NextResponse.json({ error: `不明な素材タイプです: ${type}` }, { status: 400 });
+    }
+    const limit = parseInt(searchParams.get("limit") || "", 10);
+    const { items, total } = listAssetRecords({
+      type,
+      query: searchParams.get("q") || undefined,
+      limit: Number.isFinite(limit) ? limit : undefined,
+    });
+    return NextResponse.json({
+      items: items.map((item) => ({ ...item, hasMetadata: hasAssetMetadata(item) })),
+      total,
+    });
+  } catch (err: unknown) {
+    return handleError(err, "Asset list failed");
+  }
+}
+
+/**
+ * POST /api/assets
+ *   { type, id, title?, summary?, keyFacts?, lawArticles?, difficulty?,
+ *     inputs?, outputs?, correctAnswer?, explanation? }
+ *   → update one asset's metadata in the data JSON (null / "" / [] removes a
+ *     field). Invalid input returns 400 with `issues`.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const body = (await req.json()) as Record<string, unknown>;
+    const { type, id, ...fields } = body;
+    if (!isAssetType(type) || typeof id !== "string" || !id) {
+      return NextResponse.json({ error: "type と id を指定してください" }, { status: 400 });
+    }
+    const asset = updateAssetMetadata(type, id, fields);
+    return NextResponse.json({ success: true, asset: { ...asset, hasMetadata: hasAssetMetadata(asset) } });
+  } catch (err: unknown) {
+    return handleError(err, "Asset update failed");
+  }
+}
@@ -0,0 +1,124 @@
+import crypto from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import {
+  updatePlatformEntryWith,
+  type CalendarDay,
+  waitForCalendarStore,
+} from "@/lib/calendar-engine";
+import {
+  appendReviewComment,
+  isEditorialWorkflowError,
+  setReviewThreadResolved,
+} from "@/lib/editorial-workflow";
+import { isPlatform } from "@/lib/platform-registry";
+
+function parseTarget(body: { date?: unknown; platform?: unknown }) {
+  const date = String(body.date || "");
+  const match = date.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const platform = body.platform;
+  if (!match || !isPlatform(platform)) return null;
+  return {
+    year: parseInt(match[1], 10),
+    month: parseInt(match[2], 10),
+    day: parseInt(match[3], 10),
+    platform,
+  };
+}
+
+function respond(day: CalendarDay | undefined) {
+  if (!day) {
+    return NextResponse.json(
+      { error: "指定された日付のデータが見つかりません" },
+      { status: 404 }
+    );
+  }
+  return NextResponse.json({ success: true, day });
+}
+
+function handleError(err: unknown) {
+  if (isEditorialWorkflowError(err)) {
+    return NextResponse.json({ error: err.message }, { status: 400 });
+  }
+  console.error("Review comment update failed:", err);
+  const message =
+    err instanceof Error ? err.message : "不明なエラーが発生しました";
+  return NextResponse.json({ error: message }, { status: 500 });
+}
+
+/**
+ * POST /api/calendar/comments { date, platform, author, body, paragraphIndex?, parentId? }
+ *   → add a review comment (anchored to a paragraph of the generated body)
+ *     or a reply to an existing thread
+ */
+export async function POST(req: NextRequest) {
+  try {
+    await waitForCalendarStore();
+    const body = await req.json();
+    const target = parseTarget(body);
+    if (!target) {
+      return NextResponse.json({ error: "date と platform が不正です" }, { status: 400 });
+    }
+    const paragraphIndex =
+      body.paragraphIndex === undefined || body.paragraphIndex === null
+        ? undefined
+        : Number(body.paragraphIndex);
+    const id = `cmt-${Date.now().toString(36)}-${crypto.randomBytes(3).toString("hex")}`;
+    const day = updatePlatformEntryWith(
+      target.year,
+      target.month,
+      target.day,
+      target.platform,
+      (entry) => ({
+        reviewComments: appendReviewComment(
+          entry.reviewComments,
+          {
+            author: String(body.author || ""),
+            body: String(body.body || ""),
+            paragraphIndex,
+            parentId: body.parentId ? String(body.parentId) : undefined,
+          },
+          entry.generatedBody || "",
+          id
+        ),
+      })
+    );
+    return respond(day);
+  } catch (err: unknown) {
+    return handleError(err);
+  }
+}
+
+/**
+ * PATCH /api/calendar/comments { date, platform, commentId, resolved, actor }
+ *   → resolve or reopen a comment thread
+ */
+export async function PATCH(req: NextRequest) {
+  try {
+    await waitForCalendarStore();
+    const body = await req.json();
+    const target = parseTarget(body);
+    if (!target || !body.commentId || typeof body.resolved !== "boolean") {
+      return NextResponse.json(
+        { error: "date, platform, commentId, resolved は必須です" },
+        { status: 400 }
+      );
+    }
+    const day = updatePlatformEntryWith(
+      target.year,
+      target.month,
+      target.day,
+      target.platform,
+      (entry) => ({
+        reviewComments: setReviewThreadResolved(
+          entry.reviewComments,
+          String(body.commentId),
+          body.resolved,
+          String(body.actor || "")
+        ),
+      })
+    );
+    return respond(day);
+  } catch (err: unknown) {
+    return handleError(err);
+  }
+}
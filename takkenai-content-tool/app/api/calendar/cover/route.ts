@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { loadCalendarStore, waitForCalendarStore } from "@/lib/calendar-engine";
+import {
+  buildCoverStyleReport,
+  isCoverVariantError,
+  selectPublishedCover,
+} from "@/lib/cover-variants";
+import { isPlatform } from "@/lib/platform-registry";
+import {
+  resolveGeneratedOutputDir,
+  resolveRunContext,
+  type SkillRunMode,
+} from "@/lib/site-config";
+
+type PostBody = {
+  date?: string;
+  platform?: string;
+  filename?: string;
+  siteId?: string;
+  mode?: SkillRunMode;
+  actor?: string;
+};
+
+/** GET /api/calendar/cover → click-through by cover style and style pack, per platform */
+export async function GET() {
+  return NextResponse.json({ report: buildCoverStyleReport(loadCalendarStore().calendars) });
+}
+
+/**
+ * POST /api/calendar/cover  { date, platform, filename, actor? }
+ *   → record the generated cover published with the entry (replaces an earlier choice)
+ */
+export async function POST(req: NextRequest) {
+  try {
+    await waitForCalendarStore();
+    const body = (await req.json()) as PostBody;
+    const date = String(body.date || "");
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || !isPlatform(body.platform)) {
+      return NextResponse.json({ error: "date と platform が不正です" }, { status: 400 });
+    }
+    const runContext = resolveRunContext({ siteId: body.siteId, mode: body.mode });
+    const generatedDir = resolveGeneratedOutputDir({
+      mode: runContext.mode,
+      siteId: runContext.siteId,
+    });
+    const { day, cover } = selectPublishedCover(
+      { date, platform: body.platform },
+      generatedDir,
+      String(body.filename || ""),
+      { actor: typeof body.actor === "string" ? body.actor : undefined }
+    );
+    return NextResponse.json({ success: true, cover, entry: day.platforms[body.platform] });
+  } catch (err: unknown) {
+    if (isCoverVariantError(err)) {
+      return NextResponse.json({ error: err.message }, { status: 400 });
+    }
+    console.error("Cover selection failed:", err);
+    const message = err instanceof Error ? err.message : "不明なエラーが発生しました";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,135 @@
+import fs from "fs";
+import path from "path";
+import { NextRequest, NextResponse } from "next/server";
+import { getCalendarDay, type CalendarSlot, waitForCalendarStore } from "@/lib/calendar-engine";
+import type { GeneratedContent } from "@/lib/claude";
+import { getGeneratedContentFilename } from "@/lib/content-variant";
+import { getLlmProviderConfigError } from "@/lib/llm-provider";
+import { isPlatform } from "@/lib/platform-registry";
+import {
+  resolveGeneratedOutputDir,
+  resolveRunContext,
+  type SkillRunMode,
+} from "@/lib/site-config";
+import {
+  generateSnsDerivatives,
+  isSnsDerivativeError,
+  isSnsNetwork,
+  markSnsDerivativePublished,
+  SNS_NETWORKS,
+} from "@/lib/sns-derivatives";
+
+type PostBody = {
+  action: "generate" | "publish";
+  date?: string;
+  platform?: string;
+  /** generate: networks to (re)write, defaults to all; publish: exactly one */
+  networks?: string[];
+  network?: string;
+  siteId?: string;
+  mode?: SkillRunMode;
+};
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+function parseSlot(date: unknown, platform: unknown): CalendarSlot | null {
+  const dateStr = String(date || "");
+  if (!DATE_PATTERN.test(dateStr) || !isPlatform(platform)) return null;
+  return { date: dateStr, platform };
+}
+
+function loadArticle(slot: CalendarSlot, body: PostBody): GeneratedContent | null {
+  const runContext = resolveRunContext({ siteId: body.siteId, mode: body.mode });
+  const generatedDir = resolveGeneratedOutputDir({
+    mode: runContext.mode,
+    siteId: runContext.siteId,
+  });
+  const filePath = path.join(
+    generatedDir,
+    getGeneratedContentFilename(slot.date, slot.platform, "standard")
+  );
+  if (!fs.existsSync(filePath)) return null;
+  try {
+    return JSON.parse(fs.readFileSync(filePath, "utf-8")) as GeneratedContent;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * GET /api/calendar/derivatives?date=YYYY-MM-DD
+ *   → the SNS posts derived from the day's articles
+ */
+export async function GET(req: NextRequest) {
+  const date = req.nextUrl.searchParams.get("date") || "";
+  const match = date.match(DATE_PATTERN);
+  if (!match) {
+    return NextResponse.json({ error: "date は YYYY-MM-DD 形式で指定してください" }, { status: 400 });
+  }
+  await waitForCalendarStore();
+  const day = getCalendarDay(
+    parseInt(match[1], 10),
+    parseInt(match[2], 10),
+    parseInt(match[3], 10)
+  );
+  if (!day) {
+    return NextResponse.json({ error: "指定された日付のデータが見つかりません" }, { status: 404 });
+  }
+  return NextResponse.json({ date, derivatives: day.derivatives || [] });
+}
+
+/**
+ * POST /api/calendar/derivatives
+ *   { action: "generate", date, platform, networks? } → write X / Threads / Instagram posts
+ *     from the finished article and store them on the day
+ *   { action: "publish", date, platform, network }    → mark one network's posts as posted
+ */
+export async function POST(req: NextRequest) {
+  try {
+    await waitForCalendarStore();
+    const body = (await req.json()) as PostBody;
+    const slot = parseSlot(body.date, body.platform);
+    if (!slot) {
+      return NextResponse.json({ error: "date と platform が不正です" }, { status: 400 });
+    }
+
+    if (body.action === "publish") {
+      if (!isSnsNetwork(body.network)) {
+        return NextResponse.json(
+          { error: `network は ${SNS_NETWORKS.join(" / ")} のいずれかで指定してください` },
+          { status: 400 }
+        );
+      }
+      const derivative = markSnsDerivativePublished(slot, body.network);
+      return NextResponse.json({ success: true, derivative });
+    }
+
+    if (body.action !== "generate") {
+      return NextResponse.json({ error: "action が不正です" }, { status: 400 });
+    }
+    const networks = Array.isArray(body.networks) ? body.networks.filter(isSnsNetwork) : undefined;
+    if (networks && networks.length === 0) {
+      return NextResponse.json(
+        { error: `networks は ${SNS_NETWORKS.join(" / ")} から指定してください` },
+        { status: 400 }
+      );
+    }
+    const providerConfigError = getLlmProviderConfigError();
+    if (providerConfigError) {
+      return NextResponse.json({ error: providerConfigError }, { status: 401 });
+    }
+    const content = loadArticle(slot, body);
+    if (!content) {
+      return NextResponse.json({ error: "生成済みの記事が見つかりません" }, { status: 404 });
+    }
+    const derivatives = await generateSnsDerivatives({ slot, content, networks });
+    return NextResponse.json({ success: true, derivatives });
+  } catch (err: unknown) {
+    if (isSnsDerivativeError(err)) {
+      return NextResponse.json({ error: err.message }, { status: 400 });
+    }
+    console.error("SNS derivative update failed:", err);
+    const message = err instanceof Error ? err.message : "不明なエラーが発生しました";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { loadCalendarStore } from "@/lib/calendar-engine";
+import {
+  buildCalendarExportRows,
+  renderCalendarCsv,
+  renderCalendarIcs,
+  resolveCalendarExportFormat,
+} from "@/lib/calendar-sync";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/calendar/export?format=ics|csv[&year=2026&month=3]
+ *   → one event / row per platform entry. Without year & month every
+ *     stored month is exported. Months are never created here.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const format = resolveCalendarExportFormat(searchParams.get("format"));
+    if (!format) {
+      return NextResponse.json(
+        { error: "format は ics または csv を指定してください" },
+        { status: 400 }
+      );
+    }
+
+    const yearStr = searchParams.get("year");
+    const monthStr = searchParams.get("month");
+    let calendars = loadCalendarStore().calendars;
+    let fileBase = "takkenai-calendar";
+    if (yearStr || monthStr) {
+      const year = parseInt(yearStr || "", 10);
+      const month = parseInt(monthStr || "", 10);
+      if (isNaN(year) || isNaN(month) || month < 1 || month > 12) {
+        return NextResponse.json({ error: "無効な年月です" }, { status: 400 });
+      }
+      calendars = calendars.filter(
+        (calendar) => calendar.year === year && calendar.month === month
+      );
+      if (calendars.length === 0) {
+        return NextResponse.json(
+          { error: `${year}年${month}月のカレンダーがありません` },
+          { status: 404 }
+        );
+      }
+      fileBase = `${fileBase}-${year}-${String(month).padStart(2, "0")}`;
+    }
+
+    const rows = buildCalendarExportRows(calendars);
+    const body = format === "ics" ? renderCalendarIcs(rows) : renderCalendarCsv(rows);
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type":
+          format === "ics" ? "text/calendar; charset=utf-8" : "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${fileBase}.${format}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (err: unknown) {
+    console.error("Calendar export failed:", err);
+    const message =
+      err instanceof Error ? err.message : "不明なエラーが発生しました";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
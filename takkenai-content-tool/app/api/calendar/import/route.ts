@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { waitForCalendarStore } from "@/lib/calendar-engine";
+import { importCalendarCsv } from "@/lib/calendar-sync";
+
+/**
+ * POST /api/calendar/import[?dryRun=1][&actor=名前]  (body: CSV text, export format)
+ *   → bulk-update status / publishedUrl / skip / assignee / reviewer following
+ *     the editorial workflow (`actor` approves "reviewed"). 400 with per-line errors
+ *     when any row is invalid (nothing is written) or hits a version
+ *     conflict while writing (`updated` lists the rows that were kept).
+ */
+export async function POST(req: NextRequest) {
+  try {
+    await waitForCalendarStore();
+    const { searchParams } = new URL(req.url);
+    const dryRun = ["1", "true"].includes(searchParams.get("dryRun") || "");
+    const text = await req.text();
+    if (!text.trim()) {
+      return NextResponse.json({ error: "CSV が空です" }, { status: 400 });
+    }
+
+    const result = importCalendarCsv(text, {
+      dryRun,
+      actor: searchParams.get("actor") || undefined,
+    });
+    if (result.errors.length > 0) {
+      return NextResponse.json(
+        { error: "CSV の取り込みでエラーがありました", ...result },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(result);
+  } catch (err: unknown) {
+    console.error("Calendar import failed:", err);
+    const message =
+      err instanceof Error ? err.message : "不明なエラーが発生しました";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
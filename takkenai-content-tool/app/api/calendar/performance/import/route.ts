@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { waitForCalendarStore } from "@/lib/calendar-engine";
+import { loadCampaignTrackingTemplates } from "@/lib/campaigns";
+import { importPerformanceCsv } from "@/lib/performance-feedback";
+import { getSiteTrackingSettings, resolveSiteManifest } from "@/lib/site-config";
+
+/**
+ * POST /api/calendar/performance/import[?actor=名前&siteId=...]  (body: CSV text)
+ *   → record post outcomes from a per-post CSV (date, platform, views / likes /
+ *     referralClicks) or a GA4 export by session source and landing page
+ *     (matched against the site's tracking templates).
+ *     400 with per-line errors when any row is invalid (nothing is written);
+ *     GA4 rows without a matching published post are listed in `unmatched`.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    await waitForCalendarStore();
+    const { searchParams } = new URL(req.url);
+    const text = await req.text();
+    if (!text.trim()) {
+      return NextResponse.json({ error: "CSV が空です" }, { status: 400 });
+    }
+
+    const result = importPerformanceCsv(text, {
+      actor: searchParams.get("actor") || undefined,
+      tracking: getSiteTrackingSettings(
+        resolveSiteManifest(searchParams.get("siteId") || undefined),
+        loadCampaignTrackingTemplates()
+      ),
+    });
+    if (result.errors.length > 0) {
+      return NextResponse.json(
+        { error: "CSV の取り込みでエラーがありました", ...result },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(result);
+  } catch (err: unknown) {
+    console.error("Performance import failed:", err);
+    const message =
+      err instanceof Error ? err.message : "不明なエラーが発生しました";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
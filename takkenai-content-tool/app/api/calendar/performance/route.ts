@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { waitForCalendarStore } from "@/lib/calendar-engine";
+import {
+  isPerformanceInputError,
+  normalizePerformanceMetrics,
+  recordEntryPerformance,
+} from "@/lib/performance-feedback";
+import { loadPerformanceWeights } from "@/lib/performance-weights";
+import type { Platform } from "@/lib/topic-engine";
+
+/** GET /api/calendar/performance → current multipliers (`weights: null` before any outcome is recorded) */
+export async function GET() {
+  return NextResponse.json({ weights: loadPerformanceWeights() });
+}
+
+/**
+ * POST /api/calendar/performance  { date, platform, views?, likes?, referralClicks?, actor? }
+ *   → record outcomes of a published post and refresh the weights used by
+ *     topic selection. Omitted metrics keep their stored value.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    await waitForCalendarStore();
+    const body = (await req.json()) as Record<string, unknown>;
+    const metrics = normalizePerformanceMetrics(body);
+    const day = recordEntryPerformance(
+      String(body.date || ""),
+      String(body.platform || "") as Platform,
+      metrics,
+      { actor: typeof body.actor === "string" ? body.actor : undefined }
+    );
+    return NextResponse.json({ day, weights: loadPerformanceWeights() });
+  } catch (err: unknown) {
+    if (isPerformanceInputError(err)) {
+      return NextResponse.json({ error: err.message }, { status: 400 });
+    }
+    console.error("Performance record failed:", err);
+    const message =
+      err instanceof Error ? err.message : "不明なエラーが発生しました";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { previewTopicMix } from "@/lib/topic-engine";
+import { resolveSiteManifest } from "@/lib/site-config";
+import { parseTopicMix } from "@/lib/topic-mix";
+
+/**
+ * POST /api/calendar/preview { year, month, topicMix? }
+ *   → dry run of the topic mix for a month: asset-type distribution per
+ *     platform / phase / weekday plus every slot, without saving anything.
+ *     `topicMix` previews an unsaved manifest section (400 with `issues`
+ *     when it is invalid); otherwise the default site manifest's mix — the
+ *     one regenerateCalendar uses — is previewed. `configIssues` lists the
+ *     manifest sections that were invalid and fell back to their defaults.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const { year, month, topicMix } = body as {
+      year?: number | string;
+      month?: number | string;
+      topicMix?: unknown;
+    };
+
+    const yearNum = parseInt(String(year ?? ""), 10);
+    const monthNum = parseInt(String(month ?? ""), 10);
+    if (isNaN(yearNum) || isNaN(monthNum) || monthNum < 1 || monthNum > 12) {
+      return NextResponse.json(
+        { error: "year と month（1〜12）は必須です" },
+        { status: 400 }
+      );
+    }
+
+    const manifest = resolveSiteManifest();
+    let mix = manifest.topicMix;
+    if (topicMix !== undefined) {
+      const parsed = parseTopicMix(topicMix);
+      if (parsed.issues.length > 0) {
+        return NextResponse.json(
+          { error: "topicMix の設定が不正です", issues: parsed.issues },
+          { status: 400 }
+        );
+      }
+      mix = parsed.mix;
+    }
+
+    const startDate = `${yearNum}-${String(monthNum).padStart(2, "0")}-01`;
+    const days = new Date(yearNum, monthNum, 0).getDate();
+    const preview = previewTopicMix(startDate, days, { topicMix: mix });
+    return NextResponse.json({
+      siteId: manifest.siteId,
+      source: topicMix !== undefined ? "request" : "manifest",
+      topicMix: mix,
+      configIssues: manifest.configIssues || [],
+      ...preview,
+    });
+  } catch (err: unknown) {
+    console.error("Topic mix preview failed:", err);
+    const message =
+      err instanceof Error ? err.message : "不明なエラーが発生しました";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
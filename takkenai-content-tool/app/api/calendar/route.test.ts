@@ -0,0 +1,109 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { NextRequest } from "next/server";
+
+import { getOrCreateCalendar, updatePlatformEntry } from "../../../lib/calendar-engine";
+import { withTempCalendar } from "../../../lib/calendar-test-helpers";
+import { getNoteInternalLinkPoolStatus } from "../../../lib/note-internal-link-pool";
+import { PATCH } from "./route";
+import { POST as postComment, PATCH as patchComment } from "./comments/route";
+
+function request(method: string, route: string, body: unknown): NextRequest {
+  return new NextRequest(`http://localhost${route}`, { method, body: JSON.stringify(body) });
+}
+
+const TARGET = { date: "2026-03-01", platform: "note" };
+
+test("PATCH /api/calendar rejects publishing before review and records the approval", async () => {
+  await withTempCalendar(async () => {
+    getOrCreateCalendar(2026, 3);
+    updatePlatformEntry(2026, 3, 1, "note", {
+      status: "generated",
+      generatedBody: "導入\n\n本文の段落です。",
+    });
+
+    const early = await PATCH(request("PATCH", "/api/calendar", { ...TARGET, status: "published" }));
+    assert.equal(early.status, 400);
+    assert.match((await early.json()).error, /変更できません/);
+
+    const assigned = await PATCH(
+      request("PATCH", "/api/calendar", { ...TARGET, assignee: "佐藤", reviewer: "田中" })
+    );
+    assert.equal(assigned.status, 200);
+
+    const commented = await postComment(
+      request("POST", "/api/calendar/comments", {
+        ...TARGET,
+        author: "田中",
+        body: "出典を追記してください",
+        paragraphIndex: 1,
+      })
+    );
+    const thread = (await commented.json()).day.platforms.note.reviewComments[0];
+    assert.equal(thread.paragraphExcerpt, "本文の段落です。");
+
+    const blocked = await PATCH(
+      request("PATCH", "/api/calendar", { ...TARGET, status: "reviewed", actor: "田中" })
+    );
+    assert.equal(blocked.status, 400);
+    assert.match((await blocked.json()).error, /未解決/);
+
+    await patchComment(
+      request("PATCH", "/api/calendar/comments", {
+        ...TARGET,
+        commentId: thread.id,
+        resolved: true,
+        actor: "佐藤",
+      })
+    );
+    const approved = await PATCH(
+      request("PATCH", "/api/calendar", { ...TARGET, status: "reviewed", actor: "田中" })
+    );
+    assert.equal(approved.status, 200);
+
+    const published = await PATCH(
+      request("PATCH", "/api/calendar", {
+        ...TARGET,
+        status: "published",
+        actor: "佐藤",
+        publishedUrl: "https://note.com/takken_ai/n/n0001",
+      })
+    );
+    assert.equal(published.status, 200);
+    const entry = (await published.json()).day.platforms.note;
+    assert.equal(entry.status, "published");
+    assert.equal(entry.reviewedBy, "田中");
+    assert.deepEqual(
+      entry.statusHistory.map((item: { to: string }) => item.to),
+      ["reviewed", "published"]
+    );
+  });
+});
+
+test("PATCH /api/calendar adds the note URL to the link pool only when the entry is published", async () => {
+  await withTempCalendar(async () => {
+    getOrCreateCalendar(2026, 3);
+    for (const day of [1, 2]) {
+      updatePlatformEntry(2026, 3, day, "note", { status: "reviewed", reviewedBy: "田中" });
+    }
+    const publish = (date: string, body: Record<string, unknown>) =>
+      PATCH(request("PATCH", "/api/calendar", { date, platform: "note", status: "published", ...body }));
+
+    const first = await publish("2026-03-01", { publishedUrl: "https://note.com/takken_ai/n/n0001" });
+    assert.equal(first.status, 200);
+    assert.deepEqual(getNoteInternalLinkPoolStatus().allowedAccounts, ["takken_ai"]);
+
+    const otherAccount = await publish("2026-03-02", { publishedUrl: "https://note.com/someone/n/n0002" });
+    assert.equal(otherAccount.status, 400);
+    assert.match((await otherAccount.json()).error, /someone/);
+
+    const stale = await publish("2026-03-02", {
+      publishedUrl: "https://note.com/takken_ai/n/n0002",
+      expectedVersion: 0,
+    });
+    assert.equal(stale.status, 409);
+
+    assert.equal(getNoteInternalLinkPoolStatus().count, 1);
+    assert.equal(getOrCreateCalendar(2026, 3).days[1].platforms.note!.status, "reviewed");
+  });
+});
@@ -3,16 +3,26 @@ import {
   getOrCreateCalendar,
   regenerateCalendar,
   getCalendarDay,
-  updatePlatformEntry,
+  updatePlatformEntryWith,
   loadCalendarStore,
+  getEntryVersion,
+  isCalendarVersionConflictError,
   type MonthCalendar,
   type ContentStatus,
+  waitForCalendarStore,
 } from "@/lib/calendar-engine";
 import type { Platform } from "@/lib/topic-engine";
 import {
+  checkPublishedNoteUrl,
   normalizeNoteArticleUrl,
   registerPublishedNoteUrl,
 } from "@/lib/note-internal-link-pool";
+import {
+  buildStatusTransitionUpdates,
+  checkStatusTransition,
+  isEditorialWorkflowError,
+  normalizeAssignment,
+} from "@/lib/editorial-workflow";
 
 export async function GET(req: NextRequest) {
   const { searchParams } = new URL(req.url);
@@ -48,12 +58,14 @@ export async function GET(req: NextRequest) {
   }
 
   // Re-load through engine to auto-refresh pending topics with latest rules.
+  await waitForCalendarStore();
   const calendar = getOrCreateCalendar(year, month);
   return NextResponse.json(calendar);
 }
 
 export async function POST(req: NextRequest) {
   try {
+    await waitForCalendarStore();
     const body = await req.json();
     const { year, month, regenerate } = body;
 
@@ -93,19 +105,46 @@ export async function POST(req: NextRequest) {
   }
 }
 
+/**
+ * PATCH /api/calendar { date, platform, status?, publishedUrl?, expectedVersion?,
+ *                       actor?, reason?, assignee?, reviewer? }
+ *   → status changes follow the editorial workflow (see EDITORIAL_TRANSITIONS);
+ *     illegal transitions are rejected with 400. assignee / reviewer ("" clears)
+ *     can be updated with or without a status change.
+ */
 export async function PATCH(req: NextRequest) {
   try {
+    await waitForCalendarStore();
     const body = await req.json();
-    const { date, platform, status, publishedUrl } = body as {
+    const { date, platform, status, publishedUrl, expectedVersion, actor, reason } = body as {
       date: string;
       platform: Platform;
-      status: ContentStatus;
+      status?: ContentStatus;
       publishedUrl?: string;
+      expectedVersion?: number;
+      actor?: string;
+      reason?: string;
+    };
+    const assignmentUpdates = {
+      ...("assignee" in body ? { assignee: normalizeAssignment(body.assignee) } : {}),
+      ...("reviewer" in body ? { reviewer: normalizeAssignment(body.reviewer) } : {}),
     };
 
-    if (!date || !platform || !status) {
+    if (!date || !platform || (!status && Object.keys(assignmentUpdates).length === 0)) {
+      return NextResponse.json(
+        { error: "date, platform と status（または assignee / reviewer）は必須です" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      expectedVersion !== undefined &&
+      (typeof expectedVersion !== "number" ||
+        !Number.isInteger(expectedVersion) ||
+        expectedVersion < 0)
+    ) {
       return NextResponse.json(
-        { error: "date, platform, status は必須です" },
+        { error: "expectedVersion は0以上の整数で指定してください" },
         { status: 400 }
       );
     }
@@ -123,7 +162,8 @@ export async function PATCH(req: NextRequest) {
     const day = parseInt(match[3], 10);
 
     const calendarDay = getCalendarDay(year, month, day);
-    if (!calendarDay) {
+    const entry = calendarDay?.platforms[platform];
+    if (!calendarDay || !entry) {
       return NextResponse.json(
         { error: "指定された日付のデータが見つかりません" },
         { status: 404 }
@@ -146,34 +186,71 @@ export async function PATCH(req: NextRequest) {
       );
     }
 
-    const nowIso = new Date().toISOString();
-    if (status === "published" && platform === "note" && normalizedPublishedUrl) {
-      try {
-        const sourceEntry = calendarDay.platforms.note;
-        registerPublishedNoteUrl({
-          url: normalizedPublishedUrl,
-          title: sourceEntry.generatedTitle || sourceEntry.titleSuggestion || "",
-          date,
-          publishedAt: nowIso,
-          contentKey: "standard",
-        });
-      } catch (error) {
-        const message = error instanceof Error ? error.message : "note URL の登録に失敗しました";
-        return NextResponse.json({ error: message }, { status: 400 });
-      }
+    const currentVersion = getEntryVersion(entry);
+    if (expectedVersion !== undefined && expectedVersion !== currentVersion) {
+      return NextResponse.json(
+        {
+          error: "他の操作で更新されています。再読み込みしてから再実行してください。",
+          currentVersion,
+          day: calendarDay,
+        },
+        { status: 409 }
+      );
+    }
+
+    const transitionContext = { actor, reason };
+    const violation = status
+      ? checkStatusTransition(
+          { ...entry, ...assignmentUpdates },
+          status,
+          transitionContext
+        )
+      : null;
+    if (violation) {
+      return NextResponse.json(
+        { error: violation, currentVersion, day: calendarDay },
+        { status: 400 }
+      );
     }
 
-    const result = updatePlatformEntry(year, month, day, platform, {
-      status,
-      ...(status === "published"
-        ? {
-            publishedAt: nowIso,
-            ...(platform === "note" && normalizedPublishedUrl
-              ? { publishedUrl: normalizedPublishedUrl }
-              : {}),
-          }
-        : {}),
-    });
+    const registersNoteUrl =
+      status === "published" && platform === "note" && !!normalizedPublishedUrl;
+    const noteUrlViolation = registersNoteUrl
+      ? checkPublishedNoteUrl(normalizedPublishedUrl)
+      : null;
+    if (noteUrlViolation) {
+      return NextResponse.json({ error: noteUrlViolation }, { status: 400 });
+    }
+
+    const nowIso = new Date().toISOString();
+
+    const result = updatePlatformEntryWith(
+      year,
+      month,
+      day,
+      platform,
+      (entry) => {
+        if (!status) return assignmentUpdates;
+        // Re-checked against the entry inside the transaction.
+        const transition = buildStatusTransitionUpdates(
+          { ...entry, ...assignmentUpdates },
+          status,
+          transitionContext,
+          nowIso
+        );
+        return {
+          ...assignmentUpdates,
+          ...transition,
+          ...(status === "published" && entry.status !== "published"
+            ? { publishedAt: nowIso }
+            : {}),
+          ...(status === "published" && platform === "note" && normalizedPublishedUrl
+            ? { publishedUrl: normalizedPublishedUrl }
+            : {}),
+        };
+      },
+      { expectedVersion }
+    );
 
     if (!result) {
       return NextResponse.json(
@@ -182,8 +259,30 @@ export async function PATCH(req: NextRequest) {
       );
     }
 
+    // Only once the entry is saved, so a conflict or a rejected transition
+    // never leaves the URL in the internal-link pool.
+    if (registersNoteUrl) {
+      const saved = result.platforms.note;
+      registerPublishedNoteUrl({
+        url: normalizedPublishedUrl,
+        title: saved?.generatedTitle || saved?.titleSuggestion || "",
+        date,
+        publishedAt: nowIso,
+        contentKey: "standard",
+      });
+    }
+
     return NextResponse.json({ success: true, day: result });
   } catch (err: unknown) {
+    if (isCalendarVersionConflictError(err)) {
+      return NextResponse.json(
+        { error: err.message, currentVersion: err.currentVersion },
+        { status: 409 }
+      );
+    }
+    if (isEditorialWorkflowError(err)) {
+      return NextResponse.json({ error: err.message }, { status: 400 });
+    }
     console.error("Calendar update failed:", err);
     const message =
       err instanceof Error ? err.message : "不明なエラーが発生しました";
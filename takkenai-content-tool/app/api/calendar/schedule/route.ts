@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  isCalendarScheduleError,
+  moveCalendarEntry,
+  pinTopic,
+  swapCalendarDays,
+  unpinTopic,
+  type CalendarSlot,
+  waitForCalendarStore,
+} from "@/lib/calendar-engine";
+import { isPlatform } from "@/lib/platform-registry";
+import type { TopicPinTarget } from "@/lib/topic-engine";
+import type { TopicAssetType } from "@/lib/topic-mix";
+
+const ASSET_TYPES: TopicAssetType[] = ["knowledge-point", "tool", "past-question"];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function parseSlot(date: unknown, platform: unknown): CalendarSlot | null {
+  const dateStr = String(date || "");
+  if (!DATE_PATTERN.test(dateStr) || !isPlatform(platform)) return null;
+  return { date: dateStr, platform };
+}
+
+function parsePinTarget(body: Record<string, unknown>): TopicPinTarget | null {
+  const assetType = String(body.assetType || "") as TopicAssetType;
+  const assetId = String(body.assetId || "").trim();
+  const takkenaiUrl = String(body.takkenaiUrl || "").trim();
+  if (assetType || assetId) {
+    if (!ASSET_TYPES.includes(assetType) || !assetId) return null;
+    return { assetType, assetId };
+  }
+  return takkenaiUrl ? { takkenaiUrl } : null;
+}
+
+function badRequest(error: string) {
+  return NextResponse.json({ error }, { status: 400 });
+}
+
+/**
+ * POST /api/calendar/schedule
+ *   { action: "pin", date, platform, assetType + assetId | takkenaiUrl, actor? }
+ *   { action: "unpin", date, platform }
+ *   { action: "swap", date, otherDate, actor? }
+ *   { action: "move", date, platform, toDate, toPlatform?, actor? }
+ *   → manual scheduling on top of the generated calendar. Only pending
+ *     entries can be changed; pinned topics survive refresh and regenerate,
+ *     and nearby pending entries are re-planned around them. Rejected
+ *     changes return 400.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    await waitForCalendarStore();
+    const body = (await req.json()) as Record<string, unknown>;
+    const actor = typeof body.actor === "string" ? body.actor : undefined;
+    const action = String(body.action || "");
+
+    switch (action) {
+      case "pin": {
+        const slot = parseSlot(body.date, body.platform);
+        if (!slot) return badRequest("date と platform が不正です");
+        const target = parsePinTarget(body);
+        if (!target) {
+          return badRequest("assetType と assetId、または takkenaiUrl を指定してください");
+        }
+        return NextResponse.json({ success: true, days: [pinTopic(slot, target, { actor })] });
+      }
+      case "unpin": {
+        const slot = parseSlot(body.date, body.platform);
+        if (!slot) return badRequest("date と platform が不正です");
+        return NextResponse.json({ success: true, days: [unpinTopic(slot)] });
+      }
+      case "swap": {
+        const date = String(body.date || "");
+        const otherDate = String(body.otherDate || "");
+        if (!DATE_PATTERN.test(date) || !DATE_PATTERN.test(otherDate)) {
+          return badRequest("date と otherDate が不正です");
+        }
+        const result = swapCalendarDays(date, otherDate, { actor });
+        return NextResponse.json({ success: true, ...result });
+      }
+      case "move": {
+        const from = parseSlot(body.date, body.platform);
+        const to = parseSlot(body.toDate, body.toPlatform || body.platform);
+        if (!from || !to) return badRequest("移動元・移動先の date と platform が不正です");
+        return NextResponse.json({
+          success: true,
+          days: moveCalendarEntry(from, to, { actor }),
+        });
+      }
+      default:
+        return badRequest("action は pin / unpin / swap / move のいずれかです");
+    }
+  } catch (err: unknown) {
+    if (isCalendarScheduleError(err)) {
+      return NextResponse.json({ error: err.message }, { status: 400 });
+    }
+    console.error("Calendar schedule update failed:", err);
+    const message =
+      err instanceof Error ? err.message : "不明なエラーが発生しました";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  deleteCampaign,
+  isCampaignValidationError,
+  loadCampaigns,
+  parseCampaignInput,
+  planCampaignSlots,
+  saveCampaign,
+  type Campaign,
+} from "@/lib/campaigns";
+import { syncStoredCalendars, waitForCalendarStore } from "@/lib/calendar-engine";
+
+export const dynamic = "force-dynamic";
+
+function withSlots(campaign: Campaign) {
+  return { ...campaign, slots: planCampaignSlots(campaign).slots };
+}
+
+/** Re-plan stored months covered by any of the given campaign versions. */
+function syncCampaignRange(campaigns: Array<Campaign | undefined>): void {
+  const present = campaigns.filter((campaign): campaign is Campaign => Boolean(campaign));
+  if (present.length === 0) return;
+  const from = present.map((campaign) => campaign.startDate).sort()[0];
+  const to = present.map((campaign) => campaign.endDate).sort().reverse()[0];
+  syncStoredCalendars(from, to);
+}
+
+function handleError(err: unknown, label: string) {
+  if (isCampaignValidationError(err)) {
+    return NextResponse.json({ error: err.message, issues: err.issues }, { status: 400 });
+  }
+  console.error(`${label}:`, err);
+  const message = err instanceof Error ? err.message : "不明なエラーが発生しました";
+  return NextResponse.json({ error: message }, { status: 500 });
+}
+
+/** GET /api/campaigns → stored campaigns with the slot each part lands on */
+export async function GET() {
+  try {
+    return NextResponse.json({ campaigns: loadCampaigns().map(withSlots) });
+  } catch (err: unknown) {
+    return handleError(err, "Campaign list failed");
+  }
+}
+
+/**
+ * POST /api/campaigns
+ *   { id?, name, startDate, endDate, platforms, parts, ordering?, intervalDays?, actor? }
+ *   → create a campaign (or replace the one with `id`) and re-plan the stored
+ *     months it covers. Invalid input or overlapping slots return 400 with `issues`.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    await waitForCalendarStore();
+    const body = (await req.json()) as Record<string, unknown>;
+    const { campaign: input, issues } = parseCampaignInput(body);
+    if (!input) {
+      return NextResponse.json({ error: issues.join(" / "), issues }, { status: 400 });
+    }
+    const previous = input.id ? loadCampaigns().find((item) => item.id === input.id) : undefined;
+    const actor = typeof body.actor === "string" ? body.actor : undefined;
+    const campaign = saveCampaign(input, actor);
+    syncCampaignRange([previous, campaign]);
+    return NextResponse.json({ success: true, campaign: withSlots(campaign) });
+  } catch (err: unknown) {
+    return handleError(err, "Campaign save failed");
+  }
+}
+
+/** DELETE /api/campaigns?id=... → remove a campaign; its pending slots are re-planned */
+export async function DELETE(req: NextRequest) {
+  try {
+    await waitForCalendarStore();
+    const id = req.nextUrl.searchParams.get("id") || "";
+    const removed = id ? deleteCampaign(id) : undefined;
+    if (!removed) {
+      return NextResponse.json({ error: "キャンペーンが見つかりません" }, { status: 404 });
+    }
+    syncCampaignRange([removed]);
+    return NextResponse.json({ success: true });
+  } catch (err: unknown) {
+    return handleError(err, "Campaign delete failed");
+  }
+}
@@ -0,0 +1,217 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { NextRequest } from "next/server";
+
+import { setCassetteLiveFetch } from "../../lib/cassette";
+import { POST as generatePost } from "./generate/route";
+import { POST as generateImagePost } from "./generate-image/route";
+import { POST as optimizeSeoGeoPost } from "./optimize-seo-geo/route";
+
+// End-to-end runs of the AI routes: record once against a scripted upstream,
+// then replay with the network disabled and expect the same outcome.
+
+// 32x18 (16:9) with varied pixels, so it clears the cover image heuristics
+const PNG_BASE64 =
+  "iVBORw0KGgoAAAANSUhEUgAAACAAAAASCAIAAAC1qksFAAABMklEQVR42mNgeHhocUuqmzrHy1Ore3L99AU+Xto8pTTMXOLnrd1zauPsFRgfHV7Smuauwfnq9JrePH8DwU+Xt0wtC7eQ/HV7z9y6eAdFpsdHlrale2hyvT6zti8/wFDo85Wt08ojLKV+39k7r55hfkOikzLL02PLOzK9tHnenls/oTDIWOTrte0zKqOsZf7e27+gMclZhfXZ8RWdWd46vO/Ob5hYFGwi+u36jplV0Tay/+4fWNiU7KLK9vzEyq5sH12+9xc2TioOMRX7fmPnrOoYWzkGO3na+oHh7j7a+oGhJpa2fmCQ/kNbPzDsmk1bPzBEWtHWDww/btLWDwzTK2jrBwYzcdr6geHqNtr6gaEklLZ+YBD+Qls/MGyaTFs/MAQa0dYPDB8u0tYPDP0FtPUDAAuXWW5nhlQAAAAAAElFTkSuQmCC";
+
+function jsonResponse(payload: unknown): Response {
+  return new Response(JSON.stringify(payload), {
+    status: 200,
+    headers: { "content-type": "application/json" },
+  });
+}
+
+/** Line-by-line stand-in translation that satisfies the Chinese completeness checks. */
+function fakeChinese(japanese: string): string {
+  return japanese
+    .split("\n")
+    .map((line) => {
+      const trimmed = line.trim();
+      if (!trimmed) return "";
+      if (/^##+\s/.test(trimmed)) return `${trimmed.match(/^##+/)?.[0]} 中文小节标题`;
+      if (/^(?:[-*]|\d+\.)\s/.test(trimmed)) return "- 中文要点说明";
+      return "这是中文翻译内容。".repeat(Math.max(1, Math.ceil(trimmed.length / 9)));
+    })
+    .join("\n");
+}
+
+/** Chat-completions upstream: translations are answered, everything else gets "{}". */
+const fakeLlmUpstream = (async (_input: RequestInfo | URL, init?: RequestInit) => {
+  const payload = JSON.parse(String(init?.body || "{}")) as {
+    messages?: Array<{ role: string; content: string }>;
+  };
+  const userPrompt =
+    (payload.messages || []).find((message) => message.role === "user")?.content || "";
+  let content = "{}";
+  if (userPrompt.startsWith("以下の日本語ブログ記事を中国語")) {
+    const body = (userPrompt.split("本文:\n")[1] || "").split("\n\n以下のJSON形式")[0];
+    content = JSON.stringify({ titleChinese: "宅建学习要点", bodyChinese: fakeChinese(body) });
+  } else if (userPrompt.startsWith("请将下面的日文Markdown正文")) {
+    content = fakeChinese(userPrompt.split("正文：\n")[1] || "");
+  } else if (userPrompt.startsWith("请将下面的日文标题")) {
+    content = "宅建学习要点";
+  }
+  return jsonResponse({ choices: [{ message: { content } }] });
+}) as typeof fetch;
+
+/** Gemini-style image upstream: draws a "cover" and passes the readability QA. */
+const fakeImageUpstream = (async (_input: RequestInfo | URL, init?: RequestInit) => {
+  const payload = JSON.parse(String(init?.body || "{}")) as {
+    contents?: Array<{ parts?: Array<{ text?: string }> }>;
+    generationConfig?: { responseModalities?: string[] };
+  };
+  const prompt = payload.contents?.[0]?.parts?.[0]?.text || "";
+  const isQa = (payload.generationConfig?.responseModalities || []).join() === "TEXT";
+  const parts = isQa
+    ? [
+        {
+          text: JSON.stringify({
+            pass: true,
+            issues: [],
+            observedTexts: (prompt.match(/期待テキスト例: (.*)/)?.[1] || "").split(" / "),
+          }),
+        },
+      ]
+    : [{ inlineData: { mimeType: "image/png", data: PNG_BASE64 } }];
+  return jsonResponse({ candidates: [{ content: { parts } }] });
+}) as typeof fetch;
+
+const offlineFetch = (async () => {
+  throw new Error("outbound calls are disabled during replay");
+}) as typeof fetch;
+
+const ENV_KEYS = [
+  "CASSETTE_MODE",
+  "CASSETTE_DIR",
+  "LLM_PROVIDER",
+  "OPENROUTER_API_KEY",
+  "CLOSEAI_API_KEY",
+] as const;
+
+/**
+ * Runs `send` once in record mode against `upstream` and once in replay mode
+ * with the network disabled, inside a throwaway working directory.
+ */
+async function recordThenReplay(
+  upstream: typeof fetch,
+  send: () => Promise<Response>
+): Promise<{ recorded: Record<string, unknown>; replayed: Record<string, unknown>; dir: string }> {
+  const previousEnv = ENV_KEYS.map((name) => [name, process.env[name]] as const);
+  const previousCwd = process.cwd();
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), "cassette-e2e-"));
+  const cassetteDir = path.join(workDir, "cassettes");
+  process.chdir(workDir);
+  process.env.CASSETTE_DIR = cassetteDir;
+  process.env.LLM_PROVIDER = "openrouter";
+  process.env.OPENROUTER_API_KEY = "test-openrouter-key";
+  process.env.CLOSEAI_API_KEY = "test-closeai-key";
+
+  try {
+    process.env.CASSETTE_MODE = "record";
+    setCassetteLiveFetch(upstream);
+    const recordedRes = await send();
+    const recorded = (await recordedRes.json()) as Record<string, unknown>;
+    assert.equal(recordedRes.status, 200, String(recorded.error || ""));
+
+    process.env.CASSETTE_MODE = "replay";
+    setCassetteLiveFetch(offlineFetch);
+    const replayedRes = await send();
+    const replayed = (await replayedRes.json()) as Record<string, unknown>;
+    assert.equal(replayedRes.status, 200, String(replayed.error || ""));
+    return { recorded, replayed, dir: cassetteDir };
+  } finally {
+    setCassetteLiveFetch(null);
+    process.chdir(previousCwd);
+    for (const [name, value] of previousEnv) {
+      if (value === undefined) delete process.env[name];
+      else process.env[name] = value;
+    }
+  }
+}
+
+function postJson(route: string, body: unknown): NextRequest {
+  return new NextRequest(`http://localhost${route}`, {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+}
+
+test("POST /api/generate replays offline from cassettes", async () => {
+  const { recorded, replayed, dir } = await recordThenReplay(fakeLlmUpstream, () =>
+    generatePost(
+      postJson("/api/generate", {
+        date: "2026-03-01",
+        platform: "ameba",
+        siteId: "cassette-e2e",
+        mode: "shadow",
+      })
+    )
+  );
+  assert.ok(fs.readdirSync(path.join(dir, "llm")).length > 0);
+  // Each run leaves a pipeline trace next to the generated JSON.
+  const traceFile = path.join(
+    path.dirname(dir),
+    "data/skill-sandbox/cassette-e2e/generated/traces/2026-03-01-ameba.json"
+  );
+  const { traces } = JSON.parse(fs.readFileSync(traceFile, "utf-8")) as {
+    traces: Array<{ id: string; steps: Array<{ name: string }> }>;
+  };
+  assert.equal(traces.length, 2);
+  assert.deepEqual(
+    ["topic-resolution", "generate-attempt", "draft", "translation"].filter(
+      (name) => !traces[1].steps.some((step) => step.name === name)
+    ),
+    []
+  );
+  assert.equal((replayed.meta as { traceId?: string }).traceId, traces[1].id);
+  assert.equal(replayed.title, recorded.title);
+  assert.equal(replayed.body, recorded.body);
+  assert.equal(replayed.bodyChinese, recorded.bodyChinese);
+});
+
+test("POST /api/generate-image replays a cover offline from cassettes", async () => {
+  const { replayed, dir } = await recordThenReplay(fakeImageUpstream, () =>
+    generateImagePost(
+      postJson("/api/generate-image", {
+        date: "2026-03-01",
+        platform: "ameba",
+        articleTitle: "宅建の権利関係を攻略する3つのコツ",
+        articleBody: "## 権利関係\n\n宅建試験の権利関係は、民法の基本を押さえることが大切です。",
+        imageType: "cover",
+        imageProviderPreference: "closeai",
+        siteId: "cassette-e2e",
+        mode: "shadow",
+      })
+    )
+  );
+  // one image call + one readability QA call
+  assert.ok(fs.readdirSync(path.join(dir, "cover-image")).length >= 2);
+  assert.equal(replayed.saved, true);
+  assert.equal(replayed.qualityCheck, "pass");
+});
+
+test("POST /api/optimize-seo-geo replays offline from cassettes", async () => {
+  const { recorded, replayed } = await recordThenReplay(fakeLlmUpstream, () =>
+    optimizeSeoGeoPost(
+      postJson("/api/optimize-seo-geo", {
+        date: "2026-03-01",
+        platform: "ameba",
+        siteId: "cassette-e2e",
+        mode: "shadow",
+        takkenaiUrl: "https://takkenai.jp/",
+        maxRounds: 1,
+        content: {
+          title: "宅建の権利関係を攻略するコツ",
+          body: "## 権利関係\n\n宅建試験の権利関係は、民法の基本を押さえることが大切です。",
+        },
+      })
+    )
+  );
+  const recordedContent = recorded.content as { body?: string };
+  const replayedContent = replayed.content as { body?: string };
+  assert.ok(replayedContent.body);
+  assert.equal(replayedContent.body, recordedContent.body);
+});
@@ -10,7 +10,7 @@ import {
   type SkillRunMode,
 } from "@/lib/site-config";
 import { getGeneratedContentFilename, resolveContentKey } from "@/lib/content-variant";
-import type { Platform } from "@/lib/topic-engine";
+import { isPlatform, type Platform } from "@/lib/platform-registry";
 
 const EXPORT_DIR = "/Users/yoyomm/Desktop/takken";
 
@@ -52,7 +52,7 @@ function loadGeneratedFallback(
   contentKey?: "standard" | "note-viral"
 ): GeneratedFallback | null {
   if (!date || !platform) return null;
-  if (!["ameba", "note", "hatena"].includes(platform)) return null;
+  if (!isPlatform(platform)) return null;
   const typedPlatform = platform as Platform;
   const resolvedContentKey = resolveContentKey(typedPlatform, contentKey);
 
@@ -124,9 +124,7 @@ export async function POST(req: NextRequest) {
     let title = (body.title || "").trim();
     let articleBody = (body.body || "").trim();
     const resolvedContentKey = resolveContentKey(
-      body.platform === "ameba" || body.platform === "note" || body.platform === "hatena"
-        ? body.platform
-        : "note",
+      isPlatform(body.platform) ? body.platform : "note",
       body.contentKey
     );
 
@@ -271,9 +269,7 @@ export async function POST(req: NextRequest) {
       title,
       body: articleBody,
       platform:
-        body.platform === "ameba" || body.platform === "note" || body.platform === "hatena"
-          ? body.platform
-          : "note",
+        isPlatform(body.platform) ? body.platform : "note",
       coverImageUrl: markdownCoverSrc,
       inlineImageUrl: markdownInlineSrc,
       inlineImageAlt: sanitizeMarkdownAltText(body.inlineImageAlt || ""),
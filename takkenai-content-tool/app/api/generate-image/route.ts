@@ -5,21 +5,35 @@ import {
   generateCoverImage,
 } from "@/lib/cover-image";
 import { generateInlineImage } from "@/lib/inline-image";
+import { trackUsage } from "@/lib/usage-ledger";
 import {
   DEFAULT_COVER_STYLE,
   getCoverStylesByPlatform,
   isCoverStyleId,
   type CoverStyleId,
 } from "@/lib/cover-style";
-import { resolveCoverProfile, type CoverTextDensity } from "@/lib/cover-profile";
+import {
+  resolveCoverProfile,
+  type CoverRenderMode,
+  type CoverTextDensity,
+} from "@/lib/cover-profile";
 import {
   ensureDirExists,
   resolveGeneratedOutputDir,
   resolveRunContext,
   type SkillRunMode,
 } from "@/lib/site-config";
-import type { Platform } from "@/lib/topic-engine";
+import { isPlatform, type Platform } from "@/lib/platform-registry";
 import { buildCoverApiResponse } from "@/lib/generate-image-response";
+import { getCalendarDay, waitForCalendarStore } from "@/lib/calendar-engine";
+import {
+  isCoverVariantError,
+  normalizeVariantCount,
+  pickCoverVariantStyles,
+  readCoverVariantMeta,
+  writeCoverVariantMeta,
+  type CoverVariantMeta,
+} from "@/lib/cover-variants";
 import {
   getContentFileBase,
   getGeneratedImagePrefix,
@@ -46,6 +60,10 @@ type RequestBody = {
   sectionAlt?: string;
   stylePack?: string;
   textDensity?: CoverTextDensity;
+  /** overrides the manifest's per-style cover.renderModes */
+  coverRenderMode?: CoverRenderMode;
+  /** number of covers to generate, each in a different style (1〜MAX_COVER_VARIANTS) */
+  variants?: number;
   imageProviderPreference?: "closeai" | "openrouter";
   imageModel?: string;
 };
@@ -61,6 +79,23 @@ function resolveImageType(type?: string | null): NormalizedImageType {
   return type === "inline" ? "inline" : "cover";
 }
 
+/**
+ * Returns why images cannot be rendered remotely with `provider`, or null when
+ * they can. Only called when some image is not rendered locally.
+ */
+function checkImageProvider(provider: string): string | null {
+  if (provider !== "closeai" && provider !== "openrouter") {
+    return "画像提供商未指定或不正确。请先明确选择 closeai 或 openrouter 后再生成。";
+  }
+  if (provider === "openrouter" && !(process.env.OPENROUTER_API_KEY || "").trim()) {
+    return "openrouter を選択しましたが、OPENROUTER_API_KEY が設定されていません";
+  }
+  if (provider === "closeai" && !(process.env.CLOSEAI_API_KEY || "").trim()) {
+    return "closeai を選択しましたが、CLOSEAI_API_KEY が設定されていません";
+  }
+  return null;
+}
+
 function isSupportedImageFile(name: string): boolean {
   return /\.(png|jpe?g|webp)$/i.test(name);
 }
@@ -106,6 +141,18 @@ function mimeTypeByExt(fileName: string): string {
   return "image/png";
 }
 
+/** Cover published with the calendar entry, if the editor has picked one. */
+function getPublishedCoverFilename(date: string, platform: Platform): string | null {
+  const match = date.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+  const day = getCalendarDay(
+    parseInt(match[1], 10),
+    parseInt(match[2], 10),
+    parseInt(match[3], 10)
+  );
+  return day?.platforms[platform]?.cover?.filename || null;
+}
+
 function timestampTag(): string {
   const ts = new Date().toISOString().replace(/[-:.TZ]/g, "");
   const rand = Math.random().toString(36).slice(2, 6);
@@ -117,9 +164,7 @@ export async function GET(req: NextRequest) {
   const date = searchParams.get("date");
   const platform = searchParams.get("platform");
   const typedPlatform =
-    platform === "ameba" || platform === "note" || platform === "hatena"
-      ? platform
-      : null;
+    isPlatform(platform) ? platform : null;
   const resolvedContentKey =
     typedPlatform === null
       ? "standard"
@@ -135,9 +180,7 @@ export async function GET(req: NextRequest) {
 
   if (searchParams.get("styles") === "1") {
     const stylePlatform: Platform =
-      platform === "ameba" || platform === "note" || platform === "hatena"
-        ? (platform as Platform)
-        : "note";
+      isPlatform(platform) ? platform : "note";
     const resolvedCover = resolveCoverProfile({
       profile: runContext.manifest.cover,
       platform: stylePlatform,
@@ -195,10 +238,24 @@ export async function GET(req: NextRequest) {
     resolvedContentKey
   );
   if (searchParams.get("list") === "1") {
+    if (imageType !== "cover" || typedPlatform === null) {
+      return NextResponse.json({
+        files,
+        latest: files[0] || null,
+        type: imageType,
+      });
+    }
+    await waitForCalendarStore();
+    const publishedFile = getPublishedCoverFilename(date, typedPlatform);
     return NextResponse.json({
       files,
       latest: files[0] || null,
       type: imageType,
+      items: files.map((file) => ({
+        ...(readCoverVariantMeta(generatedDir, file) || { filename: file }),
+        published: file === publishedFile,
+      })),
+      publishedFile,
     });
   }
 
@@ -254,15 +311,6 @@ export async function POST(req: NextRequest) {
         body.platform || ""
       )} type=${String(body.imageType || "cover")}`
     );
-    if (
-      normalizedImageProviderPreference !== "closeai" &&
-      normalizedImageProviderPreference !== "openrouter"
-    ) {
-      return NextResponse.json(
-        { error: "画像提供商未指定或不正确。请先明确选择 closeai 或 openrouter 后再生成。" },
-        { status: 400 }
-      );
-    }
     const imageProviderPreference = normalizedImageProviderPreference;
     providerDebug = imageProviderPreference;
 
@@ -273,7 +321,7 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    if (!["ameba", "note", "hatena"].includes(platform)) {
+    if (!isPlatform(platform)) {
       return NextResponse.json(
         { error: "無効なプラットフォームです" },
         { status: 400 }
@@ -292,65 +340,116 @@ export async function POST(req: NextRequest) {
     const generatedDir = resolveGeneratedDir(runContext.mode, runContext.siteId);
 
     if (imageType === "cover") {
-      if (
-        imageProviderPreference === "openrouter" &&
-        !(process.env.OPENROUTER_API_KEY || "").trim()
-      ) {
-        return NextResponse.json(
-          { error: "openrouter を選択しましたが、OPENROUTER_API_KEY が設定されていません" },
-          { status: 400 }
-        );
-      }
-      if (
-        imageProviderPreference === "closeai" &&
-        !(process.env.CLOSEAI_API_KEY || "").trim()
-      ) {
-        return NextResponse.json(
-          { error: "closeai を選択しましたが、CLOSEAI_API_KEY が設定されていません" },
-          { status: 400 }
-        );
-      }
-
+      const variantCount = normalizeVariantCount(body.variants);
       const resolvedCover = resolveCoverProfile({
         profile: runContext.manifest.cover,
         platform,
         stylePack,
         textDensity,
         styleId: coverStyle,
+        renderMode: body.coverRenderMode,
       });
-      const styleId = resolveCoverStyle(resolvedCover.styleId);
-      console.log(
-        `[cover-image] mode=${runContext.mode}, site=${runContext.siteId}, platform=${platform}, provider=${imageProviderPreference}, style=${styleId}, density=${resolvedCover.textDensity}, title=${articleTitle.slice(0, 30)}…`
-      );
-
-      const coverResult = await generateCoverImage({
-        title: articleTitle,
-        body: articleBody,
+      const styleIds = pickCoverVariantStyles(
         platform,
-        hashtags: hashtags || [],
+        resolvedCover.availableStyles,
+        variantCount,
+        resolveCoverStyle(resolvedCover.styleId)
+      );
+      // Render modes are configured per style, so each variant resolves its own.
+      const plans = styleIds.map((styleId) => ({
         styleId,
-        imageProviderPreference,
-        imageModel: body.imageModel,
-      });
-
-      const filename = `${contentFileBase}-cover-${styleId}-${timestampTag()}.${coverResult.ext}`;
-      const outputPath = path.join(generatedDir, filename);
-      fs.writeFileSync(outputPath, coverResult.imageBuffer);
+        renderMode: resolveCoverProfile({
+          profile: runContext.manifest.cover,
+          platform,
+          stylePack,
+          textDensity,
+          styleId,
+          renderMode: body.coverRenderMode,
+        }).renderMode,
+      }));
+
+      // Covers rendered locally need no provider, whether the request or the
+      // manifest chose local rendering.
+      const providerError = plans.some((plan) => plan.renderMode !== "local")
+        ? checkImageProvider(imageProviderPreference)
+        : null;
+      if (providerError) {
+        return NextResponse.json({ error: providerError }, { status: 400 });
+      }
 
-      console.log(`[cover-image] saved ${filename} (${coverResult.imageBuffer.length} bytes)`);
+      const variantGroup = timestampTag();
+      const variants: Array<ReturnType<typeof buildCoverApiResponse>> = [];
+      const variantErrors: Array<{ styleId: CoverStyleId; error: string }> = [];
+      let firstError: unknown = null;
+      // One at a time: providers rate-limit image calls per key.
+      for (const { styleId, renderMode } of plans) {
+        console.log(
+          `[cover-image] mode=${runContext.mode}, site=${runContext.siteId}, platform=${platform}, provider=${imageProviderPreference}, render=${renderMode}, style=${styleId}, density=${resolvedCover.textDensity}, variant=${variants.length + variantErrors.length + 1}/${plans.length}, title=${articleTitle.slice(0, 30)}…`
+        );
+        try {
+          const { result: coverResult } = await trackUsage(
+            { operation: "cover-image", date, platform, contentKey: resolvedContentKey },
+            () =>
+              generateCoverImage({
+                title: articleTitle,
+                body: articleBody,
+                platform,
+                hashtags: hashtags || [],
+                styleId,
+                imageProviderPreference: imageProviderPreference || undefined,
+                imageModel: body.imageModel,
+                renderMode,
+              })
+          );
+
+          const filename = `${contentFileBase}-cover-${styleId}-${timestampTag()}.${coverResult.ext}`;
+          const outputPath = path.join(generatedDir, filename);
+          fs.writeFileSync(outputPath, coverResult.imageBuffer);
+          const meta: CoverVariantMeta = {
+            filename,
+            styleId,
+            stylePack: resolvedCover.stylePack,
+            textDensity: resolvedCover.textDensity,
+            variantGroup,
+            variantCount: plans.length,
+            renderedLocally: coverResult.renderedLocally === true,
+            qualityCheck: coverResult.qualityCheck,
+            createdAt: new Date().toISOString(),
+          };
+          writeCoverVariantMeta(generatedDir, meta);
+
+          console.log(`[cover-image] saved ${filename} (${coverResult.imageBuffer.length} bytes)`);
+
+          variants.push(
+            buildCoverApiResponse({
+              filename,
+              coverResult,
+              styleId,
+              stylePack: resolvedCover.stylePack,
+              textDensity: resolvedCover.textDensity,
+              region: resolvedCover.region,
+              siteId: runContext.siteId,
+              mode: runContext.mode,
+            })
+          );
+        } catch (err: unknown) {
+          if (plans.length === 1) throw err;
+          console.error(`[cover-image] variant ${styleId} failed:`, err);
+          firstError = firstError || err;
+          variantErrors.push({
+            styleId,
+            error: err instanceof Error ? err.message : String(err),
+          });
+        }
+      }
+      if (variants.length === 0) throw firstError;
 
-      return NextResponse.json(
-        buildCoverApiResponse({
-          filename,
-          coverResult,
-          styleId,
-          stylePack: resolvedCover.stylePack,
-          textDensity: resolvedCover.textDensity,
-          region: resolvedCover.region,
-          siteId: runContext.siteId,
-          mode: runContext.mode,
-        })
-      );
+      return NextResponse.json({
+        ...variants[0],
+        variantGroup,
+        variants,
+        variantErrors,
+      });
     }
 
     const inlinePrompt = [prompt || "", sectionHeading || "", sectionParagraph || ""]
@@ -371,33 +470,23 @@ export async function POST(req: NextRequest) {
       )}…`
     );
 
-    if (
-      imageProviderPreference === "openrouter" &&
-      !(process.env.OPENROUTER_API_KEY || "").trim()
-    ) {
-      return NextResponse.json(
-        { error: "openrouter を選択しましたが、OPENROUTER_API_KEY が設定されていません" },
-        { status: 400 }
-      );
-    }
-    if (
-      imageProviderPreference === "closeai" &&
-      !(process.env.CLOSEAI_API_KEY || "").trim()
-    ) {
-      return NextResponse.json(
-        { error: "closeai を選択しましたが、CLOSEAI_API_KEY が設定されていません" },
-        { status: 400 }
-      );
+    const providerError = checkImageProvider(imageProviderPreference);
+    if (providerError) {
+      return NextResponse.json({ error: providerError }, { status: 400 });
     }
 
-    const inlineResult = await generateInlineImage({
-      title: articleTitle,
-      body: sectionParagraph || articleBody,
-      platform,
-      prompt: inlinePrompt,
-      imageProviderPreference,
-      imageModel: body.imageModel,
-    });
+    const { result: inlineResult } = await trackUsage(
+      { operation: "inline-image", date, platform, contentKey: resolvedContentKey },
+      () =>
+        generateInlineImage({
+          title: articleTitle,
+          body: sectionParagraph || articleBody,
+          platform,
+          prompt: inlinePrompt,
+          imageProviderPreference: imageProviderPreference || undefined,
+          imageModel: body.imageModel,
+        })
+    );
     const inlineBuffer = inlineResult.imageBuffer;
 
     const filename = `${contentFileBase}-inline-${timestampTag()}.png`;
@@ -420,6 +509,9 @@ export async function POST(req: NextRequest) {
       imageUrl: `/api/generate-image?filename=${encodeURIComponent(filename)}`,
     });
   } catch (err: unknown) {
+    if (isCoverVariantError(err)) {
+      return NextResponse.json({ error: err.message }, { status: 400 });
+    }
     console.error("Image generation failed:", err);
     const rawMessage =
       err instanceof Error ? err.message : "不明なエラーが発生しました";
@@ -0,0 +1,176 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { NextRequest } from "next/server";
+
+import { setCassetteLiveFetch } from "../../../../lib/cassette";
+import { listPipelineTraces, type PipelineTraceTarget } from "../../../../lib/pipeline-trace";
+import {
+  parseGenerationStreamEvents,
+  readGenerationStream,
+  type GenerationStreamEvent,
+} from "../../../../lib/generation-stream-events";
+import { POST } from "./route";
+
+const DRAFT_ANSWER = JSON.stringify({
+  title: "宅建の権利関係を整理する",
+  body: "## 権利関係の基本\n\n宅建試験では権利関係が合否を分けます。",
+});
+
+/** Streamed chat-completions answer, split into small deltas. */
+function sseResponse(content: string): Response {
+  const deltas = content.match(/[\s\S]{1,12}/g) || [];
+  const lines = deltas.map(
+    (delta) => `data: ${JSON.stringify({ choices: [{ delta: { content: delta } }] })}\n\n`
+  );
+  return new Response(`${lines.join("")}data: [DONE]\n\n`, {
+    status: 200,
+    headers: { "content-type": "text/event-stream" },
+  });
+}
+
+/** Line-by-line stand-in translation that satisfies the Chinese completeness checks. */
+function fakeChinese(japanese: string): string {
+  return japanese
+    .split("\n")
+    .map((line) => {
+      const trimmed = line.trim();
+      if (!trimmed) return "";
+      if (/^##+\s/.test(trimmed)) return `${trimmed.match(/^##+/)?.[0]} 中文小节标题`;
+      if (/^(?:[-*]|\d+\.)\s/.test(trimmed)) return "- 中文要点说明";
+      return "这是中文翻译内容。".repeat(Math.max(1, Math.ceil(trimmed.length / 9)));
+    })
+    .join("\n");
+}
+
+/** Drafts are streamed, translations answered, everything else gets "{}". */
+const streamingUpstream = (async (_input: RequestInfo | URL, init?: RequestInit) => {
+  const payload = JSON.parse(String(init?.body || "{}")) as {
+    stream?: boolean;
+    messages?: Array<{ role: string; content: string }>;
+  };
+  if (payload.stream) return sseResponse(DRAFT_ANSWER);
+  const userPrompt =
+    (payload.messages || []).find((message) => message.role === "user")?.content || "";
+  let content = "{}";
+  if (userPrompt.startsWith("以下の日本語ブログ記事を中国語")) {
+    const body = (userPrompt.split("本文:\n")[1] || "").split("\n\n以下のJSON形式")[0];
+    content = JSON.stringify({ titleChinese: "宅建学习要点", bodyChinese: fakeChinese(body) });
+  } else if (userPrompt.startsWith("请将下面的日文Markdown正文")) {
+    content = fakeChinese(userPrompt.split("正文：\n")[1] || "");
+  } else if (userPrompt.startsWith("请将下面的日文标题")) {
+    content = "宅建学习要点";
+  }
+  return new Response(JSON.stringify({ choices: [{ message: { content } }] }), {
+    status: 200,
+    headers: { "content-type": "application/json" },
+  });
+}) as typeof fetch;
+
+const ENV_KEYS = ["CASSETTE_MODE", "LLM_PROVIDER", "OPENROUTER_API_KEY"] as const;
+
+async function inWorkDir<T>(upstream: typeof fetch, run: (workDir: string) => Promise<T>) {
+  const previousEnv = ENV_KEYS.map((name) => [name, process.env[name]] as const);
+  const previousCwd = process.cwd();
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), "generate-stream-"));
+  process.chdir(workDir);
+  delete process.env.CASSETTE_MODE;
+  process.env.LLM_PROVIDER = "openrouter";
+  process.env.OPENROUTER_API_KEY = "test-openrouter-key";
+  setCassetteLiveFetch(upstream);
+  try {
+    return await run(workDir);
+  } finally {
+    setCassetteLiveFetch(null);
+    process.chdir(previousCwd);
+    for (const [name, value] of previousEnv) {
+      if (value === undefined) delete process.env[name];
+      else process.env[name] = value;
+    }
+  }
+}
+
+function streamRequest(siteId: string): NextRequest {
+  return new NextRequest("http://localhost/api/generate/stream", {
+    method: "POST",
+    body: JSON.stringify({
+      date: "2026-03-01",
+      platform: "ameba",
+      siteId,
+      mode: "shadow",
+      enableResearch: false,
+    }),
+  });
+}
+
+test("POST /api/generate/stream reports stages and the draft before the saved content", async () => {
+  await inWorkDir(streamingUpstream, async () => {
+    const res = await POST(streamRequest("stream-e2e"));
+    assert.equal(res.headers.get("content-type"), "text/event-stream; charset=utf-8");
+    assert.ok(res.body);
+
+    const events: GenerationStreamEvent[] = [];
+    await readGenerationStream(res.body, (item) => events.push(item));
+    const last = events[events.length - 1];
+    assert.equal(last.event, "complete", JSON.stringify(last.data));
+
+    const stages = events.flatMap((item) => (item.event === "stage" ? [item.data.stage] : []));
+    assert.equal(stages[0], "topic");
+    for (const stage of ["draft", "review", "final-check", "scoring", "translation", "saving"]) {
+      assert.ok(stages.includes(stage as (typeof stages)[number]), `missing stage ${stage}`);
+    }
+    assert.ok(stages.indexOf("draft") < stages.indexOf("translation"));
+
+    const drafts = events.flatMap((item) => (item.event === "draft" ? [item.data.text] : []));
+    assert.ok(drafts.length > 0);
+    assert.ok(drafts.some((text) => text.startsWith("## 権利関係の基本")));
+  });
+});
+
+test("closing the stream aborts the model call and nothing is saved", async () => {
+  let upstreamAborted = false;
+  const hangingUpstream = ((_input: RequestInfo | URL, init?: RequestInit) =>
+    new Promise<Response>((_resolve, reject) => {
+      init?.signal?.addEventListener("abort", () => {
+        upstreamAborted = true;
+        reject(Object.assign(new Error("aborted"), { name: "AbortError" }));
+      });
+    })) as typeof fetch;
+
+  await inWorkDir(hangingUpstream, async (workDir) => {
+    const res = await POST(streamRequest("stream-cancel"));
+    const reader = res.body!.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let sawDraftStage = false;
+    while (!sawDraftStage) {
+      const { done, value } = await reader.read();
+      assert.equal(done, false);
+      buffer += decoder.decode(value, { stream: true });
+      const parsed = parseGenerationStreamEvents(buffer);
+      buffer = parsed.rest;
+      sawDraftStage = parsed.events.some(
+        (item) => item.event === "stage" && item.data.stage === "draft"
+      );
+    }
+    await reader.cancel();
+
+    const generatedDir = path.join(workDir, "data/skill-sandbox/stream-cancel/generated");
+    const target: PipelineTraceTarget = {
+      generatedDir,
+      date: "2026-03-01",
+      platform: "ameba",
+      contentKey: "standard",
+    };
+    for (let i = 0; i < 100 && listPipelineTraces(target).length === 0; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+    assert.equal(upstreamAborted, true);
+    const [trace] = listPipelineTraces(target);
+    assert.equal(trace?.status, "failed");
+    assert.match(trace?.error || "", /キャンセル/);
+    assert.equal(fs.existsSync(path.join(generatedDir, "2026-03-01-ameba.json")), false);
+  });
+});
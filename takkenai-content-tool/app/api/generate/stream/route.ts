@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  generateEntry,
+  isGenerateEntryError,
+  type GenerateEntryInput,
+} from "@/lib/generate-entry";
+import { isGenerationCancelledError } from "@/lib/generation-progress";
+import {
+  encodeGenerationStreamEvent,
+  GENERATION_STREAM_HEARTBEAT,
+  type GenerationStreamEvent,
+} from "@/lib/generation-stream-events";
+
+export const dynamic = "force-dynamic";
+
+const HEARTBEAT_INTERVAL_MS = 15000;
+// The draft is re-sent in full, so coalesce token-level updates.
+const DRAFT_FLUSH_INTERVAL_MS = 250;
+
+/**
+ * POST /api/generate/stream (same body as POST /api/generate)
+ *   → text/event-stream of `stage`, `draft`, then `complete` (the saved
+ *     content) or `error`. Closing the connection cancels the generation
+ *     and aborts the in-flight model calls.
+ */
+export async function POST(req: NextRequest) {
+  let body: GenerateEntryInput;
+  try {
+    body = (await req.json()) as GenerateEntryInput;
+  } catch {
+    return NextResponse.json({ error: "リクエスト本文が不正です" }, { status: 400 });
+  }
+
+  const cancel = new AbortController();
+  req.signal?.addEventListener("abort", () => cancel.abort());
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      const write = (text: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(text));
+        } catch {
+          closed = true;
+        }
+      };
+      const send = (item: GenerationStreamEvent) =>
+        write(encodeGenerationStreamEvent(item));
+
+      let pendingDraft: string | null = null;
+      let draftTimer: ReturnType<typeof setTimeout> | null = null;
+      const flushDraft = () => {
+        draftTimer = null;
+        if (pendingDraft === null) return;
+        send({ event: "draft", data: { text: pendingDraft } });
+        pendingDraft = null;
+      };
+      const heartbeat = setInterval(
+        () => write(GENERATION_STREAM_HEARTBEAT),
+        HEARTBEAT_INTERVAL_MS
+      );
+
+      void generateEntry(body, {
+        signal: cancel.signal,
+        onStage: (event) => {
+          flushDraft();
+          send({ event: "stage", data: event });
+        },
+        onChunk: (text) => {
+          pendingDraft = text;
+          if (!draftTimer) draftTimer = setTimeout(flushDraft, DRAFT_FLUSH_INTERVAL_MS);
+        },
+      })
+        .then((result) => {
+          if (draftTimer) clearTimeout(draftTimer);
+          send({ event: "complete", data: result.content });
+        })
+        .catch((err: unknown) => {
+          if (draftTimer) clearTimeout(draftTimer);
+          if (isGenerationCancelledError(err)) {
+            console.warn(`[${body.platform}] streaming generation cancelled`);
+            send({ event: "error", data: { error: err.message, status: 499, cancelled: true } });
+            return;
+          }
+          if (!isGenerateEntryError(err)) {
+            console.error("Content generation failed:", err);
+          }
+          send({
+            event: "error",
+            data: {
+              error: err instanceof Error ? err.message : "不明なエラーが発生しました",
+              status: isGenerateEntryError(err) ? err.status : 500,
+            },
+          });
+        })
+        .finally(() => {
+          clearInterval(heartbeat);
+          if (!closed) {
+            closed = true;
+            controller.close();
+          }
+        });
+    },
+    cancel() {
+      cancel.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
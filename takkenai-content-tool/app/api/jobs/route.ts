@@ -0,0 +1,203 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getGenerationJobRunner,
+  MAX_JOB_CONCURRENCY,
+  planGenerationJobItems,
+  summarizeGenerationJob,
+  type GenerationJob,
+} from "@/lib/generation-jobs";
+import { isCoverStyleId, type CoverStyleId } from "@/lib/cover-style";
+import { getLlmProviderConfigError } from "@/lib/llm-provider";
+import { getUsageBudgetStatus } from "@/lib/usage-ledger";
+import { listPlatforms } from "@/lib/platform-registry";
+import {
+  getEnabledPlatforms,
+  resolveSiteManifest,
+  type SkillRunMode,
+} from "@/lib/site-config";
+
+const MAX_JOB_RANGE_DAYS = 62;
+
+type PostBody = {
+  action: "create" | "cancel" | "retry";
+  id?: string;
+  startDate?: string;
+  endDate?: string;
+  platforms?: string[];
+  withCover?: boolean;
+  coverStyle?: string;
+  imageProviderPreference?: "closeai" | "openrouter";
+  concurrency?: number;
+  siteId?: string;
+  mode?: SkillRunMode;
+};
+
+function isDateString(value: unknown): value is string {
+  return typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value);
+}
+
+function daysBetween(startDate: string, endDate: string): number {
+  const start = Date.parse(`${startDate}T00:00:00Z`);
+  const end = Date.parse(`${endDate}T00:00:00Z`);
+  return Math.round((end - start) / 86400000) + 1;
+}
+
+function serializeJob(job: GenerationJob) {
+  return { ...job, progress: summarizeGenerationJob(job) };
+}
+
+/**
+ * GET /api/jobs          → recent jobs (newest first) with progress
+ * GET /api/jobs?id=...   → single job with per-entry status
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const runner = getGenerationJobRunner();
+    const { searchParams } = new URL(req.url);
+    const id = (searchParams.get("id") || "").trim();
+    if (id) {
+      const job = runner.getJob(id);
+      if (!job) {
+        return NextResponse.json({ error: "ジョブが見つかりません" }, { status: 404 });
+      }
+      return NextResponse.json({ job: serializeJob(job) });
+    }
+    const limit = Math.max(1, Math.min(50, Number(searchParams.get("limit")) || 10));
+    return NextResponse.json({
+      jobs: runner.listJobs().slice(0, limit).map(serializeJob),
+    });
+  } catch (err: unknown) {
+    console.error("Job lookup failed:", err);
+    const message =
+      err instanceof Error ? err.message : "不明なエラーが発生しました";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/jobs
+ *   - { action: "create", startDate, endDate, platforms?, withCover?, ... }
+ *   - { action: "cancel", id } → stop starting new entries
+ *   - { action: "retry", id }  → re-queue failed / cancelled entries
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const body = (await req.json()) as PostBody;
+    const runner = getGenerationJobRunner();
+
+    if (body.action === "cancel" || body.action === "retry") {
+      const id = String(body.id || "").trim();
+      const job = id
+        ? body.action === "cancel"
+          ? runner.cancelJob(id)
+          : runner.retryJob(id)
+        : null;
+      if (!job) {
+        return NextResponse.json({ error: "ジョブが見つかりません" }, { status: 404 });
+      }
+      return NextResponse.json({ job: serializeJob(job) });
+    }
+
+    if (body.action !== "create") {
+      return NextResponse.json(
+        { error: "action は create / cancel / retry のみ指定できます" },
+        { status: 400 }
+      );
+    }
+
+    const { startDate, endDate } = body;
+    if (!isDateString(startDate) || !isDateString(endDate) || startDate > endDate) {
+      return NextResponse.json(
+        { error: "startDate / endDate は YYYY-MM-DD 形式で指定してください" },
+        { status: 400 }
+      );
+    }
+    if (daysBetween(startDate, endDate) > MAX_JOB_RANGE_DAYS) {
+      return NextResponse.json(
+        { error: `一度に指定できる期間は最大${MAX_JOB_RANGE_DAYS}日です` },
+        { status: 400 }
+      );
+    }
+    const platforms = Array.isArray(body.platforms) && body.platforms.length > 0
+      ? listPlatforms().filter((platform) => body.platforms?.includes(platform))
+      : getEnabledPlatforms(resolveSiteManifest(body.siteId));
+    if (platforms.length === 0) {
+      return NextResponse.json({ error: "無効なプラットフォームです" }, { status: 400 });
+    }
+    const providerConfigError = getLlmProviderConfigError();
+    if (providerConfigError) {
+      return NextResponse.json({ error: providerConfigError }, { status: 401 });
+    }
+    const budget = getUsageBudgetStatus();
+    if (budget.exceeded) {
+      return NextResponse.json(
+        {
+          error: `今月の予算上限（$${budget.monthlyBudgetUsd?.toFixed(2)}）に達しているため、新しいジョブを作成できません（使用額 $${budget.spentUsd.toFixed(2)}）`,
+          budget,
+        },
+        { status: 402 }
+      );
+    }
+    const withCover = body.withCover === true;
+    const imageProviderPreference =
+      body.imageProviderPreference === "openrouter" ? "openrouter" : "closeai";
+    if (withCover) {
+      const keyName =
+        imageProviderPreference === "openrouter" ? "OPENROUTER_API_KEY" : "CLOSEAI_API_KEY";
+      if (!(process.env[keyName] || "").trim()) {
+        return NextResponse.json(
+          { error: `${imageProviderPreference} を選択しましたが、${keyName} が設定されていません` },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Entries already waiting in another active job are not queued twice.
+    const busyItemIds = new Set(
+      runner
+        .listJobs()
+        .filter((job) => job.status === "queued" || job.status === "running")
+        .flatMap((job) =>
+          job.items
+            .filter((item) => item.status === "queued" || item.status === "running")
+            .map((item) => item.id)
+        )
+    );
+    const items = planGenerationJobItems({ startDate, endDate, platforms }).filter(
+      (item) => !busyItemIds.has(item.id)
+    );
+    if (items.length === 0) {
+      return NextResponse.json(
+        { error: "指定期間に未生成のエントリがありません" },
+        { status: 400 }
+      );
+    }
+
+    const concurrency =
+      typeof body.concurrency === "number" && Number.isFinite(body.concurrency)
+        ? Math.max(1, Math.min(MAX_JOB_CONCURRENCY, Math.floor(body.concurrency)))
+        : 2;
+    const job = runner.createJob(
+      {
+        startDate,
+        endDate,
+        platforms,
+        withCover,
+        ...(withCover && body.coverStyle && isCoverStyleId(body.coverStyle)
+          ? { coverStyle: body.coverStyle as CoverStyleId }
+          : {}),
+        ...(withCover ? { imageProviderPreference } : {}),
+        concurrency,
+        siteId: body.siteId,
+        mode: body.mode,
+      },
+      items
+    );
+    return NextResponse.json({ job: serializeJob(job) }, { status: 201 });
+  } catch (err: unknown) {
+    console.error("Job update failed:", err);
+    const message =
+      err instanceof Error ? err.message : "不明なエラーが発生しました";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
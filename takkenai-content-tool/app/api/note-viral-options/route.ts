@@ -17,8 +17,9 @@ import {
   resolveRunContext,
   type SkillRunMode,
 } from "@/lib/site-config";
+import { getLlmProvider } from "@/lib/llm-provider";
+import { trackUsage } from "@/lib/usage-ledger";
 
-const OPENROUTER_URL = "https://openrouter.ai/api/v1/chat/completions";
 const NOTE_VIRAL_RESEARCH_MODEL =
   process.env.OPENROUTER_NOTE_VIRAL_MODEL || "perplexity/sonar-pro";
 
@@ -75,8 +76,8 @@ async function isUrlReachable(url: string): Promise<boolean> {
 }
 
 async function fetchLiveOptions(date: string): Promise<NoteViralOption[]> {
-  const apiKey = process.env.OPENROUTER_API_KEY;
-  if (!apiKey) return [];
+  const provider = getLlmProvider();
+  if (provider.configError()) return [];
 
   const now = new Date().toISOString();
   const systemPrompt =
@@ -104,29 +105,23 @@ async function fetchLiveOptions(date: string): Promise<NoteViralOption[]> {
     `  ]\n` +
     `}`;
 
-  const response = await fetch(OPENROUTER_URL, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${apiKey}`,
-      "HTTP-Referer": "https://takkenai.jp",
-      "X-Title": "TakkenAI Note Viral Options",
-    },
-    body: JSON.stringify({
-      model: NOTE_VIRAL_RESEARCH_MODEL,
-      messages: [
-        { role: "system", content: systemPrompt },
-        { role: "user", content: userPrompt },
-      ],
-      temperature: 0.3,
-    }),
-  });
-
-  if (!response.ok) return [];
-  const payload = (await response.json()) as {
-    choices?: Array<{ message?: { content?: string } }>;
-  };
-  const rawText = payload.choices?.[0]?.message?.content || "";
+  let rawText = "";
+  try {
+    const { result: response } = await trackUsage(
+      { operation: "note-viral-options", date, platform: "note" },
+      () =>
+        provider.complete({
+          systemPrompt,
+          userPrompt,
+          model: NOTE_VIRAL_RESEARCH_MODEL,
+          temperature: 0.3,
+          appTitle: "TakkenAI Note Viral Options",
+        })
+    );
+    rawText = response.text;
+  } catch {
+    return [];
+  }
   if (!rawText.trim()) return [];
 
   let jsonText = rawText.trim();
@@ -7,20 +7,30 @@ import {
 } from "@/lib/claude";
 import {
   getCalendarDay,
-  updatePlatformEntry,
+  updatePlatformEntryWith,
+  waitForCalendarStore,
 } from "@/lib/calendar-engine";
+import {
+  buildStatusTransitionUpdates,
+  checkContentRegeneration,
+} from "@/lib/editorial-workflow";
+import { loadCampaignTrackingTemplates } from "@/lib/campaigns";
 import {
   ensureDirExists,
+  getSiteTrackingSettings,
   resolveGeneratedOutputDir,
   resolveRunContext,
   type SkillRunMode,
 } from "@/lib/site-config";
-import type { Platform } from "@/lib/topic-engine";
+import { isPlatform, type Platform } from "@/lib/platform-registry";
 import { resolveArticleType, type ArticleType } from "@/lib/article-type";
 import {
   getGeneratedContentFilename,
   resolveContentKey,
 } from "@/lib/content-variant";
+import { appendContentRevision } from "@/lib/content-revisions";
+import { mergeGenerationUsage, trackUsage } from "@/lib/usage-ledger";
+import { resolveEntryTrackingParams } from "@/lib/tracking-template";
 
 type RequestBody = {
   date: string;
@@ -142,6 +152,7 @@ function mergeContent(
 
 export async function POST(req: NextRequest) {
   try {
+    await waitForCalendarStore();
     const body = (await req.json()) as RequestBody;
     const { date, platform } = body;
     const runContext = resolveRunContext({
@@ -157,7 +168,7 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    if (!["ameba", "note", "hatena"].includes(platform)) {
+    if (!isPlatform(platform)) {
       return NextResponse.json(
         { error: "無効なプラットフォームです" },
         { status: 400 }
@@ -194,10 +205,17 @@ export async function POST(req: NextRequest) {
     const merged: GeneratedContent = { ...mergedBase };
 
     const parsedDate = parseDateString(date);
-    const calendarUrl = parsedDate
+    const calendarDay = parsedDate
       ? getCalendarDay(parsedDate.year, parsedDate.month, parsedDate.day)
-          ?.motherTopics?.[platform]?.takkenaiUrl
-      : "";
+      : undefined;
+    const calendarEntry = calendarDay?.platforms?.[platform];
+    const updatesCalendar = runContext.mode === "promote" && resolvedContentKey === "standard";
+    const regenerationViolation =
+      updatesCalendar && calendarEntry ? checkContentRegeneration(calendarEntry) : null;
+    if (regenerationViolation) {
+      return NextResponse.json({ error: regenerationViolation }, { status: 409 });
+    }
+    const calendarUrl = calendarDay?.motherTopics?.[platform]?.takkenaiUrl || "";
     const requestedRawUrl = (body.takkenaiUrl || "").trim();
     const overrideUrl = normalizeOverrideTakkenaiUrl(requestedRawUrl);
     if (requestedRawUrl && !overrideUrl) {
@@ -228,21 +246,42 @@ export async function POST(req: NextRequest) {
       merged.seoTitle = merged.title;
     }
 
-    const result = await optimizeSeoGeoForContent(platform, merged, takkenaiUrl, {
-      articleType: resolveArticleType(
-        body.articleType || merged.meta?.articleType,
-        "practical-guide"
-      ),
-      targetSeoScore: body.targetSeoScore,
-      targetGeoScore: body.targetGeoScore,
-      targetAiScore: body.targetAiScore,
-      targetChatgptSearchScore: body.targetChatgptSearchScore,
-      aiGateMode: body.aiGateMode,
-      evidenceMode: body.evidenceMode,
-      maxRounds: body.maxRounds,
-    });
+    const trackingParams = resolveEntryTrackingParams(
+      getSiteTrackingSettings(runContext.manifest, loadCampaignTrackingTemplates()),
+      {
+        date,
+        platform,
+        contentKey: resolvedContentKey,
+        articleType:
+          resolvedContentKey === "note-viral"
+            ? undefined
+            : calendarEntry?.articleType || merged.meta?.articleType,
+        campaign: calendarEntry?.campaign,
+      }
+    );
+
+    const { result, usage } = await trackUsage(
+      { operation: "optimize-seo-geo", date, platform, contentKey: resolvedContentKey },
+      () =>
+        optimizeSeoGeoForContent(platform, merged, takkenaiUrl, {
+          articleType: resolveArticleType(
+            body.articleType || merged.meta?.articleType,
+            "practical-guide"
+          ),
+          targetSeoScore: body.targetSeoScore,
+          targetGeoScore: body.targetGeoScore,
+          targetAiScore: body.targetAiScore,
+          targetChatgptSearchScore: body.targetChatgptSearchScore,
+          aiGateMode: body.aiGateMode,
+          evidenceMode: body.evidenceMode,
+          maxRounds: body.maxRounds,
+          trackingParams,
+        })
+    );
     result.content.meta = {
       ...(result.content.meta || {}),
+      // Cumulative: the article's generation plus every optimization run.
+      usage: mergeGenerationUsage(merged.meta?.usage, usage),
       siteId: runContext.siteId,
       language: runContext.language,
       skillVersion: runContext.manifest.skillVersion,
@@ -260,22 +299,43 @@ export async function POST(req: NextRequest) {
       JSON.stringify(result.content, null, 2),
       "utf-8"
     );
+    try {
+      appendContentRevision({
+        generatedDir,
+        date,
+        platform,
+        contentKey: resolvedContentKey,
+        source: "seo-geo-optimize",
+        content: result.content,
+        note: result.message,
+      });
+    } catch (error) {
+      console.warn(`[${platform}] failed to record content revision:`, error);
+    }
 
-    if (
-      parsedDate &&
-      runContext.mode === "promote" &&
-      resolvedContentKey === "standard"
-    ) {
+    if (parsedDate && updatesCalendar) {
       try {
-        updatePlatformEntry(parsedDate.year, parsedDate.month, parsedDate.day, platform, {
-          status: "generated",
-          generatedTitle: result.content.title,
-          generatedBody: result.content.body,
-          generatedHashtags: result.content.hashtags,
-          imagePrompt: result.content.imagePrompt,
-          generatedAt: new Date().toISOString(),
-          articleType: result.content.meta?.articleType,
-        });
+        await waitForCalendarStore();
+        updatePlatformEntryWith(
+          parsedDate.year,
+          parsedDate.month,
+          parsedDate.day,
+          platform,
+          (entry) => {
+            // Reviewed or published while optimizing: keep the entry as it is.
+            const violation = checkContentRegeneration(entry);
+            if (violation) throw new Error(violation);
+            return {
+              ...buildStatusTransitionUpdates(entry, "generated"),
+              generatedTitle: result.content.title,
+              generatedBody: result.content.body,
+              generatedHashtags: result.content.hashtags,
+              imagePrompt: result.content.imagePrompt,
+              generatedAt: new Date().toISOString(),
+              articleType: result.content.meta?.articleType,
+            };
+          }
+        );
       } catch {
         // Non-critical: ignore calendar update failures
       }
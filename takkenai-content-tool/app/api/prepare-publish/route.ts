@@ -11,7 +11,7 @@ import {
   resolveRunContext,
   type SkillRunMode,
 } from "@/lib/site-config";
-import type { Platform } from "@/lib/topic-engine";
+import { isPlatform, type Platform } from "@/lib/platform-registry";
 import { getGeneratedContentFilename, resolveContentKey } from "@/lib/content-variant";
 
 type RequestBody = {
@@ -107,9 +107,7 @@ export async function POST(req: NextRequest) {
       siteId: runContext.siteId,
     });
     const safePlatform: Platform =
-      body.platform === "ameba" || body.platform === "note" || body.platform === "hatena"
-        ? body.platform
-        : "note";
+      isPlatform(body.platform) ? body.platform : "note";
     const resolvedContentKey = resolveContentKey(safePlatform, body.contentKey);
 
     let title = (body.title || "").trim();
@@ -137,7 +135,7 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    if (!body.platform || !["ameba", "note", "hatena"].includes(body.platform)) {
+    if (!isPlatform(body.platform)) {
       return NextResponse.json({ error: "platform が不正です" }, { status: 400 });
     }
 
@@ -183,6 +181,8 @@ export async function POST(req: NextRequest) {
       bodyMarkdown: bodyComposed.markdown,
       bodyPlainText: bodyComposed.plainText,
       bodyHtml: bodyComposed.html,
+      format: selected.format,
+      thread: selected.thread || null,
       coverImageUrl: coverUpload?.url || null,
       inlineImageUrl: inlineUpload?.url || null,
       imageHostingProvider: coverUpload?.provider || inlineUpload?.provider || null,
@@ -0,0 +1,273 @@
+import { NextRequest, NextResponse } from "next/server";
+import fs from "fs";
+import path from "path";
+import type { GeneratedContent } from "@/lib/claude";
+import { updatePlatformEntry, waitForCalendarStore } from "@/lib/calendar-engine";
+import {
+  ensureDirExists,
+  resolveGeneratedOutputDir,
+  resolveRunContext,
+  type SkillRunMode,
+} from "@/lib/site-config";
+import { isPlatform, type Platform } from "@/lib/platform-registry";
+import {
+  getGeneratedContentFilename,
+  resolveContentKey,
+} from "@/lib/content-variant";
+import {
+  appendContentRevision,
+  diffContentRevisions,
+  getContentRevision,
+  listContentRevisions,
+  revisionToGeneratedContent,
+  type ContentRevisionTarget,
+} from "@/lib/content-revisions";
+
+type PostBody = {
+  action: "restore" | "save";
+  date: string;
+  platform: Platform;
+  siteId?: string;
+  language?: string;
+  mode?: SkillRunMode;
+  contentKey?: "standard" | "note-viral";
+  revisionId?: string;
+  content?: Partial<GeneratedContent>;
+  note?: string;
+};
+
+function parseDateString(dateStr: string): {
+  year: number;
+  month: number;
+  day: number;
+} | null {
+  const match = dateStr.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+  return {
+    year: parseInt(match[1], 10),
+    month: parseInt(match[2], 10),
+    day: parseInt(match[3], 10),
+  };
+}
+
+function resolveTarget(params: {
+  date: string | null | undefined;
+  platform: string | null | undefined;
+  siteId?: string | null;
+  language?: string | null;
+  mode?: string | null;
+  contentKey?: string | null;
+}):
+  | { ok: true; target: ContentRevisionTarget; mode: SkillRunMode }
+  | { ok: false; response: NextResponse } {
+  const date = String(params.date || "").trim();
+  const platform = String(params.platform || "").trim();
+  if (!date || !platform) {
+    return {
+      ok: false,
+      response: NextResponse.json({ error: "date と platform は必須です" }, { status: 400 }),
+    };
+  }
+  if (!parseDateString(date)) {
+    return {
+      ok: false,
+      response: NextResponse.json({ error: "不正な日付形式です" }, { status: 400 }),
+    };
+  }
+  if (!isPlatform(platform)) {
+    return {
+      ok: false,
+      response: NextResponse.json({ error: "無効なプラットフォームです" }, { status: 400 }),
+    };
+  }
+  const typedPlatform = platform as Platform;
+  const runContext = resolveRunContext({
+    siteId: params.siteId || undefined,
+    language: params.language || undefined,
+    mode: params.mode || undefined,
+  });
+  return {
+    ok: true,
+    mode: runContext.mode,
+    target: {
+      generatedDir: resolveGeneratedOutputDir({
+        mode: runContext.mode,
+        siteId: runContext.siteId,
+      }),
+      date,
+      platform: typedPlatform,
+      contentKey: resolveContentKey(typedPlatform, params.contentKey),
+    },
+  };
+}
+
+function writeCurrentContent(
+  target: ContentRevisionTarget,
+  mode: SkillRunMode,
+  content: GeneratedContent
+): void {
+  ensureDirExists(target.generatedDir);
+  fs.writeFileSync(
+    path.join(
+      target.generatedDir,
+      getGeneratedContentFilename(target.date, target.platform, target.contentKey)
+    ),
+    JSON.stringify(content, null, 2),
+    "utf-8"
+  );
+
+  const parsed = parseDateString(target.date);
+  if (parsed && mode === "promote" && target.contentKey === "standard") {
+    try {
+      updatePlatformEntry(parsed.year, parsed.month, parsed.day, target.platform, {
+        generatedTitle: content.title,
+        generatedBody: content.body,
+        generatedHashtags: content.hashtags,
+        imagePrompt: content.imagePrompt,
+      });
+    } catch {
+      // Non-critical: ignore calendar update failures
+    }
+  }
+}
+
+/**
+ * GET /api/revisions?date=&platform=[&contentKey=]
+ *   - list revisions (newest first)
+ *   - &revisionId=  → full revision
+ *   - &from=&to=    → side-by-side diff between two revisions
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const resolved = resolveTarget({
+      date: searchParams.get("date"),
+      platform: searchParams.get("platform"),
+      siteId: searchParams.get("siteId"),
+      language: searchParams.get("language"),
+      mode: searchParams.get("mode"),
+      contentKey: searchParams.get("contentKey"),
+    });
+    if (!resolved.ok) return resolved.response;
+    const { target } = resolved;
+
+    const revisionId = (searchParams.get("revisionId") || "").trim();
+    if (revisionId) {
+      const revision = getContentRevision(target, revisionId);
+      if (!revision) {
+        return NextResponse.json({ error: "リビジョンが見つかりません" }, { status: 404 });
+      }
+      return NextResponse.json({ revision });
+    }
+
+    const fromId = (searchParams.get("from") || "").trim();
+    const toId = (searchParams.get("to") || "").trim();
+    if (fromId || toId) {
+      const from = fromId ? getContentRevision(target, fromId) : null;
+      const to = toId ? getContentRevision(target, toId) : null;
+      if (!from || !to) {
+        return NextResponse.json(
+          { error: "比較するリビジョンが見つかりません" },
+          { status: 404 }
+        );
+      }
+      return NextResponse.json({ diff: diffContentRevisions(from, to) });
+    }
+
+    return NextResponse.json({ revisions: listContentRevisions(target) });
+  } catch (err: unknown) {
+    console.error("Revision lookup failed:", err);
+    const message =
+      err instanceof Error ? err.message : "不明なエラーが発生しました";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/revisions
+ *   - { action: "restore", revisionId } → make an old revision current again
+ *   - { action: "save", content }       → record a manual edit as a revision
+ * Both write the per-day generated JSON and append a new revision.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    await waitForCalendarStore();
+    const body = (await req.json()) as PostBody;
+    const resolved = resolveTarget(body);
+    if (!resolved.ok) return resolved.response;
+    const { target, mode } = resolved;
+
+    if (body.action === "restore") {
+      const revisionId = String(body.revisionId || "").trim();
+      const source = revisionId ? getContentRevision(target, revisionId) : null;
+      if (!source) {
+        return NextResponse.json({ error: "リビジョンが見つかりません" }, { status: 404 });
+      }
+      const content = revisionToGeneratedContent(source);
+      writeCurrentContent(target, mode, content);
+      const revision = appendContentRevision({
+        ...target,
+        source: "restore",
+        content,
+        model: source.model,
+        restoredFromId: source.id,
+        note: body.note,
+      });
+      return NextResponse.json({ content, revision });
+    }
+
+    if (body.action === "save") {
+      const incoming = body.content;
+      const title = typeof incoming?.title === "string" ? incoming.title.trim() : "";
+      const text = typeof incoming?.body === "string" ? incoming.body.trim() : "";
+      if (!title || !text) {
+        return NextResponse.json(
+          { error: "保存するタイトルと本文が必要です" },
+          { status: 400 }
+        );
+      }
+      const filePath = path.join(
+        target.generatedDir,
+        getGeneratedContentFilename(target.date, target.platform, target.contentKey)
+      );
+      let existing: GeneratedContent | null = null;
+      if (fs.existsSync(filePath)) {
+        try {
+          existing = JSON.parse(fs.readFileSync(filePath, "utf-8")) as GeneratedContent;
+        } catch {
+          existing = null;
+        }
+      }
+      const content: GeneratedContent = {
+        title,
+        body: text,
+        titleChinese: String(incoming?.titleChinese ?? existing?.titleChinese ?? ""),
+        bodyChinese: String(incoming?.bodyChinese ?? existing?.bodyChinese ?? ""),
+        hashtags: Array.isArray(incoming?.hashtags)
+          ? incoming.hashtags.map((item) => String(item))
+          : existing?.hashtags || [],
+        imagePrompt: String(incoming?.imagePrompt ?? existing?.imagePrompt ?? ""),
+        takkenaiLink: String(incoming?.takkenaiLink ?? existing?.takkenaiLink ?? ""),
+        seoTitle: incoming?.seoTitle ?? existing?.seoTitle,
+        complianceReport: existing?.complianceReport,
+        seoGeoReport: existing?.seoGeoReport,
+        meta: existing?.meta,
+      };
+      writeCurrentContent(target, mode, content);
+      const revision = appendContentRevision({
+        ...target,
+        source: "manual-edit",
+        content,
+        note: body.note,
+      });
+      return NextResponse.json({ content, revision });
+    }
+
+    return NextResponse.json({ error: "action は restore / save のみ指定できます" }, { status: 400 });
+  } catch (err: unknown) {
+    console.error("Revision update failed:", err);
+    const message =
+      err instanceof Error ? err.message : "不明なエラーが発生しました";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
 import { getImageHostingStatus } from "@/lib/image-hosting";
+import { getLlmProvider } from "@/lib/llm-provider";
 
 export async function GET() {
   const hostingStatus = await getImageHostingStatus().catch(() => ({
@@ -16,7 +17,11 @@ export async function GET() {
     fallbackProviderAvailable: false,
   }));
 
+  const llmProvider = getLlmProvider();
+
   return NextResponse.json({
+    llmProvider: llmProvider.kind,
+    llmConfigured: !llmProvider.configError(),
     openrouter:
       !!process.env.OPENROUTER_API_KEY &&
       process.env.OPENROUTER_API_KEY.length > 10,
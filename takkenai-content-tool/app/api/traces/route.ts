@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { resolveGeneratedOutputDir, resolveRunContext } from "@/lib/site-config";
+import { isPlatform, type Platform } from "@/lib/platform-registry";
+import { resolveContentKey } from "@/lib/content-variant";
+import { listPipelineTraces } from "@/lib/pipeline-trace";
+
+/**
+ * GET /api/traces?date=&platform=[&contentKey=][&traceId=]
+ *   - pipeline traces of the latest generation runs (newest first)
+ *   - &traceId= → only that run
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const date = String(searchParams.get("date") || "").trim();
+    const platform = String(searchParams.get("platform") || "").trim();
+    if (!date || !platform) {
+      return NextResponse.json({ error: "date と platform は必須です" }, { status: 400 });
+    }
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return NextResponse.json({ error: "不正な日付形式です" }, { status: 400 });
+    }
+    if (!isPlatform(platform)) {
+      return NextResponse.json({ error: "無効なプラットフォームです" }, { status: 400 });
+    }
+
+    const typedPlatform = platform as Platform;
+    const runContext = resolveRunContext({
+      siteId: searchParams.get("siteId") || undefined,
+      language: searchParams.get("language") || undefined,
+      mode: searchParams.get("mode") || undefined,
+    });
+    const traces = listPipelineTraces({
+      generatedDir: resolveGeneratedOutputDir({
+        mode: runContext.mode,
+        siteId: runContext.siteId,
+      }),
+      date,
+      platform: typedPlatform,
+      contentKey: resolveContentKey(typedPlatform, searchParams.get("contentKey")),
+    });
+
+    const traceId = (searchParams.get("traceId") || "").trim();
+    if (traceId) {
+      const trace = traces.find((item) => item.id === traceId);
+      if (!trace) {
+        return NextResponse.json({ error: "トレースが見つかりません" }, { status: 404 });
+      }
+      return NextResponse.json({ trace });
+    }
+    return NextResponse.json({ traces });
+  } catch (err: unknown) {
+    console.error("Trace lookup failed:", err);
+    const message =
+      err instanceof Error ? err.message : "不明なエラーが発生しました";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
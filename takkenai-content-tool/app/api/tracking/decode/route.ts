@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { loadCalendarStore } from "@/lib/calendar-engine";
+import { loadCampaignTrackingTemplates } from "@/lib/campaigns";
+import { getSiteTrackingSettings, resolveSiteManifest } from "@/lib/site-config";
+import { buildTrackingDecodeReport } from "@/lib/tracking-template";
+
+/** Upper bound on links per request. */
+const MAX_INPUTS = 500;
+
+/**
+ * POST /api/tracking/decode[?siteId=...]  (body: one URL, landing page or query string per line)
+ *   → the calendar entries each link's UTM values belong to, resolved with the
+ *     site's tracking templates (matched / ambiguous / unmatched per line).
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const inputs = (await req.text())
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .filter(Boolean);
+    if (inputs.length === 0) {
+      return NextResponse.json({ error: "URL を1行に1件入力してください" }, { status: 400 });
+    }
+    if (inputs.length > MAX_INPUTS) {
+      return NextResponse.json(
+        { error: `一度に照合できるのは${MAX_INPUTS}件までです` },
+        { status: 400 }
+      );
+    }
+
+    const rows = buildTrackingDecodeReport({
+      inputs,
+      calendars: loadCalendarStore().calendars,
+      site: getSiteTrackingSettings(
+        resolveSiteManifest(searchParams.get("siteId") || undefined),
+        loadCampaignTrackingTemplates()
+      ),
+    });
+    return NextResponse.json({ rows });
+  } catch (err: unknown) {
+    console.error("Tracking decode failed:", err);
+    const message =
+      err instanceof Error ? err.message : "不明なエラーが発生しました";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { activateTrafficProfileVersion, isGa4ImportError } from "@/lib/ga4-ingest";
+
+/**
+ * POST /api/traffic-profile/activate { version, actor? }
+ *   → make a stored version the active traffic URL profile. Pending calendar
+ *     entries pick up the new tiers the next time their month is loaded.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const body = (await req.json()) as Record<string, unknown>;
+    const version = typeof body.version === "string" ? body.version.trim() : "";
+    if (!version) {
+      return NextResponse.json({ error: "version を指定してください" }, { status: 400 });
+    }
+    const actor = typeof body.actor === "string" ? body.actor : undefined;
+    const activated = activateTrafficProfileVersion(version, actor);
+    return NextResponse.json({ success: true, meta: activated.meta });
+  } catch (err: unknown) {
+    if (isGa4ImportError(err)) {
+      return NextResponse.json({ error: err.message }, { status: 400 });
+    }
+    console.error("Traffic profile activation failed:", err);
+    const message = err instanceof Error ? err.message : "不明なエラーが発生しました";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  diffTrafficUrlProfiles,
+  importGa4Export,
+  isGa4ImportError,
+  listTrafficProfileVersions,
+  loadTrafficProfileVersion,
+  type Ga4ExportFormat,
+} from "@/lib/ga4-ingest";
+import { loadTrafficUrlProfile } from "@/lib/traffic-url-profile";
+
+export const dynamic = "force-dynamic";
+
+const MAX_UPLOAD_BYTES = 5 * 1024 * 1024;
+
+function handleError(err: unknown, label: string) {
+  if (isGa4ImportError(err)) {
+    return NextResponse.json({ error: err.message }, { status: 400 });
+  }
+  console.error(`${label}:`, err);
+  const message = err instanceof Error ? err.message : "不明なエラーが発生しました";
+  return NextResponse.json({ error: message }, { status: 500 });
+}
+
+/**
+ * GET /api/traffic-profile → active profile summary and stored versions
+ * GET /api/traffic-profile?version=... → that version plus its diff against the active profile
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const active = loadTrafficUrlProfile();
+    const versionId = req.nextUrl.searchParams.get("version");
+    if (versionId) {
+      const version = loadTrafficProfileVersion(versionId);
+      if (!version) {
+        return NextResponse.json({ error: "バージョンが見つかりません" }, { status: 404 });
+      }
+      return NextResponse.json({
+        ...version,
+        active: active?.version === version.profile.version,
+        diff: diffTrafficUrlProfiles(active, version.profile),
+      });
+    }
+    return NextResponse.json({
+      active: active
+        ? { version: active.version, generatedAt: active.generatedAt, items: active.items.length }
+        : null,
+      versions: listTrafficProfileVersions(),
+    });
+  } catch (err: unknown) {
+    return handleError(err, "Traffic profile lookup failed");
+  }
+}
+
+/**
+ * POST /api/traffic-profile
+ *   multipart/form-data { file, actor? } or JSON { content, fileName?, format?, actor? }
+ *   → build a draft profile from a GA4 CSV/JSON export and return it with the
+ *     tier diff against the active profile. Nothing is activated here.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    let content = "";
+    let fileName: string | undefined;
+    let format: Ga4ExportFormat | undefined;
+    let actor: string | undefined;
+    if ((req.headers.get("content-type") || "").includes("multipart/form-data")) {
+      const form = await req.formData();
+      const file = form.get("file");
+      if (!file || typeof file === "string") {
+        return NextResponse.json({ error: "file を指定してください" }, { status: 400 });
+      }
+      if (file.size > MAX_UPLOAD_BYTES) {
+        return NextResponse.json({ error: "ファイルが大きすぎます（最大5MB）" }, { status: 400 });
+      }
+      content = await file.text();
+      fileName = file.name;
+      actor = String(form.get("actor") || "") || undefined;
+    } else {
+      const body = (await req.json()) as Record<string, unknown>;
+      content = typeof body.content === "string" ? body.content : "";
+      fileName = typeof body.fileName === "string" ? body.fileName : undefined;
+      format = body.format === "csv" || body.format === "json" ? body.format : undefined;
+      actor = typeof body.actor === "string" ? body.actor : undefined;
+    }
+    if (!content.trim()) {
+      return NextResponse.json({ error: "GA4 エクスポートの内容が空です" }, { status: 400 });
+    }
+    const result = importGa4Export({ content, fileName, format, actor });
+    return NextResponse.json({ success: true, ...result });
+  } catch (err: unknown) {
+    return handleError(err, "GA4 import failed");
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getMonthStats, loadCalendarStore, waitForCalendarStore } from "@/lib/calendar-engine";
+import {
+  buildMonthUsageReport,
+  getUsageBudgetStatus,
+  setMonthlyBudgetUsd,
+} from "@/lib/usage-ledger";
+
+/**
+ * GET /api/usage?year=2026&month=3
+ *   → token / cost report for the month (spend date), with the calendar's
+ *     getMonthStats and the monthly budget status
+ */
+export async function GET(req: NextRequest) {
+  try {
+    await waitForCalendarStore();
+    const { searchParams } = new URL(req.url);
+    const year = parseInt(searchParams.get("year") || "", 10);
+    const month = parseInt(searchParams.get("month") || "", 10);
+    if (isNaN(year) || isNaN(month) || month < 1 || month > 12) {
+      return NextResponse.json({ error: "無効な年月です" }, { status: 400 });
+    }
+
+    const monthKey = `${year}-${String(month).padStart(2, "0")}`;
+    const hasCalendar = loadCalendarStore().calendars.some(
+      (calendar) => calendar.year === year && calendar.month === month
+    );
+    return NextResponse.json({
+      ...buildMonthUsageReport(monthKey),
+      stats: hasCalendar ? getMonthStats(year, month) : null,
+    });
+  } catch (err: unknown) {
+    console.error("Usage report failed:", err);
+    const message =
+      err instanceof Error ? err.message : "不明なエラーが発生しました";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/usage { monthlyBudgetUsd: number | null }
+ *   → set (or clear with null) the monthly budget cap for batch jobs
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const body = (await req.json()) as { monthlyBudgetUsd?: unknown };
+    const value = body.monthlyBudgetUsd;
+    if (value !== null && (typeof value !== "number" || !Number.isFinite(value) || value <= 0)) {
+      return NextResponse.json(
+        { error: "monthlyBudgetUsd は正の数値か null で指定してください" },
+        { status: 400 }
+      );
+    }
+    setMonthlyBudgetUsd(value);
+    return NextResponse.json({ budget: getUsageBudgetStatus() });
+  } catch (err: unknown) {
+    console.error("Usage budget update failed:", err);
+    const message =
+      err instanceof Error ? err.message : "不明なエラーが発生しました";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
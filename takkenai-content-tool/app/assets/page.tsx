@@ -0,0 +1,336 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import type { AssetRecord, AssetType } from "@/lib/asset-metadata";
+import type { AssetDifficulty, PastQuestion, Tool } from "@/lib/takkenai-data";
+
+type AssetRow = AssetRecord & { hasMetadata: boolean };
+
+type MetadataForm = {
+  type: AssetType;
+  id: string;
+  title: string;
+  summary: string;
+  keyFactsText: string;
+  lawArticlesText: string;
+  difficulty: AssetDifficulty | "";
+  inputsText: string;
+  outputsText: string;
+  correctAnswer: string;
+  explanation: string;
+};
+
+const TYPE_LABELS: Record<AssetType, string> = {
+  "knowledge-point": "知識ポイント",
+  tool: "ツール",
+  "past-question": "過去問",
+};
+
+const DIFFICULTY_OPTIONS: Array<[AssetDifficulty | "", string]> = [
+  ["", "未設定"],
+  ["basic", "基礎"],
+  ["standard", "標準"],
+  ["advanced", "応用"],
+];
+
+function titleOf(row: AssetRecord): string {
+  const data = row as Partial<Tool & PastQuestion> & { title?: string };
+  if ("year" in row && "number" in row) {
+    return `${data.year}年 問${data.number}${data.title ? `「${data.title}」` : ""}`;
+  }
+  return data.name || data.title || row.id;
+}
+
+const lines = (text: string) =>
+  text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+function toForm(type: AssetType, row: AssetRecord): MetadataForm {
+  const data = row as AssetRecord & Partial<Tool & PastQuestion> & { title?: string };
+  return {
+    type,
+    id: row.id,
+    title: (type === "tool" ? data.name : data.title) || "",
+    summary: data.summary || "",
+    keyFactsText: (data.keyFacts || []).join("\n"),
+    lawArticlesText: (data.lawArticles || []).join("\n"),
+    difficulty: data.difficulty || "",
+    inputsText: (data.inputs || []).join("\n"),
+    outputsText: (data.outputs || []).join("\n"),
+    correctAnswer: data.correctAnswer ? String(data.correctAnswer) : "",
+    explanation: data.explanation || "",
+  };
+}
+
+export default function AssetsPage() {
+  const [type, setType] = useState<AssetType>("knowledge-point");
+  const [query, setQuery] = useState("");
+  const [rows, setRows] = useState<AssetRow[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState<MetadataForm | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [issues, setIssues] = useState<string[]>([]);
+
+  const fetchAssets = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ type, q: query, limit: "100" });
+      const res = await fetch(`/api/assets?${params.toString()}`);
+      const data = await res.json();
+      setRows(Array.isArray(data.items) ? data.items : []);
+      setTotal(typeof data.total === "number" ? data.total : 0);
+    } catch (err) {
+      console.error("Failed to load assets:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [type, query]);
+
+  useEffect(() => {
+    fetchAssets();
+  }, [fetchAssets]);
+
+  const handleSave = async () => {
+    if (!form) return;
+    setSaving(true);
+    setIssues([]);
+    try {
+      const res = await fetch("/api/assets", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          type: form.type,
+          id: form.id,
+          title: form.title,
+          summary: form.summary,
+          keyFacts: lines(form.keyFactsText),
+          lawArticles: lines(form.lawArticlesText),
+          difficulty: form.difficulty || null,
+          ...(form.type === "tool"
+            ? { inputs: lines(form.inputsText), outputs: lines(form.outputsText) }
+            : {}),
+          ...(form.type === "past-question"
+            ? {
+                correctAnswer: form.correctAnswer ? Number(form.correctAnswer) : null,
+                explanation: form.explanation,
+              }
+            : {}),
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setIssues(Array.isArray(data.issues) ? data.issues : [data.error || "保存に失敗しました"]);
+        return;
+      }
+      setForm(null);
+      await fetchAssets();
+    } catch (err) {
+      console.error("Failed to save asset:", err);
+      setIssues(["保存に失敗しました"]);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const textarea = (
+    label: string,
+    field: "keyFactsText" | "lawArticlesText" | "inputsText" | "outputsText",
+    placeholder: string
+  ) =>
+    form && (
+      <label className="block text-sm">
+        <span className="text-gray-600">{label}（1行1項目）</span>
+        <textarea
+          value={form[field]}
+          onChange={(e) => setForm({ ...form, [field]: e.target.value })}
+          rows={4}
+          placeholder={placeholder}
+          className="mt-1 w-full border border-gray-300 rounded px-3 py-1.5 text-xs"
+        />
+      </label>
+    );
+
+  return (
+    <div className="space-y-6">
+      <Link
+        href="/"
+        className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700"
+      >
+        &#8592; カレンダーに戻る
+      </Link>
+
+      <div>
+        <h2 className="text-xl font-bold text-gray-900">素材メタデータ</h2>
+        <p className="text-sm text-gray-500 mt-1">
+          知識ポイント・ツール・過去問の概要や要点、関連条文を登録すると、記事生成時に「自社コンテンツの事実情報」としてプロンプトに渡され、リサーチ結果より優先して使われます。
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-3 items-center">
+        <select
+          value={type}
+          onChange={(e) => {
+            setType(e.target.value as AssetType);
+            setForm(null);
+          }}
+          className="border border-gray-300 rounded px-3 py-1.5 text-sm"
+        >
+          {(Object.keys(TYPE_LABELS) as AssetType[]).map((value) => (
+            <option key={value} value={value}>
+              {TYPE_LABELS[value]}
+            </option>
+          ))}
+        </select>
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="ID・タイトル・URLで検索"
+          className="border border-gray-300 rounded px-3 py-1.5 text-sm w-64"
+        />
+        <span className="text-xs text-gray-400">
+          {total}件{total > rows.length ? `（先頭${rows.length}件を表示）` : ""}
+        </span>
+      </div>
+
+      {form && (
+        <section className="bg-white rounded-lg border border-gray-200 p-4 space-y-4">
+          <h3 className="font-semibold text-gray-800">
+            {TYPE_LABELS[form.type]}を編集 <span className="font-mono text-xs text-gray-400">{form.id}</span>
+          </h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <label className="block text-sm">
+              <span className="text-gray-600">
+                {form.type === "past-question" ? "論点（任意）" : "日本語タイトル"}
+              </span>
+              <input
+                value={form.title}
+                onChange={(e) => setForm({ ...form, title: e.target.value })}
+                className="mt-1 w-full border border-gray-300 rounded px-3 py-1.5"
+              />
+            </label>
+            <label className="block text-sm">
+              <span className="text-gray-600">難易度</span>
+              <select
+                value={form.difficulty}
+                onChange={(e) => setForm({ ...form, difficulty: e.target.value as AssetDifficulty | "" })}
+                className="mt-1 w-full border border-gray-300 rounded px-3 py-1.5"
+              >
+                {DIFFICULTY_OPTIONS.map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="block text-sm md:col-span-2">
+              <span className="text-gray-600">概要</span>
+              <textarea
+                value={form.summary}
+                onChange={(e) => setForm({ ...form, summary: e.target.value })}
+                rows={2}
+                className="mt-1 w-full border border-gray-300 rounded px-3 py-1.5 text-sm"
+              />
+            </label>
+            {textarea("要点", "keyFactsText", "例: 手付金の上限は代金の2割")}
+            {textarea("関連条文", "lawArticlesText", "例: 宅建業法39条")}
+            {form.type === "tool" && textarea("入力項目", "inputsText", "例: 物件価格")}
+            {form.type === "tool" && textarea("計算結果", "outputsText", "例: 仲介手数料の上限額（税込）")}
+            {form.type === "past-question" && (
+              <label className="block text-sm">
+                <span className="text-gray-600">正解</span>
+                <select
+                  value={form.correctAnswer}
+                  onChange={(e) => setForm({ ...form, correctAnswer: e.target.value })}
+                  className="mt-1 w-full border border-gray-300 rounded px-3 py-1.5"
+                >
+                  <option value="">未設定</option>
+                  {[1, 2, 3, 4].map((choice) => (
+                    <option key={choice} value={String(choice)}>
+                      肢{choice}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+            {form.type === "past-question" && (
+              <label className="block text-sm md:col-span-2">
+                <span className="text-gray-600">解説</span>
+                <textarea
+                  value={form.explanation}
+                  onChange={(e) => setForm({ ...form, explanation: e.target.value })}
+                  rows={4}
+                  className="mt-1 w-full border border-gray-300 rounded px-3 py-1.5 text-sm"
+                />
+              </label>
+            )}
+          </div>
+          {issues.length > 0 && (
+            <ul className="text-sm text-red-600 list-disc pl-5">
+              {issues.map((issue) => (
+                <li key={issue}>{issue}</li>
+              ))}
+            </ul>
+          )}
+          <div className="flex gap-2">
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="px-4 py-1.5 text-sm rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? "保存中..." : "保存"}
+            </button>
+            <button
+              onClick={() => {
+                setForm(null);
+                setIssues([]);
+              }}
+              className="px-4 py-1.5 text-sm rounded border border-gray-300 text-gray-600 hover:bg-gray-50"
+            >
+              キャンセル
+            </button>
+          </div>
+        </section>
+      )}
+
+      <section className="bg-white rounded-lg border border-gray-200 divide-y divide-gray-100">
+        {loading ? (
+          <p className="p-4 text-sm text-gray-400">読み込み中...</p>
+        ) : rows.length === 0 ? (
+          <p className="p-4 text-sm text-gray-400">該当する素材はありません</p>
+        ) : (
+          rows.map((row) => (
+            <div key={row.id} className="flex items-center justify-between gap-4 px-4 py-2">
+              <div className="min-w-0">
+                <div className="text-sm text-gray-900 truncate">{titleOf(row)}</div>
+                <div className="text-xs text-gray-400 font-mono truncate">
+                  {row.id} ・ {row.takkenaiUrl}
+                </div>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                {row.hasMetadata ? (
+                  <span className="text-xs bg-green-100 text-green-700 px-2 py-0.5 rounded-full">登録済み</span>
+                ) : (
+                  <span className="text-xs bg-gray-100 text-gray-500 px-2 py-0.5 rounded-full">未登録</span>
+                )}
+                <button
+                  onClick={() => {
+                    setIssues([]);
+                    setForm(toForm(type, row));
+                  }}
+                  className="text-xs px-2 py-1 rounded border border-gray-300 text-gray-600 hover:bg-gray-50"
+                >
+                  編集
+                </button>
+              </div>
+            </div>
+          ))
+        )}
+      </section>
+    </div>
+  );
+}
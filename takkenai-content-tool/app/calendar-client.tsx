@@ -1,17 +1,46 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import Link from "next/link";
 import type {
   MonthCalendar,
   CalendarDay,
   ContentStatus,
+  PlatformEntry,
 } from "@/lib/calendar-engine";
+import {
+  countOpenReviewComments,
+  EDITOR_NAME_STORAGE_KEY,
+} from "@/lib/editorial-workflow";
 import { formatAssetIdLabel } from "@/lib/topic-label";
+import { listPlatforms, platformsOf, type Platform } from "@/lib/platform-registry";
+import type {
+  GenerationJob,
+  GenerationJobItemStatus,
+  GenerationJobProgress,
+  GenerationJobStatus,
+} from "@/lib/generation-jobs";
+import type {
+  GenerationUsage,
+  MonthUsageReport,
+  UsageOperation,
+} from "@/lib/usage-ledger";
+import type { CalendarImportResult } from "@/lib/calendar-sync";
+import type { ManifestConfigIssue } from "@/lib/site-config";
 
 const WEEKDAYS = ["日", "月", "火", "水", "木", "金", "土"];
 
-const PLATFORM_COLORS = {
+type PlatformColors = {
+  filled: string;
+  empty: string;
+  bg: string;
+  border: string;
+  text: string;
+  badge: string;
+  label: string;
+};
+
+const PLATFORM_COLORS: Record<Platform, PlatformColors> = {
   ameba: {
     filled: "bg-green-500",
     empty: "bg-green-500/20 border border-green-400",
@@ -39,9 +68,34 @@ const PLATFORM_COLORS = {
     badge: "bg-blue-100 text-blue-800",
     label: "はてな",
   },
-} as const;
-
-type Platform = keyof typeof PLATFORM_COLORS;
+  wordpress: {
+    filled: "bg-teal-500",
+    empty: "bg-teal-500/20 border border-teal-400",
+    bg: "bg-teal-50",
+    border: "border-teal-200",
+    text: "text-teal-700",
+    badge: "bg-teal-100 text-teal-800",
+    label: "WordPress",
+  },
+  qiita: {
+    filled: "bg-lime-500",
+    empty: "bg-lime-500/20 border border-lime-400",
+    bg: "bg-lime-50",
+    border: "border-lime-200",
+    text: "text-lime-700",
+    badge: "bg-lime-100 text-lime-800",
+    label: "Qiita",
+  },
+  x: {
+    filled: "bg-slate-700",
+    empty: "bg-slate-700/20 border border-slate-500",
+    bg: "bg-slate-50",
+    border: "border-slate-200",
+    text: "text-slate-700",
+    badge: "bg-slate-100 text-slate-800",
+    label: "X",
+  },
+};
 
 const STATUS_LABELS: Record<ContentStatus, string> = {
   pending: "未生成",
@@ -84,7 +138,7 @@ function resolveInitialNow(iso: string): Date {
 }
 
 function isPlatformDone(day: CalendarDay, platform: Platform): boolean {
-  const status = day.platforms[platform].status;
+  const status = day.platforms[platform]?.status;
   return (
     status === "generated" ||
     status === "reviewed" ||
@@ -94,13 +148,14 @@ function isPlatformDone(day: CalendarDay, platform: Platform): boolean {
 
 function getPlatformHeadline(day: CalendarDay, platform: Platform): string {
   const entry = day.platforms[platform];
+  if (!entry) return "";
   if (entry.generatedTitle && isPlatformDone(day, platform)) {
     return entry.generatedTitle;
   }
   return entry.titleSuggestion;
 }
 
-function getAssetLabel(day: CalendarDay, platform: Platform = "ameba"): string {
+function getAssetLabel(day: CalendarDay, platform: Platform): string {
   const mt = day.motherTopics?.[platform];
   if (!mt) return "";
   return formatAssetIdLabel(
@@ -109,14 +164,760 @@ function getAssetLabel(day: CalendarDay, platform: Platform = "ameba"): string {
   );
 }
 
+/** Topic shown in a month-grid cell: the day's first platform. */
+function getDayCellLabel(day: CalendarDay): string {
+  const platform = platformsOf(day.platforms)[0];
+  if (!platform) return "";
+  return day.motherTopics?.[platform]?.assetType === "past-question"
+    ? getPlatformHeadline(day, platform).slice(0, 20)
+    : getAssetLabel(day, platform);
+}
+
+// Drag payloads: a whole day (swap) or one pending entry (move)
+type ScheduleDragPayload =
+  | { kind: "day"; date: string }
+  | { kind: "entry"; date: string; platform: Platform };
+
+const SCHEDULE_DRAG_TYPE = "application/x-takkenai-schedule";
+
+function readScheduleDrag(e: React.DragEvent): ScheduleDragPayload | null {
+  try {
+    const raw = e.dataTransfer.getData(SCHEDULE_DRAG_TYPE);
+    return raw ? (JSON.parse(raw) as ScheduleDragPayload) : null;
+  } catch {
+    return null;
+  }
+}
+
+type BatchJob = GenerationJob & { progress: GenerationJobProgress };
+
+type EntryFilter = {
+  status: ContentStatus | "";
+  assignee: string;
+  reviewer: string;
+  openComments: boolean;
+};
+
+const EMPTY_ENTRY_FILTER: EntryFilter = {
+  status: "",
+  assignee: "",
+  reviewer: "",
+  openComments: false,
+};
+
+function isEntryFilterActive(filter: EntryFilter): boolean {
+  return Boolean(filter.status || filter.assignee || filter.reviewer || filter.openComments);
+}
+
+function matchesEntryFilter(entry: PlatformEntry | undefined, filter: EntryFilter): boolean {
+  if (!entry) return false;
+  if (filter.status && entry.status !== filter.status) return false;
+  if (filter.assignee && (entry.assignee || "") !== filter.assignee) return false;
+  if (filter.reviewer && (entry.reviewer || "") !== filter.reviewer) return false;
+  if (filter.openComments && countOpenReviewComments(entry.reviewComments) === 0) return false;
+  return true;
+}
+
+function collectPeople(calendar: MonthCalendar | null, field: "assignee" | "reviewer"): string[] {
+  const people = new Set<string>();
+  for (const day of calendar?.days || []) {
+    for (const platform of platformsOf(day.platforms)) {
+      const name = day.platforms[platform]?.[field];
+      if (name) people.add(name);
+    }
+  }
+  return Array.from(people).sort();
+}
+
+const JOB_STATUS_LABELS: Record<GenerationJobStatus, string> = {
+  queued: "待機中",
+  running: "実行中",
+  completed: "完了",
+  failed: "一部失敗",
+  cancelled: "キャンセル",
+};
+
+const JOB_ITEM_STATUS_COLORS: Record<GenerationJobItemStatus, string> = {
+  queued: "bg-gray-200",
+  running: "bg-indigo-400 animate-pulse",
+  succeeded: "bg-emerald-500",
+  failed: "bg-red-500",
+  skipped: "bg-gray-400",
+  cancelled: "bg-gray-300",
+};
+
+type MonthUsageResponse = MonthUsageReport & {
+  stats: {
+    totalPieces: number;
+    byStatus: Record<ContentStatus, number>;
+  } | null;
+};
+
+const USAGE_OPERATION_LABELS: Record<UsageOperation, string> = {
+  generate: "記事生成",
+  "optimize-seo-geo": "SEO/GEO最適化",
+  "cover-image": "封面図",
+  "inline-image": "本文画像",
+  "note-viral-options": "note爆款候補",
+  other: "その他",
+};
+
+function formatUsd(value: number): string {
+  return `$${value.toFixed(value >= 10 ? 2 : 3)}`;
+}
+
+function formatTokens(usage: GenerationUsage): string {
+  const total = usage.promptTokens + usage.completionTokens;
+  return total >= 1000 ? `${(total / 1000).toFixed(1)}k` : String(total);
+}
+
+function MonthUsagePanel({
+  report,
+  onBudgetSaved,
+}: {
+  report: MonthUsageResponse | null;
+  onBudgetSaved: () => void;
+}) {
+  const [budgetInput, setBudgetInput] = useState("");
+  const [saving, setSaving] = useState(false);
+  const budget = report?.budget;
+
+  useEffect(() => {
+    setBudgetInput(
+      budget?.monthlyBudgetUsd !== null && budget?.monthlyBudgetUsd !== undefined
+        ? String(budget.monthlyBudgetUsd)
+        : ""
+    );
+  }, [budget?.monthlyBudgetUsd]);
+
+  const saveBudget = async () => {
+    const trimmed = budgetInput.trim();
+    const value = trimmed ? Number(trimmed) : null;
+    if (value !== null && (!Number.isFinite(value) || value <= 0)) {
+      alert("予算は正の数値で入力してください（空欄で上限なし）");
+      return;
+    }
+    setSaving(true);
+    try {
+      const res = await fetch("/api/usage", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ monthlyBudgetUsd: value }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        alert(data.error || "予算の保存に失敗しました");
+        return;
+      }
+      onBudgetSaved();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!report) return null;
+  const { total, stats } = report;
+  const budgetPercent =
+    budget && budget.monthlyBudgetUsd
+      ? Math.min(100, Math.round((budget.spentUsd / budget.monthlyBudgetUsd) * 100))
+      : 0;
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-4 text-sm">
+      <div className="flex flex-wrap items-start gap-6">
+        {stats && (
+          <div>
+            <p className="text-xs text-gray-500 mb-1">進捗（{stats.totalPieces}本）</p>
+            <div className="flex flex-wrap gap-1.5">
+              {(Object.keys(STATUS_LABELS) as ContentStatus[]).map((status) => (
+                <span
+                  key={status}
+                  className={`text-xs px-2 py-0.5 rounded-full ${STATUS_BADGE_COLORS[status]}`}
+                >
+                  {STATUS_LABELS[status]} {stats.byStatus[status]}
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+        <div>
+          <p className="text-xs text-gray-500 mb-1">今月のAIコスト（推定）</p>
+          <p className="text-lg font-bold text-gray-900">
+            {formatUsd(total.estimatedCostUsd)}
+            <span className="ml-2 text-xs font-normal text-gray-500">
+              {total.calls}回 / {formatTokens(total)} tokens
+              {total.images > 0 ? ` / 画像${total.images}枚` : ""}
+            </span>
+          </p>
+          {total.estimatedCalls > 0 && (
+            <p className="text-[11px] text-gray-400">
+              うち{total.estimatedCalls}回はトークン数を文字数から推定
+            </p>
+          )}
+        </div>
+        {report.byOperation.length > 0 && (
+          <div>
+            <p className="text-xs text-gray-500 mb-1">内訳</p>
+            <ul className="text-xs text-gray-700 space-y-0.5">
+              {report.byOperation.map(({ operation, usage }) => (
+                <li key={operation}>
+                  {USAGE_OPERATION_LABELS[operation]}: {formatUsd(usage.estimatedCostUsd)}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+        <div className="ml-auto min-w-[220px]">
+          <p className="text-xs text-gray-500 mb-1">月間予算（超過で一括生成を停止）</p>
+          <div className="flex items-center gap-2">
+            <span className="text-gray-500">$</span>
+            <input
+              type="number"
+              min="0"
+              step="1"
+              value={budgetInput}
+              onChange={(e) => setBudgetInput(e.target.value)}
+              placeholder="上限なし"
+              className="w-24 border border-gray-300 rounded-md px-2 py-1 text-sm text-gray-800"
+            />
+            <button
+              onClick={saveBudget}
+              disabled={saving}
+              className="px-3 py-1 text-xs font-medium text-indigo-700 bg-indigo-50 rounded-md hover:bg-indigo-100 disabled:opacity-50"
+            >
+              保存
+            </button>
+          </div>
+          {budget?.monthlyBudgetUsd ? (
+            <>
+              <div className="mt-2 h-1.5 bg-gray-100 rounded-full overflow-hidden">
+                <div
+                  className={`h-full transition-all ${
+                    budget.exceeded ? "bg-red-500" : budgetPercent >= 80 ? "bg-amber-500" : "bg-emerald-500"
+                  }`}
+                  style={{ width: `${budgetPercent}%` }}
+                />
+              </div>
+              <p className={`mt-1 text-[11px] ${budget.exceeded ? "text-red-600" : "text-gray-500"}`}>
+                {budget.exceeded
+                  ? "予算上限に達しました。新しい一括生成は開始できません"
+                  : `残り ${formatUsd(budget.remainingUsd || 0)}（${budgetPercent}%使用）`}
+              </p>
+            </>
+          ) : null}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function CalendarSyncPanel({
+  year,
+  month,
+  hasCalendar,
+  onImported,
+}: {
+  year: number;
+  month: number;
+  hasCalendar: boolean;
+  onImported: () => void;
+}) {
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [result, setResult] = useState<CalendarImportResult | null>(null);
+  const [message, setMessage] = useState("");
+
+  const exportHref = (format: "ics" | "csv") =>
+    `/api/calendar/export?format=${format}&year=${year}&month=${month}`;
+
+  const importCsv = async (file: File) => {
+    setImporting(true);
+    setMessage("");
+    setResult(null);
+    try {
+      const csv = await file.text();
+      const actor = encodeURIComponent(
+        window.localStorage.getItem(EDITOR_NAME_STORAGE_KEY) || ""
+      );
+      const preview = await fetch(`/api/calendar/import?dryRun=1&actor=${actor}`, {
+        method: "POST",
+        headers: { "Content-Type": "text/csv" },
+        body: csv,
+      });
+      const planned = (await preview.json()) as CalendarImportResult & { error?: string };
+      if (!preview.ok) {
+        setResult(planned.errors ? planned : null);
+        setMessage(planned.error || "CSV の検証に失敗しました");
+        return;
+      }
+      if (planned.updated.length === 0) {
+        setMessage(`変更はありません（${planned.unchanged}行は現在の内容と同じです）`);
+        return;
+      }
+      if (!confirm(`${planned.updated.length}件のステータスを更新します。よろしいですか？`)) {
+        return;
+      }
+      const res = await fetch(`/api/calendar/import?actor=${actor}`, {
+        method: "POST",
+        headers: { "Content-Type": "text/csv" },
+        body: csv,
+      });
+      const applied = (await res.json()) as CalendarImportResult & { error?: string };
+      setResult(applied.errors ? applied : null);
+      setMessage(
+        res.ok
+          ? `${applied.updated.length}件を更新しました`
+          : applied.error || "CSV の取り込みに失敗しました"
+      );
+      onImported();
+    } catch (err) {
+      console.error("Calendar import failed:", err);
+      setMessage("CSV の取り込みに失敗しました");
+    } finally {
+      setImporting(false);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-4 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs text-gray-500 mr-2">共有カレンダー連携</span>
+        {hasCalendar ? (
+          <>
+            <a
+              href={exportHref("ics")}
+              className="px-3 py-1 text-xs font-medium text-indigo-700 bg-indigo-50 rounded-md hover:bg-indigo-100"
+            >
+              iCalendar (.ics)
+            </a>
+            <a
+              href={exportHref("csv")}
+              className="px-3 py-1 text-xs font-medium text-indigo-700 bg-indigo-50 rounded-md hover:bg-indigo-100"
+            >
+              CSV を書き出し
+            </a>
+          </>
+        ) : null}
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={importing}
+          className="px-3 py-1 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+        >
+          {importing ? "取り込み中..." : "CSV からステータスを取り込み"}
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,text/csv"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) void importCsv(file);
+          }}
+        />
+        {message && <span className="text-xs text-gray-600">{message}</span>}
+      </div>
+      {result && result.errors.length > 0 && (
+        <ul className="mt-2 text-xs text-red-600 space-y-0.5 max-h-32 overflow-y-auto">
+          {result.errors.map((error) => (
+            <li key={`${error.line}-${error.message}`}>
+              {error.line}行目{error.date ? `（${error.date} ${error.platform || ""}）` : ""}: {error.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+const PERFORMANCE_FIELDS = [
+  { key: "views", label: "閲覧" },
+  { key: "likes", label: "スキ" },
+  { key: "referralClicks", label: "送客" },
+] as const;
+
+/** Outcomes of a published post; they feed back into URL and article type selection. */
+function PerformanceForm({
+  date,
+  platform,
+  entry,
+  onSaved,
+}: {
+  date: string;
+  platform: Platform;
+  entry: PlatformEntry;
+  onSaved: () => void;
+}) {
+  const initialValues = () => ({
+    views: entry.performance?.views?.toString() ?? "",
+    likes: entry.performance?.likes?.toString() ?? "",
+    referralClicks: entry.performance?.referralClicks?.toString() ?? "",
+  });
+  const [values, setValues] = useState(initialValues);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setValues(initialValues());
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [date, platform, entry.performance?.updatedAt]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const actor = window.localStorage.getItem(EDITOR_NAME_STORAGE_KEY) || "";
+      const res = await fetch("/api/calendar/performance", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ date, platform, ...values, ...(actor ? { actor } : {}) }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        alert(`成果を保存できませんでした: ${data.error || "不明なエラー"}`);
+        return;
+      }
+      onSaved();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="mb-2">
+      <div className="flex gap-1">
+        {PERFORMANCE_FIELDS.map((field) => (
+          <label key={field.key} className="flex-1 min-w-0 text-[10px] text-gray-500">
+            {field.label}
+            <input
+              type="number"
+              min={0}
+              value={values[field.key]}
+              onChange={(e) => setValues((prev) => ({ ...prev, [field.key]: e.target.value }))}
+              className="w-full text-[11px] border border-gray-300 rounded px-1.5 py-0.5 bg-white"
+            />
+          </label>
+        ))}
+        <button
+          onClick={handleSave}
+          disabled={saving || Object.values(values).every((value) => !value.trim())}
+          className="self-end text-[11px] px-2 py-0.5 rounded bg-white border border-gray-300 hover:bg-gray-50 disabled:opacity-50"
+        >
+          保存
+        </button>
+      </div>
+      {entry.performance && (
+        <p className="text-[10px] text-gray-400 mt-0.5">
+          成果 {entry.performance.updatedAt.slice(0, 10)} 更新
+          {entry.performance.source === "csv" ? "（CSV）" : ""}
+          {entry.performance.updatedBy ? ` / ${entry.performance.updatedBy}` : ""}
+        </p>
+      )}
+    </div>
+  );
+}
+
+function isJobActive(job: GenerationJob): boolean {
+  return job.status === "queued" || job.status === "running";
+}
+
+function BatchJobPanel({
+  year,
+  month,
+  platformOptions,
+  onActiveItemsChange,
+  onJobFinished,
+}: {
+  year: number;
+  month: number;
+  /** Platforms the month has entries for */
+  platformOptions: Platform[];
+  onActiveItemsChange: (itemIds: Set<string>) => void;
+  onJobFinished: () => void;
+}) {
+  const [jobs, setJobs] = useState<BatchJob[]>([]);
+  const [startDate, setStartDate] = useState(() => formatDate(year, month, 1));
+  const [endDate, setEndDate] = useState(() =>
+    formatDate(year, month, getDaysInMonth(year, month))
+  );
+  const [platforms, setPlatforms] = useState<Platform[]>(platformOptions);
+  const [withCover, setWithCover] = useState(false);
+  const [concurrency, setConcurrency] = useState(2);
+  const [submitting, setSubmitting] = useState(false);
+  const [expandedJobId, setExpandedJobId] = useState("");
+  const activeJobIdsRef = useRef<Set<string>>(new Set());
+
+  useEffect(() => {
+    setStartDate(formatDate(year, month, 1));
+    setEndDate(formatDate(year, month, getDaysInMonth(year, month)));
+  }, [year, month]);
+
+  useEffect(() => {
+    setPlatforms(platformOptions);
+  }, [platformOptions]);
+
+  const fetchJobs = useCallback(async () => {
+    try {
+      const res = await fetch("/api/jobs", { cache: "no-store" });
+      if (!res.ok) return;
+      const data = await res.json();
+      const list: BatchJob[] = Array.isArray(data.jobs) ? data.jobs : [];
+      setJobs(list);
+
+      const active = list.filter(isJobActive);
+      const nextActiveIds = new Set(active.map((job) => job.id));
+      const finished = Array.from(activeJobIdsRef.current).some(
+        (id) => !nextActiveIds.has(id)
+      );
+      activeJobIdsRef.current = nextActiveIds;
+      onActiveItemsChange(
+        new Set(
+          active.flatMap((job) =>
+            job.items
+              .filter((item) => item.status === "queued" || item.status === "running")
+              .map((item) => item.id)
+          )
+        )
+      );
+      if (finished) {
+        onJobFinished();
+      }
+    } catch (err) {
+      console.error("Failed to fetch jobs:", err);
+    }
+  }, [onActiveItemsChange, onJobFinished]);
+
+  const hasActiveJob = jobs.some(isJobActive);
+
+  useEffect(() => {
+    fetchJobs();
+  }, [fetchJobs]);
+
+  useEffect(() => {
+    if (!hasActiveJob) return;
+    const timer = window.setInterval(fetchJobs, 3000);
+    return () => window.clearInterval(timer);
+  }, [hasActiveJob, fetchJobs]);
+
+  const postJobAction = async (payload: Record<string, unknown>) => {
+    const res = await fetch("/api/jobs", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    });
+    const data = await res.json();
+    if (!res.ok) {
+      throw new Error(data.error || "ジョブ操作に失敗しました");
+    }
+    await fetchJobs();
+  };
+
+  const handleCreate = async () => {
+    if (platforms.length === 0) {
+      alert("プラットフォームを1つ以上選択してください");
+      return;
+    }
+    setSubmitting(true);
+    try {
+      await postJobAction({
+        action: "create",
+        startDate,
+        endDate,
+        platforms,
+        withCover,
+        concurrency,
+      });
+    } catch (err) {
+      alert(`一括生成を開始できませんでした: ${err instanceof Error ? err.message : "不明なエラー"}`);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleJobAction = async (action: "cancel" | "retry", id: string) => {
+    try {
+      await postJobAction({ action, id });
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "ジョブ操作に失敗しました");
+    }
+  };
+
+  const togglePlatform = (platform: Platform) => {
+    setPlatforms((prev) =>
+      prev.includes(platform)
+        ? prev.filter((item) => item !== platform)
+        : [...prev, platform]
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-bold text-gray-900">一括生成</h3>
+        <button
+          onClick={fetchJobs}
+          className="px-3 py-1 text-xs font-medium text-gray-600 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors"
+        >
+          更新
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3 text-sm mb-4">
+        <label className="flex flex-col gap-1 text-xs text-gray-500">
+          開始日
+          <input
+            type="date"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+            className="border border-gray-300 rounded-md px-2 py-1 text-sm text-gray-800"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-gray-500">
+          終了日
+          <input
+            type="date"
+            value={endDate}
+            onChange={(e) => setEndDate(e.target.value)}
+            className="border border-gray-300 rounded-md px-2 py-1 text-sm text-gray-800"
+          />
+        </label>
+        <div className="flex items-center gap-2">
+          {platformOptions.map((platform) => (
+            <label key={platform} className="flex items-center gap-1 text-xs text-gray-700">
+              <input
+                type="checkbox"
+                checked={platforms.includes(platform)}
+                onChange={() => togglePlatform(platform)}
+              />
+              {PLATFORM_COLORS[platform].label}
+            </label>
+          ))}
+        </div>
+        <label className="flex items-center gap-1 text-xs text-gray-700">
+          <input
+            type="checkbox"
+            checked={withCover}
+            onChange={(e) => setWithCover(e.target.checked)}
+          />
+          封面図も生成
+        </label>
+        <label className="flex items-center gap-1 text-xs text-gray-700">
+          並列数
+          <select
+            value={concurrency}
+            onChange={(e) => setConcurrency(Number(e.target.value))}
+            className="border border-gray-300 rounded-md px-1.5 py-0.5"
+          >
+            {[1, 2, 3, 4].map((value) => (
+              <option key={value} value={value}>
+                {value}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button
+          onClick={handleCreate}
+          disabled={submitting}
+          className="px-4 py-1.5 bg-indigo-600 text-white text-sm rounded-md hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium"
+        >
+          {submitting ? "登録中..." : "未生成分を一括生成"}
+        </button>
+      </div>
+
+      {jobs.length === 0 ? (
+        <p className="text-sm text-gray-400">ジョブ履歴はありません</p>
+      ) : (
+        <div className="space-y-3">
+          {jobs.map((job) => {
+            const { progress } = job;
+            const percent =
+              progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0;
+            const expanded = expandedJobId === job.id;
+            return (
+              <div key={job.id} className="border border-gray-100 rounded-md p-3">
+                <div className="flex items-center justify-between gap-3 text-xs">
+                  <button
+                    onClick={() => setExpandedJobId(expanded ? "" : job.id)}
+                    className="text-left text-gray-700 hover:text-indigo-700"
+                  >
+                    <span className="font-medium">
+                      {job.options.startDate} 〜 {job.options.endDate}
+                    </span>
+                    <span className="ml-2 text-gray-400">
+                      {job.options.platforms
+                        .map((platform) => PLATFORM_COLORS[platform].label)
+                        .join(" / ")}
+                      {job.options.withCover ? " + 封面図" : ""}
+                    </span>
+                  </button>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <span className="text-gray-500">
+                      {JOB_STATUS_LABELS[job.status]} {progress.done}/{progress.total}
+                      {progress.failed > 0 ? `（失敗 ${progress.failed}）` : ""}
+                    </span>
+                    {isJobActive(job) && !job.cancelRequested && (
+                      <button
+                        onClick={() => handleJobAction("cancel", job.id)}
+                        className="px-2 py-0.5 text-xs text-red-700 bg-red-50 rounded hover:bg-red-100"
+                      >
+                        キャンセル
+                      </button>
+                    )}
+                    {!isJobActive(job) && (progress.failed > 0 || progress.cancelled > 0) && (
+                      <button
+                        onClick={() => handleJobAction("retry", job.id)}
+                        className="px-2 py-0.5 text-xs text-indigo-700 bg-indigo-50 rounded hover:bg-indigo-100"
+                      >
+                        再試行
+                      </button>
+                    )}
+                  </div>
+                </div>
+                <div className="mt-2 h-1.5 bg-gray-100 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-indigo-500 transition-all"
+                    style={{ width: `${percent}%` }}
+                  />
+                </div>
+                {expanded && (
+                  <ul className="mt-2 space-y-1 text-xs max-h-60 overflow-y-auto">
+                    {job.items.map((item) => (
+                      <li key={item.id} className="flex items-center gap-2">
+                        <span
+                          className={`w-2 h-2 rounded-full shrink-0 ${JOB_ITEM_STATUS_COLORS[item.status]}`}
+                        />
+                        <Link
+                          href={`/day/${item.date}/${item.platform}`}
+                          className="text-gray-700 hover:underline shrink-0"
+                        >
+                          {item.date} {PLATFORM_COLORS[item.platform].label}
+                        </Link>
+                        <span className="text-gray-500 truncate">
+                          {item.error || item.title || ""}
+                          {item.coverError ? `（封面図失敗: ${item.coverError}）` : ""}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
 export default function CalendarClient({
   initialCalendar,
   allCalendars,
   initialNowIso,
+  configIssues,
 }: {
   initialCalendar: MonthCalendar | null;
   allCalendars: MonthCalendar[];
   initialNowIso: string;
+  configIssues: ManifestConfigIssue[];
 }) {
   const initialNow = resolveInitialNow(initialNowIso);
   const initialTodayStr = getTodayStringFromDate(initialNow);
@@ -129,6 +930,25 @@ export default function CalendarClient({
   );
   const [loading, setLoading] = useState(false);
   const [generating, setGenerating] = useState(false);
+  const [queuedItemIds, setQueuedItemIds] = useState<Set<string>>(() => new Set());
+  const [usageReport, setUsageReport] = useState<MonthUsageResponse | null>(null);
+  const [entryFilter, setEntryFilter] = useState<EntryFilter>(EMPTY_ENTRY_FILTER);
+  const filterActive = isEntryFilterActive(entryFilter);
+  const [scheduling, setScheduling] = useState(false);
+  const [dragOverDate, setDragOverDate] = useState("");
+  const [pinUrlInputs, setPinUrlInputs] = useState<Partial<Record<Platform, string>>>({});
+
+  const fetchUsage = useCallback(async (year: number, month: number) => {
+    try {
+      const res = await fetch(`/api/usage?year=${year}&month=${month}`, {
+        cache: "no-store",
+      });
+      setUsageReport(res.ok ? await res.json() : null);
+    } catch (err) {
+      console.error("Failed to fetch usage:", err);
+      setUsageReport(null);
+    }
+  }, []);
 
   const fetchCalendar = useCallback(
     async (year: number, month: number) => {
@@ -180,10 +1000,81 @@ export default function CalendarClient({
     }
   };
 
+  const runSchedule = async (payload: Record<string, unknown>): Promise<boolean> => {
+    setScheduling(true);
+    try {
+      const actor = window.localStorage.getItem(EDITOR_NAME_STORAGE_KEY) || "";
+      const res = await fetch("/api/calendar/schedule", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...payload, ...(actor ? { actor } : {}) }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        alert(`予定を変更できませんでした: ${data.error || "不明なエラー"}`);
+        return false;
+      }
+      if (Array.isArray(data.kept) && data.kept.length > 0) {
+        alert(
+          `生成済みのため入れ替えなかったプラットフォーム: ${data.kept
+            .map((platform: Platform) => PLATFORM_COLORS[platform].label)
+            .join(" / ")}`
+        );
+      }
+      // Pending entries around the change may have been re-planned too.
+      await fetchCalendar(currentYear, currentMonth);
+      return true;
+    } catch (err) {
+      console.error("Failed to update schedule:", err);
+      alert("予定を変更できませんでした");
+      return false;
+    } finally {
+      setScheduling(false);
+    }
+  };
+
+  const handleScheduleDrop = (e: React.DragEvent, targetDate: string) => {
+    e.preventDefault();
+    setDragOverDate("");
+    const payload = readScheduleDrag(e);
+    if (!payload || payload.date === targetDate || scheduling) return;
+    if (payload.kind === "day") {
+      if (!confirm(`${payload.date} と ${targetDate} の未生成トピックを入れ替えますか？`)) return;
+      runSchedule({ action: "swap", date: payload.date, otherDate: targetDate });
+      return;
+    }
+    runSchedule({
+      action: "move",
+      date: payload.date,
+      platform: payload.platform,
+      toDate: targetDate,
+    }).then((moved) => {
+      if (moved) setSelectedDate(targetDate);
+    });
+  };
+
+  const pinCustomUrl = async (platform: Platform) => {
+    const takkenaiUrl = (pinUrlInputs[platform] || "").trim();
+    if (!takkenaiUrl) return;
+    const pinned = await runSchedule({
+      action: "pin",
+      date: selectedDate,
+      platform,
+      takkenaiUrl,
+    });
+    if (pinned) setPinUrlInputs((prev) => ({ ...prev, [platform]: "" }));
+  };
+
+  const handleJobFinished = useCallback(() => {
+    fetchCalendar(currentYear, currentMonth);
+    fetchUsage(currentYear, currentMonth);
+  }, [fetchCalendar, fetchUsage, currentYear, currentMonth]);
+
   useEffect(() => {
     if (!initialCalendar) {
       fetchCalendar(currentYear, currentMonth);
     }
+    fetchUsage(currentYear, currentMonth);
   }, []);
 
   useEffect(() => {
@@ -203,8 +1094,16 @@ export default function CalendarClient({
     setCurrentYear(newYear);
     setCurrentMonth(newMonth);
     fetchCalendar(newYear, newMonth);
+    fetchUsage(newYear, newMonth);
   };
 
+  // Platforms any day of the month has entries for (the site's enabled ones, plus
+  // entries kept after a platform was disabled).
+  const calendarPlatforms = useMemo(
+    () => (calendar ? listPlatforms(calendar.days.flatMap((day) => platformsOf(day.platforms))) : []),
+    [calendar]
+  );
+
   // Build day lookup from calendar
   const dayLookup: Record<string, CalendarDay> = {};
   if (calendar) {
@@ -247,6 +1146,87 @@ export default function CalendarClient({
         </button>
       </div>
 
+      {/* Invalid site manifest sections (running on defaults) */}
+      {configIssues.length > 0 && (
+        <div className="rounded-md border border-amber-300 bg-amber-50 px-4 py-3 text-sm text-amber-900">
+          <p className="font-medium">サイト設定（manifest）に不正な項目があります</p>
+          <ul className="mt-1 space-y-1 text-xs">
+            {configIssues.map((item) => (
+              <li key={item.section}>
+                <span className="font-mono">{item.section}</span>: {item.issues.join(" / ")}
+                （{item.fallback}）
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Month Summary & AI Cost */}
+      <MonthUsagePanel
+        report={usageReport}
+        onBudgetSaved={() => fetchUsage(currentYear, currentMonth)}
+      />
+
+      {/* Shared calendar export / CSV status import */}
+      <CalendarSyncPanel
+        year={currentYear}
+        month={currentMonth}
+        hasCalendar={Boolean(calendar)}
+        onImported={handleJobFinished}
+      />
+
+      {/* Editorial Filters */}
+      {calendar && (
+        <div className="flex flex-wrap items-center gap-3 text-xs text-gray-600">
+          <span className="font-medium">絞り込み:</span>
+          <select
+            value={entryFilter.status}
+            onChange={(e) =>
+              setEntryFilter({ ...entryFilter, status: e.target.value as ContentStatus | "" })
+            }
+            className="border border-gray-300 rounded-md px-2 py-1 bg-white"
+          >
+            <option value="">すべてのステータス</option>
+            {(Object.keys(STATUS_LABELS) as ContentStatus[]).map((status) => (
+              <option key={status} value={status}>
+                {STATUS_LABELS[status]}
+              </option>
+            ))}
+          </select>
+          {(["assignee", "reviewer"] as const).map((field) => (
+            <select
+              key={field}
+              value={entryFilter[field]}
+              onChange={(e) => setEntryFilter({ ...entryFilter, [field]: e.target.value })}
+              className="border border-gray-300 rounded-md px-2 py-1 bg-white"
+            >
+              <option value="">{field === "assignee" ? "執筆担当: すべて" : "レビュー担当: すべて"}</option>
+              {collectPeople(calendar, field).map((name) => (
+                <option key={name} value={name}>
+                  {name}
+                </option>
+              ))}
+            </select>
+          ))}
+          <label className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={entryFilter.openComments}
+              onChange={(e) => setEntryFilter({ ...entryFilter, openComments: e.target.checked })}
+            />
+            未解決コメントあり
+          </label>
+          {filterActive && (
+            <button
+              onClick={() => setEntryFilter(EMPTY_ENTRY_FILTER)}
+              className="text-indigo-600 hover:underline"
+            >
+              解除
+            </button>
+          )}
+        </div>
+      )}
+
       {/* Calendar Grid */}
       {loading ? (
         <div className="flex items-center justify-center py-20">
@@ -309,6 +1289,12 @@ export default function CalendarClient({
               const isToday = dateStr === todayStr;
               const isSelected = dateStr === selectedDate;
               const calDay = dayLookup[dateStr];
+              const dimmed =
+                filterActive &&
+                !!calDay &&
+                !platformsOf(calDay.platforms).some((platform) =>
+                  matchesEntryFilter(calDay.platforms[platform], entryFilter)
+                );
               const dayOfWeek = new Date(
                 currentYear,
                 currentMonth - 1,
@@ -319,10 +1305,25 @@ export default function CalendarClient({
                 <button
                   key={dateStr}
                   onClick={() => setSelectedDate(dateStr)}
+                  draggable={Boolean(calDay)}
+                  onDragStart={(e) => {
+                    const payload: ScheduleDragPayload = { kind: "day", date: dateStr };
+                    e.dataTransfer.setData(SCHEDULE_DRAG_TYPE, JSON.stringify(payload));
+                    e.dataTransfer.effectAllowed = "move";
+                  }}
+                  onDragOver={(e) => {
+                    if (!calDay || !e.dataTransfer.types.includes(SCHEDULE_DRAG_TYPE)) return;
+                    e.preventDefault();
+                    setDragOverDate(dateStr);
+                  }}
+                  onDragLeave={() => setDragOverDate((prev) => (prev === dateStr ? "" : prev))}
+                  onDrop={(e) => handleScheduleDrop(e, dateStr)}
                   className={`h-20 border-b border-r border-gray-100 p-1.5 text-left transition-colors hover:bg-gray-50 ${
                     isSelected
                       ? "bg-indigo-50 ring-2 ring-inset ring-indigo-400"
                       : ""
+                  } ${dragOverDate === dateStr ? "bg-amber-50 ring-2 ring-inset ring-amber-400" : ""} ${
+                    dimmed ? "opacity-30" : ""
                   }`}
                 >
                   <div className="flex items-start justify-between">
@@ -339,12 +1340,25 @@ export default function CalendarClient({
                     >
                       {day}
                     </span>
+                    {calDay?.pins && Object.keys(calDay.pins).length > 0 && (
+                      <span className="text-[10px] text-amber-600" title="手動で固定したトピックあり">
+                        固定
+                      </span>
+                    )}
+                    {calDay &&
+                      platformsOf(calDay.platforms).some(
+                        (platform) => calDay.platforms[platform]?.campaign
+                      ) && (
+                        <span className="text-[10px] text-purple-600" title="キャンペーンの連載回あり">
+                          連載
+                        </span>
+                      )}
                   </div>
 
                   {calDay && (
                     <div className="mt-1">
                       <div className="flex gap-1 mb-1">
-                        {(["ameba", "note", "hatena"] as const).map(
+                        {platformsOf(calDay.platforms).map(
                           (platform) => (
                             <div
                               key={platform}
@@ -352,20 +1366,29 @@ export default function CalendarClient({
                                 isPlatformDone(calDay, platform)
                                   ? PLATFORM_COLORS[platform].filled
                                   : PLATFORM_COLORS[platform].empty
+                              } ${
+                                queuedItemIds.has(`${dateStr}:${platform}`)
+                                  ? "ring-2 ring-indigo-300 animate-pulse"
+                                  : ""
+                              } ${
+                                filterActive &&
+                                !matchesEntryFilter(calDay.platforms[platform], entryFilter)
+                                  ? "opacity-20"
+                                  : ""
                               }`}
                               title={`${PLATFORM_COLORS[platform].label}: ${
                                 isPlatformDone(calDay, platform)
                                   ? "完了"
-                                  : "未生成"
+                                  : queuedItemIds.has(`${dateStr}:${platform}`)
+                                    ? "一括生成待ち"
+                                    : "未生成"
                               }`}
                             />
                           )
                         )}
                       </div>
                       <p className="text-[10px] text-gray-500 truncate leading-tight">
-                        {calDay.motherTopics?.ameba?.assetType === "past-question"
-                          ? getPlatformHeadline(calDay, "ameba").slice(0, 20)
-                          : getAssetLabel(calDay, "ameba")}
+                        {getDayCellLabel(calDay)}
                       </p>
                     </div>
                   )}
@@ -379,7 +1402,7 @@ export default function CalendarClient({
       {/* Legend */}
       <div className="flex items-center gap-4 text-xs text-gray-500">
         <span className="font-medium">凡例:</span>
-        {(["ameba", "note", "hatena"] as const).map((p) => (
+        {calendarPlatforms.map((p) => (
           <span key={p} className="flex items-center gap-1">
             <span
               className={`w-2.5 h-2.5 rounded-full ${PLATFORM_COLORS[p].filled}`}
@@ -408,7 +1431,7 @@ export default function CalendarClient({
               </h3>
               {selectedDay ? (
                 <p className="text-sm text-gray-500 mt-1">
-                  各プラットフォームに異なるトピックを配信
+                  各プラットフォームに異なるトピックを配信（未生成のカードは別の日へドラッグで移動、日付セル同士のドラッグで入れ替え）
                 </p>
               ) : (
                 <p className="text-sm text-gray-400 mt-1">
@@ -428,14 +1451,34 @@ export default function CalendarClient({
 
           {selectedDay && (
             <div className="grid grid-cols-3 gap-4">
-              {(["ameba", "note", "hatena"] as const).map((platform) => {
-                const pEntry = selectedDay.platforms[platform];
+              {platformsOf(selectedDay.platforms).map((platform) => {
+                const pEntry = selectedDay.platforms[platform] as PlatformEntry;
                 const colors = PLATFORM_COLORS[platform];
+                const entryUsage = usageReport?.byEntry[`${selectedDate}:${platform}`];
+                const openComments = countOpenReviewComments(pEntry.reviewComments);
+
+                const pin = selectedDay.pins?.[platform];
+                const movable = pEntry.status === "pending" && !pEntry.campaign;
 
                 return (
                   <div
                     key={platform}
-                    className={`rounded-lg border ${colors.border} ${colors.bg} p-4`}
+                    draggable={movable}
+                    onDragStart={(e) => {
+                      const payload: ScheduleDragPayload = {
+                        kind: "entry",
+                        date: selectedDate,
+                        platform,
+                      };
+                      e.dataTransfer.setData(SCHEDULE_DRAG_TYPE, JSON.stringify(payload));
+                      e.dataTransfer.effectAllowed = "move";
+                    }}
+                    title={movable ? "カレンダーの別の日にドラッグして移動できます" : undefined}
+                    className={`rounded-lg border ${colors.border} ${colors.bg} p-4 ${
+                      movable ? "cursor-grab" : ""
+                    } ${
+                      filterActive && !matchesEntryFilter(pEntry, entryFilter) ? "opacity-40" : ""
+                    }`}
                   >
                     <div className="flex items-center justify-between mb-2">
                       <span className={`text-sm font-bold ${colors.text}`}>
@@ -464,6 +1507,94 @@ export default function CalendarClient({
                         ? getPlatformHeadline(selectedDay, platform)
                         : pEntry.titleSuggestion}
                     </p>
+                    {pEntry.campaign && (
+                      <p className="text-[11px] text-purple-700 mb-1">
+                        連載「{pEntry.campaign.name}」第{pEntry.campaign.part}回 / 全
+                        {pEntry.campaign.total}回
+                      </p>
+                    )}
+                    {pEntry.linkCheck && (
+                      <p className="text-[11px] text-red-600 mb-1">
+                        {pEntry.linkCheck.state === "redirected"
+                          ? `リンク先が移動しました（→ ${pEntry.linkCheck.redirectTo}）`
+                          : "リンク先がサイトマップにありません"}
+                      </p>
+                    )}
+                    {(pEntry.assignee || pEntry.reviewer || openComments > 0) && (
+                      <p className="text-[11px] text-gray-600 mb-1">
+                        {pEntry.assignee ? `担当: ${pEntry.assignee}` : ""}
+                        {pEntry.reviewer ? ` / レビュー: ${pEntry.reviewer}` : ""}
+                        {openComments > 0 ? ` / 未解決コメント${openComments}件` : ""}
+                      </p>
+                    )}
+                    {entryUsage && (
+                      <p className="text-[11px] text-gray-500 mb-2">
+                        AIコスト {formatUsd(entryUsage.estimatedCostUsd)} / {formatTokens(entryUsage)} tokens
+                      </p>
+                    )}
+                    {pin ? (
+                      <div className="flex items-center justify-between text-[11px] text-amber-700 mb-2">
+                        <span>
+                          固定中（{pin.source === "pin" ? "手動" : pin.source === "swap" ? "入れ替え" : "移動"}
+                          {pin.pinnedBy ? ` / ${pin.pinnedBy}` : ""}）
+                        </span>
+                        <button
+                          onClick={() => runSchedule({ action: "unpin", date: selectedDate, platform })}
+                          disabled={scheduling}
+                          className="text-indigo-600 hover:underline disabled:opacity-50"
+                        >
+                          固定解除
+                        </button>
+                      </div>
+                    ) : (
+                      movable && (
+                        <div className="mb-2 space-y-1">
+                          <button
+                            onClick={() => {
+                              const topic = selectedDay.motherTopics[platform];
+                              if (!topic) return;
+                              runSchedule({
+                                action: "pin",
+                                date: selectedDate,
+                                platform,
+                                ...(topic.urlSelectionMode === "url-direct"
+                                  ? { takkenaiUrl: topic.takkenaiUrl }
+                                  : { assetType: topic.assetType, assetId: topic.assetId }),
+                              });
+                            }}
+                            disabled={scheduling}
+                            className="text-[11px] text-indigo-600 hover:underline disabled:opacity-50"
+                          >
+                            このトピックを固定
+                          </button>
+                          <div className="flex gap-1">
+                            <input
+                              value={pinUrlInputs[platform] || ""}
+                              onChange={(e) =>
+                                setPinUrlInputs((prev) => ({ ...prev, [platform]: e.target.value }))
+                              }
+                              placeholder="https://takkenai.jp/..."
+                              className="flex-1 min-w-0 text-[11px] border border-gray-300 rounded px-1.5 py-0.5 bg-white"
+                            />
+                            <button
+                              onClick={() => pinCustomUrl(platform)}
+                              disabled={scheduling || !(pinUrlInputs[platform] || "").trim()}
+                              className="text-[11px] px-2 py-0.5 rounded bg-white border border-gray-300 hover:bg-gray-50 disabled:opacity-50"
+                            >
+                              URLで固定
+                            </button>
+                          </div>
+                        </div>
+                      )
+                    )}
+                    {pEntry.status === "published" && (
+                      <PerformanceForm
+                        date={selectedDate}
+                        platform={platform}
+                        entry={pEntry}
+                        onSaved={() => fetchCalendar(currentYear, currentMonth)}
+                      />
+                    )}
                     <Link
                       href={`/day/${selectedDate}/${platform}`}
                       className={`block text-center text-sm font-medium py-1.5 rounded-md ${colors.text} bg-white border ${colors.border} hover:opacity-80 transition-opacity`}
@@ -477,6 +1608,15 @@ export default function CalendarClient({
           )}
         </div>
       )}
+
+      {/* Batch Generation Jobs */}
+      <BatchJobPanel
+        year={currentYear}
+        month={currentMonth}
+        platformOptions={calendarPlatforms}
+        onActiveItemsChange={setQueuedItemIds}
+        onJobFinished={handleJobFinished}
+      />
     </div>
   );
 }
@@ -0,0 +1,402 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import type {
+  Campaign,
+  CampaignOrdering,
+  CampaignPart,
+  CampaignSlot,
+} from "@/lib/campaigns";
+import { EDITOR_NAME_STORAGE_KEY } from "@/lib/editorial-workflow";
+import type { Platform } from "@/lib/topic-engine";
+import { getPlatformLabel, listPlatforms } from "@/lib/platform-registry";
+import type { TrackingTemplate } from "@/lib/tracking-template";
+
+type CampaignWithSlots = Campaign & { slots: CampaignSlot[] };
+
+type CampaignForm = {
+  id?: string;
+  name: string;
+  startDate: string;
+  endDate: string;
+  platforms: Platform[];
+  ordering: CampaignOrdering;
+  intervalDays: number;
+  partsText: string;
+  utmCampaign: string;
+  utmContent: string;
+  /** Other template fields of an edited campaign, kept as they are */
+  trackingRest?: TrackingTemplate;
+};
+
+const PLATFORMS: Platform[] = listPlatforms();
+
+const ASSET_PREFIXES = ["knowledge-point", "tool", "past-question"];
+
+const EMPTY_FORM: CampaignForm = {
+  name: "",
+  startDate: "",
+  endDate: "",
+  platforms: ["note"],
+  ordering: "sequential",
+  intervalDays: 1,
+  partsText: "",
+  utmCampaign: "",
+  utmContent: "",
+};
+
+/**
+ * One part per line: `tool:<id>`, `knowledge-point:<id>`, `past-question:<id>`
+ * or a takkenai.jp URL, optionally followed by `| タイトル`.
+ */
+function parsePartsText(text: string): CampaignPart[] {
+  return text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const [targetRaw, ...titleParts] = line.split("|");
+      const target = targetRaw.trim();
+      const title = titleParts.join("|").trim();
+      const separator = target.indexOf(":");
+      const prefix = separator > 0 ? target.slice(0, separator) : "";
+      const part: CampaignPart = ASSET_PREFIXES.includes(prefix)
+        ? {
+            assetType: prefix as CampaignPart["assetType"],
+            assetId: target.slice(separator + 1).trim(),
+          }
+        : { takkenaiUrl: target };
+      return title ? { ...part, title } : part;
+    });
+}
+
+function formatPartsText(parts: CampaignPart[]): string {
+  return parts
+    .map((part) => {
+      const target =
+        part.assetType && part.assetId
+          ? `${part.assetType}:${part.assetId}`
+          : part.takkenaiUrl || "";
+      return part.title ? `${target} | ${part.title}` : target;
+    })
+    .join("\n");
+}
+
+export default function CampaignsPage() {
+  const [campaigns, setCampaigns] = useState<CampaignWithSlots[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState<CampaignForm>(EMPTY_FORM);
+  const [issues, setIssues] = useState<string[]>([]);
+
+  const fetchCampaigns = useCallback(async () => {
+    try {
+      const res = await fetch("/api/campaigns");
+      const data = await res.json();
+      setCampaigns(Array.isArray(data.campaigns) ? data.campaigns : []);
+    } catch (err) {
+      console.error("Failed to load campaigns:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchCampaigns();
+  }, [fetchCampaigns]);
+
+  const togglePlatform = (platform: Platform) => {
+    setForm((prev) => ({
+      ...prev,
+      platforms: prev.platforms.includes(platform)
+        ? prev.platforms.filter((p) => p !== platform)
+        : PLATFORMS.filter((p) => p === platform || prev.platforms.includes(p)),
+    }));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setIssues([]);
+    try {
+      const res = await fetch("/api/campaigns", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...(form.id ? { id: form.id } : {}),
+          name: form.name,
+          startDate: form.startDate,
+          endDate: form.endDate,
+          platforms: form.platforms,
+          ordering: form.ordering,
+          intervalDays: form.intervalDays,
+          parts: parsePartsText(form.partsText),
+          tracking: {
+            ...form.trackingRest,
+            ...(form.utmCampaign.trim() ? { campaign: form.utmCampaign.trim() } : {}),
+            ...(form.utmContent.trim() ? { content: form.utmContent.trim() } : {}),
+          },
+          actor: window.localStorage.getItem(EDITOR_NAME_STORAGE_KEY) || "",
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setIssues(Array.isArray(data.issues) ? data.issues : [data.error || "保存に失敗しました"]);
+        return;
+      }
+      setForm(EMPTY_FORM);
+      await fetchCampaigns();
+    } catch (err) {
+      console.error("Failed to save campaign:", err);
+      setIssues(["保存に失敗しました"]);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEdit = (campaign: CampaignWithSlots) => {
+    setIssues([]);
+    setForm({
+      id: campaign.id,
+      name: campaign.name,
+      startDate: campaign.startDate,
+      endDate: campaign.endDate,
+      platforms: campaign.platforms,
+      ordering: campaign.ordering,
+      intervalDays: campaign.intervalDays,
+      partsText: formatPartsText(campaign.parts),
+      utmCampaign: campaign.tracking?.campaign || "",
+      utmContent: campaign.tracking?.content || "",
+      trackingRest: campaign.tracking
+        ? { ...campaign.tracking, campaign: undefined, content: undefined }
+        : undefined,
+    });
+  };
+
+  const handleDelete = async (campaign: CampaignWithSlots) => {
+    if (!confirm(`キャンペーン「${campaign.name}」を削除しますか？未生成の枠は通常のトピックに戻ります。`)) {
+      return;
+    }
+    try {
+      const res = await fetch(`/api/campaigns?id=${encodeURIComponent(campaign.id)}`, {
+        method: "DELETE",
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        alert(data.error || "削除に失敗しました");
+      }
+      if (form.id === campaign.id) setForm(EMPTY_FORM);
+      await fetchCampaigns();
+    } catch (err) {
+      console.error("Failed to delete campaign:", err);
+      alert("削除に失敗しました");
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Link
+        href="/"
+        className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700"
+      >
+        &#8592; カレンダーに戻る
+      </Link>
+
+      <div>
+        <h2 className="text-xl font-bold text-gray-900">キャンペーン / シリーズ</h2>
+        <p className="text-sm text-gray-500 mt-1">
+          複数日・複数プラットフォームにまたがる連載を登録すると、カレンダーの該当枠に各回のトピックが配置され、生成時に「第N回 / 全M回」の文脈が渡されます。
+        </p>
+      </div>
+
+      <section className="bg-white rounded-lg border border-gray-200 p-4 space-y-4">
+        <h3 className="font-semibold text-gray-800">
+          {form.id ? "キャンペーンを編集" : "キャンペーンを追加"}
+        </h3>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <label className="block text-sm md:col-span-3">
+            <span className="text-gray-600">名前</span>
+            <input
+              type="text"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="例: 権利関係 総復習シリーズ"
+              className="mt-1 w-full border border-gray-300 rounded px-3 py-1.5"
+            />
+          </label>
+          <label className="block text-sm">
+            <span className="text-gray-600">開始日</span>
+            <input
+              type="date"
+              value={form.startDate}
+              onChange={(e) => setForm({ ...form, startDate: e.target.value })}
+              className="mt-1 w-full border border-gray-300 rounded px-3 py-1.5"
+            />
+          </label>
+          <label className="block text-sm">
+            <span className="text-gray-600">終了日</span>
+            <input
+              type="date"
+              value={form.endDate}
+              onChange={(e) => setForm({ ...form, endDate: e.target.value })}
+              className="mt-1 w-full border border-gray-300 rounded px-3 py-1.5"
+            />
+          </label>
+          <label className="block text-sm">
+            <span className="text-gray-600">公開間隔（日）</span>
+            <input
+              type="number"
+              min={1}
+              max={14}
+              value={form.intervalDays}
+              onChange={(e) => setForm({ ...form, intervalDays: Number(e.target.value) || 1 })}
+              className="mt-1 w-full border border-gray-300 rounded px-3 py-1.5"
+            />
+          </label>
+          <div className="text-sm">
+            <span className="text-gray-600">プラットフォーム</span>
+            <div className="mt-2 flex gap-3">
+              {PLATFORMS.map((platform) => (
+                <label key={platform} className="inline-flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    checked={form.platforms.includes(platform)}
+                    onChange={() => togglePlatform(platform)}
+                  />
+                  {getPlatformLabel(platform)}
+                </label>
+              ))}
+            </div>
+          </div>
+          <label className="block text-sm">
+            <span className="text-gray-600">並び順</span>
+            <select
+              value={form.ordering}
+              onChange={(e) => setForm({ ...form, ordering: e.target.value as CampaignOrdering })}
+              className="mt-1 w-full border border-gray-300 rounded px-3 py-1.5"
+            >
+              <option value="sequential">順番に1日1回（プラットフォームを順に回す）</option>
+              <option value="parallel">同じ日に全プラットフォームへ配置</option>
+            </select>
+          </label>
+          <label className="block text-sm">
+            <span className="text-gray-600">utm_campaign（空欄でサイト既定）</span>
+            <input
+              value={form.utmCampaign}
+              onChange={(e) => setForm({ ...form, utmCampaign: e.target.value })}
+              placeholder="spring_{campaign}"
+              className="mt-1 w-full border border-gray-300 rounded px-3 py-1.5 font-mono text-xs"
+            />
+          </label>
+          <label className="block text-sm md:col-span-2">
+            <span className="text-gray-600">
+              utm_content（<code>{"{part}"}</code> <code>{"{date}"}</code> <code>{"{platform}"}</code>{" "}
+              などが使えます）
+            </span>
+            <input
+              value={form.utmContent}
+              onChange={(e) => setForm({ ...form, utmContent: e.target.value })}
+              placeholder="part{part}"
+              className="mt-1 w-full border border-gray-300 rounded px-3 py-1.5 font-mono text-xs"
+            />
+          </label>
+          <label className="block text-sm md:col-span-3">
+            <span className="text-gray-600">
+              各回（1行1回: <code>tool:ID</code> / <code>knowledge-point:ID</code> /{" "}
+              <code>past-question:ID</code> / takkenai.jp のURL、任意で <code>| タイトル</code>）
+            </span>
+            <textarea
+              value={form.partsText}
+              onChange={(e) => setForm({ ...form, partsText: e.target.value })}
+              rows={6}
+              className="mt-1 w-full border border-gray-300 rounded px-3 py-1.5 font-mono text-xs"
+            />
+          </label>
+        </div>
+        {issues.length > 0 && (
+          <ul className="text-sm text-red-600 list-disc pl-5">
+            {issues.map((issue) => (
+              <li key={issue}>{issue}</li>
+            ))}
+          </ul>
+        )}
+        <div className="flex gap-2">
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="px-4 py-1.5 text-sm rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            {saving ? "保存中..." : form.id ? "更新" : "追加"}
+          </button>
+          {form.id && (
+            <button
+              onClick={() => {
+                setForm(EMPTY_FORM);
+                setIssues([]);
+              }}
+              className="px-4 py-1.5 text-sm rounded border border-gray-300 text-gray-600 hover:bg-gray-50"
+            >
+              キャンセル
+            </button>
+          )}
+        </div>
+      </section>
+
+      <section className="space-y-3">
+        {loading ? (
+          <p className="text-sm text-gray-400">読み込み中...</p>
+        ) : campaigns.length === 0 ? (
+          <p className="text-sm text-gray-400">キャンペーンはまだありません</p>
+        ) : (
+          campaigns.map((campaign) => (
+            <div key={campaign.id} className="bg-white rounded-lg border border-gray-200 p-4">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <div className="font-semibold text-gray-900">{campaign.name}</div>
+                  <div className="text-xs text-gray-500 mt-0.5">
+                    {campaign.startDate} 〜 {campaign.endDate} ・ 全{campaign.parts.length}回 ・{" "}
+                    {campaign.platforms.map((p) => getPlatformLabel(p)).join(" / ")}
+                    {campaign.createdBy ? ` ・ 作成: ${campaign.createdBy}` : ""}
+                  </div>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <button
+                    onClick={() => handleEdit(campaign)}
+                    className="text-xs px-2 py-1 rounded border border-gray-300 text-gray-600 hover:bg-gray-50"
+                  >
+                    編集
+                  </button>
+                  <button
+                    onClick={() => handleDelete(campaign)}
+                    className="text-xs px-2 py-1 rounded border border-red-200 text-red-600 hover:bg-red-50"
+                  >
+                    削除
+                  </button>
+                </div>
+              </div>
+              <ol className="mt-3 text-sm space-y-1">
+                {campaign.slots.map((slot) => (
+                  <li key={slot.part} className="flex gap-3">
+                    <span className="text-gray-400 w-12 shrink-0">第{slot.part}回</span>
+                    <Link
+                      href={`/day/${slot.date}/${slot.platform}`}
+                      className="text-blue-600 hover:underline w-40 shrink-0"
+                    >
+                      {slot.date} {getPlatformLabel(slot.platform)}
+                    </Link>
+                    <span className="text-gray-700 truncate">
+                      {slot.target.title ||
+                        (slot.target.assetId
+                          ? `${slot.target.assetType}:${slot.target.assetId}`
+                          : slot.target.takkenaiUrl)}
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          ))
+        )}
+      </section>
+    </div>
+  );
+}
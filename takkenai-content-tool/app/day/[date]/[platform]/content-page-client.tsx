@@ -3,8 +3,15 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
-import type { CalendarDay, ContentStatus } from "@/lib/calendar-engine";
+import type {
+  CalendarDay,
+  ContentStatus,
+  PlatformEntry,
+  ReviewComment,
+} from "@/lib/calendar-engine";
 import type { GeneratedContent } from "@/lib/claude";
+import { getPlatformDefinition, type Platform } from "@/lib/platform-registry";
+import { splitIntoThread, xWeightedLength, X_POST_MAX_WEIGHT } from "@/lib/x-thread";
 import {
   evaluateSeoGeoRules,
   type SeoGeoReport,
@@ -28,8 +35,10 @@ import {
 import {
   buildGenerateRequestPayload,
   buildRegenerateConfirmMessage,
+  formatGenerationStageLabel,
   resolveSelectedArticleTypeAfterGenerate,
 } from "@/lib/content-generation-client";
+import { readGenerationStream } from "@/lib/generation-stream-events";
 import {
   getArticleTypeOption,
   getEnabledArticleTypeOptions,
@@ -43,8 +52,26 @@ import {
   type ContentKey,
 } from "@/lib/content-variant";
 import type { NoteViralOption } from "@/lib/note-viral-options";
+import type {
+  ContentRevisionDiff,
+  ContentRevisionSource,
+  ContentRevisionSummary,
+  RevisionDiffRow,
+  RevisionDiffSegment,
+} from "@/lib/content-revisions";
+import type {
+  PipelineTrace,
+  PipelineTraceStep,
+  PipelineTraceStepName,
+  PipelineTraceStepStatus,
+  PipelineTraceValue,
+} from "@/lib/pipeline-trace";
+import {
+  countOpenReviewComments,
+  EDITOR_NAME_STORAGE_KEY,
+  splitBodyParagraphs,
+} from "@/lib/editorial-workflow";
 
-type Platform = "ameba" | "note" | "hatena";
 type ImageProviderPreference = "closeai" | "openrouter";
 type SettingsStatus = {
   openrouter: boolean;
@@ -93,6 +120,39 @@ const PLATFORM_CONFIG = {
     icon: "B!",
     iconBg: "bg-blue-500",
   },
+  wordpress: {
+    label: "WordPress",
+    colorBg: "bg-teal-50",
+    colorBorder: "border-teal-300",
+    colorText: "text-teal-700",
+    colorAccent: "bg-teal-500",
+    colorAccentHover: "hover:bg-teal-600",
+    colorLight: "bg-teal-100",
+    icon: "W",
+    iconBg: "bg-teal-500",
+  },
+  qiita: {
+    label: "Qiita",
+    colorBg: "bg-lime-50",
+    colorBorder: "border-lime-300",
+    colorText: "text-lime-700",
+    colorAccent: "bg-lime-500",
+    colorAccentHover: "hover:bg-lime-600",
+    colorLight: "bg-lime-100",
+    icon: "Q",
+    iconBg: "bg-lime-500",
+  },
+  x: {
+    label: "X（スレッド）",
+    colorBg: "bg-slate-50",
+    colorBorder: "border-slate-300",
+    colorText: "text-slate-700",
+    colorAccent: "bg-slate-700",
+    colorAccentHover: "hover:bg-slate-800",
+    colorLight: "bg-slate-100",
+    icon: "X",
+    iconBg: "bg-slate-700",
+  },
 } as const;
 
 const STATUS_LABELS: Record<ContentStatus, string> = {
@@ -179,6 +239,7 @@ function deriveTitleFromBodyForDisplay(body: string, fallbackLabel = "不動産
 function formatImageProviderLabel(provider: string): string {
   if (provider === "closeai") return "CloseAI";
   if (provider === "openrouter") return "OpenRouter";
+  if (provider === "local") return "本地模板";
   return provider || "未记录";
 }
 
@@ -383,10 +444,926 @@ function convertMarkdownToHtml(md: string): string {
   return html;
 }
 
+// ---------------------------------------------------------------------------
+// Revision history panel
+// ---------------------------------------------------------------------------
+
+const REVISION_SOURCE_LABELS: Record<ContentRevisionSource, string> = {
+  generate: "生成",
+  "seo-geo-optimize": "SEO/GEO最適化",
+  "manual-edit": "手動編集",
+  restore: "復元",
+};
+
+function formatRevisionTime(iso: string): string {
+  const parsed = new Date(iso);
+  if (Number.isNaN(parsed.getTime())) return iso;
+  return parsed.toLocaleString("ja-JP", {
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function RevisionDiffSide({
+  segments,
+  tone,
+}: {
+  segments?: RevisionDiffSegment[];
+  tone: "removed" | "added";
+}) {
+  if (!segments) {
+    return <div className="min-h-[1.25rem] bg-gray-50" />;
+  }
+  const highlight =
+    tone === "removed" ? "bg-red-200 text-red-900" : "bg-green-200 text-green-900";
+  return (
+    <div className="whitespace-pre-wrap break-words min-h-[1.25rem]">
+      {segments.map((segment, idx) =>
+        segment.changed ? (
+          <mark key={idx} className={`${highlight} rounded-sm`}>
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={idx}>{segment.text}</span>
+        )
+      )}
+    </div>
+  );
+}
+
+function RevisionDiffTable({ rows }: { rows: RevisionDiffRow[] }) {
+  if (rows.length === 0) {
+    return <p className="text-xs text-gray-400">差分はありません</p>;
+  }
+  return (
+    <div className="grid grid-cols-2 gap-x-2 text-xs font-mono border border-gray-100 rounded-md max-h-[480px] overflow-y-auto">
+      {rows.map((row, idx) => {
+        const rowTone =
+          row.kind === "equal"
+            ? ""
+            : row.kind === "added"
+              ? "bg-green-50"
+              : row.kind === "removed"
+                ? "bg-red-50"
+                : "bg-amber-50";
+        return (
+          <div key={idx} className="contents">
+            <div className={`px-2 py-0.5 ${row.kind === "added" ? "" : rowTone}`}>
+              <RevisionDiffSide segments={row.left} tone="removed" />
+            </div>
+            <div className={`px-2 py-0.5 ${row.kind === "removed" ? "" : rowTone}`}>
+              <RevisionDiffSide segments={row.right} tone="added" />
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function RevisionHistoryPanel({
+  date,
+  platform,
+  contentKey,
+  editTitle,
+  editBody,
+  reloadToken,
+  onRestored,
+}: {
+  date: string;
+  platform: Platform;
+  contentKey: ContentKey;
+  editTitle: string;
+  editBody: string;
+  reloadToken: unknown;
+  onRestored: (content: GeneratedContent) => void;
+}) {
+  const [revisions, setRevisions] = useState<ContentRevisionSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState("");
+  const [compareFromId, setCompareFromId] = useState("");
+  const [compareToId, setCompareToId] = useState("");
+  const [diff, setDiff] = useState<ContentRevisionDiff | null>(null);
+  const [isDiffLoading, setIsDiffLoading] = useState(false);
+  const [busyRevisionId, setBusyRevisionId] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const baseQuery = useMemo(
+    () =>
+      new URLSearchParams({ date, platform, contentKey }).toString(),
+    [date, platform, contentKey]
+  );
+
+  const loadRevisions = useCallback(async () => {
+    setIsLoading(true);
+    setLoadError("");
+    try {
+      const res = await fetch(`/api/revisions?${baseQuery}`, { cache: "no-store" });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "履歴の取得に失敗しました");
+      }
+      const list: ContentRevisionSummary[] = Array.isArray(data.revisions)
+        ? data.revisions
+        : [];
+      setRevisions(list);
+      setCompareToId(list[0]?.id || "");
+      setCompareFromId(list[1]?.id || "");
+      setDiff(null);
+    } catch (err: unknown) {
+      setLoadError(err instanceof Error ? err.message : "不明なエラー");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [baseQuery]);
+
+  useEffect(() => {
+    void loadRevisions();
+  }, [loadRevisions, reloadToken]);
+
+  const handleCompare = async () => {
+    if (!compareFromId || !compareToId) return;
+    setIsDiffLoading(true);
+    try {
+      const params = new URLSearchParams({ from: compareFromId, to: compareToId });
+      const res = await fetch(`/api/revisions?${baseQuery}&${params.toString()}`, {
+        cache: "no-store",
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "差分の取得に失敗しました");
+      }
+      setDiff(data.diff as ContentRevisionDiff);
+    } catch (err: unknown) {
+      alert(`差分の取得に失敗しました: ${err instanceof Error ? err.message : "不明なエラー"}`);
+    } finally {
+      setIsDiffLoading(false);
+    }
+  };
+
+  const postRevisionAction = async (payload: Record<string, unknown>) => {
+    const res = await fetch("/api/revisions", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ date, platform, contentKey, ...payload }),
+    });
+    const data = await res.json();
+    if (!res.ok) {
+      throw new Error(data.error || "履歴の更新に失敗しました");
+    }
+    return data as { content: GeneratedContent };
+  };
+
+  const handleRestore = async (revision: ContentRevisionSummary) => {
+    if (!confirm(`r${revision.number} を現在の内容として復元します。よろしいですか？`)) {
+      return;
+    }
+    setBusyRevisionId(revision.id);
+    try {
+      const data = await postRevisionAction({ action: "restore", revisionId: revision.id });
+      onRestored(data.content);
+    } catch (err: unknown) {
+      alert(`復元に失敗しました: ${err instanceof Error ? err.message : "不明なエラー"}`);
+    } finally {
+      setBusyRevisionId("");
+    }
+  };
+
+  const handleSaveEdit = async () => {
+    setIsSaving(true);
+    try {
+      const data = await postRevisionAction({
+        action: "save",
+        content: { title: editTitle, body: editBody },
+      });
+      onRestored(data.content);
+    } catch (err: unknown) {
+      alert(`保存に失敗しました: ${err instanceof Error ? err.message : "不明なエラー"}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-bold text-gray-900 uppercase tracking-wide">
+          変更履歴
+          <span className="ml-2 text-xs font-normal text-gray-400">
+            ({revisions.length}件)
+          </span>
+        </h3>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => void loadRevisions()}
+            disabled={isLoading}
+            className="px-3 py-1 text-xs font-medium text-gray-600 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors disabled:opacity-50"
+          >
+            {isLoading ? "読込中..." : "更新"}
+          </button>
+          <button
+            onClick={handleSaveEdit}
+            disabled={isSaving || !editTitle.trim() || !editBody.trim()}
+            className="px-3 py-1 text-xs font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSaving ? "保存中..." : "現在の編集を保存"}
+          </button>
+        </div>
+      </div>
+      {loadError && (
+        <p className="text-xs text-red-600 mb-2">{loadError}</p>
+      )}
+      {revisions.length === 0 && !isLoading ? (
+        <p className="text-sm text-gray-500">まだ履歴はありません</p>
+      ) : (
+        <div className="border border-gray-100 rounded-md divide-y divide-gray-100 max-h-64 overflow-y-auto mb-4">
+          {revisions.map((revision) => (
+            <div
+              key={revision.id}
+              className="flex items-center justify-between gap-3 px-3 py-2 text-xs"
+            >
+              <div className="min-w-0">
+                <div className="flex items-center gap-2 text-gray-700">
+                  <span className="font-semibold">r{revision.number}</span>
+                  <span className="px-1.5 py-0.5 rounded bg-gray-100 text-gray-600">
+                    {REVISION_SOURCE_LABELS[revision.source] || revision.source}
+                  </span>
+                  <span className="text-gray-400">{formatRevisionTime(revision.createdAt)}</span>
+                  {revision.model && (
+                    <span className="text-gray-400 truncate">{revision.model}</span>
+                  )}
+                </div>
+                <p className="text-gray-500 truncate mt-0.5">
+                  {revision.title}（{revision.bodyLength}文字）
+                  {typeof revision.seoScore === "number" &&
+                    ` SEO ${revision.seoScore}`}
+                  {typeof revision.geoScore === "number" &&
+                    ` / GEO ${revision.geoScore}`}
+                </p>
+              </div>
+              <button
+                onClick={() => handleRestore(revision)}
+                disabled={busyRevisionId !== "" || revision.id === revisions[0]?.id}
+                className="shrink-0 px-2.5 py-1 text-xs font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                {busyRevisionId === revision.id ? "復元中..." : "復元"}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+      {revisions.length >= 2 && (
+        <div className="space-y-3">
+          <div className="flex items-center gap-2 text-xs text-gray-600">
+            <select
+              value={compareFromId}
+              onChange={(e) => setCompareFromId(e.target.value)}
+              className="border border-gray-200 rounded-md px-2 py-1"
+            >
+              {revisions.map((revision) => (
+                <option key={revision.id} value={revision.id}>
+                  r{revision.number}
+                </option>
+              ))}
+            </select>
+            <span>→</span>
+            <select
+              value={compareToId}
+              onChange={(e) => setCompareToId(e.target.value)}
+              className="border border-gray-200 rounded-md px-2 py-1"
+            >
+              {revisions.map((revision) => (
+                <option key={revision.id} value={revision.id}>
+                  r{revision.number}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={handleCompare}
+              disabled={isDiffLoading || compareFromId === compareToId}
+              className="px-3 py-1 text-xs font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors disabled:opacity-50"
+            >
+              {isDiffLoading ? "比較中..." : "差分を表示"}
+            </button>
+            {diff && (
+              <span className="text-gray-400">
+                +{diff.stats.added} / -{diff.stats.removed} / ~{diff.stats.changed}
+              </span>
+            )}
+          </div>
+          {diff && (
+            <>
+              <div>
+                <span className="text-xs text-gray-400 mb-1 block">タイトル</span>
+                <RevisionDiffTable rows={diff.title} />
+              </div>
+              <div>
+                <span className="text-xs text-gray-400 mb-1 block">本文</span>
+                <RevisionDiffTable rows={diff.body} />
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Pipeline trace timeline
+// ---------------------------------------------------------------------------
+
+const TRACE_STEP_LABELS: Record<PipelineTraceStepName, string> = {
+  "topic-resolution": "テーマ決定",
+  "generate-attempt": "生成試行",
+  research: "リサーチ",
+  draft: "本文生成",
+  review: "品質レビュー",
+  "compliance-fix": "合規修正",
+  "final-check": "最終品質チェック",
+  "auto-sanitize": "自動サニタイズ",
+  "emergency-regeneration": "緊急再生成",
+  "contamination-rescue": "混入レスキュー",
+  "platform-compliance": "プラットフォーム合規",
+  "seo-geo-scoring": "SEO/GEO採点",
+  "chatgpt-search-revision": "ChatGPT Search補強",
+  "ai-review": "AIレビュー",
+  translation: "中国語翻訳",
+};
+
+const TRACE_STATUS_STYLES: Record<PipelineTraceStepStatus, string> = {
+  ok: "bg-green-100 text-green-700",
+  failed: "bg-red-100 text-red-700",
+  skipped: "bg-gray-100 text-gray-500",
+};
+
+const MODEL_ATTEMPT_LABELS = {
+  ok: "成功",
+  retry: "再試行",
+  fallback: "フォールバック",
+  failed: "失敗",
+} as const;
+
+function formatTraceDuration(ms: number): string {
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${ms}ms`;
+}
+
+function formatTraceValue(value: PipelineTraceValue): string {
+  if (Array.isArray(value)) return value.join(" / ") || "-";
+  if (value === null) return "-";
+  return String(value);
+}
+
+function TraceFields({
+  title,
+  fields,
+}: {
+  title: string;
+  fields?: Record<string, PipelineTraceValue>;
+}) {
+  if (!fields || Object.keys(fields).length === 0) return null;
+  return (
+    <div>
+      <span className="text-gray-400">{title}</span>
+      <dl className="mt-0.5 grid grid-cols-[max-content_1fr] gap-x-3 gap-y-0.5">
+        {Object.entries(fields).map(([key, value]) => (
+          <div key={key} className="contents">
+            <dt className="text-gray-500 font-mono">{key}</dt>
+            <dd className="text-gray-700 break-words">{formatTraceValue(value)}</dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+}
+
+function TraceStepDetail({ step }: { step: PipelineTraceStep }) {
+  return (
+    <div className="mt-2 space-y-2 text-xs">
+      {step.error && <p className="text-red-600 break-words">{step.error}</p>}
+      <TraceFields title="入力" fields={step.input} />
+      <TraceFields title="出力" fields={step.output} />
+      {step.issues && step.issues.length > 0 && (
+        <div>
+          <span className="text-gray-400">指摘（{step.issues.length}件）</span>
+          <ol className="mt-0.5 list-decimal list-inside text-amber-800 space-y-0.5">
+            {step.issues.map((issue, idx) => (
+              <li key={idx} className="break-words">
+                {issue}
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+      {step.modelAttempts && step.modelAttempts.length > 0 && (
+        <div>
+          <span className="text-gray-400">
+            モデル呼び出し
+            {step.modelCandidates && `（候補: ${step.modelCandidates.join(" → ")}）`}
+          </span>
+          <ul className="mt-0.5 space-y-0.5">
+            {step.modelAttempts.map((attempt, idx) => (
+              <li key={idx} className="text-gray-700 break-words">
+                <span className="font-mono">{attempt.model}</span> #{attempt.attempt}{" "}
+                {MODEL_ATTEMPT_LABELS[attempt.outcome]}
+                {attempt.fallbackTo && ` → ${attempt.fallbackTo}`}（
+                {formatTraceDuration(attempt.durationMs)}）
+                {attempt.error && <span className="text-red-600"> {attempt.error}</span>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {step.sanitizers && step.sanitizers.length > 0 && (
+        <div>
+          <span className="text-gray-400">サニタイザ</span>
+          <ul className="mt-0.5 space-y-0.5">
+            {step.sanitizers.map((sanitizer) => (
+              <li key={sanitizer.name} className="text-gray-700">
+                <span className="font-mono">{sanitizer.name}</span> ×{sanitizer.runs}（
+                {sanitizer.charDelta > 0 ? "+" : ""}
+                {sanitizer.charDelta}文字）
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function PipelineTracePanel({
+  date,
+  platform,
+  contentKey,
+  currentTraceId,
+  reloadToken,
+}: {
+  date: string;
+  platform: Platform;
+  contentKey: ContentKey;
+  currentTraceId?: string;
+  reloadToken: unknown;
+}) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [traces, setTraces] = useState<PipelineTrace[]>([]);
+  const [selectedTraceId, setSelectedTraceId] = useState("");
+  const [expandedStepIndex, setExpandedStepIndex] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState("");
+
+  const loadTraces = useCallback(async () => {
+    setIsLoading(true);
+    setLoadError("");
+    try {
+      const query = new URLSearchParams({ date, platform, contentKey }).toString();
+      const res = await fetch(`/api/traces?${query}`, { cache: "no-store" });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "トレースの取得に失敗しました");
+      }
+      const list: PipelineTrace[] = Array.isArray(data.traces) ? data.traces : [];
+      setTraces(list);
+      setSelectedTraceId(list[0]?.id || "");
+      setExpandedStepIndex(null);
+    } catch (err: unknown) {
+      setLoadError(err instanceof Error ? err.message : "不明なエラー");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [date, platform, contentKey]);
+
+  useEffect(() => {
+    if (isOpen) void loadTraces();
+  }, [isOpen, loadTraces, reloadToken]);
+
+  const selectedTrace = traces.find((trace) => trace.id === selectedTraceId) || null;
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6">
+      <div className="flex items-center justify-between">
+        <button
+          onClick={() => setIsOpen((open) => !open)}
+          className="text-sm font-bold text-gray-900 uppercase tracking-wide hover:text-indigo-700"
+        >
+          {isOpen ? "▼" : "▶"} 生成トレース
+        </button>
+        {isOpen && (
+          <div className="flex items-center gap-2">
+            {traces.length > 0 && (
+              <select
+                value={selectedTraceId}
+                onChange={(e) => {
+                  setSelectedTraceId(e.target.value);
+                  setExpandedStepIndex(null);
+                }}
+                className="border border-gray-200 rounded-md px-2 py-1 text-xs text-gray-600"
+              >
+                {traces.map((trace) => (
+                  <option key={trace.id} value={trace.id}>
+                    {formatRevisionTime(trace.startedAt)}{" "}
+                    {trace.status === "failed" ? "失敗" : "成功"}
+                    {trace.id === currentTraceId ? "（現在の本文）" : ""}
+                  </option>
+                ))}
+              </select>
+            )}
+            <button
+              onClick={() => void loadTraces()}
+              disabled={isLoading}
+              className="px-3 py-1 text-xs font-medium text-gray-600 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors disabled:opacity-50"
+            >
+              {isLoading ? "読込中..." : "更新"}
+            </button>
+          </div>
+        )}
+      </div>
+      {isOpen && (
+        <div className="mt-3">
+          {loadError && <p className="text-xs text-red-600 mb-2">{loadError}</p>}
+          {!selectedTrace && !isLoading ? (
+            <p className="text-sm text-gray-500">まだトレースはありません</p>
+          ) : selectedTrace ? (
+            <>
+              <p className="text-xs text-gray-500 mb-2">
+                合計 {formatTraceDuration(selectedTrace.durationMs)} /{" "}
+                {selectedTrace.steps.length}ステップ
+                {selectedTrace.error && (
+                  <span className="ml-2 text-red-600 break-words">{selectedTrace.error}</span>
+                )}
+              </p>
+              <ol className="border-l-2 border-gray-100 space-y-1">
+                {selectedTrace.steps.map((step, idx) => {
+                  const expanded = expandedStepIndex === idx;
+                  const fallbackCount = (step.modelAttempts || []).filter(
+                    (attempt) => attempt.outcome === "fallback"
+                  ).length;
+                  return (
+                    <li
+                      key={idx}
+                      className="pl-3"
+                      style={{ marginLeft: `${step.depth * 16}px` }}
+                    >
+                      <button
+                        onClick={() => setExpandedStepIndex(expanded ? null : idx)}
+                        className="w-full flex items-center gap-2 text-left text-xs text-gray-700 hover:text-indigo-700"
+                      >
+                        <span
+                          className={`px-1.5 py-0.5 rounded ${TRACE_STATUS_STYLES[step.status]}`}
+                        >
+                          {step.status}
+                        </span>
+                        <span className="font-medium">
+                          {TRACE_STEP_LABELS[step.name] || step.name}
+                        </span>
+                        {step.label && <span className="text-gray-400">{step.label}</span>}
+                        {step.issues && step.issues.length > 0 && (
+                          <span className="text-amber-700">指摘 {step.issues.length}</span>
+                        )}
+                        {fallbackCount > 0 && (
+                          <span className="text-red-600">フォールバック {fallbackCount}</span>
+                        )}
+                        <span className="ml-auto text-gray-400">
+                          {formatTraceDuration(step.durationMs)}
+                        </span>
+                      </button>
+                      {expanded && <TraceStepDetail step={step} />}
+                    </li>
+                  );
+                })}
+              </ol>
+            </>
+          ) : null}
+        </div>
+      )}
+    </div>
+  );
+}
+
 // ---------------------------------------------------------------------------
 // Main component
 // ---------------------------------------------------------------------------
 
+type WorkflowAction = {
+  to: ContentStatus;
+  label: string;
+  tone: string;
+  /** Prompt text when a reason is required */
+  reasonPrompt?: string;
+};
+
+const WORKFLOW_ACTIONS: Record<ContentStatus, WorkflowAction[]> = {
+  pending: [
+    { to: "skipped", label: "スキップ", tone: "text-gray-700 bg-gray-100 hover:bg-gray-200", reasonPrompt: "スキップする理由を入力してください" },
+  ],
+  generated: [
+    { to: "reviewed", label: "承認してレビュー済みにする", tone: "text-white bg-emerald-600 hover:bg-emerald-700" },
+    { to: "skipped", label: "スキップ", tone: "text-gray-700 bg-gray-100 hover:bg-gray-200", reasonPrompt: "スキップする理由を入力してください" },
+  ],
+  reviewed: [
+    { to: "generated", label: "差し戻す", tone: "text-amber-800 bg-amber-100 hover:bg-amber-200", reasonPrompt: "差し戻す理由を入力してください" },
+    { to: "skipped", label: "スキップ", tone: "text-gray-700 bg-gray-100 hover:bg-gray-200", reasonPrompt: "スキップする理由を入力してください" },
+  ],
+  published: [],
+  skipped: [
+    { to: "pending", label: "再開する", tone: "text-indigo-700 bg-indigo-50 hover:bg-indigo-100" },
+  ],
+};
+
+function EditorialWorkflowPanel({
+  date,
+  platform,
+  entry,
+  body,
+  editorName,
+  onEditorNameChange,
+  onEntryChange,
+}: {
+  date: string;
+  platform: Platform;
+  entry: PlatformEntry;
+  body: string;
+  editorName: string;
+  onEditorNameChange: (name: string) => void;
+  onEntryChange: (entry: PlatformEntry) => void;
+}) {
+  const [assignee, setAssignee] = useState(entry.assignee || "");
+  const [reviewer, setReviewer] = useState(entry.reviewer || "");
+  const [busy, setBusy] = useState("");
+  const [commentText, setCommentText] = useState("");
+  const [commentParagraph, setCommentParagraph] = useState("");
+  const [replyTo, setReplyTo] = useState<ReviewComment | null>(null);
+  const paragraphs = useMemo(() => splitBodyParagraphs(body), [body]);
+  const comments = entry.reviewComments || [];
+  const threads = comments.filter((comment) => !comment.parentId);
+  const openCount = countOpenReviewComments(comments);
+
+  useEffect(() => {
+    setAssignee(entry.assignee || "");
+    setReviewer(entry.reviewer || "");
+  }, [entry.assignee, entry.reviewer]);
+
+  const send = async (
+    url: string,
+    method: "POST" | "PATCH",
+    payload: Record<string, unknown>,
+    busyKey: string
+  ): Promise<boolean> => {
+    setBusy(busyKey);
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ date, platform, ...payload }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (data.day?.platforms?.[platform]) {
+        onEntryChange(data.day.platforms[platform] as PlatformEntry);
+      }
+      if (!res.ok) {
+        alert(data.error || "更新に失敗しました");
+        return false;
+      }
+      return true;
+    } catch (err: unknown) {
+      alert(`更新に失敗しました: ${err instanceof Error ? err.message : "不明なエラー"}`);
+      return false;
+    } finally {
+      setBusy("");
+    }
+  };
+
+  const handleTransition = async (action: WorkflowAction) => {
+    let reason = "";
+    if (action.reasonPrompt) {
+      reason = (window.prompt(action.reasonPrompt) || "").trim();
+      if (!reason) return;
+    }
+    if (action.to === "reviewed" && !editorName.trim()) {
+      alert("承認するには「あなたの名前」を入力してください");
+      return;
+    }
+    await send(
+      "/api/calendar",
+      "PATCH",
+      {
+        status: action.to,
+        actor: editorName,
+        reason,
+        expectedVersion: entry.version ?? 0,
+      },
+      `status:${action.to}`
+    );
+  };
+
+  const handleSaveAssignment = () =>
+    send("/api/calendar", "PATCH", { assignee, reviewer }, "assignment");
+
+  const handlePostComment = async () => {
+    const posted = await send(
+      "/api/calendar/comments",
+      "POST",
+      {
+        author: editorName,
+        body: commentText,
+        ...(replyTo
+          ? { parentId: replyTo.id }
+          : commentParagraph !== ""
+            ? { paragraphIndex: Number(commentParagraph) }
+            : {}),
+      },
+      "comment"
+    );
+    if (posted) {
+      setCommentText("");
+      setReplyTo(null);
+    }
+  };
+
+  const handleResolve = (comment: ReviewComment) =>
+    send(
+      "/api/calendar/comments",
+      "PATCH",
+      { commentId: comment.id, resolved: !comment.resolvedAt, actor: editorName },
+      `resolve:${comment.id}`
+    );
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="text-sm font-bold text-gray-900 uppercase tracking-wide">
+          編集ワークフロー
+          <span className="ml-2 text-xs font-normal text-gray-500">
+            {STATUS_LABELS[entry.status]}
+            {entry.reviewedBy ? ` / 承認: ${entry.reviewedBy}` : ""}
+            {entry.status === "skipped" && entry.skipReason ? ` / 理由: ${entry.skipReason}` : ""}
+          </span>
+        </h3>
+        <label className="flex items-center gap-2 text-xs text-gray-500">
+          あなたの名前
+          <input
+            value={editorName}
+            onChange={(e) => onEditorNameChange(e.target.value)}
+            placeholder="例: 田中"
+            className="w-32 rounded-md border border-gray-300 px-2 py-1 text-xs text-gray-800"
+          />
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3 text-xs">
+        <label className="flex flex-col gap-1 text-gray-500">
+          執筆担当
+          <input
+            value={assignee}
+            onChange={(e) => setAssignee(e.target.value)}
+            className="w-36 rounded-md border border-gray-300 px-2 py-1 text-gray-800"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-gray-500">
+          レビュー担当
+          <input
+            value={reviewer}
+            onChange={(e) => setReviewer(e.target.value)}
+            className="w-36 rounded-md border border-gray-300 px-2 py-1 text-gray-800"
+          />
+        </label>
+        <button
+          onClick={() => void handleSaveAssignment()}
+          disabled={busy !== "" || (assignee === (entry.assignee || "") && reviewer === (entry.reviewer || ""))}
+          className="px-3 py-1.5 font-medium text-indigo-700 bg-indigo-50 rounded-md hover:bg-indigo-100 disabled:opacity-50"
+        >
+          担当を保存
+        </button>
+        <div className="ml-auto flex flex-wrap gap-2">
+          {WORKFLOW_ACTIONS[entry.status].map((action) => (
+            <button
+              key={action.to}
+              onClick={() => void handleTransition(action)}
+              disabled={busy !== "" || (action.to === "reviewed" && openCount > 0)}
+              title={action.to === "reviewed" && openCount > 0 ? "未解決のコメントがあります" : undefined}
+              className={`px-3 py-1.5 font-medium rounded-md disabled:opacity-50 ${action.tone}`}
+            >
+              {busy === `status:${action.to}` ? "更新中..." : action.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <p className="text-xs font-medium text-gray-700 mb-2">
+          レビューコメント
+          <span className="ml-2 font-normal text-gray-400">
+            未解決 {openCount}件 / 全{threads.length}件
+          </span>
+        </p>
+        {threads.length > 0 && (
+          <ul className="space-y-2 mb-3 max-h-80 overflow-y-auto">
+            {threads.map((thread) => {
+              const anchor =
+                thread.paragraphIndex !== undefined ? paragraphs[thread.paragraphIndex] : undefined;
+              const anchorChanged =
+                thread.paragraphIndex !== undefined &&
+                !!thread.paragraphExcerpt &&
+                !(anchor || "").startsWith(thread.paragraphExcerpt);
+              return (
+                <li
+                  key={thread.id}
+                  className={`rounded-md border p-3 text-xs ${
+                    thread.resolvedAt ? "border-gray-100 bg-gray-50 text-gray-500" : "border-amber-200 bg-amber-50/40"
+                  }`}
+                >
+                  {thread.paragraphIndex !== undefined && (
+                    <p className="mb-1 text-[11px] text-gray-500 line-clamp-2">
+                      ¶{thread.paragraphIndex + 1}: {thread.paragraphExcerpt}
+                      {anchorChanged && <span className="ml-1 text-amber-700">（段落が編集されています）</span>}
+                    </p>
+                  )}
+                  {[thread, ...comments.filter((comment) => comment.parentId === thread.id)].map(
+                    (comment) => (
+                      <div key={comment.id} className={comment.parentId ? "mt-1.5 ml-4" : ""}>
+                        <span className="font-medium text-gray-800">{comment.author}</span>
+                        <span className="ml-2 text-gray-400">{formatRevisionTime(comment.createdAt)}</span>
+                        <p className="whitespace-pre-wrap text-gray-700">{comment.body}</p>
+                      </div>
+                    )
+                  )}
+                  <div className="mt-2 flex gap-3">
+                    <button onClick={() => setReplyTo(thread)} className="text-indigo-600 hover:underline">
+                      返信
+                    </button>
+                    <button
+                      onClick={() => void handleResolve(thread)}
+                      disabled={busy !== ""}
+                      className="text-gray-600 hover:underline disabled:opacity-50"
+                    >
+                      {thread.resolvedAt ? `再開（${thread.resolvedBy}が解決）` : "解決済みにする"}
+                    </button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+        <div className="space-y-2">
+          {replyTo ? (
+            <p className="text-xs text-gray-500">
+              {replyTo.author} のコメントに返信
+              <button onClick={() => setReplyTo(null)} className="ml-2 text-indigo-600 hover:underline">
+                取消
+              </button>
+            </p>
+          ) : (
+            <select
+              value={commentParagraph}
+              onChange={(e) => setCommentParagraph(e.target.value)}
+              className="w-full rounded-md border border-gray-300 px-2 py-1 text-xs text-gray-700"
+            >
+              <option value="">記事全体へのコメント</option>
+              {paragraphs.map((paragraph, index) => (
+                <option key={index} value={index}>
+                  ¶{index + 1}: {paragraph.slice(0, 40)}
+                </option>
+              ))}
+            </select>
+          )}
+          <textarea
+            value={commentText}
+            onChange={(e) => setCommentText(e.target.value)}
+            rows={2}
+            placeholder="指摘・修正依頼を入力"
+            className="w-full rounded-md border border-gray-300 px-2 py-1.5 text-xs text-gray-800"
+          />
+          <button
+            onClick={() => void handlePostComment()}
+            disabled={busy !== "" || !commentText.trim() || !editorName.trim()}
+            title={!editorName.trim() ? "「あなたの名前」を入力してください" : undefined}
+            className="px-3 py-1.5 text-xs font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {busy === "comment" ? "投稿中..." : "コメントする"}
+          </button>
+        </div>
+      </div>
+
+      {(entry.statusHistory || []).length > 0 && (
+        <div>
+          <p className="text-xs font-medium text-gray-700 mb-1">ステータス履歴</p>
+          <ul className="text-[11px] text-gray-500 space-y-0.5">
+            {[...(entry.statusHistory || [])].reverse().map((transition, index) => (
+              <li key={`${transition.at}-${index}`}>
+                {formatRevisionTime(transition.at)} {STATUS_LABELS[transition.from]} → {STATUS_LABELS[transition.to]}
+                {transition.by ? `（${transition.by}）` : ""}
+                {transition.reason ? `: ${transition.reason}` : ""}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
 export default function ContentPageClient({
   date,
   platform,
@@ -398,6 +1375,7 @@ export default function ContentPageClient({
   inlineFiles,
   contentKey = "standard",
   isNoteViralPage = false,
+  recommendedArticleType,
 }: {
   date: string;
   platform: Platform;
@@ -409,6 +1387,8 @@ export default function ContentPageClient({
   inlineFiles: string[];
   contentKey?: ContentKey;
   isNoteViralPage?: boolean;
+  /** Default type adjusted by published-post performance (server-side) */
+  recommendedArticleType?: CoreArticleType;
 }) {
   const router = useRouter();
   const config = PLATFORM_CONFIG[platform];
@@ -425,10 +1405,9 @@ export default function ContentPageClient({
     }
     return undefined;
   };
-  const defaultArticleType = getRecommendedArticleType(
-    platform,
-    resolvePlatformAssetType()
-  );
+  const defaultArticleType =
+    recommendedArticleType ||
+    getRecommendedArticleType(platform, resolvePlatformAssetType());
   const contentArticleType = generatedContent?.meta?.articleType;
   const initialArticleType = resolveArticleType(contentArticleType, defaultArticleType);
   const initialResolvedTitle =
@@ -444,6 +1423,8 @@ export default function ContentPageClient({
   );
   const [isGenerating, setIsGenerating] = useState(false);
   const [streamText, setStreamText] = useState("");
+  const [draftPreview, setDraftPreview] = useState("");
+  const generationAbortRef = useRef<AbortController | null>(null);
   const [editTitle, setEditTitle] = useState(
     initialResolvedTitle
   );
@@ -459,6 +1440,9 @@ export default function ContentPageClient({
   const [coverQualityHint, setCoverQualityHint] = useState("");
   const [coverImageProviderUsed, setCoverImageProviderUsed] = useState("");
   const [coverImageModelUsed, setCoverImageModelUsed] = useState("");
+  const [coverRenderLocal, setCoverRenderLocal] = useState(false);
+  const [coverVariantCount, setCoverVariantCount] = useState(1);
+  const [isSelectingCover, setIsSelectingCover] = useState(false);
   const [currentInlineFile, setCurrentInlineFile] = useState(inlineFile);
   const [inlineHistoryFiles, setInlineHistoryFiles] = useState<string[]>(
     inlineFiles
@@ -479,6 +1463,8 @@ export default function ContentPageClient({
     null
   );
   const [isPublishing, setIsPublishing] = useState(false);
+  const [workflowEntry, setWorkflowEntry] = useState<PlatformEntry | undefined>(platformEntry);
+  const [editorName, setEditorName] = useState("");
   const [isOptimizingSeoGeo, setIsOptimizingSeoGeo] = useState(false);
   const [customTakkenaiUrl, setCustomTakkenaiUrl] = useState(
     generatedContent?.takkenaiLink ||
@@ -505,6 +1491,19 @@ export default function ContentPageClient({
   const [isImageProviderHydrated, setIsImageProviderHydrated] = useState(false);
   const imageProviderTouchedRef = useRef(false);
 
+  useEffect(() => {
+    setWorkflowEntry(platformEntry);
+  }, [platformEntry]);
+
+  useEffect(() => {
+    setEditorName(window.localStorage.getItem(EDITOR_NAME_STORAGE_KEY) || "");
+  }, []);
+
+  const handleEditorNameChange = useCallback((name: string) => {
+    setEditorName(name);
+    window.localStorage.setItem(EDITOR_NAME_STORAGE_KEY, name.trim());
+  }, []);
+
   const defaultTakkenaiUrl =
     calendarDay?.motherTopics?.[platform]?.takkenaiUrl || content?.takkenaiLink || "";
   const takkenaiUrl = (customTakkenaiUrl || defaultTakkenaiUrl).trim();
@@ -724,6 +1723,11 @@ export default function ContentPageClient({
     });
   }, [content, editBody, editTitle, platform]);
 
+  const threadPosts = useMemo(() => {
+    if (!content || getPlatformDefinition(platform).publishFormat !== "thread") return [];
+    return splitIntoThread((editBody || content.body).trim());
+  }, [content, editBody, platform]);
+
   const markdownPreview = useMemo(() => {
     if (!content) return "";
     const composed = composePublishPayload({
@@ -839,54 +1843,70 @@ export default function ContentPageClient({
     }
 
     setIsGenerating(true);
-    setStreamText("インターネットで最新情報をリサーチ中...");
+    setStreamText("生成を開始しています...");
+    setDraftPreview("");
 
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
     try {
-      const controller = new AbortController();
-      const timeoutId = window.setTimeout(() => controller.abort(), 120000);
-      let res: Response;
-      try {
-        res = await fetch("/api/generate", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          signal: controller.signal,
-          body: JSON.stringify(
-            buildGenerateRequestPayload({
-              date,
-              platform,
-              ...(inNoteViralPage
-                ? {}
-                : {
-                    articleType: selectedArticleType,
-                    takkenaiUrl,
-                  }),
-              contentKey: resolvedContentKey,
-              ...(inNoteViralPage
-                ? { noteViralOptionId: selectedNoteViralOptionId }
-                : {}),
-            })
-          ),
-        });
-      } finally {
-        window.clearTimeout(timeoutId);
-      }
+      const res = await fetch("/api/generate/stream", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        signal: controller.signal,
+        body: JSON.stringify(
+          buildGenerateRequestPayload({
+            date,
+            platform,
+            ...(inNoteViralPage
+              ? {}
+              : {
+                  articleType: selectedArticleType,
+                  takkenaiUrl,
+                }),
+            contentKey: resolvedContentKey,
+            ...(inNoteViralPage
+              ? { noteViralOptionId: selectedNoteViralOptionId }
+              : {}),
+          })
+        ),
+      });
 
-      if (!res.ok) {
-        const err = await res.json();
+      if (!res.ok || !res.body) {
+        const err = await res.json().catch(() => ({}));
         throw new Error(err.error || "生成に失敗しました");
       }
 
-      const result: GeneratedContent = await res.json();
-      setContent(result);
-      setEditTitle(result.title);
-      setEditBody(result.body);
+      let result: GeneratedContent | null = null;
+      let streamError = "";
+      await readGenerationStream(res.body, (item) => {
+        if (item.event === "stage") {
+          setStreamText(formatGenerationStageLabel(item.data));
+          if (item.data.stage === "revision" || item.data.stage === "retry") {
+            setDraftPreview("");
+          }
+        } else if (item.event === "draft") {
+          setDraftPreview(item.data.text);
+        } else if (item.event === "complete") {
+          result = item.data;
+        } else if (item.event === "error") {
+          streamError = item.data.error;
+        }
+      });
+      if (!result) {
+        throw new Error(streamError || "生成ストリームが途中で終了しました");
+      }
+
+      const generated: GeneratedContent = result;
+      setContent(generated);
+      setEditTitle(generated.title);
+      setEditBody(generated.body);
       setSelectedArticleType(
-        resolveSelectedArticleTypeAfterGenerate(result, selectedArticleType)
+        resolveSelectedArticleTypeAfterGenerate(generated, selectedArticleType)
       );
       setCurrentCoverFile(null);
       setCurrentInlineFile(null);
-      if (result.meta?.noteViralOptionId) {
-        setSelectedNoteViralOptionId(result.meta.noteViralOptionId);
+      if (generated.meta?.noteViralOptionId) {
+        setSelectedNoteViralOptionId(generated.meta.noteViralOptionId);
       }
       setStreamText("");
     } catch (err: unknown) {
@@ -894,21 +1914,26 @@ export default function ContentPageClient({
         typeof DOMException !== "undefined" &&
         err instanceof DOMException &&
         err.name === "AbortError";
+      setStreamText("");
       if (aborted) {
-        setStreamText("");
-        await router.refresh();
-        alert("生成请求超时，已自动刷新页面。若后台已完成，会直接显示最新内容。");
+        // Cancelled from the UI: the server stops the pipeline when the stream closes.
         return;
       }
       const message =
         err instanceof Error ? err.message : "不明なエラー";
       alert(`コンテンツ生成に失敗しました: ${message}`);
-      setStreamText("");
     } finally {
+      generationAbortRef.current = null;
+      setDraftPreview("");
       setIsGenerating(false);
     }
   };
 
+  const handleCancelGenerate = () => {
+    if (!confirm("生成を中止しますか？（途中の結果は保存されません）")) return;
+    generationAbortRef.current?.abort();
+  };
+
   const handleRegenerate = async () => {
     const confirmMessage = inNoteViralPage
       ? "選択中の爆款候选で再生成します。よろしいですか？"
@@ -1093,6 +2118,8 @@ export default function ContentPageClient({
           date,
           platform,
           status: "published",
+          actor: editorName,
+          ...(workflowEntry ? { expectedVersion: workflowEntry.version ?? 0 } : {}),
           ...(platform === "note" &&
           !inNoteViralPage &&
           normalizedNotePublishUrl
@@ -1100,10 +2127,17 @@ export default function ContentPageClient({
             : {}),
         }),
       });
+      if (res.status === 409) {
+        router.refresh();
+        throw new Error("他のタブで更新されています。最新の状態を読み込みました。確認してから再度公開してください。");
+      }
+      const payload = await res.json().catch(() => ({}));
       if (!res.ok) {
-        const payload = await res.json().catch(() => ({}));
         throw new Error(payload.error || "公開ステータス更新に失敗しました");
       }
+      if (payload.day?.platforms?.[platform]) {
+        setWorkflowEntry(payload.day.platforms[platform] as PlatformEntry);
+      }
       router.refresh();
     } catch (err) {
       const message = err instanceof Error ? err.message : "不明なエラー";
@@ -1225,7 +2259,7 @@ export default function ContentPageClient({
 
   const handleGenerateCover = async () => {
     if (!content) return;
-    if (!ensureImageProviderReady()) return;
+    if (!coverRenderLocal && !ensureImageProviderReady()) return;
 
     setCoverQualityHint("");
     setIsGeneratingCover(true);
@@ -1250,6 +2284,8 @@ export default function ContentPageClient({
               imageModel: imageModelForRequest,
               imageType: "cover",
               coverStyle: selectedCoverStyle,
+              coverRenderMode: coverRenderLocal ? "local" : undefined,
+              variants: coverVariantCount,
             }),
           });
         } finally {
@@ -1265,17 +2301,30 @@ export default function ContentPageClient({
       setCurrentCoverFile(result.filename);
       setCoverImageProviderUsed(result.imageProviderUsed || "");
       setCoverImageModelUsed(result.imageModelUsed || "");
+      const generatedFiles: string[] = Array.isArray(result.variants)
+        ? result.variants.map((variant: { filename: string }) => variant.filename)
+        : [result.filename];
       setCoverHistoryFiles((prev) => [
-        result.filename,
-        ...prev.filter((file) => file !== result.filename),
+        ...generatedFiles,
+        ...prev.filter((file) => !generatedFiles.includes(file)),
       ]);
       const hints: string[] = [];
+      if (Array.isArray(result.variantErrors) && result.variantErrors.length > 0) {
+        hints.push(
+          `${result.variantErrors.length}款风格生成失败：${result.variantErrors
+            .map((item: { styleId: string }) => item.styleId)
+            .join("、")}`
+        );
+      }
       if (result.textAdjusted === true) {
         hints.push("封面文字已自动缩短以避免截断");
       }
       if (result.qualityCheck === "retry_pass") {
         hints.push("首次排版有溢出，已自动修复并重生成功");
       }
+      if (result.renderedLocally === true && !coverRenderLocal) {
+        hints.push("图片模型暂不可用，已改用本地模板生成封面");
+      }
       setCoverQualityHint(hints.join("；"));
     } catch (err: unknown) {
       const aborted =
@@ -1293,6 +2342,29 @@ export default function ContentPageClient({
     }
   };
 
+  const publishedCoverFile = workflowEntry?.cover?.filename || null;
+
+  const handleSelectPublishedCover = async (file: string) => {
+    setIsSelectingCover(true);
+    try {
+      const res = await fetch("/api/calendar/cover", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ date, platform, filename: file }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "不明なエラー");
+      }
+      setWorkflowEntry(data.entry as PlatformEntry);
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : "不明なエラー";
+      alert(`公開した封面図の記録に失敗しました: ${message}`);
+    } finally {
+      setIsSelectingCover(false);
+    }
+  };
+
   const handleDownloadImage = (file: string | null) => {
     if (!file) return;
     const imageUrl = getImageUrlByFile(file);
@@ -1592,17 +2664,17 @@ export default function ContentPageClient({
                 </span>
               )}
               <span className="text-sm text-gray-500">{date}</span>
-              {platformEntry && (
+              {workflowEntry && (
                 <span
                   className={`text-xs px-2 py-0.5 rounded-full ${
-                    platformEntry.status === "generated" || platformEntry.status === "reviewed"
+                    workflowEntry.status === "generated" || workflowEntry.status === "reviewed"
                       ? "bg-emerald-100 text-emerald-700"
-                      : platformEntry.status === "published"
+                      : workflowEntry.status === "published"
                         ? "bg-purple-100 text-purple-700"
                         : "bg-gray-100 text-gray-600"
                   }`}
                 >
-                  {STATUS_LABELS[platformEntry.status]}
+                  {STATUS_LABELS[workflowEntry.status]}
                 </span>
               )}
             </div>
@@ -1817,6 +2889,22 @@ export default function ContentPageClient({
         </div>
       )}
 
+      {/* Editorial Workflow */}
+      {workflowEntry && !inNoteViralPage && (
+        <EditorialWorkflowPanel
+          date={date}
+          platform={platform}
+          entry={workflowEntry}
+          body={workflowEntry.generatedBody || content?.body || ""}
+          editorName={editorName}
+          onEditorNameChange={handleEditorNameChange}
+          onEntryChange={(entry) => {
+            setWorkflowEntry(entry);
+            router.refresh();
+          }}
+        />
+      )}
+
       {/* Not Generated State */}
       {!content && !isGenerating && (
         <div className="text-center py-16 bg-white rounded-lg border border-gray-200">
@@ -1889,6 +2977,22 @@ export default function ContentPageClient({
           <p className="text-xs text-gray-300 mt-4">
             Step 1: 最新データのリサーチ → Step 2: 記事生成と品質検査（通常45〜180秒）
           </p>
+          <button
+            onClick={handleCancelGenerate}
+            className="mt-4 px-3 py-1 text-xs font-medium text-red-700 bg-red-50 rounded-md hover:bg-red-100 transition-colors"
+          >
+            生成を中止
+          </button>
+          {draftPreview && (
+            <div className="mt-6 mx-6 text-left">
+              <span className="text-xs text-gray-400 mb-1 block">
+                執筆中の下書き（確定前・品質チェック前）
+              </span>
+              <div className="border border-gray-100 rounded-lg p-4 max-h-[480px] overflow-y-auto opacity-80">
+                <MarkdownRenderer content={draftPreview} />
+              </div>
+            </div>
+          )}
         </div>
       )}
 
@@ -2242,6 +3346,31 @@ export default function ContentPageClient({
             </div>
           </div>
 
+          {/* Revision History */}
+          <RevisionHistoryPanel
+            date={date}
+            platform={platform}
+            contentKey={resolvedContentKey}
+            editTitle={editTitle}
+            editBody={editBody}
+            reloadToken={content}
+            onRestored={(restored) => {
+              setContent(restored);
+              setEditTitle(restored.title);
+              setEditBody(restored.body);
+              router.refresh();
+            }}
+          />
+
+          {/* Pipeline Trace */}
+          <PipelineTracePanel
+            date={date}
+            platform={platform}
+            contentKey={resolvedContentKey}
+            currentTraceId={content.meta?.traceId}
+            reloadToken={content}
+          />
+
           {/* Cover Image */}
           <div className="bg-white rounded-lg border border-gray-200 p-5">
             <div className="flex items-center justify-between mb-4">
@@ -2252,6 +3381,28 @@ export default function ContentPageClient({
                   <div className="flex items-center gap-2">
                   {imageProviderSelector}
                   {imageModelLabel}
+                  <label className="inline-flex items-center gap-1 text-xs text-gray-500 whitespace-nowrap">
+                    <input
+                      type="checkbox"
+                      checked={coverRenderLocal}
+                      onChange={(event) => setCoverRenderLocal(event.target.checked)}
+                      disabled={isGeneratingCover}
+                    />
+                    本地模板
+                  </label>
+                  <select
+                    value={coverVariantCount}
+                    onChange={(event) => setCoverVariantCount(Number(event.target.value))}
+                    disabled={isGeneratingCover}
+                    className="text-xs border border-gray-200 rounded-md px-1.5 py-1 text-gray-600"
+                    title="一次生成多款不同风格的封面，发布后可对比点击率"
+                  >
+                    {[1, 2, 3, 4].map((count) => (
+                      <option key={count} value={count}>
+                        {count === 1 ? "1款" : `${count}款对比`}
+                      </option>
+                    ))}
+                  </select>
                 </div>
       <button
                     onClick={handleGenerateCover}
@@ -2318,6 +3469,26 @@ export default function ContentPageClient({
                       />
                     <div className="mt-2 flex items-center justify-between gap-2">
                       <div className="text-[11px] text-gray-500">クリックして拡大プレビュー</div>
+                      <div className="flex items-center gap-2">
+                      {currentCoverFile === publishedCoverFile ? (
+                        <span className="px-2 py-1 rounded-md text-[11px] font-medium text-purple-700 bg-purple-100">
+                          发布封面
+                        </span>
+                      ) : (
+                        <button
+                          type="button"
+                          onClick={(e) => {
+                            e.preventDefault();
+                            e.stopPropagation();
+                            handleSelectPublishedCover(currentCoverFile);
+                          }}
+                          disabled={isSelectingCover || !workflowEntry}
+                          className="px-2 py-1 rounded-md text-[11px] font-medium text-purple-700 bg-purple-50 hover:bg-purple-100 disabled:opacity-50"
+                          title="记录实际发布的封面，导入成效数据后用于对比各风格的点击率"
+                        >
+                          {isSelectingCover ? "记录中..." : "设为发布封面"}
+                        </button>
+                      )}
                       <button
                         type="button"
                         onClick={(e) => {
@@ -2332,6 +3503,7 @@ export default function ContentPageClient({
                         </svg>
                         下载
                       </button>
+                      </div>
                     </div>
                   </div>
 
@@ -2359,6 +3531,11 @@ export default function ContentPageClient({
                                   className="w-full aspect-[16/9] object-cover"
                                   loading="lazy"
                                 />
+                                {file === publishedCoverFile && (
+                                  <span className="absolute top-1 left-1 px-1.5 py-0.5 rounded text-[10px] font-medium text-white bg-purple-600">
+                                    发布
+                                  </span>
+                                )}
                               </button>
                             );
                           })}
@@ -2565,6 +3742,34 @@ export default function ContentPageClient({
             )}
           </div>
 
+          {/* Thread Preview (for X) */}
+          {threadPosts.length > 0 && (
+            <div className="bg-white rounded-lg border border-gray-200 p-6">
+              <div className="flex items-center justify-between mb-3">
+                <h3 className="text-sm font-bold text-gray-900 uppercase tracking-wide">
+                  スレッド（{threadPosts.length}件）
+                </h3>
+                <CopyButton text={threadPosts.join("\n\n")} label="全件コピー" />
+              </div>
+              <p className="text-xs text-gray-500 mb-3">
+                1件ずつ順に投稿してください。文字数はXの換算（全角2・URL23、上限{X_POST_MAX_WEIGHT}）です。
+              </p>
+              <ol className="space-y-2">
+                {threadPosts.map((post, i) => (
+                  <li key={i} className="border border-gray-200 rounded-lg p-3">
+                    <div className="flex items-center justify-between mb-1">
+                      <span className="text-xs text-gray-400">
+                        {i + 1}件目 ・ {xWeightedLength(post)}/{X_POST_MAX_WEIGHT}
+                      </span>
+                      <CopyButton text={post} />
+                    </div>
+                    <p className="text-sm text-gray-800 whitespace-pre-wrap">{post}</p>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+
           {/* Markdown Export */}
           <div className="bg-white rounded-lg border border-gray-200 p-6">
             <div className="flex items-center justify-between mb-3">
@@ -2689,10 +3894,22 @@ export default function ContentPageClient({
             {!inNoteViralPage && (
               <button
                 onClick={handleMarkPublished}
-                disabled={isPublishing}
+                disabled={
+                  isPublishing ||
+                  (workflowEntry?.status !== "reviewed" && workflowEntry?.status !== "published")
+                }
+                title={
+                  workflowEntry?.status !== "reviewed" && workflowEntry?.status !== "published"
+                    ? "レビュー承認後に公開できます"
+                    : undefined
+                }
                 className="px-6 py-2.5 rounded-lg font-medium text-white bg-purple-600 hover:bg-purple-700 disabled:opacity-50 transition-colors text-sm"
               >
-                {isPublishing ? "更新中..." : "公開済みにする"}
+                {isPublishing
+                  ? "更新中..."
+                  : workflowEntry?.status === "published"
+                    ? "公開URLを更新"
+                    : "公開済みにする"}
               </button>
             )}
           </div>
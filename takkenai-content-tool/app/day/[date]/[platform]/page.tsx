@@ -1,7 +1,10 @@
 import fs from "fs";
 import path from "path";
-import { getCalendarDay, type CalendarDay } from "@/lib/calendar-engine";
+import { getCalendarDay, waitForCalendarStore, type CalendarDay } from "@/lib/calendar-engine";
+import { isPlatform, type Platform } from "@/lib/platform-registry";
 import type { GeneratedContent } from "@/lib/claude";
+import { getRecommendedArticleType, type AssetType } from "@/lib/article-type";
+import { choosePerformanceArticleType } from "@/lib/performance-weights";
 import ContentPageClient from "./content-page-client";
 import {
   getGeneratedContentFilename,
@@ -11,8 +14,6 @@ import {
 
 export const dynamic = "force-dynamic";
 
-type Platform = "ameba" | "note" | "hatena";
-
 function parseDateString(dateStr: string): {
   year: number;
   month: number;
@@ -79,7 +80,7 @@ export default async function ContentPage({
 }) {
   const { date, platform } = params;
 
-  if (!["ameba", "note", "hatena"].includes(platform)) {
+  if (!isPlatform(platform)) {
     return (
       <div className="text-center py-20">
         <p className="text-red-500">
@@ -92,15 +93,24 @@ export default async function ContentPage({
   const parsed = parseDateString(date);
   let calendarDay: CalendarDay | undefined;
   if (parsed) {
+    await waitForCalendarStore();
     calendarDay = getCalendarDay(parsed.year, parsed.month, parsed.day);
   }
 
-  const typedPlatform = platform as Platform;
+  const typedPlatform: Platform = platform;
   const generatedContent = loadGeneratedContent(date, typedPlatform, "standard");
   const coverFiles = listImageFiles(date, typedPlatform, "cover", "standard");
   const coverFile = coverFiles[0] || null;
   const inlineFiles = listImageFiles(date, typedPlatform, "inline", "standard");
   const inlineFile = inlineFiles[0] || null;
+  const motherTopic = calendarDay?.motherTopics[typedPlatform];
+  const recommendedArticleType = motherTopic
+    ? choosePerformanceArticleType(
+        typedPlatform,
+        motherTopic.takkenaiUrl,
+        getRecommendedArticleType(typedPlatform, motherTopic.assetType as AssetType)
+      )
+    : undefined;
 
   return (
     <ContentPageClient
@@ -114,6 +124,7 @@ export default async function ContentPage({
       inlineFiles={inlineFiles}
       contentKey="standard"
       isNoteViralPage={false}
+      recommendedArticleType={recommendedArticleType}
     />
   );
 }
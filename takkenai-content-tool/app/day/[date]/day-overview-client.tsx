@@ -6,7 +6,9 @@ import { useRouter } from "next/navigation";
 import type {
   CalendarDay,
   ContentStatus,
+  PlatformEntry,
 } from "@/lib/calendar-engine";
+import { platformsOf, type Platform, type PlatformMap } from "@/lib/platform-registry";
 import { formatAssetIdLabel } from "@/lib/topic-label";
 import {
   getArticleTypeOption,
@@ -16,8 +18,20 @@ import {
   type AssetType,
   type CoreArticleType,
 } from "@/lib/article-type";
+import SnsDerivativesPanel from "./sns-derivatives-panel";
 
-const PLATFORM_CONFIG = {
+type PlatformCardConfig = {
+  label: string;
+  colorBg: string;
+  colorBorder: string;
+  colorText: string;
+  colorAccent: string;
+  colorLight: string;
+  icon: string;
+  iconBg: string;
+};
+
+const PLATFORM_CONFIG: Record<Platform, PlatformCardConfig> = {
   ameba: {
     label: "Ameba",
     colorBg: "bg-green-50",
@@ -48,9 +62,37 @@ const PLATFORM_CONFIG = {
     icon: "B!",
     iconBg: "bg-blue-500",
   },
-} as const;
-
-type Platform = keyof typeof PLATFORM_CONFIG;
+  wordpress: {
+    label: "WordPress",
+    colorBg: "bg-teal-50",
+    colorBorder: "border-teal-300",
+    colorText: "text-teal-700",
+    colorAccent: "bg-teal-500",
+    colorLight: "bg-teal-100",
+    icon: "W",
+    iconBg: "bg-teal-500",
+  },
+  qiita: {
+    label: "Qiita",
+    colorBg: "bg-lime-50",
+    colorBorder: "border-lime-300",
+    colorText: "text-lime-700",
+    colorAccent: "bg-lime-500",
+    colorLight: "bg-lime-100",
+    icon: "Q",
+    iconBg: "bg-lime-500",
+  },
+  x: {
+    label: "X（スレッド）",
+    colorBg: "bg-slate-50",
+    colorBorder: "border-slate-300",
+    colorText: "text-slate-700",
+    colorAccent: "bg-slate-700",
+    colorLight: "bg-slate-100",
+    icon: "X",
+    iconBg: "bg-slate-700",
+  },
+};
 const ENABLED_ARTICLE_TYPES = getEnabledArticleTypeOptions();
 
 const STATUS_CONFIG: Record<ContentStatus, { label: string; color: string }> = {
@@ -81,6 +123,7 @@ export default function DayOverviewClient({
   calendarDay: CalendarDay;
 }) {
   const router = useRouter();
+  const platforms = platformsOf(calendarDay.platforms);
   const resolveAssetTypeByPlatform = (platform: Platform): AssetType | undefined => {
     const raw = calendarDay.motherTopics?.[platform]?.assetType;
     if (raw === "tool" || raw === "knowledge-point" || raw === "past-question") {
@@ -92,31 +135,25 @@ export default function DayOverviewClient({
     Platform | null
   >(null);
   const [articleTypeByPlatform, setArticleTypeByPlatform] = useState<
-    Record<Platform, CoreArticleType>
-  >(() => ({
-    ameba: getRecommendedArticleType("ameba", resolveAssetTypeByPlatform("ameba")),
-    note: getRecommendedArticleType("note", resolveAssetTypeByPlatform("note")),
-    hatena: getRecommendedArticleType("hatena", resolveAssetTypeByPlatform("hatena")),
-  }));
+    PlatformMap<CoreArticleType>
+  >(() => {
+    const initial: PlatformMap<CoreArticleType> = {};
+    for (const platform of platforms) {
+      initial[platform] = getRecommendedArticleType(platform, resolveAssetTypeByPlatform(platform));
+    }
+    return initial;
+  });
 
   useEffect(() => {
-    setArticleTypeByPlatform({
-      ameba: resolveArticleType(
-        calendarDay.platforms.ameba.articleType ||
-          localStorage.getItem("takkenai_article_type_ameba"),
-        getRecommendedArticleType("ameba", resolveAssetTypeByPlatform("ameba"))
-      ),
-      note: resolveArticleType(
-        calendarDay.platforms.note.articleType ||
-          localStorage.getItem("takkenai_article_type_note"),
-        getRecommendedArticleType("note", resolveAssetTypeByPlatform("note"))
-      ),
-      hatena: resolveArticleType(
-        calendarDay.platforms.hatena.articleType ||
-          localStorage.getItem("takkenai_article_type_hatena"),
-        getRecommendedArticleType("hatena", resolveAssetTypeByPlatform("hatena"))
-      ),
-    });
+    const stored: PlatformMap<CoreArticleType> = {};
+    for (const platform of platforms) {
+      stored[platform] = resolveArticleType(
+        calendarDay.platforms[platform]?.articleType ||
+          localStorage.getItem(`takkenai_article_type_${platform}`),
+        getRecommendedArticleType(platform, resolveAssetTypeByPlatform(platform))
+      );
+    }
+    setArticleTypeByPlatform(stored);
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [date]);
 
@@ -197,7 +234,7 @@ export default function DayOverviewClient({
           <div>
             <h2 className="text-2xl font-bold text-gray-900">{date}</h2>
             <p className="text-sm text-gray-500 mt-1">
-              3つのプラットフォームにそれぞれ異なるトピックを配信
+              {platforms.length}つのプラットフォームにそれぞれ異なるトピックを配信
             </p>
           </div>
         </div>
@@ -205,9 +242,13 @@ export default function DayOverviewClient({
 
       {/* Platform Cards */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-        {(["ameba", "note", "hatena"] as const).map((platform) => {
+        {platforms.map((platform) => {
           const config = PLATFORM_CONFIG[platform];
-          const pEntry = calendarDay.platforms[platform];
+          const pEntry = calendarDay.platforms[platform] as PlatformEntry;
+          const motherTopic = calendarDay.motherTopics?.[platform];
+          const articleType =
+            articleTypeByPlatform[platform] ||
+            getRecommendedArticleType(platform, resolveAssetTypeByPlatform(platform));
           const statusConfig = STATUS_CONFIG[pEntry.status];
           const isGenerating = generatingPlatform === platform;
           const done = isGenerated(pEntry.status);
@@ -237,19 +278,19 @@ export default function DayOverviewClient({
               </div>
 
               {/* Topic info */}
-              {calendarDay.motherTopics && (
+              {motherTopic && (
                 <div className="mb-3 p-2 rounded bg-white/60">
                   <p className="text-xs text-gray-500 mb-0.5">トピック</p>
                   <p className="text-sm font-medium text-gray-900">
-                    {calendarDay.motherTopics[platform].assetType === "knowledge-point"
+                    {motherTopic.assetType === "knowledge-point"
                       ? "知識ポイント"
-                      : calendarDay.motherTopics[platform].assetType === "tool"
+                      : motherTopic.assetType === "tool"
                         ? "ツール"
                         : "過去問"}
                     <span className="ml-1.5 text-xs bg-gray-100 text-gray-500 px-1.5 py-0.5 rounded">
                       {formatAssetIdLabel(
-                        calendarDay.motherTopics[platform].assetId,
-                        calendarDay.motherTopics[platform].assetType as
+                        motherTopic.assetId,
+                        motherTopic.assetType as
                           | "knowledge-point"
                           | "tool"
                           | "past-question"
@@ -257,12 +298,12 @@ export default function DayOverviewClient({
                     </span>
                   </p>
                   <a
-                    href={calendarDay.motherTopics[platform].takkenaiUrl}
+                    href={motherTopic.takkenaiUrl}
                     target="_blank"
                     rel="noopener noreferrer"
                     className="text-xs text-blue-600 hover:underline truncate block mt-0.5"
                   >
-                    {calendarDay.motherTopics[platform].takkenaiUrl}
+                    {motherTopic.takkenaiUrl}
                   </a>
                 </div>
               )}
@@ -296,7 +337,7 @@ export default function DayOverviewClient({
               <div className="mb-4">
                 <p className="text-xs text-gray-500 mb-1">文章类型</p>
                 <select
-                  value={articleTypeByPlatform[platform]}
+                  value={articleType}
                   onChange={(e) => handleArticleTypeChange(platform, e.target.value)}
                   className="w-full rounded-md border border-gray-300 bg-white px-2 py-1.5 text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-indigo-400"
                 >
@@ -307,7 +348,7 @@ export default function DayOverviewClient({
                   ))}
                 </select>
                 <p className="mt-1 text-[11px] text-gray-500">
-                  {getArticleTypeOption(articleTypeByPlatform[platform]).description}
+                  {getArticleTypeOption(articleType).description}
                 </p>
               </div>
 
@@ -358,6 +399,8 @@ export default function DayOverviewClient({
           );
         })}
       </div>
+
+      <SnsDerivativesPanel calendarDay={calendarDay} />
     </div>
   );
 }
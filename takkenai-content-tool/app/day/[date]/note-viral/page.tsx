@@ -1,6 +1,6 @@
 import fs from "fs";
 import path from "path";
-import { getCalendarDay, type CalendarDay } from "@/lib/calendar-engine";
+import { getCalendarDay, waitForCalendarStore, type CalendarDay } from "@/lib/calendar-engine";
 import type { GeneratedContent } from "@/lib/claude";
 import NoteViralPageClient from "./note-viral-page-client";
 import {
@@ -79,6 +79,7 @@ export default async function NoteViralPage({
     );
   }
 
+  await waitForCalendarStore();
   const calendarDay: CalendarDay | undefined = getCalendarDay(
     parsed.year,
     parsed.month,
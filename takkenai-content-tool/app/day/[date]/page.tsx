@@ -1,6 +1,7 @@
 import Link from "next/link";
 import {
   getCalendarDay,
+  waitForCalendarStore,
   type CalendarDay,
 } from "@/lib/calendar-engine";
 import DayOverviewClient from "./day-overview-client";
@@ -53,6 +54,7 @@ export default async function DayPage({
     );
   }
 
+  await waitForCalendarStore();
   const calendarDay = getCalendarDay(parsed.year, parsed.month, parsed.day);
 
   if (!calendarDay) {
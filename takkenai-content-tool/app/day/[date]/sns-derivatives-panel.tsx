@@ -0,0 +1,188 @@
+"use client";
+
+import { useState } from "react";
+import type { CalendarDay } from "@/lib/calendar-engine";
+import { getPlatformLabel, platformsOf, type Platform } from "@/lib/platform-registry";
+import type { SnsDerivative, SnsNetwork } from "@/lib/sns-derivatives";
+
+const NETWORK_LABELS: Record<SnsNetwork, string> = {
+  x: "X スレッド",
+  threads: "Threads",
+  instagram: "Instagram",
+};
+
+const FINISHED = ["generated", "reviewed", "published"];
+
+function copyText(text: string) {
+  navigator.clipboard.writeText(text).catch(() => {
+    alert("コピーに失敗しました");
+  });
+}
+
+function DerivativeCard({
+  derivative,
+  busy,
+  onPublish,
+}: {
+  derivative: SnsDerivative;
+  busy: boolean;
+  onPublish: () => void;
+}) {
+  const published = derivative.status === "published";
+  return (
+    <div className="border border-gray-200 rounded-lg p-3 space-y-2 bg-white">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-semibold text-gray-800">
+          {NETWORK_LABELS[derivative.network]}
+        </span>
+        {published ? (
+          <span className="text-xs bg-purple-100 text-purple-700 px-2 py-0.5 rounded-full">投稿済み</span>
+        ) : derivative.issues.length > 0 ? (
+          <span className="text-xs bg-amber-100 text-amber-700 px-2 py-0.5 rounded-full">
+            要修正 {derivative.issues.length}件
+          </span>
+        ) : (
+          <span className="text-xs bg-green-100 text-green-700 px-2 py-0.5 rounded-full">投稿可</span>
+        )}
+      </div>
+
+      {derivative.issues.length > 0 && (
+        <ul className="text-xs text-amber-700 list-disc pl-4">
+          {derivative.issues.map((issue) => (
+            <li key={issue}>{issue}</li>
+          ))}
+        </ul>
+      )}
+
+      <ol className="space-y-1.5">
+        {derivative.posts.map((post, i) => (
+          <li key={i} className="flex gap-2 items-start">
+            <p className="flex-1 text-xs text-gray-700 whitespace-pre-wrap bg-gray-50 rounded p-2">
+              {post}
+            </p>
+            <button
+              onClick={() => copyText(post)}
+              className="text-xs px-2 py-1 rounded border border-gray-300 text-gray-600 hover:bg-gray-50 shrink-0"
+            >
+              コピー
+            </button>
+          </li>
+        ))}
+      </ol>
+
+      {derivative.slides && derivative.slides.length > 0 && (
+        <div>
+          <p className="text-xs text-gray-500 mb-1">カルーセル構成（{derivative.slides.length}枚）</p>
+          <ol className="text-xs text-gray-700 space-y-1 list-decimal pl-5">
+            {derivative.slides.map((slide, i) => (
+              <li key={i}>
+                <span className="font-medium">{slide.heading}</span>
+                {slide.text ? ` — ${slide.text}` : ""}
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      {!published && (
+        <button
+          onClick={onPublish}
+          disabled={busy}
+          className="text-xs px-3 py-1 rounded bg-purple-600 text-white hover:bg-purple-700 disabled:opacity-50"
+        >
+          投稿済みにする
+        </button>
+      )}
+    </div>
+  );
+}
+
+/** X / Threads / Instagram posts written from the day's finished articles. */
+export default function SnsDerivativesPanel({ calendarDay }: { calendarDay: CalendarDay }) {
+  const date = calendarDay.date;
+  const [derivatives, setDerivatives] = useState<SnsDerivative[]>(calendarDay.derivatives || []);
+  const [busy, setBusy] = useState<string | null>(null);
+  const sources = platformsOf(calendarDay.platforms).filter((platform) =>
+    FINISHED.includes(calendarDay.platforms[platform]?.status || "")
+  );
+
+  const post = async (payload: Record<string, unknown>, key: string) => {
+    setBusy(key);
+    try {
+      const res = await fetch("/api/calendar/derivatives", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ date, ...payload }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(`SNS投稿の更新に失敗しました: ${data.error || "不明なエラー"}`);
+        return;
+      }
+      const platform = payload.platform as Platform;
+      if (Array.isArray(data.derivatives)) {
+        setDerivatives((prev) => [
+          ...prev.filter((item) => item.sourcePlatform !== platform),
+          ...data.derivatives,
+        ]);
+      } else if (data.derivative) {
+        setDerivatives((prev) =>
+          prev.map((item) => (item.id === data.derivative.id ? data.derivative : item))
+        );
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "不明なエラー";
+      alert(`SNS投稿の更新に失敗しました: ${message}`);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (sources.length === 0) return null;
+
+  return (
+    <section className="bg-white rounded-lg border border-gray-200 p-6 space-y-4">
+      <div>
+        <h3 className="text-lg font-bold text-gray-900">SNS投稿</h3>
+        <p className="text-sm text-gray-500 mt-1">
+          完成した記事から X スレッド・Threads キャプション・Instagram のキャプションとカルーセル構成を作成します。文字数・ハッシュタグ数・誘導禁止表現はネットワークごとに検査されます。
+        </p>
+      </div>
+
+      {sources.map((platform) => {
+        const items = derivatives.filter((item) => item.sourcePlatform === platform);
+        const key = `generate-${platform}`;
+        return (
+          <div key={platform} className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h4 className="text-sm font-semibold text-gray-700">{getPlatformLabel(platform)} の記事から</h4>
+              <button
+                onClick={() => post({ action: "generate", platform }, key)}
+                disabled={busy !== null}
+                className="text-xs px-3 py-1.5 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+              >
+                {busy === key ? "作成中..." : items.length > 0 ? "作り直す" : "SNS投稿を作成"}
+              </button>
+            </div>
+            {items.length > 0 ? (
+              <div className="grid grid-cols-1 lg:grid-cols-3 gap-3">
+                {items.map((item) => (
+                  <DerivativeCard
+                    key={item.id}
+                    derivative={item}
+                    busy={busy !== null}
+                    onPublish={() =>
+                      post({ action: "publish", platform, network: item.network }, item.id)
+                    }
+                  />
+                ))}
+              </div>
+            ) : (
+              <p className="text-xs text-gray-400">まだ作成されていません</p>
+            )}
+          </div>
+        );
+      })}
+    </section>
+  );
+}
@@ -23,12 +23,38 @@ export default function RootLayout({
               3-Platform
             </span>
           </div>
-          <a
-            href="/settings"
-            className="text-sm text-gray-500 hover:text-gray-700"
-          >
-            Settings
-          </a>
+          <div className="flex items-center gap-4">
+            <a
+              href="/campaigns"
+              className="text-sm text-gray-500 hover:text-gray-700"
+            >
+              Campaigns
+            </a>
+            <a
+              href="/assets"
+              className="text-sm text-gray-500 hover:text-gray-700"
+            >
+              Assets
+            </a>
+            <a
+              href="/traffic-profile"
+              className="text-sm text-gray-500 hover:text-gray-700"
+            >
+              Traffic
+            </a>
+            <a
+              href="/analytics"
+              className="text-sm text-gray-500 hover:text-gray-700"
+            >
+              Analytics
+            </a>
+            <a
+              href="/settings"
+              className="text-sm text-gray-500 hover:text-gray-700"
+            >
+              Settings
+            </a>
+          </div>
         </header>
         <main className="max-w-6xl mx-auto p-6">{children}</main>
       </body>
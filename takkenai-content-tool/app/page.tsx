@@ -1,14 +1,15 @@
 import {
   loadCalendarStore,
   type MonthCalendar,
-  type CalendarStore,
+  type CalendarStoreSnapshot,
 } from "@/lib/calendar-engine";
+import { resolveSiteManifest } from "@/lib/site-config";
 import CalendarClient from "./calendar-client";
 
 export const dynamic = "force-dynamic";
 
 export default async function CalendarPage() {
-  const store: CalendarStore = loadCalendarStore();
+  const store: CalendarStoreSnapshot = loadCalendarStore();
 
   // Find the most recent calendar, or default to current month
   const now = new Date();
@@ -26,6 +27,7 @@ export default async function CalendarPage() {
       initialCalendar={currentCalendar}
       allCalendars={store.calendars}
       initialNowIso={initialNowIso}
+      configIssues={resolveSiteManifest().configIssues || []}
     />
   );
 }
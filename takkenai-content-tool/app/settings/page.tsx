@@ -4,6 +4,8 @@ import { useState, useEffect } from "react";
 import Link from "next/link";
 
 type KeyStatus = {
+  llmProvider: string;
+  llmConfigured: boolean;
   openrouter: boolean;
   closeai: boolean;
   r2Configured: boolean;
@@ -17,6 +19,8 @@ export default function SettingsPage() {
   const [saving, setSaving] = useState(false);
   const [saved, setSaved] = useState(false);
   const [keyStatus, setKeyStatus] = useState<KeyStatus>({
+    llmProvider: "openrouter",
+    llmConfigured: false,
     openrouter: false,
     closeai: false,
     r2Configured: false,
@@ -35,6 +39,8 @@ export default function SettingsPage() {
     setCloseaiKey(savedCloseaiKey);
 
     setKeyStatus({
+      llmProvider: "openrouter",
+      llmConfigured: false,
       openrouter: savedOpenrouterKey.length > 0,
       closeai: savedCloseaiKey.length > 0,
       r2Configured: false,
@@ -52,6 +58,8 @@ export default function SettingsPage() {
       if (res.ok) {
         const data = await res.json();
         setKeyStatus((prev) => ({
+          llmProvider: typeof data.llmProvider === "string" ? data.llmProvider : prev.llmProvider,
+          llmConfigured: !!data.llmConfigured,
           openrouter: prev.openrouter || data.openrouter,
           closeai: prev.closeai || data.closeai,
           r2Configured: !!data.r2Configured,
@@ -82,6 +90,8 @@ export default function SettingsPage() {
       }
 
       setKeyStatus({
+        llmProvider: keyStatus.llmProvider,
+        llmConfigured: keyStatus.llmConfigured,
         openrouter: openrouterKey.length > 0,
         closeai: closeaiKey.length > 0,
         r2Configured: keyStatus.r2Configured,
@@ -122,6 +132,27 @@ export default function SettingsPage() {
           APIキー ステータス
         </h3>
         <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div
+                className={`w-3 h-3 rounded-full ${
+                  keyStatus.llmConfigured ? "bg-green-500" : "bg-red-400"
+                }`}
+              />
+              <span className="text-sm font-medium text-gray-700">
+                文章生成プロバイダー (LLM_PROVIDER: {keyStatus.llmProvider})
+              </span>
+            </div>
+            <span
+              className={`text-xs px-2 py-0.5 rounded-full ${
+                keyStatus.llmConfigured
+                  ? "bg-green-100 text-green-700"
+                  : "bg-red-100 text-red-600"
+              }`}
+            >
+              {keyStatus.llmConfigured ? "利用可能" : "未設定"}
+            </span>
+          </div>
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-3">
               <div
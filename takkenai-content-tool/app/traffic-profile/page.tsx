@@ -0,0 +1,304 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import type { TrafficProfileDiff, TrafficProfileVersionMeta } from "@/lib/ga4-ingest";
+import { EDITOR_NAME_STORAGE_KEY } from "@/lib/editorial-workflow";
+import type { TrafficUrlTier } from "@/lib/traffic-url-profile";
+
+type ActiveSummary = { version: string; generatedAt: string; items: number } | null;
+
+type SelectedVersion = {
+  meta: TrafficProfileVersionMeta;
+  active: boolean;
+  diff: TrafficProfileDiff;
+};
+
+const TIER_LABELS: Record<TrafficUrlTier, string> = {
+  high: "高流入",
+  explore: "探索",
+  cooldown: "クールダウン",
+};
+
+const TIER_COLORS: Record<TrafficUrlTier, string> = {
+  high: "bg-green-100 text-green-700",
+  explore: "bg-blue-100 text-blue-700",
+  cooldown: "bg-gray-200 text-gray-600",
+};
+
+const TIERS: TrafficUrlTier[] = ["high", "explore", "cooldown"];
+
+function TierBadge({ tier }: { tier: TrafficUrlTier }) {
+  return (
+    <span className={`text-xs px-2 py-0.5 rounded-full ${TIER_COLORS[tier]}`}>
+      {TIER_LABELS[tier]}
+    </span>
+  );
+}
+
+function DiffView({ diff }: { diff: TrafficProfileDiff }) {
+  return (
+    <div className="space-y-4 text-sm">
+      <div className="grid grid-cols-3 gap-3">
+        {TIERS.map((tier) => (
+          <div key={tier} className="rounded border border-gray-200 p-3">
+            <TierBadge tier={tier} />
+            <div className="mt-1 text-gray-800">
+              {diff.tierCounts.base[tier]} → <strong>{diff.tierCounts.next[tier]}</strong>
+            </div>
+          </div>
+        ))}
+      </div>
+      <p className="text-gray-500">
+        ティア変更 {diff.tierChanges.length}件 ・ 追加 {diff.added.length}件 ・ 削除{" "}
+        {diff.removed.length}件 ・ 重みのみ変更 {diff.weightChanges}件 ・ 変更なし {diff.unchanged}件
+      </p>
+
+      {diff.tierChanges.length > 0 && (
+        <table className="w-full">
+          <thead>
+            <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+              <th className="py-1">ページ</th>
+              <th className="py-1">ティア</th>
+              <th className="py-1 text-right">重み</th>
+            </tr>
+          </thead>
+          <tbody>
+            {diff.tierChanges.map((change) => (
+              <tr key={change.path} className="border-b border-gray-100">
+                <td className="py-1">
+                  <div className="text-gray-800">{change.labelJa}</div>
+                  <div className="text-xs text-gray-400">{change.path}</div>
+                </td>
+                <td className="py-1 whitespace-nowrap">
+                  <TierBadge tier={change.from} /> → <TierBadge tier={change.to} />
+                </td>
+                <td className="py-1 text-right text-gray-600">
+                  {change.weightFrom} → {change.weightTo}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {(diff.added.length > 0 || diff.removed.length > 0) && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <h4 className="font-medium text-gray-700 mb-1">追加されるページ</h4>
+            <ul className="space-y-0.5">
+              {diff.added.map((item) => (
+                <li key={item.path} className="flex justify-between gap-2">
+                  <span className="truncate">{item.labelJa}</span>
+                  <TierBadge tier={item.tier} />
+                </li>
+              ))}
+            </ul>
+          </div>
+          <div>
+            <h4 className="font-medium text-gray-700 mb-1">削除されるページ</h4>
+            <ul className="space-y-0.5">
+              {diff.removed.map((item) => (
+                <li key={item.path} className="flex justify-between gap-2">
+                  <span className="truncate">{item.labelJa}</span>
+                  <TierBadge tier={item.tier} />
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function TrafficProfilePage() {
+  const [active, setActive] = useState<ActiveSummary>(null);
+  const [versions, setVersions] = useState<TrafficProfileVersionMeta[]>([]);
+  const [selected, setSelected] = useState<SelectedVersion | null>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  const fetchVersions = useCallback(async () => {
+    try {
+      const res = await fetch("/api/traffic-profile");
+      const data = await res.json();
+      setActive(data.active || null);
+      setVersions(Array.isArray(data.versions) ? data.versions : []);
+    } catch (err) {
+      console.error("Failed to load traffic profile versions:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchVersions();
+  }, [fetchVersions]);
+
+  const selectVersion = async (version: string) => {
+    setError("");
+    const res = await fetch(`/api/traffic-profile?version=${encodeURIComponent(version)}`);
+    const data = await res.json();
+    if (!res.ok) {
+      setError(data.error || "読み込みに失敗しました");
+      return;
+    }
+    setSelected({ meta: data.meta, active: !!data.active, diff: data.diff });
+  };
+
+  const handleUpload = async () => {
+    if (!file) return;
+    setBusy(true);
+    setError("");
+    try {
+      const form = new FormData();
+      form.append("file", file);
+      form.append("actor", window.localStorage.getItem(EDITOR_NAME_STORAGE_KEY) || "");
+      const res = await fetch("/api/traffic-profile", { method: "POST", body: form });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "取り込みに失敗しました");
+        return;
+      }
+      setSelected({ meta: data.version.meta, active: false, diff: data.diff });
+      setFile(null);
+      await fetchVersions();
+    } catch (err) {
+      console.error("GA4 upload failed:", err);
+      setError("取り込みに失敗しました");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleActivate = async () => {
+    if (!selected) return;
+    if (!confirm(`${selected.meta.version} を有効化しますか？未生成のトピックは次回の読み込みで新しいティアに従って再計画されます。`)) {
+      return;
+    }
+    setBusy(true);
+    try {
+      const res = await fetch("/api/traffic-profile/activate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          version: selected.meta.version,
+          actor: window.localStorage.getItem(EDITOR_NAME_STORAGE_KEY) || "",
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "有効化に失敗しました");
+        return;
+      }
+      await fetchVersions();
+      await selectVersion(selected.meta.version);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Link
+        href="/"
+        className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700"
+      >
+        &#8592; カレンダーに戻る
+      </Link>
+
+      <div>
+        <h2 className="text-xl font-bold text-gray-900">流入URLプロファイル</h2>
+        <p className="text-sm text-gray-500 mt-1">
+          {active
+            ? `有効: ${active.version}（${active.items}ページ）`
+            : "有効なプロファイルがありません"}
+        </p>
+      </div>
+
+      <section className="bg-white rounded-lg border border-gray-200 p-4 space-y-3">
+        <h3 className="font-semibold text-gray-800">GA4 エクスポートを取り込む</h3>
+        <p className="text-xs text-gray-500">
+          ランディングページ（またはページパス）、セッション、エンゲージメント率・直帰率、コンバージョンを含む CSV / JSON に対応しています。取り込んだだけでは有効化されません。
+        </p>
+        <div className="flex items-center gap-2">
+          <input
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            onChange={(e) => setFile(e.target.files?.[0] || null)}
+            className="text-sm"
+          />
+          <button
+            onClick={handleUpload}
+            disabled={!file || busy}
+            className="px-4 py-1.5 text-sm rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            取り込む
+          </button>
+        </div>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </section>
+
+      {selected && (
+        <section className="bg-white rounded-lg border border-gray-200 p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className="font-semibold text-gray-800">{selected.meta.version}</h3>
+              <p className="text-xs text-gray-500">
+                {selected.meta.source
+                  ? `${selected.meta.source.fileName || selected.meta.source.format.toUpperCase()} ・ ${selected.meta.source.rows}ページ（除外 ${selected.meta.source.skipped}行）`
+                  : "既存プロファイルのアーカイブ"}
+                {selected.diff.baseVersion ? ` ・ 比較対象: ${selected.diff.baseVersion}` : ""}
+              </p>
+            </div>
+            {selected.active ? (
+              <span className="text-xs px-2 py-1 rounded bg-green-100 text-green-700">有効</span>
+            ) : (
+              <button
+                onClick={handleActivate}
+                disabled={busy}
+                className="px-4 py-1.5 text-sm rounded bg-green-600 text-white hover:bg-green-700 disabled:opacity-50"
+              >
+                有効化
+              </button>
+            )}
+          </div>
+          <DiffView diff={selected.diff} />
+        </section>
+      )}
+
+      <section className="bg-white rounded-lg border border-gray-200">
+        <h3 className="font-semibold text-gray-800 px-4 py-3 border-b border-gray-100">履歴</h3>
+        {versions.length === 0 ? (
+          <p className="text-sm text-gray-400 px-4 py-3">まだ取り込み履歴がありません</p>
+        ) : (
+          <ul className="divide-y divide-gray-100 text-sm">
+            {versions.map((meta) => (
+              <li key={meta.version} className="px-4 py-2 flex items-center justify-between gap-4">
+                <div>
+                  <span className="text-gray-800">{meta.version}</span>
+                  {active?.version === meta.version && (
+                    <span className="ml-2 text-xs text-green-700">有効</span>
+                  )}
+                  <div className="text-xs text-gray-400">
+                    {meta.createdAt.slice(0, 16).replace("T", " ")}
+                    {meta.createdBy ? ` ・ ${meta.createdBy}` : ""}
+                    {meta.activatedAt
+                      ? ` ・ 有効化 ${meta.activatedAt.slice(0, 10)}${meta.activatedBy ? `（${meta.activatedBy}）` : ""}`
+                      : ""}
+                  </div>
+                </div>
+                <button
+                  onClick={() => selectVersion(meta.version)}
+                  className="text-xs px-2 py-1 rounded border border-gray-300 text-gray-600 hover:bg-gray-50"
+                >
+                  差分を見る
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import {
+  buildAssetFactsPromptBlock,
+  isAssetMetadataError,
+  listAssetRecords,
+  parseAssetMetadataPatch,
+  updateAssetMetadata,
+} from "./asset-metadata";
+import { buildAssetCatalog, loadAssetCatalog } from "./asset-sync";
+import {
+  clearDataCache,
+  getKnowledgePointById,
+  getPastQuestionById,
+  getToolById,
+  type ContentAsset,
+} from "./takkenai-data";
+
+function withTempData(run: (dataDir: string) => void): void {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "asset-metadata-"));
+  const previous = process.env.TAKKENAI_DATA_DIR;
+  process.env.TAKKENAI_DATA_DIR = tmpDir;
+  for (const name of ["knowledge-points.json", "tools.json", "past-questions.json"]) {
+    fs.copyFileSync(path.join(process.cwd(), "data", name), path.join(tmpDir, name));
+  }
+  clearDataCache();
+  try {
+    run(tmpDir);
+  } finally {
+    if (previous === undefined) delete process.env.TAKKENAI_DATA_DIR;
+    else process.env.TAKKENAI_DATA_DIR = previous;
+    clearDataCache();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  }
+}
+
+test("admin edits are validated per asset type", () => {
+  assert.deepEqual(
+    parseAssetMetadataPatch("tool", {
+      title: " 仲介手数料計算 ",
+      keyFacts: ["上限は売買価格の3%+6万円（税別）", " ", "400万円超の場合"],
+      lawArticles: [],
+      difficulty: "",
+      inputs: ["物件価格"],
+    }),
+    {
+      patch: {
+        title: "仲介手数料計算",
+        keyFacts: ["上限は売買価格の3%+6万円（税別）", "400万円超の場合"],
+        lawArticles: null,
+        difficulty: null,
+        inputs: ["物件価格"],
+      },
+      issues: [],
+    }
+  );
+
+  assert.deepEqual(
+    parseAssetMetadataPatch("knowledge-point", {
+      title: "",
+      summary: 1,
+      keyFacts: "箇条書き",
+      difficulty: "expert",
+      correctAnswer: 3,
+    }).issues,
+    [
+      "correctAnswer は past-question のみ指定できます",
+      "summary は文字列で指定してください",
+      "title は必須です",
+      "keyFacts は文字列の配列で指定してください",
+      "difficulty は basic / standard / advanced のいずれかで指定してください",
+    ]
+  );
+  assert.deepEqual(parseAssetMetadataPatch("past-question", { correctAnswer: 5, title: "" }).issues, [
+    "correctAnswer は1〜4の整数で指定してください",
+  ]);
+});
+
+test("metadata is written to the data files, kept by a sync and injected into the prompt", () => {
+  withTempData((dataDir) => {
+    const tool = updateAssetMetadata("tool", "tool-chukai-tesuryo", {
+      title: "仲介手数料計算",
+      summary: "売買・賃貸の仲介手数料の上限額を計算します。",
+      inputs: ["取引の種類", "物件価格"],
+      outputs: ["仲介手数料の上限額（税込）"],
+      lawArticles: ["宅建業法46条"],
+    });
+    assert.equal((tool as { name: string }).name, "仲介手数料計算");
+    updateAssetMetadata("past-question", "pq-2024-1", {
+      title: "意思表示",
+      correctAnswer: 3,
+      explanation: "詐欺による取消しは善意無過失の第三者に対抗できない。",
+      difficulty: "standard",
+    });
+    updateAssetMetadata("past-question", "pq-2024-1", { title: null });
+
+    const stored = JSON.parse(fs.readFileSync(path.join(dataDir, "past-questions.json"), "utf-8"));
+    assert.deepEqual(stored[0], {
+      id: "pq-2024-1",
+      year: 2024,
+      number: 1,
+      subject: "mixed",
+      takkenaiUrl: "/takken/past-questions/2024-q1/",
+      correctAnswer: 3,
+      explanation: "詐欺による取消しは善意無過失の第三者に対抗できない。",
+      difficulty: "standard",
+    });
+    assert.deepEqual(
+      listAssetRecords({ type: "tool", query: "仲介手数料" }).items.map((item) => item.id),
+      ["tool-chukai-tesuryo"]
+    );
+
+    assert.throws(
+      () => updateAssetMetadata("tool", "tool-missing", { summary: "x" }),
+      (err: unknown) => isAssetMetadataError(err) && err.issues[0] === "素材 tool-missing が見つかりません"
+    );
+    assert.throws(() => updateAssetMetadata("tool", "tool-chukai-tesuryo", { correctAnswer: 1 }), isAssetMetadataError);
+
+    // Rebuilding the catalog from the sitemap keeps the edited fields.
+    const rebuilt = buildAssetCatalog(
+      [
+        { loc: "https://takkenai.jp/tools/chukai-tesuryo/", path: "/tools/chukai-tesuryo/" },
+        { loc: "https://takkenai.jp/takken/past-questions/2024-q1/", path: "/takken/past-questions/2024-q1/" },
+      ],
+      loadAssetCatalog()
+    );
+    assert.deepEqual(rebuilt.tools[0].outputs, ["仲介手数料の上限額（税込）"]);
+    assert.equal(rebuilt.pastQuestions[0].correctAnswer, 3);
+
+    // The prompt reads the catalog, not the snapshot stored on the calendar entry.
+    const snapshot = (type: ContentAsset["type"], data: unknown) => ({ type, data }) as ContentAsset;
+    const block = buildAssetFactsPromptBlock([
+      snapshot("past-question", { ...getPastQuestionById("pq-2024-1"), correctAnswer: undefined }),
+      snapshot("tool", getToolById("tool-chukai-tesuryo")),
+      snapshot("knowledge-point", getKnowledgePointById("kp-minpo")),
+      undefined,
+    ]);
+    assert.equal(
+      block,
+      [
+        "## 自社コンテンツの事実情報（takkenai.jp 掲載内容 — 最優先）",
+        "以下はリンク先ページに掲載している内容です。定義・数値・条文・正解はこの情報を基準にし、リサーチ結果と食い違う場合はこちらを優先してください。",
+        "ここにない事実を断定的に補わないでください。",
+        "",
+        "### 過去問「2024年 問1」",
+        "- 難易度: 標準",
+        "- 正解: 肢3",
+        "- 解説: 詐欺による取消しは善意無過失の第三者に対抗できない。",
+        "",
+        "### ツール「仲介手数料計算」",
+        "- 概要: 売買・賃貸の仲介手数料の上限額を計算します。",
+        "- 関連条文: 宅建業法46条",
+        "- 入力項目: 取引の種類 / 物件価格",
+        "- 計算結果: 仲介手数料の上限額（税込）",
+      ].join("\n")
+    );
+    assert.equal(buildAssetFactsPromptBlock([snapshot("knowledge-point", getKnowledgePointById("kp-minpo"))]), "");
+  });
+});
@@ -0,0 +1,350 @@
+import path from "path";
+import {
+  clearDataCache,
+  getKnowledgePoints,
+  getPastQuestions,
+  getTakkenaiDataDir,
+  getTools,
+  type AssetDifficulty,
+  type AssetMetadata,
+  type ContentAsset,
+  type KnowledgePoint,
+  type PastQuestion,
+  type Tool,
+} from "./takkenai-data";
+import { writeJsonAtomic } from "./json-file";
+import { normalizeAssetLabel } from "./topic-label";
+
+// ---------------------------------------------------------------------------
+// Errors
+// ---------------------------------------------------------------------------
+
+export type AssetMetadataError = Error & {
+  code: "ASSET_METADATA_INVALID";
+  issues: string[];
+};
+
+export function isAssetMetadataError(error: unknown): error is AssetMetadataError {
+  return (
+    error instanceof Error &&
+    (error as Partial<AssetMetadataError>).code === "ASSET_METADATA_INVALID"
+  );
+}
+
+function createAssetMetadataError(issues: string[]): AssetMetadataError {
+  const error = new Error(`素材情報が不正です: ${issues.join(" / ")}`) as AssetMetadataError;
+  error.code = "ASSET_METADATA_INVALID";
+  error.issues = issues;
+  return error;
+}
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type AssetType = ContentAsset["type"];
+export type AssetRecord = KnowledgePoint | Tool | PastQuestion;
+
+/**
+ * Editable fields as the admin page sends them. `title` is the Japanese
+ * title (a tool's `name`). A missing field is left as is; null, "" or []
+ * removes it.
+ */
+export interface AssetMetadataPatch {
+  title?: string | null;
+  summary?: string | null;
+  keyFacts?: string[] | null;
+  lawArticles?: string[] | null;
+  difficulty?: AssetDifficulty | null;
+  inputs?: string[] | null;
+  outputs?: string[] | null;
+  correctAnswer?: number | null;
+  explanation?: string | null;
+}
+
+export const ASSET_TYPES: AssetType[] = ["knowledge-point", "tool", "past-question"];
+export const ASSET_DIFFICULTIES: AssetDifficulty[] = ["basic", "standard", "advanced"];
+
+const DIFFICULTY_LABELS: Record<AssetDifficulty, string> = {
+  basic: "基礎",
+  standard: "標準",
+  advanced: "応用",
+};
+
+const DATA_FILES: Record<AssetType, string> = {
+  "knowledge-point": "knowledge-points.json",
+  tool: "tools.json",
+  "past-question": "past-questions.json",
+};
+
+const TEXT_LIMITS = { title: 80, summary: 400, explanation: 1500 } as const;
+const LIST_LIMITS = {
+  keyFacts: { items: 10, length: 200 },
+  lawArticles: { items: 10, length: 60 },
+  inputs: { items: 10, length: 60 },
+  outputs: { items: 10, length: 60 },
+} as const;
+
+/** Fields that only apply to one asset type. */
+const TYPE_ONLY_FIELDS: Array<[keyof AssetMetadataPatch, AssetType]> = [
+  ["inputs", "tool"],
+  ["outputs", "tool"],
+  ["correctAnswer", "past-question"],
+  ["explanation", "past-question"],
+];
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+export function isAssetType(value: unknown): value is AssetType {
+  return ASSET_TYPES.includes(value as AssetType);
+}
+
+function isCleared(value: unknown): boolean {
+  return value === null || value === "" || (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Validates an edit from the admin page. Text is trimmed and list items that
+ * are blank are dropped; issues are collected rather than thrown so the page
+ * can show all of them at once.
+ */
+export function parseAssetMetadataPatch(
+  type: AssetType,
+  raw: unknown
+): { patch: AssetMetadataPatch; issues: string[] } {
+  const issues: string[] = [];
+  const patch: AssetMetadataPatch = {};
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return { patch, issues: ["素材情報はオブジェクトで指定してください"] };
+  }
+  const input = raw as Record<string, unknown>;
+
+  for (const [field, onlyFor] of TYPE_ONLY_FIELDS) {
+    if (input[field] !== undefined && !isCleared(input[field]) && type !== onlyFor) {
+      issues.push(`${field} は ${onlyFor} のみ指定できます`);
+    }
+  }
+
+  for (const field of ["title", "summary", "explanation"] as const) {
+    const value = input[field];
+    if (value === undefined) continue;
+    if (isCleared(value)) {
+      patch[field] = null;
+      continue;
+    }
+    if (typeof value !== "string") {
+      issues.push(`${field} は文字列で指定してください`);
+      continue;
+    }
+    const text = value.trim();
+    if (text.length > TEXT_LIMITS[field]) {
+      issues.push(`${field} は${TEXT_LIMITS[field]}文字以内で入力してください`);
+      continue;
+    }
+    patch[field] = text || null;
+  }
+  if (patch.title === null && type !== "past-question") {
+    issues.push("title は必須です");
+  }
+
+  for (const field of ["keyFacts", "lawArticles", "inputs", "outputs"] as const) {
+    const value = input[field];
+    if (value === undefined) continue;
+    if (isCleared(value)) {
+      patch[field] = null;
+      continue;
+    }
+    if (!Array.isArray(value) || value.some((item) => typeof item !== "string")) {
+      issues.push(`${field} は文字列の配列で指定してください`);
+      continue;
+    }
+    const items = (value as string[]).map((item) => item.trim()).filter(Boolean);
+    const limit = LIST_LIMITS[field];
+    if (items.length > limit.items) {
+      issues.push(`${field} は${limit.items}件以内で入力してください`);
+    }
+    const tooLong = items.find((item) => item.length > limit.length);
+    if (tooLong) {
+      issues.push(`${field} の各項目は${limit.length}文字以内で入力してください: ${tooLong.slice(0, 20)}…`);
+    }
+    patch[field] = items.length > 0 ? items : null;
+  }
+
+  if (input.difficulty !== undefined) {
+    if (isCleared(input.difficulty)) {
+      patch.difficulty = null;
+    } else if (ASSET_DIFFICULTIES.includes(input.difficulty as AssetDifficulty)) {
+      patch.difficulty = input.difficulty as AssetDifficulty;
+    } else {
+      issues.push(`difficulty は ${ASSET_DIFFICULTIES.join(" / ")} のいずれかで指定してください`);
+    }
+  }
+
+  if (input.correctAnswer !== undefined) {
+    const value = input.correctAnswer;
+    if (isCleared(value)) {
+      patch.correctAnswer = null;
+    } else if (typeof value === "number" && Number.isInteger(value) && value >= 1 && value <= 4) {
+      patch.correctAnswer = value;
+    } else {
+      issues.push("correctAnswer は1〜4の整数で指定してください");
+    }
+  }
+
+  return { patch, issues };
+}
+
+// ---------------------------------------------------------------------------
+// Lookup
+// ---------------------------------------------------------------------------
+
+function recordsOf(type: AssetType): AssetRecord[] {
+  switch (type) {
+    case "knowledge-point":
+      return getKnowledgePoints();
+    case "tool":
+      return getTools();
+    case "past-question":
+      return getPastQuestions();
+  }
+}
+
+/** The Japanese label an editor recognizes the asset by. */
+export function getAssetRecordLabel(type: AssetType, record: AssetRecord): string {
+  switch (type) {
+    case "knowledge-point":
+      return normalizeAssetLabel((record as KnowledgePoint).title, type, record.takkenaiUrl);
+    case "tool":
+      return normalizeAssetLabel((record as Tool).name, type, record.takkenaiUrl);
+    case "past-question": {
+      const pq = record as PastQuestion;
+      return `${pq.year}年 問${pq.number}${pq.title ? `「${pq.title}」` : ""}`;
+    }
+  }
+}
+
+/** Whether any editorial field has been filled in. */
+export function hasAssetMetadata(record: AssetRecord): boolean {
+  const data = record as AssetMetadata & Partial<Tool & PastQuestion>;
+  return Boolean(
+    data.summary ||
+      data.keyFacts?.length ||
+      data.lawArticles?.length ||
+      data.difficulty ||
+      data.inputs?.length ||
+      data.outputs?.length ||
+      data.correctAnswer ||
+      data.explanation
+  );
+}
+
+/**
+ * Assets of one type matching `query` (id, slug, URL, title or summary),
+ * in catalog order, for the admin list.
+ */
+export function listAssetRecords(options: {
+  type: AssetType;
+  query?: string;
+  limit?: number;
+}): { items: AssetRecord[]; total: number } {
+  const query = (options.query || "").trim().toLowerCase();
+  const matches = recordsOf(options.type).filter((record) => {
+    if (!query) return true;
+    const data = record as AssetMetadata & Partial<KnowledgePoint & Tool & PastQuestion>;
+    return [record.id, data.slug, record.takkenaiUrl, data.title, data.name, data.summary]
+      .filter((value): value is string => typeof value === "string")
+      .some((value) => value.toLowerCase().includes(query));
+  });
+  const limit = Math.max(1, Math.min(options.limit ?? 50, 200));
+  return { items: matches.slice(0, limit), total: matches.length };
+}
+
+export function getAssetRecord(type: AssetType, id: string): AssetRecord | undefined {
+  return recordsOf(type).find((record) => record.id === id);
+}
+
+// ---------------------------------------------------------------------------
+// Update
+// ---------------------------------------------------------------------------
+
+function applyPatch(type: AssetType, record: AssetRecord, patch: AssetMetadataPatch): AssetRecord {
+  const next: Record<string, unknown> = { ...record };
+  for (const [field, value] of Object.entries(patch)) {
+    const key = field === "title" && type === "tool" ? "name" : field;
+    if (value === null) delete next[key];
+    else next[key] = value;
+  }
+  return next as unknown as AssetRecord;
+}
+
+/**
+ * Applies an admin edit to one asset and rewrites its data JSON. Throws
+ * AssetMetadataError with every issue when the edit is invalid or the
+ * asset does not exist.
+ */
+export function updateAssetMetadata(type: AssetType, id: string, raw: unknown): AssetRecord {
+  const { patch, issues } = parseAssetMetadataPatch(type, raw);
+  if (issues.length > 0) throw createAssetMetadataError(issues);
+
+  const records = recordsOf(type);
+  const index = records.findIndex((record) => record.id === id);
+  if (index < 0) throw createAssetMetadataError([`素材 ${id} が見つかりません`]);
+
+  const updated = applyPatch(type, records[index], patch);
+  const next = records.slice();
+  next[index] = updated;
+  writeJsonAtomic(path.join(getTakkenaiDataDir(), DATA_FILES[type]), next);
+  clearDataCache();
+  return updated;
+}
+
+// ---------------------------------------------------------------------------
+// Prompt
+// ---------------------------------------------------------------------------
+
+function formatList(label: string, items: string[] | undefined): string[] {
+  if (!items || items.length === 0) return [];
+  return [`- ${label}:`, ...items.map((item) => `  - ${item}`)];
+}
+
+function describeAsset(asset: ContentAsset): string[] {
+  // Calendar entries keep a snapshot of the asset; edits made since then
+  // live in the catalog.
+  const record = getAssetRecord(asset.type, asset.data.id) || asset.data;
+  if (!hasAssetMetadata(record)) return [];
+
+  const typeLabel =
+    asset.type === "knowledge-point" ? "知識ポイント" : asset.type === "tool" ? "ツール" : "過去問";
+  const data = record as AssetMetadata & Partial<Tool & PastQuestion>;
+  const lines = [`### ${typeLabel}「${getAssetRecordLabel(asset.type, record)}」`];
+  if (data.difficulty) lines.push(`- 難易度: ${DIFFICULTY_LABELS[data.difficulty]}`);
+  if (data.summary) lines.push(`- 概要: ${data.summary}`);
+  lines.push(...formatList("要点", data.keyFacts));
+  if (data.lawArticles?.length) lines.push(`- 関連条文: ${data.lawArticles.join(" / ")}`);
+  if (data.inputs?.length) lines.push(`- 入力項目: ${data.inputs.join(" / ")}`);
+  if (data.outputs?.length) lines.push(`- 計算結果: ${data.outputs.join(" / ")}`);
+  if (data.correctAnswer) lines.push(`- 正解: 肢${data.correctAnswer}`);
+  if (data.explanation) lines.push(`- 解説: ${data.explanation}`);
+  return lines;
+}
+
+/**
+ * The "our own content" section of the user prompt: the metadata edited on
+ * /assets for the topic's assets. Empty when none of them has any.
+ */
+export function buildAssetFactsPromptBlock(assets: Array<ContentAsset | undefined>): string {
+  const sections = assets
+    .filter((asset): asset is ContentAsset => Boolean(asset))
+    .map(describeAsset)
+    .filter((lines) => lines.length > 0);
+  if (sections.length === 0) return "";
+  return [
+    "## 自社コンテンツの事実情報（takkenai.jp 掲載内容 — 最優先）",
+    "以下はリンク先ページに掲載している内容です。定義・数値・条文・正解はこの情報を基準にし、リサーチ結果と食い違う場合はこちらを優先してください。",
+    "ここにない事実を断定的に補わないでください。",
+    "",
+    sections.map((lines) => lines.join("\n")).join("\n\n"),
+  ].join("\n");
+}
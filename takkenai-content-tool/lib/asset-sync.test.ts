@@ -0,0 +1,246 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import {
+  applyAssetSync,
+  isAssetSyncError,
+  loadSitemapUrls,
+  parsePageHtml,
+  parseSitemapXml,
+  planAssetSync,
+  type AssetCatalog,
+} from "./asset-sync";
+import { clearCalendarStoreCache } from "./calendar-store";
+import {
+  getOrCreateCalendar,
+  loadCalendarStore,
+  updatePlatformEntry,
+  type MonthCalendar,
+} from "./calendar-engine";
+import { clearDataCache, getKnowledgePoints, getTools } from "./takkenai-data";
+
+const ENV_KEYS = [
+  "CALENDAR_STORE_BACKEND",
+  "CALENDAR_STORE_FILE",
+  "NOTE_INTERNAL_LINK_POOL_FILE",
+  "TAKKENAI_DATA_DIR",
+] as const;
+
+function withTempSite(run: (tmpDir: string) => Promise<void>): Promise<void> {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "asset-sync-"));
+  const previousEnv = ENV_KEYS.map((name) => [name, process.env[name]] as const);
+  process.env.CALENDAR_STORE_BACKEND = "json";
+  process.env.CALENDAR_STORE_FILE = path.join(tmpDir, "calendar.json");
+  process.env.NOTE_INTERNAL_LINK_POOL_FILE = path.join(tmpDir, "note-pool.json");
+  process.env.TAKKENAI_DATA_DIR = path.join(tmpDir, "data");
+  fs.mkdirSync(path.join(tmpDir, "data"));
+  for (const name of ["knowledge-points.json", "tools.json", "past-questions.json"]) {
+    fs.copyFileSync(path.join(process.cwd(), "data", name), path.join(tmpDir, "data", name));
+  }
+  clearCalendarStoreCache();
+  clearDataCache();
+  return run(tmpDir).finally(() => {
+    for (const [name, value] of previousEnv) {
+      if (value === undefined) delete process.env[name];
+      else process.env[name] = value;
+    }
+    clearCalendarStoreCache();
+    clearDataCache();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+}
+
+function writeFile(filePath: string, content: string): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content, "utf-8");
+}
+
+const urlset = (paths: string[]) =>
+  [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...paths.map((p) => `<url><loc>https://takkenai.jp${p}</loc><lastmod>2026-06-01</lastmod></url>`),
+    "</urlset>",
+  ].join("\n");
+
+const PREVIOUS: AssetCatalog = {
+  knowledgePoints: [
+    { id: "kp-minpo", subject: "その他", title: "minpo", slug: "minpo", takkenaiUrl: "/takken/knowledge/minpo/" },
+    { id: "kp-old", subject: "宅建業法", title: "旧ページ", slug: "old", takkenaiUrl: "/takken/knowledge/old/" },
+  ],
+  tools: [
+    { id: "tool-loan", name: "loan", slug: "loan", category: "finance", takkenaiUrl: "/tools/loan/" },
+    { id: "tool-gone", name: "gone", slug: "gone", category: "other", takkenaiUrl: "/tools/gone/" },
+  ],
+  pastQuestions: [
+    { id: "pq-2024-1", year: 2024, number: 1, subject: "mixed", takkenaiUrl: "/takken/past-questions/2024-q1/" },
+  ],
+};
+
+/** June 1–4 of a generated calendar, every entry pointing at /tools/loan except the broken ones. */
+function setUpSampleCalendar(): MonthCalendar[] {
+  getOrCreateCalendar(2026, 6);
+  for (let day = 1; day <= 4; day++) {
+    for (const platform of ["ameba", "note", "hatena"] as const) {
+      updatePlatformEntry(2026, 6, day, platform, {
+        status: "generated",
+        takkenaiUrl: "https://takkenai.jp/tools/loan",
+      });
+    }
+  }
+  updatePlatformEntry(2026, 6, 1, "note", {
+    status: "published",
+    takkenaiUrl: "https://takkenai.jp/takken/knowledge/old/",
+  });
+  updatePlatformEntry(2026, 6, 2, "ameba", { takkenaiUrl: "https://takkenai.jp/tools/gone/" });
+  updatePlatformEntry(2026, 6, 3, "hatena", {
+    linkCheck: { state: "missing", checkedAt: "2026-05-01T00:00:00.000Z" },
+  });
+  updatePlatformEntry(2026, 6, 4, "note", {
+    status: "skipped",
+    skipReason: "休止",
+    takkenaiUrl: "https://takkenai.jp/tools/gone/",
+  });
+  return loadCalendarStore().calendars.map((calendar) => ({ ...calendar, days: calendar.days.slice(0, 4) }));
+}
+
+function storedEntry(day: number, platform: "ameba" | "note" | "hatena") {
+  const calendar = loadCalendarStore().calendars.find((c) => c.year === 2026 && c.month === 6);
+  return calendar?.days[day - 1].platforms[platform];
+}
+
+test("sitemaps and mirrored pages are parsed", () => {
+  assert.deepEqual(parseSitemapXml(urlset(["/tools/loan/"])), {
+    kind: "urlset",
+    entries: [{ loc: "https://takkenai.jp/tools/loan/", lastmod: "2026-06-01" }],
+  });
+  assert.deepEqual(
+    parseSitemapXml("<sitemapindex><sitemap><loc>https://takkenai.jp/sitemap-0.xml</loc></sitemap></sitemapindex>"),
+    { kind: "index", entries: [{ loc: "https://takkenai.jp/sitemap-0.xml" }] }
+  );
+  assert.throws(() => parseSitemapXml("<html></html>"), isAssetSyncError);
+
+  assert.deepEqual(
+    parsePageHtml(
+      [
+        "<html><head><title>民法の基本 | 宅建AI</title></head><body>",
+        '<nav aria-label="breadcrumb"><ol><li>ホーム</li><li>権利関係</li></ol></nav>',
+        "<h1>民法の基本を<em>わかりやすく</em>解説</h1></body></html>",
+      ].join(""),
+      "/takken/knowledge/minpo/"
+    ),
+    { title: "民法の基本", h1: "民法の基本を わかりやすく 解説", subject: "権利関係" }
+  );
+  assert.deepEqual(
+    parsePageHtml(
+      '<meta http-equiv="refresh" content="0;url=https://takkenai.jp/takken/knowledge/new/"><title>Redirecting</title>',
+      "/takken/knowledge/old/"
+    ),
+    { title: "Redirecting", redirectTo: "/takken/knowledge/new" }
+  );
+});
+
+test("offline sync reports the diff and stale calendar links before writing", async () => {
+  await withTempSite(async (tmpDir) => {
+    const sitemapDir = path.join(tmpDir, "sitemap");
+    writeFile(
+      path.join(sitemapDir, "sitemap-index.xml"),
+      "<sitemapindex><sitemap><loc>https://takkenai.jp/sitemap-0.xml</loc></sitemap>" +
+        "<sitemap><loc>https://takkenai.jp/sitemap-1.xml</loc></sitemap></sitemapindex>"
+    );
+    writeFile(
+      path.join(sitemapDir, "sitemap-0.xml"),
+      urlset(["/", "/takken/knowledge/minpo/", "/takken/knowledge/new/", "/tools/loan/"])
+    );
+    writeFile(
+      path.join(sitemapDir, "sitemap-1.xml"),
+      urlset(["/takken/past-questions/2024-q1/", "/takken/past-questions/2025-q3/", "/tools/loan/"])
+    );
+    const mirrorDir = path.join(tmpDir, "mirror");
+    writeFile(
+      path.join(mirrorDir, "takken/knowledge/minpo/index.html"),
+      '<title>民法の基本 | 宅建AI</title><div class="breadcrumb">権利関係</div>'
+    );
+    writeFile(path.join(mirrorDir, "takken/knowledge/new/index.html"), "<h1>重要事項説明の基本</h1>");
+    writeFile(
+      path.join(mirrorDir, "takken/knowledge/old/index.html"),
+      '<link rel="canonical" href="/takken/knowledge/new/">'
+    );
+    writeFile(path.join(mirrorDir, "tools/loan.html"), "<title>住宅ローン計算｜宅建AI</title>");
+
+    const sitemap = path.join(sitemapDir, "sitemap-index.xml");
+    assert.equal((await loadSitemapUrls(sitemap)).length, 6);
+    // The saved sitemap `npm run sync:assets -- --sitemap` can be tried against
+    const fixture = path.join(__dirname, "../scripts/fixtures/sitemap/sitemap-index.xml");
+    assert.equal((await loadSitemapUrls(fixture)).length, 11);
+
+    const calendars = setUpSampleCalendar();
+    const plan = await planAssetSync({
+      sitemap,
+      mirrorDir,
+      previous: PREVIOUS,
+      calendars,
+      now: new Date("2026-06-10T00:00:00Z"),
+    });
+    assert.deepEqual(plan.diff.added.map((ref) => ref.id), ["kp-new", "pq-2025-3"]);
+    assert.equal(plan.diff.added[0].label, "重要事項説明の基本");
+    assert.deepEqual(plan.diff.removed.map((ref) => ref.id), ["tool-gone"]);
+    assert.deepEqual(
+      plan.diff.redirected.map((ref) => [ref.id, ref.redirectTo]),
+      [["kp-old", "/takken/knowledge/new"]]
+    );
+    assert.deepEqual(plan.diff.changed, [
+      { type: "knowledge-point", id: "kp-minpo", field: "title", from: "minpo", to: "民法の基本" },
+      { type: "knowledge-point", id: "kp-minpo", field: "subject", from: "その他", to: "権利関係" },
+      { type: "tool", id: "tool-loan", field: "name", from: "loan", to: "住宅ローン計算" },
+    ]);
+    assert.equal(plan.diff.unchanged, 1);
+    assert.deepEqual(
+      plan.staleEntries.map((stale) => [stale.date, stale.platform, stale.state, stale.redirectTo]),
+      [
+        ["2026-06-01", "note", "redirected", "/takken/knowledge/new"],
+        ["2026-06-02", "ameba", "missing", undefined],
+      ]
+    );
+    assert.deepEqual(plan.recoveredEntries, [{ date: "2026-06-03", platform: "hatena" }]);
+
+    // Planning writes nothing.
+    assert.ok(getTools().length > 1);
+
+    const result = applyAssetSync(plan);
+    assert.deepEqual(result, {
+      files: ["knowledge-points.json", "tools.json", "past-questions.json"].map((name) =>
+        path.join(tmpDir, "data", name)
+      ),
+      marked: 2,
+      cleared: 1,
+    });
+    assert.deepEqual(
+      getKnowledgePoints().map((item) => [item.id, item.title]),
+      [
+        ["kp-minpo", "民法の基本"],
+        ["kp-new", "重要事項説明の基本"],
+      ]
+    );
+    assert.deepEqual(getTools().map((item) => item.id), ["tool-loan"]);
+    assert.deepEqual(storedEntry(1, "note")?.linkCheck, {
+      state: "redirected",
+      redirectTo: "/takken/knowledge/new",
+      checkedAt: "2026-06-10T00:00:00.000Z",
+    });
+    assert.equal(storedEntry(3, "hatena")?.linkCheck, undefined);
+
+    // A second run with the same marks leaves entry versions alone.
+    const version = storedEntry(2, "ameba")?.version;
+    applyAssetSync({ ...plan, recoveredEntries: [] });
+    assert.equal(storedEntry(2, "ameba")?.version, version);
+
+    await assert.rejects(
+      planAssetSync({ sitemap: path.join(sitemapDir, "missing.xml"), previous: PREVIOUS }),
+      isAssetSyncError
+    );
+  });
+});
@@ -0,0 +1,715 @@
+import fs from "fs";
+import path from "path";
+import {
+  clearDataCache,
+  getKnowledgePoints,
+  getPastQuestions,
+  getTakkenaiDataDir,
+  getTools,
+  type KnowledgePoint,
+  type KnowledgeSubject,
+  type PastQuestion,
+  type Tool,
+  type ToolCategory,
+} from "./takkenai-data";
+import {
+  getDayPlatforms,
+  loadCalendarStore,
+  updatePlatformEntry,
+  type ContentStatus,
+  type MonthCalendar,
+  type PlatformEntry,
+  type TakkenaiLinkCheck,
+} from "./calendar-engine";
+import type { Platform } from "./topic-engine";
+import { writeJsonAtomic } from "./json-file";
+import { canonicalizeTakkenaiPath } from "./traffic-url-profile";
+import { normalizeAssetLabel } from "./topic-label";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type AssetSyncError = Error & { code: "ASSET_SYNC_INVALID" };
+
+export function isAssetSyncError(error: unknown): error is AssetSyncError {
+  return error instanceof Error && (error as Partial<AssetSyncError>).code === "ASSET_SYNC_INVALID";
+}
+
+function createAssetSyncError(message: string): AssetSyncError {
+  const error = new Error(message) as AssetSyncError;
+  error.code = "ASSET_SYNC_INVALID";
+  return error;
+}
+
+export interface SitemapUrl {
+  loc: string;
+  /** Canonical takkenai.jp path */
+  path: string;
+  lastmod?: string;
+}
+
+/** What a page of the local HTML mirror tells about the URL. */
+export interface MirrorPage {
+  title?: string;
+  h1?: string;
+  /** 宅建 subject found in the breadcrumb (or heading) */
+  subject?: string;
+  /** Canonical path of a meta refresh / canonical link pointing elsewhere */
+  redirectTo?: string;
+}
+
+export interface AssetCatalog {
+  knowledgePoints: KnowledgePoint[];
+  tools: Tool[];
+  pastQuestions: PastQuestion[];
+}
+
+export type AssetKind = "knowledge-point" | "tool" | "past-question";
+
+export interface AssetRef {
+  type: AssetKind;
+  id: string;
+  takkenaiUrl: string;
+  label: string;
+}
+
+export interface AssetFieldChange {
+  type: AssetKind;
+  id: string;
+  field: "title" | "name" | "subject" | "category";
+  from: string;
+  to: string;
+}
+
+export interface AssetRedirect extends AssetRef {
+  /** Canonical path of the asset that replaces it */
+  redirectTo: string;
+}
+
+export interface AssetSyncDiff {
+  added: AssetRef[];
+  removed: AssetRef[];
+  redirected: AssetRedirect[];
+  changed: AssetFieldChange[];
+  unchanged: number;
+  counts: { base: Record<AssetKind, number>; next: Record<AssetKind, number> };
+}
+
+/** A calendar entry whose takkenaiUrl is not in the sitemap any more. */
+export interface StaleCalendarEntry {
+  date: string;
+  platform: Platform;
+  status: ContentStatus;
+  takkenaiUrl: string;
+  state: TakkenaiLinkCheck["state"];
+  redirectTo?: string;
+}
+
+export interface AssetSyncPlan {
+  generatedAt: string;
+  sitemapUrls: number;
+  catalog: AssetCatalog;
+  diff: AssetSyncDiff;
+  staleEntries: StaleCalendarEntry[];
+  /** Entries marked by an earlier sync whose URL is live again */
+  recoveredEntries: Array<{ date: string; platform: Platform }>;
+}
+
+// ---------------------------------------------------------------------------
+// Sitemap
+// ---------------------------------------------------------------------------
+
+export const DEFAULT_SITEMAP_URL = "https://takkenai.jp/sitemap-index.xml";
+
+function decodeXmlEntities(value: string): string {
+  return value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec: string) => String.fromCharCode(parseInt(dec, 10)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;|&#39;/g, "'")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&");
+}
+
+function tagText(block: string, tag: string): string | undefined {
+  const match = block.match(new RegExp(`<${tag}[^>]*>([\\s\\S]*?)</${tag}>`, "i"));
+  return match ? decodeXmlEntities(match[1].replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")).trim() : undefined;
+}
+
+/** A `<urlset>` or a `<sitemapindex>` (whose entries are child sitemaps). */
+export function parseSitemapXml(xml: string): {
+  kind: "urlset" | "index";
+  entries: Array<{ loc: string; lastmod?: string }>;
+} {
+  const kind = /<sitemapindex[\s>]/i.test(xml) ? "index" : "urlset";
+  if (kind === "urlset" && !/<urlset[\s>]/i.test(xml)) {
+    throw createAssetSyncError("サイトマップ（urlset / sitemapindex）として読み込めません");
+  }
+  const blockTag = kind === "index" ? "sitemap" : "url";
+  const blocks = xml.match(new RegExp(`<${blockTag}[\\s>][\\s\\S]*?</${blockTag}>`, "gi")) || [];
+  const entries: Array<{ loc: string; lastmod?: string }> = [];
+  for (const block of blocks) {
+    const loc = tagText(block, "loc");
+    if (!loc) continue;
+    const lastmod = tagText(block, "lastmod");
+    entries.push({ loc, ...(lastmod ? { lastmod } : {}) });
+  }
+  return { kind, entries };
+}
+
+type FetchLike = (url: string, init?: { method?: string; redirect?: "manual" }) => Promise<{
+  ok: boolean;
+  status: number;
+  headers: { get(name: string): string | null };
+  text(): Promise<string>;
+}>;
+
+function isRemote(source: string): boolean {
+  return /^https?:\/\//i.test(source);
+}
+
+async function readSitemapSource(source: string, fetchImpl: FetchLike): Promise<string> {
+  if (isRemote(source)) {
+    const res = await fetchImpl(source);
+    if (!res.ok) throw createAssetSyncError(`サイトマップを取得できません（${res.status}）: ${source}`);
+    return res.text();
+  }
+  if (!fs.existsSync(source)) throw createAssetSyncError(`サイトマップが見つかりません: ${source}`);
+  return fs.readFileSync(source, "utf-8");
+}
+
+/**
+ * All page URLs of a sitemap (following a sitemap index). A saved sitemap
+ * file works offline: child sitemaps of a saved index are looked up next to
+ * it by file name.
+ */
+export async function loadSitemapUrls(
+  source: string,
+  options: { fetchImpl?: FetchLike } = {}
+): Promise<SitemapUrl[]> {
+  const fetchImpl = options.fetchImpl || (fetch as unknown as FetchLike);
+  const root = parseSitemapXml(await readSitemapSource(source, fetchImpl));
+  const sitemaps =
+    root.kind === "urlset"
+      ? [root]
+      : await Promise.all(
+          root.entries.map(async ({ loc }) => {
+            const child = isRemote(source)
+              ? loc
+              : path.join(path.dirname(source), path.basename(new URL(loc, "https://takkenai.jp").pathname));
+            return parseSitemapXml(await readSitemapSource(child, fetchImpl));
+          })
+        );
+
+  const byPath = new Map<string, SitemapUrl>();
+  for (const sitemap of sitemaps) {
+    for (const entry of sitemap.entries) {
+      const urlPath = canonicalizeTakkenaiPath(entry.loc);
+      if (!urlPath || byPath.has(urlPath)) continue;
+      byPath.set(urlPath, { loc: entry.loc, path: urlPath, ...(entry.lastmod ? { lastmod: entry.lastmod } : {}) });
+    }
+  }
+  return Array.from(byPath.values());
+}
+
+// ---------------------------------------------------------------------------
+// HTML mirror
+// ---------------------------------------------------------------------------
+
+const SUBJECT_NAMES: Array<[KnowledgeSubject, RegExp]> = [
+  ["権利関係", /権利関係|民法/],
+  ["宅建業法", /宅建業法|宅地建物取引業法/],
+  ["法令上の制限", /法令上の制限/],
+  ["税・その他", /税[・･]?その他|税法/],
+];
+
+function stripTags(html: string): string {
+  return decodeXmlEntities(html.replace(/<[^>]+>/g, " ")).replace(/\s+/g, " ").trim();
+}
+
+function attributeOf(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*("([^"]*)"|'([^']*)'|([^\\s>]+))`, "i"));
+  return match ? decodeXmlEntities(match[2] ?? match[3] ?? match[4] ?? "") : undefined;
+}
+
+function detectSubject(text: string): KnowledgeSubject | undefined {
+  return SUBJECT_NAMES.find(([, pattern]) => pattern.test(text))?.[0];
+}
+
+/** Title, heading, subject and redirect target of a mirrored page. */
+export function parsePageHtml(html: string, pagePath = ""): MirrorPage {
+  const page: MirrorPage = {};
+  const title = tagText(html, "title");
+  // "民法の基本 | 宅建AI" → "民法の基本"
+  const cleanTitle = title ? stripTags(title).split(/\s+[|｜\-–—]\s+|｜/)[0].trim() : "";
+  if (cleanTitle) page.title = cleanTitle;
+  const h1 = tagText(html, "h1");
+  if (h1 && stripTags(h1)) page.h1 = stripTags(h1);
+
+  const breadcrumb = html.match(
+    /<(nav|ol|ul|div)[^>]*breadcrumb[^>]*>([\s\S]*?)<\/\1>/i
+  );
+  const subject =
+    (breadcrumb && detectSubject(stripTags(breadcrumb[2]))) ||
+    detectSubject(`${page.h1 || ""} ${page.title || ""}`);
+  if (subject) page.subject = subject;
+
+  const tags = html.match(/<(meta|link)\b[^>]*>/gi) || [];
+  let target = "";
+  for (const tag of tags) {
+    if (/^<meta/i.test(tag) && (attributeOf(tag, "http-equiv") || "").toLowerCase() === "refresh") {
+      const content = attributeOf(tag, "content") || "";
+      const url = content.match(/url\s*=\s*['"]?([^'";]+)/i);
+      if (url) target = url[1].trim();
+    }
+    if (!target && /^<link/i.test(tag) && (attributeOf(tag, "rel") || "").toLowerCase() === "canonical") {
+      target = attributeOf(tag, "href") || "";
+    }
+  }
+  const redirectTo = canonicalizeTakkenaiPath(target);
+  if (redirectTo && redirectTo !== canonicalizeTakkenaiPath(pagePath)) page.redirectTo = redirectTo;
+  return page;
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Reads `<mirror>/<path>/index.html` or `<mirror>/<path>.html`, trying the
+ * percent-encoded and the decoded path (wget and browsers save either).
+ */
+export function readMirrorPage(mirrorDir: string, pagePath: string): MirrorPage | null {
+  const trimmed = pagePath.replace(/^\/+|\/+$/g, "");
+  const variants = Array.from(new Set([trimmed, safeDecode(trimmed)]));
+  for (const variant of variants) {
+    for (const candidate of [path.join(mirrorDir, variant, "index.html"), path.join(mirrorDir, `${variant}.html`)]) {
+      if (fs.existsSync(candidate)) {
+        return parsePageHtml(fs.readFileSync(candidate, "utf-8"), pagePath);
+      }
+    }
+  }
+  return null;
+}
+
+/** Where a URL redirects to (HEAD without following), or null. */
+export async function probeRedirect(url: string, fetchImpl: FetchLike = fetch as unknown as FetchLike): Promise<string | null> {
+  try {
+    const res = await fetchImpl(url, { method: "HEAD", redirect: "manual" });
+    if (res.status < 300 || res.status >= 400) return null;
+    const location = res.headers.get("location");
+    return location ? canonicalizeTakkenaiPath(new URL(location, url).toString()) || null : null;
+  } catch {
+    return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Catalog building
+// ---------------------------------------------------------------------------
+
+function categorizeSubject(slug: string): KnowledgeSubject {
+  if (slug.includes("gyouhou") || slug.includes("takken-gyouhou")) return "宅建業法";
+  if (slug.includes("minpo") || slug.includes("kenri")) return "権利関係";
+  if (slug.includes("hourei") || slug.includes("seigen")) return "法令上の制限";
+  if (slug.includes("zei") || slug.includes("sonota") || slug.includes("tax")) return "税・その他";
+  return "その他";
+}
+
+const TOOL_CATEGORY_SLUGS: Array<[ToolCategory, string[]]> = [
+  ["market", ["satei", "chika", "eki-souba", "chinryo", "kenpei", "kanrihi", "reform"]],
+  ["finance", ["loan", "shohiyo", "chukai", "inshi", "touroku", "kotei", "depreciation", "inheritance", "gift"]],
+  ["investment", ["toushi", "buy-vs-rent", "dcf", "leverage", "cap-rate", "investment-risk", "exit-strategy", "sublease"]],
+  ["marketing", ["sns", "video", "chirashi", "catchcopy", "content-marketing", "openhouse", "area-guide", "property-lp"]],
+  ["sales", ["bukken-hikaku", "shikin", "property-center", "market-report", "meishi"]],
+  ["customer", ["email", "kotowari", "testimonial", "faq"]],
+  ["operations", ["torihiki", "shorui", "hikiwatashi"]],
+  ["compliance", ["jusetsu", "hourei-search"]],
+  ["management", ["koshin", "taikyo", "shikikin", "rent-escalation", "rent-guarantee", "vacancy"]],
+  ["commercial", ["office", "tenant", "commercial-rent", "lease-comparison", "building", "tenant-screening", "office-layout", "rent-free"]],
+  ["exam", ["benkyou", "goukaku", "nenshu", "mortgage-refinance"]],
+];
+
+function categorizeTool(slug: string): ToolCategory {
+  return TOOL_CATEGORY_SLUGS.find(([, slugs]) => slugs.some((part) => slug.includes(part)))?.[0] || "other";
+}
+
+const JAPANESE_CHAR_REGEX = /[぀-ヿ㐀-鿿]/;
+
+/**
+ * Mirror <h1>, then the mirror <title>, then a title the catalog already had
+ * (unless it is just the slug), then a label derived from the slug.
+ */
+function resolveTitle(slug: string, kind: "knowledge-point" | "tool", page: MirrorPage | null, previous?: string): string {
+  if (page?.h1) return page.h1;
+  if (page?.title) return page.title;
+  if (previous && previous !== slug) return previous;
+  const label = normalizeAssetLabel(slug, kind);
+  return JAPANESE_CHAR_REGEX.test(label) && label !== normalizeAssetLabel("", kind) ? label : slug;
+}
+
+function slugOf(urlPath: string, prefix: string): string {
+  const slug = urlPath.slice(prefix.length).replace(/\/+$/, "");
+  return slug && !slug.includes("/") ? slug : "";
+}
+
+/** The path as the catalogs store it: from the sitemap loc, with a trailing slash. */
+function catalogPath(loc: string): string {
+  const pathname = new URL(loc, "https://takkenai.jp").pathname;
+  return pathname.endsWith("/") ? pathname : `${pathname}/`;
+}
+
+/**
+ * The asset catalogs for the URLs in the sitemap. Existing assets keep their
+ * position and fields the sitemap cannot tell (e.g. a curated title when the
+ * page is not mirrored, or the metadata edited on /assets); new ones are
+ * appended in sitemap order.
+ */
+export function buildAssetCatalog(
+  urls: SitemapUrl[],
+  previous: AssetCatalog,
+  pageOf: (urlPath: string) => MirrorPage | null = () => null
+): AssetCatalog {
+  const previousKp = new Map(previous.knowledgePoints.map((item) => [item.id, item]));
+  const previousTools = new Map(previous.tools.map((item) => [item.id, item]));
+  const previousPq = new Map(previous.pastQuestions.map((item) => [item.id, item]));
+  const knowledgePoints = new Map<string, KnowledgePoint>();
+  const tools = new Map<string, Tool>();
+  const pastQuestions = new Map<string, PastQuestion>();
+
+  for (const url of urls) {
+    const takkenaiUrl = catalogPath(url.loc);
+    const kpSlug = takkenaiUrl.startsWith("/takken/knowledge/") ? slugOf(takkenaiUrl, "/takken/knowledge/") : "";
+    if (kpSlug) {
+      const id = `kp-${kpSlug}`;
+      const before = previousKp.get(id);
+      const page = pageOf(url.path);
+      knowledgePoints.set(id, {
+        ...before,
+        id,
+        subject:
+          (page?.subject as KnowledgeSubject | undefined) ||
+          (before && before.subject !== "その他" ? before.subject : categorizeSubject(kpSlug)),
+        title: resolveTitle(kpSlug, "knowledge-point", page, before?.title),
+        slug: kpSlug,
+        takkenaiUrl,
+      });
+      continue;
+    }
+
+    const toolSlug = takkenaiUrl.startsWith("/tools/") ? slugOf(takkenaiUrl, "/tools/") : "";
+    if (toolSlug) {
+      const id = `tool-${toolSlug}`;
+      const before = previousTools.get(id);
+      const derived = categorizeTool(toolSlug);
+      tools.set(id, {
+        ...before,
+        id,
+        name: resolveTitle(toolSlug, "tool", pageOf(url.path), before?.name),
+        slug: toolSlug,
+        category: derived === "other" && before ? before.category : derived,
+        takkenaiUrl,
+      });
+      continue;
+    }
+
+    const pq = takkenaiUrl.match(/^\/takken\/past-questions\/(\d{4})-q(\d+)\/$/);
+    if (pq) {
+      const year = parseInt(pq[1], 10);
+      const number = parseInt(pq[2], 10);
+      const id = `pq-${year}-${number}`;
+      const before = previousPq.get(id);
+      pastQuestions.set(id, {
+        ...before,
+        id,
+        year,
+        number,
+        subject: pageOf(url.path)?.subject || before?.subject || "mixed",
+        takkenaiUrl,
+      });
+    }
+  }
+
+  const ordered = <T extends { id: string }>(before: T[], next: Map<string, T>): T[] => {
+    const kept = before.filter((item) => next.has(item.id)).map((item) => next.get(item.id) as T);
+    const keptIds = new Set(kept.map((item) => item.id));
+    return [...kept, ...Array.from(next.values()).filter((item) => !keptIds.has(item.id))];
+  };
+  return {
+    knowledgePoints: ordered(previous.knowledgePoints, knowledgePoints),
+    tools: ordered(previous.tools, tools),
+    pastQuestions: ordered(previous.pastQuestions, pastQuestions),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Diff
+// ---------------------------------------------------------------------------
+
+function assetRefs(catalog: AssetCatalog): AssetRef[] {
+  return [
+    ...catalog.knowledgePoints.map((item) => ({
+      type: "knowledge-point" as const,
+      id: item.id,
+      takkenaiUrl: item.takkenaiUrl,
+      label: item.title,
+    })),
+    ...catalog.tools.map((item) => ({
+      type: "tool" as const,
+      id: item.id,
+      takkenaiUrl: item.takkenaiUrl,
+      label: item.name,
+    })),
+    ...catalog.pastQuestions.map((item) => ({
+      type: "past-question" as const,
+      id: item.id,
+      takkenaiUrl: item.takkenaiUrl,
+      label: `${item.year}年 問${item.number}`,
+    })),
+  ];
+}
+
+function countAssets(catalog: AssetCatalog): Record<AssetKind, number> {
+  return {
+    "knowledge-point": catalog.knowledgePoints.length,
+    tool: catalog.tools.length,
+    "past-question": catalog.pastQuestions.length,
+  };
+}
+
+function fieldChanges(base: AssetCatalog, next: AssetCatalog): AssetFieldChange[] {
+  const changes: AssetFieldChange[] = [];
+  const compare = <T extends { id: string }>(
+    type: AssetKind,
+    before: T[],
+    after: T[],
+    fields: Array<keyof T & AssetFieldChange["field"]>
+  ) => {
+    const previous = new Map(before.map((item) => [item.id, item]));
+    for (const item of after) {
+      const old = previous.get(item.id);
+      if (!old) continue;
+      for (const field of fields) {
+        if (String(old[field]) !== String(item[field])) {
+          changes.push({ type, id: item.id, field, from: String(old[field]), to: String(item[field]) });
+        }
+      }
+    }
+  };
+  compare("knowledge-point", base.knowledgePoints, next.knowledgePoints, ["title", "subject"]);
+  compare("tool", base.tools, next.tools, ["name", "category"]);
+  compare("past-question", base.pastQuestions, next.pastQuestions, ["subject"]);
+  return changes;
+}
+
+/**
+ * Added / removed assets, field changes, and removed assets whose old URL
+ * redirects to a page that is still in the sitemap.
+ */
+export function diffAssetCatalogs(
+  base: AssetCatalog,
+  next: AssetCatalog,
+  redirects: Record<string, string> = {}
+): AssetSyncDiff {
+  const baseRefs = assetRefs(base);
+  const nextRefs = assetRefs(next);
+  const baseIds = new Set(baseRefs.map((ref) => `${ref.type}:${ref.id}`));
+  const nextIds = new Set(nextRefs.map((ref) => `${ref.type}:${ref.id}`));
+  const nextPaths = new Set(nextRefs.map((ref) => canonicalizeTakkenaiPath(ref.takkenaiUrl)));
+
+  const removed: AssetRef[] = [];
+  const redirected: AssetRedirect[] = [];
+  for (const ref of baseRefs) {
+    if (nextIds.has(`${ref.type}:${ref.id}`)) continue;
+    const target = redirects[canonicalizeTakkenaiPath(ref.takkenaiUrl)];
+    if (target && nextPaths.has(target)) redirected.push({ ...ref, redirectTo: target });
+    else removed.push(ref);
+  }
+  const changed = fieldChanges(base, next);
+  const changedIds = new Set(changed.map((change) => `${change.type}:${change.id}`));
+  const added = nextRefs.filter((ref) => !baseIds.has(`${ref.type}:${ref.id}`));
+  return {
+    added,
+    removed,
+    redirected,
+    changed,
+    unchanged: nextRefs.length - added.length - changedIds.size,
+    counts: { base: countAssets(base), next: countAssets(next) },
+  };
+}
+
+/** Entries (except skipped ones) linking to a path that is not in the sitemap. */
+export function findStaleCalendarEntries(
+  calendars: MonthCalendar[],
+  livePaths: Set<string>,
+  redirects: Record<string, string> = {}
+): StaleCalendarEntry[] {
+  const stale: StaleCalendarEntry[] = [];
+  for (const calendar of calendars) {
+    for (const day of calendar.days) {
+      for (const platform of getDayPlatforms(day)) {
+        const entry = day.platforms[platform] as PlatformEntry;
+        const urlPath = canonicalizeTakkenaiPath(entry.takkenaiUrl);
+        if (!urlPath || entry.status === "skipped" || livePaths.has(urlPath)) continue;
+        const redirectTo = redirects[urlPath];
+        stale.push({
+          date: day.date,
+          platform,
+          status: entry.status,
+          takkenaiUrl: entry.takkenaiUrl,
+          ...(redirectTo && livePaths.has(redirectTo)
+            ? { state: "redirected" as const, redirectTo }
+            : { state: "missing" as const }),
+        });
+      }
+    }
+  }
+  return stale;
+}
+
+// ---------------------------------------------------------------------------
+// Plan and apply
+// ---------------------------------------------------------------------------
+
+/** Most redirect probes per sync (one HEAD request each). */
+const MAX_REDIRECT_PROBES = 100;
+
+export function loadAssetCatalog(): AssetCatalog {
+  return {
+    knowledgePoints: getKnowledgePoints(),
+    tools: getTools(),
+    pastQuestions: getPastQuestions(),
+  };
+}
+
+/**
+ * Everything a sync would change, without writing: the rebuilt catalogs,
+ * their diff against the current ones and the calendar entries whose link is
+ * gone. Redirects come from the mirror (meta refresh / canonical) and, with
+ * `probeRedirects`, from HEAD requests to the missing URLs.
+ */
+export async function planAssetSync(options: {
+  sitemap?: string;
+  mirrorDir?: string;
+  probeRedirects?: boolean;
+  fetchImpl?: FetchLike;
+  previous?: AssetCatalog;
+  calendars?: MonthCalendar[];
+  now?: Date;
+}): Promise<AssetSyncPlan> {
+  const urls = await loadSitemapUrls(options.sitemap || DEFAULT_SITEMAP_URL, {
+    fetchImpl: options.fetchImpl,
+  });
+  const mirrorDir = options.mirrorDir;
+  const pageOf = (urlPath: string) => (mirrorDir ? readMirrorPage(mirrorDir, urlPath) : null);
+  const previous = options.previous || loadAssetCatalog();
+  const catalog = buildAssetCatalog(urls, previous, pageOf);
+  if (catalog.knowledgePoints.length + catalog.tools.length + catalog.pastQuestions.length === 0) {
+    throw createAssetSyncError("サイトマップに知識ポイント・ツール・過去問のURLがありません");
+  }
+
+  const calendars = options.calendars || loadCalendarStore().calendars;
+  const livePaths = new Set(urls.map((url) => url.path));
+  const missingPaths = Array.from(
+    new Set([
+      ...assetRefs(previous).map((ref) => canonicalizeTakkenaiPath(ref.takkenaiUrl)),
+      ...calendars.flatMap((calendar) =>
+        calendar.days.flatMap((day) =>
+          getDayPlatforms(day).map((platform) =>
+            canonicalizeTakkenaiPath((day.platforms[platform] as PlatformEntry).takkenaiUrl)
+          )
+        )
+      ),
+    ])
+  ).filter((urlPath) => urlPath && !livePaths.has(urlPath));
+
+  const redirects: Record<string, string> = {};
+  let probes = 0;
+  for (const urlPath of missingPaths) {
+    const fromMirror = pageOf(urlPath)?.redirectTo;
+    if (fromMirror) {
+      redirects[urlPath] = fromMirror;
+    } else if (options.probeRedirects && probes < MAX_REDIRECT_PROBES) {
+      probes++;
+      const probed = await probeRedirect(`https://takkenai.jp${urlPath}`, options.fetchImpl);
+      if (probed) redirects[urlPath] = probed;
+    }
+  }
+
+  const staleEntries = findStaleCalendarEntries(calendars, livePaths, redirects);
+  const staleKeys = new Set(staleEntries.map((entry) => `${entry.date}:${entry.platform}`));
+  const recoveredEntries = calendars.flatMap((calendar) =>
+    calendar.days.flatMap((day) =>
+      getDayPlatforms(day).filter(
+        (platform) => day.platforms[platform]?.linkCheck && !staleKeys.has(`${day.date}:${platform}`)
+      ).map((platform) => ({ date: day.date, platform }))
+    )
+  );
+
+  return {
+    generatedAt: (options.now || new Date()).toISOString(),
+    sitemapUrls: urls.length,
+    catalog,
+    diff: diffAssetCatalogs(previous, catalog, redirects),
+    staleEntries,
+    recoveredEntries,
+  };
+}
+
+function splitDate(date: string): [number, number, number] {
+  const [year, month, day] = date.split("-").map((part) => parseInt(part, 10));
+  return [year, month, day];
+}
+
+/**
+ * Writes the catalogs of a plan and updates the link marks on calendar
+ * entries (set for stale entries, cleared for recovered ones). Entries that
+ * already carry the same mark are left alone so their version does not move.
+ */
+export function applyAssetSync(plan: AssetSyncPlan): { files: string[]; marked: number; cleared: number } {
+  const dataDir = getTakkenaiDataDir();
+  const files = [
+    ["knowledge-points.json", plan.catalog.knowledgePoints],
+    ["tools.json", plan.catalog.tools],
+    ["past-questions.json", plan.catalog.pastQuestions],
+  ] as const;
+  for (const [fileName, items] of files) {
+    writeJsonAtomic(path.join(dataDir, fileName), items);
+  }
+  clearDataCache();
+
+  const currentMarks = new Map<string, TakkenaiLinkCheck | undefined>();
+  for (const calendar of loadCalendarStore().calendars) {
+    for (const day of calendar.days) {
+      for (const platform of getDayPlatforms(day)) {
+        currentMarks.set(`${day.date}:${platform}`, day.platforms[platform]?.linkCheck);
+      }
+    }
+  }
+
+  let marked = 0;
+  for (const stale of plan.staleEntries) {
+    const [year, month, day] = splitDate(stale.date);
+    const current = currentMarks.get(`${stale.date}:${stale.platform}`);
+    if (current && current.state === stale.state && current.redirectTo === stale.redirectTo) continue;
+    const linkCheck: TakkenaiLinkCheck = {
+      state: stale.state,
+      ...(stale.redirectTo ? { redirectTo: stale.redirectTo } : {}),
+      checkedAt: plan.generatedAt,
+    };
+    if (updatePlatformEntry(year, month, day, stale.platform, { linkCheck })) marked++;
+  }
+  let cleared = 0;
+  for (const recovered of plan.recoveredEntries) {
+    const [year, month, day] = splitDate(recovered.date);
+    if (updatePlatformEntry(year, month, day, recovered.platform, { linkCheck: undefined })) cleared++;
+  }
+  return { files: files.map(([fileName]) => path.join(dataDir, fileName)), marked, cleared };
+}
@@ -0,0 +1,173 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  getOrCreateCalendar,
+  isCalendarScheduleError,
+  loadCalendarStore,
+  moveCalendarEntry,
+  pinTopic,
+  regenerateCalendar,
+  swapCalendarDays,
+  unpinTopic,
+  updatePlatformEntry,
+  type StatusTransition,
+} from "./calendar-engine";
+import { withTempCalendar } from "./calendar-test-helpers";
+import { getTools } from "./takkenai-data";
+import { buildTopicCoverageReport } from "./topic-coverage";
+import { DEFAULT_TOPIC_ROTATION } from "./topic-rotation";
+import { canonicalizeTakkenaiPath } from "./traffic-url-profile";
+
+function getDay(date: string) {
+  const [year, month] = date.split("-").map(Number);
+  const day = getOrCreateCalendar(year, month).days.find((d) => d.date === date);
+  assert.ok(day);
+  return day;
+}
+
+test("pinned topics survive refresh and regenerate, and neighbours rotate around them", () => {
+  withTempCalendar(() => {
+    getOrCreateCalendar(2026, 6);
+    const tool = getTools()[0];
+    const pinned = pinTopic(
+      { date: "2026-06-10", platform: "note" },
+      { assetType: "tool", assetId: tool.id },
+      { actor: "佐藤" }
+    );
+    assert.equal(pinned.motherTopics.note!.assetId, tool.id);
+    assert.equal(pinned.motherTopics.note!.phase, "deep-dive");
+    assert.equal(pinned.pins?.note?.source, "pin");
+    assert.equal(pinned.pins?.note?.pinnedBy, "佐藤");
+    assert.equal(pinned.platforms.note!.takkenaiUrl, pinned.motherTopics.note!.takkenaiUrl);
+
+    assert.equal(getDay("2026-06-10").motherTopics.note!.assetId, tool.id);
+    const regenerated = regenerateCalendar(2026, 6);
+    assert.equal(regenerated.days[9].motherTopics.note!.assetId, tool.id);
+    assert.ok(regenerated.days[9].pins?.note);
+
+    const report = buildTopicCoverageReport(loadCalendarStore().calendars, DEFAULT_TOPIC_ROTATION);
+    assert.deepEqual(report.repeats, []);
+
+    const released = unpinTopic({ date: "2026-06-10", platform: "note" });
+    assert.equal(released.pins, undefined);
+    assert.throws(
+      () => unpinTopic({ date: "2026-06-10", platform: "note" }),
+      (err: unknown) => isCalendarScheduleError(err) && /固定されていません/.test(err.message)
+    );
+  });
+});
+
+test("regenerate keeps skipped entries and the editorial fields of replanned ones", () => {
+  withTempCalendar(() => {
+    getOrCreateCalendar(2026, 6);
+    const history: StatusTransition[] = [
+      { from: "pending", to: "skipped", by: "佐藤", reason: "祝日", at: "2026-05-30T00:00:00.000Z" },
+    ];
+    updatePlatformEntry(2026, 6, 3, "note", {
+      status: "skipped",
+      skipReason: "祝日",
+      statusHistory: history,
+    });
+    updatePlatformEntry(2026, 6, 4, "note", { assignee: "佐藤", reviewer: "鈴木" });
+    const pendingVersion = getDay("2026-06-04").platforms.note!.version || 0;
+
+    const regenerated = regenerateCalendar(2026, 6);
+    const skipped = regenerated.days[2].platforms.note!;
+    assert.equal(skipped.status, "skipped");
+    assert.equal(skipped.skipReason, "祝日");
+    assert.deepEqual(skipped.statusHistory, history);
+
+    const pending = regenerated.days[3].platforms.note!;
+    assert.equal(pending.status, "pending");
+    assert.equal(pending.assignee, "佐藤");
+    assert.equal(pending.reviewer, "鈴木");
+    assert.equal(pending.version, pendingVersion + 1);
+  });
+});
+
+test("pins are rejected for generated entries and unknown assets or URLs", () => {
+  withTempCalendar(() => {
+    getOrCreateCalendar(2026, 6);
+    updatePlatformEntry(2026, 6, 3, "ameba", { status: "generated" });
+    assert.throws(
+      () => pinTopic({ date: "2026-06-03", platform: "ameba" }, { takkenaiUrl: "/tools/loan" }),
+      (err: unknown) => isCalendarScheduleError(err) && /未生成ではない/.test(err.message)
+    );
+    assert.throws(
+      () =>
+        pinTopic({ date: "2026-06-04", platform: "ameba" }, { assetType: "tool", assetId: "no-such-tool" }),
+      isCalendarScheduleError
+    );
+    assert.throws(
+      () =>
+        pinTopic({ date: "2026-06-04", platform: "ameba" }, { takkenaiUrl: "https://example.com/tools/loan" }),
+      isCalendarScheduleError
+    );
+
+    const direct = pinTopic(
+      { date: "2026-06-04", platform: "hatena" },
+      { takkenaiUrl: "https://takkenai.jp/takken/unknown-page/" }
+    );
+    assert.equal(direct.motherTopics.hatena!.urlSelectionMode, "url-direct");
+    assert.equal(direct.motherTopics.hatena!.takkenaiUrl, "https://takkenai.jp/takken/unknown-page");
+  });
+});
+
+test("swapping days exchanges pending topics and keeps locked entries in place", () => {
+  withTempCalendar(() => {
+    getOrCreateCalendar(2026, 6);
+    const before5 = getDay("2026-06-05");
+    const before20 = getDay("2026-06-20");
+    updatePlatformEntry(2026, 6, 20, "hatena", { status: "published" });
+
+    const result = swapCalendarDays("2026-06-05", "2026-06-20", { actor: "田中" });
+    assert.deepEqual(result.swapped, ["ameba", "note"]);
+    assert.deepEqual(result.kept, ["hatena"]);
+
+    const after5 = getDay("2026-06-05");
+    const after20 = getDay("2026-06-20");
+    for (const platform of ["ameba", "note"] as const) {
+      assert.equal(
+        canonicalizeTakkenaiPath(after5.motherTopics[platform]!.takkenaiUrl),
+        canonicalizeTakkenaiPath(before20.motherTopics[platform]!.takkenaiUrl)
+      );
+      assert.equal(
+        canonicalizeTakkenaiPath(after20.motherTopics[platform]!.takkenaiUrl),
+        canonicalizeTakkenaiPath(before5.motherTopics[platform]!.takkenaiUrl)
+      );
+      assert.equal(after5.pins?.[platform]?.source, "swap");
+    }
+    assert.equal(after20.motherTopics.hatena!.takkenaiUrl, before20.motherTopics.hatena!.takkenaiUrl);
+    assert.equal(after20.pins?.hatena, undefined);
+  });
+});
+
+test("dragging an entry to another date trades places with the displaced topic", () => {
+  withTempCalendar(() => {
+    getOrCreateCalendar(2026, 6);
+    const source = getDay("2026-06-30").motherTopics.ameba!;
+    const target = getOrCreateCalendar(2026, 7).days[1].motherTopics.ameba!;
+
+    const days = moveCalendarEntry(
+      { date: "2026-06-30", platform: "ameba" },
+      { date: "2026-07-02", platform: "ameba" }
+    );
+    assert.deepEqual(
+      days.map((day) => day.date),
+      ["2026-06-30", "2026-07-02"]
+    );
+    assert.equal(getDay("2026-07-02").motherTopics.ameba!.assetId, source.assetId);
+    assert.equal(getDay("2026-06-30").motherTopics.ameba!.assetId, target.assetId);
+    assert.equal(getDay("2026-07-02").pins?.ameba?.source, "move");
+
+    assert.throws(
+      () =>
+        moveCalendarEntry(
+          { date: "2026-07-02", platform: "ameba" },
+          { date: "2026-07-02", platform: "ameba" }
+        ),
+      isCalendarScheduleError
+    );
+  });
+});
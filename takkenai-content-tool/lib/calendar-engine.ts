@@ -1,14 +1,31 @@
-import fs from "fs";
-import path from "path";
 import {
+  buildPinnedTopic,
   generateDayTopics,
+  previewTopics,
   type DayTopics,
+  type TopicPinTarget,
   type Platform,
   type MotherTopic,
   type PlatformPlan,
 } from "./topic-engine";
 import { canonicalizeTakkenaiPath } from "./traffic-url-profile";
 import type { ArticleType } from "./article-type";
+import {
+  getCalendarStore,
+  type CalendarStoreSnapshot,
+  type CalendarStoreTransaction,
+} from "./calendar-store";
+import { getEnabledPlatforms, resolveSiteManifest } from "./site-config";
+import {
+  getPlatformLabel,
+  listPlatforms,
+  platformsOf,
+  type PlatformMap,
+} from "./platform-registry";
+import { collectCoolingDownPaths, type TopicPathUsage } from "./topic-rotation";
+import { getCampaignSlotsForMonth, type CampaignPartRef } from "./campaigns";
+import type { SnsDerivative } from "./sns-derivatives";
+import type { PublishedCover } from "./cover-variants";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -48,6 +65,70 @@ export interface PlatformEntry {
   takkenaiUrl: string;
   /** Selected article type for this platform generation */
   articleType?: ArticleType;
+  /** Optimistic concurrency version, bumped on every write (missing = 0) */
+  version?: number;
+  /** Writer responsible for this piece */
+  assignee?: string;
+  /** Reviewer who has to approve it before publication */
+  reviewer?: string;
+  /** Who actually approved it (set on the transition to "reviewed") */
+  reviewedBy?: string;
+  /** Timestamp of the approval */
+  reviewedAt?: string;
+  /** Why the piece was skipped (required for "skipped") */
+  skipReason?: string;
+  /** Review comments, threaded via parentId and anchored to body paragraphs */
+  reviewComments?: ReviewComment[];
+  /** Status changes made through the editorial workflow, oldest first */
+  statusHistory?: StatusTransition[];
+  /** Campaign part placed on this slot (see lib/campaigns.ts) */
+  campaign?: CampaignPartRef;
+  /** Outcomes after publication, fed back into topic selection (see lib/performance-weights.ts) */
+  performance?: EntryPerformance;
+  /** Set by the sitemap sync when takkenaiUrl is no longer live (see lib/asset-sync.ts) */
+  linkCheck?: TakkenaiLinkCheck;
+  /** Generated cover the editor published with this piece (see lib/cover-variants.ts) */
+  cover?: PublishedCover;
+}
+
+export interface TakkenaiLinkCheck {
+  state: "missing" | "redirected";
+  /** Canonical path the old URL redirects to */
+  redirectTo?: string;
+  checkedAt: string;
+}
+
+export interface EntryPerformance {
+  /** Sessions on takkenai.jp attributed to this post's tracked link */
+  referralClicks?: number;
+  views?: number;
+  likes?: number;
+  source: "manual" | "csv";
+  updatedAt: string;
+  updatedBy?: string;
+}
+
+export interface ReviewComment {
+  id: string;
+  author: string;
+  body: string;
+  /** 0-based paragraph of the body (see splitBodyParagraphs); unset = whole article */
+  paragraphIndex?: number;
+  /** Paragraph text when the comment was written, to spot edits since */
+  paragraphExcerpt?: string;
+  /** Comment this one replies to */
+  parentId?: string;
+  createdAt: string;
+  resolvedAt?: string;
+  resolvedBy?: string;
+}
+
+export interface StatusTransition {
+  from: ContentStatus;
+  to: ContentStatus;
+  by?: string;
+  reason?: string;
+  at: string;
 }
 
 type MotherTopicSerialized = {
@@ -67,17 +148,24 @@ export interface CalendarDay {
   /** Date in YYYY-MM-DD format */
   date: string;
   /** Per-platform mother topics — each platform has its own independent topic */
-  motherTopics: {
-    ameba: MotherTopicSerialized;
-    note: MotherTopicSerialized;
-    hatena: MotherTopicSerialized;
-  };
-  /** Platform-specific content entries */
-  platforms: {
-    ameba: PlatformEntry;
-    note: PlatformEntry;
-    hatena: PlatformEntry;
-  };
+  motherTopics: PlatformMap<MotherTopicSerialized>;
+  /**
+   * Platform-specific content entries, one per platform the site published
+   * to on this day (see getDayPlatforms). Enabling a platform adds pending
+   * entries; disabling it drops them unless they already carry content.
+   */
+  platforms: PlatformMap<PlatformEntry>;
+  /** Topics placed by an editor; refresh and regenerate leave these alone */
+  pins?: Partial<Record<Platform, TopicPin>>;
+  /** SNS posts derived from this day's finished articles (see lib/sns-derivatives.ts) */
+  derivatives?: SnsDerivative[];
+}
+
+export interface TopicPin {
+  /** How the topic got onto this slot */
+  source: "pin" | "swap" | "move";
+  pinnedAt: string;
+  pinnedBy?: string;
 }
 
 export interface MonthCalendar {
@@ -90,15 +178,32 @@ export interface MonthCalendar {
   days: CalendarDay[];
 }
 
-export interface CalendarStore {
-  calendars: MonthCalendar[];
-}
+export type { CalendarStoreSnapshot };
 
-// ---------------------------------------------------------------------------
-// File path
-// ---------------------------------------------------------------------------
+/** Thrown by updatePlatformEntry when `expectedVersion` no longer matches. */
+export type CalendarVersionConflictError = Error & {
+  code: "CALENDAR_VERSION_CONFLICT";
+  date: string;
+  platform: Platform;
+  expectedVersion: number;
+  currentVersion: number;
+};
+
+/** Thrown by the pin / swap / move operations when a slot cannot be changed. */
+export type CalendarScheduleError = Error & {
+  code: "CALENDAR_SCHEDULE_REJECTED";
+};
 
-const CALENDAR_FILE = path.join(process.cwd(), "data", "calendar.json");
+export interface CalendarSlot {
+  /** YYYY-MM-DD */
+  date: string;
+  platform: Platform;
+}
+
+export interface UpdatePlatformEntryOptions {
+  /** Reject the write unless the stored entry is still at this version */
+  expectedVersion?: number;
+}
 
 // ---------------------------------------------------------------------------
 // Serialization helpers
@@ -127,7 +232,7 @@ function serializeMotherTopic(mt: MotherTopic): MotherTopicSerialized {
   return result;
 }
 
-function getAssetId(asset: DayTopics["motherTopics"]["ameba"]["asset"]): string {
+function getAssetId(asset: MotherTopic["asset"]): string {
   switch (asset.type) {
     case "knowledge-point":
       return asset.data.id;
@@ -155,25 +260,77 @@ function planToEntry(plan: PlatformPlan): PlatformEntry {
  * Convert DayTopics into a CalendarDay.
  */
 function dayTopicsToCalendarDay(topics: DayTopics): CalendarDay {
-  return {
-    date: topics.motherTopics.ameba.date,
-    motherTopics: {
-      ameba: serializeMotherTopic(topics.motherTopics.ameba),
-      note: serializeMotherTopic(topics.motherTopics.note),
-      hatena: serializeMotherTopic(topics.motherTopics.hatena),
-    },
-    platforms: {
-      ameba: planToEntry(topics.platforms.ameba),
-      note: planToEntry(topics.platforms.note),
-      hatena: planToEntry(topics.platforms.hatena),
-    },
-  };
+  const day: CalendarDay = { date: topics.date, motherTopics: {}, platforms: {} };
+  for (const platform of platformsOf(topics.platforms)) {
+    day.motherTopics[platform] = serializeMotherTopic(topics.motherTopics[platform] as MotherTopic);
+    day.platforms[platform] = planToEntry(topics.platforms[platform] as PlatformPlan);
+  }
+  return day;
+}
+
+/** The platforms a day has entries for, in registry order. */
+export function getDayPlatforms(day: Pick<CalendarDay, "platforms">): Platform[] {
+  return platformsOf(day.platforms);
+}
+
+export function getEntryVersion(entry: Pick<PlatformEntry, "version"> | undefined): number {
+  const version = Number(entry?.version);
+  return Number.isFinite(version) && version > 0 ? Math.floor(version) : 0;
+}
+
+export function isCalendarVersionConflictError(
+  error: unknown
+): error is CalendarVersionConflictError {
+  return (
+    error instanceof Error &&
+    (error as Partial<CalendarVersionConflictError>).code === "CALENDAR_VERSION_CONFLICT"
+  );
+}
+
+function createVersionConflictError(params: {
+  date: string;
+  platform: Platform;
+  expectedVersion: number;
+  currentVersion: number;
+}): CalendarVersionConflictError {
+  const error = new Error(
+    `${params.date} ${params.platform} は他の操作で更新されています（version ${params.expectedVersion} → ${params.currentVersion}）。再読み込みしてから再実行してください。`
+  ) as CalendarVersionConflictError;
+  error.code = "CALENDAR_VERSION_CONFLICT";
+  error.date = params.date;
+  error.platform = params.platform;
+  error.expectedVersion = params.expectedVersion;
+  error.currentVersion = params.currentVersion;
+  return error;
 }
 
 function isLockedStatus(status: ContentStatus): boolean {
   return status === "generated" || status === "reviewed" || status === "published";
 }
 
+/**
+ * Locked by its status, pinned by an editor or carrying a campaign part: the
+ * topic must not be re-planned.
+ */
+function isFixedSlot(day: CalendarDay, platform: Platform): boolean {
+  const entry = day.platforms[platform];
+  if (!entry) return false;
+  return isLockedStatus(entry.status) || Boolean(day.pins?.[platform] || entry.campaign);
+}
+
+export function isCalendarScheduleError(error: unknown): error is CalendarScheduleError {
+  return (
+    error instanceof Error &&
+    (error as Partial<CalendarScheduleError>).code === "CALENDAR_SCHEDULE_REJECTED"
+  );
+}
+
+function createScheduleError(message: string): CalendarScheduleError {
+  const error = new Error(message) as CalendarScheduleError;
+  error.code = "CALENDAR_SCHEDULE_REJECTED";
+  return error;
+}
+
 function isRefreshTargetStatus(status: ContentStatus): boolean {
   return status === "pending" || status === "skipped";
 }
@@ -184,29 +341,87 @@ function getMotherTopicKey(mt: MotherTopicSerialized): string {
   return `${mt.assetType}:${mt.assetId}`;
 }
 
-function refreshPendingPlatformsInDay(day: CalendarDay): boolean {
-  const platforms = ["ameba", "note", "hatena"] as const;
-  const mutablePlatforms = platforms.filter((platform) =>
-    isRefreshTargetStatus(day.platforms[platform].status)
-  );
+/**
+ * Put a topic and its plan on a slot, creating a pending entry when the day
+ * has none for the platform yet. The entry version is only bumped (and true
+ * returned) when something actually changed.
+ */
+function writeSlotTopic(
+  day: CalendarDay,
+  platform: Platform,
+  nextMother: MotherTopicSerialized,
+  nextPlan: PlatformPlan
+): boolean {
+  const currentMother = day.motherTopics[platform];
+  const currentEntry = day.platforms[platform];
+  if (!currentMother || !currentEntry) {
+    day.motherTopics[platform] = nextMother;
+    day.platforms[platform] = planToEntry(nextPlan);
+    return true;
+  }
+
+  let changed = false;
+  if (
+    currentMother.assetType !== nextMother.assetType ||
+    currentMother.assetId !== nextMother.assetId ||
+    currentMother.takkenaiUrl !== nextMother.takkenaiUrl ||
+    currentMother.phase !== nextMother.phase ||
+    currentMother.phaseLabel !== nextMother.phaseLabel ||
+    currentMother.topicLabelOverride !== nextMother.topicLabelOverride ||
+    currentMother.urlSelectionMode !== nextMother.urlSelectionMode ||
+    currentMother.urlTier !== nextMother.urlTier ||
+    currentMother.secondaryAssetType !== nextMother.secondaryAssetType ||
+    currentMother.secondaryAssetId !== nextMother.secondaryAssetId
+  ) {
+    day.motherTopics[platform] = nextMother;
+    changed = true;
+  }
+
+  if (
+    currentEntry.angle !== nextPlan.angle ||
+    currentEntry.titleSuggestion !== nextPlan.titleSuggestion ||
+    currentEntry.takkenaiUrl !== nextPlan.takkenaiUrl ||
+    currentEntry.targetLength.min !== nextPlan.targetLength.min ||
+    currentEntry.targetLength.max !== nextPlan.targetLength.max
+  ) {
+    day.platforms[platform] = {
+      ...currentEntry,
+      angle: nextPlan.angle,
+      titleSuggestion: nextPlan.titleSuggestion,
+      targetLength: nextPlan.targetLength,
+      takkenaiUrl: nextPlan.takkenaiUrl,
+      version: getEntryVersion(currentEntry) + 1,
+    };
+    changed = true;
+  }
+  return changed;
+}
+
+function refreshPendingPlatformsInDay(day: CalendarDay, coolingDownPaths: Set<string>): boolean {
+  const platforms = getDayPlatforms(day);
+  const mutablePlatforms = platforms.filter((platform) => !isFixedSlot(day, platform));
   if (mutablePlatforms.length === 0) return false;
 
   const lockedKeys = new Set<string>();
   for (const platform of platforms) {
-    if (isLockedStatus(day.platforms[platform].status)) {
-      lockedKeys.add(getMotherTopicKey(day.motherTopics[platform]));
+    const mother = day.motherTopics[platform];
+    if (mother && isFixedSlot(day, platform)) {
+      lockedKeys.add(getMotherTopicKey(mother));
     }
   }
 
   for (let seedSalt = 0; seedSalt < 96; seedSalt++) {
-    const fresh = generateDayTopics(day.date, seedSalt);
-    const chosenMother = {} as Record<Platform, MotherTopicSerialized>;
-    const chosenPlan = {} as Record<Platform, PlatformPlan>;
+    const fresh = generateDayTopics(day.date, seedSalt, {
+      excludeUrlKeys: coolingDownPaths,
+      platforms,
+    });
+    const chosenMother: PlatformMap<MotherTopicSerialized> = {};
+    const chosenPlan: PlatformMap<PlatformPlan> = {};
     const usedKeys = new Set<string>(lockedKeys);
     let valid = true;
 
     for (const platform of mutablePlatforms) {
-      const candidate = serializeMotherTopic(fresh.motherTopics[platform]);
+      const candidate = serializeMotherTopic(fresh.motherTopics[platform] as MotherTopic);
       const candidateKey = getMotherTopicKey(candidate);
       if (usedKeys.has(candidateKey)) {
         valid = false;
@@ -223,41 +438,8 @@ function refreshPendingPlatformsInDay(day: CalendarDay): boolean {
 
     let changed = false;
     for (const platform of mutablePlatforms) {
-      const nextMother = chosenMother[platform];
-      const currentMother = day.motherTopics[platform];
-
-      if (
-        currentMother.assetType !== nextMother.assetType ||
-        currentMother.assetId !== nextMother.assetId ||
-        currentMother.takkenaiUrl !== nextMother.takkenaiUrl ||
-        currentMother.phase !== nextMother.phase ||
-        currentMother.phaseLabel !== nextMother.phaseLabel ||
-        currentMother.topicLabelOverride !== nextMother.topicLabelOverride ||
-        currentMother.urlSelectionMode !== nextMother.urlSelectionMode ||
-        currentMother.urlTier !== nextMother.urlTier ||
-        currentMother.secondaryAssetType !== nextMother.secondaryAssetType ||
-        currentMother.secondaryAssetId !== nextMother.secondaryAssetId
-      ) {
-        day.motherTopics[platform] = nextMother;
-        changed = true;
-      }
-
-      const currentEntry = day.platforms[platform];
-      const nextPlan = chosenPlan[platform];
-      if (
-        currentEntry.angle !== nextPlan.angle ||
-        currentEntry.titleSuggestion !== nextPlan.titleSuggestion ||
-        currentEntry.takkenaiUrl !== nextPlan.takkenaiUrl ||
-        currentEntry.targetLength.min !== nextPlan.targetLength.min ||
-        currentEntry.targetLength.max !== nextPlan.targetLength.max
-      ) {
-        day.platforms[platform] = {
-          ...currentEntry,
-          angle: nextPlan.angle,
-          titleSuggestion: nextPlan.titleSuggestion,
-          targetLength: nextPlan.targetLength,
-          takkenaiUrl: nextPlan.takkenaiUrl,
-        };
+      const mother = chosenMother[platform] as MotherTopicSerialized;
+      if (writeSlotTopic(day, platform, mother, chosenPlan[platform] as PlatformPlan)) {
         changed = true;
       }
     }
@@ -267,16 +449,179 @@ function refreshPendingPlatformsInDay(day: CalendarDay): boolean {
   return false;
 }
 
-function refreshPendingTopics(calendar: MonthCalendar): boolean {
+/**
+ * Brings each day's platform map in line with the platforms the site has
+ * enabled: missing ones get a pending entry (re-planned by
+ * refreshPendingTopics right after), disabled ones lose theirs unless the
+ * entry is generated, pinned or part of a campaign.
+ */
+function reconcileDayPlatforms(calendar: MonthCalendar, enabled: Platform[]): boolean {
   let changed = false;
   for (const day of calendar.days) {
-    if (refreshPendingPlatformsInDay(day)) {
+    for (const platform of getDayPlatforms(day)) {
+      if (enabled.includes(platform) || isFixedSlot(day, platform)) continue;
+      delete day.platforms[platform];
+      delete day.motherTopics[platform];
       changed = true;
     }
+    const missing = enabled.filter((platform) => !day.platforms[platform]);
+    if (missing.length === 0) continue;
+    const fresh = generateDayTopics(day.date, 0, { platforms: missing });
+    for (const platform of missing) {
+      writeSlotTopic(
+        day,
+        platform,
+        serializeMotherTopic(fresh.motherTopics[platform] as MotherTopic),
+        fresh.platforms[platform] as PlatformPlan
+      );
+    }
+    changed = true;
+  }
+  return changed;
+}
+
+// ---------------------------------------------------------------------------
+// Cross-day rotation
+// ---------------------------------------------------------------------------
+
+type CalendarLookup = (year: number, month: number) => MonthCalendar | undefined;
+
+/** Pages planned on `days`; `lockedOnly` keeps just locked or pinned ones. */
+function collectPathUsages(days: CalendarDay[], lockedOnly: boolean): TopicPathUsage[] {
+  const usages: TopicPathUsage[] = [];
+  for (const day of days) {
+    for (const platform of getDayPlatforms(day)) {
+      if (lockedOnly && !isFixedSlot(day, platform)) continue;
+      const mother = day.motherTopics[platform];
+      const path = mother ? canonicalizeTakkenaiPath(mother.takkenaiUrl) : "";
+      if (path) usages.push({ date: day.date, path });
+    }
   }
+  return usages;
+}
+
+/**
+ * Usages from the adjacent months that constrain this one: everything in the
+ * previous month, and only locked entries in the next (pending ones there are
+ * re-planned after this month anyway).
+ */
+function collectNeighborUsages(
+  lookup: CalendarLookup,
+  year: number,
+  month: number
+): TopicPathUsage[] {
+  const previous = month === 1 ? lookup(year - 1, 12) : lookup(year, month - 1);
+  const next = month === 12 ? lookup(year + 1, 1) : lookup(year, month + 1);
+  return [
+    ...collectPathUsages(previous?.days || [], false),
+    ...collectPathUsages(next?.days || [], true),
+  ];
+}
+
+/**
+ * Re-plans pending entries with the latest rules. Days are visited in order;
+ * each one avoids pages still cooling down from earlier days and from locked
+ * entries on later days, so a second pass finds nothing to change.
+ */
+function refreshPendingTopics(calendar: MonthCalendar, lookup: CalendarLookup): boolean {
+  const rotation = resolveSiteManifest().topicRotation;
+  const neighborUsages = collectNeighborUsages(lookup, calendar.year, calendar.month);
+  let changed = false;
+  calendar.days.forEach((day, index) => {
+    const usages = [
+      ...neighborUsages,
+      ...collectPathUsages(calendar.days.slice(0, index), false),
+      ...collectPathUsages(calendar.days.slice(index + 1), true),
+    ];
+    const coolingDown = collectCoolingDownPaths(usages, day.date, rotation);
+    if (refreshPendingPlatformsInDay(day, coolingDown)) {
+      changed = true;
+    }
+  });
   return changed;
 }
 
+// ---------------------------------------------------------------------------
+// Campaigns
+// ---------------------------------------------------------------------------
+
+/** Another fixed platform on the same day that already plans the page `key`. */
+function findSameDayClash(day: CalendarDay, platform: Platform, key: string): Platform | undefined {
+  return getDayPlatforms(day).find((other) => {
+    const mother = day.motherTopics[other];
+    return other !== platform && isFixedSlot(day, other) && Boolean(mother) &&
+      getMotherTopicKey(mother as MotherTopicSerialized) === key;
+  });
+}
+
+function isSameCampaignPart(a: CampaignPartRef | undefined, b: CampaignPartRef | undefined): boolean {
+  if (!a || !b) return a === b;
+  return a.campaignId === b.campaignId && a.name === b.name && a.part === b.part && a.total === b.total;
+}
+
+/**
+ * Puts every stored campaign part of the month on its slot and drops the
+ * campaign from pending entries it no longer plans. Entries that are already
+ * generated, pinned by an editor or would repeat a page on the same day are
+ * left alone.
+ */
+function applyCampaignSlots(calendar: MonthCalendar): boolean {
+  const slots = getCampaignSlotsForMonth(calendar.year, calendar.month);
+  let changed = false;
+  for (const day of calendar.days) {
+    for (const platform of getDayPlatforms(day)) {
+      if (isLockedStatus((day.platforms[platform] as PlatformEntry).status)) continue;
+      const slot = slots.get(`${day.date}:${platform}`);
+      let ref: CampaignPartRef | undefined;
+      let bumped = false;
+      const built = slot && !day.pins?.[platform]
+        ? buildPinnedTopic(day.date, platform, slot.target)
+        : null;
+      if (slot && built) {
+        const motherTopic = serializeMotherTopic(built.motherTopic);
+        if (!findSameDayClash(day, platform, getMotherTopicKey(motherTopic))) {
+          bumped = writeSlotTopic(day, platform, motherTopic, {
+            ...built.plan,
+            titleSuggestion:
+              slot.target.title ||
+              `【${slot.campaignName} 第${slot.part}回】${built.plan.titleSuggestion}`,
+          });
+          ref = {
+            campaignId: slot.campaignId,
+            name: slot.campaignName,
+            part: slot.part,
+            total: slot.total,
+          };
+        }
+      }
+
+      const entry = day.platforms[platform] as PlatformEntry;
+      if (!isSameCampaignPart(entry.campaign, ref)) {
+        const { campaign: _previous, ...rest } = entry;
+        day.platforms[platform] = {
+          ...rest,
+          ...(ref ? { campaign: ref } : {}),
+          version: getEntryVersion(entry) + (bumped ? 0 : 1),
+        };
+        bumped = true;
+      }
+      if (bumped) changed = true;
+    }
+  }
+  return changed;
+}
+
+/**
+ * Platforms first, then campaign parts, then everything else pending is
+ * re-planned around them.
+ */
+function syncPendingTopics(calendar: MonthCalendar, lookup: CalendarLookup): boolean {
+  const reconciled = reconcileDayPlatforms(calendar, getEnabledPlatforms());
+  const applied = applyCampaignSlots(calendar);
+  const refreshed = refreshPendingTopics(calendar, lookup);
+  return reconciled || applied || refreshed;
+}
+
 // ---------------------------------------------------------------------------
 // Calendar generation
 // ---------------------------------------------------------------------------
@@ -289,16 +634,13 @@ function refreshPendingTopics(calendar: MonthCalendar): boolean {
  */
 export function generateMonthCalendar(
   year: number,
-  month: number
+  month: number,
+  history: TopicPathUsage[] = []
 ): MonthCalendar {
   const daysInMonth = new Date(year, month, 0).getDate();
-  const days: CalendarDay[] = [];
-
-  for (let day = 1; day <= daysInMonth; day++) {
-    const dateStr = `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
-    const topics = generateDayTopics(dateStr);
-    days.push(dayTopicsToCalendarDay(topics));
-  }
+  const days = previewTopics(buildDateString(year, month, 1), daysInMonth, { history }).map(
+    dayTopicsToCalendarDay
+  );
 
   const now = new Date().toISOString();
   return {
@@ -315,49 +657,65 @@ export function generateMonthCalendar(
 // ---------------------------------------------------------------------------
 
 /**
- * Load the entire calendar store from disk.
- * Returns an empty store if the file does not exist.
+ * Resolves once no other process is writing the calendar store. Route
+ * handlers and pages await this before touching the calendar, so the
+ * synchronous transactions below only ever contend for the few
+ * milliseconds another writer needs instead of blocking the server thread.
  */
-export function loadCalendarStore(): CalendarStore {
-  try {
-    if (fs.existsSync(CALENDAR_FILE)) {
-      const raw = fs.readFileSync(CALENDAR_FILE, "utf-8");
-      return JSON.parse(raw) as CalendarStore;
-    }
-  } catch (err) {
-    console.error("Failed to load calendar store, starting fresh:", err);
-  }
-  return { calendars: [] };
+export function waitForCalendarStore(): Promise<void> {
+  return getCalendarStore().waitUntilIdle();
 }
 
 /**
- * Save the entire calendar store to disk.
+ * Load every month calendar from the configured store.
+ * Returns an empty snapshot if nothing has been saved yet.
  */
-export function saveCalendarStore(store: CalendarStore): void {
-  const dir = path.dirname(CALENDAR_FILE);
-  if (!fs.existsSync(dir)) {
-    fs.mkdirSync(dir, { recursive: true });
-  }
-  fs.writeFileSync(CALENDAR_FILE, JSON.stringify(store, null, 2), "utf-8");
+export function loadCalendarStore(): CalendarStoreSnapshot {
+  return { calendars: getCalendarStore().listCalendars() };
 }
 
 /**
- * Find a month calendar in the store.
+ * Save month calendars to the configured store in a single transaction.
  */
-function findMonthCalendar(
-  store: CalendarStore,
+export function saveCalendarStore(snapshot: CalendarStoreSnapshot): void {
+  getCalendarStore().transaction((tx) => {
+    for (const calendar of snapshot.calendars) {
+      tx.putCalendar(calendar);
+    }
+  });
+}
+
+function buildDateString(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+function getOrCreateCalendarInTransaction(
+  tx: CalendarStoreTransaction,
   year: number,
   month: number
-): MonthCalendar | undefined {
-  return store.calendars.find(
-    (cal) => cal.year === year && cal.month === month
-  );
+): MonthCalendar {
+  const existing = tx.getCalendar(year, month);
+  if (existing) {
+    if (syncPendingTopics(existing, (y, m) => tx.getCalendar(y, m))) {
+      existing.updatedAt = new Date().toISOString();
+      tx.putCalendar(existing);
+    }
+    return existing;
+  }
+
+  const lookup: CalendarLookup = (y, m) => tx.getCalendar(y, m);
+  const calendar = generateMonthCalendar(year, month, collectNeighborUsages(lookup, year, month));
+  if (applyCampaignSlots(calendar)) {
+    refreshPendingTopics(calendar, lookup);
+  }
+  tx.putCalendar(calendar);
+  return calendar;
 }
 
 /**
  * Get or create a month calendar.
- * - If a calendar for the given month exists on disk, return it.
- * - Otherwise generate a new one, save it to disk, and return it.
+ * - If a calendar for the given month exists in the store, return it.
+ * - Otherwise generate a new one, save it, and return it.
  *
  * @param year  - e.g. 2026
  * @param month - 1-12
@@ -366,72 +724,115 @@ export function getOrCreateCalendar(
   year: number,
   month: number
 ): MonthCalendar {
-  const store = loadCalendarStore();
-  const existing = findMonthCalendar(store, year, month);
-
-  if (existing) {
-    if (refreshPendingTopics(existing)) {
-      existing.updatedAt = new Date().toISOString();
-      saveCalendarStore(store);
-    }
+  const store = getCalendarStore();
+  // Fast path: unchanged calendars are served without taking the write lock.
+  const existing = store.getCalendar(year, month);
+  if (existing && !syncPendingTopics(existing, (y, m) => store.getCalendar(y, m))) {
     return existing;
   }
+  return store.transaction((tx) => getOrCreateCalendarInTransaction(tx, year, month));
+}
 
-  const calendar = generateMonthCalendar(year, month);
-  store.calendars.push(calendar);
-  saveCalendarStore(store);
-  return calendar;
+/** Assignment, review thread and status history outlive a replanned topic. */
+function pickEditorialFields(entry: PlatformEntry): Partial<PlatformEntry> {
+  const fields: Partial<PlatformEntry> = {};
+  if (entry.assignee) fields.assignee = entry.assignee;
+  if (entry.reviewer) fields.reviewer = entry.reviewer;
+  if (entry.reviewComments?.length) fields.reviewComments = entry.reviewComments;
+  if (entry.statusHistory?.length) fields.statusHistory = entry.statusHistory;
+  return fields;
 }
 
 /**
  * Force regenerate a month calendar, replacing any existing one.
- * Preserves any content that has already been generated or published.
+ * Preserves pinned topics, skipped entries and any content that has already
+ * been generated or published. Replanned entries keep their editorial fields.
  */
 export function regenerateCalendar(
   year: number,
   month: number,
   preserveGenerated: boolean = true
 ): MonthCalendar {
-  const store = loadCalendarStore();
-  const existing = findMonthCalendar(store, year, month);
-  const fresh = generateMonthCalendar(year, month);
-
-  if (preserveGenerated && existing) {
-    // Merge: keep generated/published content from old calendar
-    for (const freshDay of fresh.days) {
-      const oldDay = existing.days.find((d) => d.date === freshDay.date);
-      if (!oldDay) continue;
-
-      for (const platform of ["ameba", "note", "hatena"] as const) {
-        const oldEntry = oldDay.platforms[platform];
-        if (
-          oldEntry.status === "generated" ||
-          oldEntry.status === "reviewed" ||
-          oldEntry.status === "published"
-        ) {
-          freshDay.platforms[platform] = { ...oldEntry };
-          freshDay.motherTopics[platform] = { ...oldDay.motherTopics[platform] };
+  return getCalendarStore().transaction((tx) => {
+    const existing = tx.getCalendar(year, month);
+    const fresh = generateMonthCalendar(
+      year,
+      month,
+      collectNeighborUsages((y, m) => tx.getCalendar(y, m), year, month)
+    );
+
+    if (existing) {
+      for (const freshDay of fresh.days) {
+        const oldDay = existing.days.find((d) => d.date === freshDay.date);
+        if (!oldDay) continue;
+
+        if (oldDay.pins) freshDay.pins = { ...oldDay.pins };
+        const kept = new Set<Platform>();
+        for (const platform of listPlatforms([...getDayPlatforms(freshDay), ...getDayPlatforms(oldDay)])) {
+          const oldEntry = oldDay.platforms[platform];
+          const oldMother = oldDay.motherTopics[platform];
+          const freshEntry = freshDay.platforms[platform];
+          if (!oldEntry || !oldMother) continue;
+          if (
+            oldDay.pins?.[platform] ||
+            // Skipping is an editorial decision; only the workflow may reopen it.
+            oldEntry.status === "skipped" ||
+            (preserveGenerated &&
+              (oldEntry.status === "generated" ||
+                oldEntry.status === "reviewed" ||
+                oldEntry.status === "published"))
+          ) {
+            // Merge: keep pinned topics and generated/published content from old calendar
+            freshDay.platforms[platform] = { ...oldEntry };
+            freshDay.motherTopics[platform] = { ...oldMother };
+            kept.add(platform);
+          } else if (freshEntry) {
+            freshDay.platforms[platform] = {
+              ...freshEntry,
+              ...pickEditorialFields(oldEntry),
+              // Versions never move backwards so stale editors still get a conflict.
+              version: getEntryVersion(oldEntry) + 1,
+            };
+          }
         }
+        // Derivatives stay with the article they were written from.
+        const derivatives = (oldDay.derivatives || []).filter((derivative) =>
+          kept.has(derivative.sourcePlatform)
+        );
+        if (derivatives.length > 0) freshDay.derivatives = derivatives;
       }
     }
-  }
 
-  if (refreshPendingTopics(fresh)) {
-    fresh.updatedAt = new Date().toISOString();
-  }
+    if (syncPendingTopics(fresh, (y, m) => tx.getCalendar(y, m))) {
+      fresh.updatedAt = new Date().toISOString();
+    }
 
-  // Replace in store
-  const index = store.calendars.findIndex(
-    (cal) => cal.year === year && cal.month === month
-  );
-  if (index >= 0) {
-    store.calendars[index] = fresh;
-  } else {
-    store.calendars.push(fresh);
-  }
+    tx.putCalendar(fresh);
+    return fresh;
+  });
+}
 
-  saveCalendarStore(store);
-  return fresh;
+/**
+ * Re-plan the stored months between two dates (YYYY-MM-DD) after something
+ * they depend on changed, e.g. a campaign was saved or deleted. Months that
+ * were never opened are left for getOrCreateCalendar to generate later.
+ */
+export function syncStoredCalendars(fromDate: string, toDate: string): MonthCalendar[] {
+  const store = getCalendarStore();
+  const [fromYear, fromMonth] = fromDate.split("-").map(Number);
+  const [toYear, toMonth] = toDate.split("-").map(Number);
+  const synced: MonthCalendar[] = [];
+  for (let year = fromYear, month = fromMonth; year < toYear || (year === toYear && month <= toMonth); ) {
+    if (store.getCalendar(year, month)) {
+      synced.push(getOrCreateCalendar(year, month));
+    }
+    month++;
+    if (month > 12) {
+      month = 1;
+      year++;
+    }
+  }
+  return synced;
 }
 
 // ---------------------------------------------------------------------------
@@ -447,36 +848,73 @@ export function getCalendarDay(
   day: number
 ): CalendarDay | undefined {
   const calendar = getOrCreateCalendar(year, month);
-  const dateStr = `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+  const dateStr = buildDateString(year, month, day);
   return calendar.days.find((d) => d.date === dateStr);
 }
 
 /**
  * Update a specific platform entry for a given day.
  * Used after content generation to store the results.
+ *
+ * The read-modify-write runs inside a store transaction and bumps the entry
+ * version. When `expectedVersion` is given and the stored entry has moved on,
+ * a CalendarVersionConflictError is thrown and nothing is written.
  */
 export function updatePlatformEntry(
   year: number,
   month: number,
   day: number,
   platform: Platform,
-  updates: Partial<PlatformEntry>
+  updates: Partial<PlatformEntry>,
+  options: UpdatePlatformEntryOptions = {}
 ): CalendarDay | undefined {
-  const store = loadCalendarStore();
-  const calendar = findMonthCalendar(store, year, month);
-  if (!calendar) return undefined;
+  return updatePlatformEntryWith(year, month, day, platform, () => updates, options);
+}
 
-  const dateStr = `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
-  const calendarDay = calendar.days.find((d) => d.date === dateStr);
-  if (!calendarDay) return undefined;
+/**
+ * Like updatePlatformEntry, but the updates are derived from the stored
+ * entry inside the transaction (e.g. appending to a list). `buildUpdates`
+ * may throw to abort the write.
+ */
+export function updatePlatformEntryWith(
+  year: number,
+  month: number,
+  day: number,
+  platform: Platform,
+  buildUpdates: (entry: PlatformEntry) => Partial<PlatformEntry>,
+  options: UpdatePlatformEntryOptions = {}
+): CalendarDay | undefined {
+  return getCalendarStore().transaction((tx) => {
+    const calendar = tx.getCalendar(year, month);
+    if (!calendar) return undefined;
+
+    const dateStr = buildDateString(year, month, day);
+    const calendarDay = calendar.days.find((d) => d.date === dateStr);
+    if (!calendarDay) return undefined;
 
-  const entry = calendarDay.platforms[platform];
-  Object.assign(entry, updates);
+    const entry = calendarDay.platforms[platform];
+    if (!entry) return undefined;
+    const currentVersion = getEntryVersion(entry);
+    if (
+      typeof options.expectedVersion === "number" &&
+      options.expectedVersion !== currentVersion
+    ) {
+      throw createVersionConflictError({
+        date: dateStr,
+        platform,
+        expectedVersion: options.expectedVersion,
+        currentVersion,
+      });
+    }
+
+    const { version: _ignoredVersion, ...rest } = buildUpdates(entry);
+    Object.assign(entry, rest, { version: currentVersion + 1 });
 
-  calendar.updatedAt = new Date().toISOString();
-  saveCalendarStore(store);
+    calendar.updatedAt = new Date().toISOString();
+    tx.putCalendar(calendar);
 
-  return calendarDay;
+    return calendarDay;
+  });
 }
 
 /**
@@ -507,6 +945,285 @@ export function markPublished(
   });
 }
 
+/**
+ * Replace the SNS derivatives of one slot's article inside a store
+ * transaction; `buildDerivatives` receives the slot's current derivatives
+ * and may throw to abort the write. Returns undefined when the day or the
+ * slot does not exist.
+ */
+export function updateSnsDerivativesWith(
+  slot: CalendarSlot,
+  buildDerivatives: (current: SnsDerivative[], entry: PlatformEntry) => SnsDerivative[]
+): CalendarDay | undefined {
+  const match = slot.date.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return undefined;
+  return getCalendarStore().transaction((tx) => {
+    const calendar = tx.getCalendar(parseInt(match[1], 10), parseInt(match[2], 10));
+    const day = calendar?.days.find((d) => d.date === slot.date);
+    const entry = day?.platforms[slot.platform];
+    if (!calendar || !day || !entry) return undefined;
+
+    const others = (day.derivatives || []).filter(
+      (derivative) => derivative.sourcePlatform !== slot.platform
+    );
+    const current = (day.derivatives || []).filter(
+      (derivative) => derivative.sourcePlatform === slot.platform
+    );
+    const derivatives = [...others, ...buildDerivatives(current, entry)];
+    if (derivatives.length > 0) {
+      day.derivatives = derivatives;
+    } else {
+      delete day.derivatives;
+    }
+
+    calendar.updatedAt = new Date().toISOString();
+    tx.putCalendar(calendar);
+    return day;
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Manual scheduling (pins, swaps, drag-and-drop moves)
+// ---------------------------------------------------------------------------
+
+export interface ScheduleOptions {
+  /** Editor making the change, recorded on the pin */
+  actor?: string;
+}
+
+/**
+ * Calendars touched by one scheduling operation. Store reads may return a
+ * fresh copy every time, so each month is loaded once and written back once.
+ */
+function createScheduleSession(tx: CalendarStoreTransaction) {
+  const calendars = new Map<string, MonthCalendar>();
+  const lookup: CalendarLookup = (year, month) =>
+    calendars.get(`${year}-${month}`) || tx.getCalendar(year, month);
+
+  return {
+    lookup,
+    getDay(date: string): { calendar: MonthCalendar; day: CalendarDay } {
+      const match = date.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+      if (!match) throw createScheduleError(`不正な日付形式です: ${date}`);
+      const year = parseInt(match[1], 10);
+      const month = parseInt(match[2], 10);
+      const key = `${year}-${month}`;
+      let calendar = calendars.get(key);
+      if (!calendar) {
+        calendar = getOrCreateCalendarInTransaction(tx, year, month);
+        calendars.set(key, calendar);
+      }
+      const day = calendar.days.find((d) => d.date === date);
+      if (!day) throw createScheduleError(`${date} はカレンダーにありません`);
+      return { calendar, day };
+    },
+    /** Re-plans unpinned pending entries around the change, then saves. */
+    commit(): void {
+      const nowIso = new Date().toISOString();
+      calendars.forEach((calendar) => {
+        syncPendingTopics(calendar, lookup);
+        calendar.updatedAt = nowIso;
+        tx.putCalendar(calendar);
+      });
+    },
+  };
+}
+
+function assertPendingSlot(day: CalendarDay, platform: Platform): void {
+  const entry = day.platforms[platform];
+  if (!entry) {
+    throw createScheduleError(`${day.date} は${getPlatformLabel(platform)}の配信日ではありません`);
+  }
+  if (entry.status !== "pending") {
+    throw createScheduleError(
+      `${day.date} ${getPlatformLabel(platform)} は未生成ではないためトピックを変更できません（現在: ${entry.status}）`
+    );
+  }
+  if (entry.campaign) {
+    throw createScheduleError(
+      `${day.date} ${getPlatformLabel(platform)} はキャンペーン「${entry.campaign.name}」の第${entry.campaign.part}回です。キャンペーン設定から変更してください`
+    );
+  }
+}
+
+/** Pin target that reproduces a stored topic on another slot. */
+function toPinTarget(topic: MotherTopicSerialized): TopicPinTarget {
+  if (topic.urlSelectionMode === "url-direct") {
+    return { takkenaiUrl: topic.takkenaiUrl };
+  }
+  return {
+    assetType: topic.assetType as TopicPinTarget["assetType"],
+    assetId: topic.assetId,
+    takkenaiUrl: topic.takkenaiUrl,
+  };
+}
+
+function placePinnedTopic(
+  day: CalendarDay,
+  platform: Platform,
+  target: TopicPinTarget,
+  pin: TopicPin
+): void {
+  const built = buildPinnedTopic(day.date, platform, target);
+  if (!built) {
+    throw createScheduleError("指定されたアセットまたは takkenai.jp のURLが見つかりません");
+  }
+  const motherTopic = serializeMotherTopic(built.motherTopic);
+  const clash = findSameDayClash(day, platform, getMotherTopicKey(motherTopic));
+  if (clash) {
+    throw createScheduleError(
+      `${day.date} の${getPlatformLabel(clash)}で同じページが既に予定されています`
+    );
+  }
+
+  const entry = day.platforms[platform] as PlatformEntry;
+  day.motherTopics[platform] = motherTopic;
+  day.platforms[platform] = {
+    ...entry,
+    angle: built.plan.angle,
+    titleSuggestion: built.plan.titleSuggestion,
+    targetLength: built.plan.targetLength,
+    takkenaiUrl: built.plan.takkenaiUrl,
+    version: getEntryVersion(entry) + 1,
+  };
+  day.pins = { ...day.pins, [platform]: pin };
+}
+
+function buildPin(source: TopicPin["source"], options: ScheduleOptions): TopicPin {
+  const pinnedBy = (options.actor || "").trim();
+  return {
+    source,
+    pinnedAt: new Date().toISOString(),
+    ...(pinnedBy ? { pinnedBy } : {}),
+  };
+}
+
+/** Exchanges the topics of two pending slots and pins both. */
+function exchangeSlots(
+  session: ReturnType<typeof createScheduleSession>,
+  a: CalendarSlot,
+  b: CalendarSlot,
+  pin: TopicPin
+): void {
+  const first = session.getDay(a.date).day;
+  const second = session.getDay(b.date).day;
+  assertPendingSlot(first, a.platform);
+  assertPendingSlot(second, b.platform);
+  const firstTarget = toPinTarget(first.motherTopics[a.platform] as MotherTopicSerialized);
+  const secondTarget = toPinTarget(second.motherTopics[b.platform] as MotherTopicSerialized);
+  placePinnedTopic(first, a.platform, secondTarget, pin);
+  placePinnedTopic(second, b.platform, firstTarget, pin);
+}
+
+/**
+ * Pin an asset or takkenai.jp URL to a pending slot. The topic is kept by
+ * refreshPendingTopics and regenerateCalendar until it is unpinned, and the
+ * surrounding pending entries are re-planned around it (rotation cooldown).
+ */
+export function pinTopic(
+  slot: CalendarSlot,
+  target: TopicPinTarget,
+  options: ScheduleOptions = {}
+): CalendarDay {
+  return getCalendarStore().transaction((tx) => {
+    const session = createScheduleSession(tx);
+    const { day } = session.getDay(slot.date);
+    assertPendingSlot(day, slot.platform);
+    placePinnedTopic(day, slot.platform, target, buildPin("pin", options));
+    session.commit();
+    return day;
+  });
+}
+
+/** Release a pin; the slot is re-planned by the topic engine right away. */
+export function unpinTopic(slot: CalendarSlot): CalendarDay {
+  return getCalendarStore().transaction((tx) => {
+    const session = createScheduleSession(tx);
+    const { day } = session.getDay(slot.date);
+    if (!day.pins?.[slot.platform]) {
+      throw createScheduleError(
+        `${slot.date} ${getPlatformLabel(slot.platform)} は固定されていません`
+      );
+    }
+    const { [slot.platform]: _released, ...rest } = day.pins;
+    if (Object.keys(rest).length > 0) {
+      day.pins = rest;
+    } else {
+      delete day.pins;
+    }
+    session.commit();
+    return day;
+  });
+}
+
+/**
+ * Swap two days' topics platform by platform. Platforms where either side is
+ * no longer pending or carries a campaign part are left as they are and
+ * reported in `kept`.
+ */
+export function swapCalendarDays(
+  dateA: string,
+  dateB: string,
+  options: ScheduleOptions = {}
+): { days: CalendarDay[]; swapped: Platform[]; kept: Platform[] } {
+  if (dateA === dateB) {
+    throw createScheduleError("入れ替える日付が同じです");
+  }
+  return getCalendarStore().transaction((tx) => {
+    const session = createScheduleSession(tx);
+    const first = session.getDay(dateA).day;
+    const second = session.getDay(dateB).day;
+    const pin = buildPin("swap", options);
+    const swapped: Platform[] = [];
+    const kept: Platform[] = [];
+    for (const platform of listPlatforms([...getDayPlatforms(first), ...getDayPlatforms(second)])) {
+      const firstEntry = first.platforms[platform];
+      const secondEntry = second.platforms[platform];
+      if (
+        !firstEntry ||
+        !secondEntry ||
+        firstEntry.status !== "pending" ||
+        secondEntry.status !== "pending" ||
+        firstEntry.campaign ||
+        secondEntry.campaign
+      ) {
+        kept.push(platform);
+        continue;
+      }
+      exchangeSlots(session, { date: dateA, platform }, { date: dateB, platform }, pin);
+      swapped.push(platform);
+    }
+    if (swapped.length === 0) {
+      throw createScheduleError("入れ替えられる未生成のエントリーがありません");
+    }
+    session.commit();
+    return { days: [first, second], swapped, kept };
+  });
+}
+
+/**
+ * Drag-and-drop: move a pending entry's topic onto another pending slot
+ * (same platform unless `to.platform` says otherwise). The displaced topic
+ * takes the dragged one's place, so nothing planned is lost.
+ */
+export function moveCalendarEntry(
+  from: CalendarSlot,
+  to: CalendarSlot,
+  options: ScheduleOptions = {}
+): CalendarDay[] {
+  if (from.date === to.date && from.platform === to.platform) {
+    throw createScheduleError("移動先が移動元と同じです");
+  }
+  return getCalendarStore().transaction((tx) => {
+    const session = createScheduleSession(tx);
+    exchangeSlots(session, from, to, buildPin("move", options));
+    session.commit();
+    const days = [session.getDay(from.date).day];
+    if (to.date !== from.date) days.push(session.getDay(to.date).day);
+    return days;
+  });
+}
+
 // ---------------------------------------------------------------------------
 // Analytics helpers
 // ---------------------------------------------------------------------------
@@ -516,28 +1233,27 @@ export function markPublished(
  */
 export function getMonthStats(year: number, month: number) {
   const calendar = getOrCreateCalendar(year, month);
+  const emptyCounts = (): Record<ContentStatus, number> => ({
+    pending: 0,
+    generated: 0,
+    reviewed: 0,
+    published: 0,
+    skipped: 0,
+  });
   const stats = {
     totalDays: calendar.days.length,
-    totalPieces: calendar.days.length * 3,
-    byStatus: {
-      pending: 0,
-      generated: 0,
-      reviewed: 0,
-      published: 0,
-      skipped: 0,
-    },
-    byPlatform: {
-      ameba: { pending: 0, generated: 0, reviewed: 0, published: 0, skipped: 0 },
-      note: { pending: 0, generated: 0, reviewed: 0, published: 0, skipped: 0 },
-      hatena: { pending: 0, generated: 0, reviewed: 0, published: 0, skipped: 0 },
-    },
+    totalPieces: 0,
+    byStatus: emptyCounts(),
+    byPlatform: {} as PlatformMap<Record<ContentStatus, number>>,
   };
 
   for (const day of calendar.days) {
-    for (const platform of ["ameba", "note", "hatena"] as const) {
-      const status = day.platforms[platform].status;
+    for (const platform of getDayPlatforms(day)) {
+      const status = (day.platforms[platform] as PlatformEntry).status;
+      const platformCounts = stats.byPlatform[platform] || (stats.byPlatform[platform] = emptyCounts());
+      stats.totalPieces++;
       stats.byStatus[status]++;
-      stats.byPlatform[platform][status]++;
+      platformCounts[status]++;
     }
   }
 
@@ -556,12 +1272,8 @@ export function getPendingDays(
 
   return calendar.days.filter((day) => {
     if (platform) {
-      return day.platforms[platform].status === "pending";
+      return day.platforms[platform]?.status === "pending";
     }
-    return (
-      day.platforms.ameba.status === "pending" ||
-      day.platforms.note.status === "pending" ||
-      day.platforms.hatena.status === "pending"
-    );
+    return getDayPlatforms(day).some((p) => day.platforms[p]?.status === "pending");
   });
 }
@@ -0,0 +1,181 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { createRequire } from "module";
+
+import {
+  clearCalendarStoreCache,
+  createJsonCalendarStore,
+  createSqliteCalendarStore,
+  importCalendarSnapshot,
+} from "./calendar-store";
+import {
+  getOrCreateCalendar,
+  isCalendarVersionConflictError,
+  updatePlatformEntry,
+  type MonthCalendar,
+} from "./calendar-engine";
+
+function hasNodeSqlite(): boolean {
+  try {
+    createRequire(__filename)("node:sqlite");
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function makeCalendar(year: number, month: number, marker: string): MonthCalendar {
+  return {
+    year,
+    month,
+    generatedAt: marker,
+    updatedAt: marker,
+    days: [],
+  };
+}
+
+test("json calendar store commits transactions atomically and releases the lock", () => {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "calendar-store-"));
+  const filePath = path.join(tmpDir, "calendar.json");
+  try {
+    const store = createJsonCalendarStore(filePath);
+    store.transaction((tx) => tx.putCalendar(makeCalendar(2026, 3, "first")));
+    store.transaction((tx) => tx.putCalendar(makeCalendar(2026, 4, "second")));
+
+    assert.equal(store.listCalendars().length, 2);
+    assert.equal(store.getCalendar(2026, 3)?.generatedAt, "first");
+    assert.equal(fs.existsSync(`${filePath}.lock`), false);
+    assert.deepEqual(
+      fs.readdirSync(tmpDir).filter((name) => name.endsWith(".tmp")),
+      []
+    );
+
+    assert.throws(() =>
+      store.transaction((tx) => {
+        tx.putCalendar(makeCalendar(2026, 5, "rolled-back"));
+        throw new Error("boom");
+      })
+    );
+    assert.equal(store.getCalendar(2026, 5), undefined);
+    assert.equal(fs.existsSync(`${filePath}.lock`), false);
+  } finally {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  }
+});
+
+test("importCalendarSnapshot keeps existing months unless overwrite is set", () => {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "calendar-store-"));
+  try {
+    const store = createJsonCalendarStore(path.join(tmpDir, "calendar.json"));
+    store.transaction((tx) => tx.putCalendar(makeCalendar(2026, 3, "existing")));
+
+    const snapshot = {
+      calendars: [makeCalendar(2026, 3, "legacy"), makeCalendar(2026, 2, "legacy")],
+    };
+    const first = importCalendarSnapshot(store, snapshot);
+    assert.equal(first.imported, 1);
+    assert.equal(first.skipped, 1);
+    assert.deepEqual(first.months, ["2026-02"]);
+    assert.equal(store.getCalendar(2026, 3)?.generatedAt, "existing");
+
+    const second = importCalendarSnapshot(store, snapshot, { overwrite: true });
+    assert.equal(second.imported, 2);
+    assert.equal(store.getCalendar(2026, 3)?.generatedAt, "legacy");
+  } finally {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  }
+});
+
+// The SQLite backend needs node:sqlite (Node.js 22.5+). CI runs this file on
+// Node 22 with REQUIRE_NODE_SQLITE=1 so the test cannot silently skip there.
+const sqliteSkip =
+  hasNodeSqlite() || process.env.REQUIRE_NODE_SQLITE === "1"
+    ? false
+    : "node:sqlite is unavailable in this Node.js version";
+
+test(
+  "sqlite calendar store persists months and rolls back failed transactions",
+  { skip: sqliteSkip },
+  () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "calendar-store-"));
+    try {
+      const filePath = path.join(tmpDir, "calendar.sqlite");
+      const store = createSqliteCalendarStore(filePath);
+      store.transaction((tx) => tx.putCalendar(makeCalendar(2026, 3, "first")));
+      assert.throws(() =>
+        store.transaction((tx) => {
+          tx.putCalendar(makeCalendar(2026, 3, "rolled-back"));
+          throw new Error("boom");
+        })
+      );
+
+      const reopened = createSqliteCalendarStore(filePath);
+      assert.equal(reopened.getCalendar(2026, 3)?.generatedAt, "first");
+      assert.equal(reopened.listCalendars().length, 1);
+    } finally {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+  }
+);
+
+test("updatePlatformEntry rejects stale expectedVersion without writing", () => {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "calendar-store-"));
+  const prevBackend = process.env.CALENDAR_STORE_BACKEND;
+  const prevFile = process.env.CALENDAR_STORE_FILE;
+  process.env.CALENDAR_STORE_BACKEND = "json";
+  process.env.CALENDAR_STORE_FILE = path.join(tmpDir, "calendar.json");
+  clearCalendarStoreCache();
+
+  try {
+    const calendar = getOrCreateCalendar(2026, 3);
+    const startVersion = calendar.days[0].platforms.ameba!.version ?? 0;
+
+    const updated = updatePlatformEntry(
+      2026,
+      3,
+      1,
+      "ameba",
+      { generatedTitle: "タブA" },
+      { expectedVersion: startVersion }
+    );
+    assert.equal(updated?.platforms.ameba!.version, startVersion + 1);
+
+    // A parallel write to another platform of the same day must survive.
+    updatePlatformEntry(2026, 3, 1, "note", { generatedTitle: "note側" });
+
+    assert.throws(
+      () =>
+        updatePlatformEntry(
+          2026,
+          3,
+          1,
+          "ameba",
+          { generatedTitle: "タブB" },
+          { expectedVersion: startVersion }
+        ),
+      (error: unknown) =>
+        isCalendarVersionConflictError(error) &&
+        error.currentVersion === startVersion + 1
+    );
+
+    const reloaded = getOrCreateCalendar(2026, 3).days[0];
+    assert.equal(reloaded.platforms.ameba!.generatedTitle, "タブA");
+    assert.equal(reloaded.platforms.note!.generatedTitle, "note側");
+  } finally {
+    if (prevBackend === undefined) {
+      delete process.env.CALENDAR_STORE_BACKEND;
+    } else {
+      process.env.CALENDAR_STORE_BACKEND = prevBackend;
+    }
+    if (prevFile === undefined) {
+      delete process.env.CALENDAR_STORE_FILE;
+    } else {
+      process.env.CALENDAR_STORE_FILE = prevFile;
+    }
+    clearCalendarStoreCache();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  }
+});
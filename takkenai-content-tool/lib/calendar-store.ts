@@ -0,0 +1,332 @@
+import fs from "fs";
+import { createRequire } from "module";
+import path from "path";
+import type { MonthCalendar } from "./calendar-engine";
+import { LOCK_WAIT_TIMEOUT_MS, waitForFileLock, withFileLockSync } from "./file-lock";
+import { writeJsonAtomic } from "./json-file";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type CalendarStoreKind = "json" | "sqlite";
+
+/**
+ * Read/write view of the store inside a transaction.
+ * Reads always see the latest committed state plus this transaction's writes.
+ */
+export interface CalendarStoreTransaction {
+  getCalendar(year: number, month: number): MonthCalendar | undefined;
+  putCalendar(calendar: MonthCalendar): void;
+}
+
+/**
+ * Pluggable calendar persistence backend.
+ * Implementations must serialize `transaction` across processes so that
+ * read-modify-write cycles from concurrent requests never interleave.
+ */
+export interface CalendarStore {
+  readonly kind: CalendarStoreKind;
+  readonly location: string;
+  listCalendars(): MonthCalendar[];
+  getCalendar(year: number, month: number): MonthCalendar | undefined;
+  transaction<T>(fn: (tx: CalendarStoreTransaction) => T): T;
+  /**
+   * Resolves once no other process is writing. Request handlers await this
+   * so a busy store is waited out without blocking the server thread.
+   */
+  waitUntilIdle(): Promise<void>;
+}
+
+export interface CalendarStoreSnapshot {
+  calendars: MonthCalendar[];
+}
+
+const DEFAULT_JSON_FILE = path.join(process.cwd(), "data", "calendar.json");
+const DEFAULT_SQLITE_FILE = path.join(process.cwd(), "data", "calendar.sqlite");
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function resolveFilePath(raw: string | undefined, fallback: string): string {
+  const fromEnv = (raw || "").trim();
+  if (!fromEnv) return fallback;
+  return path.isAbsolute(fromEnv) ? fromEnv : path.join(process.cwd(), fromEnv);
+}
+
+function cloneCalendar(calendar: MonthCalendar): MonthCalendar {
+  return JSON.parse(JSON.stringify(calendar)) as MonthCalendar;
+}
+
+function monthKey(year: number, month: number): string {
+  return `${year}-${String(month).padStart(2, "0")}`;
+}
+
+function sortCalendars(calendars: MonthCalendar[]): MonthCalendar[] {
+  return [...calendars].sort((a, b) =>
+    a.year === b.year ? a.month - b.month : a.year - b.year
+  );
+}
+
+export function resolveCalendarStoreKind(raw?: string): CalendarStoreKind {
+  const normalized = String(raw ?? process.env.CALENDAR_STORE_BACKEND ?? "")
+    .trim()
+    .toLowerCase();
+  return normalized === "sqlite" ? "sqlite" : "json";
+}
+
+// ---------------------------------------------------------------------------
+// JSON file backend (lock file + atomic rename)
+// ---------------------------------------------------------------------------
+
+function readJsonSnapshot(filePath: string): CalendarStoreSnapshot {
+  if (!fs.existsSync(filePath)) return { calendars: [] };
+  const raw = fs.readFileSync(filePath, "utf-8");
+  if (!raw.trim()) return { calendars: [] };
+  const parsed = JSON.parse(raw) as Partial<CalendarStoreSnapshot>;
+  return {
+    calendars: Array.isArray(parsed?.calendars) ? parsed.calendars : [],
+  };
+}
+
+export function createJsonCalendarStore(filePath: string = DEFAULT_JSON_FILE): CalendarStore {
+  const lockPath = `${filePath}.lock`;
+
+  const listCalendars = (): MonthCalendar[] => {
+    try {
+      return readJsonSnapshot(filePath).calendars;
+    } catch (err) {
+      console.error("Failed to load calendar store, starting fresh:", err);
+      return [];
+    }
+  };
+
+  return {
+    kind: "json",
+    location: filePath,
+    listCalendars,
+    getCalendar(year, month) {
+      return listCalendars().find((cal) => cal.year === year && cal.month === month);
+    },
+    waitUntilIdle() {
+      return waitForFileLock(lockPath);
+    },
+    transaction(fn) {
+      return withFileLockSync(lockPath, () => {
+        // Unlike plain reads, a broken file must abort the write instead of being overwritten.
+        const snapshot = readJsonSnapshot(filePath);
+        let dirty = false;
+        const result = fn({
+          getCalendar(year, month) {
+            return snapshot.calendars.find(
+              (cal) => cal.year === year && cal.month === month
+            );
+          },
+          putCalendar(calendar) {
+            const index = snapshot.calendars.findIndex(
+              (cal) => cal.year === calendar.year && cal.month === calendar.month
+            );
+            if (index >= 0) {
+              snapshot.calendars[index] = calendar;
+            } else {
+              snapshot.calendars.push(calendar);
+            }
+            dirty = true;
+          },
+        });
+        if (dirty) {
+          writeJsonAtomic(filePath, snapshot);
+        }
+        return result;
+      });
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Embedded SQLite backend (node:sqlite)
+// ---------------------------------------------------------------------------
+
+type SqliteStatement = {
+  get(...params: unknown[]): unknown;
+  all(...params: unknown[]): unknown[];
+  run(...params: unknown[]): unknown;
+};
+
+type SqliteDatabase = {
+  exec(sql: string): void;
+  prepare(sql: string): SqliteStatement;
+};
+
+function openSqliteDatabase(filePath: string): SqliteDatabase {
+  let sqlite: { DatabaseSync: new (location: string) => SqliteDatabase };
+  try {
+    // Resolved at runtime so bundlers do not try to follow the builtin.
+    const runtimeRequire = createRequire(path.join(process.cwd(), "package.json"));
+    sqlite = runtimeRequire("node:sqlite");
+  } catch {
+    throw new Error(
+      "SQLite バックエンドには node:sqlite が必要です（Node.js 22.5 以降）。CALENDAR_STORE_BACKEND=json を使用してください。"
+    );
+  }
+  const dir = path.dirname(filePath);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+  const db = new sqlite.DatabaseSync(filePath);
+  db.exec(`
+    PRAGMA journal_mode = WAL;
+    PRAGMA busy_timeout = ${LOCK_WAIT_TIMEOUT_MS};
+    CREATE TABLE IF NOT EXISTS month_calendars (
+      month_key TEXT PRIMARY KEY,
+      year INTEGER NOT NULL,
+      month INTEGER NOT NULL,
+      updated_at TEXT NOT NULL,
+      payload TEXT NOT NULL
+    );
+  `);
+  return db;
+}
+
+export function createSqliteCalendarStore(filePath: string = DEFAULT_SQLITE_FILE): CalendarStore {
+  const db = openSqliteDatabase(filePath);
+  const selectOne = db.prepare("SELECT payload FROM month_calendars WHERE month_key = ?");
+  const selectAll = db.prepare("SELECT payload FROM month_calendars ORDER BY year, month");
+  const upsert = db.prepare(`
+    INSERT INTO month_calendars (month_key, year, month, updated_at, payload)
+    VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT(month_key) DO UPDATE SET
+      updated_at = excluded.updated_at,
+      payload = excluded.payload
+  `);
+
+  const getCalendar = (year: number, month: number): MonthCalendar | undefined => {
+    const row = selectOne.get(monthKey(year, month)) as { payload?: string } | undefined;
+    return row?.payload ? (JSON.parse(row.payload) as MonthCalendar) : undefined;
+  };
+
+  return {
+    kind: "sqlite",
+    location: filePath,
+    listCalendars() {
+      return (selectAll.all() as Array<{ payload: string }>).map(
+        (row) => JSON.parse(row.payload) as MonthCalendar
+      );
+    },
+    getCalendar,
+    waitUntilIdle() {
+      // node:sqlite has no async API; writers queue on busy_timeout inside BEGIN IMMEDIATE.
+      return Promise.resolve();
+    },
+    transaction(fn) {
+      // IMMEDIATE takes the write lock up-front so concurrent writers queue on busy_timeout.
+      db.exec("BEGIN IMMEDIATE");
+      try {
+        const result = fn({
+          getCalendar,
+          putCalendar(calendar) {
+            upsert.run(
+              monthKey(calendar.year, calendar.month),
+              calendar.year,
+              calendar.month,
+              calendar.updatedAt,
+              JSON.stringify(calendar)
+            );
+          },
+        });
+        db.exec("COMMIT");
+        return result;
+      } catch (error) {
+        db.exec("ROLLBACK");
+        throw error;
+      }
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Store resolution
+// ---------------------------------------------------------------------------
+
+let cachedStore: { key: string; store: CalendarStore } | null = null;
+
+export function resolveCalendarStoreLocation(kind: CalendarStoreKind): string {
+  return kind === "sqlite"
+    ? resolveFilePath(process.env.CALENDAR_SQLITE_FILE, DEFAULT_SQLITE_FILE)
+    : resolveFilePath(process.env.CALENDAR_STORE_FILE, DEFAULT_JSON_FILE);
+}
+
+export function createCalendarStore(
+  kind: CalendarStoreKind,
+  location: string = resolveCalendarStoreLocation(kind)
+): CalendarStore {
+  return kind === "sqlite"
+    ? createSqliteCalendarStore(location)
+    : createJsonCalendarStore(location);
+}
+
+/**
+ * Return the configured calendar store.
+ * Backend is selected by CALENDAR_STORE_BACKEND (json | sqlite, default json).
+ */
+export function getCalendarStore(): CalendarStore {
+  const kind = resolveCalendarStoreKind();
+  const location = resolveCalendarStoreLocation(kind);
+  const key = `${kind}:${location}`;
+  if (cachedStore?.key === key) return cachedStore.store;
+  const store = createCalendarStore(kind, location);
+  cachedStore = { key, store };
+  return store;
+}
+
+export function clearCalendarStoreCache(): void {
+  cachedStore = null;
+}
+
+// ---------------------------------------------------------------------------
+// Migration
+// ---------------------------------------------------------------------------
+
+export interface CalendarImportResult {
+  imported: number;
+  skipped: number;
+  months: string[];
+}
+
+/**
+ * Import month calendars (e.g. from a legacy calendar.json) into a store.
+ * Existing months are kept unless `overwrite` is set.
+ */
+export function importCalendarSnapshot(
+  store: CalendarStore,
+  snapshot: CalendarStoreSnapshot,
+  options: { overwrite?: boolean } = {}
+): CalendarImportResult {
+  const result: CalendarImportResult = { imported: 0, skipped: 0, months: [] };
+  const calendars = sortCalendars(
+    Array.isArray(snapshot?.calendars) ? snapshot.calendars : []
+  );
+
+  store.transaction((tx) => {
+    for (const calendar of calendars) {
+      if (!calendar || !Number.isFinite(calendar.year) || !Number.isFinite(calendar.month)) {
+        result.skipped++;
+        continue;
+      }
+      if (!options.overwrite && tx.getCalendar(calendar.year, calendar.month)) {
+        result.skipped++;
+        continue;
+      }
+      tx.putCalendar(cloneCalendar(calendar));
+      result.imported++;
+      result.months.push(monthKey(calendar.year, calendar.month));
+    }
+  });
+
+  return result;
+}
+
+export function readLegacyCalendarFile(filePath: string = DEFAULT_JSON_FILE): CalendarStoreSnapshot {
+  return readJsonSnapshot(filePath);
+}
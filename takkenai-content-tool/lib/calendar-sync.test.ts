@@ -0,0 +1,115 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { getOrCreateCalendar, updatePlatformEntry } from "./calendar-engine";
+import { withTempCalendar } from "./calendar-test-helpers";
+import {
+  buildCalendarExportRows,
+  importCalendarCsv,
+  parseCsv,
+  renderCalendarCsv,
+  renderCalendarIcs,
+} from "./calendar-sync";
+
+test("export writes one ICS event and one CSV row per platform entry", () => {
+  withTempCalendar(() => {
+    const calendar = getOrCreateCalendar(2026, 3);
+    updatePlatformEntry(2026, 3, 1, "note", {
+      titleSuggestion: "宅建の「権利関係」, 重要論点まとめ",
+      status: "published",
+      publishedUrl: "https://note.com/takken_ai/n/n1234abcd",
+    });
+    const rows = buildCalendarExportRows([getOrCreateCalendar(2026, 3)]);
+    assert.equal(rows.length, calendar.days.length * 3);
+    assert.deepEqual(
+      rows.slice(0, 3).map((row) => `${row.date}:${row.platform}`),
+      ["2026-03-01:ameba", "2026-03-01:note", "2026-03-01:hatena"]
+    );
+
+    const ics = renderCalendarIcs(rows, { now: new Date("2026-02-20T00:00:00Z") });
+    assert.equal(ics.match(/BEGIN:VEVENT/g)?.length, rows.length);
+    assert.match(ics, /UID:2026-03-01-note@takkenai-content-tool/);
+    assert.match(ics, /DTSTART;VALUE=DATE:20260301\r\nDTEND;VALUE=DATE:20260302/);
+    assert.match(ics, /SUMMARY:\[note\] 宅建の「権利関係」\\, 重要論点まとめ/);
+    assert.ok(
+      ics.split("\r\n").every((line) => new TextEncoder().encode(line).length <= 75),
+      "content lines are folded at 75 octets"
+    );
+
+    const csv = renderCalendarCsv(rows);
+    const [header, , note] = parseCsv(csv);
+    assert.deepEqual(header.slice(0, 3), ["date", "platform", "status"]);
+    assert.equal(note[3], "宅建の「権利関係」, 重要論点まとめ");
+    assert.equal(note[6], "https://note.com/takken_ai/n/n1234abcd");
+  });
+});
+
+test("CSV import updates statuses, published URLs, skip reasons and assignments", () => {
+  withTempCalendar(() => {
+    getOrCreateCalendar(2026, 3);
+    updatePlatformEntry(2026, 3, 1, "note", { status: "reviewed" });
+    updatePlatformEntry(2026, 3, 1, "ameba", { status: "reviewed" });
+    const csv = [
+      "date,platform,status,publishedUrl,skip,assignee",
+      "2026-03-01,note,published,https://www.note.com/takken_ai/n/nABC123?ref=x,,",
+      "2026-03-01,ameba,published,https://ameblo.jp/takken/entry-1.html,,",
+      "2026-03-02,hatena,,,祝日のため休止,",
+      "2026-03-03,ameba,pending,,,",
+      "2026-03-04,note,,,,佐藤",
+    ].join("\n");
+
+    const preview = importCalendarCsv(csv, { dryRun: true });
+    assert.deepEqual(preview.errors, []);
+    assert.equal(preview.updated.length, 4);
+    assert.equal(preview.unchanged, 1);
+    assert.equal(getOrCreateCalendar(2026, 3).days[0].platforms.note!.status, "reviewed");
+
+    const applied = importCalendarCsv(csv, { actor: "田中" });
+    assert.deepEqual(applied.errors, []);
+    const [day1, day2, , day4] = getOrCreateCalendar(2026, 3).days;
+    assert.equal(day1.platforms.note!.status, "published");
+    assert.equal(day1.platforms.note!.publishedUrl, "https://note.com/takken_ai/n/nabc123");
+    assert.equal(day1.platforms.ameba!.publishedUrl, "https://ameblo.jp/takken/entry-1.html");
+    assert.equal(day2.platforms.hatena!.status, "skipped");
+    assert.equal(day2.platforms.hatena!.skipReason, "祝日のため休止");
+    assert.equal(day4.platforms.note!.assignee, "佐藤");
+    assert.equal(day1.platforms.note!.statusHistory?.[0]?.by, "田中");
+
+    // Round trip: re-importing the export changes nothing.
+    const exported = renderCalendarCsv(buildCalendarExportRows([getOrCreateCalendar(2026, 3)]));
+    const again = importCalendarCsv(exported);
+    assert.equal(again.updated.length, 0);
+    assert.deepEqual(again.errors, []);
+  });
+});
+
+test("CSV import rejects the whole file on invalid rows, illegal transitions and stale versions", () => {
+  withTempCalendar(() => {
+    getOrCreateCalendar(2026, 3);
+    const invalid = importCalendarCsv(
+      [
+        "date,platform,status,publishedUrl",
+        "2026-03-01,note,published,https://example.com/not-note",
+        "2026-03-02,ameba,published,",
+        "2026-03-02,mixi,published,",
+        "2026-3-4,ameba,published,",
+      ].join("\n")
+    );
+    assert.deepEqual(
+      invalid.errors.map((error) => error.line),
+      [2, 3, 4, 5]
+    );
+    assert.match(invalid.errors[0].message, /note\.com/);
+    // pending → published skips generation and review
+    assert.match(invalid.errors[1].message, /変更できません/);
+    assert.equal(invalid.updated.length, 0);
+    assert.equal(getOrCreateCalendar(2026, 3).days[1].platforms.ameba!.status, "pending");
+
+    const exported = renderCalendarCsv(buildCalendarExportRows([getOrCreateCalendar(2026, 3)]));
+    updatePlatformEntry(2026, 3, 1, "ameba", { status: "generated" });
+    const stale = importCalendarCsv(exported.replace("2026-03-01,ameba,pending", "2026-03-01,ameba,reviewed"));
+    assert.equal(stale.errors.length, 1);
+    assert.match(stale.errors[0].message, /再エクスポート/);
+    assert.equal(getOrCreateCalendar(2026, 3).days[0].platforms.ameba!.status, "generated");
+  });
+});
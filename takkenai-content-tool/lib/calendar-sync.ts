@@ -0,0 +1,554 @@
+import {
+  getDayPlatforms,
+  getEntryVersion,
+  isCalendarVersionConflictError,
+  updatePlatformEntryWith,
+  type CalendarDay,
+  type ContentStatus,
+  type MonthCalendar,
+  type PlatformEntry,
+} from "./calendar-engine";
+import { getCalendarStore } from "./calendar-store";
+import {
+  checkPublishedNoteUrl,
+  normalizeNoteArticleUrl,
+  registerPublishedNoteUrl,
+} from "./note-internal-link-pool";
+import type { Platform } from "./topic-engine";
+import { getPlatformLabel, isPlatform, PLATFORM_IDS } from "./platform-registry";
+import {
+  buildStatusTransitionUpdates,
+  checkStatusTransition,
+  normalizeAssignment,
+} from "./editorial-workflow";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type CalendarExportFormat = "ics" | "csv";
+
+/** One platform entry of one day — a VEVENT in ICS, a row in CSV. */
+export interface CalendarExportRow {
+  date: string;
+  platform: Platform;
+  status: ContentStatus;
+  titleSuggestion: string;
+  angle: string;
+  takkenaiUrl: string;
+  publishedUrl: string;
+  assignee: string;
+  reviewer: string;
+  skipReason: string;
+  version: number;
+}
+
+export interface CalendarImportRowError {
+  /** 1-based line number in the CSV (header = line 1) */
+  line: number;
+  date?: string;
+  platform?: string;
+  message: string;
+}
+
+export interface CalendarImportChange {
+  line: number;
+  date: string;
+  platform: Platform;
+  status: ContentStatus;
+  reason?: string;
+  publishedUrl?: string;
+  assignee?: string;
+  reviewer?: string;
+  expectedVersion?: number;
+}
+
+export interface CalendarImportResult {
+  dryRun: boolean;
+  /** Rows that changed (or would change, in a dry run) */
+  updated: CalendarImportChange[];
+  unchanged: number;
+  errors: CalendarImportRowError[];
+}
+
+const CONTENT_STATUSES: ContentStatus[] = [
+  "pending",
+  "generated",
+  "reviewed",
+  "published",
+  "skipped",
+];
+
+export const CALENDAR_CSV_COLUMNS = [
+  "date",
+  "platform",
+  "status",
+  "titleSuggestion",
+  "angle",
+  "takkenaiUrl",
+  "publishedUrl",
+  "skip",
+  "assignee",
+  "reviewer",
+  "version",
+] as const;
+
+const ICS_PRODUCT_ID = "-//takkenai//content-tool//JA";
+const ICS_UID_DOMAIN = "takkenai-content-tool";
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+export function resolveCalendarExportFormat(raw: string | null | undefined): CalendarExportFormat | null {
+  const normalized = String(raw || "").trim().toLowerCase();
+  return normalized === "ics" || normalized === "csv" ? normalized : null;
+}
+
+export function buildCalendarExportRows(calendars: MonthCalendar[]): CalendarExportRow[] {
+  const days: CalendarDay[] = [];
+  for (const calendar of calendars) days.push(...calendar.days);
+  days.sort((a, b) => a.date.localeCompare(b.date));
+
+  const rows: CalendarExportRow[] = [];
+  for (const day of days) {
+    for (const platform of getDayPlatforms(day)) {
+      const entry: PlatformEntry | undefined = day.platforms[platform];
+      if (!entry) continue;
+      rows.push({
+        date: day.date,
+        platform,
+        status: entry.status,
+        titleSuggestion: entry.generatedTitle || entry.titleSuggestion || "",
+        angle: entry.angle || "",
+        takkenaiUrl: entry.takkenaiUrl || "",
+        publishedUrl: entry.publishedUrl || "",
+        assignee: entry.assignee || "",
+        reviewer: entry.reviewer || "",
+        skipReason: entry.skipReason || "",
+        version: getEntryVersion(entry),
+      });
+    }
+  }
+  return rows;
+}
+
+function escapeCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/** UTF-8 CSV with BOM so spreadsheet apps open the Japanese text correctly. */
+export function renderCalendarCsv(rows: CalendarExportRow[]): string {
+  const lines = [CALENDAR_CSV_COLUMNS.join(",")];
+  for (const row of rows) {
+    const record: Record<(typeof CALENDAR_CSV_COLUMNS)[number], string> = {
+      date: row.date,
+      platform: row.platform,
+      status: row.status,
+      titleSuggestion: row.titleSuggestion,
+      angle: row.angle,
+      takkenaiUrl: row.takkenaiUrl,
+      publishedUrl: row.publishedUrl,
+      skip: row.status === "skipped" ? row.skipReason || "1" : "",
+      assignee: row.assignee,
+      reviewer: row.reviewer,
+      version: String(row.version),
+    };
+    lines.push(CALENDAR_CSV_COLUMNS.map((column) => escapeCsvField(record[column])).join(","));
+  }
+  return `\uFEFF${lines.join("\r\n")}\r\n`;
+}
+
+function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/** Folds a content line at 75 octets (RFC 5545 §3.1) without splitting characters. */
+function foldIcsLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  for (const char of Array.from(line)) {
+    const bytes = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function formatIcsDate(date: string): string {
+  return date.replace(/-/g, "");
+}
+
+function nextIcsDate(date: string): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString().slice(0, 10).replace(/-/g, "");
+}
+
+function formatIcsTimestamp(value: Date): string {
+  return value.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/**
+ * All-day VEVENT per platform entry. UIDs are stable per date/platform so
+ * re-importing the feed updates events instead of duplicating them.
+ */
+export function renderCalendarIcs(
+  rows: CalendarExportRow[],
+  options: { now?: Date; calendarName?: string } = {}
+): string {
+  const stamp = formatIcsTimestamp(options.now || new Date());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${ICS_PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeIcsText(options.calendarName || "宅建AI 配信カレンダー")}`,
+  ];
+  for (const row of rows) {
+    const description = [
+      `切り口: ${row.angle}`,
+      `ステータス: ${row.status}`,
+      row.assignee ? `担当: ${row.assignee}` : "",
+      row.reviewer ? `レビュー: ${row.reviewer}` : "",
+      row.skipReason ? `スキップ理由: ${row.skipReason}` : "",
+      `takkenai: ${row.takkenaiUrl}`,
+      row.publishedUrl ? `公開URL: ${row.publishedUrl}` : "",
+    ]
+      .filter(Boolean)
+      .join("\n");
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${row.date}-${row.platform}@${ICS_UID_DOMAIN}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${formatIcsDate(row.date)}`,
+      `DTEND;VALUE=DATE:${nextIcsDate(row.date)}`,
+      `SUMMARY:${escapeIcsText(`[${getPlatformLabel(row.platform)}] ${row.titleSuggestion}`)}`,
+      `DESCRIPTION:${escapeIcsText(description)}`,
+      `URL:${row.publishedUrl || row.takkenaiUrl}`,
+      `CATEGORIES:${escapeIcsText(row.platform)}`,
+      `STATUS:${row.status === "skipped" ? "CANCELLED" : row.status === "published" ? "CONFIRMED" : "TENTATIVE"}`,
+      `SEQUENCE:${row.version}`,
+      "END:VEVENT"
+    );
+  }
+  lines.push("END:VCALENDAR");
+  return `${lines.map(foldIcsLine).join("\r\n")}\r\n`;
+}
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+/** RFC 4180 parser: quoted fields may contain commas, quotes and newlines. */
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, "");
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+    if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i += 1;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+function isTruthyMarker(value: string): boolean {
+  return /^(1|true|yes|y|x|skip|skipped|○|✓|はい)$/i.test(value.trim());
+}
+
+function isFalsyMarker(value: string): boolean {
+  return /^(0|false|no|n|いいえ)?$/i.test(value.trim());
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const parsed = new URL(value);
+    return parsed.protocol === "https:" || parsed.protocol === "http:";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validates every row against the stored calendar without writing anything.
+ * `status`, `publishedUrl`, `skip` (a marker or the skip reason), `reason`,
+ * `assignee` and `reviewer` are imported; other columns are informational.
+ * Status changes follow the editorial workflow, approved by `actor`. Rows
+ * that match the stored entry are counted as unchanged.
+ */
+export function planCalendarCsvImport(
+  text: string,
+  options: { actor?: string } = {}
+): {
+  changes: CalendarImportChange[];
+  unchanged: number;
+  errors: CalendarImportRowError[];
+} {
+  const [header = [], ...records] = parseCsv(text);
+  const columns = header.map((name) => name.trim());
+  const errors: CalendarImportRowError[] = [];
+  if (!columns.includes("date") || !columns.includes("platform")) {
+    errors.push({ line: 1, message: "ヘッダーに date と platform の列が必要です" });
+    return { changes: [], unchanged: 0, errors };
+  }
+  const importable = ["status", "publishedUrl", "skip", "assignee", "reviewer"];
+  if (!importable.some((name) => columns.includes(name))) {
+    errors.push({
+      line: 1,
+      message: "status / publishedUrl / skip / assignee / reviewer のいずれかの列が必要です",
+    });
+    return { changes: [], unchanged: 0, errors };
+  }
+
+  const store = getCalendarStore();
+  const calendars = new Map<string, MonthCalendar | undefined>();
+  const seen = new Set<string>();
+  const changes: CalendarImportChange[] = [];
+  let unchanged = 0;
+
+  records.forEach((values, index) => {
+    const line = index + 2;
+    if (values.every((value) => !value.trim())) return;
+    const cell = (name: string) => {
+      const position = columns.indexOf(name);
+      return position >= 0 ? String(values[position] ?? "").trim() : "";
+    };
+    const date = cell("date");
+    const platform = cell("platform").toLowerCase();
+    const fail = (message: string) => errors.push({ line, date, platform, message });
+
+    const match = date.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    if (!match) return fail("不正な日付形式です（YYYY-MM-DD）");
+    if (!isPlatform(platform)) {
+      return fail(`platform は ${PLATFORM_IDS.join(" / ")} のいずれかです`);
+    }
+    const key = `${date}:${platform}`;
+    if (seen.has(key)) return fail("同じ日付・プラットフォームの行が重複しています");
+    seen.add(key);
+
+    const year = parseInt(match[1], 10);
+    const month = parseInt(match[2], 10);
+    const monthKey = `${year}-${month}`;
+    if (!calendars.has(monthKey)) calendars.set(monthKey, store.getCalendar(year, month));
+    const day = calendars.get(monthKey)?.days.find((item) => item.date === date);
+    if (!day) return fail("指定された日付のデータが見つかりません");
+    const entry = day.platforms[platform];
+    if (!entry) return fail(`${getPlatformLabel(platform)} はこの日の配信対象ではありません`);
+
+    const rawStatus = cell("status").toLowerCase();
+    if (rawStatus && !CONTENT_STATUSES.includes(rawStatus as ContentStatus)) {
+      return fail(`不明なステータスです: ${rawStatus}`);
+    }
+    let status = (rawStatus || entry.status) as ContentStatus;
+    const skip = cell("skip");
+    let reason = cell("reason");
+    if (!isFalsyMarker(skip)) {
+      status = "skipped";
+      if (!reason && !isTruthyMarker(skip)) reason = skip;
+    }
+
+    const rawPublishedUrl = cell("publishedUrl");
+    let publishedUrl: string | undefined;
+    if (rawPublishedUrl) {
+      publishedUrl =
+        platform === "note"
+          ? normalizeNoteArticleUrl(rawPublishedUrl)
+          : isHttpUrl(rawPublishedUrl)
+            ? rawPublishedUrl
+            : "";
+      if (!publishedUrl) {
+        return fail(
+          platform === "note"
+            ? "publishedUrl は note.com の記事URLのみ指定できます"
+            : "publishedUrl は http(s) のURLで指定してください"
+        );
+      }
+      const urlViolation = platform === "note" ? checkPublishedNoteUrl(publishedUrl) : null;
+      if (urlViolation) return fail(urlViolation);
+      if (!columns.includes("status") && status !== "skipped") status = "published";
+    }
+    if (publishedUrl && status !== "published") {
+      return fail("publishedUrl は status が published の行にのみ指定できます");
+    }
+
+    const assignments = {
+      ...(columns.includes("assignee") ? { assignee: normalizeAssignment(cell("assignee")) } : {}),
+      ...(columns.includes("reviewer") ? { reviewer: normalizeAssignment(cell("reviewer")) } : {}),
+    };
+    const assignmentsChanged =
+      ("assignee" in assignments && assignments.assignee !== entry.assignee) ||
+      ("reviewer" in assignments && assignments.reviewer !== entry.reviewer);
+
+    const rawVersion = cell("version");
+    let expectedVersion: number | undefined;
+    if (rawVersion) {
+      expectedVersion = Number(rawVersion);
+      if (!Number.isInteger(expectedVersion) || expectedVersion < 0) {
+        return fail("version は0以上の整数で指定してください");
+      }
+    }
+
+    if (
+      status === entry.status &&
+      !assignmentsChanged &&
+      (!publishedUrl || publishedUrl === entry.publishedUrl)
+    ) {
+      unchanged++;
+      return;
+    }
+    if (expectedVersion !== undefined && expectedVersion !== getEntryVersion(entry)) {
+      return fail(
+        `他の操作で更新されています（CSV: v${expectedVersion} / 現在: v${getEntryVersion(entry)}）。再エクスポートしてください。`
+      );
+    }
+    const violation = checkStatusTransition({ ...entry, ...assignments }, status, {
+      actor: options.actor,
+      reason,
+    });
+    if (violation) return fail(violation);
+
+    changes.push({
+      line,
+      date,
+      platform: platform as Platform,
+      status,
+      ...(reason ? { reason } : {}),
+      ...(publishedUrl ? { publishedUrl } : {}),
+      ...assignments,
+      ...(expectedVersion !== undefined ? { expectedVersion } : {}),
+    });
+  });
+
+  return { changes, unchanged, errors };
+}
+
+/**
+ * Bulk-updates statuses, published URLs, skip markers and assignments from a
+ * CSV (the export format round-trips). Nothing is written when any row fails
+ * validation; conflicts found while writing are reported per row.
+ */
+export function importCalendarCsv(
+  text: string,
+  options: { dryRun?: boolean; actor?: string } = {}
+): CalendarImportResult {
+  const dryRun = Boolean(options.dryRun);
+  const plan = planCalendarCsvImport(text, { actor: options.actor });
+  if (dryRun || plan.errors.length > 0) {
+    return {
+      dryRun,
+      updated: plan.errors.length > 0 ? [] : plan.changes,
+      unchanged: plan.unchanged,
+      errors: plan.errors,
+    };
+  }
+
+  const updated: CalendarImportChange[] = [];
+  const errors: CalendarImportRowError[] = [];
+  for (const change of plan.changes) {
+    const [year, month, day] = change.date.split("-").map((part) => parseInt(part, 10));
+    const nowIso = new Date().toISOString();
+    const rowError = (message: string) =>
+      errors.push({ line: change.line, date: change.date, platform: change.platform, message });
+    try {
+      const noteUrl = change.platform === "note" ? change.publishedUrl : undefined;
+      // Re-checked here: an earlier row may have fixed the pool's account.
+      const urlViolation = noteUrl ? checkPublishedNoteUrl(noteUrl) : null;
+      if (urlViolation) {
+        rowError(urlViolation);
+        continue;
+      }
+      const assignments = {
+        ...("assignee" in change ? { assignee: change.assignee } : {}),
+        ...("reviewer" in change ? { reviewer: change.reviewer } : {}),
+      };
+      const result = updatePlatformEntryWith(
+        year,
+        month,
+        day,
+        change.platform,
+        (entry) => ({
+          ...assignments,
+          ...buildStatusTransitionUpdates(
+            { ...entry, ...assignments },
+            change.status,
+            { actor: options.actor, reason: change.reason },
+            nowIso
+          ),
+          ...(change.status === "published" && entry.status !== "published"
+            ? { publishedAt: nowIso }
+            : {}),
+          ...(change.publishedUrl ? { publishedUrl: change.publishedUrl } : {}),
+        }),
+        { expectedVersion: change.expectedVersion }
+      );
+      if (!result) {
+        rowError("指定された日付のデータが見つかりません");
+        continue;
+      }
+      if (noteUrl) {
+        const saved = result.platforms.note;
+        registerPublishedNoteUrl({
+          url: noteUrl,
+          title: saved?.generatedTitle || saved?.titleSuggestion || "",
+          date: change.date,
+          publishedAt: nowIso,
+          contentKey: "standard",
+        });
+      }
+      updated.push(change);
+    } catch (error) {
+      rowError(
+        isCalendarVersionConflictError(error)
+          ? `他の操作で更新されています（現在: v${error.currentVersion}）。再エクスポートしてください。`
+          : error instanceof Error
+            ? error.message
+            : "更新に失敗しました"
+      );
+    }
+  }
+  return { dryRun, updated, unchanged: plan.unchanged, errors };
+}
@@ -0,0 +1,63 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import { clearCalendarStoreCache } from "./calendar-store";
+
+export interface TempCalendarOptions {
+  /** Further env vars to point at files in the temp dir, e.g. `{ CAMPAIGNS_FILE: "campaigns.json" }` */
+  env?: Record<string, string>;
+  /** Clears module caches that read those files; runs before and after `run`. */
+  reset?: () => void;
+}
+
+/**
+ * Runs `run` against an empty JSON calendar store in a fresh temp dir, then
+ * restores the env vars it changed and removes the dir. Async callbacks are
+ * awaited before cleaning up.
+ */
+export function withTempCalendar(
+  run: (tmpDir: string) => Promise<void>,
+  options?: TempCalendarOptions
+): Promise<void>;
+export function withTempCalendar(run: (tmpDir: string) => void, options?: TempCalendarOptions): void;
+export function withTempCalendar(
+  run: (tmpDir: string) => void | Promise<void>,
+  options: TempCalendarOptions = {}
+): void | Promise<void> {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "calendar-test-"));
+  const env: Record<string, string> = {
+    CALENDAR_STORE_BACKEND: "json",
+    CALENDAR_STORE_FILE: path.join(tmpDir, "calendar.json"),
+    NOTE_INTERNAL_LINK_POOL_FILE: path.join(tmpDir, "note-pool.json"),
+  };
+  for (const [name, filename] of Object.entries(options.env || {})) {
+    env[name] = path.join(tmpDir, filename);
+  }
+  const previousEnv = Object.keys(env).map((name) => [name, process.env[name]] as const);
+  Object.assign(process.env, env);
+  const reset = () => {
+    clearCalendarStoreCache();
+    options.reset?.();
+  };
+  const cleanup = () => {
+    for (const [name, value] of previousEnv) {
+      if (value === undefined) delete process.env[name];
+      else process.env[name] = value;
+    }
+    reset();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  };
+
+  reset();
+  let pending: Promise<void> | null = null;
+  try {
+    const result = run(tmpDir);
+    if (result instanceof Promise) {
+      pending = result.finally(cleanup);
+      return pending;
+    }
+  } finally {
+    if (!pending) cleanup();
+  }
+}
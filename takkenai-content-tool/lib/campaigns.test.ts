@@ -0,0 +1,211 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { spawn } from "child_process";
+import path from "path";
+
+import {
+  getOrCreateCalendar,
+  isCalendarScheduleError,
+  loadCalendarStore,
+  pinTopic,
+  regenerateCalendar,
+  syncStoredCalendars,
+  updatePlatformEntry,
+} from "./calendar-engine";
+import { withTempCalendar } from "./calendar-test-helpers";
+import {
+  buildCampaignSeriesContext,
+  deleteCampaign,
+  isCampaignValidationError,
+  loadCampaigns,
+  parseCampaignInput,
+  planCampaignSlots,
+  saveCampaign,
+  type CampaignInput,
+} from "./campaigns";
+import { getKnowledgePoints, getTools } from "./takkenai-data";
+import { buildTopicCoverageReport } from "./topic-coverage";
+import { DEFAULT_TOPIC_ROTATION } from "./topic-rotation";
+
+const CAMPAIGNS_ENV = { env: { CAMPAIGNS_FILE: "campaigns.json" } };
+
+function buildInput(overrides: Partial<CampaignInput> = {}): CampaignInput {
+  const tools = getTools();
+  return {
+    name: "ローン計算 集中講座",
+    startDate: "2026-06-08",
+    endDate: "2026-06-20",
+    platforms: ["note", "hatena"],
+    parts: [
+      { assetType: "tool", assetId: tools[0].id },
+      { assetType: "tool", assetId: tools[1].id, title: "第2回は返済計画" },
+      { assetType: "knowledge-point", assetId: getKnowledgePoints()[0].id },
+    ],
+    ordering: "sequential",
+    intervalDays: 2,
+    ...overrides,
+  };
+}
+
+test("campaign input is validated and parts are laid out by ordering", () => {
+  const invalid = parseCampaignInput({
+    name: "",
+    startDate: "2026-06-20",
+    endDate: "2026-06-01",
+    platforms: ["mixi"],
+    parts: [{ takkenaiUrl: "https://example.com/tools/loan" }],
+    intervalDays: 30,
+  });
+  assert.equal(invalid.campaign, undefined);
+  assert.deepEqual(invalid.issues, [
+    "name は必須です",
+    "endDate は startDate 以降にしてください",
+    "platforms を1つ以上指定してください（ameba / note / hatena / wordpress / qiita / x）",
+    "第1回 にはアセットか takkenai.jp のURLを指定してください",
+    "intervalDays は1〜14の整数で指定してください",
+  ]);
+
+  const tooShort = parseCampaignInput({ ...buildInput(), endDate: "2026-06-10" });
+  assert.deepEqual(tooShort.issues, [
+    "期間内に1回分が収まりません（期間・間隔・プラットフォームを見直してください）",
+  ]);
+
+  const sequential = planCampaignSlots({ ...buildInput(), id: "c1" });
+  assert.equal(sequential.unscheduled, 0);
+  assert.deepEqual(
+    sequential.slots.map((slot) => `${slot.part}/${slot.total} ${slot.date} ${slot.platform}`),
+    ["1/3 2026-06-08 note", "2/3 2026-06-10 hatena", "3/3 2026-06-12 note"]
+  );
+
+  const parallel = planCampaignSlots({ ...buildInput({ ordering: "parallel" }), id: "c2" });
+  assert.deepEqual(
+    parallel.slots.map((slot) => `${slot.part} ${slot.date} ${slot.platform}`),
+    ["1 2026-06-08 note", "2 2026-06-08 hatena", "3 2026-06-10 note"]
+  );
+});
+
+test("campaign parts are placed on the calendar and survive regenerate until deleted", () => {
+  withTempCalendar(() => {
+    getOrCreateCalendar(2026, 6);
+    const { campaign: input } = parseCampaignInput(buildInput());
+    assert.ok(input);
+    const campaign = saveCampaign(input, "佐藤");
+    assert.equal(campaign.createdBy, "佐藤");
+    syncStoredCalendars(campaign.startDate, campaign.endDate);
+
+    const day = (date: string) => {
+      const found = getOrCreateCalendar(2026, 6).days.find((d) => d.date === date);
+      assert.ok(found);
+      return found;
+    };
+    const first = day("2026-06-08");
+    assert.equal(first.motherTopics.note!.assetId, input.parts[0].assetId);
+    assert.deepEqual(first.platforms.note!.campaign, {
+      campaignId: campaign.id,
+      name: "ローン計算 集中講座",
+      part: 1,
+      total: 3,
+    });
+    assert.match(first.platforms.note!.titleSuggestion, /^【ローン計算 集中講座 第1回】/);
+    assert.equal(day("2026-06-10").platforms.hatena!.titleSuggestion, "第2回は返済計画");
+    assert.equal(day("2026-06-12").motherTopics.note!.assetType, "knowledge-point");
+
+    // Loading again changes nothing; editors cannot pin over a campaign slot.
+    const version = first.platforms.note!.version;
+    assert.equal(day("2026-06-08").platforms.note!.version, version);
+    assert.throws(
+      () => pinTopic({ date: "2026-06-08", platform: "note" }, { takkenaiUrl: "/tools/loan" }),
+      (err: unknown) => isCalendarScheduleError(err) && /キャンペーン/.test(err.message)
+    );
+
+    const regenerated = regenerateCalendar(2026, 6);
+    assert.equal(regenerated.days[7].platforms.note!.campaign?.part, 1);
+    assert.equal(regenerated.days[7].motherTopics.note!.assetId, input.parts[0].assetId);
+    assert.deepEqual(
+      buildTopicCoverageReport(loadCalendarStore().calendars, DEFAULT_TOPIC_ROTATION).repeats,
+      []
+    );
+
+    // Overlapping slots from another campaign are rejected.
+    assert.throws(
+      () => saveCampaign({ ...input, name: "別キャンペーン" }),
+      (err: unknown) => isCampaignValidationError(err) && err.issues.length === 3
+    );
+
+    // Published parts keep their campaign; pending ones go back to the topic engine.
+    updatePlatformEntry(2026, 6, 8, "note", { status: "published" });
+    assert.ok(deleteCampaign(campaign.id));
+    syncStoredCalendars(campaign.startDate, campaign.endDate);
+    assert.equal(day("2026-06-08").platforms.note!.campaign?.part, 1);
+    assert.equal(day("2026-06-10").platforms.hatena!.campaign, undefined);
+    assert.doesNotMatch(day("2026-06-12").platforms.note!.titleSuggestion, /集中講座/);
+  }, CAMPAIGNS_ENV);
+});
+
+test("series context lists published earlier parts and the next one", () => {
+  withTempCalendar(() => {
+    const { campaign: input } = parseCampaignInput(buildInput());
+    assert.ok(input);
+    const campaign = saveCampaign(input);
+    getOrCreateCalendar(2026, 6);
+    updatePlatformEntry(2026, 6, 8, "note", {
+      status: "published",
+      generatedTitle: "ローン計算の基本",
+      publishedUrl: "https://note.com/takkenai/n/n0123abcd",
+    });
+
+    const series = buildCampaignSeriesContext(
+      { campaignId: campaign.id, name: campaign.name, part: 3, total: 3 },
+      loadCalendarStore().calendars
+    );
+    assert.deepEqual(series.previousParts, [
+      {
+        part: 1,
+        title: "ローン計算の基本",
+        date: "2026-06-08",
+        platform: "note",
+        url: "https://note.com/takkenai/n/n0123abcd",
+      },
+    ]);
+    assert.equal(series.nextPart, undefined);
+
+    const second = buildCampaignSeriesContext(
+      { campaignId: campaign.id, name: campaign.name, part: 2, total: 3 },
+      loadCalendarStore().calendars
+    );
+    assert.equal(second.nextPart?.part, 3);
+    assert.equal(second.nextPart?.date, "2026-06-12");
+  }, CAMPAIGNS_ENV);
+});
+
+/** Saves one single-day campaign per day of July on `platform` from a separate process. */
+function saveFromWorker(platform: string, count: number, startAt: number) {
+  const script = `
+    const { saveCampaign } = require(${JSON.stringify(path.join(__dirname, "campaigns.ts"))});
+    while (Date.now() < ${startAt}) {}
+    for (let i = 1; i <= ${count}; i++) {
+      const date = "2026-07-" + String(i).padStart(2, "0");
+      saveCampaign({
+        name: "${platform}-" + i,
+        startDate: date,
+        endDate: date,
+        platforms: ["${platform}"],
+        parts: [{ assetType: "tool", assetId: ${JSON.stringify(getTools()[0].id)} }],
+        ordering: "sequential",
+        intervalDays: 1,
+      });
+    }
+  `;
+  return new Promise<void>((resolve, reject) => {
+    const child = spawn(process.execPath, ["--import", "tsx", "-e", script], { stdio: "inherit" });
+    child.on("error", reject);
+    child.on("exit", (code) => (code === 0 ? resolve() : reject(new Error(`${platform} exited with ${code}`))));
+  });
+}
+
+test("campaigns saved racing from two processes are all kept", () =>
+  withTempCalendar(async () => {
+    const startAt = Date.now() + 3000;
+    await Promise.all([saveFromWorker("note", 15, startAt), saveFromWorker("hatena", 15, startAt)]);
+    assert.equal(loadCampaigns().length, 30);
+  }, CAMPAIGNS_ENV));
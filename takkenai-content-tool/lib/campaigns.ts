@@ -0,0 +1,446 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import type { MonthCalendar } from "./calendar-engine";
+import type { Platform, TopicPinTarget } from "./topic-engine";
+import { withFileLockSync } from "./file-lock";
+import { writeJsonAtomic } from "./json-file";
+import { PLATFORM_IDS } from "./platform-registry";
+import type { TopicAssetType } from "./topic-mix";
+import { getKnowledgePointById, getPastQuestionById, getToolById } from "./takkenai-data";
+import { canonicalizeTakkenaiPath } from "./traffic-url-profile";
+import { daysBetweenDates } from "./topic-rotation";
+import { parseTrackingTemplate, type TrackingTemplate } from "./tracking-template";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * sequential: one part per publishing day, rotating through the platforms.
+ * parallel: every campaign platform gets the next part on each publishing day.
+ */
+export type CampaignOrdering = "sequential" | "parallel";
+
+export interface CampaignPart extends TopicPinTarget {
+  /** Working title for this part; defaults to the engine's title with a series prefix */
+  title?: string;
+}
+
+/** A multi-day, multi-platform series the topic engine fills in before anything else. */
+export interface Campaign {
+  id: string;
+  name: string;
+  /** YYYY-MM-DD, inclusive */
+  startDate: string;
+  endDate: string;
+  platforms: Platform[];
+  /** In publishing order: part 1 first */
+  parts: CampaignPart[];
+  ordering: CampaignOrdering;
+  /** Days between publishing days (1 = every day) */
+  intervalDays: number;
+  /** Overrides the site's tracking template for every part (see lib/tracking-template.ts) */
+  tracking?: TrackingTemplate;
+  createdAt: string;
+  updatedAt: string;
+  createdBy?: string;
+}
+
+export type CampaignInput = Pick<
+  Campaign,
+  "name" | "startDate" | "endDate" | "platforms" | "parts" | "ordering" | "intervalDays" | "tracking"
+> & { id?: string };
+
+/** Where one part of a campaign lands on the calendar. */
+export interface CampaignSlot {
+  campaignId: string;
+  campaignName: string;
+  /** 1-based */
+  part: number;
+  total: number;
+  date: string;
+  platform: Platform;
+  target: CampaignPart;
+}
+
+/** Stored on the calendar entry that carries a campaign part. */
+export interface CampaignPartRef {
+  campaignId: string;
+  name: string;
+  part: number;
+  total: number;
+}
+
+/** Prompt context for a piece that belongs to a series. */
+export interface CampaignSeriesContext {
+  name: string;
+  part: number;
+  total: number;
+  /** Earlier parts that are already published, oldest first */
+  previousParts: Array<{
+    part: number;
+    title: string;
+    date: string;
+    platform: Platform;
+    url?: string;
+  }>;
+  nextPart?: { part: number; date: string; title?: string };
+}
+
+export type CampaignValidationError = Error & {
+  code: "CAMPAIGN_INVALID";
+  issues: string[];
+};
+
+export function isCampaignValidationError(error: unknown): error is CampaignValidationError {
+  return (
+    error instanceof Error &&
+    (error as Partial<CampaignValidationError>).code === "CAMPAIGN_INVALID"
+  );
+}
+
+function createCampaignValidationError(issues: string[]): CampaignValidationError {
+  const error = new Error(`キャンペーンの設定が不正です: ${issues.join(" / ")}`) as CampaignValidationError;
+  error.code = "CAMPAIGN_INVALID";
+  error.issues = issues;
+  return error;
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+const PLATFORMS: Platform[] = [...PLATFORM_IDS];
+const ASSET_TYPES: TopicAssetType[] = ["knowledge-point", "tool", "past-question"];
+const ORDERINGS: CampaignOrdering[] = ["sequential", "parallel"];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_CAMPAIGN_DAYS = 92;
+const MAX_PARTS = 30;
+const MAX_INTERVAL_DAYS = 14;
+const MAX_NAME_CHARS = 60;
+
+function isValidDate(value: string): boolean {
+  if (!DATE_PATTERN.test(value)) return false;
+  const [year, month, day] = value.split("-").map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+function assetExists(type: TopicAssetType, id: string): boolean {
+  switch (type) {
+    case "knowledge-point":
+      return Boolean(getKnowledgePointById(id));
+    case "tool":
+      return Boolean(getToolById(id));
+    case "past-question":
+      return Boolean(getPastQuestionById(id));
+  }
+}
+
+function parsePart(raw: unknown, index: number, issues: string[]): CampaignPart | undefined {
+  const where = `第${index + 1}回`;
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    issues.push(`${where} はオブジェクトで指定してください`);
+    return undefined;
+  }
+  const input = raw as Record<string, unknown>;
+  const title = String(input.title || "").trim();
+  const assetType = String(input.assetType || "") as TopicAssetType;
+  const assetId = String(input.assetId || "").trim();
+  const takkenaiUrl = String(input.takkenaiUrl || "").trim();
+
+  if (assetType || assetId) {
+    if (!ASSET_TYPES.includes(assetType) || !assetId) {
+      issues.push(`${where} の assetType / assetId が不正です`);
+      return undefined;
+    }
+    if (!assetExists(assetType, assetId)) {
+      issues.push(`${where} のアセット ${assetId} が見つかりません`);
+      return undefined;
+    }
+    return { assetType, assetId, ...(title ? { title } : {}) };
+  }
+  if (!takkenaiUrl || !canonicalizeTakkenaiPath(takkenaiUrl)) {
+    issues.push(`${where} にはアセットか takkenai.jp のURLを指定してください`);
+    return undefined;
+  }
+  return { takkenaiUrl, ...(title ? { title } : {}) };
+}
+
+/** Validates a campaign from the API; `issues` is empty when it can be saved. */
+export function parseCampaignInput(raw: unknown): { campaign?: CampaignInput; issues: string[] } {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return { issues: ["キャンペーンはオブジェクトで指定してください"] };
+  }
+  const input = raw as Record<string, unknown>;
+  const issues: string[] = [];
+
+  const name = String(input.name || "").trim();
+  if (!name) issues.push("name は必須です");
+  else if (name.length > MAX_NAME_CHARS) issues.push(`name は${MAX_NAME_CHARS}文字以内で指定してください`);
+
+  const startDate = String(input.startDate || "");
+  const endDate = String(input.endDate || "");
+  if (!isValidDate(startDate) || !isValidDate(endDate)) {
+    issues.push("startDate / endDate は YYYY-MM-DD で指定してください");
+  } else if (endDate < startDate) {
+    issues.push("endDate は startDate 以降にしてください");
+  } else if (daysBetweenDates(startDate, endDate) >= MAX_CAMPAIGN_DAYS) {
+    issues.push(`期間は最大${MAX_CAMPAIGN_DAYS}日です`);
+  }
+
+  const platforms = Array.isArray(input.platforms)
+    ? PLATFORMS.filter((platform) => (input.platforms as unknown[]).includes(platform))
+    : [];
+  if (platforms.length === 0) issues.push(`platforms を1つ以上指定してください（${PLATFORM_IDS.join(" / ")}）`);
+
+  const rawParts = Array.isArray(input.parts) ? input.parts : [];
+  if (rawParts.length === 0) issues.push("parts を1件以上指定してください");
+  if (rawParts.length > MAX_PARTS) issues.push(`parts は${MAX_PARTS}件までです`);
+  const parts = rawParts
+    .slice(0, MAX_PARTS)
+    .map((part, index) => parsePart(part, index, issues))
+    .filter((part): part is CampaignPart => Boolean(part));
+
+  const ordering = (input.ordering === undefined ? "sequential" : input.ordering) as CampaignOrdering;
+  if (!ORDERINGS.includes(ordering)) issues.push("ordering は sequential / parallel のいずれかです");
+
+  const intervalDays = input.intervalDays === undefined ? 1 : Number(input.intervalDays);
+  if (!Number.isInteger(intervalDays) || intervalDays < 1 || intervalDays > MAX_INTERVAL_DAYS) {
+    issues.push(`intervalDays は1〜${MAX_INTERVAL_DAYS}の整数で指定してください`);
+  }
+
+  let tracking: TrackingTemplate | undefined;
+  if (input.tracking !== undefined && input.tracking !== null) {
+    const parsed = parseTrackingTemplate(input.tracking);
+    issues.push(...parsed.issues);
+    if (parsed.template && Object.keys(parsed.template).length > 0) tracking = parsed.template;
+  }
+
+  if (issues.length > 0) return { issues };
+  const campaign: CampaignInput = {
+    ...(typeof input.id === "string" && input.id ? { id: input.id } : {}),
+    name,
+    startDate,
+    endDate,
+    platforms,
+    parts,
+    ordering,
+    intervalDays,
+    ...(tracking ? { tracking } : {}),
+  };
+  const { unscheduled } = planCampaignSlots({ ...campaign, id: campaign.id || "" });
+  if (unscheduled > 0) {
+    return { issues: [`期間内に${unscheduled}回分が収まりません（期間・間隔・プラットフォームを見直してください）`] };
+  }
+  return { campaign, issues: [] };
+}
+
+// ---------------------------------------------------------------------------
+// Slot planning
+// ---------------------------------------------------------------------------
+
+function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+/** Places every part on a date + platform; parts past `endDate` are counted as unscheduled. */
+export function planCampaignSlots(
+  campaign: Pick<
+    Campaign,
+    "id" | "name" | "startDate" | "endDate" | "platforms" | "parts" | "ordering" | "intervalDays"
+  >
+): { slots: CampaignSlot[]; unscheduled: number } {
+  const slots: CampaignSlot[] = [];
+  const total = campaign.parts.length;
+  const perDay = campaign.ordering === "parallel" ? campaign.platforms.length : 1;
+  campaign.parts.forEach((target, index) => {
+    const date = addDays(campaign.startDate, Math.floor(index / perDay) * campaign.intervalDays);
+    if (date > campaign.endDate) return;
+    slots.push({
+      campaignId: campaign.id,
+      campaignName: campaign.name,
+      part: index + 1,
+      total,
+      date,
+      platform: campaign.platforms[index % campaign.platforms.length],
+      target,
+    });
+  });
+  return { slots, unscheduled: total - slots.length };
+}
+
+/**
+ * Slots of every stored campaign within a month, keyed by `date:platform`.
+ * Older campaigns win if two ever claim the same slot (saving rejects that).
+ */
+export function getCampaignSlotsForMonth(year: number, month: number): Map<string, CampaignSlot> {
+  const prefix = `${year}-${String(month).padStart(2, "0")}-`;
+  const result = new Map<string, CampaignSlot>();
+  for (const campaign of loadCampaigns()) {
+    for (const slot of planCampaignSlots(campaign).slots) {
+      const key = `${slot.date}:${slot.platform}`;
+      if (slot.date.startsWith(prefix) && !result.has(key)) result.set(key, slot);
+    }
+  }
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// Persistence
+// ---------------------------------------------------------------------------
+
+const DEFAULT_CAMPAIGNS_FILE = path.join(process.cwd(), "data", "campaigns.json");
+
+function resolveCampaignsFilePath(): string {
+  const fromEnv = (process.env.CAMPAIGNS_FILE || "").trim();
+  if (!fromEnv) return DEFAULT_CAMPAIGNS_FILE;
+  return path.isAbsolute(fromEnv) ? fromEnv : path.join(process.cwd(), fromEnv);
+}
+
+/** Stored campaigns, oldest first. */
+export function loadCampaigns(): Campaign[] {
+  const filePath = resolveCampaignsFilePath();
+  if (!fs.existsSync(filePath)) return [];
+  try {
+    const parsed = JSON.parse(fs.readFileSync(filePath, "utf-8")) as { campaigns?: unknown };
+    const campaigns = Array.isArray(parsed.campaigns) ? (parsed.campaigns as Campaign[]) : [];
+    return campaigns
+      .filter((campaign) => campaign && typeof campaign.id === "string" && Array.isArray(campaign.parts))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  } catch (err) {
+    console.error("Failed to load campaigns:", err);
+    return [];
+  }
+}
+
+function writeCampaigns(campaigns: Campaign[]): void {
+  writeJsonAtomic(resolveCampaignsFilePath(), { campaigns });
+}
+
+/** Runs a read-modify-write of campaigns.json while holding its lock. */
+function withCampaignsLock<T>(fn: () => T): T {
+  return withFileLockSync(`${resolveCampaignsFilePath()}.lock`, fn);
+}
+
+/**
+ * Create a campaign, or replace the one with `input.id`. Throws a
+ * CampaignValidationError when a part would land on another campaign's slot.
+ */
+export function saveCampaign(input: CampaignInput, actor?: string): Campaign {
+  return withCampaignsLock(() => saveCampaignLocked(input, actor));
+}
+
+function saveCampaignLocked(input: CampaignInput, actor?: string): Campaign {
+  const campaigns = loadCampaigns();
+  const existing = input.id ? campaigns.find((campaign) => campaign.id === input.id) : undefined;
+  if (input.id && !existing) {
+    throw createCampaignValidationError([`キャンペーン ${input.id} が見つかりません`]);
+  }
+
+  const nowIso = new Date().toISOString();
+  const createdBy = (actor || "").trim();
+  const campaign: Campaign = {
+    ...input,
+    id: existing?.id || `cmp-${Date.now().toString(36)}-${crypto.randomBytes(3).toString("hex")}`,
+    createdAt: existing?.createdAt || nowIso,
+    updatedAt: nowIso,
+    ...(existing?.createdBy
+      ? { createdBy: existing.createdBy }
+      : createdBy
+        ? { createdBy }
+        : {}),
+  };
+
+  const others = campaigns.filter((item) => item.id !== campaign.id);
+  const claimed = new Map<string, string>();
+  for (const other of others) {
+    for (const slot of planCampaignSlots(other).slots) {
+      claimed.set(`${slot.date}:${slot.platform}`, other.name);
+    }
+  }
+  const clashes = planCampaignSlots(campaign)
+    .slots.filter((slot) => claimed.has(`${slot.date}:${slot.platform}`))
+    .map(
+      (slot) =>
+        `第${slot.part}回（${slot.date} ${slot.platform}）が「${claimed.get(`${slot.date}:${slot.platform}`)}」と重複します`
+    );
+  if (clashes.length > 0) throw createCampaignValidationError(clashes);
+
+  writeCampaigns(existing ? campaigns.map((item) => (item.id === campaign.id ? campaign : item)) : [...campaigns, campaign]);
+  return campaign;
+}
+
+/** Campaign id → its tracking template, for campaigns that define one. */
+export function loadCampaignTrackingTemplates(): Record<string, TrackingTemplate> {
+  const templates: Record<string, TrackingTemplate> = {};
+  for (const campaign of loadCampaigns()) {
+    if (campaign.tracking) templates[campaign.id] = campaign.tracking;
+  }
+  return templates;
+}
+
+/** Returns the removed campaign, if it existed. */
+export function deleteCampaign(id: string): Campaign | undefined {
+  return withCampaignsLock(() => {
+    const campaigns = loadCampaigns();
+    const removed = campaigns.find((campaign) => campaign.id === id);
+    if (removed) writeCampaigns(campaigns.filter((campaign) => campaign.id !== id));
+    return removed;
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Series context
+// ---------------------------------------------------------------------------
+
+/**
+ * What the writer needs to know about the rest of the series: published
+ * earlier parts (with their URLs when known) and the next planned part.
+ */
+export function buildCampaignSeriesContext(
+  ref: CampaignPartRef,
+  calendars: MonthCalendar[]
+): CampaignSeriesContext {
+  const campaign = loadCampaigns().find((item) => item.id === ref.campaignId);
+  const slots = campaign ? planCampaignSlots(campaign).slots : [];
+  const findEntry = (date: string, platform: Platform) => {
+    for (const calendar of calendars) {
+      const day = calendar.days.find((d) => d.date === date);
+      if (day) return day.platforms[platform];
+    }
+    return undefined;
+  };
+
+  const previousParts: CampaignSeriesContext["previousParts"] = [];
+  let nextPart: CampaignSeriesContext["nextPart"];
+  for (const slot of slots) {
+    const entry = findEntry(slot.date, slot.platform);
+    if (slot.part < ref.part && entry?.status === "published") {
+      previousParts.push({
+        part: slot.part,
+        title: entry.generatedTitle || entry.titleSuggestion,
+        date: slot.date,
+        platform: slot.platform,
+        ...(entry.publishedUrl ? { url: entry.publishedUrl } : {}),
+      });
+    }
+    if (slot.part === ref.part + 1) {
+      nextPart = {
+        part: slot.part,
+        date: slot.date,
+        ...(entry?.titleSuggestion ? { title: entry.titleSuggestion } : {}),
+      };
+    }
+  }
+
+  return {
+    name: ref.name,
+    part: ref.part,
+    total: ref.total,
+    previousParts,
+    ...(nextPart ? { nextPart } : {}),
+  };
+}
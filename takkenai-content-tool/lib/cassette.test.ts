@@ -0,0 +1,115 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import {
+  cassetteFetch,
+  computeCassetteKey,
+  isCassetteMissError,
+  resolveCassetteMode,
+  setCassetteLiveFetch,
+  withCassette,
+} from "./cassette";
+
+async function withCassetteEnv(
+  mode: string,
+  run: (dir: string) => Promise<void>
+): Promise<void> {
+  const previous = { mode: process.env.CASSETTE_MODE, dir: process.env.CASSETTE_DIR };
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "cassettes-"));
+  process.env.CASSETTE_MODE = mode;
+  process.env.CASSETTE_DIR = dir;
+  try {
+    await run(dir);
+  } finally {
+    setCassetteLiveFetch(null);
+    if (previous.mode === undefined) delete process.env.CASSETTE_MODE;
+    else process.env.CASSETTE_MODE = previous.mode;
+    if (previous.dir === undefined) delete process.env.CASSETTE_DIR;
+    else process.env.CASSETTE_DIR = previous.dir;
+  }
+}
+
+test("cassette key ignores JSON key order, prompt whitespace, headers and secret query params", async () => {
+  const a = await computeCassetteKey("https://api.example.com/v1/chat?key=secret-a", {
+    method: "POST",
+    headers: { Authorization: "Bearer a" },
+    body: JSON.stringify({ model: "m", messages: [{ role: "user", content: "hello  world\r\n" }] }),
+  });
+  const b = await computeCassetteKey("https://api.example.com/v1/chat?key=secret-b", {
+    method: "post",
+    headers: { Authorization: "Bearer b" },
+    body: JSON.stringify({ messages: [{ content: "hello world", role: "user" }], model: "m" }),
+  });
+  const c = await computeCassetteKey("https://api.example.com/v1/chat", {
+    method: "POST",
+    body: JSON.stringify({ model: "m", messages: [{ role: "user", content: "hello world!" }] }),
+  });
+  assert.equal(a, b);
+  assert.notEqual(a, c);
+});
+
+test("record then replay serves binary bodies without calling the network", async () => {
+  await withCassetteEnv("record", async (dir) => {
+    let liveCalls = 0;
+    setCassetteLiveFetch((async () => {
+      liveCalls += 1;
+      return new Response(Buffer.from([0x89, 0x50, 0x4e, 0x47]), {
+        status: 200,
+        headers: { "content-type": "image/png" },
+      });
+    }) as typeof fetch);
+    const init = { method: "POST", body: JSON.stringify({ prompt: "cover" }) };
+
+    const live = await cassetteFetch("cover-image", "https://img.example.com/generate", init);
+    assert.deepEqual(Array.from(new Uint8Array(await live.arrayBuffer())), [0x89, 0x50, 0x4e, 0x47]);
+    assert.equal(fs.readdirSync(path.join(dir, "cover-image")).length, 1);
+
+    process.env.CASSETTE_MODE = "replay";
+    const replayed = await cassetteFetch("cover-image", "https://img.example.com/generate", init);
+    assert.equal(replayed.headers.get("content-type"), "image/png");
+    assert.deepEqual(
+      Array.from(new Uint8Array(await replayed.arrayBuffer())),
+      [0x89, 0x50, 0x4e, 0x47]
+    );
+    assert.equal(liveCalls, 1);
+  });
+});
+
+test("replay misses fail with CASSETTE_MISS and transient errors are not recorded", async () => {
+  await withCassetteEnv("auto", async (dir) => {
+    setCassetteLiveFetch((async () =>
+      new Response("rate limited", { status: 429 })) as typeof fetch);
+    const limited = await cassetteFetch("llm", "https://llm.example.com/chat", {
+      method: "POST",
+      body: "{}",
+    });
+    assert.equal(limited.status, 429);
+    assert.equal(fs.existsSync(path.join(dir, "llm")), false);
+
+    process.env.CASSETTE_MODE = "replay";
+    await assert.rejects(
+      cassetteFetch("llm", "https://llm.example.com/chat", { method: "POST", body: "{}" }),
+      (error: unknown) =>
+        isCassetteMissError(error) && error.kind === "llm" && error.status === 0
+    );
+  });
+});
+
+test("value cassettes record once and replay the stored result", async () => {
+  await withCassetteEnv("auto", async () => {
+    let calls = 0;
+    const upload = () =>
+      withCassette("image-hosting", { file: "abc", provider: "auto" }, async () => {
+        calls += 1;
+        return { url: `https://files.example.com/${calls}.png` };
+      });
+    assert.equal((await upload()).url, "https://files.example.com/1.png");
+    assert.equal((await upload()).url, "https://files.example.com/1.png");
+    assert.equal(calls, 1);
+  });
+  assert.equal(resolveCassetteMode(undefined), "off");
+  assert.equal(resolveCassetteMode("Replay"), "replay");
+});
@@ -0,0 +1,386 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { writeJsonAtomic } from "./json-file";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * off    → every call goes to the network (default)
+ * record → call the network and (over)write the cassette
+ * replay → serve only from cassettes; a miss is an error, never a live call
+ * auto   → replay when a cassette exists, otherwise call and record
+ */
+export type CassetteMode = "off" | "record" | "replay" | "auto";
+
+/** Outbound call families, one sub-directory each under the cassette dir */
+export type CassetteKind =
+  | "llm"
+  | "cover-image"
+  | "inline-image"
+  | "image-gen"
+  | "image-hosting";
+
+export interface CassetteEntry {
+  key: string;
+  kind: CassetteKind;
+  recordedAt: string;
+  request: {
+    method: string;
+    url: string;
+    bodyPreview?: string;
+  };
+  response: {
+    status: number;
+    statusText?: string;
+    contentType?: string;
+    bodyText?: string;
+    bodyBase64?: string;
+  };
+}
+
+export type CassetteMissError = Error & {
+  code: "CASSETTE_MISS";
+  /** status 0: a missing recording must not trigger model fallback or retries */
+  status: 0;
+  kind: CassetteKind;
+  key: string;
+};
+
+export function isCassetteMissError(error: unknown): error is CassetteMissError {
+  return (
+    error instanceof Error &&
+    (error as Partial<CassetteMissError>).code === "CASSETTE_MISS"
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+export function resolveCassetteMode(raw = process.env.CASSETTE_MODE): CassetteMode {
+  const value = String(raw || "").trim().toLowerCase();
+  if (value === "record") return "record";
+  if (value === "replay") return "replay";
+  if (value === "auto") return "auto";
+  return "off";
+}
+
+export function resolveCassetteDir(): string {
+  const configured = (process.env.CASSETTE_DIR || "").trim();
+  if (configured) {
+    return path.isAbsolute(configured)
+      ? configured
+      : path.join(process.cwd(), configured);
+  }
+  return path.join(process.cwd(), "data", "cassettes");
+}
+
+/**
+ * Math.random() for prompt variation. Pinned while recording or replaying,
+ * so the same input always builds the same prompt (and cassette key).
+ */
+export function cassetteRandom(): number {
+  return resolveCassetteMode() === "off" ? Math.random() : 0;
+}
+
+// ---------------------------------------------------------------------------
+// Request normalization
+// ---------------------------------------------------------------------------
+
+const SECRET_QUERY_PARAMS = new Set(["key", "api_key", "apikey", "token", "access_token"]);
+const BODY_PREVIEW_CHARS = 300;
+
+function normalizeText(text: string): string {
+  return (text || "").replace(/\r\n/g, "\n").replace(/[ \t]+/g, " ").trim();
+}
+
+function hashBytes(bytes: Uint8Array): string {
+  return crypto.createHash("sha256").update(bytes).digest("hex");
+}
+
+/** Sorted keys + whitespace-normalized strings, so formatting noise never changes the key */
+function canonicalizeJson(value: unknown): unknown {
+  if (typeof value === "string") return normalizeText(value);
+  if (Array.isArray(value)) return value.map(canonicalizeJson);
+  if (value && typeof value === "object") {
+    const source = value as Record<string, unknown>;
+    const out: Record<string, unknown> = {};
+    for (const key of Object.keys(source).sort()) {
+      out[key] = canonicalizeJson(source[key]);
+    }
+    return out;
+  }
+  return value;
+}
+
+function normalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    Array.from(parsed.searchParams.keys()).forEach((name) => {
+      if (SECRET_QUERY_PARAMS.has(name.toLowerCase())) parsed.searchParams.delete(name);
+    });
+    parsed.searchParams.sort();
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+}
+
+async function normalizeBody(body: RequestInit["body"]): Promise<string> {
+  if (body === undefined || body === null) return "";
+  if (typeof body === "string") {
+    try {
+      return JSON.stringify(canonicalizeJson(JSON.parse(body)));
+    } catch {
+      return normalizeText(body);
+    }
+  }
+  if (body instanceof URLSearchParams) {
+    const sorted = new URLSearchParams(body);
+    sorted.sort();
+    return sorted.toString();
+  }
+  if (body instanceof FormData) {
+    // Upload file names carry timestamps; only field names, types and bytes count.
+    const parts: string[] = [];
+    const entries: Array<[string, FormDataEntryValue]> = [];
+    body.forEach((value, name) => entries.push([name, value]));
+    for (const [name, value] of entries) {
+      if (typeof value === "string") {
+        parts.push(`${name}=${normalizeText(value)}`);
+      } else {
+        const bytes = new Uint8Array(await value.arrayBuffer());
+        parts.push(`${name}=blob:${value.type}:${hashBytes(bytes)}`);
+      }
+    }
+    return parts.sort().join("&");
+  }
+  if (body instanceof Blob) {
+    return `blob:${body.type}:${hashBytes(new Uint8Array(await body.arrayBuffer()))}`;
+  }
+  if (body instanceof ArrayBuffer) return `bytes:${hashBytes(new Uint8Array(body))}`;
+  if (ArrayBuffer.isView(body)) {
+    return `bytes:${hashBytes(new Uint8Array(body.buffer, body.byteOffset, body.byteLength))}`;
+  }
+  return String(body);
+}
+
+/** Prompt text for the cassette file, so a recording can be recognized by eye */
+function previewBody(body: RequestInit["body"]): string | undefined {
+  if (typeof body !== "string") return undefined;
+  try {
+    const parsed = JSON.parse(body) as {
+      messages?: Array<{ role?: string; content?: unknown }>;
+      prompt?: unknown;
+      contents?: Array<{ parts?: Array<{ text?: unknown }> }>;
+    };
+    const candidates = [
+      ...(parsed.messages || [])
+        .filter((message) => message.role === "user")
+        .map((message) => message.content),
+      parsed.prompt,
+      ...(parsed.contents || []).flatMap((content) =>
+        (content.parts || []).map((part) => part.text)
+      ),
+    ];
+    const text = candidates.find((candidate) => typeof candidate === "string");
+    if (typeof text === "string") return normalizeText(text).slice(0, BODY_PREVIEW_CHARS);
+  } catch {
+    // not JSON: fall through to the raw text
+  }
+  return normalizeText(body).slice(0, BODY_PREVIEW_CHARS);
+}
+
+function resolveRequestUrl(input: RequestInfo | URL): string {
+  if (typeof input === "string") return input;
+  if (input instanceof URL) return input.toString();
+  return input.url;
+}
+
+/**
+ * Cassette key: method + URL (without secret query params) + normalized body.
+ * Headers are ignored, so API keys never influence or leak into recordings.
+ */
+export async function computeCassetteKey(
+  input: RequestInfo | URL,
+  init: RequestInit = {}
+): Promise<string> {
+  const method = String(init.method || "GET").toUpperCase();
+  return crypto
+    .createHash("sha256")
+    .update(method)
+    .update("\u0000")
+    .update(normalizeUrl(resolveRequestUrl(input)))
+    .update("\u0000")
+    .update(await normalizeBody(init.body))
+    .digest("hex")
+    .slice(0, 24);
+}
+
+// ---------------------------------------------------------------------------
+// Storage
+// ---------------------------------------------------------------------------
+
+export function getCassetteFilePath(kind: CassetteKind, key: string): string {
+  return path.join(resolveCassetteDir(), kind, `${key}.json`);
+}
+
+function readCassette(kind: CassetteKind, key: string): CassetteEntry | null {
+  const filePath = getCassetteFilePath(kind, key);
+  if (!fs.existsSync(filePath)) return null;
+  return JSON.parse(fs.readFileSync(filePath, "utf-8")) as CassetteEntry;
+}
+
+function isTextContentType(contentType: string): boolean {
+  return /^text\/|json|xml|javascript/i.test(contentType);
+}
+
+function entryToResponse(entry: CassetteEntry): Response {
+  const { response } = entry;
+  const body =
+    typeof response.bodyBase64 === "string"
+      ? Buffer.from(response.bodyBase64, "base64")
+      : response.bodyText ?? "";
+  // 204/304 responses must not carry a body
+  const nullBody = response.status === 204 || response.status === 304;
+  return new Response(nullBody ? null : body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.contentType ? { "content-type": response.contentType } : {},
+  });
+}
+
+async function responseToEntry(
+  kind: CassetteKind,
+  key: string,
+  input: RequestInfo | URL,
+  init: RequestInit,
+  response: Response
+): Promise<CassetteEntry> {
+  const contentType = response.headers.get("content-type") || "";
+  const bytes = Buffer.from(await response.clone().arrayBuffer());
+  return {
+    key,
+    kind,
+    recordedAt: new Date().toISOString(),
+    request: {
+      method: String(init.method || "GET").toUpperCase(),
+      url: normalizeUrl(resolveRequestUrl(input)),
+      ...(previewBody(init.body) ? { bodyPreview: previewBody(init.body) } : {}),
+    },
+    response: {
+      status: response.status,
+      ...(response.statusText ? { statusText: response.statusText } : {}),
+      ...(contentType ? { contentType } : {}),
+      ...(isTextContentType(contentType)
+        ? { bodyText: bytes.toString("utf-8") }
+        : { bodyBase64: bytes.toString("base64") }),
+    },
+  };
+}
+
+function createCassetteMissError(kind: CassetteKind, key: string): CassetteMissError {
+  const error = new Error(
+    `cassette が見つかりません (kind=${kind}, key=${key}, dir=${resolveCassetteDir()})。CASSETTE_MODE=record で記録してください。`
+  ) as CassetteMissError;
+  error.code = "CASSETTE_MISS";
+  error.status = 0;
+  error.kind = kind;
+  error.key = key;
+  return error;
+}
+
+// ---------------------------------------------------------------------------
+// fetch wrapper
+// ---------------------------------------------------------------------------
+
+let liveFetchOverride: typeof fetch | null = null;
+
+/** Tests can stand in for the network while recording. */
+export function setCassetteLiveFetch(fn: typeof fetch | null): void {
+  liveFetchOverride = fn;
+}
+
+/**
+ * Drop-in replacement for fetch() on outbound AI / image calls. With
+ * CASSETTE_MODE unset it is a plain pass-through.
+ */
+export async function cassetteFetch(
+  kind: CassetteKind,
+  input: RequestInfo | URL,
+  init: RequestInit = {}
+): Promise<Response> {
+  const mode = resolveCassetteMode();
+  const liveFetch = liveFetchOverride || fetch;
+  if (mode === "off") return liveFetch(input, init);
+
+  const key = await computeCassetteKey(input, init);
+  if (mode === "replay" || mode === "auto") {
+    const entry = readCassette(kind, key);
+    if (entry) return entryToResponse(entry);
+    if (mode === "replay") throw createCassetteMissError(kind, key);
+  }
+
+  const response = await liveFetch(input, init);
+  // Rate limits and server errors are transient; recording them would pin the failure.
+  if (response.status !== 429 && response.status < 500) {
+    writeJsonAtomic(
+      getCassetteFilePath(kind, key),
+      await responseToEntry(kind, key, input, init, response)
+    );
+  }
+  return response;
+}
+
+export interface CassetteValueEntry<T> {
+  key: string;
+  kind: CassetteKind;
+  recordedAt: string;
+  value: T;
+}
+
+/**
+ * Value-level cassette for calls that cannot be keyed per HTTP request
+ * (signed SDK requests, multi-step uploads). `keyMaterial` must be JSON.
+ */
+export async function withCassette<T>(
+  kind: CassetteKind,
+  keyMaterial: unknown,
+  live: () => Promise<T>
+): Promise<T> {
+  const mode = resolveCassetteMode();
+  if (mode === "off") return live();
+
+  const key = crypto
+    .createHash("sha256")
+    .update("value\u0000")
+    .update(JSON.stringify(canonicalizeJson(keyMaterial)))
+    .digest("hex")
+    .slice(0, 24);
+  const filePath = getCassetteFilePath(kind, key);
+  if (mode === "replay" || mode === "auto") {
+    if (fs.existsSync(filePath)) {
+      return (JSON.parse(fs.readFileSync(filePath, "utf-8")) as CassetteValueEntry<T>).value;
+    }
+    if (mode === "replay") throw createCassetteMissError(kind, key);
+  }
+
+  const value = await live();
+  const entry: CassetteValueEntry<T> = {
+    key,
+    kind,
+    recordedAt: new Date().toISOString(),
+    value,
+  };
+  writeJsonAtomic(filePath, entry);
+  return value;
+}
+
+/** fetch bound to one cassette kind, for SDK clients that accept a custom fetch */
+export function createCassetteFetch(kind: CassetteKind): typeof fetch {
+  return ((input: RequestInfo | URL, init?: RequestInit) =>
+    cassetteFetch(kind, input, init)) as typeof fetch;
+}
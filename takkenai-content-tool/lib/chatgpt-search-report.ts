@@ -1,4 +1,5 @@
 import type { Platform } from "./topic-engine";
+import { getPlatformDefinition } from "./platform-registry";
 
 export interface ChatgptSearchSignals {
   answerFirstIntro: boolean;
@@ -38,13 +39,17 @@ const OVERCLAIM_REGEX =
 const URL_REGEX = /https?:\/\/[^\s)）]+/g;
 const FAQ_LINE_REGEX = /^\s*(?:\*\*)?Q(?:[0-9０-９]+(?:[.．:：])?|[:：])\s*/gim;
 
+/** Guarantees of passing or earning — shared with the SNS derivative checks. */
+export function hasOverclaim(text: string): boolean {
+  return OVERCLAIM_REGEX.test(text);
+}
+
 function clampScore(value: number): number {
   return Math.max(0, Math.min(100, Math.round(value)));
 }
 
 function requiredFaqCount(platform: Platform): number {
-  if (platform === "ameba") return 1;
-  return 2;
+  return getPlatformDefinition(platform).requiredFaqCount;
 }
 
 function firstParagraph(text: string): string {
@@ -152,7 +157,7 @@ export function evaluateChatgptSearchRules(
   const citationReadySentenceCount = countCitationReadySentences(body);
   const entityDefinitionPresent = /(?:とは|とは何か|定義)/.test(body);
   const freshnessSafe = isHistoricalYearSafe(body);
-  const noOverclaim = !OVERCLAIM_REGEX.test(`${title}\n${seoTitle}\n${body}`);
+  const noOverclaim = !hasOverclaim(`${title}\n${seoTitle}\n${body}`);
   const structureExtractable =
     headings.length >= 2 &&
     faqCount >= requiredFaqCount(platform) &&
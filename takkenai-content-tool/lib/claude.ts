@@ -1,6 +1,4 @@
-import { AMEBA_SYSTEM_PROMPT, buildAmebaUserPrompt } from "./prompts/ameba";
-import { NOTE_SYSTEM_PROMPT, buildNoteUserPrompt } from "./prompts/note";
-import { HATENA_SYSTEM_PROMPT, buildHatenaUserPrompt } from "./prompts/hatena";
+import { getPlatformPrompt } from "./prompts";
 import {
   buildArticleTypePromptBlock,
   getArticleTypeOption,
@@ -28,19 +26,52 @@ import {
   type Platform,
 } from "./topic-engine";
 import { getDateSeasonalContext } from "./topic-engine";
+import {
+  getPlatformDefinition,
+  getPlatformLabel,
+  platformsOf,
+  type PlatformMap,
+} from "./platform-registry";
 import type { ContentAsset } from "./takkenai-data";
+import { buildAssetFactsPromptBlock } from "./asset-metadata";
 import {
   hasUrlOrSlugArtifacts,
   normalizeAssetLabel,
   stripUrlAndSlugArtifacts,
 } from "./topic-label";
 import type { NoteViralBrief } from "./note-viral";
+import type { CampaignSeriesContext } from "./campaigns";
+import {
+  applyTrackingParams,
+  checkTrackingParams,
+  decodeTrackingParams,
+  DEFAULT_TRACKING_CONFIG,
+  resolveTrackingParams,
+  type TrackingParams,
+} from "./tracking-template";
 import {
   extractNoteAccount,
   isNoteInternalLinksEnabled,
   isNoteUrlAllowedByAccounts,
   normalizeNoteArticleUrl,
 } from "./note-internal-link-pool";
+import { getLlmProvider } from "./llm-provider";
+import { cassetteRandom } from "./cassette";
+import type { GenerationUsage } from "./usage-ledger";
+import {
+  annotateTraceStep,
+  recordModelAttempt,
+  recordSanitizerEffect,
+  recordTraceStep,
+  traceStep,
+} from "./pipeline-trace";
+import {
+  createDraftTextListener,
+  emitGenerationStage,
+  getGenerationAbortSignal,
+  throwIfGenerationCancelled,
+  type GenerationStageEvent,
+} from "./generation-progress";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -76,6 +107,12 @@ export interface GeneratedContentMeta {
   relatedNoteUrl?: string;
   relatedNoteAccount?: string;
   relatedNoteInserted?: boolean;
+  /** Model that produced the final title/body (after fallbacks) */
+  writingModel?: string;
+  /** Tokens and estimated cost of every model call spent on this article */
+  usage?: GenerationUsage;
+  /** Pipeline trace of the run that produced this article (traces/<fileBase>.json) */
+  traceId?: string;
 }
 
 export type ComplianceMode = "strict" | "auto_fix" | "warn_only";
@@ -88,23 +125,15 @@ export interface ComplianceReport {
   trackedUrl: string;
 }
 
-interface PlatformComplianceProfile {
-  maxLinks: number;
-  allowExternalDomains: string[];
-  allowShorteners: boolean;
-  maxCtaLines: number;
-  bannedPatterns: RegExp[];
-  preferredLinkStyle: string[];
-  placementRules: {
-    avoidFirstParagraph: boolean;
-    preferSectionEnd: boolean;
-  };
-}
-
 export interface StreamCallbacks {
+  /** Stage changes: researching, drafting, review round N, translating, scoring... */
+  onStage?: (event: GenerationStageEvent) => void;
+  /** Japanese body of the draft being written, re-sent in full as it grows */
   onChunk?: (chunk: string) => void;
   onComplete?: (content: GeneratedContent) => void;
   onError?: (error: Error) => void;
+  /** Aborting cancels the generation, including in-flight model calls */
+  signal?: AbortSignal;
 }
 
 export interface GenerateContentOptions {
@@ -119,6 +148,10 @@ export interface GenerateContentOptions {
   relatedNoteUrl?: string;
   relatedNoteTitle?: string;
   relatedNoteAllowedAccounts?: string[];
+  /** Set when the piece is one part of a campaign series */
+  series?: CampaignSeriesContext;
+  /** Resolved tracking template for this entry (defaults to the built-in UTM set) */
+  trackingParams?: TrackingParams;
 }
 
 export interface OptimizeSeoGeoOptions {
@@ -130,6 +163,7 @@ export interface OptimizeSeoGeoOptions {
   evidenceMode?: "auto" | "off";
   maxRounds?: number;
   articleType?: ArticleType;
+  trackingParams?: TrackingParams;
 }
 
 export interface SeoGeoImprovementSummary {
@@ -159,10 +193,9 @@ export interface SeoGeoOptimizeResult {
 }
 
 // ---------------------------------------------------------------------------
-// OpenRouter API (OpenAI-compatible format)
+// Text model calls (provider selected by LLM_PROVIDER, see lib/llm-provider)
 // ---------------------------------------------------------------------------
 
-const OPENROUTER_URL = "https://openrouter.ai/api/v1/chat/completions";
 const DEFAULT_WRITING_MODEL = "anthropic/claude-sonnet-4.5";
 const DEFAULT_TRANSLATION_MODEL = "openai/gpt-4o-mini";
 const DEFAULT_OPENROUTER_TIMEOUT_MS = 90000;
@@ -198,11 +231,6 @@ const DEFAULT_CHATGPT_SEARCH_GATE_MODE: "hard" | "soft" = "soft";
 const DEFAULT_CHATGPT_SEARCH_TARGET_SCORE = 85;
 const SEO_GEO_PASS_THRESHOLD = 85;
 
-const TRACKING_QUERY = {
-  medium: "blog",
-  campaign: "daily_content",
-} as const;
-
 interface OptimizationEvidenceItem {
   source: string;
   year: string;
@@ -262,16 +290,6 @@ function resolveChatgptSearchTargetScore(input?: number): number {
   return Math.max(50, Math.min(100, raw));
 }
 
-function getApiKey(): string {
-  const apiKey = process.env.OPENROUTER_API_KEY;
-  if (!apiKey) {
-    throw new Error(
-      "OPENROUTER_API_KEY が設定されていません。.env.local で設定してください。"
-    );
-  }
-  return apiKey;
-}
-
 function uniqueModels(list: string[]): string[] {
   const seen = new Set<string>();
   const out: string[] = [];
@@ -355,66 +373,42 @@ function shouldRetrySameModelError(error: OpenRouterCallError): boolean {
 async function callOpenRouterOnce(
   systemPrompt: string,
   userPrompt: string,
-  model: string
-): Promise<string> {
-  const apiKey = getApiKey();
+  model: string,
+  streamDraft = false
+): Promise<OpenRouterCallResult> {
+  throwIfGenerationCancelled();
+  const provider = getLlmProvider();
   const controller = new AbortController();
   const timeoutMs = Math.max(
     5000,
     Number(process.env.OPENROUTER_TIMEOUT_MS || DEFAULT_OPENROUTER_TIMEOUT_MS)
   );
   const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+  // A cancelled streaming generation aborts the upstream request as well.
+  const generationSignal = getGenerationAbortSignal();
+  const abortOnCancel = () => controller.abort();
+  generationSignal?.addEventListener("abort", abortOnCancel);
 
   try {
-    const response = await fetch(OPENROUTER_URL, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`,
-        "HTTP-Referer": "https://takkenai.jp",
-        "X-Title": "takkenai-content-tool",
-      },
+    const response = await provider.complete({
+      systemPrompt,
+      userPrompt,
+      model,
+      maxTokens: 8192,
       signal: controller.signal,
-      body: JSON.stringify({
-        model,
-        max_tokens: 8192,
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: userPrompt },
-        ],
-      }),
+      // Fresh per attempt: a fallback model restarts the draft preview.
+      ...(streamDraft ? { onText: createDraftTextListener() } : {}),
     });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      const msg =
-        (errorData as { error?: { message?: string } })?.error?.message ||
-        `OpenRouter API error: ${response.status}`;
-      const error = new Error(msg) as OpenRouterCallError;
-      error.status = response.status;
-      error.model = model;
-      throw error;
-    }
-
-    const data = await response.json();
-    const text = data?.choices?.[0]?.message?.content;
-
-    if (!text) {
-      const error = new Error("OpenRouter からテキスト応答がありません") as OpenRouterCallError;
-      error.status = 200;
-      error.model = model;
-      throw error;
-    }
-
-    return text;
+    return { text: response.text, model: response.model };
   } catch (error) {
+    throwIfGenerationCancelled();
     const message = String((error as Error)?.message || "");
     if (
       controller.signal.aborted ||
       /aborted|abort|timed out|timeout/i.test(message)
     ) {
       const timeoutError = new Error(
-        `OpenRouter timeout after ${timeoutMs}ms`
+        `${provider.label} timeout after ${timeoutMs}ms`
       ) as OpenRouterCallError;
       timeoutError.status = 408;
       timeoutError.model = model;
@@ -423,14 +417,34 @@ async function callOpenRouterOnce(
     throw error;
   } finally {
     clearTimeout(timeoutId);
+    generationSignal?.removeEventListener("abort", abortOnCancel);
   }
 }
 
+interface OpenRouterCallResult {
+  text: string;
+  model: string;
+}
+
 async function callOpenRouter(
   systemPrompt: string,
   userPrompt: string,
   model: string = MODEL
 ): Promise<string> {
+  const result = await callOpenRouterWithModel(systemPrompt, userPrompt, model);
+  return result.text;
+}
+
+/**
+ * Same as callOpenRouter, but also reports which candidate model answered.
+ * `streamDraft` streams the answer into the live draft preview (writing calls).
+ */
+async function callOpenRouterWithModel(
+  systemPrompt: string,
+  userPrompt: string,
+  model: string = MODEL,
+  streamDraft = false
+): Promise<OpenRouterCallResult> {
   const candidates = model === MODEL ? resolveWritingModelCandidates(model) : [model];
   const maxModelAttempts = Math.max(
     1,
@@ -461,14 +475,39 @@ async function callOpenRouter(
         timeoutError.model = candidate;
         throw timeoutError;
       }
+      const attemptStartedAt = Date.now();
       try {
-        return await callOpenRouterOnce(systemPrompt, userPrompt, candidate);
+        const result = await callOpenRouterOnce(
+          systemPrompt,
+          userPrompt,
+          candidate,
+          streamDraft
+        );
+        recordModelAttempt(limitedCandidates, {
+          model: candidate,
+          attempt,
+          outcome: "ok",
+          durationMs: Date.now() - attemptStartedAt,
+        });
+        return result;
       } catch (err) {
         const openRouterError = (err instanceof Error
           ? err
           : new Error(String(err))) as OpenRouterCallError;
         openRouterError.model = openRouterError.model || candidate;
         lastError = openRouterError;
+        const recordFailedAttempt = (
+          outcome: "retry" | "fallback" | "failed",
+          fallbackTo?: string
+        ) =>
+          recordModelAttempt(limitedCandidates, {
+            model: candidate,
+            attempt,
+            outcome,
+            durationMs: Date.now() - attemptStartedAt,
+            error: openRouterError,
+            fallbackTo,
+          });
         if (
           candidate === MODEL &&
           (openRouterError.status === 408 ||
@@ -482,6 +521,7 @@ async function callOpenRouter(
         const canRetrySameModel =
           attempt < retryPerModel && shouldRetrySameModelError(openRouterError);
         if (canRetrySameModel) {
+          recordFailedAttempt("retry");
           const sleepMs = Math.min(1500, 250 * attempt);
           console.warn(
             `[openrouter] retry same model ${candidate} (${attempt}/${retryPerModel}) after error: ${openRouterError.message}`
@@ -492,8 +532,10 @@ async function callOpenRouter(
 
         const hasNext = i < limitedCandidates.length - 1;
         if (!hasNext || !shouldFallbackModelError(openRouterError)) {
+          recordFailedAttempt("failed");
           throw openRouterError;
         }
+        recordFailedAttempt("fallback", limitedCandidates[i + 1]);
         console.warn(
           `[openrouter] model fallback: ${candidate} failed (${openRouterError.message}) -> ${limitedCandidates[i + 1]}`
         );
@@ -674,14 +716,7 @@ async function collectOptimizationEvidence(params: {
 // ---------------------------------------------------------------------------
 
 function getSystemPrompt(platform: Platform): string {
-  switch (platform) {
-    case "ameba":
-      return AMEBA_SYSTEM_PROMPT;
-    case "note":
-      return NOTE_SYSTEM_PROMPT;
-    case "hatena":
-      return HATENA_SYSTEM_PROMPT;
-  }
+  return getPlatformPrompt(platform).systemPrompt;
 }
 
 function getAssetLabel(asset: ContentAsset): string {
@@ -711,7 +746,8 @@ function buildUserPrompt(
   topicLabelOverride?: string,
   articleTypeInput?: ArticleType,
   noteViralBrief?: NoteViralBrief,
-  relatedNote?: RelatedNoteLinkContext
+  relatedNote?: RelatedNoteLinkContext,
+  series?: CampaignSeriesContext
 ): string {
   const isNoteViralMode =
     platform === "note" && noteViralBrief?.enabled === true;
@@ -730,35 +766,7 @@ function buildUserPrompt(
     ? getAssetLabel(motherTopic.secondaryAsset)
     : undefined;
 
-  const angleMap: Record<Platform, string> = {
-    ameba: "場面別やさしい解説 / 実務ヒント",
-    note: "深掘り分析 / 実務視点",
-    hatena: "完全ガイド / 保存版まとめ",
-  };
-
-  const geoFormatRules: Record<Platform, string> = {
-    ameba: [
-      "- 冒頭2〜3行は問いかけ/共感シーン/具体データのどれかで自然に開始（毎回同じ導入を避ける）",
-      "- 本文で「〜とは」を1回入れ、用語定義を短く明示",
-      "- FAQは1問以上（読者の実検索に近い質問文）",
-      "- 統計/制度情報を最低1件入れ、出典名を明記（URLは不要）",
-      "- キーワード詰め込みは禁止。自然な日本語を優先",
-    ].join("\n"),
-    note: [
-      "- 冒頭は問題提起/現場シーン/意外な事実で引き込み、定型句から始めない",
-      "- H2/H3構成で「定義→背景→実務活用→FAQ」を含める",
-      "- FAQを2問以上入れ、各回答は50〜100語程度で完結に",
-      "- 数値データを1件以上入れ、出典組織・年度を本文に明記",
-      "- 引用しやすい自己完結文（1〜2文で要点完結）を1つ以上作る",
-    ].join("\n"),
-    hatena: [
-      "- 冒頭は要点を伝えつつ、問い/具体例/データのいずれかで自然に導入する",
-      "- H2/H3構造で網羅的に整理し、必要なら比較表を使う（表は任意）",
-      "- FAQを2問以上入れ、AI要約で抜き出しやすい短回答にする",
-      "- 統計や制度データを1件以上入れ、出典組織・年度を明記",
-      "- 重要ポイントは箇条書き化し、引用されやすい文を意図的に配置",
-    ].join("\n"),
-  };
+  const platformPrompt = getPlatformPrompt(platform);
   const urlRuleLine =
     platform === "note" && !isNoteViralMode
       ? "- 本文中URLは takkenai.jp の対象ページを1回必須。標準互链モード時のみ note 関連記事URLを1回まで追加可。短縮URLは禁止"
@@ -770,30 +778,23 @@ function buildUserPrompt(
     phase: motherTopic.phase,
     phaseLabel: motherTopic.phaseLabel,
     takkenaiUrl,
-    angle: angleMap[platform],
+    angle: getPlatformDefinition(platform).angle,
     secondaryAssetLabel,
     articleType: isNoteViralMode ? undefined : resolvedArticleType,
     articleTypePromptBlock: isNoteViralMode ? undefined : articleTypePromptBlock,
     articleTypeLabel: isNoteViralMode ? undefined : articleTypeOption.label,
   };
 
-  let basePrompt: string;
-  switch (platform) {
-    case "ameba":
-      basePrompt = buildAmebaUserPrompt(params);
-      break;
-    case "note":
-      basePrompt = buildNoteUserPrompt({
-        ...params,
-        noteViralBrief,
-        relatedNoteUrl: resolveRelatedNoteUrlForContext(relatedNote),
-        relatedNoteTitle: normalizeTopicLabelForCta(relatedNote?.title || ""),
-      });
-      break;
-    case "hatena":
-      basePrompt = buildHatenaUserPrompt(params);
-      break;
-  }
+  let basePrompt = platformPrompt.buildUserPrompt(
+    platform === "note"
+      ? {
+          ...params,
+          noteViralBrief,
+          relatedNoteUrl: resolveRelatedNoteUrlForContext(relatedNote),
+          relatedNoteTitle: normalizeTopicLabelForCta(relatedNote?.title || ""),
+        }
+      : params
+  );
 
   // 時令ガイドを注入 — 季節ズレ（2月に「新年」など）を防止
   const seasonalContext = getDateSeasonalContext(motherTopic.date);
@@ -831,7 +832,19 @@ ${articleTypePromptBlock}
 - 本文に「機関名+年度+具体数値」を含む根拠文を最低2文入れる（外部URLは追加しない）
 - 本文に単独引用しやすい短文（1〜2文で完結）を最低3つ入れる
 - 「SEO/GEO/属性/実行ステップ」など運営メタ情報を本文に出力しない
-${geoFormatRules[platform]}`;
+${platformPrompt.geoFormatRules.join("\n")}`;
+
+  if (series) {
+    basePrompt += `\n\n${buildSeriesPromptBlock(series)}`;
+  }
+
+  const assetFactsBlock = buildAssetFactsPromptBlock([
+    motherTopic.asset,
+    motherTopic.secondaryAsset,
+  ]);
+  if (assetFactsBlock) {
+    basePrompt += `\n\n${assetFactsBlock}`;
+  }
 
   if (researchData) {
     basePrompt += `
@@ -846,6 +859,34 @@ ${researchData}`;
   return basePrompt;
 }
 
+function buildSeriesPromptBlock(series: CampaignSeriesContext): string {
+  const lines = [
+    `## シリーズ記事（第${series.part}回 / 全${series.total}回）`,
+    `- この記事は連載「${series.name}」の第${series.part}回です。冒頭付近で連載の何回目かを自然に伝える`,
+  ];
+  if (series.previousParts.length > 0) {
+    lines.push("- 公開済みの前回までの記事:");
+    for (const part of series.previousParts) {
+      const url = part.url ? ` ${part.url}` : "";
+      lines.push(
+        `  - 第${part.part}回「${part.title}」（${part.date} ${getPlatformDefinition(part.platform).label}）${url}`
+      );
+    }
+    lines.push(
+      "- 前回までの内容はタイトルで簡潔に振り返り、重複説明は避けて今回の論点に進む",
+      "- 過去回のURLは上記URLルールで許可されたもの以外、本文に掲載しない"
+    );
+  } else if (series.part > 1) {
+    lines.push("- 前回までの記事はまだ公開されていないため、過去回への言及は最小限にする");
+  }
+  if (series.nextPart) {
+    lines.push(`- 記事の最後で次回（第${series.nextPart.part}回${series.nextPart.title ? `「${series.nextPart.title}」` : ""}）を1文で予告する`);
+  } else if (series.part === series.total) {
+    lines.push("- 最終回のため、シリーズ全体の要点を短くまとめて締めくくる");
+  }
+  return lines.join("\n");
+}
+
 // ---------------------------------------------------------------------------
 // JSON parsing
 // ---------------------------------------------------------------------------
@@ -1673,55 +1714,6 @@ function buildChineseStructuralFallback(
   };
 }
 
-const PLATFORM_COMPLIANCE_PROFILES: Record<Platform, PlatformComplianceProfile> =
-  {
-    ameba: {
-      maxLinks: 1,
-      allowExternalDomains: [],
-      allowShorteners: false,
-      maxCtaLines: 2,
-      bannedPatterns: [/今すぐやらないと損/, /絶対に合格/, /必ず稼げる/],
-      preferredLinkStyle: [
-        "本文の流れに沿う補足リンク",
-        "末尾の自然な学習導線",
-      ],
-      placementRules: {
-        avoidFirstParagraph: true,
-        preferSectionEnd: true,
-      },
-    },
-    note: {
-      maxLinks: 1,
-      allowExternalDomains: [],
-      allowShorteners: false,
-      maxCtaLines: 2,
-      bannedPatterns: [/登録しないと損/, /無料で稼ぐ/, /今すぐクリック/],
-      preferredLinkStyle: [
-        "検証内容の参考リンク",
-        "読後の補助資料リンク",
-      ],
-      placementRules: {
-        avoidFirstParagraph: true,
-        preferSectionEnd: true,
-      },
-    },
-    hatena: {
-      maxLinks: 1,
-      allowExternalDomains: [],
-      allowShorteners: false,
-      maxCtaLines: 2,
-      bannedPatterns: [/今すぐ登録/, /限定オファー/, /絶対に得する/],
-      preferredLinkStyle: [
-        "関連ツール・リソース節の補助リンク",
-        "解説末尾の参考リンク",
-      ],
-      placementRules: {
-        avoidFirstParagraph: true,
-        preferSectionEnd: true,
-      },
-    },
-  };
-
 function resolveComplianceMode(rawMode?: string): ComplianceMode {
   if (rawMode === "auto_fix" || rawMode === "warn_only" || rawMode === "strict") {
     return rawMode;
@@ -1729,18 +1721,21 @@ function resolveComplianceMode(rawMode?: string): ComplianceMode {
   return DEFAULT_COMPLIANCE_MODE;
 }
 
-export function buildTrackedTakkenaiUrl(baseUrl: string, platform: Platform): string {
-  const trimmed = baseUrl.trim();
-  if (!trimmed) return trimmed;
-  try {
-    const parsed = new URL(trimmed);
-    parsed.searchParams.set("utm_source", platform);
-    parsed.searchParams.set("utm_medium", TRACKING_QUERY.medium);
-    parsed.searchParams.set("utm_campaign", TRACKING_QUERY.campaign);
-    return parsed.toString();
-  } catch {
-    return trimmed;
-  }
+/**
+ * Adds the tracking parameters to a takkenai.jp link. Without `params`
+ * the built-in template is used (utm_source = platform, utm_medium = blog,
+ * utm_campaign = daily_content); generate-entry resolves the site, variant
+ * and campaign templates (see lib/tracking-template.ts).
+ */
+export function buildTrackedTakkenaiUrl(
+  baseUrl: string,
+  platform: Platform,
+  params?: TrackingParams
+): string {
+  return applyTrackingParams(
+    baseUrl,
+    params || resolveTrackingParams(DEFAULT_TRACKING_CONFIG, { platform })
+  );
 }
 
 function hasLikelyChineseInJapaneseField(text: string): boolean {
@@ -1868,12 +1863,12 @@ function stripAllowedUrlFromText(
 }
 
 function pickPlatformCtaTemplate(platform: Platform): string {
-  const profile = PLATFORM_COMPLIANCE_PROFILES[platform];
+  const profile = getPlatformDefinition(platform).compliance;
   const candidates = profile.preferredLinkStyle;
   if (candidates.length === 0) {
     return "関連ページ";
   }
-  const index = Math.floor(Math.random() * candidates.length);
+  const index = Math.floor(cassetteRandom() * candidates.length);
   return candidates[index];
 }
 
@@ -1904,6 +1899,18 @@ function buildSafeCtaLine(
       `${safeTopic}の入力例や判断順は、公式ページ: ${takkenaiUrl} で確認できます。`,
       `仕様と活用パターンは公式ページ: ${takkenaiUrl} にまとまっているため、あわせて参照すると実務に転用しやすくなります。`,
     ],
+    wordpress: [
+      `${safeTopic}の条件を自分のケースで確かめたい場合は、公式ページ: ${takkenaiUrl} が使えます。`,
+      `ここまでの手順をまとめて確認するなら、公式ページ: ${takkenaiUrl} を参照してください。`,
+    ],
+    qiita: [
+      `同じ計算を実装済みのツールで検算したい場合は、参考ページ: ${takkenaiUrl} が使えます。`,
+      `${safeTopic}の仕様の参考にしたページ: ${takkenaiUrl}`,
+    ],
+    x: [
+      `${safeTopic}はこちらで確認できます: ${takkenaiUrl}`,
+      `詳しい条件はこちら: ${takkenaiUrl}`,
+    ],
   };
   return pickStableVariant(templates[platform], `${platform}:${safeTopic}:${takkenaiUrl}`);
 }
@@ -1914,7 +1921,7 @@ function mergeWithInsertedCta(
   platform: Platform,
   topicLabel: string
 ): string {
-  const profile = PLATFORM_COMPLIANCE_PROFILES[platform];
+  const profile = getPlatformDefinition(platform).compliance;
   const paragraphs = body
     .split(/\n{2,}/)
     .map((item) => item.trim())
@@ -2371,7 +2378,7 @@ export function validatePlatformCompliance(
     ? resolveRelatedNoteUrlForContext(linkContext)
     : "";
 
-  const profile = PLATFORM_COMPLIANCE_PROFILES[platform];
+  const profile = getPlatformDefinition(platform).compliance;
   const issues: string[] = [];
   const body = content.body || "";
   const urls = extractUrls(body);
@@ -2405,6 +2412,8 @@ export function validatePlatformCompliance(
         takkenUrlCount += 1;
         if (!isAllowedTakkenaiUrl(url, takkenaiUrl)) {
           issues.push("URLパスが指定リンクと一致しません（queryは許可、pathは一致必須）");
+        } else {
+          issues.push(...checkTrackingParams(url, decodeTrackingParams(takkenaiUrl).params));
         }
       } else if (host === "note.com") {
         noteUrlCount += 1;
@@ -2691,7 +2700,7 @@ function normalizeFaqSectionToQa(
 
   const lines = body.split(/\r?\n/);
   if (lines.length === 0) return body;
-  const requiredFaqCount = platform === "ameba" ? 1 : 2;
+  const requiredFaqCount = getPlatformDefinition(platform).requiredFaqCount;
   const output: string[] = [];
 
   for (let i = 0; i < lines.length; i++) {
@@ -3164,10 +3173,11 @@ function sanitizeUrlArtifactsInContent(
   takkenaiUrl: string,
   topicLabel: string,
   platform: Platform,
-  relatedNote?: RelatedNoteLinkContext
+  relatedNote?: RelatedNoteLinkContext,
+  trackingParams?: TrackingParams
 ): GeneratedContent {
   const replacementLabel = topicLabel || "このテーマ";
-  const trackedLink = buildTrackedTakkenaiUrl(takkenaiUrl, platform);
+  const trackedLink = buildTrackedTakkenaiUrl(takkenaiUrl, platform, trackingParams);
   const allowedLink = trackedLink.trim();
   const URL_PLACEHOLDER = "__TAKKENAI_ALLOWED_LINK__";
 
@@ -3194,7 +3204,13 @@ function sanitizeUrlArtifactsInContent(
     takkenaiUrl,
     replacementLabel
   );
+  recordSanitizerEffect("stripForeignUrls", dedupedBody, bodyWithoutForeignUrls);
   const bodyReaderCleaned = removeNonReaderFacingArtifacts(bodySansSlugArtifacts);
+  recordSanitizerEffect(
+    "removeNonReaderFacingArtifacts",
+    bodySansSlugArtifacts,
+    bodyReaderCleaned
+  );
   const bodyNoFormulaLead = stripFormulaicLeadSentence(bodyReaderCleaned);
   const bodyFaqCollapsed = collapseDuplicateFaqSections(bodyNoFormulaLead);
   const bodyHeadingEnriched = enrichSparseHeadingSections(
@@ -3202,6 +3218,11 @@ function sanitizeUrlArtifactsInContent(
     replacementLabel
   );
   const bodyPostEnrichCleaned = removeNonReaderFacingArtifacts(bodyHeadingEnriched);
+  recordSanitizerEffect(
+    "removeNonReaderFacingArtifacts",
+    bodyHeadingEnriched,
+    bodyPostEnrichCleaned
+  );
   const bodyFaqGuidanceRemoved = removeFaqMetaGuidanceSentences(bodyPostEnrichCleaned);
   const bodyWithRestoredUrl = keptAllowedUrl
     ? bodyFaqGuidanceRemoved.replace(URL_PLACEHOLDER, allowedLink)
@@ -3218,7 +3239,17 @@ function sanitizeUrlArtifactsInContent(
   const bodyLineDeduped = dedupeRepeatedNarrativeLinesPreferUrl(
     bodyFaqNormalized
   );
+  recordSanitizerEffect(
+    "dedupeRepeatedNarrativeLines",
+    bodyFaqNormalized,
+    bodyLineDeduped
+  );
   const bodyFinalReaderCleaned = removeNonReaderFacingArtifacts(bodyLineDeduped);
+  recordSanitizerEffect(
+    "removeNonReaderFacingArtifacts",
+    bodyLineDeduped,
+    bodyFinalReaderCleaned
+  );
   const body = ensureSingleBodyCtaLink(
     bodyFinalReaderCleaned,
     allowedLink,
@@ -3270,36 +3301,9 @@ function buildReviewPrompt(
 ): string {
   const seasonalContext = getDateSeasonalContext(dateStr);
 
-  const platformRules: Record<Platform, string> = {
-    ameba: `【Ameba（アメブロ）のルール】
-- 文体: カジュアルで親しみやすい口語体（「〜だよ」「〜だね」「〜しよう！」）
-- 文字数: 800〜1200文字（厳守）
-- 構成: アイキャッチ導入 → 日常/実務シーン → 解説 → ワンポイント → CTA
-- 絵文字: 適度に使用（1段落に1〜2個）
-- CTAリンク: 記事末尾に1つだけ
-- ターゲット: 宅建受験生（フレンドリーな仲間として）
-- 読者が「気軽に読める」「楽しい」と感じること`,
-    note: `【noteのルール】
-- 文体: 「です・ます」調のプロフェッショナルな文体
-- 文字数: 2000〜3000文字（厳守）
-- 構成: フック導入 → 3セクション（見出し付き） → まとめ → CTA
-- 絵文字: 基本的に使わない
-- ハッシュタグ: 3〜4個
-- ターゲット: 20〜40代の学習意欲の高い社会人
-- 読者が「なるほど」「深い」と感じる独自の切り口があること`,
-    hatena: `【はてなブログのルール】
-- 文体: 「です・ます」調＋「〜である」調の混在OK、客観的・分析的
-- 文字数: 1500〜3000文字（厳守）
-- 構成: 導入 → H2/H3見出しで構造化 → まとめ → 関連ツール
-- 絵文字: 使わない
-- テーブル（表）: 任意（比較データがある場合に推奨）
-- ターゲット: ITリテラシーが高い読者
-- 「ブックマークして後で見返したい」品質であること`,
-  };
-
   return `以下のブログ記事を厳格にレビューしてください。
 
-${platformRules[platform]}
+${getPlatformPrompt(platform).reviewRules}
 
 ${seasonalContext}
 
@@ -4357,24 +4361,37 @@ function pickStableVariant(values: string[], seed: string): string {
 }
 
 function buildHumanizedIntro(platform: Platform, keyword: string): string {
-  const ameba = [
-    `最近、${keyword}で手が止まる人が増えています。どこで迷いやすいか、先に整理しておきましょう。`,
-    `${keyword}は「順番」を押さえるだけで解きやすくなります。今日はつまずきやすい所から見ていきます。`,
-    `「これ、なんとなく分かる」で進むと${keyword}は失点しがちです。最初に判断の軸を確認しましょう。`,
-  ];
-  const note = [
-    `${keyword}は、暗記よりも判断手順の設計で差が出ます。実務に繋がる観点から要点を解いていきます。`,
-    `同じ${keyword}でも、読む順番を変えるだけで理解速度は大きく変わります。先に全体像を掴みましょう。`,
-    `見落とされがちですが、${keyword}は現場判断に直結します。試験対策と実務の接点を整理します。`,
-  ];
-  const hatena = [
-    `${keyword}は「論点の切り分け方」で精度が変わります。まず判断フローの骨格から整理します。`,
-    `表面的な暗記だけでは${keyword}は安定しません。実務で再利用できる形に構造化して確認します。`,
-    `${keyword}は似た論点との境界整理が鍵です。誤判定を防ぐための確認順を先に示します。`,
-  ];
+  const intros: Record<Platform, string[]> = {
+    ameba: [
+      `最近、${keyword}で手が止まる人が増えています。どこで迷いやすいか、先に整理しておきましょう。`,
+      `${keyword}は「順番」を押さえるだけで解きやすくなります。今日はつまずきやすい所から見ていきます。`,
+      `「これ、なんとなく分かる」で進むと${keyword}は失点しがちです。最初に判断の軸を確認しましょう。`,
+    ],
+    note: [
+      `${keyword}は、暗記よりも判断手順の設計で差が出ます。実務に繋がる観点から要点を解いていきます。`,
+      `同じ${keyword}でも、読む順番を変えるだけで理解速度は大きく変わります。先に全体像を掴みましょう。`,
+      `見落とされがちですが、${keyword}は現場判断に直結します。試験対策と実務の接点を整理します。`,
+    ],
+    hatena: [
+      `${keyword}は「論点の切り分け方」で精度が変わります。まず判断フローの骨格から整理します。`,
+      `表面的な暗記だけでは${keyword}は安定しません。実務で再利用できる形に構造化して確認します。`,
+      `${keyword}は似た論点との境界整理が鍵です。誤判定を防ぐための確認順を先に示します。`,
+    ],
+    wordpress: [
+      `${keyword}で検索した人が最初に知りたい答えから先にまとめます。手順と注意点はその後で確認します。`,
+      `${keyword}は条件によって結論が変わります。まず判断の分かれ目を押さえてから詳しく見ていきます。`,
+    ],
+    qiita: [
+      `${keyword}を仕様として整理し、計算・判定のロジックに落とし込みます。`,
+      `${keyword}のルールは条件分岐に置き換えると見通しがよくなります。前提から順に整理します。`,
+    ],
+    x: [
+      `${keyword}、判断の順番を押さえるだけで迷いにくくなります。`,
+      `${keyword}で間違えやすいポイントを短くまとめます。`,
+    ],
+  };
 
-  const candidates =
-    platform === "ameba" ? ameba : platform === "note" ? note : hatena;
+  const candidates = intros[platform];
   return pickStableVariant(candidates, `${platform}:${keyword}`);
 }
 
@@ -4512,7 +4529,7 @@ function ensureSeoGeoStructure(
     text += "\n\n- 適用条件を先に固定してから比較する\n- 例外条件を通常ルールと分けて最終確認する";
   }
 
-  const requiredFaqCount = platform === "ameba" ? 1 : 2;
+  const requiredFaqCount = getPlatformDefinition(platform).requiredFaqCount;
   const existingQCount =
     (text.match(/^\s*(?:\*\*)?Q(?:[0-9０-９]+(?:[.．:：])?|[:：])\s*/gm) || []).length;
   const hasFaqHeading = /^##+\s*FAQ\s*$/im.test(text);
@@ -4566,7 +4583,7 @@ function validateFaqQaStructure(platform: Platform, body: string): string[] {
 
   const qCount = (body.match(FAQ_QUESTION_LINE_GLOBAL_REGEX) || []).length;
   const aCount = (body.match(FAQ_ANSWER_LINE_GLOBAL_REGEX) || []).length;
-  const required = platform === "ameba" ? 1 : 2;
+  const required = getPlatformDefinition(platform).requiredFaqCount;
   if (qCount < required || aCount < required) {
     issues.push(
       `FAQ は読者向けQ/A形式で最低${required}問必要です（Q:${qCount}, A:${aCount}）`
@@ -4665,9 +4682,11 @@ export async function optimizeSeoGeoForContent(
   const maxRounds = Math.max(1, Math.min(4, options.maxRounds ?? 3));
   const referenceDate = new Date().toISOString().slice(0, 10);
 
+  const trackingParams = options.trackingParams;
   const trackedTakkenaiUrl = buildTrackedTakkenaiUrl(
     takkenaiUrl || inputContent.takkenaiLink || "",
-    platform
+    platform,
+    trackingParams
   );
   const inferredAssetType: AssetType = trackedTakkenaiUrl.toLowerCase().includes("/tools/")
     ? "tool"
@@ -4724,7 +4743,8 @@ export async function optimizeSeoGeoForContent(
     takkenaiUrl || trackedTakkenaiUrl,
     keywordLabel,
     platform,
-    optimizeRelatedNote
+    optimizeRelatedNote,
+    trackingParams
   );
   working = sanitizeHistoricalDateUsageArtifacts(working, referenceDate);
 
@@ -4878,7 +4898,7 @@ export async function optimizeSeoGeoForContent(
       break;
     }
 
-    const requiredFaqCount = platform === "ameba" ? 1 : 2;
+    const requiredFaqCount = getPlatformDefinition(platform).requiredFaqCount;
     const platformExtraRule =
       platform === "hatena"
         ? "- Markdown表は任意。比較データがある場合のみ活用し、なくても箇条書きで明確に整理する\n"
@@ -4935,7 +4955,7 @@ export async function optimizeSeoGeoForContent(
       `- title/bodyは日本語のみ\n` +
       `- 事実やデータは捏造しない\n` +
       `${urlRuleLine}\n` +
-      `- FAQは最低${requiredFaqCount}問\n` +
+      (requiredFaqCount > 0 ? `- FAQは最低${requiredFaqCount}問\n` : `- FAQ節は入れない\n`) +
       `- 冒頭は問い/具体場面/データのいずれかで自然に始め、定型句「結論として」で固定しない\n` +
       `- H2/H3で構造化する\n` +
       `- 「〜とは」定義を1つ入れる\n` +
@@ -4957,12 +4977,15 @@ export async function optimizeSeoGeoForContent(
       `}`;
 
     let revisedRaw = "";
+    let revisedModel = working.meta?.writingModel;
     try {
-      revisedRaw = await withTimeout(
-        callOpenRouter(systemPrompt, userPrompt),
+      const revisedResult = await withTimeout(
+        callOpenRouterWithModel(systemPrompt, userPrompt),
         12000,
         "seo-geo optimize"
       );
+      revisedRaw = revisedResult.text;
+      revisedModel = revisedResult.model;
     } catch (error) {
       console.warn("[seo-geo] optimize round failed:", error);
       executedRounds = round;
@@ -4979,13 +5002,15 @@ export async function optimizeSeoGeoForContent(
         takkenaiLink: trackedTakkenaiUrl,
         meta: {
           ...(working.meta || {}),
+          ...(revisedModel ? { writingModel: revisedModel } : {}),
           ...(!isNoteViralMode ? { articleType: resolvedArticleType } : {}),
         },
       },
       takkenaiUrl || trackedTakkenaiUrl,
       keywordLabel,
       platform,
-      optimizeRelatedNote
+      optimizeRelatedNote,
+      trackingParams
     );
 
     revised.body = dedupeParagraphs(revised.body);
@@ -5030,7 +5055,8 @@ export async function optimizeSeoGeoForContent(
     takkenaiUrl || trackedTakkenaiUrl,
     keywordLabel,
     platform,
-    optimizeRelatedNote
+    optimizeRelatedNote,
+    trackingParams
   );
   const structuredCandidate = sanitizeHistoricalDateUsageArtifacts(
     structuredCandidateRaw,
@@ -5224,7 +5250,8 @@ export async function generateContent(
   const complianceMode = resolveComplianceMode(
     options.complianceMode ?? process.env.COMPLIANCE_MODE
   );
-  const trackedTakkenaiUrl = buildTrackedTakkenaiUrl(takkenaiUrl, platform);
+  const trackingParams = options.trackingParams;
+  const trackedTakkenaiUrl = buildTrackedTakkenaiUrl(takkenaiUrl, platform, trackingParams);
   const resolvedArticleType = resolveArticleType(
     options.articleType,
     getRecommendedArticleType(
@@ -5264,13 +5291,28 @@ export async function generateContent(
   // Step 1: Research — gather real data from the web via Perplexity
   const topicLabel =
     (options.topicLabelOverride || "").trim() || getAssetLabel(motherTopic.asset);
+  if (enableResearch) {
+    emitGenerationStage({ stage: "research" });
+  }
   const researchData = enableResearch
-    ? await researchTopic(
-        topicLabel,
-        motherTopic.asset.type,
-        motherTopic.phaseLabel
+    ? await traceStep(
+        "research",
+        { input: { topicLabel, phaseLabel: motherTopic.phaseLabel } },
+        () =>
+          researchTopic(
+            topicLabel,
+            motherTopic.asset.type,
+            motherTopic.phaseLabel
+          ),
+        (research) => ({
+          status: research ? "ok" : "skipped",
+          output: { chars: research.length, preview: research },
+        })
       )
     : "";
+  if (!enableResearch) {
+    recordTraceStep("research", { status: "skipped", input: { topicLabel } });
+  }
 
   // Step 2: Generate content with research data as context
   const systemPrompt = getSystemPrompt(platform);
@@ -5282,7 +5324,8 @@ export async function generateContent(
     topicLabel,
     resolvedArticleType,
     platform === "note" ? options.noteViralBrief : undefined,
-    relatedNote
+    relatedNote,
+    options.series
   );
   const freshnessIssues = isNoteViralMode
     ? []
@@ -5291,67 +5334,114 @@ export async function generateContent(
     throw new Error(`[${platform}] ${freshnessIssues.join(" / ")}`);
   }
 
-  let rawText = await callOpenRouter(systemPrompt, userPrompt);
-  let content = sanitizeUrlArtifactsInContent(
-    parseGeneratedContent(rawText),
-    takkenaiUrl,
-    topicLabel,
-    platform,
-    relatedNote
+  let writingModel = MODEL;
+  const callWritingModel = async (prompt: string): Promise<string> => {
+    const result = await callOpenRouterWithModel(systemPrompt, prompt, MODEL, true);
+    writingModel = result.model;
+    return result.text;
+  };
+
+  const describeDraft = (candidate: GeneratedContent) => ({
+    output: {
+      model: writingModel,
+      title: candidate.title,
+      bodyChars: candidate.body.length,
+    },
+  });
+
+  emitGenerationStage({ stage: "draft" });
+  let rawText = "";
+  let content = await traceStep(
+    "draft",
+    {
+      input: {
+        articleType: isNoteViralMode ? "note-viral" : resolvedArticleType,
+        trackedUrl: trackedTakkenaiUrl,
+        promptChars: userPrompt.length,
+      },
+    },
+    async () => {
+      rawText = await callWritingModel(userPrompt);
+      let draft = sanitizeUrlArtifactsInContent(
+        parseGeneratedContent(rawText),
+        takkenaiUrl,
+        topicLabel,
+        platform,
+        relatedNote,
+        trackingParams
+      );
+      if (!isNoteViralMode) {
+        draft.body = applyArticleTypeFallbackStructure(
+          draft.body,
+          resolvedArticleType,
+          topicLabel
+        );
+        draft = sanitizeUrlArtifactsInContent(
+          draft,
+          takkenaiUrl,
+          topicLabel,
+          platform,
+          relatedNote,
+          trackingParams
+        );
+      }
+      return draft;
+    },
+    describeDraft
   );
-  if (!isNoteViralMode) {
-    content.body = applyArticleTypeFallbackStructure(
-      content.body,
-      resolvedArticleType,
-      topicLabel
-    );
-    content = sanitizeUrlArtifactsInContent(
-      content,
-      takkenaiUrl,
-      topicLabel,
-      platform,
-      relatedNote
-    );
-  }
 
   // Step 3: Quality review loop
   for (let round = 0; round < reviewRounds; round++) {
-    const hardIssues = [
-      ...validateJapaneseFields(content, trackedTakkenaiUrl, linkPolicyContext),
-      ...collectHistoricalIssues(content),
-      ...validatePlatformSafety(content),
-      ...validateHeadingDetailDepth(content.body),
-      ...validateFaqQaStructure(platform, content.body),
-      ...validateReaderFacingBodyOnly(content.body),
-      ...collectArticleTypeIssues(content.body),
-    ];
+    emitGenerationStage({ stage: "review", round: round + 1 });
+    const review = await traceStep(
+      "review",
+      { label: `round ${round + 1}` },
+      async () => {
+        const hardIssues = [
+          ...validateJapaneseFields(content, trackedTakkenaiUrl, linkPolicyContext),
+          ...collectHistoricalIssues(content),
+          ...validatePlatformSafety(content),
+          ...validateHeadingDetailDepth(content.body),
+          ...validateFaqQaStructure(platform, content.body),
+          ...validateReaderFacingBodyOnly(content.body),
+          ...collectArticleTypeIssues(content.body),
+        ];
+        annotateTraceStep({
+          reviewer: hardIssues.length > 0 ? "deterministic" : "model",
+        });
 
-    const review =
-      hardIssues.length > 0
-        ? {
-            passed: false,
-            issues: hardIssues,
-            suggestions: [
-              "title と body は必ず100%ネイティブ日本語で出力すること（中国語禁止）",
-              "中国語は titleChinese / bodyChinese のみに出力し、本文に混ぜないこと",
-              "body に JSON キー（titleChinese/bodyChinese/hashtags）を含めないこと",
-              "誇大・断定・煽り表現（絶対合格/必ず受かる/100%稼げる 等）を削除し、事実ベースで表現すること",
-              urlRuleForCopy,
-              "タイトル/SEOタイトル/画像説明に過去年（例: 2024年）を入れないこと",
-              "本文で過去年に言及する場合は必ず出典や調査文脈を付けること",
-              ...(isNoteViralMode
-                ? []
-                : [
-                    `記事タイプ（${getArticleTypeOption(resolvedArticleType).label}）の構成要件を満たすこと`,
-                  ]),
-            ],
-          }
-        : parseReviewResult(
-            await callOpenRouter(
-              REVIEW_SYSTEM_PROMPT,
-              buildReviewPrompt(platform, content, motherTopic.date)
-            )
-          );
+        return hardIssues.length > 0
+          ? {
+              passed: false,
+              issues: hardIssues,
+              suggestions: [
+                "title と body は必ず100%ネイティブ日本語で出力すること（中国語禁止）",
+                "中国語は titleChinese / bodyChinese のみに出力し、本文に混ぜないこと",
+                "body に JSON キー（titleChinese/bodyChinese/hashtags）を含めないこと",
+                "誇大・断定・煽り表現（絶対合格/必ず受かる/100%稼げる 等）を削除し、事実ベースで表現すること",
+                urlRuleForCopy,
+                "タイトル/SEOタイトル/画像説明に過去年（例: 2024年）を入れないこと",
+                "本文で過去年に言及する場合は必ず出典や調査文脈を付けること",
+                ...(isNoteViralMode
+                  ? []
+                  : [
+                      `記事タイプ（${getArticleTypeOption(resolvedArticleType).label}）の構成要件を満たすこと`,
+                    ]),
+              ],
+            }
+          : parseReviewResult(
+              await callOpenRouter(
+                REVIEW_SYSTEM_PROMPT,
+                buildReviewPrompt(platform, content, motherTopic.date)
+              )
+            );
+      },
+      (result) => ({
+        status: result.passed ? "ok" : "failed",
+        output: { passed: result.passed },
+        issues: result.issues,
+      })
+    );
 
     if (review.passed) {
       console.log(`[${platform}] Quality review passed (round ${round + 1})`);
@@ -5377,13 +5467,25 @@ ${review.suggestions.map((s, idx) => `${idx + 1}. ${s}`).join("\n")}
 
 【重要】上記の指摘をすべて反映した修正版を出力してください。同じミスを繰り返さないこと。`;
 
-    rawText = await callOpenRouter(systemPrompt, revisionPrompt);
-    content = sanitizeUrlArtifactsInContent(
-      parseGeneratedContent(rawText),
-      takkenaiUrl,
-      topicLabel,
-      platform,
-      relatedNote
+    emitGenerationStage({ stage: "revision", round: round + 1 });
+    content = await traceStep(
+      "draft",
+      {
+        label: `revision round ${round + 1}`,
+        input: { promptChars: revisionPrompt.length },
+      },
+      async () => {
+        rawText = await callWritingModel(revisionPrompt);
+        return sanitizeUrlArtifactsInContent(
+          parseGeneratedContent(rawText),
+          takkenaiUrl,
+          topicLabel,
+          platform,
+          relatedNote,
+          trackingParams
+        );
+      },
+      describeDraft
     );
   }
 
@@ -5413,20 +5515,41 @@ ${platformComplianceIssues.map((item, idx) => `${idx + 1}. ${item}`).join("\n")}
 4. タイトルと imagePrompt にURLを入れない
 `;
 
-    rawText = await callOpenRouter(systemPrompt, complianceRevisionPrompt);
-    content = sanitizeUrlArtifactsInContent(
-      parseGeneratedContent(rawText),
-      takkenaiUrl,
-      topicLabel,
-      platform,
-      relatedNote
-    );
-    platformComplianceIssues = validatePlatformCompliance(
-      content,
-      platform,
-      trackedTakkenaiUrl,
-      linkPolicyContext
+    emitGenerationStage({ stage: "compliance-fix" });
+    content = await traceStep(
+      "compliance-fix",
+      { input: { complianceMode, issues: platformComplianceIssues } },
+      async () => {
+        rawText = await callWritingModel(complianceRevisionPrompt);
+        return sanitizeUrlArtifactsInContent(
+          parseGeneratedContent(rawText),
+          takkenaiUrl,
+          topicLabel,
+          platform,
+          relatedNote,
+          trackingParams
+        );
+      },
+      (revised) => {
+        platformComplianceIssues = validatePlatformCompliance(
+          revised,
+          platform,
+          trackedTakkenaiUrl,
+          linkPolicyContext
+        );
+        return {
+          status: platformComplianceIssues.length === 0 ? "ok" : "failed",
+          output: { model: writingModel, bodyChars: revised.body.length },
+          issues: platformComplianceIssues,
+        };
+      }
     );
+  } else if (platformComplianceIssues.length > 0) {
+    recordTraceStep("compliance-fix", {
+      status: "skipped",
+      input: { complianceMode },
+      issues: platformComplianceIssues,
+    });
   }
 
   if (!isNoteViralMode) {
@@ -5441,9 +5564,16 @@ ${platformComplianceIssues.map((item, idx) => `${idx + 1}. ${item}`).join("\n")}
     takkenaiUrl,
     topicLabel,
     platform,
-    relatedNote
+    relatedNote,
+    trackingParams
   );
-  content = sanitizeHistoricalDateUsageArtifacts(content, motherTopic.date);
+  emitGenerationStage({ stage: "final-check" });
+  const dateSanitizedContent = sanitizeHistoricalDateUsageArtifacts(
+    content,
+    motherTopic.date
+  );
+  const historicalYearsRewritten = dateSanitizedContent.body !== content.body;
+  content = dateSanitizedContent;
   const collectFinalHardIssues = (candidate: GeneratedContent): string[] => [
     ...validateJapaneseFields(candidate, trackedTakkenaiUrl, linkPolicyContext),
     ...collectHistoricalIssues(candidate),
@@ -5453,6 +5583,7 @@ ${platformComplianceIssues.map((item, idx) => `${idx + 1}. ${item}`).join("\n")}
     ...collectArticleTypeIssues(candidate.body),
   ];
   let finalHardIssues = collectFinalHardIssues(content);
+  const initialFinalHardIssues = finalHardIssues;
 
   // Final deterministic guard: enforce article-type structure one more time after sanitization.
   if (
@@ -5483,7 +5614,8 @@ ${platformComplianceIssues.map((item, idx) => `${idx + 1}. ${item}`).join("\n")}
       takkenaiUrl,
       topicLabel,
       platform,
-      relatedNote
+      relatedNote,
+      trackingParams
     );
     const sanitizedIssues = validateJapaneseFields(
       urlSanitizedContent,
@@ -5497,6 +5629,17 @@ ${platformComplianceIssues.map((item, idx) => `${idx + 1}. ${item}`).join("\n")}
     const sanitizedReaderBodyIssues = validateReaderFacingBodyOnly(
       urlSanitizedContent.body
     );
+    const autoSanitizeIssues = [
+      ...sanitizedIssues,
+      ...sanitizedFreshnessIssues,
+      ...sanitizedTypeIssues,
+      ...sanitizedReaderBodyIssues,
+    ];
+    recordTraceStep("auto-sanitize", {
+      status: autoSanitizeIssues.length === 0 ? "ok" : "failed",
+      output: { applied: autoSanitizeIssues.length === 0 },
+      issues: autoSanitizeIssues,
+    });
     if (
       sanitizedIssues.length === 0 &&
       sanitizedFreshnessIssues.length === 0 &&
@@ -5536,35 +5679,48 @@ ${platformComplianceIssues.map((item, idx) => `${idx + 1}. ${item}`).join("\n")}
 6. bodyで過去年を使う場合は、必ず出典・調査・統計の引用文脈を付ける
 `;
 
-    const emergencyRaw = await callOpenRouter(systemPrompt, emergencyPrompt);
-    const emergencyContent = sanitizeUrlArtifactsInContent(
-      parseGeneratedContent(emergencyRaw),
-      takkenaiUrl,
-      topicLabel,
-      platform,
-      relatedNote
-    );
-    const emergencyIssues = validateJapaneseFields(
-      emergencyContent,
-      trackedTakkenaiUrl,
-      linkPolicyContext
+    const emergency = await traceStep(
+      "emergency-regeneration",
+      { input: { issues: finalHardIssues } },
+      async () => {
+        const emergencyResult = await callOpenRouterWithModel(systemPrompt, emergencyPrompt);
+        const emergencyContent = sanitizeUrlArtifactsInContent(
+          parseGeneratedContent(emergencyResult.text),
+          takkenaiUrl,
+          topicLabel,
+          platform,
+          relatedNote,
+          trackingParams
+        );
+        return {
+          model: emergencyResult.model,
+          content: emergencyContent,
+          issues: [
+            ...validateJapaneseFields(
+              emergencyContent,
+              trackedTakkenaiUrl,
+              linkPolicyContext
+            ),
+            ...validateHeadingDetailDepth(emergencyContent.body),
+            ...validateFaqQaStructure(platform, emergencyContent.body),
+            ...collectHistoricalIssues(emergencyContent),
+            ...collectArticleTypeIssues(emergencyContent.body),
+          ],
+        };
+      },
+      (result) => ({
+        status: result.issues.length === 0 ? "ok" : "failed",
+        output: { model: result.model, applied: result.issues.length === 0 },
+        issues: result.issues,
+      })
     );
-    const emergencyDepthIssues = validateHeadingDetailDepth(emergencyContent.body);
-    const emergencyFaqIssues = validateFaqQaStructure(platform, emergencyContent.body);
-    const emergencyFreshnessIssues = collectHistoricalIssues(emergencyContent);
-    const emergencyTypeIssues = collectArticleTypeIssues(emergencyContent.body);
 
-    if (
-      emergencyIssues.length === 0 &&
-      emergencyDepthIssues.length === 0 &&
-      emergencyFaqIssues.length === 0 &&
-      emergencyFreshnessIssues.length === 0 &&
-      emergencyTypeIssues.length === 0
-    ) {
+    if (emergency.issues.length === 0) {
       console.warn(
         `[${platform}] Applied emergency Japanese-quality regeneration fallback`
       );
-      content = emergencyContent;
+      content = emergency.content;
+      writingModel = emergency.model;
       finalHardIssues = [];
     }
   }
@@ -5595,7 +5751,8 @@ ${platformComplianceIssues.map((item, idx) => `${idx + 1}. ${item}`).join("\n")}
       takkenaiUrl,
       topicLabel,
       platform,
-      relatedNote
+      relatedNote,
+      trackingParams
     );
     if (!isNoteViralMode) {
       rescuedContent.body = applyArticleTypeFallbackStructure(
@@ -5608,7 +5765,8 @@ ${platformComplianceIssues.map((item, idx) => `${idx + 1}. ${item}`).join("\n")}
         takkenaiUrl,
         topicLabel,
         platform,
-        relatedNote
+        relatedNote,
+        trackingParams
       );
     }
     const rescueIssues = validateJapaneseFields(
@@ -5620,6 +5778,17 @@ ${platformComplianceIssues.map((item, idx) => `${idx + 1}. ${item}`).join("\n")}
     const rescueDepthIssues = validateHeadingDetailDepth(rescuedContent.body);
     const rescueFaqIssues = validateFaqQaStructure(platform, rescuedContent.body);
     const rescueTypeIssues = collectArticleTypeIssues(rescuedContent.body);
+    recordTraceStep("contamination-rescue", {
+      status: rescueIssues.length === 0 ? "ok" : "failed",
+      output: { applied: rescueIssues.length === 0 },
+      issues: [
+        ...rescueIssues,
+        ...rescueFreshnessIssues,
+        ...rescueDepthIssues,
+        ...rescueFaqIssues,
+        ...rescueTypeIssues,
+      ],
+    });
     if (rescueIssues.length === 0) {
       content = rescuedContent;
       finalHardIssues = [
@@ -5636,6 +5805,11 @@ ${platformComplianceIssues.map((item, idx) => `${idx + 1}. ${item}`).join("\n")}
     }
   }
 
+  recordTraceStep("final-check", {
+    status: finalHardIssues.length === 0 ? "ok" : "failed",
+    input: { historicalYearsRewritten, initialIssues: initialFinalHardIssues },
+    issues: finalHardIssues,
+  });
   if (finalHardIssues.length > 0) {
     throw new Error(
       `[${platform}] 最終品質チェック失敗: ${finalHardIssues.join(" / ")}`
@@ -5648,6 +5822,17 @@ ${platformComplianceIssues.map((item, idx) => `${idx + 1}. ${item}`).join("\n")}
     trackedTakkenaiUrl,
     linkPolicyContext
   );
+  recordTraceStep("platform-compliance", {
+    status:
+      platformComplianceIssues.length === 0
+        ? "ok"
+        : complianceMode === "strict"
+          ? "failed"
+          : "skipped",
+    input: { complianceMode },
+    output: { linkCount: extractUrls(content.body).length },
+    issues: platformComplianceIssues,
+  });
   if (platformComplianceIssues.length > 0 && complianceMode === "strict") {
     throw new Error(
       `[${platform}] プラットフォーム合規チェック失敗: ${platformComplianceIssues.join(
@@ -5667,6 +5852,7 @@ ${platformComplianceIssues.map((item, idx) => `${idx + 1}. ${item}`).join("\n")}
   const chatgptSearchEnabled = resolveChatgptSearchEnabled();
   const chatgptSearchGateMode = resolveChatgptSearchGateMode();
   const targetChatgptSearchScore = resolveChatgptSearchTargetScore();
+  emitGenerationStage({ stage: "scoring" });
   let baseSeoGeoReport = evaluateSeoGeoRules({
     platform,
     title: content.title,
@@ -5675,6 +5861,16 @@ ${platformComplianceIssues.map((item, idx) => `${idx + 1}. ${item}`).join("\n")}
     primaryKeyword: topicLabel,
     trackedUrl: trackedTakkenaiUrl,
   });
+  recordTraceStep("seo-geo-scoring", {
+    label: "rules",
+    output: {
+      seoScore: baseSeoGeoReport.seoScore,
+      geoScore: baseSeoGeoReport.geoScore,
+      chatgptSearchScore: baseSeoGeoReport.chatgptSearchScore,
+      chatgptSearchTarget: chatgptSearchEnabled ? targetChatgptSearchScore : null,
+    },
+    issues: baseSeoGeoReport.chatgptSearchIssues,
+  });
   if (
     chatgptSearchEnabled &&
     baseSeoGeoReport.chatgptSearchScore < targetChatgptSearchScore
@@ -5695,59 +5891,86 @@ ${baseSeoGeoReport.chatgptSearchIssues.map((item, idx) => `${idx + 1}. ${item}`)
 - URLは既存ルールを維持（追加外部URL禁止）
 `;
     try {
-      const chatgptRaw = await callOpenRouter(systemPrompt, chatgptRevisionPrompt);
-      let chatgptRevised = sanitizeUrlArtifactsInContent(
-        parseGeneratedContent(chatgptRaw),
-        takkenaiUrl,
-        topicLabel,
-        platform,
-        relatedNote
-      );
-      if (!isNoteViralMode) {
-        chatgptRevised.body = applyArticleTypeFallbackStructure(
-          chatgptRevised.body,
-          resolvedArticleType,
-          topicLabel
-        );
-      }
-      chatgptRevised = sanitizeUrlArtifactsInContent(
-        chatgptRevised,
-        takkenaiUrl,
-        topicLabel,
-        platform,
-        relatedNote
-      );
-      chatgptRevised = sanitizeHistoricalDateUsageArtifacts(
-        chatgptRevised,
-        motherTopic.date
-      );
-      const chatgptHardIssues = collectFinalHardIssues(chatgptRevised);
-      const chatgptComplianceIssues = validatePlatformCompliance(
-        chatgptRevised,
-        platform,
-        trackedTakkenaiUrl,
-        linkPolicyContext
+      await traceStep(
+        "chatgpt-search-revision",
+        {
+          input: {
+            chatgptSearchScore: baseSeoGeoReport.chatgptSearchScore,
+            chatgptSearchTarget: targetChatgptSearchScore,
+          },
+        },
+        async () => {
+          const chatgptResult = await callOpenRouterWithModel(systemPrompt, chatgptRevisionPrompt);
+          const chatgptRaw = chatgptResult.text;
+          let chatgptRevised = sanitizeUrlArtifactsInContent(
+            parseGeneratedContent(chatgptRaw),
+            takkenaiUrl,
+            topicLabel,
+            platform,
+            relatedNote,
+            trackingParams
+          );
+          if (!isNoteViralMode) {
+            chatgptRevised.body = applyArticleTypeFallbackStructure(
+              chatgptRevised.body,
+              resolvedArticleType,
+              topicLabel
+            );
+          }
+          chatgptRevised = sanitizeUrlArtifactsInContent(
+            chatgptRevised,
+            takkenaiUrl,
+            topicLabel,
+            platform,
+            relatedNote,
+            trackingParams
+          );
+          chatgptRevised = sanitizeHistoricalDateUsageArtifacts(
+            chatgptRevised,
+            motherTopic.date
+          );
+          const chatgptHardIssues = collectFinalHardIssues(chatgptRevised);
+          const chatgptComplianceIssues = validatePlatformCompliance(
+            chatgptRevised,
+            platform,
+            trackedTakkenaiUrl,
+            linkPolicyContext
+          );
+          const revisedUsable =
+            chatgptHardIssues.length === 0 &&
+            !(chatgptComplianceIssues.length > 0 && complianceMode === "strict");
+
+          if (revisedUsable) {
+            content = chatgptRevised;
+            writingModel = chatgptResult.model;
+            platformComplianceIssues = chatgptComplianceIssues;
+            baseSeoGeoReport = evaluateSeoGeoRules({
+              platform,
+              title: content.title,
+              body: content.body,
+              seoTitle: content.seoTitle,
+              primaryKeyword: topicLabel,
+              trackedUrl: trackedTakkenaiUrl,
+            });
+          } else {
+            console.warn(
+              `[${platform}] ChatGPT Search best-effort revision discarded: hardIssues=${chatgptHardIssues.length}, complianceIssues=${chatgptComplianceIssues.length}`
+            );
+          }
+          return {
+            adopted: revisedUsable,
+            issues: [...chatgptHardIssues, ...chatgptComplianceIssues],
+          };
+        },
+        (result) => ({
+          status: result.adopted ? "ok" : "skipped",
+          output: {
+            adopted: result.adopted,
+            chatgptSearchScore: baseSeoGeoReport.chatgptSearchScore,
+          },
+          issues: result.issues,
+        })
       );
-      const revisedUsable =
-        chatgptHardIssues.length === 0 &&
-        !(chatgptComplianceIssues.length > 0 && complianceMode === "strict");
-
-      if (revisedUsable) {
-        content = chatgptRevised;
-        platformComplianceIssues = chatgptComplianceIssues;
-        baseSeoGeoReport = evaluateSeoGeoRules({
-          platform,
-          title: content.title,
-          body: content.body,
-          seoTitle: content.seoTitle,
-          primaryKeyword: topicLabel,
-          trackedUrl: trackedTakkenaiUrl,
-        });
-      } else {
-        console.warn(
-          `[${platform}] ChatGPT Search best-effort revision discarded: hardIssues=${chatgptHardIssues.length}, complianceIssues=${chatgptComplianceIssues.length}`
-        );
-      }
     } catch (error) {
       console.warn(`[${platform}] ChatGPT Search best-effort revision failed:`, error);
     }
@@ -5767,13 +5990,22 @@ ${baseSeoGeoReport.chatgptSearchIssues.map((item, idx) => `${idx + 1}. ${item}`)
   console.log(
     `[seo-geo] rule-score platform=${platform} seo=${baseSeoGeoReport.seoScore} geo=${baseSeoGeoReport.geoScore} chatgpt=${baseSeoGeoReport.chatgptSearchScore}`
   );
-  const aiReview = await generateSeoGeoAiReview({
-    platform,
-    title: content.title,
-    body: content.body,
-    seoTitle: content.seoTitle,
-    ruleReport: baseSeoGeoReport,
-  });
+  const aiReview = await traceStep(
+    "ai-review",
+    {},
+    () =>
+      generateSeoGeoAiReview({
+        platform,
+        title: content.title,
+        body: content.body,
+        seoTitle: content.seoTitle,
+        ruleReport: baseSeoGeoReport,
+      }),
+    (review) => ({
+      status: review.aiStatus === "ok" ? "ok" : "skipped",
+      output: { aiStatus: review.aiStatus, actions: (review.aiActionsChinese || []).length },
+    })
+  );
   console.log(`[seo-geo] ai-review platform=${platform} status=${aiReview.aiStatus}`);
   const generatedAiActions = normalizeAiActions(aiReview.aiActionsChinese);
   const initialAiActionReport = evaluateAiActionCompletion(
@@ -5806,6 +6038,7 @@ ${baseSeoGeoReport.chatgptSearchIssues.map((item, idx) => `${idx + 1}. ${item}`)
   };
   content.meta = {
     ...(content.meta || {}),
+    writingModel,
     ...(!isNoteViralMode ? { articleType: resolvedArticleType } : {}),
     ...(platform === "note"
       ? {
@@ -5822,18 +6055,35 @@ ${baseSeoGeoReport.chatgptSearchIssues.map((item, idx) => `${idx + 1}. ${item}`)
   };
 
   // Final sync: Chinese fields must reflect the finalized Japanese content.
-  content = await ensureFinalJapaneseChineseConsistency(platform, content);
+  emitGenerationStage({ stage: "translation" });
+  content = await traceStep(
+    "translation",
+    { input: { bodyChars: content.body.length } },
+    () => ensureFinalJapaneseChineseConsistency(platform, content),
+    (synced) => ({
+      output: {
+        titleChinese: synced.titleChinese,
+        bodyChineseChars: (synced.bodyChinese || "").length,
+      },
+    })
+  );
 
   return content;
 }
 
 export async function generateAllPlatforms(
-  motherTopics: Record<Platform, MotherTopic>
-): Promise<Record<Platform, GeneratedContent>> {
-  const [ameba, note, hatena] = await Promise.all([
-    generateContent("ameba", motherTopics.ameba, motherTopics.ameba.takkenaiUrl),
-    generateContent("note", motherTopics.note, motherTopics.note.takkenaiUrl),
-    generateContent("hatena", motherTopics.hatena, motherTopics.hatena.takkenaiUrl),
-  ]);
-  return { ameba, note, hatena };
+  motherTopics: PlatformMap<MotherTopic>
+): Promise<PlatformMap<GeneratedContent>> {
+  const platforms = platformsOf(motherTopics);
+  const contents = await Promise.all(
+    platforms.map((platform) => {
+      const motherTopic = motherTopics[platform] as MotherTopic;
+      return generateContent(platform, motherTopic, motherTopic.takkenaiUrl);
+    })
+  );
+  const result: PlatformMap<GeneratedContent> = {};
+  platforms.forEach((platform, idx) => {
+    result[platform] = contents[idx];
+  });
+  return result;
 }
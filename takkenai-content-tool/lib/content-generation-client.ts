@@ -10,6 +10,7 @@ import {
 } from "./note-viral";
 import { resolveContentKey, type ContentKey } from "./content-variant";
 import type { Platform } from "./topic-engine";
+import type { GenerationStage, GenerationStageEvent } from "./generation-progress";
 
 export interface GenerateRequestInput {
   date: string;
@@ -76,3 +77,24 @@ export function buildRegenerateConfirmMessage(
     `当前文章类型：${option.label}（${option.focus}）`,
   ].join("\n");
 }
+
+const GENERATION_STAGE_LABELS: Record<GenerationStage, string> = {
+  topic: "テーマとURLを確認中...",
+  research: "インターネットで最新情報をリサーチ中...",
+  draft: "記事を執筆中...",
+  review: "品質レビュー中...",
+  revision: "レビュー指摘を反映して再執筆中...",
+  "compliance-fix": "合規ルールに合わせて修正中...",
+  "final-check": "最終品質チェック中...",
+  scoring: "SEO/GEOスコアを採点中...",
+  translation: "中国語訳を同期中...",
+  retry: "品質未達のため自動で再生成中...",
+  saving: "保存中...",
+};
+
+export function formatGenerationStageLabel(event: GenerationStageEvent): string {
+  const label = GENERATION_STAGE_LABELS[event.stage] || event.stage;
+  if (event.round) return `${label}（ラウンド${event.round}）`;
+  if (event.attempt) return `${label}（${event.attempt}回目）`;
+  return label;
+}
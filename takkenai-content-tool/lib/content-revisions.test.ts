@@ -0,0 +1,185 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { spawn } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import type { GeneratedContent } from "./claude";
+import {
+  appendContentRevision,
+  diffContentRevisions,
+  diffRevisionText,
+  getContentRevision,
+  getContentRevisionFilePath,
+  listContentRevisions,
+  revisionToGeneratedContent,
+  type ContentRevisionTarget,
+} from "./content-revisions";
+
+function makeTarget(): ContentRevisionTarget {
+  return {
+    generatedDir: fs.mkdtempSync(path.join(os.tmpdir(), "content-revisions-")),
+    date: "2026-03-01",
+    platform: "note",
+    contentKey: "standard",
+  };
+}
+
+function makeContent(title: string, body: string, writingModel?: string): GeneratedContent {
+  return {
+    title,
+    body,
+    titleChinese: "",
+    bodyChinese: "",
+    hashtags: ["宅建"],
+    imagePrompt: "",
+    takkenaiLink: "https://takkenai.jp/tools/loan/",
+    ...(writingModel ? { meta: { writingModel } as GeneratedContent["meta"] } : {}),
+  };
+}
+
+test("revisions are appended immutably and listed newest first", () => {
+  const target = makeTarget();
+  const first = appendContentRevision({
+    ...target,
+    source: "generate",
+    content: makeContent("初稿", "本文A", "model/a"),
+  });
+  const second = appendContentRevision({
+    ...target,
+    source: "seo-geo-optimize",
+    content: makeContent("改稿", "本文B", "model/b"),
+  });
+
+  assert.equal(first.number, 1);
+  assert.equal(first.model, "model/a");
+  assert.equal(second.number, 2);
+  assert.equal(second.model, "model/b");
+  assert.ok(fs.existsSync(getContentRevisionFilePath(target)));
+
+  const list = listContentRevisions(target);
+  assert.deepEqual(
+    list.map((item) => item.id),
+    [second.id, first.id]
+  );
+  assert.equal(getContentRevision(target, first.id)?.content.body, "本文A");
+});
+
+/** Appends `count` revisions from a separate process, starting at `startAt`. */
+function appendFromWorker(target: ContentRevisionTarget, worker: string, count: number, startAt: number) {
+  const script = `
+    const { appendContentRevision } = require(${JSON.stringify(path.join(__dirname, "content-revisions.ts"))});
+    const target = ${JSON.stringify(target)};
+    while (Date.now() < ${startAt}) {}
+    for (let i = 0; i < ${count}; i++) {
+      appendContentRevision({
+        ...target,
+        source: "manual-edit",
+        content: { title: "${worker}", body: "${worker}-" + i, titleChinese: "", bodyChinese: "",
+          hashtags: [], imagePrompt: "", takkenaiLink: "" },
+      });
+    }
+  `;
+  return new Promise<void>((resolve, reject) => {
+    const child = spawn(process.execPath, ["--import", "tsx", "-e", script], { stdio: "inherit" });
+    child.on("error", reject);
+    child.on("exit", (code) => (code === 0 ? resolve() : reject(new Error(`${worker} exited with ${code}`))));
+  });
+}
+
+test("appends racing from two processes keep every revision with its own number", async () => {
+  const target = makeTarget();
+  const startAt = Date.now() + 3000;
+  await Promise.all([
+    appendFromWorker(target, "a", 40, startAt),
+    appendFromWorker(target, "b", 40, startAt),
+  ]);
+
+  const list = listContentRevisions(target);
+  assert.equal(list.length, 80);
+  assert.deepEqual(
+    list.map((item) => item.number).reverse(),
+    Array.from({ length: 80 }, (_, i) => i + 1)
+  );
+  assert.deepEqual(fs.readdirSync(path.dirname(getContentRevisionFilePath(target))), [
+    "2026-03-01-note.json",
+  ]);
+});
+
+test("identical manual edits are not recorded twice and do not inherit the model", () => {
+  const target = makeTarget();
+  appendContentRevision({
+    ...target,
+    source: "generate",
+    content: makeContent("タイトル", "本文", "model/a"),
+  });
+  const edit = appendContentRevision({
+    ...target,
+    source: "manual-edit",
+    content: makeContent("タイトル", "本文を手直し", "model/a"),
+  });
+  const duplicate = appendContentRevision({
+    ...target,
+    source: "manual-edit",
+    content: makeContent("タイトル", "本文を手直し", "model/a"),
+  });
+
+  assert.equal(edit.model, undefined);
+  assert.equal(duplicate.id, edit.id);
+  assert.equal(listContentRevisions(target).length, 2);
+});
+
+test("restored content round-trips through a revision", () => {
+  const target = makeTarget();
+  const original = appendContentRevision({
+    ...target,
+    source: "generate",
+    content: makeContent("タイトル", "本文", "model/a"),
+  });
+  const restored = revisionToGeneratedContent(original);
+  assert.equal(restored.title, "タイトル");
+  assert.equal(restored.meta?.writingModel, "model/a");
+
+  const revision = appendContentRevision({
+    ...target,
+    source: "restore",
+    content: restored,
+    restoredFromId: original.id,
+  });
+  assert.equal(revision.number, 2);
+  assert.equal(revision.restoredFromId, original.id);
+});
+
+test("line diff pairs changed lines and highlights changed characters", () => {
+  const rows = diffRevisionText("一行目\n宅建の試験は10月\n最後", "一行目\n宅建の試験は11月\n追加\n最後");
+  assert.deepEqual(
+    rows.map((row) => row.kind),
+    ["equal", "changed", "added", "equal"]
+  );
+  const changed = rows[1];
+  assert.ok(changed.left?.some((segment) => segment.changed && segment.text.includes("0")));
+  assert.ok(changed.right?.some((segment) => segment.changed && segment.text.includes("1")));
+  assert.equal(
+    changed.right?.map((segment) => segment.text).join(""),
+    "宅建の試験は11月"
+  );
+});
+
+test("revision diff reports stats for title and body", () => {
+  const target = makeTarget();
+  const from = appendContentRevision({
+    ...target,
+    source: "generate",
+    content: makeContent("旧タイトル", "A\nB"),
+  });
+  const to = appendContentRevision({
+    ...target,
+    source: "manual-edit",
+    content: makeContent("新タイトル", "A"),
+  });
+  const diff = diffContentRevisions(from, to);
+  assert.equal(diff.fromId, from.id);
+  assert.equal(diff.title[0].kind, "changed");
+  assert.equal(diff.stats.removed, 1);
+});
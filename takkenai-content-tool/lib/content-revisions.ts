@@ -0,0 +1,385 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import type {
+  ComplianceReport,
+  GeneratedContent,
+  GeneratedContentMeta,
+} from "./claude";
+import type { SeoGeoReport } from "./seo-geo-report";
+import type { Platform } from "./topic-engine";
+import { getContentFileBase, type ContentKey } from "./content-variant";
+import { withFileLockSync } from "./file-lock";
+import { writeJsonAtomic } from "./json-file";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type ContentRevisionSource =
+  | "generate"          // POST /api/generate
+  | "seo-geo-optimize"  // POST /api/optimize-seo-geo
+  | "manual-edit"       // Saved from the editor
+  | "restore";          // Rollback to an earlier revision
+
+export interface ContentRevisionSnapshot {
+  title: string;
+  body: string;
+  titleChinese: string;
+  bodyChinese: string;
+  hashtags: string[];
+  imagePrompt: string;
+  takkenaiLink: string;
+  seoTitle?: string;
+}
+
+export interface ContentRevision {
+  id: string;
+  /** 1-based sequence number within this date+platform+contentKey */
+  number: number;
+  createdAt: string;
+  source: ContentRevisionSource;
+  /** Writing model that produced the text (absent for manual edits) */
+  model?: string;
+  content: ContentRevisionSnapshot;
+  seoGeoReport?: SeoGeoReport;
+  complianceReport?: ComplianceReport;
+  meta?: GeneratedContentMeta;
+  /** For restore revisions: the revision that was restored */
+  restoredFromId?: string;
+  note?: string;
+}
+
+export interface ContentRevisionSummary {
+  id: string;
+  number: number;
+  createdAt: string;
+  source: ContentRevisionSource;
+  model?: string;
+  title: string;
+  bodyLength: number;
+  seoScore?: number;
+  geoScore?: number;
+  compliancePassed?: boolean;
+  restoredFromId?: string;
+  note?: string;
+}
+
+interface ContentRevisionFile {
+  version: "v1";
+  date: string;
+  platform: Platform;
+  contentKey: ContentKey;
+  revisions: ContentRevision[];
+}
+
+export interface ContentRevisionTarget {
+  generatedDir: string;
+  date: string;
+  platform: Platform;
+  contentKey: ContentKey;
+}
+
+export interface AppendContentRevisionInput extends ContentRevisionTarget {
+  source: ContentRevisionSource;
+  content: GeneratedContent;
+  model?: string;
+  restoredFromId?: string;
+  note?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Storage
+// ---------------------------------------------------------------------------
+
+const REVISIONS_DIR_NAME = "revisions";
+
+export function getContentRevisionFilePath(target: ContentRevisionTarget): string {
+  return path.join(
+    target.generatedDir,
+    REVISIONS_DIR_NAME,
+    `${getContentFileBase(target.date, target.platform, target.contentKey)}.json`
+  );
+}
+
+function readRevisionFile(target: ContentRevisionTarget): ContentRevisionFile {
+  const filePath = getContentRevisionFilePath(target);
+  const empty: ContentRevisionFile = {
+    version: "v1",
+    date: target.date,
+    platform: target.platform,
+    contentKey: target.contentKey,
+    revisions: [],
+  };
+  if (!fs.existsSync(filePath)) return empty;
+  try {
+    const parsed = JSON.parse(fs.readFileSync(filePath, "utf-8")) as Partial<ContentRevisionFile>;
+    return {
+      ...empty,
+      revisions: Array.isArray(parsed.revisions) ? parsed.revisions : [],
+    };
+  } catch (error) {
+    // Never silently drop history: a broken file must be repaired by hand.
+    throw new Error(
+      `リビジョン履歴の読み込みに失敗しました (${filePath}): ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+function writeRevisionFile(target: ContentRevisionTarget, file: ContentRevisionFile): void {
+  writeJsonAtomic(getContentRevisionFilePath(target), file);
+}
+
+function toSnapshot(content: GeneratedContent): ContentRevisionSnapshot {
+  return {
+    title: content.title || "",
+    body: content.body || "",
+    titleChinese: content.titleChinese || "",
+    bodyChinese: content.bodyChinese || "",
+    hashtags: Array.isArray(content.hashtags) ? [...content.hashtags] : [],
+    imagePrompt: content.imagePrompt || "",
+    takkenaiLink: content.takkenaiLink || "",
+    ...(content.seoTitle ? { seoTitle: content.seoTitle } : {}),
+  };
+}
+
+function isSameSnapshot(a: ContentRevisionSnapshot, b: ContentRevisionSnapshot): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function toSummary(revision: ContentRevision): ContentRevisionSummary {
+  return {
+    id: revision.id,
+    number: revision.number,
+    createdAt: revision.createdAt,
+    source: revision.source,
+    model: revision.model,
+    title: revision.content.title,
+    bodyLength: revision.content.body.length,
+    seoScore: revision.seoGeoReport?.seoScore,
+    geoScore: revision.seoGeoReport?.geoScore,
+    compliancePassed: revision.complianceReport?.passed,
+    restoredFromId: revision.restoredFromId,
+    note: revision.note,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Append an immutable revision. Existing revisions are never modified.
+ * A manual edit identical to the latest revision is not recorded again.
+ * The read-modify-write holds the revision file's lock, so concurrent
+ * appends from other requests or processes each get their own number.
+ */
+export function appendContentRevision(input: AppendContentRevisionInput): ContentRevision {
+  // Generate, optimize, save and restore may append to the same entry at once.
+  return withFileLockSync(`${getContentRevisionFilePath(input)}.lock`, () => {
+    const file = readRevisionFile(input);
+    const snapshot = toSnapshot(input.content);
+    const latest = file.revisions[file.revisions.length - 1];
+    if (latest && input.source === "manual-edit" && isSameSnapshot(latest.content, snapshot)) {
+      return latest;
+    }
+
+    const model =
+      input.model ||
+      (input.source === "manual-edit" ? undefined : input.content.meta?.writingModel);
+    const revision: ContentRevision = {
+      id: `rev-${Date.now().toString(36)}-${crypto.randomBytes(3).toString("hex")}`,
+      number: (latest?.number || 0) + 1,
+      createdAt: new Date().toISOString(),
+      source: input.source,
+      ...(model ? { model } : {}),
+      content: snapshot,
+      ...(input.content.seoGeoReport ? { seoGeoReport: input.content.seoGeoReport } : {}),
+      ...(input.content.complianceReport
+        ? { complianceReport: input.content.complianceReport }
+        : {}),
+      ...(input.content.meta ? { meta: input.content.meta } : {}),
+      ...(input.restoredFromId ? { restoredFromId: input.restoredFromId } : {}),
+      ...(input.note ? { note: input.note.slice(0, 200) } : {}),
+    };
+    file.revisions.push(revision);
+    writeRevisionFile(input, file);
+    return revision;
+  });
+}
+
+/**
+ * List revisions newest first (summaries only).
+ */
+export function listContentRevisions(target: ContentRevisionTarget): ContentRevisionSummary[] {
+  return readRevisionFile(target).revisions.map(toSummary).reverse();
+}
+
+export function getContentRevision(
+  target: ContentRevisionTarget,
+  revisionId: string
+): ContentRevision | null {
+  return readRevisionFile(target).revisions.find((item) => item.id === revisionId) || null;
+}
+
+/**
+ * Rebuild a GeneratedContent from a stored revision (used for restore).
+ */
+export function revisionToGeneratedContent(revision: ContentRevision): GeneratedContent {
+  return {
+    ...revision.content,
+    hashtags: [...revision.content.hashtags],
+    ...(revision.seoGeoReport ? { seoGeoReport: revision.seoGeoReport } : {}),
+    ...(revision.complianceReport ? { complianceReport: revision.complianceReport } : {}),
+    ...(revision.meta ? { meta: revision.meta } : {}),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Side-by-side diff (line level, refined to characters for Japanese text)
+// ---------------------------------------------------------------------------
+
+export type RevisionDiffSegment = { text: string; changed: boolean };
+
+export interface RevisionDiffRow {
+  kind: "equal" | "changed" | "added" | "removed";
+  left?: RevisionDiffSegment[];
+  right?: RevisionDiffSegment[];
+}
+
+export interface ContentRevisionDiff {
+  fromId: string;
+  toId: string;
+  title: RevisionDiffRow[];
+  body: RevisionDiffRow[];
+  stats: { added: number; removed: number; changed: number };
+}
+
+// Character-level refinement is skipped beyond this LCS table size.
+const MAX_CHAR_DIFF_CELLS = 250000;
+
+type DiffOp<T> = { type: "equal" | "insert" | "delete"; value: T };
+
+function diffSequences<T>(a: T[], b: T[]): DiffOp<T>[] {
+  const n = a.length;
+  const m = b.length;
+  const table: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[i][j] =
+        a[i] === b[j] ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+
+  const ops: DiffOp<T>[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      ops.push({ type: "equal", value: a[i] });
+      i++;
+      j++;
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      ops.push({ type: "delete", value: a[i] });
+      i++;
+    } else {
+      ops.push({ type: "insert", value: b[j] });
+      j++;
+    }
+  }
+  while (i < n) ops.push({ type: "delete", value: a[i++] });
+  while (j < m) ops.push({ type: "insert", value: b[j++] });
+  return ops;
+}
+
+function pushSegment(segments: RevisionDiffSegment[], text: string, changed: boolean): void {
+  const last = segments[segments.length - 1];
+  if (last && last.changed === changed) {
+    last.text += text;
+  } else {
+    segments.push({ text, changed });
+  }
+}
+
+function diffLineCharacters(
+  left: string,
+  right: string
+): { left: RevisionDiffSegment[]; right: RevisionDiffSegment[] } {
+  const a = Array.from(left);
+  const b = Array.from(right);
+  if (a.length * b.length > MAX_CHAR_DIFF_CELLS) {
+    return {
+      left: [{ text: left, changed: true }],
+      right: [{ text: right, changed: true }],
+    };
+  }
+  const leftSegments: RevisionDiffSegment[] = [];
+  const rightSegments: RevisionDiffSegment[] = [];
+  for (const op of diffSequences(a, b)) {
+    if (op.type === "equal") {
+      pushSegment(leftSegments, op.value, false);
+      pushSegment(rightSegments, op.value, false);
+    } else if (op.type === "delete") {
+      pushSegment(leftSegments, op.value, true);
+    } else {
+      pushSegment(rightSegments, op.value, true);
+    }
+  }
+  return { left: leftSegments, right: rightSegments };
+}
+
+/**
+ * Build side-by-side rows. Adjacent removed/added lines are paired as
+ * "changed" rows and refined per character, since Japanese has no spaces.
+ */
+export function diffRevisionText(before: string, after: string): RevisionDiffRow[] {
+  const ops = diffSequences(before.split(/\r?\n/), after.split(/\r?\n/));
+  const rows: RevisionDiffRow[] = [];
+  let pendingDeletes: string[] = [];
+  let pendingInserts: string[] = [];
+
+  const flush = () => {
+    const paired = Math.min(pendingDeletes.length, pendingInserts.length);
+    for (let k = 0; k < paired; k++) {
+      const refined = diffLineCharacters(pendingDeletes[k], pendingInserts[k]);
+      rows.push({ kind: "changed", left: refined.left, right: refined.right });
+    }
+    for (const line of pendingDeletes.slice(paired)) {
+      rows.push({ kind: "removed", left: [{ text: line, changed: true }] });
+    }
+    for (const line of pendingInserts.slice(paired)) {
+      rows.push({ kind: "added", right: [{ text: line, changed: true }] });
+    }
+    pendingDeletes = [];
+    pendingInserts = [];
+  };
+
+  for (const op of ops) {
+    if (op.type === "equal") {
+      flush();
+      const segment = [{ text: op.value, changed: false }];
+      rows.push({ kind: "equal", left: segment, right: segment });
+    } else if (op.type === "delete") {
+      pendingDeletes.push(op.value);
+    } else {
+      pendingInserts.push(op.value);
+    }
+  }
+  flush();
+  return rows;
+}
+
+export function diffContentRevisions(
+  from: ContentRevision,
+  to: ContentRevision
+): ContentRevisionDiff {
+  const title = diffRevisionText(from.content.title, to.content.title);
+  const body = diffRevisionText(from.content.body, to.content.body);
+  const stats = { added: 0, removed: 0, changed: 0 };
+  for (const row of body) {
+    if (row.kind !== "equal") stats[row.kind]++;
+  }
+  return { fromId: from.id, toId: to.id, title, body, stats };
+}
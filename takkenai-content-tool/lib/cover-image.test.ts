@@ -5,6 +5,7 @@ import {
   __testOnlyBuildStyleAwareTextSet,
   __testOnlyGenerateCoverImageWithDeps,
 } from "./cover-image";
+import type { LocalCoverInput } from "./cover-local";
 
 test("real_photo_clean should compress long title under budget", () => {
   const body = [
@@ -203,3 +204,77 @@ test("note readability non-critical mismatch should be accepted after retry", as
   assert.ok(Array.isArray(result.qualityIssues));
   assert.equal(evalCount, 1);
 });
+
+test("all providers failing should fall back to the local template with the planned text", async () => {
+  const rendered: LocalCoverInput[] = [];
+  const params = {
+    title: "住宅ローン控除の要件｜2026年の改正点",
+    body: "## 要点\n- 床面積は50平米以上\n- 合計所得は2000万円以下\n- 入居は取得から6か月以内",
+    platform: "hatena" as const,
+    styleId: "data_card_modern" as const,
+  };
+  const deps = {
+    callImageApiFn: async (): Promise<never> => {
+      throw new Error("429 rate limited");
+    },
+    evaluateCoverTextReadabilityFn: async () => null,
+    getApiKeyFn: () => "test-key",
+    getModelCandidatesFn: () => ({ candidates: ["mock-model"], strict: true }),
+    enforceReadableText: true,
+    renderLocalCoverFn: async (input: LocalCoverInput) => {
+      rendered.push(input);
+      return Buffer.from("local-png");
+    },
+  };
+
+  const result = await __testOnlyGenerateCoverImageWithDeps(params, deps);
+  assert.equal(result.renderedLocally, true);
+  assert.equal(result.mimeType, "image/png");
+  assert.equal(result.imageBuffer.toString(), "local-png");
+  assert.deepEqual(result.qualityIssues, ["local-template-fallback"]);
+  assert.equal(rendered.length, 1);
+  assert.equal(rendered[0].styleId, "data_card_modern");
+  assert.deepEqual(
+    rendered[0].textSet,
+    __testOnlyBuildStyleAwareTextSet(params, "data_card_modern")
+  );
+
+  await assert.rejects(
+    __testOnlyGenerateCoverImageWithDeps({ ...params, renderMode: "remote" }, deps),
+    /all models failed\. last error: 429 rate limited/
+  );
+  assert.equal(rendered.length, 1);
+});
+
+test("local render mode should skip the image models entirely", async () => {
+  let callCount = 0;
+  const result = await __testOnlyGenerateCoverImageWithDeps(
+    {
+      title: "テストタイトル",
+      body: "本文テスト",
+      platform: "note",
+      styleId: "note_minimal_bold",
+      renderMode: "local",
+    },
+    {
+      callImageApiFn: async () => {
+        callCount += 1;
+        throw new Error("should not be called");
+      },
+      evaluateCoverTextReadabilityFn: async () => null,
+      getApiKeyFn: () => "",
+      getModelCandidatesFn: () => ({ candidates: ["mock-model"], strict: true }),
+      enforceReadableText: true,
+      renderLocalCoverFn: async (input) => {
+        // note_minimal_bold plans a single headline and at most one point
+        assert.equal(input.plan.preferSingleHeadline, true);
+        assert.equal(input.textSet.point2, "");
+        return Buffer.from("local-png");
+      },
+    }
+  );
+
+  assert.equal(callCount, 0);
+  assert.equal(result.renderedLocally, true);
+  assert.deepEqual(result.qualityIssues, []);
+});
@@ -1,8 +1,13 @@
 import type { Platform } from "./topic-engine";
+import { cassetteFetch } from "./cassette";
+import { readReportedTokenUsage, recordModelUsage } from "./usage-ledger";
 import {
   getCoverStyleOption,
   type CoverStyleId,
 } from "./cover-style";
+import type { CoverRenderMode } from "./cover-profile";
+import { planLocalCover, renderLocalCover, type LocalCoverInput } from "./cover-local";
+import { checkCoverImageHeuristics, checkLocalCoverLayout } from "./cover-qa";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -16,11 +21,12 @@ interface CoverImageParams {
   styleId?: CoverStyleId;
   imageProviderPreference?: ImageProviderPreference;
   imageModel?: string;
+  renderMode?: CoverRenderMode;
 }
 
 export type ImageProviderPreference = "closeai" | "openrouter";
 
-interface CoverTextSet {
+export interface CoverTextSet {
   title: string;
   subTitle: string;
   hook: string;
@@ -60,6 +66,8 @@ export interface CoverImageResult {
   textAdjusted: boolean;
   providerUsed?: ImageProvider;
   modelUsed?: string;
+  /** true when the cover came from the satori template instead of an image model */
+  renderedLocally?: boolean;
 }
 
 // ---------------------------------------------------------------------------
@@ -82,6 +90,7 @@ const MODEL_ALIASES: Record<string, string> = {
   "google/gemini-3-pro-image-preview": "gemini-3-pro-image-preview",
 };
 const BEST_MODEL = "gemini-3-pro-image-preview";
+const LOCAL_COVER_MODEL = "satori-template";
 const DEFAULT_QA_MODEL_CHAIN = [BEST_MODEL];
 const ENFORCE_READABLE_TEXT = process.env.COVER_ENFORCE_READABLE_TEXT !== "0";
 const AUTO_RETRY_LIMIT = 1;
@@ -252,7 +261,7 @@ async function fetchWithTimeout(
   const controller = new AbortController();
   const timer = setTimeout(() => controller.abort(), timeoutMs);
   try {
-    return await fetch(url, { ...init, signal: controller.signal });
+    return await cassetteFetch("cover-image", url, { ...init, signal: controller.signal });
   } catch (err) {
     if (
       err &&
@@ -1459,6 +1468,12 @@ async function evaluateCoverTextReadability(
         );
         if (!res.ok) continue;
         const data = (await res.json()) as unknown;
+        recordModelUsage({
+          model: providerModel,
+          provider: imageProvider,
+          kind: "text",
+          ...readReportedTokenUsage(data),
+        });
         const parsed = parseReadabilityJson(extractJsonFromModelResponse(data));
         if (parsed) {
           const textMatch = evaluateExpectedTextMatch(
@@ -1569,6 +1584,13 @@ async function callImageApi(
     if (!imageBuffer) {
       throw new Error(`Gemini did not return image payload (${model})`);
     }
+    recordModelUsage({
+      model,
+      provider: imageProvider,
+      kind: "image",
+      images: 1,
+      ...readReportedTokenUsage(data),
+    });
 
     return {
       imageBuffer,
@@ -1637,6 +1659,13 @@ async function callImageApi(
       continue;
     }
     if (imageBuffer) {
+      recordModelUsage({
+        model: providerModel,
+        provider: imageProvider,
+        kind: "image",
+        images: 1,
+        ...readReportedTokenUsage(data),
+      });
       return {
         imageBuffer,
         modelUsed: providerModel,
@@ -1663,12 +1692,59 @@ export interface GenerateCoverImageDeps {
   getImageProviderFn?: () => ImageProvider;
   getModelCandidatesFn: typeof getModelCandidates;
   enforceReadableText: boolean;
+  renderLocalCoverFn?: typeof renderLocalCover;
+}
+
+async function generateLocalCoverImage(
+  params: CoverImageParams,
+  styleId: CoverStyleId,
+  deps: GenerateCoverImageDeps,
+  qualityIssues: string[]
+): Promise<CoverImageResult> {
+  const render = deps.renderLocalCoverFn || renderLocalCover;
+  const buildInput = (strict: boolean): LocalCoverInput => ({
+    styleId,
+    platform: params.platform,
+    textSet: buildStyleAwareTextSet(params, styleId, strict),
+    plan: getCoverTextLayoutPlan(styleId, strict),
+  });
+
+  // The layout is known before rendering, so QA runs on the plan; when the
+  // full text set doesn't fit, the strict (shorter) one gets a second try.
+  let input = buildInput(false);
+  let report = checkLocalCoverLayout(planLocalCover(input), input.plan.safeArea);
+  let qualityCheck: CoverQualityCheckStatus = "pass";
+  if (!report.pass) {
+    console.warn(`[cover-image] local layout check failed: ${report.issues.join(" | ")}`);
+    input = buildInput(true);
+    report = checkLocalCoverLayout(planLocalCover(input), input.plan.safeArea);
+    qualityCheck = report.pass ? "retry_pass" : "failed";
+  }
+
+  const imageBuffer = await render(input);
+  return {
+    imageBuffer,
+    mimeType: "image/png",
+    ext: "png",
+    qualityCheck,
+    qualityIssues: [...qualityIssues, ...report.issues],
+    textAdjusted: qualityCheck !== "pass",
+    modelUsed: LOCAL_COVER_MODEL,
+    renderedLocally: true,
+  };
 }
 
 async function generateCoverImageWithDeps(
   params: CoverImageParams,
   deps: GenerateCoverImageDeps
 ): Promise<CoverImageResult> {
+  const renderMode = params.renderMode || "auto";
+  if (renderMode === "local") {
+    const style = getCoverStyleOption(params.styleId);
+    console.log(`[cover-image] local-template style=${style.id} platform=${params.platform}`);
+    return generateLocalCoverImage(params, style.id, deps, []);
+  }
+
   const imageProviderCandidates = deps.getImageProviderCandidatesFn
     ? deps.getImageProviderCandidatesFn(params.imageProviderPreference)
     : getImageProviderCandidates(params.imageProviderPreference);
@@ -1815,6 +1891,16 @@ async function generateCoverImageWithDeps(
       providerUsed,
     } = generated;
     const imageMeta = detectImageFormat(generatedBuffer);
+    const heuristics = checkCoverImageHeuristics(generatedBuffer);
+    if (!heuristics.pass) {
+      // Blank, wrongly sized or oversized images are rejected without a QA model call.
+      lastIssues = heuristics.issues;
+      lastError = new Error(`image heuristics failed: ${heuristics.issues.join(" | ")}`);
+      console.warn(
+        `[cover-image] image heuristics failed (attempt ${attempt + 1}): ${heuristics.issues.join(" | ")}`
+      );
+      continue;
+    }
     lastGenerated = {
       imageBuffer: generatedBuffer,
       mimeType: imageMeta.mimeType,
@@ -1940,11 +2026,20 @@ async function generateCoverImageWithDeps(
     }
   }
 
-  throw new Error(
-    `[cover-image] all models failed. last error: ${
-      lastError instanceof Error ? lastError.message : String(lastError || lastIssues.join(" / "))
-    }`
-  );
+  const failure = `[cover-image] all models failed. last error: ${
+    lastError instanceof Error ? lastError.message : String(lastError || lastIssues.join(" / "))
+  }`;
+  if (renderMode === "remote") {
+    throw new Error(failure);
+  }
+  // No cover at all is worse than a template cover: fall back to the local
+  // renderer so an outage or rate limit on the image providers never blocks a post.
+  console.warn(`${failure} → falling back to local template (style=${style.id})`);
+  try {
+    return await generateLocalCoverImage(params, style.id, deps, ["local-template-fallback"]);
+  } catch (localErr) {
+    throw new Error(`${failure} / local template failed: ${extractErrorMessage(localErr)}`);
+  }
 }
 
 export async function generateCoverImage(
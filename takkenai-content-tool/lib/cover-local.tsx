@@ -0,0 +1,873 @@
+/** @jsxRuntime automatic */
+import type { ReactNode } from "react";
+import type { CoverTextLayoutPlan, CoverTextSet } from "./cover-image";
+import type { CoverStyleId } from "./cover-style";
+import { renderSatoriPng } from "./infographic";
+import type { Platform } from "./topic-engine";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface LocalCoverInput {
+  styleId: CoverStyleId;
+  platform: Platform;
+  textSet: CoverTextSet;
+  plan: CoverTextLayoutPlan;
+}
+
+type LocalCoverLayout = "cards" | "headline" | "split";
+
+interface LocalCoverPalette {
+  layout: LocalCoverLayout;
+  background: string;
+  labelText: string;
+  headerBg: string;
+  headerText: string;
+  subText: string;
+  accent: string;
+  accentText: string;
+  cardBg: string;
+  cardBorder: string;
+  cardText: string;
+  numberBg: string;
+  numberText: string;
+  footerBg: string;
+  footerText: string;
+}
+
+// 16:9, same ratio the image models are asked for
+export const LOCAL_COVER_WIDTH = 1600;
+export const LOCAL_COVER_HEIGHT = 900;
+
+// ---------------------------------------------------------------------------
+// Style palettes (follow getColorDirection in cover-image.tsx)
+// ---------------------------------------------------------------------------
+
+const PALETTES: Record<CoverStyleId, LocalCoverPalette> = {
+  lecture_blue: {
+    layout: "cards",
+    background: "#F1F5F9",
+    labelText: "#475569",
+    headerBg: "#1E3A8A",
+    headerText: "#FFFFFF",
+    subText: "#BFDBFE",
+    accent: "#DC2626",
+    accentText: "#FFFFFF",
+    cardBg: "#FFFFFF",
+    cardBorder: "#CBD5E1",
+    cardText: "#0F172A",
+    numberBg: "#DC2626",
+    numberText: "#FFFFFF",
+    footerBg: "#1E3A8A",
+    footerText: "#FFFFFF",
+  },
+  eco_green: {
+    layout: "cards",
+    background: "#F0FDF4",
+    labelText: "#166534",
+    headerBg: "#15803D",
+    headerText: "#FFFFFF",
+    subText: "#DCFCE7",
+    accent: "#FDE68A",
+    accentText: "#14532D",
+    cardBg: "#FFFFFF",
+    cardBorder: "#BBF7D0",
+    cardText: "#14532D",
+    numberBg: "#22C55E",
+    numberText: "#FFFFFF",
+    footerBg: "#FEF9C3",
+    footerText: "#14532D",
+  },
+  flow_yellow: {
+    layout: "cards",
+    background: "#FEF08A",
+    labelText: "#374151",
+    headerBg: "#374151",
+    headerText: "#FEF08A",
+    subText: "#F9FAFB",
+    accent: "#DC2626",
+    accentText: "#FFFFFF",
+    cardBg: "#FFFFFF",
+    cardBorder: "#374151",
+    cardText: "#1F2937",
+    numberBg: "#DC2626",
+    numberText: "#FFFFFF",
+    footerBg: "#374151",
+    footerText: "#FEF08A",
+  },
+  impact_money: {
+    layout: "cards",
+    background: "#1D4ED8",
+    labelText: "#FDE047",
+    headerBg: "#1E3A8A",
+    headerText: "#FFFFFF",
+    subText: "#FDE047",
+    accent: "#FACC15",
+    accentText: "#1E3A8A",
+    cardBg: "#FFFFFF",
+    cardBorder: "#FACC15",
+    cardText: "#1E3A8A",
+    numberBg: "#DC2626",
+    numberText: "#FFFFFF",
+    footerBg: "#DC2626",
+    footerText: "#FFFFFF",
+  },
+  cyber_blue: {
+    layout: "cards",
+    background: "#0B1E4A",
+    labelText: "#BAE6FD",
+    headerBg: "#1D4ED8",
+    headerText: "#FFFFFF",
+    subText: "#BAE6FD",
+    accent: "#FACC15",
+    accentText: "#0B1E4A",
+    cardBg: "#12306E",
+    cardBorder: "#38BDF8",
+    cardText: "#FFFFFF",
+    numberBg: "#FACC15",
+    numberText: "#0B1E4A",
+    footerBg: "#38BDF8",
+    footerText: "#0B1E4A",
+  },
+  paper_sns: {
+    layout: "cards",
+    background: "#F5ECD9",
+    labelText: "#7C5A3A",
+    headerBg: "#7C5A3A",
+    headerText: "#FFFBF2",
+    subText: "#F5ECD9",
+    accent: "#4D7C5A",
+    accentText: "#FFFBF2",
+    cardBg: "#FFFBF2",
+    cardBorder: "#D6C3A3",
+    cardText: "#3F2E1E",
+    numberBg: "#3B6EA5",
+    numberText: "#FFFFFF",
+    footerBg: "#4D7C5A",
+    footerText: "#FFFBF2",
+  },
+  editorial_white: {
+    layout: "headline",
+    background: "#FFFFFF",
+    labelText: "#737373",
+    headerBg: "#FFFFFF",
+    headerText: "#111111",
+    subText: "#525252",
+    accent: "#B91C1C",
+    accentText: "#FFFFFF",
+    cardBg: "#F5F5F5",
+    cardBorder: "#E5E5E5",
+    cardText: "#262626",
+    numberBg: "#111111",
+    numberText: "#FFFFFF",
+    footerBg: "#FFFFFF",
+    footerText: "#737373",
+  },
+  real_photo_clean: {
+    layout: "cards",
+    background: "#F8FAFC",
+    labelText: "#475569",
+    headerBg: "#FFFFFF",
+    headerText: "#1E3A8A",
+    subText: "#475569",
+    accent: "#2563EB",
+    accentText: "#FFFFFF",
+    cardBg: "#FFFFFF",
+    cardBorder: "#BFDBFE",
+    cardText: "#1E293B",
+    numberBg: "#2563EB",
+    numberText: "#FFFFFF",
+    footerBg: "#E2E8F0",
+    footerText: "#334155",
+  },
+  interview_jp_clean: {
+    layout: "cards",
+    background: "#E0F2FE",
+    labelText: "#1E40AF",
+    headerBg: "#E0F2FE",
+    headerText: "#0C1E3C",
+    subText: "#1E40AF",
+    accent: "#0C1E3C",
+    accentText: "#E0F2FE",
+    cardBg: "#FFFFFF",
+    cardBorder: "#BAE6FD",
+    cardText: "#0C1E3C",
+    numberBg: "#0C1E3C",
+    numberText: "#FFFFFF",
+    footerBg: "#0C1E3C",
+    footerText: "#E0F2FE",
+  },
+  note_minimal_bold: {
+    layout: "headline",
+    background: "#111827",
+    labelText: "#FACC15",
+    headerBg: "#111827",
+    headerText: "#FFFFFF",
+    subText: "#FACC15",
+    accent: "#FACC15",
+    accentText: "#111827",
+    cardBg: "#1F2937",
+    cardBorder: "#FACC15",
+    cardText: "#FFFFFF",
+    numberBg: "#FACC15",
+    numberText: "#111827",
+    footerBg: "#111827",
+    footerText: "#9CA3AF",
+  },
+  data_card_modern: {
+    layout: "cards",
+    background: "#0F2747",
+    labelText: "#67E8F9",
+    headerBg: "#0F2747",
+    headerText: "#FFFFFF",
+    subText: "#67E8F9",
+    accent: "#22D3EE",
+    accentText: "#0F2747",
+    cardBg: "#FFFFFF",
+    cardBorder: "#22D3EE",
+    cardText: "#0F2747",
+    numberBg: "#06B6D4",
+    numberText: "#FFFFFF",
+    footerBg: "#22D3EE",
+    footerText: "#0F2747",
+  },
+  soft_lifestyle_pastel: {
+    layout: "cards",
+    background: "#FFF7E6",
+    labelText: "#71717A",
+    headerBg: "#FCE7F3",
+    headerText: "#3F3F46",
+    subText: "#71717A",
+    accent: "#F9A8D4",
+    accentText: "#3F3F46",
+    cardBg: "#FFFFFF",
+    cardBorder: "#BAE6FD",
+    cardText: "#3F3F46",
+    numberBg: "#7DD3FC",
+    numberText: "#1E3A5F",
+    footerBg: "#FEF3C7",
+    footerText: "#3F3F46",
+  },
+  problem_solution_split: {
+    layout: "split",
+    background: "#FFFFFF",
+    labelText: "#6B7280",
+    headerBg: "#1F2937",
+    headerText: "#FFFFFF",
+    subText: "#D1D5DB",
+    accent: "#F97316",
+    accentText: "#FFFFFF",
+    cardBg: "#EFF6FF",
+    cardBorder: "#60A5FA",
+    cardText: "#1E3A8A",
+    numberBg: "#2563EB",
+    numberText: "#FFFFFF",
+    footerBg: "#1F2937",
+    footerText: "#FFFFFF",
+  },
+};
+
+const PLATFORM_LABELS: Record<Platform, string> = {
+  ameba: "Ameba Blog",
+  note: "note",
+  hatena: "はてなブログ",
+  wordpress: "WordPress",
+  qiita: "Qiita",
+  x: "X",
+};
+
+// ---------------------------------------------------------------------------
+// Layout metrics (shared by the JSX below and planLocalCover, which cover-qa.ts
+// checks before a template cover is accepted)
+// ---------------------------------------------------------------------------
+
+export interface LocalCoverTextBlock {
+  role: string;
+  text: string;
+  fontSize: number;
+  /** width available to the text, in px */
+  maxWidth: number;
+  maxLines: number;
+  color: string;
+  background: string;
+}
+
+export interface LocalCoverPlan {
+  width: number;
+  height: number;
+  /** outer padding, in px */
+  padX: number;
+  padY: number;
+  blocks: LocalCoverTextBlock[];
+}
+
+const FONT = {
+  label: 22,
+  hook: 26,
+  cardsSubTitle: 34,
+  headlineSubTitle: 40,
+  headlinePoint: 34,
+  splitTag: 30,
+  splitProblem: 40,
+  splitPoint: 36,
+  number: 30,
+  footer: 30,
+  footerBrand: 22,
+};
+
+const BOX = {
+  headerPadX: 40,
+  hookPadX: 16,
+  cardPadX: 28,
+  cardBorder: 3,
+  number: 56,
+  numberGap: 22,
+  pillPadX: 32,
+  pillBorder: 2,
+  splitArrow: 90,
+  splitPadX: 32,
+  footerPadX: 28,
+  footerBrandWidth: 160,
+};
+
+const SPLIT_PROBLEM = { background: "#FFF7ED", tag: "#C2410C", text: "#7C2D12" };
+
+function pointsOf(textSet: CoverTextSet): string[] {
+  return [textSet.point1, textSet.point2, textSet.point3]
+    .map((line) => (line || "").trim())
+    .filter(Boolean);
+}
+
+/** Shrinks the title so the plan's longest title still fits on two lines. */
+function titleFontSize(plan: CoverTextLayoutPlan, layout: LocalCoverLayout): number {
+  const base = layout === "headline" ? 104 : 80;
+  return Math.round(base * Math.min(1, 18 / Math.max(plan.maxTitleChars, 1)));
+}
+
+function cardsPointFontSize(points: string[]): number {
+  return points.length >= 3 ? 38 : 44;
+}
+
+function framePadding(plan: CoverTextLayoutPlan): { padX: number; padY: number } {
+  const { safeArea } = plan;
+  return {
+    padX: Math.round(
+      (LOCAL_COVER_WIDTH * Math.max(safeArea.leftPercent, safeArea.rightPercent)) / 100
+    ),
+    padY: Math.round(
+      (LOCAL_COVER_HEIGHT * Math.max(safeArea.topPercent, safeArea.bottomPercent)) / 100
+    ),
+  };
+}
+
+/** Inner text width of a numbered point card that is `outer` px wide. */
+function pointCardTextWidth(outer: number): number {
+  return outer - BOX.cardPadX * 2 - BOX.cardBorder * 2 - BOX.number - BOX.numberGap;
+}
+
+/**
+ * Every text line the template will draw, with the size and room it gets.
+ * Mirrors the JSX below; keep the two in step.
+ */
+export function planLocalCover(input: LocalCoverInput): LocalCoverPlan {
+  const { styleId, textSet, plan } = input;
+  const palette = PALETTES[styleId];
+  const { padX, padY } = framePadding(plan);
+  const contentWidth = LOCAL_COVER_WIDTH - padX * 2;
+  const points = pointsOf(textSet);
+  const blocks: LocalCoverTextBlock[] = [];
+  const add = (block: Omit<LocalCoverTextBlock, "text"> & { text?: string }) => {
+    if (block.text) blocks.push(block as LocalCoverTextBlock);
+  };
+
+  add({
+    role: "label",
+    text: PLATFORM_LABELS[input.platform],
+    fontSize: FONT.label,
+    maxWidth: contentWidth / 2,
+    maxLines: 1,
+    color: palette.labelText,
+    background: palette.background,
+  });
+
+  if (palette.layout === "headline") {
+    add({
+      role: "title",
+      text: textSet.title,
+      fontSize: titleFontSize(plan, "headline"),
+      maxWidth: contentWidth,
+      maxLines: 2,
+      color: palette.headerText,
+      background: palette.background,
+    });
+    add({
+      role: "subTitle",
+      text: textSet.subTitle,
+      fontSize: FONT.headlineSubTitle,
+      maxWidth: contentWidth,
+      maxLines: 1,
+      color: palette.subText,
+      background: palette.background,
+    });
+    points.forEach((point, i) =>
+      add({
+        role: `point${i + 1}`,
+        text: point,
+        fontSize: FONT.headlinePoint,
+        maxWidth: contentWidth - BOX.pillPadX * 2 - BOX.pillBorder * 2,
+        maxLines: 1,
+        color: palette.cardText,
+        background: palette.cardBg,
+      })
+    );
+  } else if (palette.layout === "split") {
+    const problemWidth = contentWidth * 0.4;
+    add({
+      role: "title",
+      text: textSet.title,
+      fontSize: titleFontSize(plan, "split"),
+      maxWidth: contentWidth,
+      maxLines: 2,
+      color: palette.headerBg,
+      background: palette.background,
+    });
+    add({
+      role: "problem",
+      text: textSet.subTitle || textSet.hook,
+      fontSize: FONT.splitProblem,
+      maxWidth: problemWidth - BOX.splitPadX * 2 - BOX.cardBorder * 2,
+      maxLines: 3,
+      color: SPLIT_PROBLEM.text,
+      background: SPLIT_PROBLEM.background,
+    });
+    points.forEach((point, i) =>
+      add({
+        role: `point${i + 1}`,
+        text: point,
+        fontSize: FONT.splitPoint,
+        maxWidth: pointCardTextWidth(contentWidth - problemWidth - BOX.splitArrow),
+        maxLines: 1,
+        color: palette.cardText,
+        background: palette.cardBg,
+      })
+    );
+  } else {
+    const headerTextWidth = contentWidth - BOX.headerPadX * 2;
+    add({
+      role: "hook",
+      text: textSet.hook,
+      fontSize: FONT.hook,
+      maxWidth: headerTextWidth - BOX.hookPadX * 2,
+      maxLines: 1,
+      color: palette.accentText,
+      background: palette.accent,
+    });
+    add({
+      role: "title",
+      text: textSet.title,
+      fontSize: titleFontSize(plan, "cards"),
+      maxWidth: headerTextWidth,
+      maxLines: 2,
+      color: palette.headerText,
+      background: palette.headerBg,
+    });
+    add({
+      role: "subTitle",
+      text: textSet.subTitle,
+      fontSize: FONT.cardsSubTitle,
+      maxWidth: headerTextWidth,
+      maxLines: 1,
+      color: palette.subText,
+      background: palette.headerBg,
+    });
+    points.forEach((point, i) =>
+      add({
+        role: `point${i + 1}`,
+        text: point,
+        fontSize: cardsPointFontSize(points),
+        maxWidth: pointCardTextWidth(contentWidth),
+        maxLines: 1,
+        color: palette.cardText,
+        background: palette.cardBg,
+      })
+    );
+  }
+
+  add({
+    role: "footer",
+    text: textSet.footer,
+    fontSize: FONT.footer,
+    maxWidth: contentWidth - BOX.footerPadX * 2 - BOX.footerBrandWidth,
+    maxLines: 1,
+    color: palette.footerText,
+    background: palette.footerBg,
+  });
+
+  return { width: LOCAL_COVER_WIDTH, height: LOCAL_COVER_HEIGHT, padX, padY, blocks };
+}
+
+// ---------------------------------------------------------------------------
+// Template
+// ---------------------------------------------------------------------------
+
+function PointCard({
+  index,
+  text,
+  palette,
+  fontSize,
+}: {
+  index: number;
+  text: string;
+  palette: LocalCoverPalette;
+  fontSize: number;
+}) {
+  return (
+    <div
+      style={{
+        display: "flex",
+        alignItems: "center",
+        backgroundColor: palette.cardBg,
+        border: `${BOX.cardBorder}px solid ${palette.cardBorder}`,
+        borderRadius: 18,
+        padding: `18px ${BOX.cardPadX}px`,
+        marginBottom: 18,
+      }}
+    >
+      <div
+        style={{
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "center",
+          width: BOX.number,
+          height: BOX.number,
+          borderRadius: BOX.number / 2,
+          backgroundColor: palette.numberBg,
+          color: palette.numberText,
+          fontSize: FONT.number,
+          fontWeight: 700,
+          marginRight: BOX.numberGap,
+          flexShrink: 0,
+        }}
+      >
+        {String(index + 1)}
+      </div>
+      <div style={{ display: "flex", fontSize, fontWeight: 700, color: palette.cardText }}>
+        {text}
+      </div>
+    </div>
+  );
+}
+
+function Footer({ text, palette }: { text: string; palette: LocalCoverPalette }) {
+  return (
+    <div
+      style={{
+        display: "flex",
+        justifyContent: "space-between",
+        alignItems: "center",
+        backgroundColor: palette.footerBg,
+        color: palette.footerText,
+        borderRadius: 14,
+        padding: `14px ${BOX.footerPadX}px`,
+        fontSize: FONT.footer,
+        fontWeight: 700,
+      }}
+    >
+      <div style={{ display: "flex" }}>{text}</div>
+      <div style={{ display: "flex", fontSize: FONT.footerBrand, opacity: 0.85 }}>
+        {"takkenai.jp"}
+      </div>
+    </div>
+  );
+}
+
+function HeadlineBody({
+  textSet,
+  palette,
+  plan,
+}: {
+  textSet: CoverTextSet;
+  palette: LocalCoverPalette;
+  plan: CoverTextLayoutPlan;
+}) {
+  const points = pointsOf(textSet);
+  return (
+    <div
+      style={{
+        display: "flex",
+        flexDirection: "column",
+        flex: 1,
+        justifyContent: "center",
+        alignItems: "center",
+      }}
+    >
+      <div
+        style={{
+          display: "flex",
+          width: 120,
+          height: 8,
+          backgroundColor: palette.accent,
+          marginBottom: 36,
+        }}
+      />
+      <div
+        style={{
+          display: "flex",
+          fontSize: titleFontSize(plan, "headline"),
+          fontWeight: 700,
+          color: palette.headerText,
+          textAlign: "center",
+          lineHeight: 1.3,
+        }}
+      >
+        {textSet.title}
+      </div>
+      {textSet.subTitle ? (
+        <div
+          style={{
+            display: "flex",
+            fontSize: FONT.headlineSubTitle,
+            color: palette.subText,
+            marginTop: 28,
+          }}
+        >
+          {textSet.subTitle}
+        </div>
+      ) : null}
+      {points.map((point, i) => (
+        <div
+          key={i}
+          style={{
+            display: "flex",
+            fontSize: FONT.headlinePoint,
+            color: palette.cardText,
+            backgroundColor: palette.cardBg,
+            border: `${BOX.pillBorder}px solid ${palette.cardBorder}`,
+            borderRadius: 40,
+            padding: `10px ${BOX.pillPadX}px`,
+            marginTop: 28,
+          }}
+        >
+          {point}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function CardsBody({
+  textSet,
+  palette,
+  plan,
+}: {
+  textSet: CoverTextSet;
+  palette: LocalCoverPalette;
+  plan: CoverTextLayoutPlan;
+}) {
+  const points = pointsOf(textSet);
+  return (
+    <div style={{ display: "flex", flexDirection: "column", flex: 1 }}>
+      <div
+        style={{
+          display: "flex",
+          flexDirection: "column",
+          backgroundColor: palette.headerBg,
+          borderRadius: 20,
+          padding: `28px ${BOX.headerPadX}px`,
+          marginBottom: 28,
+        }}
+      >
+        {textSet.hook ? (
+          <div
+            style={{
+              display: "flex",
+              alignSelf: "flex-start",
+              backgroundColor: palette.accent,
+              color: palette.accentText,
+              fontSize: FONT.hook,
+              fontWeight: 700,
+              borderRadius: 8,
+              padding: `4px ${BOX.hookPadX}px`,
+              marginBottom: 14,
+            }}
+          >
+            {textSet.hook}
+          </div>
+        ) : null}
+        <div
+          style={{
+            display: "flex",
+            fontSize: titleFontSize(plan, "cards"),
+            fontWeight: 700,
+            color: palette.headerText,
+            lineHeight: 1.3,
+          }}
+        >
+          {textSet.title}
+        </div>
+        {textSet.subTitle ? (
+          <div
+            style={{
+              display: "flex",
+              fontSize: FONT.cardsSubTitle,
+              color: palette.subText,
+              marginTop: 10,
+            }}
+          >
+            {textSet.subTitle}
+          </div>
+        ) : null}
+      </div>
+      <div style={{ display: "flex", flexDirection: "column", flex: 1, justifyContent: "center" }}>
+        {points.map((point, i) => (
+          <PointCard
+            key={i}
+            index={i}
+            text={point}
+            palette={palette}
+            fontSize={cardsPointFontSize(points)}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function SplitBody({
+  textSet,
+  palette,
+  plan,
+}: {
+  textSet: CoverTextSet;
+  palette: LocalCoverPalette;
+  plan: CoverTextLayoutPlan;
+}) {
+  const points = pointsOf(textSet);
+  return (
+    <div style={{ display: "flex", flexDirection: "column", flex: 1 }}>
+      <div
+        style={{
+          display: "flex",
+          fontSize: titleFontSize(plan, "split"),
+          fontWeight: 700,
+          color: palette.headerBg,
+          lineHeight: 1.3,
+          marginBottom: 28,
+        }}
+      >
+        {textSet.title}
+      </div>
+      <div style={{ display: "flex", flex: 1, alignItems: "stretch" }}>
+        <div
+          style={{
+            display: "flex",
+            flexDirection: "column",
+            justifyContent: "center",
+            width: "40%",
+            backgroundColor: SPLIT_PROBLEM.background,
+            border: `${BOX.cardBorder}px solid ${palette.accent}`,
+            borderRadius: 20,
+            padding: `24px ${BOX.splitPadX}px`,
+          }}
+        >
+          <div
+            style={{
+              display: "flex",
+              fontSize: FONT.splitTag,
+              fontWeight: 700,
+              color: SPLIT_PROBLEM.tag,
+            }}
+          >
+            {"課題"}
+          </div>
+          <div
+            style={{
+              display: "flex",
+              fontSize: FONT.splitProblem,
+              fontWeight: 700,
+              color: SPLIT_PROBLEM.text,
+              marginTop: 12,
+            }}
+          >
+            {textSet.subTitle || textSet.hook}
+          </div>
+        </div>
+        <div
+          style={{
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+            width: BOX.splitArrow,
+            fontSize: 64,
+            fontWeight: 700,
+            color: palette.headerBg,
+          }}
+        >
+          {"→"}
+        </div>
+        <div style={{ display: "flex", flexDirection: "column", flex: 1, justifyContent: "center" }}>
+          {points.map((point, i) => (
+            <PointCard key={i} index={i} text={point} palette={palette} fontSize={FONT.splitPoint} />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Builds the template cover for a style. Text comes pre-planned from
+ * buildStyleAwareTextSet, so the local cover carries the same lines (and the
+ * same density) the image model would have been asked to draw.
+ */
+export function buildLocalCoverElement(input: LocalCoverInput): ReactNode {
+  const { styleId, platform, textSet, plan } = input;
+  const palette = PALETTES[styleId];
+  const { padX, padY } = framePadding(plan);
+
+  const body =
+    palette.layout === "headline" ? (
+      <HeadlineBody textSet={textSet} palette={palette} plan={plan} />
+    ) : palette.layout === "split" ? (
+      <SplitBody textSet={textSet} palette={palette} plan={plan} />
+    ) : (
+      <CardsBody textSet={textSet} palette={palette} plan={plan} />
+    );
+
+  return (
+    <div
+      style={{
+        width: LOCAL_COVER_WIDTH,
+        height: LOCAL_COVER_HEIGHT,
+        display: "flex",
+        flexDirection: "column",
+        backgroundColor: palette.background,
+        padding: `${padY}px ${padX}px`,
+        fontFamily: "NotoSansJP",
+      }}
+    >
+      <div
+        style={{
+          display: "flex",
+          justifyContent: "space-between",
+          fontSize: FONT.label,
+          color: palette.labelText,
+          marginBottom: 18,
+        }}
+      >
+        <div style={{ display: "flex" }}>{PLATFORM_LABELS[platform]}</div>
+        <div style={{ display: "flex" }}>{"takkenai.jp"}</div>
+      </div>
+      {body}
+      {textSet.footer ? <Footer text={textSet.footer} palette={palette} /> : null}
+    </div>
+  );
+}
+
+export async function renderLocalCover(input: LocalCoverInput): Promise<Buffer> {
+  return renderSatoriPng(buildLocalCoverElement(input), {
+    width: LOCAL_COVER_WIDTH,
+    height: LOCAL_COVER_HEIGHT,
+  });
+}
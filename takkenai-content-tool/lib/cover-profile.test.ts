@@ -35,3 +35,32 @@ test("resolveCoverProfile should accept legacy pack and return selectable style"
   assert.equal(resolved.stylePack, "jp-classic-v1");
   assert.ok(resolved.availableStyles.includes(resolved.styleId));
 });
+
+test("resolveCoverProfile should pick the render mode configured for the style", () => {
+  const profile = {
+    region: "jp" as const,
+    stylePack: "jp-classic-v2",
+    textDensity: "medium" as const,
+    styleId: "lecture_blue" as const,
+    renderModes: { editorial_white: "local" as const },
+  };
+
+  assert.equal(resolveCoverProfile({ platform: "note", profile }).renderMode, "auto");
+  assert.equal(
+    resolveCoverProfile({ platform: "note", profile, styleId: "editorial_white" }).renderMode,
+    "local"
+  );
+  assert.equal(
+    resolveCoverProfile({
+      platform: "note",
+      profile,
+      styleId: "editorial_white",
+      renderMode: "remote",
+    }).renderMode,
+    "remote"
+  );
+  assert.equal(
+    resolveCoverProfile({ platform: "note", profile, renderMode: "bogus" }).renderMode,
+    "auto"
+  );
+});
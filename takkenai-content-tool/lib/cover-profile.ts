@@ -7,12 +7,21 @@ import type { Platform } from "./topic-engine";
 
 export type CoverRegion = "jp" | "na";
 export type CoverTextDensity = "low" | "medium" | "high";
+/**
+ * auto: image model first, local template when every provider fails
+ * remote: image model only
+ * local: satori template only (no API key needed)
+ */
+export type CoverRenderMode = "auto" | "remote" | "local";
+
+export const COVER_RENDER_MODES: CoverRenderMode[] = ["auto", "remote", "local"];
 
 export interface CoverImageProfile {
   region: CoverRegion;
   stylePack: string;
   textDensity: CoverTextDensity;
   styleId: CoverStyleId;
+  renderModes?: Partial<Record<CoverStyleId, CoverRenderMode>>;
   platformOverrides?: Partial<
     Record<Platform, Partial<Pick<CoverImageProfile, "stylePack" | "textDensity" | "styleId">>>
   >;
@@ -24,6 +33,7 @@ export interface ResolveCoverProfileInput {
   stylePack?: string;
   textDensity?: CoverTextDensity;
   styleId?: string;
+  renderMode?: string;
 }
 
 export interface ResolvedCoverProfile {
@@ -31,6 +41,7 @@ export interface ResolvedCoverProfile {
   stylePack: string;
   textDensity: CoverTextDensity;
   styleId: CoverStyleId;
+  renderMode: CoverRenderMode;
   availableStyles: CoverStyleId[];
 }
 
@@ -58,6 +69,10 @@ function normalizeTextDensity(
   return fallback;
 }
 
+export function isCoverRenderMode(value: unknown): value is CoverRenderMode {
+  return (COVER_RENDER_MODES as unknown[]).includes(value);
+}
+
 function resolveStylePackName(stylePack: string): string {
   const trimmed = (stylePack || "").trim();
   if (!trimmed) return "jp-classic-v2";
@@ -92,12 +107,19 @@ export function resolveCoverProfile(
   const requestedStyleId =
     input.styleId || platformOverride?.styleId || input.profile.styleId;
   const styleId = pickStyleByPack(stylePack, requestedStyleId);
+  const configuredRenderMode = input.profile.renderModes?.[styleId];
+  const renderMode = isCoverRenderMode(input.renderMode)
+    ? input.renderMode
+    : isCoverRenderMode(configuredRenderMode)
+    ? configuredRenderMode
+    : "auto";
 
   return {
     region,
     stylePack,
     textDensity,
     styleId,
+    renderMode,
     availableStyles: [...(STYLE_PACKS[stylePack] || STYLE_PACKS["jp-classic-v2"])],
   };
 }
@@ -0,0 +1,167 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { __testOnlyGenerateCoverImageWithDeps, type GenerateCoverImageDeps } from "./cover-image";
+import type { LocalCoverPlan } from "./cover-local";
+import {
+  checkCoverImageHeuristics,
+  checkLocalCoverLayout,
+  contrastRatio,
+  readImageSize,
+} from "./cover-qa";
+import { COVER_STYLE_IDS } from "./cover-style";
+
+const SAFE_AREA = { leftPercent: 8, rightPercent: 8, topPercent: 6, bottomPercent: 6 };
+
+const ARTICLE = {
+  title: "住宅ローン控除の要件をやさしく解説｜2026年の改正点まとめ",
+  body: [
+    "## 要点",
+    "- 床面積は50平米以上が条件になります",
+    "- 合計所得は2000万円以下であること",
+    "- 入居は取得から6か月以内が原則です",
+  ].join("\n"),
+  platform: "hatena" as const,
+};
+
+/** A PNG header (signature + IHDR) padded to `bytes`. */
+function pngOf(width: number, height: number, bytes: number): Buffer {
+  const buffer = Buffer.alloc(Math.max(bytes, 33));
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(buffer, 0);
+  buffer.writeUInt32BE(13, 8);
+  buffer.write("IHDR", 12, "ascii");
+  buffer.writeUInt32BE(width, 16);
+  buffer.writeUInt32BE(height, 20);
+  return buffer;
+}
+
+function localDeps(): GenerateCoverImageDeps {
+  return {
+    callImageApiFn: async () => {
+      throw new Error("should not be called");
+    },
+    evaluateCoverTextReadabilityFn: async () => null,
+    getModelCandidatesFn: () => ({ candidates: ["mock-model"], strict: true }),
+    enforceReadableText: true,
+    renderLocalCoverFn: async () => Buffer.from("local-png"),
+  };
+}
+
+test("every style's template cover passes the layout checks for a typical article", async () => {
+  for (const styleId of COVER_STYLE_IDS) {
+    const result = await __testOnlyGenerateCoverImageWithDeps(
+      { ...ARTICLE, styleId, renderMode: "local" },
+      localDeps()
+    );
+    assert.equal(result.qualityCheck, "pass", `${styleId}: ${result.qualityIssues?.join(" | ")}`);
+    assert.deepEqual(result.qualityIssues, []);
+  }
+});
+
+test("layout checks flag overflow, tiny text, low contrast and safe-area violations", () => {
+  const cover: LocalCoverPlan = {
+    width: 1600,
+    height: 900,
+    padX: 64,
+    padY: 54,
+    blocks: [
+      {
+        role: "title",
+        text: "宅建試験の権利関係を一気に整理する完全ガイド",
+        fontSize: 80,
+        maxWidth: 800,
+        maxLines: 2,
+        color: "#FFFFFF",
+        background: "#1E3A8A",
+      },
+      {
+        role: "footer",
+        text: "結論",
+        fontSize: 16,
+        maxWidth: 600,
+        maxLines: 1,
+        color: "#F97316",
+        background: "#FFF7ED",
+      },
+    ],
+  };
+
+  const report = checkLocalCoverLayout(cover, SAFE_AREA);
+  assert.equal(report.pass, false);
+  assert.deepEqual(report.issues, [
+    "outside-safe-area:left(4.0%<8%)",
+    "outside-safe-area:right(4.0%<8%)",
+    "text-overflow:title(3/2行)",
+    "font-too-small:footer(16px)",
+    "low-contrast:footer(2.64<4.5)",
+  ]);
+  assert.deepEqual(report.observedTexts, cover.blocks.map((block) => block.text));
+
+  assert.equal(contrastRatio("#000000", "#FFFFFF").toFixed(0), "21");
+});
+
+test("image headers give the dimensions for PNG, JPEG and WebP", () => {
+  assert.deepEqual(readImageSize(pngOf(1792, 1024, 64)), { width: 1792, height: 1024 });
+
+  const jpeg = Buffer.alloc(40);
+  Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x04, 0x00, 0x00]).copy(jpeg, 0);
+  Buffer.from([0xff, 0xc0, 0x00, 0x11, 0x08, 0x03, 0x84, 0x06, 0x40]).copy(jpeg, 8);
+  assert.deepEqual(readImageSize(jpeg), { width: 1600, height: 900 });
+
+  const webp = Buffer.alloc(40);
+  webp.write("RIFF", 0, "ascii");
+  webp.write("WEBP", 8, "ascii");
+  webp.write("VP8X", 12, "ascii");
+  webp.writeUIntLE(1599, 24, 3);
+  webp.writeUIntLE(899, 27, 3);
+  assert.deepEqual(readImageSize(webp), { width: 1600, height: 900 });
+
+  assert.equal(readImageSize(Buffer.from("not an image")), null);
+});
+
+test("image heuristics catch blank, mis-shaped and oversized covers", () => {
+  assert.deepEqual(checkCoverImageHeuristics(pngOf(1600, 900, 200_000)), { pass: true, issues: [] });
+  assert.deepEqual(checkCoverImageHeuristics(pngOf(1600, 900, 2_000)).issues, ["near-uniform-image"]);
+  assert.deepEqual(checkCoverImageHeuristics(pngOf(1024, 1024, 200_000)).issues, [
+    "aspect-ratio-mismatch(1024x1024)",
+  ]);
+
+  const previous = process.env.COVER_MAX_FILE_BYTES;
+  process.env.COVER_MAX_FILE_BYTES = String(1024 * 1024);
+  try {
+    assert.deepEqual(checkCoverImageHeuristics(pngOf(1600, 900, 2 * 1024 * 1024)).issues, [
+      "file-too-large(2.0MB)",
+    ]);
+  } finally {
+    if (previous === undefined) delete process.env.COVER_MAX_FILE_BYTES;
+    else process.env.COVER_MAX_FILE_BYTES = previous;
+  }
+
+  // Unknown formats can't be measured, so only the size limit applies
+  assert.equal(checkCoverImageHeuristics(Buffer.from("tiny")).pass, true);
+});
+
+test("blank model covers are rejected before the QA model is called", async () => {
+  let qaCalls = 0;
+  let imageCalls = 0;
+  const result = await __testOnlyGenerateCoverImageWithDeps(
+    { ...ARTICLE, styleId: "lecture_blue" },
+    {
+      ...localDeps(),
+      callImageApiFn: async () => {
+        imageCalls += 1;
+        return { imageBuffer: pngOf(1600, 900, 1_000), providerUsed: "closeai", modelUsed: "mock-model" };
+      },
+      evaluateCoverTextReadabilityFn: async () => {
+        qaCalls += 1;
+        return { pass: true, issues: [] };
+      },
+      getApiKeyFn: () => "test-key",
+    }
+  );
+
+  assert.equal(imageCalls, 2);
+  assert.equal(qaCalls, 0);
+  assert.equal(result.renderedLocally, true);
+  assert.deepEqual(result.qualityIssues, ["local-template-fallback"]);
+});
@@ -0,0 +1,195 @@
+import type { CoverReadabilityReport, CoverTextLayoutPlan } from "./cover-image";
+import type { LocalCoverPlan } from "./cover-local";
+
+// ---------------------------------------------------------------------------
+// Local cover QA — no vision model, no network.
+//
+// Template covers are checked against their own layout plan (text width,
+// font size, safe area, contrast). Model covers can only be checked from the
+// encoded bytes: dimensions come from the PNG / JPEG / WebP header and a
+// near-uniform image is spotted by how little it compresses to.
+// ---------------------------------------------------------------------------
+
+/** Smallest text that stays legible once the cover is shown as a thumbnail. */
+export const MIN_COVER_FONT_PX = 20;
+
+const EXPECTED_ASPECT_RATIO = 16 / 9;
+const ASPECT_RATIO_TOLERANCE = 0.1;
+/** Compressed bytes per pixel below which an image is treated as blank. */
+const MIN_BYTES_PER_PIXEL = 0.01;
+const DEFAULT_MAX_FILE_BYTES = 5 * 1024 * 1024;
+
+function maxCoverFileBytes(): number {
+  const parsed = Number((process.env.COVER_MAX_FILE_BYTES || "").trim());
+  return Number.isFinite(parsed) && parsed > 0 ? Math.trunc(parsed) : DEFAULT_MAX_FILE_BYTES;
+}
+
+// ---------------------------------------------------------------------------
+// Text metrics
+// ---------------------------------------------------------------------------
+
+function isFullWidth(code: number): boolean {
+  return (
+    (code >= 0x1100 && code <= 0x115f) ||
+    (code >= 0x2e80 && code <= 0xa4cf) ||
+    (code >= 0xac00 && code <= 0xd7a3) ||
+    (code >= 0xf900 && code <= 0xfaff) ||
+    (code >= 0xfe30 && code <= 0xfe4f) ||
+    (code >= 0xff00 && code <= 0xff60) ||
+    (code >= 0xffe0 && code <= 0xffe6) ||
+    code >= 0x1f300
+  );
+}
+
+/**
+ * Rough rendered width of a line in NotoSansJP: full-width glyphs take one
+ * em, Latin letters and digits a bit over half, spaces under a third.
+ */
+export function estimateTextWidth(text: string, fontSize: number): number {
+  let ems = 0;
+  for (const char of Array.from(text)) {
+    const code = char.codePointAt(0) || 0;
+    if (isFullWidth(code)) ems += 1;
+    else if (char === " ") ems += 0.3;
+    else ems += 0.6;
+  }
+  return ems * fontSize;
+}
+
+function relativeLuminance(hex: string): number | null {
+  const match = hex.trim().match(/^#?([0-9a-f]{6})$/i);
+  if (!match) return null;
+  const value = parseInt(match[1], 16);
+  const channels = [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff].map((c) => {
+    const srgb = c / 255;
+    return srgb <= 0.03928 ? srgb / 12.92 : Math.pow((srgb + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * channels[0] + 0.7152 * channels[1] + 0.0722 * channels[2];
+}
+
+/** WCAG 2 contrast ratio between two #RRGGBB colors (1 when unparseable). */
+export function contrastRatio(foreground: string, background: string): number {
+  const a = relativeLuminance(foreground);
+  const b = relativeLuminance(background);
+  if (a === null || b === null) return 1;
+  const [light, dark] = a > b ? [a, b] : [b, a];
+  return (light + 0.05) / (dark + 0.05);
+}
+
+// ---------------------------------------------------------------------------
+// Template covers
+// ---------------------------------------------------------------------------
+
+export function checkLocalCoverLayout(
+  cover: LocalCoverPlan,
+  safeArea: CoverTextLayoutPlan["safeArea"]
+): CoverReadabilityReport {
+  const issues: string[] = [];
+
+  const sides: Array<[string, number, number]> = [
+    ["left", cover.padX / cover.width, safeArea.leftPercent],
+    ["right", cover.padX / cover.width, safeArea.rightPercent],
+    ["top", cover.padY / cover.height, safeArea.topPercent],
+    ["bottom", cover.padY / cover.height, safeArea.bottomPercent],
+  ];
+  for (const [side, actual, required] of sides) {
+    if (actual * 100 + 0.01 < required) {
+      issues.push(`outside-safe-area:${side}(${(actual * 100).toFixed(1)}%<${required}%)`);
+    }
+  }
+
+  for (const block of cover.blocks) {
+    if (block.fontSize < MIN_COVER_FONT_PX) {
+      issues.push(`font-too-small:${block.role}(${block.fontSize}px)`);
+    }
+    const lines = Math.ceil(estimateTextWidth(block.text, block.fontSize) / block.maxWidth);
+    if (lines > block.maxLines) {
+      issues.push(`text-overflow:${block.role}(${lines}/${block.maxLines}行)`);
+    }
+    // WCAG AA: 3:1 is enough for large text, 4.5:1 otherwise
+    const required = block.fontSize >= 24 ? 3 : 4.5;
+    const ratio = contrastRatio(block.color, block.background);
+    if (ratio < required) {
+      issues.push(`low-contrast:${block.role}(${ratio.toFixed(2)}<${required})`);
+    }
+  }
+
+  return {
+    pass: issues.length === 0,
+    issues,
+    observedTexts: cover.blocks.map((block) => block.text),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Model covers
+// ---------------------------------------------------------------------------
+
+/** Width and height from the image header, or null for unknown formats. */
+export function readImageSize(buffer: Buffer): { width: number; height: number } | null {
+  if (buffer.length >= 24 && buffer.toString("ascii", 12, 16) === "IHDR") {
+    return { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+  }
+
+  if (buffer.length >= 4 && buffer[0] === 0xff && buffer[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < buffer.length) {
+      if (buffer[offset] !== 0xff) return null;
+      const marker = buffer[offset + 1];
+      const length = buffer.readUInt16BE(offset + 2);
+      const isStartOfFrame =
+        marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+      if (isStartOfFrame) {
+        return { width: buffer.readUInt16BE(offset + 7), height: buffer.readUInt16BE(offset + 5) };
+      }
+      offset += 2 + length;
+    }
+    return null;
+  }
+
+  if (
+    buffer.length >= 30 &&
+    buffer.toString("ascii", 0, 4) === "RIFF" &&
+    buffer.toString("ascii", 8, 12) === "WEBP"
+  ) {
+    const chunk = buffer.toString("ascii", 12, 16);
+    if (chunk === "VP8X") {
+      return { width: buffer.readUIntLE(24, 3) + 1, height: buffer.readUIntLE(27, 3) + 1 };
+    }
+    if (chunk === "VP8 ") {
+      return { width: buffer.readUInt16LE(26) & 0x3fff, height: buffer.readUInt16LE(28) & 0x3fff };
+    }
+    if (chunk === "VP8L") {
+      const bits = buffer.readUInt32LE(21);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Cheap checks on a generated cover before spending a vision-model call on
+ * it. Formats whose header can't be read only get the file size check.
+ */
+export function checkCoverImageHeuristics(buffer: Buffer): CoverReadabilityReport {
+  const issues: string[] = [];
+
+  const maxBytes = maxCoverFileBytes();
+  if (buffer.length > maxBytes) {
+    issues.push(`file-too-large(${(buffer.length / 1024 / 1024).toFixed(1)}MB)`);
+  }
+
+  const size = readImageSize(buffer);
+  if (size && size.width > 0 && size.height > 0) {
+    const ratio = size.width / size.height;
+    if (Math.abs(ratio - EXPECTED_ASPECT_RATIO) / EXPECTED_ASPECT_RATIO > ASPECT_RATIO_TOLERANCE) {
+      issues.push(`aspect-ratio-mismatch(${size.width}x${size.height})`);
+    }
+    if (buffer.length / (size.width * size.height) < MIN_BYTES_PER_PIXEL) {
+      issues.push("near-uniform-image");
+    }
+  }
+
+  return { pass: issues.length === 0, issues };
+}
@@ -39,7 +39,7 @@ export const COVER_STYLE_OPTIONS: CoverStyleOption[] = [
     previewImage: "/cover-styles/lecture_blue.png",
     promptDirection:
       "上部深蓝标题栏+中部三条编号要点卡+右侧讲师形象+底部总结横条。课堂讲义感，信息清晰。",
-    platformAffinity: { ameba: 70, note: 78, hatena: 92 },
+    platformAffinity: { ameba: 70, note: 78, hatena: 92, wordpress: 90, qiita: 72, x: 60 },
   },
   {
     id: "eco_green",
@@ -48,7 +48,7 @@ export const COVER_STYLE_OPTIONS: CoverStyleOption[] = [
     previewImage: "/cover-styles/eco_green.png",
     promptDirection:
       "浅绿色背景与纸质纹理，卡通角色（如猫/机器人/讲师）和对勾清单，亲和力强。",
-    platformAffinity: { ameba: 90, note: 70, hatena: 65 },
+    platformAffinity: { ameba: 90, note: 70, hatena: 65, wordpress: 66, qiita: 50, x: 70 },
   },
   {
     id: "flow_yellow",
@@ -57,7 +57,7 @@ export const COVER_STYLE_OPTIONS: CoverStyleOption[] = [
     previewImage: "/cover-styles/flow_yellow.png",
     promptDirection:
       "黄色网格底，中央大标题，流程箭头和模块化信息卡，逻辑推导感明显。",
-    platformAffinity: { ameba: 68, note: 72, hatena: 88 },
+    platformAffinity: { ameba: 68, note: 72, hatena: 88, wordpress: 86, qiita: 80, x: 62 },
   },
   {
     id: "impact_money",
@@ -66,7 +66,7 @@ export const COVER_STYLE_OPTIONS: CoverStyleOption[] = [
     previewImage: "/cover-styles/impact_money.png",
     promptDirection:
       "高对比蓝红黄配色，夸张标题和上升箭头，真人商务人物，金币/收益感符号。",
-    platformAffinity: { ameba: 86, note: 84, hatena: 55 },
+    platformAffinity: { ameba: 86, note: 84, hatena: 55, wordpress: 70, qiita: 45, x: 92 },
   },
   {
     id: "cyber_blue",
@@ -75,7 +75,7 @@ export const COVER_STYLE_OPTIONS: CoverStyleOption[] = [
     previewImage: "/cover-styles/cyber_blue.png",
     promptDirection:
       "科技蓝背景、数据可视化元素、人物+机器人双主体，适合AI工具/指南类内容。",
-    platformAffinity: { ameba: 80, note: 90, hatena: 75 },
+    platformAffinity: { ameba: 80, note: 90, hatena: 75, wordpress: 78, qiita: 94, x: 80 },
   },
   {
     id: "paper_sns",
@@ -84,7 +84,7 @@ export const COVER_STYLE_OPTIONS: CoverStyleOption[] = [
     previewImage: "/cover-styles/paper_sns.png",
     promptDirection:
       "米色纸张质感，三栏卡片并列对照，不同平台标签明显，信息分栏阅读感强。",
-    platformAffinity: { ameba: 76, note: 88, hatena: 80 },
+    platformAffinity: { ameba: 76, note: 88, hatena: 80, wordpress: 72, qiita: 60, x: 90 },
   },
   {
     id: "editorial_white",
@@ -93,7 +93,7 @@ export const COVER_STYLE_OPTIONS: CoverStyleOption[] = [
     previewImage: "/cover-styles/editorial_white.svg",
     promptDirection:
       "白色或浅灰底，强留白，标题区块简洁，少量图形辅助，整体像编辑部专栏封面。",
-    platformAffinity: { ameba: 74, note: 89, hatena: 95 },
+    platformAffinity: { ameba: 74, note: 89, hatena: 95, wordpress: 93, qiita: 82, x: 70 },
   },
   {
     id: "real_photo_clean",
@@ -102,7 +102,7 @@ export const COVER_STYLE_OPTIONS: CoverStyleOption[] = [
     previewImage: "/cover-styles/real_photo_clean.svg",
     promptDirection:
       "以真实人物场景为主，标题条细而清晰，减少花哨贴纸，强调生活化可信感。",
-    platformAffinity: { ameba: 95, note: 82, hatena: 68 },
+    platformAffinity: { ameba: 95, note: 82, hatena: 68, wordpress: 80, qiita: 40, x: 78 },
   },
   {
     id: "interview_jp_clean",
@@ -111,7 +111,7 @@ export const COVER_STYLE_OPTIONS: CoverStyleOption[] = [
     previewImage: "/cover-styles/interview_jp_clean.svg",
     promptDirection:
       "杂志访谈封面风，左侧为标题与3条要点，右侧为日本职场人物半身照，浅青色干净背景，高级感。",
-    platformAffinity: { ameba: 94, note: 91, hatena: 77 },
+    platformAffinity: { ameba: 94, note: 91, hatena: 77, wordpress: 76, qiita: 48, x: 72 },
   },
   {
     id: "note_minimal_bold",
@@ -120,7 +120,7 @@ export const COVER_STYLE_OPTIONS: CoverStyleOption[] = [
     previewImage: "/cover-styles/note_minimal_bold.svg",
     promptDirection:
       "主标题占据视觉中心，辅助元素极少，色块对比鲜明，像 note 热门头图的简洁冲击风格。",
-    platformAffinity: { ameba: 79, note: 96, hatena: 70 },
+    platformAffinity: { ameba: 79, note: 96, hatena: 70, wordpress: 74, qiita: 62, x: 88 },
   },
   {
     id: "data_card_modern",
@@ -129,7 +129,7 @@ export const COVER_STYLE_OPTIONS: CoverStyleOption[] = [
     previewImage: "/cover-styles/data_card_modern.svg",
     promptDirection:
       "现代卡片布局，包含图表/数据指示图形，信息层次分明，适配工具、趋势、分析内容。",
-    platformAffinity: { ameba: 72, note: 92, hatena: 89 },
+    platformAffinity: { ameba: 72, note: 92, hatena: 89, wordpress: 88, qiita: 90, x: 85 },
   },
   {
     id: "soft_lifestyle_pastel",
@@ -138,7 +138,7 @@ export const COVER_STYLE_OPTIONS: CoverStyleOption[] = [
     previewImage: "/cover-styles/soft_lifestyle_pastel.svg",
     promptDirection:
       "浅色粉彩背景，温和线条插画或角色，强调亲近感和实用感，降低营销压迫感。",
-    platformAffinity: { ameba: 92, note: 81, hatena: 66 },
+    platformAffinity: { ameba: 92, note: 81, hatena: 66, wordpress: 70, qiita: 42, x: 74 },
   },
   {
     id: "problem_solution_split",
@@ -147,7 +147,7 @@ export const COVER_STYLE_OPTIONS: CoverStyleOption[] = [
     previewImage: "/cover-styles/problem_solution_split.svg",
     promptDirection:
       "左右分栏呈现“问题/解法”对照，中间用箭头或转化符号连接，适合教程和实务结论型内容。",
-    platformAffinity: { ameba: 73, note: 87, hatena: 90 },
+    platformAffinity: { ameba: 73, note: 87, hatena: 90, wordpress: 91, qiita: 70, x: 84 },
   },
 ];
 
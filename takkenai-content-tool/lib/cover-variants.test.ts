@@ -0,0 +1,134 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import fs from "fs";
+import path from "path";
+
+import { getOrCreateCalendar, loadCalendarStore, updatePlatformEntry } from "./calendar-engine";
+import { withTempCalendar } from "./calendar-test-helpers";
+import { getStylePackStyles } from "./cover-profile";
+import { getCoverStylesByPlatform } from "./cover-style";
+import {
+  buildCoverStyleReport,
+  isCoverVariantError,
+  normalizeVariantCount,
+  pickCoverVariantStyles,
+  readCoverVariantMeta,
+  selectPublishedCover,
+  writeCoverVariantMeta,
+} from "./cover-variants";
+
+test("variants take the pack's best-fitting styles for the platform, requested style first", () => {
+  const pack = getStylePackStyles("na-lowtext-v2");
+  const ranked = getCoverStylesByPlatform("note")
+    .map((item) => item.id)
+    .filter((id) => pack.includes(id));
+
+  assert.deepEqual(pickCoverVariantStyles("note", pack, 3), ranked.slice(0, 3));
+  assert.deepEqual(pickCoverVariantStyles("note", pack, 3, "paper_sns"), [
+    "paper_sns",
+    ...ranked.filter((id) => id !== "paper_sns").slice(0, 2),
+  ]);
+  // A style outside the pack is never generated
+  assert.ok(!pickCoverVariantStyles("note", pack, 4, "lecture_blue").includes("lecture_blue"));
+
+  assert.equal(normalizeVariantCount(undefined), 1);
+  assert.equal(normalizeVariantCount("3"), 3);
+  for (const bad of [0, 5, 1.5, "many"]) {
+    assert.throws(() => normalizeVariantCount(bad), isCoverVariantError);
+  }
+});
+
+test("published covers are recorded on the entry and compared by click-through", () =>
+  withTempCalendar((tmpDir) => {
+    const generatedDir = path.join(tmpDir, "generated");
+    fs.mkdirSync(generatedDir);
+    getOrCreateCalendar(2026, 9);
+    const save = (filename: string) => fs.writeFileSync(path.join(generatedDir, filename), "png");
+
+    const blue = "2026-09-01-note-cover-cyber_blue-20260901000000000-aaaa.png";
+    const paper = "2026-09-02-note-cover-paper_sns-20260902000000000-bbbb.png";
+    const legacy = "2026-09-03-note-cover-lecture_blue-20260903000000000-cccc.png";
+    for (const filename of [blue, paper, legacy]) save(filename);
+    writeCoverVariantMeta(generatedDir, {
+      filename: blue,
+      styleId: "cyber_blue",
+      stylePack: "na-lowtext-v2",
+      variantGroup: "g1",
+      variantCount: 3,
+    });
+    writeCoverVariantMeta(generatedDir, {
+      filename: paper,
+      styleId: "paper_sns",
+      stylePack: "na-lowtext-v2",
+    });
+    assert.deepEqual(readCoverVariantMeta(generatedDir, legacy), {
+      filename: legacy,
+      styleId: "lecture_blue",
+    });
+
+    const now = new Date("2026-09-10T00:00:00Z");
+    const { cover } = selectPublishedCover({ date: "2026-09-01", platform: "note" }, generatedDir, blue, {
+      actor: " 編集A ",
+      now,
+    });
+    assert.deepEqual(cover, {
+      filename: blue,
+      styleId: "cyber_blue",
+      stylePack: "na-lowtext-v2",
+      variantGroup: "g1",
+      variantCount: 3,
+      selectedAt: now.toISOString(),
+      selectedBy: "編集A",
+    });
+    selectPublishedCover({ date: "2026-09-02", platform: "note" }, generatedDir, paper);
+    selectPublishedCover({ date: "2026-09-03", platform: "note" }, generatedDir, legacy);
+
+    for (const [slot, filename, message] of [
+      ["2026-09-01", paper, `${paper} は 2026-09-01 note の封面図ではありません`],
+      ["2026-09-01", "2026-09-01-note-cover-cyber_blue-1-x.png", "封面図 2026-09-01-note-cover-cyber_blue-1-x.png が見つかりません"],
+      ["2026-09-01", "../2026-09-01-note-cover.png", "../2026-09-01-note-cover.png は 2026-09-01 note の封面図ではありません"],
+    ]) {
+      assert.throws(
+        () => selectPublishedCover({ date: slot, platform: "note" }, generatedDir, filename),
+        (err: unknown) => isCoverVariantError(err) && err.message === message
+      );
+    }
+
+    const outcomes: Array<[number, number, number]> = [
+      [1, 20, 1000],
+      [2, 5, 1000],
+      [3, 12, 0],
+    ];
+    for (const [day, referralClicks, views] of outcomes) {
+      updatePlatformEntry(2026, 9, day, "note", {
+        status: "published",
+        performance: { referralClicks, views, source: "manual", updatedAt: now.toISOString() },
+      });
+    }
+
+    const report = buildCoverStyleReport(loadCalendarStore().calendars, now);
+    assert.equal(report.samples, 3);
+    const note = report.platforms.note!;
+    assert.equal(note.clickThroughRate, 0.0125);
+    assert.deepEqual(
+      note.styles.map((arm) => [arm.key, arm.samples, arm.clickThroughRate, arm.lift]),
+      [
+        ["cyber_blue", 1, 0.02, 1.6],
+        ["paper_sns", 1, 0.005, 0.4],
+        // No views, so no rate; its clicks still count towards the reward
+        ["lecture_blue", 1, null, null],
+      ]
+    );
+    assert.deepEqual(note.stylePacks, [
+      {
+        key: "na-lowtext-v2",
+        samples: 2,
+        referralClicks: 25,
+        views: 2000,
+        clickThroughRate: 0.0125,
+        lift: 1,
+        meanReward: 22.5,
+      },
+    ]);
+    assert.equal(report.platforms.ameba, undefined);
+  }));
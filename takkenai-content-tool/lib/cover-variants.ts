@@ -0,0 +1,341 @@
+import fs from "fs";
+import path from "path";
+import {
+  updatePlatformEntryWith,
+  type CalendarDay,
+  type CalendarSlot,
+  type MonthCalendar,
+} from "./calendar-engine";
+import type { CoverTextDensity } from "./cover-profile";
+import { getCoverStylesByPlatform, isCoverStyleId, type CoverStyleId } from "./cover-style";
+import { writeJsonAtomic } from "./json-file";
+import { computeEntryReward } from "./performance-weights";
+import { getPlatformDefinition, PLATFORM_IDS, type PlatformMap } from "./platform-registry";
+import type { Platform } from "./topic-engine";
+
+// ---------------------------------------------------------------------------
+// Cover variants — several styles per article, one of them published.
+//
+// Every generated cover gets a `<filename>.variant.json` sidecar in the
+// generated dir recording its style, pack and the request it came from.
+// The cover the editor publishes is copied onto the calendar entry
+// (`PlatformEntry.cover`), which is what the click-through report reads
+// once performance data has been imported.
+// ---------------------------------------------------------------------------
+
+export type CoverVariantError = Error & { code: "COVER_VARIANT_INVALID" };
+
+export function isCoverVariantError(error: unknown): error is CoverVariantError {
+  return (
+    error instanceof Error &&
+    (error as Partial<CoverVariantError>).code === "COVER_VARIANT_INVALID"
+  );
+}
+
+function createCoverVariantError(message: string): CoverVariantError {
+  const error = new Error(message) as CoverVariantError;
+  error.code = "COVER_VARIANT_INVALID";
+  return error;
+}
+
+/** Upper bound per request; every variant is a separate image generation. */
+export const MAX_COVER_VARIANTS = 4;
+
+export interface CoverVariantMeta {
+  filename: string;
+  styleId: CoverStyleId;
+  /** Missing for covers generated before variants were recorded */
+  stylePack?: string;
+  textDensity?: CoverTextDensity;
+  /** Shared by the covers generated in one request */
+  variantGroup?: string;
+  /** Number of covers generated in that request */
+  variantCount?: number;
+  renderedLocally?: boolean;
+  qualityCheck?: string;
+  createdAt?: string;
+}
+
+/** The cover that went out with the published entry. */
+export interface PublishedCover {
+  filename: string;
+  styleId: CoverStyleId;
+  stylePack?: string;
+  variantGroup?: string;
+  /** How many covers the editor chose from */
+  variantCount?: number;
+  selectedAt: string;
+  selectedBy?: string;
+}
+
+/** Click-through of one style or style pack on a platform. */
+export interface CoverArmReport {
+  key: string;
+  samples: number;
+  referralClicks: number;
+  views: number;
+  /** referralClicks / views over the samples that have views; null without views */
+  clickThroughRate: number | null;
+  /** clickThroughRate relative to the platform's; null when either is unknown */
+  lift: number | null;
+  meanReward: number;
+}
+
+export interface PlatformCoverReport {
+  samples: number;
+  clickThroughRate: number | null;
+  meanReward: number;
+  styles: CoverArmReport[];
+  stylePacks: CoverArmReport[];
+}
+
+export interface CoverStyleReport {
+  generatedAt: string;
+  /** Published entries with both a recorded cover and outcomes */
+  samples: number;
+  platforms: PlatformMap<PlatformCoverReport>;
+}
+
+// ---------------------------------------------------------------------------
+// Picking styles
+// ---------------------------------------------------------------------------
+
+/** 1 when omitted; throws unless an integer between 1 and MAX_COVER_VARIANTS. */
+export function normalizeVariantCount(raw: unknown): number {
+  if (raw === undefined || raw === null || raw === "") return 1;
+  const parsed = typeof raw === "number" ? raw : Number(raw);
+  if (!Number.isInteger(parsed) || parsed < 1 || parsed > MAX_COVER_VARIANTS) {
+    throw createCoverVariantError(`variants は1〜${MAX_COVER_VARIANTS}の整数で指定してください`);
+  }
+  return parsed;
+}
+
+/**
+ * The `count` best-fitting styles of the pack for the platform (see
+ * getCoverStylesByPlatform), with the requested style first.
+ */
+export function pickCoverVariantStyles(
+  platform: Platform,
+  availableStyles: CoverStyleId[],
+  count: number,
+  preferred?: CoverStyleId
+): CoverStyleId[] {
+  const ranked = getCoverStylesByPlatform(platform)
+    .map((item) => item.id)
+    .filter((id) => availableStyles.includes(id));
+  const ordered =
+    preferred && ranked.includes(preferred)
+      ? [preferred, ...ranked.filter((id) => id !== preferred)]
+      : ranked;
+  return ordered.slice(0, Math.max(1, Math.min(count, MAX_COVER_VARIANTS)));
+}
+
+// ---------------------------------------------------------------------------
+// Sidecar metadata
+// ---------------------------------------------------------------------------
+
+const SIDECAR_SUFFIX = ".variant.json";
+
+function isPlainImageFilename(filename: string): boolean {
+  return (
+    !filename.includes("/") &&
+    !filename.includes("\\") &&
+    /\.(png|jpe?g|webp)$/i.test(filename)
+  );
+}
+
+export function writeCoverVariantMeta(generatedDir: string, meta: CoverVariantMeta): void {
+  writeJsonAtomic(path.join(generatedDir, `${meta.filename}${SIDECAR_SUFFIX}`), meta);
+}
+
+/**
+ * Metadata of a generated cover. Covers without a sidecar still have their
+ * style in the filename (`…-cover-<styleId>-<timestamp>.png`).
+ */
+export function readCoverVariantMeta(
+  generatedDir: string,
+  filename: string
+): CoverVariantMeta | null {
+  const sidecarPath = path.join(generatedDir, `${filename}${SIDECAR_SUFFIX}`);
+  if (fs.existsSync(sidecarPath)) {
+    try {
+      const parsed = JSON.parse(fs.readFileSync(sidecarPath, "utf-8")) as CoverVariantMeta;
+      if (isCoverStyleId(String(parsed.styleId || ""))) {
+        return { ...parsed, filename };
+      }
+    } catch {
+      // fall through to the filename
+    }
+  }
+  const match = filename.match(/-cover-([a-z0-9_]+)-\d/);
+  if (!match || !isCoverStyleId(match[1])) return null;
+  return { filename, styleId: match[1] };
+}
+
+// ---------------------------------------------------------------------------
+// Publishing
+// ---------------------------------------------------------------------------
+
+/**
+ * Record which generated cover went out with the entry. Selecting again
+ * replaces the previous choice.
+ */
+export function selectPublishedCover(
+  slot: CalendarSlot,
+  generatedDir: string,
+  filename: string,
+  options: { actor?: string; now?: Date } = {}
+): { day: CalendarDay; cover: PublishedCover } {
+  const match = slot.date.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) throw createCoverVariantError("不正な日付形式です（YYYY-MM-DD）");
+  const label = `${slot.date} ${getPlatformDefinition(slot.platform).shortLabel}`;
+  if (
+    !isPlainImageFilename(filename) ||
+    !filename.startsWith(`${slot.date}-${slot.platform}`) ||
+    !filename.includes("-cover-")
+  ) {
+    throw createCoverVariantError(`${filename} は ${label} の封面図ではありません`);
+  }
+  if (!fs.existsSync(path.join(generatedDir, filename))) {
+    throw createCoverVariantError(`封面図 ${filename} が見つかりません`);
+  }
+  const meta = readCoverVariantMeta(generatedDir, filename);
+  if (!meta) throw createCoverVariantError(`${filename} のスタイルを判別できません`);
+
+  const actor = (options.actor || "").trim();
+  const cover: PublishedCover = {
+    filename,
+    styleId: meta.styleId,
+    ...(meta.stylePack ? { stylePack: meta.stylePack } : {}),
+    ...(meta.variantGroup ? { variantGroup: meta.variantGroup } : {}),
+    ...(meta.variantCount ? { variantCount: meta.variantCount } : {}),
+    selectedAt: (options.now || new Date()).toISOString(),
+    ...(actor ? { selectedBy: actor } : {}),
+  };
+  const day = updatePlatformEntryWith(
+    parseInt(match[1], 10),
+    parseInt(match[2], 10),
+    parseInt(match[3], 10),
+    slot.platform,
+    () => ({ cover })
+  );
+  if (!day) throw createCoverVariantError(`${label} の記事がカレンダーにありません`);
+  return { day, cover };
+}
+
+// ---------------------------------------------------------------------------
+// Click-through report
+// ---------------------------------------------------------------------------
+
+type CoverArmTotals = {
+  samples: number;
+  reward: number;
+  referralClicks: number;
+  views: number;
+  /** referralClicks of the samples that have views */
+  viewedClicks: number;
+};
+
+function emptyTotals(): CoverArmTotals {
+  return { samples: 0, reward: 0, referralClicks: 0, views: 0, viewedClicks: 0 };
+}
+
+type CoverSample = { reward: number; referralClicks: number; views: number };
+
+function addToTotals(totals: CoverArmTotals, sample: CoverSample): void {
+  totals.samples++;
+  totals.reward += sample.reward;
+  totals.referralClicks += sample.referralClicks;
+  totals.views += sample.views;
+  if (sample.views > 0) totals.viewedClicks += sample.referralClicks;
+}
+
+function addArmSample(arms: Record<string, CoverArmTotals>, key: string, sample: CoverSample): void {
+  const totals = arms[key] || emptyTotals();
+  addToTotals(totals, sample);
+  arms[key] = totals;
+}
+
+function clickThroughRate(totals: CoverArmTotals): number | null {
+  return totals.views > 0 ? totals.viewedClicks / totals.views : null;
+}
+
+function round(value: number, digits: number): number {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
+
+function toArmReports(
+  arms: Record<string, CoverArmTotals>,
+  platformRate: number | null
+): CoverArmReport[] {
+  return Object.keys(arms)
+    .map((key) => {
+      const totals = arms[key];
+      const rate = clickThroughRate(totals);
+      return {
+        key,
+        samples: totals.samples,
+        referralClicks: totals.referralClicks,
+        views: totals.views,
+        clickThroughRate: rate === null ? null : round(rate, 4),
+        lift: rate === null || !platformRate ? null : round(rate / platformRate, 3),
+        meanReward: round(totals.reward / totals.samples, 2),
+      };
+    })
+    .sort((a, b) => {
+      const rateDiff = (b.clickThroughRate ?? -1) - (a.clickThroughRate ?? -1);
+      if (rateDiff !== 0) return rateDiff;
+      const rewardDiff = b.meanReward - a.meanReward;
+      if (rewardDiff !== 0) return rewardDiff;
+      return a.key.localeCompare(b.key);
+    });
+}
+
+/**
+ * Click-through by cover style and style pack, per platform, over the
+ * published entries that have both a recorded cover and outcomes. Arms are
+ * sorted best first; `samples` tells how much to trust them.
+ */
+export function buildCoverStyleReport(
+  calendars: MonthCalendar[],
+  now: Date = new Date()
+): CoverStyleReport {
+  const report: CoverStyleReport = {
+    generatedAt: now.toISOString(),
+    samples: 0,
+    platforms: {},
+  };
+
+  for (const platform of PLATFORM_IDS) {
+    const total = emptyTotals();
+    const styles: Record<string, CoverArmTotals> = {};
+    const stylePacks: Record<string, CoverArmTotals> = {};
+    for (const calendar of calendars) {
+      for (const day of calendar.days) {
+        const entry = day.platforms[platform];
+        if (!entry || entry.status !== "published" || !entry.performance || !entry.cover) continue;
+        const sample: CoverSample = {
+          reward: computeEntryReward(entry.performance),
+          referralClicks: entry.performance.referralClicks || 0,
+          views: entry.performance.views || 0,
+        };
+        addToTotals(total, sample);
+        addArmSample(styles, entry.cover.styleId, sample);
+        if (entry.cover.stylePack) addArmSample(stylePacks, entry.cover.stylePack, sample);
+      }
+    }
+    if (total.samples === 0) continue;
+
+    const rate = clickThroughRate(total);
+    report.samples += total.samples;
+    report.platforms[platform] = {
+      samples: total.samples,
+      clickThroughRate: rate === null ? null : round(rate, 4),
+      meanReward: round(total.reward / total.samples, 2),
+      styles: toArmReports(styles, rate),
+      stylePacks: toArmReports(stylePacks, rate),
+    };
+  }
+  return report;
+}
@@ -0,0 +1,138 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import type { PlatformEntry } from "./calendar-engine";
+import {
+  appendReviewComment,
+  buildStatusTransitionUpdates,
+  checkContentRegeneration,
+  checkStatusTransition,
+  countOpenReviewComments,
+  isEditorialWorkflowError,
+  setReviewThreadResolved,
+  splitBodyParagraphs,
+} from "./editorial-workflow";
+
+function makeEntry(overrides: Partial<PlatformEntry> = {}): PlatformEntry {
+  return {
+    angle: "実務",
+    titleSuggestion: "重要事項説明のポイント",
+    status: "generated",
+    targetLength: { min: 1000, max: 2000 },
+    takkenaiUrl: "https://takkenai.jp/",
+    ...overrides,
+  };
+}
+
+const BODY = "## 見出し\n\n重要事項説明は契約前に行います。\n\n35条書面の交付が必要です。";
+
+test("only the editorial path is allowed and skipping needs a reason", () => {
+  assert.match(
+    checkStatusTransition(makeEntry({ status: "pending" }), "published") || "",
+    /「未生成」から「公開済み」には変更できません/
+  );
+  assert.match(checkStatusTransition(makeEntry(), "published") || "", /変更できません/);
+  assert.match(
+    checkStatusTransition(makeEntry({ status: "published" }), "generated") || "",
+    /ステータスを変更できません/
+  );
+  assert.equal(checkStatusTransition(makeEntry({ status: "published" }), "published"), null);
+  assert.match(checkStatusTransition(makeEntry(), "skipped") || "", /理由/);
+  assert.match(
+    checkStatusTransition(makeEntry({ status: "reviewed" }), "generated") || "",
+    /差し戻すには理由/
+  );
+
+  assert.equal(checkContentRegeneration(makeEntry({ status: "pending" })), null);
+  assert.equal(checkContentRegeneration(makeEntry()), null);
+  assert.equal(
+    checkContentRegeneration(makeEntry({ status: "skipped" })),
+    "「スキップ」の記事は再生成できません（先に未生成に戻してください）"
+  );
+
+  const skipped = buildStatusTransitionUpdates(
+    makeEntry({ status: "pending" }),
+    "skipped",
+    { actor: "田中", reason: " 祝日 " },
+    "2026-03-01T00:00:00.000Z"
+  );
+  assert.equal(skipped.skipReason, "祝日");
+  assert.deepEqual(skipped.statusHistory, [
+    { from: "pending", to: "skipped", by: "田中", reason: "祝日", at: "2026-03-01T00:00:00.000Z" },
+  ]);
+  const reopened = buildStatusTransitionUpdates(
+    makeEntry({ ...skipped, status: "skipped" }),
+    "pending"
+  );
+  assert.equal(reopened.skipReason, undefined);
+  assert.equal(reopened.statusHistory?.length, 2);
+
+  assert.throws(
+    () => buildStatusTransitionUpdates(makeEntry({ status: "pending" }), "reviewed", { actor: "a" }),
+    (error: unknown) => isEditorialWorkflowError(error) && error.from === "pending"
+  );
+});
+
+test("approval needs the assigned reviewer, not the writer, and no open threads", () => {
+  const entry = makeEntry({ assignee: "佐藤", reviewer: "田中" });
+  assert.match(checkStatusTransition(entry, "reviewed") || "", /承認者の名前/);
+  assert.match(checkStatusTransition(entry, "reviewed", { actor: "鈴木" }) || "", /田中/);
+  assert.match(
+    checkStatusTransition(makeEntry({ assignee: "佐藤" }), "reviewed", { actor: "佐藤" }) || "",
+    /執筆担当者は自分の記事を承認できません/
+  );
+
+  const comments = appendReviewComment(
+    undefined,
+    { author: "田中", body: "根拠条文を追記してください", paragraphIndex: 2 },
+    BODY,
+    "c1"
+  );
+  const blocked = makeEntry({ ...entry, reviewComments: comments });
+  assert.match(checkStatusTransition(blocked, "reviewed", { actor: "田中" }) || "", /未解決/);
+
+  const resolved = setReviewThreadResolved(comments, "c1", true, "佐藤");
+  const approved = buildStatusTransitionUpdates(
+    makeEntry({ ...entry, reviewComments: resolved }),
+    "reviewed",
+    { actor: "田中" },
+    "2026-03-02T00:00:00.000Z"
+  );
+  assert.equal(approved.reviewedBy, "田中");
+  assert.equal(approved.reviewedAt, "2026-03-02T00:00:00.000Z");
+});
+
+test("comments anchor to body paragraphs and replies join the thread", () => {
+  assert.deepEqual(splitBodyParagraphs(BODY), [
+    "## 見出し",
+    "重要事項説明は契約前に行います。",
+    "35条書面の交付が必要です。",
+  ]);
+
+  let comments = appendReviewComment(
+    undefined,
+    { author: "田中", body: "表現を柔らかく", paragraphIndex: 1 },
+    BODY,
+    "c1",
+    "2026-03-01T00:00:00.000Z"
+  );
+  assert.equal(comments[0].paragraphExcerpt, "重要事項説明は契約前に行います。");
+  comments = appendReviewComment(comments, { author: "佐藤", body: "修正しました", parentId: "c1" }, "", "c2");
+  assert.equal(comments[1].paragraphIndex, 1);
+  assert.equal(countOpenReviewComments(comments), 1);
+
+  assert.throws(
+    () => appendReviewComment(comments, { author: "田中", body: "x", paragraphIndex: 9 }, BODY, "c3"),
+    isEditorialWorkflowError
+  );
+  assert.throws(
+    () => appendReviewComment(comments, { author: "田中", body: "x", parentId: "c2" }, BODY, "c3"),
+    /返信にはさらに返信できません/
+  );
+  assert.throws(() => setReviewThreadResolved(comments, "c2", true, "田中"), /先頭コメント/);
+
+  const resolved = setReviewThreadResolved(comments, "c1", true, "田中");
+  assert.equal(countOpenReviewComments(resolved), 0);
+  const reopened = setReviewThreadResolved(resolved, "c1", false, "田中");
+  assert.equal("resolvedAt" in reopened[0], false);
+});
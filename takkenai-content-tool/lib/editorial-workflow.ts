@@ -0,0 +1,282 @@
+import type {
+  ContentStatus,
+  PlatformEntry,
+  ReviewComment,
+  StatusTransition,
+} from "./calendar-engine";
+
+// Pure rules shared by the API routes, the CSV import and the content page;
+// no Node-only imports here.
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type EditorialWorkflowError = Error & {
+  code: "EDITORIAL_WORKFLOW_VIOLATION";
+  from?: ContentStatus;
+  to?: ContentStatus;
+};
+
+export function isEditorialWorkflowError(error: unknown): error is EditorialWorkflowError {
+  return (
+    error instanceof Error &&
+    (error as Partial<EditorialWorkflowError>).code === "EDITORIAL_WORKFLOW_VIOLATION"
+  );
+}
+
+function createEditorialWorkflowError(
+  message: string,
+  from?: ContentStatus,
+  to?: ContentStatus
+): EditorialWorkflowError {
+  const error = new Error(message) as EditorialWorkflowError;
+  error.code = "EDITORIAL_WORKFLOW_VIOLATION";
+  error.from = from;
+  error.to = to;
+  return error;
+}
+
+export interface StatusTransitionContext {
+  /** Person making the change (required to approve) */
+  actor?: string;
+  /** Required for "skipped" and for sending a reviewed piece back */
+  reason?: string;
+}
+
+export interface ReviewCommentInput {
+  author: string;
+  body: string;
+  paragraphIndex?: number;
+  parentId?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Status transitions
+// ---------------------------------------------------------------------------
+
+/**
+ * pending → generated → reviewed → published, plus skipping (with a reason)
+ * from any unpublished state, sending a reviewed piece back to generated and
+ * reopening a skipped one. Published is final.
+ */
+export const EDITORIAL_TRANSITIONS: Record<ContentStatus, ContentStatus[]> = {
+  pending: ["generated", "skipped"],
+  generated: ["reviewed", "skipped"],
+  reviewed: ["published", "generated", "skipped"],
+  published: [],
+  skipped: ["pending"],
+};
+
+const STATUS_NAMES: Record<ContentStatus, string> = {
+  pending: "未生成",
+  generated: "生成済み",
+  reviewed: "レビュー済み",
+  published: "公開済み",
+  skipped: "スキップ",
+};
+
+const MAX_STATUS_HISTORY = 50;
+const MAX_COMMENT_CHARS = 2000;
+
+function normalizePerson(value: string | undefined): string {
+  return String(value || "").replace(/\s+/g, " ").trim().slice(0, 60);
+}
+
+export function countOpenReviewComments(comments: ReviewComment[] | undefined): number {
+  return (comments || []).filter((comment) => !comment.parentId && !comment.resolvedAt).length;
+}
+
+/**
+ * Returns why `entry` may not move to `to`, or null when it may. Keeping the
+ * current status is always allowed (e.g. re-registering a published URL).
+ */
+export function checkStatusTransition(
+  entry: Pick<PlatformEntry, "status" | "assignee" | "reviewer" | "reviewComments">,
+  to: ContentStatus,
+  context: StatusTransitionContext = {}
+): string | null {
+  const from = entry.status;
+  if (from === to) return null;
+  if (!EDITORIAL_TRANSITIONS[from]?.includes(to)) {
+    const allowed = EDITORIAL_TRANSITIONS[from] || [];
+    return allowed.length > 0
+      ? `「${STATUS_NAMES[from]}」から「${STATUS_NAMES[to]}」には変更できません（可能: ${allowed
+          .map((status) => STATUS_NAMES[status])
+          .join(" / ")}）`
+      : `「${STATUS_NAMES[from]}」の記事はステータスを変更できません`;
+  }
+
+  const actor = normalizePerson(context.actor);
+  const reason = String(context.reason || "").trim();
+  if (to === "skipped" && !reason) {
+    return "スキップするには理由が必要です";
+  }
+  if (from === "reviewed" && to === "generated" && !reason) {
+    return "差し戻すには理由が必要です";
+  }
+  if (to === "reviewed") {
+    if (!actor) return "承認者の名前が必要です";
+    const reviewer = normalizePerson(entry.reviewer);
+    if (reviewer && reviewer !== actor) {
+      return `この記事はレビュー担当者（${reviewer}）のみ承認できます`;
+    }
+    if (normalizePerson(entry.assignee) === actor) {
+      return "執筆担当者は自分の記事を承認できません";
+    }
+    const open = countOpenReviewComments(entry.reviewComments);
+    if (open > 0) {
+      return `未解決のレビューコメントが${open}件あります`;
+    }
+  }
+  return null;
+}
+
+const REGENERATION_BLOCKED_HINTS: Partial<Record<ContentStatus, string>> = {
+  reviewed: "先に理由を添えて差し戻してください",
+  published: "公開後は変更できません",
+  skipped: "先に未生成に戻してください",
+};
+
+/**
+ * Returns why a generate or optimize run may not replace the entry's
+ * content, or null when it may. Only pending and generated pieces are
+ * (re)generated, so an approval never outlives the text it covered.
+ */
+export function checkContentRegeneration(entry: Pick<PlatformEntry, "status">): string | null {
+  const hint = REGENERATION_BLOCKED_HINTS[entry.status];
+  return hint ? `「${STATUS_NAMES[entry.status]}」の記事は再生成できません（${hint}）` : null;
+}
+
+/**
+ * Entry updates for a checked transition (history, approval and skip
+ * reason). Throws EditorialWorkflowError when the transition is illegal.
+ */
+export function buildStatusTransitionUpdates(
+  entry: PlatformEntry,
+  to: ContentStatus,
+  context: StatusTransitionContext = {},
+  nowIso: string = new Date().toISOString()
+): Partial<PlatformEntry> {
+  const violation = checkStatusTransition(entry, to, context);
+  if (violation) {
+    throw createEditorialWorkflowError(violation, entry.status, to);
+  }
+  if (entry.status === to) {
+    return { status: to };
+  }
+
+  const actor = normalizePerson(context.actor);
+  const reason = String(context.reason || "").trim().slice(0, 500);
+  const transition: StatusTransition = {
+    from: entry.status,
+    to,
+    ...(actor ? { by: actor } : {}),
+    ...(reason ? { reason } : {}),
+    at: nowIso,
+  };
+  return {
+    status: to,
+    statusHistory: [...(entry.statusHistory || []), transition].slice(-MAX_STATUS_HISTORY),
+    ...(to === "reviewed" ? { reviewedBy: actor, reviewedAt: nowIso } : {}),
+    ...(to === "generated" ? { reviewedBy: undefined, reviewedAt: undefined } : {}),
+    ...(to === "skipped" ? { skipReason: reason } : {}),
+    ...(entry.status === "skipped" ? { skipReason: undefined } : {}),
+  };
+}
+
+export function normalizeAssignment(value: unknown): string | undefined {
+  const normalized = normalizePerson(typeof value === "string" ? value : "");
+  return normalized || undefined;
+}
+
+// ---------------------------------------------------------------------------
+// Review comments
+// ---------------------------------------------------------------------------
+
+/** Blank-line separated paragraphs of a Markdown body; comment anchors index into this. */
+export function splitBodyParagraphs(body: string): string[] {
+  return String(body || "")
+    .replace(/\r\n/g, "\n")
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Appends a comment (or a reply when `parentId` is set; replies share the
+ * parent's anchor). Throws EditorialWorkflowError on invalid input.
+ */
+export function appendReviewComment(
+  comments: ReviewComment[] | undefined,
+  input: ReviewCommentInput,
+  body: string,
+  id: string,
+  nowIso: string = new Date().toISOString()
+): ReviewComment[] {
+  const list = comments || [];
+  const author = normalizePerson(input.author);
+  const text = String(input.body || "").trim();
+  if (!author) throw createEditorialWorkflowError("コメント投稿者の名前が必要です");
+  if (!text) throw createEditorialWorkflowError("コメント本文が空です");
+  if (text.length > MAX_COMMENT_CHARS) {
+    throw createEditorialWorkflowError(`コメントは${MAX_COMMENT_CHARS}文字以内で入力してください`);
+  }
+
+  let anchor: Pick<ReviewComment, "paragraphIndex" | "paragraphExcerpt"> = {};
+  if (input.parentId) {
+    const parent = list.find((comment) => comment.id === input.parentId);
+    if (!parent) throw createEditorialWorkflowError("返信先のコメントが見つかりません");
+    if (parent.parentId) {
+      throw createEditorialWorkflowError("返信にはさらに返信できません");
+    }
+    if (parent.paragraphIndex !== undefined) {
+      anchor = { paragraphIndex: parent.paragraphIndex, paragraphExcerpt: parent.paragraphExcerpt };
+    }
+  } else if (input.paragraphIndex !== undefined) {
+    const paragraphs = splitBodyParagraphs(body);
+    const index = input.paragraphIndex;
+    if (!Number.isInteger(index) || index < 0 || index >= paragraphs.length) {
+      throw createEditorialWorkflowError("コメント対象の段落が見つかりません");
+    }
+    anchor = { paragraphIndex: index, paragraphExcerpt: paragraphs[index].slice(0, 120) };
+  }
+
+  const comment: ReviewComment = {
+    id,
+    author,
+    body: text,
+    ...anchor,
+    ...(input.parentId ? { parentId: input.parentId } : {}),
+    createdAt: nowIso,
+  };
+  return [...list, comment];
+}
+
+/** Resolves (or reopens) a thread; only top-level comments carry the state. */
+export function setReviewThreadResolved(
+  comments: ReviewComment[] | undefined,
+  commentId: string,
+  resolved: boolean,
+  actor: string,
+  nowIso: string = new Date().toISOString()
+): ReviewComment[] {
+  const list = comments || [];
+  const target = list.find((comment) => comment.id === commentId);
+  if (!target) throw createEditorialWorkflowError("コメントが見つかりません");
+  if (target.parentId) throw createEditorialWorkflowError("スレッドの先頭コメントを指定してください");
+  const by = normalizePerson(actor);
+  if (resolved && !by) throw createEditorialWorkflowError("解決した人の名前が必要です");
+
+  return list.map((comment) => {
+    if (comment.id !== commentId) return comment;
+    if (!resolved) {
+      const { resolvedAt: _resolvedAt, resolvedBy: _resolvedBy, ...rest } = comment;
+      return rest;
+    }
+    return { ...comment, resolvedAt: nowIso, resolvedBy: by };
+  });
+}
+
+/** localStorage key for the editor's display name (there are no accounts). */
+export const EDITOR_NAME_STORAGE_KEY = "takkenai.editorName";
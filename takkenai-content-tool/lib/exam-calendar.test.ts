@@ -0,0 +1,121 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import {
+  clearExamCalendarCache,
+  getExamCalendarYear,
+  getExamTimeline,
+  getThirdSundayOfOctober,
+} from "./exam-calendar";
+import { getDateSeasonalContext, getSeasonalPhase } from "./topic-engine";
+
+test("the exam falls on the third Sunday of October", () => {
+  assert.equal(getThirdSundayOfOctober(2024), "2024-10-20");
+  assert.equal(getThirdSundayOfOctober(2025), "2025-10-19");
+  assert.equal(getThirdSundayOfOctober(2026), "2026-10-18");
+  assert.equal(getThirdSundayOfOctober(2027), "2027-10-17");
+  assert.equal(getThirdSundayOfOctober(2028), "2028-10-15");
+
+  clearExamCalendarCache();
+  assert.equal(getExamCalendarYear(2026).estimated, false);
+  const future = getExamCalendarYear(2031);
+  assert.equal(future.estimated, true);
+  assert.equal(future.examDate, "2031-10-19");
+  assert.equal(future.resultDate, "2031-11-26");
+});
+
+test("phases and countdowns follow the exam calendar", () => {
+  clearExamCalendarCache();
+  const phases = [
+    "2026-03-31",
+    "2026-04-01",
+    "2026-06-30",
+    "2026-07-01",
+    "2026-09-19",
+    "2026-09-20",
+    "2026-10-18",
+    "2026-10-19",
+  ].map(getSeasonalPhase);
+  assert.deepEqual(phases, [
+    "motivation-basics",
+    "deep-dive",
+    "deep-dive",
+    "practice-intensive",
+    "practice-intensive",
+    "exam-tips",
+    "exam-tips",
+    "results-career",
+  ]);
+
+  const july = getExamTimeline("2026-07-10");
+  assert.equal(july.application.status, "open");
+  assert.equal(july.application.daysLeft, 11);
+  assert.equal(july.daysToExam, 100);
+
+  const examDay = getExamTimeline("2026-10-18");
+  assert.equal(examDay.daysToExam, 0);
+  assert.equal(examDay.finishedExam, undefined);
+
+  const afterExam = getExamTimeline("2026-10-19");
+  assert.equal(afterExam.finishedExam?.year, 2026);
+  assert.equal(afterExam.nextExam.examDate, "2027-10-17");
+  assert.equal(afterExam.daysToExam, 363);
+  assert.equal(afterExam.resultsAnnounced, false);
+  assert.equal(getExamTimeline("2026-11-25").resultsAnnounced, true);
+  assert.deepEqual(
+    getExamTimeline("2027-01-15").activeRegistrationCourses.map((course) => course.end),
+    ["2027-03-31"]
+  );
+});
+
+test("seasonal context states exact days and exam-driven 禁止テーマ", () => {
+  clearExamCalendarCache();
+  const beforeExam = getDateSeasonalContext("2026-10-10");
+  assert.match(beforeExam, /試験まで: 残り8日（2026年度本試験: 2026年10月18日（日））/);
+  assert.match(beforeExam, /禁止テーマ: .*「基礎固め」/);
+  assert.match(beforeExam, /「今から申し込める」/);
+  assert.doesNotMatch(beforeExam, /約\d+日/);
+
+  const afterExam = getDateSeasonalContext("2026-10-19");
+  assert.match(afterExam, /時期テーマ: 試験終了・合格発表待ち期/);
+  assert.match(afterExam, /禁止テーマ: .*「直前対策」/);
+  assert.match(afterExam, /「合格おめでとう」.*11月25日/);
+  assert.match(afterExam, /次回（2027年度）の本試験まで残り363日（2027年10月17日（日）・見込み）/);
+
+  const application = getDateSeasonalContext("2026-07-10");
+  assert.match(application, /インターネット申込は7月21日まで・郵送申込は7月15日まで/);
+});
+
+test("admin file edits apply without code changes", () => {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "exam-calendar-"));
+  const file = path.join(tmpDir, "exam-calendar.json");
+  const previous = process.env.EXAM_CALENDAR_FILE;
+  process.env.EXAM_CALENDAR_FILE = file;
+  clearExamCalendarCache();
+  try {
+    fs.writeFileSync(
+      file,
+      JSON.stringify({
+        years: [
+          { year: 2027, examDate: "2027-10-24", resultDate: "2027-12-01", phaseStarts: { examTips: "2027-09-01" } },
+          { year: 2028, examDate: "2029-10-21" },
+        ],
+      })
+    );
+    const year2027 = getExamCalendarYear(2027);
+    assert.equal(year2027.estimated, false);
+    assert.equal(year2027.applicationWindows[0].start, "2027-07-01");
+    assert.equal(getExamCalendarYear(2028).estimated, true, "exam date outside its year is ignored");
+    assert.equal(getSeasonalPhase("2027-09-01"), "exam-tips");
+    assert.equal(getExamTimeline("2027-10-10").daysToExam, 14);
+    assert.match(getDateSeasonalContext("2027-10-26"), /合格発表（2027年度）: 2027年12月1日（水）/);
+  } finally {
+    if (previous === undefined) delete process.env.EXAM_CALENDAR_FILE;
+    else process.env.EXAM_CALENDAR_FILE = previous;
+    clearExamCalendarCache();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,340 @@
+import fs from "fs";
+import path from "path";
+import type { SeasonalPhase } from "./topic-engine";
+
+// 宅建試験の年間日程（本試験日・申込期間・合格発表・登録実務講習）。
+// data/exam-calendar.json に年度を追記すれば翌年以降の日程もコード変更なしで
+// 反映される。ファイルに無い年度は例年のパターン（10月第3日曜日など）で補う。
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface ExamPeriod {
+  label: string;
+  /** YYYY-MM-DD (inclusive) */
+  start: string;
+  /** YYYY-MM-DD (inclusive) */
+  end: string;
+}
+
+/** Optional overrides for where each seasonal phase of an exam cycle begins. */
+export interface ExamPhaseStarts {
+  deepDive?: string;
+  practiceIntensive?: string;
+  examTips?: string;
+}
+
+export interface ExamCalendarYear {
+  year: number;
+  /** 本試験日（原則10月第3日曜日） */
+  examDate: string;
+  applicationWindows: ExamPeriod[];
+  /** 合格発表日 */
+  resultDate: string;
+  registrationCourses: ExamPeriod[];
+  phaseStarts?: ExamPhaseStarts;
+  /** True when the year is not in the file and follows the usual pattern */
+  estimated: boolean;
+}
+
+export interface ExamCalendar {
+  version: string;
+  updatedAt: string;
+  years: ExamCalendarYear[];
+}
+
+export type ExamApplicationStatus = "upcoming" | "open" | "closed";
+
+export interface ExamTimeline {
+  date: string;
+  phase: SeasonalPhase;
+  /** The next exam on or after `date` */
+  nextExam: ExamCalendarYear;
+  /** 0 on the exam day */
+  daysToExam: number;
+  /** This year's exam once it is over (exam day + 1 through December 31) */
+  finishedExam?: ExamCalendarYear;
+  daysSinceExam?: number;
+  /** True once the finished exam's 合格発表 has happened */
+  resultsAnnounced: boolean;
+  application: {
+    status: ExamApplicationStatus;
+    opensOn: string;
+    /** Last day of the longest application window */
+    closesOn: string;
+    /** Days until opening (upcoming) or until the last day (open); 0 when closed */
+    daysLeft: number;
+  };
+  activeRegistrationCourses: ExamPeriod[];
+}
+
+// ---------------------------------------------------------------------------
+// Date helpers (calendar days, independent of the server time zone)
+// ---------------------------------------------------------------------------
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ISO_DATE_RE = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/** Days before the exam at which the 直前対策 phase starts by default. */
+export const EXAM_TIPS_LEAD_DAYS = 28;
+/** 合格発表 is usually the fifth Wednesday after the exam. */
+const RESULT_OFFSET_DAYS = 38;
+
+function toDayNumber(isoDate: string): number {
+  const match = ISO_DATE_RE.exec(isoDate);
+  if (!match) return NaN;
+  const [, y, m, d] = match;
+  const time = Date.UTC(Number(y), Number(m) - 1, Number(d));
+  const check = new Date(time);
+  if (check.getUTCMonth() !== Number(m) - 1 || check.getUTCDate() !== Number(d)) return NaN;
+  return Math.round(time / DAY_MS);
+}
+
+function fromDayNumber(dayNumber: number): string {
+  return new Date(dayNumber * DAY_MS).toISOString().slice(0, 10);
+}
+
+function isIsoDate(value: unknown): value is string {
+  return typeof value === "string" && Number.isFinite(toDayNumber(value));
+}
+
+/** "2026年10月18日（日）" */
+export function formatExamDate(isoDate: string): string {
+  const dayNumber = toDayNumber(isoDate);
+  if (!Number.isFinite(dayNumber)) return isoDate;
+  const date = new Date(dayNumber * DAY_MS);
+  const weekday = ["日", "月", "火", "水", "木", "金", "土"][date.getUTCDay()];
+  return `${date.getUTCFullYear()}年${date.getUTCMonth() + 1}月${date.getUTCDate()}日（${weekday}）`;
+}
+
+export function getThirdSundayOfOctober(year: number): string {
+  const octoberFirst = new Date(Date.UTC(year, 9, 1));
+  const firstSunday = 1 + ((7 - octoberFirst.getUTCDay()) % 7);
+  return fromDayNumber(Math.round(Date.UTC(year, 9, firstSunday + 14) / DAY_MS));
+}
+
+// ---------------------------------------------------------------------------
+// Calendar file
+// ---------------------------------------------------------------------------
+
+const DEFAULT_CALENDAR_FILE = path.join(process.cwd(), "data", "exam-calendar.json");
+
+let cachedCalendar: ExamCalendar | null = null;
+let cachedPath = "";
+let cachedMtimeMs = 0;
+
+function getExamCalendarPath(): string {
+  const fromEnv = (process.env.EXAM_CALENDAR_FILE || "").trim();
+  if (!fromEnv) return DEFAULT_CALENDAR_FILE;
+  return path.isAbsolute(fromEnv) ? fromEnv : path.join(process.cwd(), fromEnv);
+}
+
+/** The usual schedule: internet 7/1–7/21, mail 7/1–7/15, courses December–March. */
+export function buildEstimatedExamYear(year: number): ExamCalendarYear {
+  const examDate = getThirdSundayOfOctober(year);
+  return {
+    year,
+    examDate,
+    applicationWindows: [
+      { label: "インターネット申込", start: `${year}-07-01`, end: `${year}-07-21` },
+      { label: "郵送申込", start: `${year}-07-01`, end: `${year}-07-15` },
+    ],
+    resultDate: fromDayNumber(toDayNumber(examDate) + RESULT_OFFSET_DAYS),
+    registrationCourses: [
+      {
+        label: "登録実務講習（合格発表後日程）",
+        start: `${year}-12-01`,
+        end: `${year + 1}-03-31`,
+      },
+    ],
+    estimated: true,
+  };
+}
+
+function normalizePeriods(raw: unknown): ExamPeriod[] | null {
+  if (!Array.isArray(raw)) return null;
+  const periods: ExamPeriod[] = [];
+  for (let i = 0; i < raw.length; i++) {
+    const item = raw[i] as Partial<ExamPeriod> | null;
+    if (!item || !isIsoDate(item.start) || !isIsoDate(item.end)) continue;
+    if (toDayNumber(item.end) < toDayNumber(item.start)) continue;
+    periods.push({
+      label: String(item.label || "").trim() || "期間",
+      start: item.start,
+      end: item.end,
+    });
+  }
+  return periods.length > 0 ? periods : null;
+}
+
+function normalizePhaseStarts(raw: unknown): ExamPhaseStarts | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+  const input = raw as Record<string, unknown>;
+  const starts: ExamPhaseStarts = {};
+  for (const key of ["deepDive", "practiceIntensive", "examTips"] as const) {
+    if (isIsoDate(input[key])) starts[key] = input[key] as string;
+  }
+  return Object.keys(starts).length > 0 ? starts : undefined;
+}
+
+/**
+ * An entry needs a year and an exam date in that year; any other missing or
+ * malformed field falls back to the usual pattern.
+ */
+function normalizeYear(raw: unknown): ExamCalendarYear | null {
+  if (!raw || typeof raw !== "object") return null;
+  const input = raw as Record<string, unknown>;
+  const year = Math.trunc(Number(input.year));
+  if (!Number.isFinite(year) || !isIsoDate(input.examDate)) return null;
+  const examDate = input.examDate as string;
+  if (!examDate.startsWith(`${year}-`)) return null;
+
+  const fallback = buildEstimatedExamYear(year);
+  const resultDate =
+    isIsoDate(input.resultDate) && toDayNumber(input.resultDate) > toDayNumber(examDate)
+      ? input.resultDate
+      : fromDayNumber(toDayNumber(examDate) + RESULT_OFFSET_DAYS);
+  const phaseStarts = normalizePhaseStarts(input.phaseStarts);
+  return {
+    year,
+    examDate,
+    applicationWindows: normalizePeriods(input.applicationWindows) || fallback.applicationWindows,
+    resultDate,
+    registrationCourses: normalizePeriods(input.registrationCourses) || fallback.registrationCourses,
+    ...(phaseStarts ? { phaseStarts } : {}),
+    estimated: false,
+  };
+}
+
+function normalizeCalendar(raw: unknown): ExamCalendar {
+  const input = (raw && typeof raw === "object" ? raw : {}) as Partial<ExamCalendar>;
+  const byYear = new Map<number, ExamCalendarYear>();
+  const sourceYears = Array.isArray(input.years) ? input.years : [];
+  for (let i = 0; i < sourceYears.length; i++) {
+    const normalized = normalizeYear(sourceYears[i]);
+    if (normalized) byYear.set(normalized.year, normalized);
+  }
+  return {
+    version: String(input.version || "v1"),
+    updatedAt: String(input.updatedAt || ""),
+    years: Array.from(byYear.values()).sort((a, b) => a.year - b.year),
+  };
+}
+
+/** Reads the admin file (re-read when it changes); a missing or broken file yields no years. */
+export function loadExamCalendar(): ExamCalendar {
+  const calendarPath = getExamCalendarPath();
+  if (!fs.existsSync(calendarPath)) {
+    return { version: "builtin", updatedAt: "", years: [] };
+  }
+
+  const stat = fs.statSync(calendarPath);
+  if (cachedCalendar && cachedPath === calendarPath && cachedMtimeMs === stat.mtimeMs) {
+    return cachedCalendar;
+  }
+
+  let calendar: ExamCalendar;
+  try {
+    calendar = normalizeCalendar(JSON.parse(fs.readFileSync(calendarPath, "utf-8")));
+  } catch (error) {
+    console.warn(`[exam-calendar] ${calendarPath} を読み込めません:`, error);
+    calendar = { version: "invalid", updatedAt: "", years: [] };
+  }
+  cachedCalendar = calendar;
+  cachedPath = calendarPath;
+  cachedMtimeMs = stat.mtimeMs;
+  return calendar;
+}
+
+export function clearExamCalendarCache(): void {
+  cachedCalendar = null;
+  cachedPath = "";
+  cachedMtimeMs = 0;
+}
+
+export function getExamCalendarYear(year: number): ExamCalendarYear {
+  return (
+    loadExamCalendar().years.find((entry) => entry.year === year) ||
+    buildEstimatedExamYear(year)
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Timeline
+// ---------------------------------------------------------------------------
+
+function resolvePhase(dayNumber: number, exam: ExamCalendarYear): SeasonalPhase {
+  const examDay = toDayNumber(exam.examDate);
+  if (dayNumber > examDay) return "results-career";
+
+  const starts = exam.phaseStarts || {};
+  const examTips = starts.examTips
+    ? toDayNumber(starts.examTips)
+    : examDay - EXAM_TIPS_LEAD_DAYS;
+  const practiceIntensive = starts.practiceIntensive
+    ? toDayNumber(starts.practiceIntensive)
+    : Math.min(...exam.applicationWindows.map((window) => toDayNumber(window.start)));
+  const deepDive = starts.deepDive
+    ? toDayNumber(starts.deepDive)
+    : toDayNumber(`${exam.year}-04-01`);
+
+  if (dayNumber >= examTips) return "exam-tips";
+  if (dayNumber >= practiceIntensive) return "practice-intensive";
+  if (dayNumber >= deepDive) return "deep-dive";
+  return "motivation-basics";
+}
+
+function isWithin(dayNumber: number, period: ExamPeriod): boolean {
+  return dayNumber >= toDayNumber(period.start) && dayNumber <= toDayNumber(period.end);
+}
+
+/**
+ * Where `dateStr` (YYYY-MM-DD) sits in the exam cycle. Phases follow this
+ * year's calendar: 1月〜 基礎固め, 4月〜 深掘り, 申込開始〜 実践,
+ * 試験4週間前〜 直前対策, 試験翌日〜12月 結果・キャリア.
+ */
+export function getExamTimeline(dateStr: string): ExamTimeline {
+  const dayNumber = toDayNumber(dateStr);
+  if (!Number.isFinite(dayNumber)) {
+    throw new Error(`Invalid date: ${dateStr}`);
+  }
+  const year = Number(dateStr.slice(0, 4));
+  const thisYear = getExamCalendarYear(year);
+  const examOver = dayNumber > toDayNumber(thisYear.examDate);
+  const nextExam = examOver ? getExamCalendarYear(year + 1) : thisYear;
+
+  const opensOn = nextExam.applicationWindows
+    .map((window) => window.start)
+    .reduce((min, value) => (value < min ? value : min));
+  const closesOn = nextExam.applicationWindows
+    .map((window) => window.end)
+    .reduce((max, value) => (value > max ? value : max));
+  let status: ExamApplicationStatus = "closed";
+  let daysLeft = 0;
+  if (dayNumber < toDayNumber(opensOn)) {
+    status = "upcoming";
+    daysLeft = toDayNumber(opensOn) - dayNumber;
+  } else if (dayNumber <= toDayNumber(closesOn)) {
+    status = "open";
+    daysLeft = toDayNumber(closesOn) - dayNumber;
+  }
+
+  const courses = [...getExamCalendarYear(year - 1).registrationCourses, ...thisYear.registrationCourses];
+  return {
+    date: dateStr,
+    phase: resolvePhase(dayNumber, thisYear),
+    nextExam,
+    daysToExam: toDayNumber(nextExam.examDate) - dayNumber,
+    ...(examOver
+      ? { finishedExam: thisYear, daysSinceExam: dayNumber - toDayNumber(thisYear.examDate) }
+      : {}),
+    resultsAnnounced: examOver && dayNumber >= toDayNumber(thisYear.resultDate),
+    application: { status, opensOn, closesOn, daysLeft },
+    activeRegistrationCourses: courses.filter((course) => isWithin(dayNumber, course)),
+  };
+}
+
+export function getExamPhase(dateStr: string): SeasonalPhase {
+  return getExamTimeline(dateStr).phase;
+}
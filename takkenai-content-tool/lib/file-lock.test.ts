@@ -0,0 +1,72 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { spawnSync } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import {
+  acquireFileLock,
+  acquireFileLockSync,
+  releaseFileLock,
+  waitForFileLock,
+} from "./file-lock";
+
+function withTempDir(run: (dir: string) => Promise<void> | void): Promise<void> {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "file-lock-"));
+  return Promise.resolve()
+    .then(() => run(dir))
+    .finally(() => fs.rmSync(dir, { recursive: true, force: true }));
+}
+
+test("locks left by an exited process or too long ago are reclaimed, live ones are not", () =>
+  withTempDir(async (dir) => {
+    const lockPath = path.join(dir, "store.lock");
+    const exitedPid = spawnSync(process.execPath, ["-e", ""]).pid;
+    fs.writeFileSync(lockPath, `${exitedPid} ${os.hostname()} 2026-01-01T00:00:00.000Z dead`);
+    const reclaimed = acquireFileLockSync(lockPath, 200);
+    assert.match(fs.readFileSync(lockPath, "utf-8"), new RegExp(`^${process.pid} `));
+    releaseFileLock(reclaimed);
+    assert.equal(fs.existsSync(lockPath), false);
+
+    fs.writeFileSync(lockPath, `${process.pid} other-host 2026-01-01T00:00:00.000Z old`);
+    const old = new Date(Date.now() - 120000);
+    fs.utimesSync(lockPath, old, old);
+    await waitForFileLock(lockPath, 200);
+    assert.equal(fs.existsSync(lockPath), false);
+
+    const live = acquireFileLockSync(lockPath);
+    await assert.rejects(waitForFileLock(lockPath, 100), /ロック取得がタイムアウトしました/);
+    assert.throws(() => acquireFileLockSync(lockPath, 100), /ロック取得がタイムアウトしました/);
+    releaseFileLock(live);
+    assert.deepEqual(fs.readdirSync(dir), []);
+  }));
+
+test("a holder whose lock was reclaimed cannot release the new holder's lock", () =>
+  withTempDir((dir) => {
+    const lockPath = path.join(dir, "store.lock");
+    const current = acquireFileLockSync(lockPath);
+
+    releaseFileLock({ lockPath, token: "1 some-host 2026-01-01T00:00:00.000Z stale" });
+    assert.equal(fs.readFileSync(lockPath, "utf-8"), current.token);
+    assert.deepEqual(fs.readdirSync(dir), ["store.lock"]);
+
+    releaseFileLock(current);
+    assert.equal(fs.existsSync(lockPath), false);
+  }));
+
+test("waiting for a held lock does not block the event loop", () =>
+  withTempDir(async (dir) => {
+    const lockPath = path.join(dir, "store.lock");
+    const holder = acquireFileLockSync(lockPath);
+    let ticks = 0;
+    const timer = setInterval(() => ticks++, 5);
+    setTimeout(() => releaseFileLock(holder), 60);
+    try {
+      const handle = await acquireFileLock(lockPath, 1000);
+      assert.ok(ticks >= 3, `event loop ran ${ticks} times while waiting`);
+      releaseFileLock(handle);
+    } finally {
+      clearInterval(timer);
+    }
+  }));
@@ -0,0 +1,188 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+// ---------------------------------------------------------------------------
+// Cross-process lock files.
+//
+// `open(lockPath, "wx")` creates the lock atomically. The holder writes a
+// unique token into it, and the lock is only ever removed after it has been
+// renamed aside and its token checked, so neither a release nor a stale-lock
+// reclaim can delete a lock another process has just taken.
+// ---------------------------------------------------------------------------
+
+export const LOCK_WAIT_TIMEOUT_MS = 15000;
+/** A lock older than this is treated as left behind by a crashed holder. */
+const LOCK_STALE_MS = 60000;
+const LOCK_RETRY_MS = 25;
+
+export interface FileLockHandle {
+  lockPath: string;
+  token: string;
+}
+
+function sleepSync(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function uniqueSuffix(): string {
+  return `${process.pid}.${Date.now()}.${Math.random().toString(36).slice(2, 10)}`;
+}
+
+function createLockTimeoutError(lockPath: string): Error {
+  return new Error(`ロック取得がタイムアウトしました (${lockPath})`);
+}
+
+function readLockToken(filePath: string): string | null {
+  try {
+    return fs.readFileSync(filePath, "utf-8");
+  } catch {
+    return null;
+  }
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+/** Token format: `<pid> <hostname> <ISO time> <random>` */
+function isStaleLock(token: string, mtimeMs: number): boolean {
+  if (Date.now() - mtimeMs > LOCK_STALE_MS) return true;
+  const [pid, host] = token.split(" ");
+  // A holder on this machine that has exited can be reclaimed right away.
+  return host === os.hostname() && /^\d+$/.test(pid) && !isProcessAlive(Number(pid));
+}
+
+/**
+ * Remove the lock only if it still carries `expectedToken`. Renaming first
+ * means two processes never act on the same file; a lock that turns out to
+ * be newer than the one examined is linked back into place.
+ */
+function removeLockIfOwned(lockPath: string, expectedToken: string): boolean {
+  const asidePath = `${lockPath}.${uniqueSuffix()}.released`;
+  try {
+    fs.renameSync(lockPath, asidePath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return false;
+    throw error;
+  }
+  const owned = readLockToken(asidePath) === expectedToken;
+  if (!owned) {
+    try {
+      fs.linkSync(asidePath, lockPath);
+    } catch {
+      // A newer lock already took its place.
+    }
+  }
+  fs.rmSync(asidePath, { force: true });
+  return owned;
+}
+
+function reclaimIfStale(lockPath: string): void {
+  const token = readLockToken(lockPath);
+  if (token === null) return;
+  let mtimeMs: number;
+  try {
+    mtimeMs = fs.statSync(lockPath).mtimeMs;
+  } catch {
+    return;
+  }
+  if (isStaleLock(token, mtimeMs)) removeLockIfOwned(lockPath, token);
+}
+
+function tryAcquireFileLock(lockPath: string): FileLockHandle | null {
+  const token = `${process.pid} ${os.hostname()} ${new Date().toISOString()} ${Math.random()
+    .toString(36)
+    .slice(2, 10)}`;
+  try {
+    const fd = fs.openSync(lockPath, "wx");
+    try {
+      fs.writeSync(fd, token);
+    } finally {
+      fs.closeSync(fd);
+    }
+    return { lockPath, token };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+  }
+  reclaimIfStale(lockPath);
+  return null;
+}
+
+function ensureLockDir(lockPath: string): void {
+  const dir = path.dirname(lockPath);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+}
+
+/**
+ * Blocking acquire for synchronous callers (CLI scripts, the calendar
+ * store's transactions). Request handlers should `await waitForFileLock`
+ * first so that this only ever waits out another writer's few milliseconds.
+ */
+export function acquireFileLockSync(
+  lockPath: string,
+  timeoutMs: number = LOCK_WAIT_TIMEOUT_MS
+): FileLockHandle {
+  ensureLockDir(lockPath);
+  const startedAt = Date.now();
+  for (;;) {
+    const handle = tryAcquireFileLock(lockPath);
+    if (handle) return handle;
+    if (Date.now() - startedAt > timeoutMs) throw createLockTimeoutError(lockPath);
+    sleepSync(LOCK_RETRY_MS);
+  }
+}
+
+/** Like acquireFileLockSync, but waits without blocking the event loop. */
+export async function acquireFileLock(
+  lockPath: string,
+  timeoutMs: number = LOCK_WAIT_TIMEOUT_MS
+): Promise<FileLockHandle> {
+  ensureLockDir(lockPath);
+  const startedAt = Date.now();
+  for (;;) {
+    const handle = tryAcquireFileLock(lockPath);
+    if (handle) return handle;
+    if (Date.now() - startedAt > timeoutMs) throw createLockTimeoutError(lockPath);
+    await sleep(LOCK_RETRY_MS);
+  }
+}
+
+export function releaseFileLock(handle: FileLockHandle): void {
+  removeLockIfOwned(handle.lockPath, handle.token);
+}
+
+export function withFileLockSync<T>(lockPath: string, fn: () => T): T {
+  const handle = acquireFileLockSync(lockPath);
+  try {
+    return fn();
+  } finally {
+    releaseFileLock(handle);
+  }
+}
+
+/** Resolves once nobody holds the lock (stale locks are reclaimed on the way). */
+export async function waitForFileLock(
+  lockPath: string,
+  timeoutMs: number = LOCK_WAIT_TIMEOUT_MS
+): Promise<void> {
+  const startedAt = Date.now();
+  for (;;) {
+    if (!fs.existsSync(lockPath)) return;
+    reclaimIfStale(lockPath);
+    if (!fs.existsSync(lockPath)) return;
+    if (Date.now() - startedAt > timeoutMs) throw createLockTimeoutError(lockPath);
+    await sleep(LOCK_RETRY_MS);
+  }
+}
@@ -0,0 +1,137 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import {
+  activateTrafficProfileVersion,
+  buildTrafficUrlProfileFromGa4,
+  computeTrafficSourceScore,
+  detectGa4ExportFormat,
+  importGa4Export,
+  isGa4ImportError,
+  listTrafficProfileVersions,
+  parseGa4Export,
+} from "./ga4-ingest";
+import { clearTrafficUrlProfileCache, loadTrafficUrlProfile } from "./traffic-url-profile";
+
+const ENV_KEYS = ["TRAFFIC_URL_PROFILE_FILE", "TRAFFIC_URL_PROFILE_HISTORY_DIR"] as const;
+
+function withTempProfile(run: (tmpDir: string) => void): void {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "ga4-ingest-"));
+  const previousEnv = ENV_KEYS.map((name) => [name, process.env[name]] as const);
+  const profileFile = path.join(tmpDir, "traffic-url-profile.json");
+  fs.copyFileSync(path.join(process.cwd(), "data", "traffic-url-profile.json"), profileFile);
+  process.env.TRAFFIC_URL_PROFILE_FILE = profileFile;
+  process.env.TRAFFIC_URL_PROFILE_HISTORY_DIR = path.join(tmpDir, "history");
+  clearTrafficUrlProfileCache();
+  try {
+    run(tmpDir);
+  } finally {
+    for (const [name, value] of previousEnv) {
+      if (value === undefined) delete process.env[name];
+      else process.env[name] = value;
+    }
+    clearTrafficUrlProfileCache();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  }
+}
+
+const GA4_CSV = [
+  "# ----------------------------------------",
+  "# ランディング ページ",
+  "# 20260101-20260131",
+  "# ----------------------------------------",
+  "",
+  "Landing page + query string,Sessions,Engaged sessions,Bounce rate,Key events",
+  '/tools/loan?utm_source=note,"1,200",900,25%,6',
+  "/tools/loan/,300,150,50%,0",
+  "/tools/shohiyo,80,16,80%,0",
+  "/takken/past-questions/2025-q1,500,400,20%,0",
+  "/blog/hello,50,30,40%,0",
+  "/takken/takken-gyoho,40,30,25%,1",
+  "",
+  ",Grand total,2170,1526,,7",
+].join("\r\n");
+
+test("GA4 CSV exports are parsed, merged per page and filtered to content pages", () => {
+  assert.equal(detectGa4ExportFormat(GA4_CSV), "csv");
+  const { rows, skipped } = parseGa4Export(GA4_CSV, "csv");
+  assert.equal(skipped, 3);
+  assert.deepEqual(rows, [
+    { path: "/tools/loan", sessions: 1500, engagementRate: 70, bounceRate: 30, conversions: 6 },
+    { path: "/tools/shohiyo", sessions: 80, engagementRate: 20, bounceRate: 80, conversions: 0 },
+    { path: "/takken/takken-gyoho", sessions: 40, engagementRate: 75, bounceRate: 25, conversions: 1 },
+  ]);
+
+  assert.throws(() => parseGa4Export("Page title,Views\nHome,10", "csv"), isGa4ImportError);
+});
+
+test("GA4 Data API JSON reports are parsed with ratio metrics", () => {
+  const report = JSON.stringify({
+    dimensionHeaders: [{ name: "landingPagePlusQueryString" }],
+    metricHeaders: [{ name: "sessions" }, { name: "engagementRate" }, { name: "conversions" }],
+    rows: [
+      {
+        dimensionValues: [{ value: "/tools/chika-search" }],
+        metricValues: [{ value: "200" }, { value: "0.455" }, { value: "2" }],
+      },
+    ],
+  });
+  assert.equal(detectGa4ExportFormat(report), "json");
+  assert.deepEqual(parseGa4Export(report, "json").rows, [
+    { path: "/tools/chika-search", sessions: 200, engagementRate: 45.5, conversions: 2 },
+  ]);
+});
+
+test("scores, tiers and weights follow the documented formula", () => {
+  const { rows } = parseGa4Export(GA4_CSV, "csv");
+  assert.equal(computeTrafficSourceScore(rows[0]), Math.round(3 * 1500 * 1.2 + 40 * 6));
+
+  const previous = loadTrafficUrlProfile();
+  const profile = buildTrafficUrlProfileFromGa4(rows, previous, new Date("2026-02-01T00:00:00Z"));
+  assert.match(profile.version, /^ga4-2026-02-01-[0-9a-f]{6}$/);
+  assert.deepEqual(
+    profile.items.map((item) => [item.path, item.tier, item.weight, item.sourceScore]),
+    [
+      ["/tools/loan", "high", 142, 5640],
+      ["/takken/takken-gyoho", "explore", 5, 190],
+      ["/tools/shohiyo", "cooldown", 2, 168],
+    ]
+  );
+  const loan = previous?.items.find((item) => item.path === "/tools/loan");
+  assert.equal(profile.items[0].labelJa, loan?.labelJa);
+});
+
+test("imports are stored as drafts with a tier diff until activated", () => {
+  withTempProfile(() => {
+    const before = loadTrafficUrlProfile();
+    assert.ok(before);
+
+    const { version, diff } = importGa4Export({ content: GA4_CSV, fileName: "ga4.csv", actor: "佐藤" });
+    assert.equal(version.meta.createdBy, "佐藤");
+    assert.deepEqual(version.meta.source, { fileName: "ga4.csv", format: "csv", rows: 3, skipped: 3 });
+    assert.equal(diff.baseVersion, before.version);
+    assert.equal(diff.removed.length, before.items.length - 2);
+    assert.deepEqual(
+      diff.added.map((item) => item.path),
+      ["/takken/takken-gyoho"]
+    );
+    assert.ok(diff.tierChanges.every((change) => change.from !== change.to));
+    assert.equal(loadTrafficUrlProfile()?.version, before.version);
+
+    const activated = activateTrafficProfileVersion(version.meta.version, "田中");
+    assert.equal(activated.meta.activatedBy, "田中");
+    assert.equal(loadTrafficUrlProfile()?.version, version.meta.version);
+    assert.deepEqual(
+      listTrafficProfileVersions().map((meta) => meta.version).sort(),
+      [before.version, version.meta.version].sort()
+    );
+
+    // The archived profile can be re-activated.
+    activateTrafficProfileVersion(before.version);
+    assert.equal(loadTrafficUrlProfile()?.items.length, before.items.length);
+    assert.throws(() => activateTrafficProfileVersion("../secrets"), isGa4ImportError);
+  });
+});
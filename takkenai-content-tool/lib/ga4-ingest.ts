@@ -0,0 +1,556 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import {
+  canonicalizeTakkenaiPath,
+  clearTrafficUrlProfileCache,
+  getTrafficProfilePath,
+  inferTrafficUrlGroup,
+  loadTrafficUrlProfile,
+  normalizeTrafficUrlProfile,
+  type TrafficUrlProfile,
+  type TrafficUrlProfileItem,
+  type TrafficUrlTier,
+} from "./traffic-url-profile";
+import { parseCsv } from "./calendar-sync";
+import { writeJsonAtomic } from "./json-file";
+import { normalizeAssetLabel } from "./topic-label";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type Ga4ExportFormat = "csv" | "json";
+
+/** One landing page / page path row of a GA4 export, after normalization. */
+export interface Ga4PageRow {
+  /** Canonical takkenai.jp path */
+  path: string;
+  sessions: number;
+  /** 0-100 */
+  engagementRate: number;
+  /** 0-100 */
+  bounceRate?: number;
+  conversions: number;
+}
+
+export interface Ga4ParseResult {
+  rows: Ga4PageRow[];
+  /** Rows dropped because the path is not a takkenai.jp content page */
+  skipped: number;
+}
+
+export type Ga4ImportError = Error & { code: "GA4_IMPORT_INVALID" };
+
+export function isGa4ImportError(error: unknown): error is Ga4ImportError {
+  return error instanceof Error && (error as Partial<Ga4ImportError>).code === "GA4_IMPORT_INVALID";
+}
+
+function createGa4ImportError(message: string): Ga4ImportError {
+  const error = new Error(message) as Ga4ImportError;
+  error.code = "GA4_IMPORT_INVALID";
+  return error;
+}
+
+export interface TrafficProfileSource {
+  fileName?: string;
+  format: Ga4ExportFormat;
+  rows: number;
+  skipped: number;
+}
+
+/** A stored profile version; only one of them is active at a time. */
+export interface TrafficProfileVersionMeta {
+  version: string;
+  createdAt: string;
+  createdBy?: string;
+  source?: TrafficProfileSource;
+  activatedAt?: string;
+  activatedBy?: string;
+}
+
+export interface TrafficProfileVersion {
+  meta: TrafficProfileVersionMeta;
+  profile: TrafficUrlProfile;
+}
+
+export interface TrafficProfileTierChange {
+  path: string;
+  labelJa: string;
+  from: TrafficUrlTier;
+  to: TrafficUrlTier;
+  weightFrom: number;
+  weightTo: number;
+}
+
+export interface TrafficProfileDiff {
+  baseVersion: string | null;
+  nextVersion: string;
+  added: TrafficUrlProfileItem[];
+  removed: TrafficUrlProfileItem[];
+  tierChanges: TrafficProfileTierChange[];
+  /** Same tier, different weight */
+  weightChanges: number;
+  unchanged: number;
+  tierCounts: {
+    base: Record<TrafficUrlTier, number>;
+    next: Record<TrafficUrlTier, number>;
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+type MetricKey = "path" | "sessions" | "engagedSessions" | "engagementRate" | "bounceRate" | "conversions";
+
+/**
+ * Accepted column names (GA4 UI exports in English and Japanese, and Data API
+ * dimension/metric names), compared after lower-casing and removing spaces,
+ * "+", "_" and "-".
+ */
+const COLUMN_ALIASES: Record<MetricKey, string[]> = {
+  path: [
+    "landingpage",
+    "landingpagequerystring",
+    "landingpageplusquerystring",
+    "pagepath",
+    "pagepathandscreenclass",
+    "pagepathquerystring",
+    "pagepathplusquerystring",
+    "path",
+    "ランディングページ",
+    "ランディングページクエリ文字列",
+    "ページパスとスクリーンクラス",
+    "ページパスクエリ文字列",
+  ],
+  sessions: ["sessions", "セッション", "セッション数"],
+  engagedSessions: ["engagedsessions", "エンゲージのあったセッション数"],
+  engagementRate: ["engagementrate", "エンゲージメント率"],
+  bounceRate: ["bouncerate", "直帰率"],
+  conversions: ["conversions", "keyevents", "コンバージョン", "キーイベント"],
+};
+
+function normalizeHeader(raw: string): string {
+  return raw.replace(/^\uFEFF/, "").toLowerCase().replace(/[\s+_\-]/g, "");
+}
+
+function resolveColumns(headers: string[]): Partial<Record<MetricKey, number>> {
+  const normalized = headers.map(normalizeHeader);
+  const columns: Partial<Record<MetricKey, number>> = {};
+  (Object.keys(COLUMN_ALIASES) as MetricKey[]).forEach((key) => {
+    const index = normalized.findIndex((header) => COLUMN_ALIASES[key].includes(header));
+    if (index >= 0) columns[key] = index;
+  });
+  return columns;
+}
+
+function parseCount(raw: string | undefined): number {
+  const value = Number(String(raw ?? "").replace(/[,\s]/g, ""));
+  return Number.isFinite(value) && value > 0 ? value : 0;
+}
+
+/** "45.2%", "45.2" and 0.452 all become 45.2. */
+function parseRate(raw: string | undefined): number | undefined {
+  const text = String(raw ?? "").trim();
+  if (!text) return undefined;
+  const value = Number(text.replace(/[%,\s]/g, ""));
+  if (!Number.isFinite(value) || value < 0) return undefined;
+  const percent = !text.includes("%") && value <= 1 ? value * 100 : value;
+  return Math.min(100, Math.round(percent * 10) / 10);
+}
+
+function csvToTable(content: string): { headers: string[]; records: string[][] } {
+  // GA4 UI exports start with "# ..." comment lines and may hold several
+  // tables separated by blank lines; the first table with a path column wins.
+  const lines = parseCsv(content).filter(
+    (cells) => !(cells.length === 1 && cells[0].trim() === "") && !cells[0].startsWith("#")
+  );
+  const headerIndex = lines.findIndex((cells) => resolveColumns(cells).path !== undefined);
+  if (headerIndex < 0) return { headers: [], records: [] };
+  const headers = lines[headerIndex];
+  const records: string[][] = [];
+  for (const cells of lines.slice(headerIndex + 1)) {
+    if (resolveColumns(cells).path !== undefined) break;
+    records.push(cells);
+  }
+  return { headers, records };
+}
+
+/** Plain row arrays, `{ rows: [...] }` or a GA4 Data API runReport response. */
+function jsonToTable(content: string): { headers: string[]; records: string[][] } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw createGa4ImportError("JSON として読み込めません");
+  }
+  const report = parsed as {
+    dimensionHeaders?: Array<{ name?: string }>;
+    metricHeaders?: Array<{ name?: string }>;
+    rows?: unknown[];
+  };
+  if (Array.isArray(report.dimensionHeaders) && Array.isArray(report.metricHeaders)) {
+    const headers = [...report.dimensionHeaders, ...report.metricHeaders].map((h) => String(h.name || ""));
+    const records = (report.rows || []).map((raw) => {
+      const row = raw as {
+        dimensionValues?: Array<{ value?: string }>;
+        metricValues?: Array<{ value?: string }>;
+      };
+      return [...(row.dimensionValues || []), ...(row.metricValues || [])].map((cell) =>
+        String(cell.value ?? "")
+      );
+    });
+    return { headers, records };
+  }
+
+  const list = Array.isArray(parsed) ? parsed : Array.isArray(report.rows) ? report.rows : [];
+  const objects = list.filter(
+    (item): item is Record<string, unknown> => Boolean(item) && typeof item === "object" && !Array.isArray(item)
+  );
+  const headers = Array.from(new Set(objects.flatMap((item) => Object.keys(item))));
+  const records = objects.map((item) => headers.map((key) => (item[key] === undefined ? "" : String(item[key]))));
+  return { headers, records };
+}
+
+function isSupportedPath(pathValue: string): boolean {
+  if (!pathValue.startsWith("/tools/") && !pathValue.startsWith("/takken/")) return false;
+  // Individual past-question pages are too granular to be link targets.
+  return !/^\/takken\/past-questions\/\d{4}-q\d+/.test(pathValue);
+}
+
+export function detectGa4ExportFormat(content: string, fileName?: string): Ga4ExportFormat {
+  if (fileName && /\.json$/i.test(fileName)) return "json";
+  if (fileName && /\.csv$/i.test(fileName)) return "csv";
+  return /^\s*[[{]/.test(content) ? "json" : "csv";
+}
+
+/**
+ * Parse a GA4 export (CSV from the UI or JSON from the UI / Data API). Rows
+ * with the same canonical path are merged: counts are summed and rates are
+ * averaged by sessions. Throws a Ga4ImportError when the path or sessions
+ * column is missing.
+ */
+export function parseGa4Export(content: string, format: Ga4ExportFormat): Ga4ParseResult {
+  const { headers, records } = format === "json" ? jsonToTable(content) : csvToTable(content);
+  const columns = resolveColumns(headers);
+  if (columns.path === undefined) {
+    throw createGa4ImportError("ページパス列（Landing page / Page path）が見つかりません");
+  }
+  if (columns.sessions === undefined) {
+    throw createGa4ImportError("セッション列（Sessions）が見つかりません");
+  }
+
+  const merged = new Map<string, { sessions: number; engaged: number; bounced: number; bounceKnown: boolean; conversions: number }>();
+  let skipped = 0;
+  for (const record of records) {
+    const cell = (key: MetricKey) => {
+      const index = columns[key];
+      return index === undefined ? undefined : record[index];
+    };
+    const pathValue = canonicalizeTakkenaiPath(cell("path") || "");
+    if (!pathValue || !isSupportedPath(pathValue)) {
+      skipped++;
+      continue;
+    }
+    const sessions = parseCount(cell("sessions"));
+    const bounceRate = parseRate(cell("bounceRate"));
+    const engagedSessions = cell("engagedSessions");
+    const engagementRate =
+      engagedSessions !== undefined && sessions > 0
+        ? Math.min(100, (parseCount(engagedSessions) / sessions) * 100)
+        : parseRate(cell("engagementRate")) ??
+          (bounceRate !== undefined ? 100 - bounceRate : DEFAULT_ENGAGEMENT_RATE);
+
+    const current = merged.get(pathValue) || {
+      sessions: 0,
+      engaged: 0,
+      bounced: 0,
+      bounceKnown: false,
+      conversions: 0,
+    };
+    current.sessions += sessions;
+    current.engaged += (sessions * engagementRate) / 100;
+    if (bounceRate !== undefined) {
+      current.bounced += (sessions * bounceRate) / 100;
+      current.bounceKnown = true;
+    }
+    current.conversions += parseCount(cell("conversions"));
+    merged.set(pathValue, current);
+  }
+
+  const rows = Array.from(merged.entries()).map(([pathValue, totals]): Ga4PageRow => {
+    const rate = (part: number) =>
+      totals.sessions > 0 ? Math.round((part / totals.sessions) * 1000) / 10 : 0;
+    return {
+      path: pathValue,
+      sessions: totals.sessions,
+      engagementRate: totals.sessions > 0 ? rate(totals.engaged) : DEFAULT_ENGAGEMENT_RATE,
+      ...(totals.bounceKnown ? { bounceRate: rate(totals.bounced) } : {}),
+      conversions: totals.conversions,
+    };
+  });
+  return { rows, skipped };
+}
+
+// ---------------------------------------------------------------------------
+// Scoring
+// ---------------------------------------------------------------------------
+
+/** Used when a row has neither engagement nor bounce data. */
+const DEFAULT_ENGAGEMENT_RATE = 50;
+/** Pages bouncing at least this much (with enough sessions) go to cooldown. */
+export const COOLDOWN_BOUNCE_RATE = 70;
+export const COOLDOWN_MIN_SESSIONS = 10;
+/** Share of the non-cooldown pages, best score first, that become "high". */
+export const HIGH_TIER_SHARE = 0.4;
+const DEFAULT_STRATEGY = { highShare: 0.7, exploreShare: 0.3 };
+
+/**
+ * sourceScore = round(3 × sessions × (0.5 + engagementRate / 100) + 40 × conversions)
+ *
+ * A page with average (50%) engagement scores 3 points per session, like the
+ * old Markdown-report build; fully engaged sessions count 1.5 times as much
+ * and each conversion is worth about 13 average sessions.
+ */
+export function computeTrafficSourceScore(row: Ga4PageRow): number {
+  return Math.round(3 * row.sessions * (0.5 + row.engagementRate / 100) + 40 * row.conversions);
+}
+
+/** weight = max(1, round(sourceScore / 40)), +1 for high, halved (min 1) for cooldown. */
+export function computeTrafficWeight(sourceScore: number, tier: TrafficUrlTier): number {
+  const base = Math.max(1, Math.round(sourceScore / 40));
+  if (tier === "cooldown") return Math.max(1, Math.round(base * 0.5));
+  return tier === "high" ? base + 1 : base;
+}
+
+function isCooldownRow(row: Ga4PageRow): boolean {
+  return (
+    row.bounceRate !== undefined &&
+    row.bounceRate >= COOLDOWN_BOUNCE_RATE &&
+    row.sessions >= COOLDOWN_MIN_SESSIONS
+  );
+}
+
+function buildVersionId(now: Date): string {
+  return `ga4-${now.toISOString().slice(0, 10)}-${crypto.randomBytes(3).toString("hex")}`;
+}
+
+/**
+ * Turn parsed GA4 rows into a traffic URL profile. Tiers: high-bounce pages
+ * with enough sessions are "cooldown", the top HIGH_TIER_SHARE of the rest
+ * by sourceScore are "high", everything else "explore". Labels and the
+ * strategy are carried over from `previous` when it knows the page.
+ */
+export function buildTrafficUrlProfileFromGa4(
+  rows: Ga4PageRow[],
+  previous: TrafficUrlProfile | null = null,
+  now: Date = new Date()
+): TrafficUrlProfile {
+  const previousLabels = new Map((previous?.items || []).map((item) => [item.path, item.labelJa]));
+  const scored = rows
+    .map((row) => ({ row, score: computeTrafficSourceScore(row) }))
+    .sort((a, b) => b.score - a.score || a.row.path.localeCompare(b.row.path));
+  const ranked = scored.filter(({ row }) => !isCooldownRow(row));
+  const highCount = Math.max(1, Math.ceil(ranked.length * HIGH_TIER_SHARE));
+  const highPaths = new Set(ranked.slice(0, highCount).map(({ row }) => row.path));
+
+  const items = scored.map(({ row, score }): TrafficUrlProfileItem => {
+    const tier: TrafficUrlTier = isCooldownRow(row)
+      ? "cooldown"
+      : highPaths.has(row.path)
+        ? "high"
+        : "explore";
+    const group = inferTrafficUrlGroup(row.path);
+    return {
+      path: row.path,
+      labelJa:
+        previousLabels.get(row.path) ||
+        normalizeAssetLabel(row.path, group === "tool" ? "tool" : "knowledge-point", `https://takkenai.jp${row.path}`),
+      group,
+      tier,
+      weight: computeTrafficWeight(score, tier),
+      sourceScore: score,
+      ...(row.bounceRate !== undefined ? { bounceRate: row.bounceRate } : {}),
+    };
+  });
+
+  return {
+    version: buildVersionId(now),
+    generatedAt: now.toISOString(),
+    strategy: previous?.strategy || DEFAULT_STRATEGY,
+    items,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Diff
+// ---------------------------------------------------------------------------
+
+function countTiers(profile: TrafficUrlProfile | null): Record<TrafficUrlTier, number> {
+  const counts: Record<TrafficUrlTier, number> = { high: 0, explore: 0, cooldown: 0 };
+  for (const item of profile?.items || []) counts[item.tier]++;
+  return counts;
+}
+
+/** What activating `next` would change compared with `base` (usually the active profile). */
+export function diffTrafficUrlProfiles(
+  base: TrafficUrlProfile | null,
+  next: TrafficUrlProfile
+): TrafficProfileDiff {
+  const baseItems = new Map((base?.items || []).map((item) => [item.path, item]));
+  const nextPaths = new Set(next.items.map((item) => item.path));
+  const added: TrafficUrlProfileItem[] = [];
+  const tierChanges: TrafficProfileTierChange[] = [];
+  let weightChanges = 0;
+  let unchanged = 0;
+  for (const item of next.items) {
+    const previous = baseItems.get(item.path);
+    if (!previous) {
+      added.push(item);
+    } else if (previous.tier !== item.tier) {
+      tierChanges.push({
+        path: item.path,
+        labelJa: item.labelJa,
+        from: previous.tier,
+        to: item.tier,
+        weightFrom: previous.weight,
+        weightTo: item.weight,
+      });
+    } else if (previous.weight !== item.weight) {
+      weightChanges++;
+    } else {
+      unchanged++;
+    }
+  }
+  return {
+    baseVersion: base?.version || null,
+    nextVersion: next.version,
+    added,
+    removed: (base?.items || []).filter((item) => !nextPaths.has(item.path)),
+    tierChanges,
+    weightChanges,
+    unchanged,
+    tierCounts: { base: countTiers(base), next: countTiers(next) },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Version history
+// ---------------------------------------------------------------------------
+
+const DEFAULT_HISTORY_DIR = path.join(process.cwd(), "data", "traffic-url-profile-history");
+const VERSION_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]{0,80}$/;
+
+function resolveHistoryDir(): string {
+  const fromEnv = (process.env.TRAFFIC_URL_PROFILE_HISTORY_DIR || "").trim();
+  if (!fromEnv) return DEFAULT_HISTORY_DIR;
+  return path.isAbsolute(fromEnv) ? fromEnv : path.join(process.cwd(), fromEnv);
+}
+
+function versionFilePath(version: string): string {
+  if (!VERSION_PATTERN.test(version)) {
+    throw createGa4ImportError(`不正なバージョンIDです: ${version}`);
+  }
+  return path.join(resolveHistoryDir(), `${version}.json`);
+}
+
+export function loadTrafficProfileVersion(version: string): TrafficProfileVersion | null {
+  const filePath = versionFilePath(version);
+  if (!fs.existsSync(filePath)) return null;
+  try {
+    const parsed = JSON.parse(fs.readFileSync(filePath, "utf-8")) as {
+      meta?: TrafficProfileVersionMeta;
+      profile?: unknown;
+    };
+    const profile = normalizeTrafficUrlProfile(parsed.profile);
+    if (!profile || !parsed.meta) return null;
+    return { meta: { ...parsed.meta, version: profile.version }, profile };
+  } catch {
+    return null;
+  }
+}
+
+/** Stored versions, newest first. */
+export function listTrafficProfileVersions(): TrafficProfileVersionMeta[] {
+  const dir = resolveHistoryDir();
+  if (!fs.existsSync(dir)) return [];
+  return fs
+    .readdirSync(dir)
+    .filter((name) => name.endsWith(".json"))
+    .map((name) => loadTrafficProfileVersion(name.slice(0, -".json".length))?.meta)
+    .filter((meta): meta is TrafficProfileVersionMeta => Boolean(meta))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Build a draft profile from a GA4 export and store it in the history. The
+ * active profile is not touched until activateTrafficProfileVersion.
+ */
+export function importGa4Export(input: {
+  content: string;
+  fileName?: string;
+  format?: Ga4ExportFormat;
+  actor?: string;
+}): { version: TrafficProfileVersion; diff: TrafficProfileDiff } {
+  const format = input.format || detectGa4ExportFormat(input.content, input.fileName);
+  const { rows, skipped } = parseGa4Export(input.content, format);
+  if (rows.length === 0) {
+    throw createGa4ImportError("takkenai.jp の /tools/ または /takken/ のページ行がありません");
+  }
+  const active = loadTrafficUrlProfile();
+  const profile = buildTrafficUrlProfileFromGa4(rows, active);
+  const createdBy = (input.actor || "").trim();
+  const version: TrafficProfileVersion = {
+    meta: {
+      version: profile.version,
+      createdAt: profile.generatedAt,
+      ...(createdBy ? { createdBy } : {}),
+      source: {
+        ...(input.fileName ? { fileName: input.fileName } : {}),
+        format,
+        rows: rows.length,
+        skipped,
+      },
+    },
+    profile,
+  };
+  writeJsonAtomic(versionFilePath(profile.version), version);
+  return { version, diff: diffTrafficUrlProfiles(active, profile) };
+}
+
+/**
+ * Make a stored version the active traffic profile. The profile it replaces
+ * is archived first when the history does not have it yet, so it can be
+ * re-activated later.
+ */
+export function activateTrafficProfileVersion(version: string, actor?: string): TrafficProfileVersion {
+  const stored = loadTrafficProfileVersion(version);
+  if (!stored) {
+    throw createGa4ImportError(`バージョン ${version} が見つかりません`);
+  }
+  const active = loadTrafficUrlProfile();
+  if (active && active.version !== version && VERSION_PATTERN.test(active.version)) {
+    if (!loadTrafficProfileVersion(active.version)) {
+      writeJsonAtomic(versionFilePath(active.version), {
+        meta: { version: active.version, createdAt: active.generatedAt },
+        profile: active,
+      });
+    }
+  }
+
+  const activatedBy = (actor || "").trim();
+  const { activatedBy: _previousActor, ...meta } = stored.meta;
+  const activated: TrafficProfileVersion = {
+    meta: {
+      ...meta,
+      activatedAt: new Date().toISOString(),
+      ...(activatedBy ? { activatedBy } : {}),
+    },
+    profile: stored.profile,
+  };
+  writeJsonAtomic(versionFilePath(version), activated);
+  writeJsonAtomic(getTrafficProfilePath(), stored.profile);
+  clearTrafficUrlProfileCache();
+  return activated;
+}
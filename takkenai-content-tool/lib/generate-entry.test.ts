@@ -0,0 +1,48 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { getCalendarDay, getOrCreateCalendar, updatePlatformEntry } from "./calendar-engine";
+import { withTempCalendar } from "./calendar-test-helpers";
+import { generateEntry, isGenerateEntryError } from "./generate-entry";
+import { createFixtureProvider, setLlmProviderOverride } from "./llm-provider";
+
+test("reviewed and published entries are not regenerated over", () =>
+  withTempCalendar(
+    async (tmpDir) => {
+      const prompts: string[] = [];
+      setLlmProviderOverride(
+        createFixtureProvider({
+          dir: tmpDir,
+          responder: (request) => {
+            prompts.push(request.userPrompt);
+            return "{}";
+          },
+        })
+      );
+      getOrCreateCalendar(2026, 3);
+      updatePlatformEntry(2026, 3, 1, "note", {
+        status: "published",
+        generatedBody: "公開した本文",
+        reviewedBy: "編集B",
+      });
+      updatePlatformEntry(2026, 3, 2, "note", { status: "reviewed", reviewedBy: "編集B" });
+
+      for (const [date, message] of [
+        ["2026-03-01", "「公開済み」の記事は再生成できません（公開後は変更できません）"],
+        ["2026-03-02", "「レビュー済み」の記事は再生成できません（先に理由を添えて差し戻してください）"],
+      ]) {
+        await assert.rejects(
+          generateEntry({ date, platform: "note", mode: "promote" }),
+          (err: unknown) => isGenerateEntryError(err) && err.status === 409 && err.message === message
+        );
+      }
+      assert.deepEqual(prompts, []);
+
+      const published = getCalendarDay(2026, 3, 1)!.platforms.note!;
+      assert.equal(published.status, "published");
+      assert.equal(published.generatedBody, "公開した本文");
+      assert.equal(published.reviewedBy, "編集B");
+      assert.equal(getCalendarDay(2026, 3, 2)!.platforms.note!.status, "reviewed");
+    },
+    { reset: () => setLlmProviderOverride(null) }
+  ));
@@ -27,8 +27,11 @@ export function buildCoverApiResponse(input: BuildCoverResponseInput) {
     qualityCheck: input.coverResult.qualityCheck,
     qualityIssues: input.coverResult.qualityIssues,
     textAdjusted: input.coverResult.textAdjusted,
-    imageProviderUsed: input.coverResult.providerUsed,
+    imageProviderUsed: input.coverResult.renderedLocally
+      ? "local"
+      : input.coverResult.providerUsed,
     imageModelUsed: input.coverResult.modelUsed,
+    renderedLocally: input.coverResult.renderedLocally === true,
     siteId: input.siteId,
     mode: input.mode,
     imageUrl: `/api/generate-image?filename=${encodeURIComponent(input.filename)}`,
@@ -0,0 +1,187 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import {
+  createGenerationJobRunner,
+  isRateLimitError,
+  summarizeGenerationJob,
+  type GenerationJobItem,
+  type GenerationJobOptions,
+} from "./generation-jobs";
+
+function makeJobsDir(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), "generation-jobs-"));
+}
+
+function makeOptions(concurrency = 2): GenerationJobOptions {
+  return {
+    startDate: "2026-03-01",
+    endDate: "2026-03-02",
+    platforms: ["ameba", "note"],
+    withCover: false,
+    concurrency,
+  };
+}
+
+function makeItems(): GenerationJobItem[] {
+  return ["2026-03-01", "2026-03-02"].flatMap((date) =>
+    (["ameba", "note"] as const).map((platform) => ({
+      id: `${date}:${platform}`,
+      date,
+      platform,
+      status: "queued" as const,
+      attempts: 0,
+    }))
+  );
+}
+
+function rateLimitError(): Error {
+  const error = new Error("OpenRouter API error: 429") as Error & { status: number };
+  error.status = 429;
+  return error;
+}
+
+test("runner processes items with bounded concurrency and persists the result", async () => {
+  const jobsDir = makeJobsDir();
+  let inFlight = 0;
+  let maxInFlight = 0;
+  const runner = createGenerationJobRunner({
+    jobsDir,
+    executeItem: async (_job, item) => {
+      inFlight += 1;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight -= 1;
+      return { title: `title ${item.id}` };
+    },
+  });
+
+  const job = runner.createJob(makeOptions(2), makeItems());
+  await runner.whenIdle();
+
+  const finished = runner.getJob(job.id);
+  assert.equal(finished?.status, "completed");
+  assert.equal(maxInFlight, 2);
+  assert.deepEqual(summarizeGenerationJob(finished!), {
+    total: 4,
+    done: 4,
+    succeeded: 4,
+    failed: 0,
+    skipped: 0,
+    cancelled: 0,
+    running: 0,
+    queued: 0,
+  });
+
+  const onDisk = JSON.parse(fs.readFileSync(path.join(jobsDir, `${job.id}.json`), "utf-8"));
+  assert.equal(onDisk.status, "completed");
+  assert.equal(onDisk.items[0].title, "title 2026-03-01:ameba");
+});
+
+test("rate-limited items back off and retry before failing", async () => {
+  const sleeps: number[] = [];
+  const calls = new Map<string, number>();
+  const runner = createGenerationJobRunner({
+    jobsDir: makeJobsDir(),
+    maxAttempts: 3,
+    backoffBaseMs: 10,
+    sleep: async (ms) => {
+      sleeps.push(ms);
+    },
+    executeItem: async (_job, item) => {
+      const count = (calls.get(item.id) || 0) + 1;
+      calls.set(item.id, count);
+      if (item.id === "2026-03-01:ameba" && count === 1) throw rateLimitError();
+      if (item.id === "2026-03-01:note") throw rateLimitError();
+      if (item.id === "2026-03-02:ameba") throw new Error("最終品質チェック失敗");
+      return { title: item.id };
+    },
+  });
+
+  const job = runner.createJob(makeOptions(1), makeItems());
+  await runner.whenIdle();
+
+  const finished = runner.getJob(job.id)!;
+  const byId = new Map(finished.items.map((item) => [item.id, item]));
+  assert.equal(finished.status, "failed");
+  assert.equal(byId.get("2026-03-01:ameba")?.status, "succeeded");
+  assert.equal(byId.get("2026-03-01:ameba")?.attempts, 2);
+  assert.equal(byId.get("2026-03-01:note")?.status, "failed");
+  assert.equal(byId.get("2026-03-01:note")?.attempts, 3);
+  assert.equal(byId.get("2026-03-02:ameba")?.attempts, 1);
+  assert.ok(sleeps.length > 0);
+});
+
+test("cancel stops new items and retry re-queues failed or cancelled ones", async () => {
+  let release: () => void = () => undefined;
+  const gate = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+  let started = 0;
+  const runner = createGenerationJobRunner({
+    jobsDir: makeJobsDir(),
+    executeItem: async (_job, item) => {
+      started += 1;
+      if (started === 1) await gate;
+      return { title: item.id };
+    },
+  });
+
+  const job = runner.createJob(makeOptions(1), makeItems());
+  await new Promise((resolve) => setImmediate(resolve));
+  runner.cancelJob(job.id);
+  release();
+  await runner.whenIdle();
+
+  const cancelled = runner.getJob(job.id)!;
+  assert.equal(cancelled.status, "cancelled");
+  assert.equal(summarizeGenerationJob(cancelled).succeeded, 1);
+  assert.equal(summarizeGenerationJob(cancelled).cancelled, 3);
+
+  runner.retryJob(job.id);
+  await runner.whenIdle();
+  const retried = runner.getJob(job.id)!;
+  assert.equal(retried.status, "completed");
+  assert.equal(summarizeGenerationJob(retried).succeeded, 4);
+});
+
+test("resume re-queues entries interrupted by a restart", async () => {
+  const jobsDir = makeJobsDir();
+  const interrupted = {
+    id: "job-interrupted",
+    createdAt: "2026-03-01T00:00:00.000Z",
+    updatedAt: "2026-03-01T00:00:00.000Z",
+    status: "running",
+    cancelRequested: false,
+    options: makeOptions(1),
+    items: makeItems().map((item, idx) => {
+      if (idx === 0) return { ...item, status: "succeeded", attempts: 1 };
+      if (idx === 1) return { ...item, status: "running", attempts: 1 };
+      return item;
+    }),
+  };
+  fs.writeFileSync(path.join(jobsDir, "job-interrupted.json"), JSON.stringify(interrupted));
+
+  const executed: string[] = [];
+  const runner = createGenerationJobRunner({
+    jobsDir,
+    executeItem: async (_job, item) => {
+      executed.push(item.id);
+      return { title: item.id };
+    },
+  });
+  runner.resume();
+  await runner.whenIdle();
+
+  assert.deepEqual(executed, ["2026-03-01:note", "2026-03-02:ameba", "2026-03-02:note"]);
+  assert.equal(runner.getJob("job-interrupted")?.status, "completed");
+});
+
+test("rate limit detection covers status and message forms", () => {
+  assert.equal(isRateLimitError(rateLimitError()), true);
+  assert.equal(isRateLimitError(new Error("Too Many Requests")), true);
+  assert.equal(isRateLimitError(new Error("OpenRouter timeout")), false);
+});
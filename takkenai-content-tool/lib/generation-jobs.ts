@@ -0,0 +1,566 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { getPendingDays, type CalendarDay } from "./calendar-engine";
+import type { Platform } from "./topic-engine";
+import type { SkillRunMode } from "./site-config";
+import { generateEntry } from "./generate-entry";
+import { generateCoverImage } from "./cover-image";
+import { resolveCoverProfile } from "./cover-profile";
+import {
+  DEFAULT_COVER_STYLE,
+  isCoverStyleId,
+  type CoverStyleId,
+} from "./cover-style";
+import { getContentFileBase } from "./content-variant";
+import { writeJsonAtomic } from "./json-file";
+import { assertUsageBudgetAvailable, trackUsage } from "./usage-ledger";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type GenerationJobStatus =
+  | "queued"
+  | "running"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+export type GenerationJobItemStatus =
+  | "queued"
+  | "running"
+  | "succeeded"
+  | "failed"
+  | "skipped"
+  | "cancelled";
+
+export interface GenerationJobOptions {
+  startDate: string;
+  endDate: string;
+  platforms: Platform[];
+  /** Chain cover-image generation after each successful article */
+  withCover: boolean;
+  coverStyle?: CoverStyleId;
+  imageProviderPreference?: "closeai" | "openrouter";
+  /** Max entries generated in parallel (1-4) */
+  concurrency: number;
+  siteId?: string;
+  mode?: SkillRunMode;
+}
+
+export interface GenerationJobItem {
+  id: string;
+  date: string;
+  platform: Platform;
+  status: GenerationJobItemStatus;
+  attempts: number;
+  title?: string;
+  coverFile?: string;
+  coverError?: string;
+  error?: string;
+  /** Earliest time a rate-limited item may be retried */
+  nextAttemptAt?: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+export interface GenerationJob {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+  status: GenerationJobStatus;
+  cancelRequested: boolean;
+  options: GenerationJobOptions;
+  items: GenerationJobItem[];
+}
+
+export interface GenerationJobProgress {
+  total: number;
+  done: number;
+  succeeded: number;
+  failed: number;
+  skipped: number;
+  cancelled: number;
+  running: number;
+  queued: number;
+}
+
+export interface GenerationJobItemResult {
+  status?: "succeeded" | "skipped";
+  title?: string;
+  coverFile?: string;
+  coverError?: string;
+}
+
+export type GenerationJobItemExecutor = (
+  job: GenerationJob,
+  item: GenerationJobItem
+) => Promise<GenerationJobItemResult>;
+
+export interface GenerationJobRunnerOptions {
+  jobsDir: string;
+  executeItem: GenerationJobItemExecutor;
+  /** Attempts per item when the provider keeps answering 429 */
+  maxAttempts?: number;
+  /** First rate-limit backoff; doubled on every further 429 */
+  backoffBaseMs?: number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export interface GenerationJobRunner {
+  createJob(options: GenerationJobOptions, items: GenerationJobItem[]): GenerationJob;
+  getJob(id: string): GenerationJob | null;
+  listJobs(): GenerationJob[];
+  cancelJob(id: string): GenerationJob | null;
+  retryJob(id: string): GenerationJob | null;
+  /** Re-queue jobs interrupted by a server restart and start processing */
+  resume(): void;
+  /** Resolves once the queue has drained (used by tests and scripts) */
+  whenIdle(): Promise<void>;
+}
+
+export const MAX_JOB_CONCURRENCY = 4;
+const DEFAULT_MAX_ATTEMPTS = 4;
+const DEFAULT_BACKOFF_BASE_MS = 15000;
+const MAX_BACKOFF_MS = 5 * 60 * 1000;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+function defaultSleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export function isRateLimitError(error: unknown): boolean {
+  const status = (error as { status?: unknown } | null)?.status;
+  if (status === 429) return true;
+  const message = error instanceof Error ? error.message : String(error || "");
+  return /\b429\b|rate.?limit|too many requests/i.test(message);
+}
+
+export function summarizeGenerationJob(job: GenerationJob): GenerationJobProgress {
+  const count = (status: GenerationJobItemStatus) =>
+    job.items.filter((item) => item.status === status).length;
+  const progress = {
+    total: job.items.length,
+    succeeded: count("succeeded"),
+    failed: count("failed"),
+    skipped: count("skipped"),
+    cancelled: count("cancelled"),
+    running: count("running"),
+    queued: count("queued"),
+  };
+  return {
+    ...progress,
+    done: progress.succeeded + progress.failed + progress.skipped + progress.cancelled,
+  };
+}
+
+function resolveFinalStatus(job: GenerationJob): GenerationJobStatus {
+  if (job.cancelRequested) return "cancelled";
+  return job.items.some((item) => item.status === "failed") ? "failed" : "completed";
+}
+
+// ---------------------------------------------------------------------------
+// Planning
+// ---------------------------------------------------------------------------
+
+function parseDate(value: string): { year: number; month: number } | null {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+  return { year: parseInt(match[1], 10), month: parseInt(match[2], 10) };
+}
+
+/**
+ * Expand a date range into one item per pending (date, platform) pair,
+ * reading pending days month by month from the calendar engine.
+ */
+export function planGenerationJobItems(
+  options: Pick<GenerationJobOptions, "startDate" | "endDate" | "platforms">
+): GenerationJobItem[] {
+  const start = parseDate(options.startDate);
+  const end = parseDate(options.endDate);
+  if (!start || !end || options.startDate > options.endDate) return [];
+
+  const items: GenerationJobItem[] = [];
+  let year = start.year;
+  let month = start.month;
+  while (year < end.year || (year === end.year && month <= end.month)) {
+    const days: CalendarDay[] = getPendingDays(year, month);
+    for (const day of days) {
+      if (day.date < options.startDate || day.date > options.endDate) continue;
+      for (const platform of options.platforms) {
+        if (day.platforms[platform]?.status !== "pending") continue;
+        items.push({
+          id: `${day.date}:${platform}`,
+          date: day.date,
+          platform,
+          status: "queued",
+          attempts: 0,
+        });
+      }
+    }
+    month += 1;
+    if (month > 12) {
+      month = 1;
+      year += 1;
+    }
+  }
+  return items;
+}
+
+// ---------------------------------------------------------------------------
+// Runner
+// ---------------------------------------------------------------------------
+
+export function createGenerationJobRunner(
+  runnerOptions: GenerationJobRunnerOptions
+): GenerationJobRunner {
+  const maxAttempts = runnerOptions.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const backoffBaseMs = runnerOptions.backoffBaseMs ?? DEFAULT_BACKOFF_BASE_MS;
+  const sleep = runnerOptions.sleep ?? defaultSleep;
+  const jobs = new Map<string, GenerationJob>();
+  let loaded = false;
+  let processing: Promise<void> | null = null;
+  // Shared across workers: one 429 pauses the whole queue, not just one slot.
+  let backoffUntil = 0;
+
+  const jobFile = (id: string) => path.join(runnerOptions.jobsDir, `${id}.json`);
+
+  function persist(job: GenerationJob): void {
+    job.updatedAt = nowIso();
+    writeJsonAtomic(jobFile(job.id), job);
+  }
+
+  function ensureLoaded(): void {
+    if (loaded) return;
+    loaded = true;
+    if (!fs.existsSync(runnerOptions.jobsDir)) return;
+    for (const file of fs.readdirSync(runnerOptions.jobsDir)) {
+      if (!file.endsWith(".json")) continue;
+      try {
+        const job = JSON.parse(
+          fs.readFileSync(path.join(runnerOptions.jobsDir, file), "utf-8")
+        ) as GenerationJob;
+        if (job?.id && Array.isArray(job.items)) {
+          jobs.set(job.id, job);
+        }
+      } catch (error) {
+        console.warn(`[jobs] ignore unreadable job file ${file}:`, error);
+      }
+    }
+  }
+
+  function nextRunnableJob(): GenerationJob | null {
+    const candidates = Array.from(jobs.values())
+      .filter((job) => job.status === "queued" || job.status === "running")
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    return candidates[0] || null;
+  }
+
+  function takeNextItem(job: GenerationJob): GenerationJobItem | null {
+    if (job.cancelRequested) return null;
+    return job.items.find((item) => item.status === "queued") || null;
+  }
+
+  async function runItem(job: GenerationJob, item: GenerationJobItem): Promise<void> {
+    item.status = "running";
+    item.attempts += 1;
+    item.startedAt = nowIso();
+    item.error = undefined;
+    item.nextAttemptAt = undefined;
+    persist(job);
+
+    try {
+      const result = await runnerOptions.executeItem(job, item);
+      item.status = result.status || "succeeded";
+      item.title = result.title;
+      item.coverFile = result.coverFile;
+      item.coverError = result.coverError;
+      item.finishedAt = nowIso();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (isRateLimitError(error) && item.attempts < maxAttempts) {
+        const delay = Math.min(
+          MAX_BACKOFF_MS,
+          backoffBaseMs * 2 ** (item.attempts - 1)
+        );
+        backoffUntil = Math.max(backoffUntil, Date.now() + delay);
+        item.status = "queued";
+        item.error = message;
+        item.nextAttemptAt = new Date(backoffUntil).toISOString();
+        console.warn(
+          `[jobs] ${job.id} ${item.id} rate limited, retry in ${Math.round(delay / 1000)}s`
+        );
+      } else {
+        item.status = "failed";
+        item.error = message;
+        item.finishedAt = nowIso();
+      }
+    }
+    persist(job);
+  }
+
+  async function runJob(job: GenerationJob): Promise<void> {
+    job.status = "running";
+    persist(job);
+
+    const concurrency = Math.max(
+      1,
+      Math.min(MAX_JOB_CONCURRENCY, Math.floor(job.options.concurrency) || 1)
+    );
+    const worker = async () => {
+      for (;;) {
+        const wait = backoffUntil - Date.now();
+        if (wait > 0) {
+          await sleep(wait);
+        }
+        const item = takeNextItem(job);
+        if (!item) return;
+        await runItem(job, item);
+      }
+    };
+    await Promise.all(Array.from({ length: concurrency }, () => worker()));
+
+    for (const item of job.items) {
+      if (item.status === "queued") {
+        item.status = "cancelled";
+        item.finishedAt = nowIso();
+      }
+    }
+    job.status = resolveFinalStatus(job);
+    job.finishedAt = nowIso();
+    persist(job);
+  }
+
+  function kick(): void {
+    if (processing) return;
+    processing = (async () => {
+      try {
+        for (let job = nextRunnableJob(); job; job = nextRunnableJob()) {
+          await runJob(job);
+        }
+      } catch (error) {
+        console.error("[jobs] queue processing stopped:", error);
+      } finally {
+        processing = null;
+      }
+    })();
+  }
+
+  return {
+    createJob(options, items) {
+      ensureLoaded();
+      const createdAt = nowIso();
+      const job: GenerationJob = {
+        id: `job-${Date.now().toString(36)}-${crypto.randomBytes(3).toString("hex")}`,
+        createdAt,
+        updatedAt: createdAt,
+        status: "queued",
+        cancelRequested: false,
+        options,
+        items,
+      };
+      jobs.set(job.id, job);
+      persist(job);
+      kick();
+      return job;
+    },
+
+    getJob(id) {
+      ensureLoaded();
+      return jobs.get(id) || null;
+    },
+
+    listJobs() {
+      ensureLoaded();
+      return Array.from(jobs.values()).sort((a, b) =>
+        b.createdAt.localeCompare(a.createdAt)
+      );
+    },
+
+    cancelJob(id) {
+      ensureLoaded();
+      const job = jobs.get(id);
+      if (!job) return null;
+      if (job.status !== "queued" && job.status !== "running") return job;
+      // Entries already in flight finish normally; nothing new is started.
+      job.cancelRequested = true;
+      for (const item of job.items) {
+        if (item.status === "queued") {
+          item.status = "cancelled";
+          item.finishedAt = nowIso();
+        }
+      }
+      if (job.status === "queued") {
+        job.status = "cancelled";
+        job.finishedAt = nowIso();
+      }
+      persist(job);
+      return job;
+    },
+
+    retryJob(id) {
+      ensureLoaded();
+      const job = jobs.get(id);
+      if (!job) return null;
+      if (job.status === "queued" || job.status === "running") return job;
+      let requeued = 0;
+      for (const item of job.items) {
+        if (item.status === "failed" || item.status === "cancelled") {
+          item.status = "queued";
+          item.attempts = 0;
+          item.error = undefined;
+          item.finishedAt = undefined;
+          requeued += 1;
+        }
+      }
+      if (requeued === 0) return job;
+      job.status = "queued";
+      job.cancelRequested = false;
+      job.finishedAt = undefined;
+      persist(job);
+      kick();
+      return job;
+    },
+
+    resume() {
+      ensureLoaded();
+      for (const job of Array.from(jobs.values())) {
+        if (job.status !== "queued" && job.status !== "running") continue;
+        let changed = false;
+        for (const item of job.items) {
+          if (item.status === "running") {
+            item.status = "queued";
+            changed = true;
+          }
+        }
+        if (changed) persist(job);
+      }
+      kick();
+    },
+
+    async whenIdle() {
+      while (processing) {
+        await processing;
+      }
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Default executor (generate article, optionally chain the cover image)
+// ---------------------------------------------------------------------------
+
+function timestampTag(): string {
+  const ts = new Date().toISOString().replace(/[-:.TZ]/g, "");
+  const rand = Math.random().toString(36).slice(2, 6);
+  return `${ts}-${rand}`;
+}
+
+export const executeGenerationJobItem: GenerationJobItemExecutor = async (job, item) => {
+  // A job started under budget stops spending once the monthly cap is reached.
+  assertUsageBudgetAvailable();
+
+  const date = parseDate(item.date);
+  if (date) {
+    // The entry may have been generated by hand while the job was queued.
+    const stillPending = getPendingDays(date.year, date.month, item.platform).some(
+      (day) => day.date === item.date
+    );
+    if (!stillPending) {
+      return { status: "skipped" };
+    }
+  }
+
+  const result = await generateEntry({
+    date: item.date,
+    platform: item.platform,
+    siteId: job.options.siteId,
+    mode: job.options.mode,
+    contentKey: "standard",
+  });
+  if (!job.options.withCover) {
+    return { title: result.content.title };
+  }
+
+  try {
+    const resolvedCover = resolveCoverProfile({
+      profile: result.runContext.manifest.cover,
+      platform: item.platform,
+      styleId: job.options.coverStyle,
+    });
+    const styleId = isCoverStyleId(resolvedCover.styleId)
+      ? resolvedCover.styleId
+      : DEFAULT_COVER_STYLE;
+    const { result: cover } = await trackUsage(
+      {
+        operation: "cover-image",
+        date: item.date,
+        platform: item.platform,
+        contentKey: result.contentKey,
+        jobId: job.id,
+      },
+      () =>
+        generateCoverImage({
+          title: result.content.title,
+          body: result.content.body,
+          platform: item.platform,
+          hashtags: result.content.hashtags || [],
+          styleId,
+          imageProviderPreference: job.options.imageProviderPreference || "closeai",
+        })
+    );
+    const filename = `${getContentFileBase(
+      item.date,
+      item.platform,
+      result.contentKey
+    )}-cover-${styleId}-${timestampTag()}.${cover.ext}`;
+    fs.writeFileSync(path.join(result.generatedDir, filename), cover.imageBuffer);
+    return { title: result.content.title, coverFile: filename };
+  } catch (error) {
+    // The article is saved already; a cover failure should not fail the entry.
+    return {
+      title: result.content.title,
+      coverError: error instanceof Error ? error.message : String(error),
+    };
+  }
+};
+
+// ---------------------------------------------------------------------------
+// Process-wide runner
+// ---------------------------------------------------------------------------
+
+export function resolveGenerationJobsDir(): string {
+  const configured = (process.env.GENERATION_JOBS_DIR || "").trim();
+  if (configured) {
+    return path.isAbsolute(configured)
+      ? configured
+      : path.join(process.cwd(), configured);
+  }
+  return path.join(process.cwd(), "data", "jobs");
+}
+
+// Kept on globalThis so dev-server hot reloads do not start a second runner.
+const globalForJobs = globalThis as typeof globalThis & {
+  __generationJobRunner?: GenerationJobRunner;
+};
+
+export function getGenerationJobRunner(): GenerationJobRunner {
+  if (!globalForJobs.__generationJobRunner) {
+    const runner = createGenerationJobRunner({
+      jobsDir: resolveGenerationJobsDir(),
+      executeItem: executeGenerationJobItem,
+    });
+    globalForJobs.__generationJobRunner = runner;
+    runner.resume();
+  }
+  return globalForJobs.__generationJobRunner;
+}
@@ -0,0 +1,109 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  createDraftTextListener,
+  emitGenerationStage,
+  extractPartialJsonStringField,
+  isGenerationCancelledError,
+  runWithGenerationProgress,
+} from "./generation-progress";
+import {
+  encodeGenerationStreamEvent,
+  GENERATION_STREAM_HEARTBEAT,
+  parseGenerationStreamEvents,
+} from "./generation-stream-events";
+import { formatGenerationStageLabel } from "./content-generation-client";
+import { setCassetteLiveFetch } from "./cassette";
+import { createOpenRouterProvider } from "./llm-provider";
+
+test("partial JSON body is decoded while the answer is still streaming", () => {
+  assert.equal(extractPartialJsonStringField('{"title":"宅建', "body"), null);
+  assert.equal(extractPartialJsonStringField('{"title":"a","body":"## 見出し\\n本文', "body"), "## 見出し\n本文");
+  assert.equal(extractPartialJsonStringField('{"body": "引用\\"A\\"と\\u5b85', "body"), '引用"A"と宅');
+  // a dangling escape is held back until the next delta
+  assert.equal(extractPartialJsonStringField('{"body":"行1\\', "body"), "行1");
+  assert.equal(extractPartialJsonStringField('{"bodyChinese":"中文","body":"本文"}', "body"), "本文");
+});
+
+test("draft listener forwards the growing body and stages stop a cancelled run", async () => {
+  const chunks: string[] = [];
+  const stages: string[] = [];
+  const controller = new AbortController();
+  await assert.rejects(
+    runWithGenerationProgress(
+      {
+        signal: controller.signal,
+        onStage: (event) => stages.push(event.stage),
+        onChunk: (text) => chunks.push(text),
+      },
+      async () => {
+        emitGenerationStage({ stage: "draft" });
+        const listener = createDraftTextListener();
+        assert.ok(listener);
+        ['{"title":"t",', '"body":"第一', '段落\\n', '第二段落"}'].forEach(listener);
+        controller.abort();
+        emitGenerationStage({ stage: "review", round: 1 });
+      }
+    ),
+    isGenerationCancelledError
+  );
+  assert.deepEqual(stages, ["draft"]);
+  assert.deepEqual(chunks, ["第一", "第一段落\n", "第一段落\n第二段落"]);
+  assert.equal(createDraftTextListener(), undefined);
+});
+
+test("OpenRouter answers are streamed when a text listener is set", async () => {
+  const previousKey = process.env.OPENROUTER_API_KEY;
+  process.env.OPENROUTER_API_KEY = "test-key";
+  let sentBody: Record<string, unknown> = {};
+  setCassetteLiveFetch((async (_input: RequestInfo | URL, init?: RequestInit) => {
+    sentBody = JSON.parse(String(init?.body || "{}"));
+    const lines = [
+      { choices: [{ delta: { content: "こんに" } }] },
+      { choices: [{ delta: { content: "ちは" } }] },
+      { choices: [], usage: { prompt_tokens: 9, completion_tokens: 2 } },
+    ].map((chunk) => `data: ${JSON.stringify(chunk)}\n\n`);
+    return new Response(`${lines.join("")}data: [DONE]\n\n`, {
+      status: 200,
+      headers: { "content-type": "text/event-stream" },
+    });
+  }) as typeof fetch);
+  try {
+    const deltas: string[] = [];
+    const response = await createOpenRouterProvider().complete({
+      systemPrompt: "sys",
+      userPrompt: "hi",
+      model: "openai/gpt-4o-mini",
+      onText: (delta) => deltas.push(delta),
+    });
+    assert.equal(sentBody.stream, true);
+    assert.deepEqual(deltas, ["こんに", "ちは"]);
+    assert.equal(response.text, "こんにちは");
+    assert.deepEqual(response.usage, { promptTokens: 9, completionTokens: 2 });
+  } finally {
+    setCassetteLiveFetch(null);
+    if (previousKey === undefined) delete process.env.OPENROUTER_API_KEY;
+    else process.env.OPENROUTER_API_KEY = previousKey;
+  }
+});
+
+test("stream events round-trip through chunk boundaries", () => {
+  const wire =
+    encodeGenerationStreamEvent({ event: "stage", data: { stage: "review", round: 2 } }) +
+    GENERATION_STREAM_HEARTBEAT +
+    encodeGenerationStreamEvent({ event: "draft", data: { text: "行1\n\n行2" } });
+  const head = parseGenerationStreamEvents(wire.slice(0, 60));
+  const tail = parseGenerationStreamEvents(head.rest + wire.slice(60));
+  const events = [...head.events, ...tail.events];
+  assert.deepEqual(
+    events.map((item) => item.event),
+    ["stage", "draft"]
+  );
+  assert.deepEqual(events[1].data, { text: "行1\n\n行2" });
+  assert.equal(tail.rest, "");
+  assert.equal(
+    formatGenerationStageLabel({ stage: "review", round: 2 }),
+    "品質レビュー中...（ラウンド2）"
+  );
+});
@@ -0,0 +1,152 @@
+import { AsyncLocalStorage } from "async_hooks";
+import type { StreamCallbacks } from "./claude";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type GenerationStage =
+  | "topic"
+  | "research"
+  | "draft"
+  | "review"
+  | "revision"
+  | "compliance-fix"
+  | "final-check"
+  | "scoring"
+  | "translation"
+  | "retry"
+  | "saving";
+
+export interface GenerationStageEvent {
+  stage: GenerationStage;
+  /** Review / revision round (1-based) */
+  round?: number;
+  /** Generate attempt (1-based, see generateEntry auto-retry) */
+  attempt?: number;
+  message?: string;
+}
+
+export type GenerationCancelledError = Error & {
+  code: "GENERATION_CANCELLED";
+  status: number;
+};
+
+export function isGenerationCancelledError(
+  error: unknown
+): error is GenerationCancelledError {
+  return (
+    error instanceof Error &&
+    (error as Partial<GenerationCancelledError>).code === "GENERATION_CANCELLED"
+  );
+}
+
+function createGenerationCancelledError(): GenerationCancelledError {
+  // status 0 and no "timeout"/"network" wording: must not trigger retries or model fallback
+  const error = new Error("生成がキャンセルされました") as GenerationCancelledError;
+  error.code = "GENERATION_CANCELLED";
+  error.status = 0;
+  return error;
+}
+
+// ---------------------------------------------------------------------------
+// Progress scope (per generation, across awaits)
+// ---------------------------------------------------------------------------
+
+const progressStorage = new AsyncLocalStorage<StreamCallbacks>();
+
+/**
+ * Runs one generation with streaming callbacks. Model calls made inside
+ * observe `callbacks.signal` and stages / draft text are reported to them.
+ */
+export function runWithGenerationProgress<T>(
+  callbacks: StreamCallbacks | undefined,
+  run: () => Promise<T>
+): Promise<T> {
+  if (!callbacks) return run();
+  return progressStorage.run(callbacks, run);
+}
+
+/** Signal that cancels the current generation (undefined outside a streamed run). */
+export function getGenerationAbortSignal(): AbortSignal | undefined {
+  return progressStorage.getStore()?.signal;
+}
+
+export function throwIfGenerationCancelled(): void {
+  if (getGenerationAbortSignal()?.aborted) {
+    throw createGenerationCancelledError();
+  }
+}
+
+/**
+ * Reports a stage change. Also the checkpoint where a cancelled generation
+ * stops between (non-model) steps.
+ */
+export function emitGenerationStage(event: GenerationStageEvent): void {
+  throwIfGenerationCancelled();
+  const callbacks = progressStorage.getStore();
+  if (!callbacks?.onStage) return;
+  try {
+    callbacks.onStage(event);
+  } catch (error) {
+    console.warn("[generation-progress] onStage listener failed:", error);
+  }
+}
+
+/**
+ * Decodes the value of a JSON string field from a possibly truncated JSON
+ * document, e.g. the "body" of a draft that is still being streamed.
+ * Returns null until the field has started.
+ */
+export function extractPartialJsonStringField(raw: string, field: string): string | null {
+  const start = raw.search(new RegExp(`"${field}"\\s*:\\s*"`));
+  if (start < 0) return null;
+  let index = raw.indexOf('"', raw.indexOf(":", start)) + 1;
+  let value = "";
+  while (index < raw.length) {
+    const char = raw[index];
+    if (char === '"') break;
+    if (char !== "\\") {
+      value += char;
+      index += 1;
+      continue;
+    }
+    const next = raw[index + 1];
+    if (next === undefined) break;
+    if (next === "u") {
+      const hex = raw.slice(index + 2, index + 6);
+      if (!/^[0-9a-fA-F]{4}$/.test(hex)) break;
+      value += String.fromCharCode(parseInt(hex, 16));
+      index += 6;
+      continue;
+    }
+    const escapes: Record<string, string> = { n: "\n", r: "", t: "\t", b: "", f: "" };
+    value += next in escapes ? escapes[next] : next;
+    index += 2;
+  }
+  return value;
+}
+
+/**
+ * Text listener for a writing-model call: accumulates the raw JSON answer
+ * and forwards the Japanese body written so far. undefined when nobody is
+ * listening, so callers can skip streaming entirely.
+ */
+export function createDraftTextListener(): ((delta: string) => void) | undefined {
+  const callbacks = progressStorage.getStore();
+  if (!callbacks?.onChunk) return undefined;
+  const onChunk = callbacks.onChunk;
+  let raw = "";
+  let lastBody = "";
+  return (delta: string) => {
+    raw += delta;
+    const body = extractPartialJsonStringField(raw, "body");
+    if (body === null || body === lastBody) return;
+    lastBody = body;
+    try {
+      onChunk(body);
+    } catch (error) {
+      console.warn("[generation-progress] onChunk listener failed:", error);
+    }
+  };
+}
@@ -0,0 +1,79 @@
+import type { GeneratedContent } from "./claude";
+import type { GenerationStageEvent } from "./generation-progress";
+
+/**
+ * Wire format of POST /api/generate/stream (Server-Sent Events). Shared by
+ * the route and the content page; no Node-only imports here.
+ */
+export type GenerationStreamEvent =
+  | { event: "stage"; data: GenerationStageEvent }
+  | { event: "draft"; data: { text: string } }
+  | { event: "complete"; data: GeneratedContent }
+  | { event: "error"; data: { error: string; status: number; cancelled?: boolean } };
+
+export function encodeGenerationStreamEvent(item: GenerationStreamEvent): string {
+  return `event: ${item.event}\ndata: ${JSON.stringify(item.data)}\n\n`;
+}
+
+/** Comment line that keeps proxies from closing an idle stream. */
+export const GENERATION_STREAM_HEARTBEAT = ": ping\n\n";
+
+const KNOWN_EVENTS = new Set<GenerationStreamEvent["event"]>([
+  "stage",
+  "draft",
+  "complete",
+  "error",
+]);
+
+/**
+ * Splits buffered SSE text into complete events; `rest` is the incomplete
+ * tail to prepend to the next chunk.
+ */
+export function parseGenerationStreamEvents(buffer: string): {
+  events: GenerationStreamEvent[];
+  rest: string;
+} {
+  const normalized = buffer.replace(/\r\n/g, "\n");
+  const blocks = normalized.split("\n\n");
+  const rest = blocks.pop() || "";
+  const events: GenerationStreamEvent[] = [];
+  for (const block of blocks) {
+    let name = "message";
+    const dataLines: string[] = [];
+    for (const line of block.split("\n")) {
+      if (line.startsWith("event:")) name = line.slice(6).trim();
+      else if (line.startsWith("data:")) dataLines.push(line.slice(5).replace(/^ /, ""));
+    }
+    if (!KNOWN_EVENTS.has(name as GenerationStreamEvent["event"]) || dataLines.length === 0) {
+      continue;
+    }
+    try {
+      events.push({
+        event: name,
+        data: JSON.parse(dataLines.join("\n")),
+      } as GenerationStreamEvent);
+    } catch {
+      // ignore a malformed event rather than breaking the whole stream
+    }
+  }
+  return { events, rest };
+}
+
+/** Reads a generation stream to the end, calling `onEvent` for each event. */
+export async function readGenerationStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (item: GenerationStreamEvent) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const parsed = parseGenerationStreamEvents(buffer);
+    buffer = parsed.rest;
+    parsed.events.forEach(onEvent);
+  }
+  parseGenerationStreamEvents(`${buffer}${decoder.decode()}\n\n`).events.forEach(onEvent);
+}
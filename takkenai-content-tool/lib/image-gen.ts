@@ -1,4 +1,12 @@
 import type { Platform } from "./topic-engine";
+import {
+  getPlatformDefinition,
+  listPlatforms,
+  type PlatformImageConfig,
+  type PlatformMap,
+} from "./platform-registry";
+import { cassetteFetch } from "./cassette";
+import { recordModelUsage } from "./usage-ledger";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -15,49 +23,7 @@ export interface GeneratedImage {
   prompt: string;
 }
 
-export interface PlatformImageConfig {
-  /** Image size for the API (e.g. "1536x1024") */
-  size: string;
-  /** Style guidance for the image generation prompt */
-  styleGuidance: string;
-}
-
-// ---------------------------------------------------------------------------
-// Platform-specific image configuration
-// ---------------------------------------------------------------------------
-
-const PLATFORM_IMAGE_CONFIG: Record<Platform, PlatformImageConfig> = {
-  ameba: {
-    size: "1792x1024",
-    styleGuidance:
-      "アメブロのブログヘッダー画像。明るくポップなアニメ・イラスト風。" +
-      "記事タイトルを大きく目立つ日本語テキストとして画像内に配置する。" +
-      "暖色系（オレンジ、イエロー、ピンク）をベースに、" +
-      "宅建・不動産学習に関連するアイコンやキャラクターイラストを添える。" +
-      "親しみやすく、スマホで見ても目を引くデザイン。" +
-      "サブタイトルやキーポイントも小さめのテキストで入れる。",
-  },
-  note: {
-    size: "1792x1024",
-    styleGuidance:
-      "noteの記事ヘッダー画像。洗練されたプロフェッショナルなデザイン。" +
-      "記事タイトルを大きな日本語テキストとして画像の中心に配置する。" +
-      "落ち着いたブルーやネイビー系の配色。" +
-      "サブタイトルや要点を小さめテキストで添える。" +
-      "不動産やAIに関連するアイコン、建物のシルエット、グラフ要素を背景に。" +
-      "知的で信頼感のあるデザイン。",
-  },
-  hatena: {
-    size: "1792x1024",
-    styleGuidance:
-      "はてなブログのアイキャッチ画像。情報的で構造化されたインフォグラフィック風。" +
-      "記事タイトルを大きな日本語テキストとして配置する。" +
-      "キーポイントを箇条書きや番号付きで画像内にレイアウトする。" +
-      "ブルーとホワイトを基調に、アクセントカラーでハイライト。" +
-      "データ可視化要素（テーブル風、フローチャート風）を背景に。" +
-      "「保存版」「完全ガイド」感のある体系的なデザイン。",
-  },
-};
+export type { PlatformImageConfig } from "./platform-registry";
 
 // ---------------------------------------------------------------------------
 // GPT-4o Image Generation via CloseAI proxy (OpenAI Images API)
@@ -91,7 +57,7 @@ function buildImagePrompt(
   platform: Platform,
   articleBody?: string
 ): string {
-  const config = PLATFORM_IMAGE_CONFIG[platform];
+  const config = getPlatformDefinition(platform).image;
 
   // If we have the full article body, use the user's proven approach:
   // just give DALL-E the full article and ask for a cover image. Keep it simple.
@@ -136,7 +102,7 @@ export async function generateImage(
   articleBody?: string
 ): Promise<GeneratedImage> {
   const apiKey = getApiKey();
-  const config = PLATFORM_IMAGE_CONFIG[platform];
+  const config = getPlatformDefinition(platform).image;
 
   const fullPrompt = buildImagePrompt(
     articleTitle || "宅建・不動産AI",
@@ -147,7 +113,7 @@ export async function generateImage(
 
   console.log(`[image-gen] Using ${articleBody ? "FULL ARTICLE" : "SHORT DESC"} mode, prompt length: ${fullPrompt.length} chars`);
 
-  const response = await fetch(CLOSEAI_IMAGES_URL, {
+  const response = await cassetteFetch("image-gen", CLOSEAI_IMAGES_URL, {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
@@ -178,6 +144,14 @@ export async function generateImage(
   if (!imageData?.b64_json) {
     throw new Error("画像データが返されませんでした");
   }
+  recordModelUsage({
+    model: IMAGE_MODEL,
+    provider: "closeai",
+    kind: "image",
+    promptTokens: 0,
+    completionTokens: 0,
+    images: 1,
+  });
 
   return {
     base64Data: imageData.b64_json,
@@ -188,19 +162,21 @@ export async function generateImage(
 }
 
 /**
- * Generate images for all 3 platforms in parallel.
+ * Generate images for the given platforms (default: all registered) in parallel.
  */
 export async function generateAllPlatformImages(
   prompt: string,
-  articleTitle?: string
-): Promise<Record<Platform, GeneratedImage>> {
-  const [ameba, note, hatena] = await Promise.all([
-    generateImage(prompt, "ameba", articleTitle),
-    generateImage(prompt, "note", articleTitle),
-    generateImage(prompt, "hatena", articleTitle),
-  ]);
-
-  return { ameba, note, hatena };
+  articleTitle?: string,
+  platforms: Platform[] = listPlatforms()
+): Promise<PlatformMap<GeneratedImage>> {
+  const images = await Promise.all(
+    platforms.map((platform) => generateImage(prompt, platform, articleTitle))
+  );
+  const result: PlatformMap<GeneratedImage> = {};
+  platforms.forEach((platform, idx) => {
+    result[platform] = images[idx];
+  });
+  return result;
 }
 
 /**
@@ -233,7 +209,7 @@ export async function saveImage(
 export function getPlatformImageConfig(
   platform: Platform
 ): PlatformImageConfig {
-  return PLATFORM_IMAGE_CONFIG[platform];
+  return getPlatformDefinition(platform).image;
 }
 
 /**
@@ -2,6 +2,7 @@ import fs from "fs";
 import path from "path";
 import crypto from "crypto";
 import { S3Client, PutObjectCommand } from "@aws-sdk/client-s3";
+import { cassetteFetch, withCassette } from "./cassette";
 
 export type ImageHostingProvider = "r2" | "uguu" | "catbox" | "telegra-ph";
 type ImageHostingProviderOrAuto = ImageHostingProvider | "auto";
@@ -170,14 +171,14 @@ async function checkUrlReachable(url: string): Promise<boolean> {
   const timer = setTimeout(() => controller.abort(), URL_CHECK_TIMEOUT_MS);
 
   try {
-    const head = await fetch(url, {
+    const head = await cassetteFetch("image-hosting", url, {
       method: "HEAD",
       redirect: "follow",
       signal: controller.signal,
     });
     if (head.ok) return true;
 
-    const get = await fetch(url, {
+    const get = await cassetteFetch("image-hosting", url, {
       method: "GET",
       redirect: "follow",
       signal: controller.signal,
@@ -198,14 +199,14 @@ async function checkUrlResponding(url: string): Promise<boolean> {
   const timer = setTimeout(() => controller.abort(), URL_CHECK_TIMEOUT_MS);
 
   try {
-    const head = await fetch(url, {
+    const head = await cassetteFetch("image-hosting", url, {
       method: "HEAD",
       redirect: "follow",
       signal: controller.signal,
     });
     if (head.status > 0 && head.status < 500) return true;
 
-    const get = await fetch(url, {
+    const get = await cassetteFetch("image-hosting", url, {
       method: "GET",
       redirect: "follow",
       signal: controller.signal,
@@ -574,6 +575,11 @@ async function uploadToUguu(
   };
 }
 
+/**
+ * Uploads are recorded as a whole (keyed by file bytes + provider choice):
+ * object keys and upload names carry timestamps, so per-request cassettes
+ * could never replay.
+ */
 export async function uploadMarkdownCoverImage(
   input: UploadMarkdownCoverImageInput
 ): Promise<UploadMarkdownCoverImageResult> {
@@ -584,6 +590,21 @@ export async function uploadMarkdownCoverImage(
   if (!fs.existsSync(sourcePath)) {
     throw new Error(`封面图文件不存在: ${sourcePath}`);
   }
+  return withCassette(
+    "image-hosting",
+    {
+      file: crypto.createHash("sha256").update(fs.readFileSync(sourcePath)).digest("hex"),
+      provider: input.provider || "auto",
+      date: input.date || "",
+      platform: input.platform || "",
+    },
+    () => uploadMarkdownCoverImageLive(input)
+  );
+}
+
+async function uploadMarkdownCoverImageLive(
+  input: UploadMarkdownCoverImageInput
+): Promise<UploadMarkdownCoverImageResult> {
   const autoProvider: ImageHostingProvider = isR2Configured() ? "r2" : "catbox";
   const provider = !input.provider || input.provider === "auto"
     ? autoProvider
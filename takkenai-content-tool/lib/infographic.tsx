@@ -87,12 +87,60 @@ const THEMES: Record<Platform, PlatformTheme> = {
     footerBg: "#14532D",
     footerText: "#86EFAC",
   },
+  wordpress: {
+    headerBg: "#0F766E",
+    headerText: "#FFFFFF",
+    bodyBg: "#F0FDFA",
+    cardBg: "#FFFFFF",
+    cardBorder: "#99F6E4",
+    sectionTitleColor: "#134E4A",
+    numberBg: "#0D9488",
+    numberText: "#FFFFFF",
+    textColor: "#0F172A",
+    bulletColor: "#0D9488",
+    accentLine: "#5EEAD4",
+    footerBg: "#134E4A",
+    footerText: "#99F6E4",
+  },
+  qiita: {
+    headerBg: "#1F2937",
+    headerText: "#FFFFFF",
+    bodyBg: "#F9FAFB",
+    cardBg: "#FFFFFF",
+    cardBorder: "#D1D5DB",
+    sectionTitleColor: "#111827",
+    numberBg: "#55C500",
+    numberText: "#FFFFFF",
+    textColor: "#111827",
+    bulletColor: "#55C500",
+    accentLine: "#A3E635",
+    footerBg: "#1F2937",
+    footerText: "#D1D5DB",
+  },
+  x: {
+    headerBg: "#0F1419",
+    headerText: "#FFFFFF",
+    bodyBg: "#F7F9F9",
+    cardBg: "#FFFFFF",
+    cardBorder: "#CFD9DE",
+    sectionTitleColor: "#0F1419",
+    numberBg: "#1D9BF0",
+    numberText: "#FFFFFF",
+    textColor: "#0F1419",
+    bulletColor: "#1D9BF0",
+    accentLine: "#8ECDF8",
+    footerBg: "#0F1419",
+    footerText: "#CFD9DE",
+  },
 };
 
 const PLATFORM_LABELS: Record<Platform, string> = {
   ameba: "Ameba Blog",
   note: "note",
   hatena: "はてなブログ",
+  wordpress: "WordPress",
+  qiita: "Qiita",
+  x: "X",
 };
 
 // ---------------------------------------------------------------------------
@@ -275,7 +323,6 @@ export async function generateInfographic(
   const { title, body, platform, hashtags = [] } = params;
   const sections = extractSections(body);
   const theme = THEMES[platform];
-  const fontData = await loadFont();
 
   const displayTitle = truncate(title, 55);
   const introText = extractIntro(body);
@@ -556,10 +603,23 @@ export async function generateInfographic(
     </div>
   );
 
+  return renderSatoriPng(element, { width: WIDTH, height: HEIGHT });
+}
+
+// ---------------------------------------------------------------------------
+// Rendering (shared with the local cover templates in cover-local.tsx)
+// ---------------------------------------------------------------------------
+
+export async function renderSatoriPng(
+  element: ReactNode,
+  size: { width: number; height: number }
+): Promise<Buffer> {
+  const fontData = await loadFont();
+
   // Render JSX → SVG via Satori
   const svg = await satori(element, {
-    width: WIDTH,
-    height: HEIGHT,
+    width: size.width,
+    height: size.height,
     fonts: [
       {
         name: "NotoSansJP",
@@ -571,7 +631,7 @@ export async function generateInfographic(
 
   // Convert SVG → PNG via Resvg
   const resvg = new Resvg(svg, {
-    fitTo: { mode: "width", value: WIDTH },
+    fitTo: { mode: "width", value: size.width },
   });
   const pngData = resvg.render();
   return pngData.asPng();
@@ -1,3 +1,5 @@
+import type { Platform } from "./platform-registry";
+
 export type InlineImageAnchor = {
   heading: string;
   paragraph: string;
@@ -230,11 +232,20 @@ function normalizeFallbackParagraph(
   };
 }
 
+const INLINE_IMAGE_STYLES: Record<Platform, string> = {
+  ameba: "明るく親しみやすい、柔らかいイラスト調",
+  note: "洗練された、静かなプロフェッショナル調",
+  hatena: "情報整理に強い、クリーンな図解イラスト調",
+  wordpress: "清潔感のある、手順が伝わる解説イラスト調",
+  qiita: "シンプルな図解・ダイアグラム調",
+  x: "要点が一目で伝わる、コントラストの強いシンプルな図解調",
+};
+
 export function buildInlineImagePrompt(input: {
   title: string;
   heading: string;
   paragraph: string;
-  platform: "ameba" | "note" | "hatena";
+  platform: Platform;
 }): string {
   const title = sanitizeText(input.title).slice(0, 120);
   const heading = sanitizeText(input.heading).slice(0, 120);
@@ -242,12 +253,7 @@ export function buildInlineImagePrompt(input: {
     .replace(/\n+/g, " ")
     .slice(0, 420);
 
-  const style =
-    input.platform === "ameba"
-      ? "明るく親しみやすい、柔らかいイラスト調"
-      : input.platform === "hatena"
-      ? "情報整理に強い、クリーンな図解イラスト調"
-      : "洗練された、静かなプロフェッショナル調";
+  const style = INLINE_IMAGE_STYLES[input.platform];
 
   return [
     "ブログ本文の段落に挿入する挿絵を1枚生成してください。",
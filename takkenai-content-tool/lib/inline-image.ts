@@ -1,4 +1,6 @@
 import type { Platform } from "./topic-engine";
+import { cassetteFetch } from "./cassette";
+import { readReportedTokenUsage, recordModelUsage } from "./usage-ledger";
 
 const GEMINI_BASE_URL = "https://api.openai-proxy.org/google/v1beta";
 const OPENROUTER_IMAGE_URL = "https://openrouter.ai/api/v1/chat/completions";
@@ -56,7 +58,7 @@ async function fetchWithTimeout(
   const controller = new AbortController();
   const timer = setTimeout(() => controller.abort(), timeoutMs);
   try {
-    return await fetch(url, { ...init, signal: controller.signal });
+    return await cassetteFetch("inline-image", url, { ...init, signal: controller.signal });
   } catch (err) {
     if (
       err &&
@@ -307,15 +309,19 @@ function compact(input: string, max = 900): string {
   return text.slice(0, max);
 }
 
+const INLINE_IMAGE_STYLES: Record<Platform, string> = {
+  ameba: "friendly editorial illustration",
+  note: "professional blog illustration",
+  hatena: "clean informative illustration",
+  wordpress: "clean step-by-step explainer illustration",
+  qiita: "minimal technical diagram",
+  x: "bold high-contrast single-point illustration",
+};
+
 function buildPrompt(params: InlineImageParams): string {
   const articleTitle = compact(params.title, 120);
   const paragraph = compact(params.body, 520);
-  const style =
-    params.platform === "ameba"
-      ? "friendly editorial illustration"
-      : params.platform === "hatena"
-      ? "clean informative illustration"
-      : "professional blog illustration";
+  const style = INLINE_IMAGE_STYLES[params.platform];
 
   return [
     "Create one inline image for a blog paragraph.",
@@ -421,6 +427,13 @@ async function callImageApi(
     if (!imageBuffer) {
       throw new Error(`Gemini inline image did not return image payload (${resolvedModel})`);
     }
+    recordModelUsage({
+      model: resolvedModel,
+      provider: imageProvider,
+      kind: "image",
+      images: 1,
+      ...readReportedTokenUsage(data),
+    });
 
     return {
       imageBuffer,
@@ -478,6 +491,13 @@ async function callImageApi(
   }
   const imageBuffer = await resolveImageBufferFromOpenRouterResult(data);
   if (imageBuffer) {
+    recordModelUsage({
+      model: providerModel,
+      provider: imageProvider,
+      kind: "image",
+      images: 1,
+      ...readReportedTokenUsage(data),
+    });
     return {
       imageBuffer,
       providerUsed: imageProvider,
@@ -0,0 +1,13 @@
+import fs from "fs";
+import path from "path";
+
+/**
+ * Writes pretty-printed JSON through a temp file and a rename, so readers
+ * never see a half-written file. Creates the parent directory if needed.
+ */
+export function writeJsonAtomic(filePath: string, value: unknown): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+  fs.writeFileSync(tmpPath, `${JSON.stringify(value, null, 2)}\n`, "utf-8");
+  fs.renameSync(tmpPath, filePath);
+}
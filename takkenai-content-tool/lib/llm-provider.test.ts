@@ -0,0 +1,120 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import {
+  computeLlmFixtureKey,
+  createFixtureProvider,
+  resolveAnthropicModel,
+  resolveLlmProviderKind,
+  setLlmProviderOverride,
+  type LlmProvider,
+} from "./llm-provider";
+import { ensureFinalJapaneseChineseConsistency } from "./claude";
+
+function makeFixtureDir(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), "llm-fixtures-"));
+}
+
+test("fixture key ignores model and insignificant whitespace", () => {
+  const a = computeLlmFixtureKey({ systemPrompt: "sys", userPrompt: "hello  world\r\n" });
+  const b = computeLlmFixtureKey({ systemPrompt: " sys", userPrompt: "hello world" });
+  const c = computeLlmFixtureKey({ systemPrompt: "sys", userPrompt: "hello world!" });
+  assert.equal(a, b);
+  assert.notEqual(a, c);
+});
+
+test("fixture provider replays recorded responses and rejects misses without fallback", async () => {
+  const dir = makeFixtureDir();
+  const request = { systemPrompt: "sys", userPrompt: "prompt", model: "openai/gpt-4o-mini" };
+  const key = computeLlmFixtureKey(request);
+  fs.writeFileSync(
+    path.join(dir, `${key}.json`),
+    JSON.stringify({ key, model: "recorded/model", text: "replayed" })
+  );
+
+  const provider = createFixtureProvider({ dir });
+  const hit = await provider.complete(request);
+  assert.equal(hit.text, "replayed");
+  assert.equal(hit.model, "recorded/model");
+  assert.equal(hit.provider, "fixture");
+
+  await assert.rejects(
+    provider.complete({ ...request, userPrompt: "unknown" }),
+    (error: Error & { status?: number }) =>
+      error.status === 0 && /fixture が見つかりません/.test(error.message)
+  );
+});
+
+test("fixture provider records misses from an upstream provider", async () => {
+  const dir = makeFixtureDir();
+  let upstreamCalls = 0;
+  const upstream: LlmProvider = {
+    kind: "openrouter",
+    label: "OpenRouter",
+    configError: () => null,
+    complete: async (request) => {
+      upstreamCalls += 1;
+      return { text: `live:${request.userPrompt}`, model: request.model, provider: "openrouter" };
+    },
+  };
+  const provider = createFixtureProvider({ dir, recordFrom: upstream });
+  const request = { systemPrompt: "sys", userPrompt: "record me", model: "m" };
+
+  assert.equal((await provider.complete(request)).text, "live:record me");
+  assert.equal((await provider.complete(request)).text, "live:record me");
+  assert.equal(upstreamCalls, 1);
+  assert.equal(fs.readdirSync(dir).length, 1);
+});
+
+test("provider kind and anthropic model mapping", () => {
+  assert.equal(resolveLlmProviderKind(undefined), "openrouter");
+  assert.equal(resolveLlmProviderKind("Anthropic"), "anthropic");
+  assert.equal(resolveLlmProviderKind("openai"), "openai-compatible");
+  assert.equal(resolveLlmProviderKind("replay"), "fixture");
+
+  const previous = process.env.ANTHROPIC_MODEL;
+  delete process.env.ANTHROPIC_MODEL;
+  try {
+    assert.equal(resolveAnthropicModel("anthropic/claude-sonnet-4.5"), "claude-sonnet-4-5");
+    assert.equal(resolveAnthropicModel("claude-haiku-4-5"), "claude-haiku-4-5");
+    assert.equal(resolveAnthropicModel("openai/gpt-4o-mini"), "claude-sonnet-4-5");
+  } finally {
+    if (previous !== undefined) process.env.ANTHROPIC_MODEL = previous;
+  }
+});
+
+test("pipeline steps in claude.ts run against the pinned provider", async () => {
+  const seen: string[] = [];
+  setLlmProviderOverride(
+    createFixtureProvider({
+      dir: makeFixtureDir(),
+      responder: (request) => {
+        seen.push(request.model);
+        return JSON.stringify({
+          titleChinese: "宅建学习计划",
+          bodyChinese:
+            "## 学习计划\n\n宅建考试需要每天坚持学习，建议把重点放在权利关系和宅建业法。",
+        });
+      },
+    })
+  );
+  try {
+    const result = await ensureFinalJapaneseChineseConsistency("note", {
+      title: "宅建の学習計画",
+      body: "## 学習計画\n\n宅建試験は毎日の継続が大切です。権利関係と宅建業法を重点的に学びましょう。",
+      titleChinese: "",
+      bodyChinese: "",
+      hashtags: [],
+      imagePrompt: "",
+      takkenaiLink: "",
+    });
+    assert.equal(result.titleChinese, "宅建学习计划");
+    assert.ok(result.bodyChinese.includes("学习计划"));
+    assert.ok(seen.length >= 1);
+  } finally {
+    setLlmProviderOverride(null);
+  }
+});
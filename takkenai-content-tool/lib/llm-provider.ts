@@ -0,0 +1,565 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import Anthropic from "@anthropic-ai/sdk";
+import { cassetteFetch, createCassetteFetch } from "./cassette";
+import { estimateTokens, recordModelUsage } from "./usage-ledger";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type LlmProviderKind =
+  | "openrouter"
+  | "anthropic"
+  | "openai-compatible"
+  | "fixture";
+
+export interface LlmCompletionRequest {
+  systemPrompt: string;
+  userPrompt: string;
+  /** Model id as used across the codebase (OpenRouter style, e.g. "openai/gpt-4o-mini") */
+  model: string;
+  maxTokens?: number;
+  temperature?: number;
+  signal?: AbortSignal;
+  /** Sent as X-Title to OpenRouter; ignored by other providers */
+  appTitle?: string;
+  /**
+   * When set, the answer is streamed and every text delta is reported here.
+   * The resolved response still carries the full text.
+   */
+  onText?: (delta: string) => void;
+}
+
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface LlmCompletionResponse {
+  text: string;
+  /** Model that actually answered (after provider-specific mapping) */
+  model: string;
+  provider: LlmProviderKind;
+  usage?: LlmUsage;
+}
+
+export interface LlmProvider {
+  kind: LlmProviderKind;
+  /** Human-readable name used in error messages */
+  label: string;
+  /** Returns a message when credentials / endpoint are missing */
+  configError(): string | null;
+  complete(request: LlmCompletionRequest): Promise<LlmCompletionResponse>;
+}
+
+export type LlmCallError = Error & {
+  status?: number;
+  model?: string;
+  provider?: LlmProviderKind;
+};
+
+const DEFAULT_MAX_TOKENS = 8192;
+const OPENROUTER_URL = "https://openrouter.ai/api/v1/chat/completions";
+const DEFAULT_ANTHROPIC_MODEL = "claude-sonnet-4-5";
+
+function createLlmCallError(
+  message: string,
+  params: { status?: number; model?: string; provider: LlmProviderKind }
+): LlmCallError {
+  const error = new Error(message) as LlmCallError;
+  error.status = params.status;
+  error.model = params.model;
+  error.provider = params.provider;
+  return error;
+}
+
+// ---------------------------------------------------------------------------
+// OpenAI-compatible chat completions (OpenRouter is one of these)
+// ---------------------------------------------------------------------------
+
+type ChatCompletionPayload = {
+  model?: string;
+  choices?: Array<{ message?: { content?: string }; delta?: { content?: string } }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+  error?: { message?: string };
+};
+
+/**
+ * Reads a `stream: true` chat-completions response (SSE "data:" lines) and
+ * folds it back into a single payload.
+ */
+async function readChatCompletionStream(
+  response: Response,
+  onText: (delta: string) => void
+): Promise<ChatCompletionPayload> {
+  let text = "";
+  let usage: ChatCompletionPayload["usage"];
+  let buffer = "";
+  const handleLine = (line: string) => {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith("data:")) return;
+    const data = trimmed.slice(5).trim();
+    if (!data || data === "[DONE]") return;
+    const chunk = JSON.parse(data) as ChatCompletionPayload;
+    if (chunk.error?.message) {
+      throw new Error(chunk.error.message);
+    }
+    const delta = chunk.choices?.[0]?.delta?.content || "";
+    if (delta) {
+      text += delta;
+      onText(delta);
+    }
+    if (chunk.usage) usage = chunk.usage;
+  };
+
+  const reader = response.body?.getReader();
+  if (!reader) return { choices: [{ message: { content: "" } }] };
+  const decoder = new TextDecoder();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() || "";
+    lines.forEach(handleLine);
+  }
+  handleLine(buffer + decoder.decode());
+  return { choices: [{ message: { content: text } }], ...(usage ? { usage } : {}) };
+}
+
+async function postChatCompletion(params: {
+  provider: LlmProviderKind;
+  label: string;
+  url: string;
+  headers: Record<string, string>;
+  model: string;
+  request: LlmCompletionRequest;
+}): Promise<LlmCompletionResponse> {
+  const { request } = params;
+  const response = await cassetteFetch("llm", params.url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...params.headers,
+    },
+    signal: request.signal,
+    body: JSON.stringify({
+      model: params.model,
+      max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+      ...(typeof request.temperature === "number"
+        ? { temperature: request.temperature }
+        : {}),
+      ...(request.onText
+        ? { stream: true, stream_options: { include_usage: true } }
+        : {}),
+      messages: [
+        { role: "system", content: request.systemPrompt },
+        { role: "user", content: request.userPrompt },
+      ],
+    }),
+  });
+
+  if (!response.ok) {
+    const errorData = (await response.json().catch(() => ({}))) as ChatCompletionPayload;
+    throw createLlmCallError(
+      errorData?.error?.message || `${params.label} API error: ${response.status}`,
+      { status: response.status, model: params.model, provider: params.provider }
+    );
+  }
+
+  // Servers that ignore `stream: true` answer with plain JSON.
+  const isEventStream = /text\/event-stream/i.test(
+    response.headers.get("content-type") || ""
+  );
+  const data =
+    request.onText && isEventStream
+      ? await readChatCompletionStream(response, request.onText)
+      : ((await response.json()) as ChatCompletionPayload);
+  const text = data?.choices?.[0]?.message?.content;
+  if (!text) {
+    throw createLlmCallError(`${params.label} からテキスト応答がありません`, {
+      status: 200,
+      model: params.model,
+      provider: params.provider,
+    });
+  }
+
+  return {
+    text,
+    model: params.model,
+    provider: params.provider,
+    ...(data.usage
+      ? {
+          usage: {
+            promptTokens: Number(data.usage.prompt_tokens) || 0,
+            completionTokens: Number(data.usage.completion_tokens) || 0,
+          },
+        }
+      : {}),
+  };
+}
+
+export function createOpenRouterProvider(): LlmProvider {
+  return {
+    kind: "openrouter",
+    label: "OpenRouter",
+    configError() {
+      return (process.env.OPENROUTER_API_KEY || "").trim()
+        ? null
+        : "OPENROUTER_API_KEY が設定されていません。.env.local で設定してください。";
+    },
+    async complete(request) {
+      const apiKey = (process.env.OPENROUTER_API_KEY || "").trim();
+      if (!apiKey) {
+        throw createLlmCallError(this.configError() || "OPENROUTER_API_KEY missing", {
+          status: 401,
+          model: request.model,
+          provider: "openrouter",
+        });
+      }
+      return postChatCompletion({
+        provider: "openrouter",
+        label: "OpenRouter",
+        url: OPENROUTER_URL,
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "HTTP-Referer": "https://takkenai.jp",
+          "X-Title": request.appTitle || "takkenai-content-tool",
+        },
+        model: request.model,
+        request,
+      });
+    },
+  };
+}
+
+/**
+ * Any endpoint speaking the OpenAI chat-completions protocol (vLLM, LiteLLM,
+ * Ollama, OpenAI itself). OPENAI_COMPATIBLE_MODEL pins every call to one model.
+ */
+export function createOpenAiCompatibleProvider(): LlmProvider {
+  const baseUrl = () =>
+    (process.env.OPENAI_COMPATIBLE_BASE_URL || "").trim().replace(/\/+$/, "");
+  return {
+    kind: "openai-compatible",
+    label: "OpenAI-compatible",
+    configError() {
+      return baseUrl()
+        ? null
+        : "OPENAI_COMPATIBLE_BASE_URL が設定されていません（例: http://localhost:11434/v1）";
+    },
+    async complete(request) {
+      const url = baseUrl();
+      if (!url) {
+        throw createLlmCallError(this.configError() || "OPENAI_COMPATIBLE_BASE_URL missing", {
+          status: 401,
+          model: request.model,
+          provider: "openai-compatible",
+        });
+      }
+      const apiKey = (process.env.OPENAI_COMPATIBLE_API_KEY || "").trim();
+      const model = (process.env.OPENAI_COMPATIBLE_MODEL || "").trim() || request.model;
+      return postChatCompletion({
+        provider: "openai-compatible",
+        label: "OpenAI-compatible",
+        url: `${url}/chat/completions`,
+        headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+        model,
+        request,
+      });
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Anthropic (direct, via @anthropic-ai/sdk)
+// ---------------------------------------------------------------------------
+
+/**
+ * Map an OpenRouter-style id to an Anthropic model id:
+ * "anthropic/claude-sonnet-4.5" → "claude-sonnet-4-5". Non-Claude models
+ * (translation / research defaults) fall back to ANTHROPIC_DEFAULT_MODEL.
+ */
+export function resolveAnthropicModel(model: string): string {
+  const pinned = (process.env.ANTHROPIC_MODEL || "").trim();
+  if (pinned) return pinned;
+  const trimmed = (model || "").trim();
+  if (/^anthropic\//i.test(trimmed)) {
+    return trimmed.replace(/^anthropic\//i, "").replace(/\./g, "-");
+  }
+  if (/^claude-/i.test(trimmed)) return trimmed;
+  return (process.env.ANTHROPIC_DEFAULT_MODEL || "").trim() || DEFAULT_ANTHROPIC_MODEL;
+}
+
+export function createAnthropicProvider(): LlmProvider {
+  let client: Anthropic | null = null;
+  let clientKey = "";
+  const getClient = (apiKey: string): Anthropic => {
+    if (!client || clientKey !== apiKey) {
+      client = new Anthropic({
+        apiKey,
+        ...((process.env.ANTHROPIC_BASE_URL || "").trim()
+          ? { baseURL: (process.env.ANTHROPIC_BASE_URL || "").trim() }
+          : {}),
+        // Retries and model fallback are handled by the caller.
+        maxRetries: 0,
+        fetch: createCassetteFetch("llm"),
+      });
+      clientKey = apiKey;
+    }
+    return client;
+  };
+
+  return {
+    kind: "anthropic",
+    label: "Anthropic",
+    configError() {
+      return (process.env.ANTHROPIC_API_KEY || "").trim()
+        ? null
+        : "ANTHROPIC_API_KEY が設定されていません。.env.local で設定してください。";
+    },
+    async complete(request) {
+      const model = resolveAnthropicModel(request.model);
+      const apiKey = (process.env.ANTHROPIC_API_KEY || "").trim();
+      if (!apiKey) {
+        throw createLlmCallError(this.configError() || "ANTHROPIC_API_KEY missing", {
+          status: 401,
+          model,
+          provider: "anthropic",
+        });
+      }
+      try {
+        const params = {
+          model,
+          max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+          ...(typeof request.temperature === "number"
+            ? { temperature: request.temperature }
+            : {}),
+          system: request.systemPrompt,
+          messages: [{ role: "user" as const, content: request.userPrompt }],
+        };
+        const onText = request.onText;
+        const message = onText
+          ? await getClient(apiKey)
+              .messages.stream(params, { signal: request.signal })
+              .on("text", (delta) => onText(delta))
+              .finalMessage()
+          : await getClient(apiKey).messages.create(params, { signal: request.signal });
+        const text = message.content
+          .map((block) => (block.type === "text" ? block.text : ""))
+          .join("")
+          .trim();
+        if (!text) {
+          throw createLlmCallError("Anthropic からテキスト応答がありません", {
+            status: 200,
+            model,
+            provider: "anthropic",
+          });
+        }
+        return {
+          text,
+          model,
+          provider: "anthropic",
+          usage: {
+            promptTokens: message.usage?.input_tokens || 0,
+            completionTokens: message.usage?.output_tokens || 0,
+          },
+        };
+      } catch (error) {
+        if (error instanceof Anthropic.APIError) {
+          throw createLlmCallError(error.message || `Anthropic API error: ${error.status}`, {
+            status: typeof error.status === "number" ? error.status : undefined,
+            model,
+            provider: "anthropic",
+          });
+        }
+        throw error;
+      }
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Fixture / replay (deterministic, offline)
+// ---------------------------------------------------------------------------
+
+export interface LlmFixture {
+  key: string;
+  model?: string;
+  text: string;
+  recordedAt?: string;
+  promptPreview?: string;
+}
+
+function normalizePromptForKey(text: string): string {
+  return (text || "").replace(/\r\n/g, "\n").replace(/[ \t]+/g, " ").trim();
+}
+
+/**
+ * Fixtures are keyed by the prompts only (not the model), so the writing
+ * model fallback chain replays the same recording.
+ */
+export function computeLlmFixtureKey(
+  request: Pick<LlmCompletionRequest, "systemPrompt" | "userPrompt">
+): string {
+  return crypto
+    .createHash("sha256")
+    .update(normalizePromptForKey(request.systemPrompt))
+    .update("\u0000")
+    .update(normalizePromptForKey(request.userPrompt))
+    .digest("hex")
+    .slice(0, 24);
+}
+
+export function resolveLlmFixtureDir(): string {
+  const configured = (process.env.LLM_FIXTURE_DIR || "").trim();
+  if (configured) {
+    return path.isAbsolute(configured)
+      ? configured
+      : path.join(process.cwd(), configured);
+  }
+  return path.join(process.cwd(), "data", "llm-fixtures");
+}
+
+export interface FixtureProviderOptions {
+  dir?: string;
+  /** In-memory responses checked before the fixture directory (tests) */
+  responder?: (request: LlmCompletionRequest) => string | null | undefined;
+  /** On a miss, call this provider and save its answer as a new fixture */
+  recordFrom?: LlmProvider;
+}
+
+export function createFixtureProvider(options: FixtureProviderOptions = {}): LlmProvider {
+  const dir = () => options.dir || resolveLlmFixtureDir();
+  return {
+    kind: "fixture",
+    label: "Fixture",
+    configError() {
+      return options.recordFrom ? options.recordFrom.configError() : null;
+    },
+    async complete(request) {
+      const fromResponder = options.responder?.(request);
+      if (typeof fromResponder === "string") {
+        request.onText?.(fromResponder);
+        return { text: fromResponder, model: request.model, provider: "fixture" };
+      }
+
+      const key = computeLlmFixtureKey(request);
+      const filePath = path.join(dir(), `${key}.json`);
+      if (fs.existsSync(filePath)) {
+        const fixture = JSON.parse(fs.readFileSync(filePath, "utf-8")) as LlmFixture;
+        request.onText?.(fixture.text);
+        return {
+          text: fixture.text,
+          model: fixture.model || request.model,
+          provider: "fixture",
+        };
+      }
+
+      if (options.recordFrom) {
+        const live = await options.recordFrom.complete(request);
+        const fixture: LlmFixture = {
+          key,
+          model: live.model,
+          text: live.text,
+          recordedAt: new Date().toISOString(),
+          promptPreview: normalizePromptForKey(request.userPrompt).slice(0, 200),
+        };
+        fs.mkdirSync(dir(), { recursive: true });
+        fs.writeFileSync(filePath, JSON.stringify(fixture, null, 2), "utf-8");
+        return live;
+      }
+
+      // status 0: a missing recording must not trigger the model fallback chain
+      throw createLlmCallError(
+        `LLM fixture が見つかりません (key=${key}, dir=${dir()})。LLM_FIXTURE_RECORD=1 で記録してください。`,
+        { status: 0, model: request.model, provider: "fixture" }
+      );
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Selection
+// ---------------------------------------------------------------------------
+
+export function resolveLlmProviderKind(raw = process.env.LLM_PROVIDER): LlmProviderKind {
+  const value = String(raw || "").trim().toLowerCase();
+  if (value === "anthropic") return "anthropic";
+  if (value === "openai-compatible" || value === "openai") return "openai-compatible";
+  if (value === "fixture" || value === "replay") return "fixture";
+  return "openrouter";
+}
+
+function createLiveProvider(kind: LlmProviderKind): LlmProvider {
+  if (kind === "anthropic") return createAnthropicProvider();
+  if (kind === "openai-compatible") return createOpenAiCompatibleProvider();
+  return createOpenRouterProvider();
+}
+
+export function createLlmProvider(kind: LlmProviderKind = resolveLlmProviderKind()): LlmProvider {
+  if (kind !== "fixture") return createLiveProvider(kind);
+  const record = ["1", "true", "on"].includes(
+    String(process.env.LLM_FIXTURE_RECORD || "").trim().toLowerCase()
+  );
+  return createFixtureProvider(
+    record
+      ? { recordFrom: createLiveProvider(resolveLlmProviderKind(process.env.LLM_FIXTURE_UPSTREAM)) }
+      : {}
+  );
+}
+
+/** Reports every completion to the usage ledger (estimating tokens when the provider reports none). */
+function withUsageRecording(provider: LlmProvider): LlmProvider {
+  return {
+    ...provider,
+    async complete(request) {
+      const response = await provider.complete(request);
+      // Fixture replays cost nothing.
+      if (response.provider === "fixture") return response;
+      recordModelUsage({
+        model: response.model,
+        provider: response.provider,
+        kind: "text",
+        ...(response.usage
+          ? response.usage
+          : {
+              promptTokens: estimateTokens(`${request.systemPrompt}${request.userPrompt}`),
+              completionTokens: estimateTokens(response.text),
+              estimated: true,
+            }),
+      });
+      return response;
+    },
+  };
+}
+
+let cachedProvider: { signature: string; provider: LlmProvider } | null = null;
+let providerOverride: LlmProvider | null = null;
+
+/**
+ * Provider selected by LLM_PROVIDER (openrouter | anthropic |
+ * openai-compatible | fixture). Tests can pin one with setLlmProviderOverride.
+ */
+export function getLlmProvider(): LlmProvider {
+  if (providerOverride) return providerOverride;
+  const signature = [
+    resolveLlmProviderKind(),
+    process.env.LLM_FIXTURE_RECORD || "",
+    process.env.LLM_FIXTURE_UPSTREAM || "",
+  ].join("|");
+  if (!cachedProvider || cachedProvider.signature !== signature) {
+    cachedProvider = { signature, provider: withUsageRecording(createLlmProvider()) };
+  }
+  return cachedProvider.provider;
+}
+
+export function setLlmProviderOverride(provider: LlmProvider | null): void {
+  providerOverride = provider ? withUsageRecording(provider) : null;
+}
+
+export function getLlmProviderConfigError(): string | null {
+  return getLlmProvider().configError();
+}
@@ -233,6 +233,26 @@ export function getNoteInternalLinkPoolStatus(): {
   };
 }
 
+/**
+ * Returns why `url` cannot be registered, or null when it can, so callers
+ * can reject it before saving anything else and register afterwards.
+ */
+export function checkPublishedNoteUrl(url: string): string | null {
+  const normalizedUrl = normalizeNoteArticleUrl(url);
+  if (!normalizedUrl) {
+    return "publishedUrl は note.com の記事URLのみ登録できます";
+  }
+  const account = extractNoteAccount(normalizedUrl);
+  if (!account) {
+    return "note URL からアカウントを特定できませんでした";
+  }
+  const { allowedAccounts } = readPool();
+  if (allowedAccounts.length > 0 && !allowedAccounts.includes(account)) {
+    return `noteアカウントが白名单外です: ${account}（許可: ${allowedAccounts.join(", ")}）`;
+  }
+  return null;
+}
+
 export function registerPublishedNoteUrl(input: RegisterPublishedNoteUrlInput): {
   pool: NoteInternalLinkPool;
   item: NoteInternalLinkItem;
@@ -242,14 +262,12 @@ export function registerPublishedNoteUrl(input: RegisterPublishedNoteUrlInput):
     throw new Error("公開日の形式が不正です（YYYY-MM-DD）");
   }
 
-  const normalizedUrl = normalizeNoteArticleUrl(input.url);
-  if (!normalizedUrl) {
-    throw new Error("publishedUrl は note.com の記事URLのみ登録できます");
+  const violation = checkPublishedNoteUrl(input.url);
+  if (violation) {
+    throw new Error(violation);
   }
+  const normalizedUrl = normalizeNoteArticleUrl(input.url);
   const account = extractNoteAccount(normalizedUrl);
-  if (!account) {
-    throw new Error("note URL からアカウントを特定できませんでした");
-  }
 
   const pool = readPool();
   const contentKey: NoteContentKey =
@@ -257,10 +275,6 @@ export function registerPublishedNoteUrl(input: RegisterPublishedNoteUrlInput):
 
   if (pool.allowedAccounts.length === 0) {
     pool.allowedAccounts = [account];
-  } else if (!pool.allowedAccounts.includes(account)) {
-    throw new Error(
-      `noteアカウントが白名单外です: ${account}（許可: ${pool.allowedAccounts.join(", ")}）`
-    );
   }
 
   const canonicalUrl = normalizeNoteArticleUrl(normalizedUrl);
@@ -0,0 +1,172 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { getCalendarDay, getOrCreateCalendar, updatePlatformEntry } from "./calendar-engine";
+import { withTempCalendar } from "./calendar-test-helpers";
+import {
+  importPerformanceCsv,
+  isPerformanceInputError,
+  recordEntryPerformance,
+} from "./performance-feedback";
+import {
+  choosePerformanceArticleType,
+  clearPerformanceWeightsCache,
+  computeEntryReward,
+  getUrlWeightMultipliers,
+  loadPerformanceWeights,
+} from "./performance-weights";
+import { pickTrafficUrlForSlot, type TrafficUrlProfile } from "./traffic-url-profile";
+
+const WEIGHTS_ENV = {
+  env: { PERFORMANCE_WEIGHTS_FILE: "performance-weights.json" },
+  reset: clearPerformanceWeightsCache,
+};
+
+/** June 1–2: loan × how-to, June 3–4: shohiyo × case-review, all published on note. */
+function publishSamplePosts(): void {
+  getOrCreateCalendar(2026, 6);
+  const posts = [
+    { day: 1, takkenaiUrl: "https://takkenai.jp/tools/loan", articleType: "how-to" },
+    { day: 2, takkenaiUrl: "https://takkenai.jp/tools/loan/", articleType: "how-to" },
+    { day: 3, takkenaiUrl: "https://takkenai.jp/tools/shohiyo", articleType: "case-review" },
+    { day: 4, takkenaiUrl: "https://takkenai.jp/tools/shohiyo", articleType: "case-review" },
+  ] as const;
+  for (const post of posts) {
+    updatePlatformEntry(2026, 6, post.day, "note", {
+      status: "published",
+      takkenaiUrl: post.takkenaiUrl,
+      articleType: post.articleType,
+    });
+  }
+}
+
+test("recorded outcomes reweight URLs and article types per platform", () => {
+  withTempCalendar(() => {
+    publishSamplePosts();
+    assert.equal(computeEntryReward({ referralClicks: 2, likes: 4, views: 300 }), 7);
+
+    recordEntryPerformance("2026-06-01", "note", { referralClicks: 30 }, { actor: "佐藤" });
+    recordEntryPerformance("2026-06-02", "note", { referralClicks: 30 });
+    recordEntryPerformance("2026-06-03", "note", { views: 100 });
+    recordEntryPerformance("2026-06-04", "note", { views: 100 });
+    assert.equal(getCalendarDay(2026, 6, 1)?.platforms.note!.performance?.updatedBy, "佐藤");
+
+    // Mean reward 15.5; each arm is shrunk with 3 pseudo-samples at the mean.
+    const weights = loadPerformanceWeights();
+    assert.ok(weights);
+    assert.equal(weights.samples, 4);
+    assert.equal(weights.platformMeans.note, 15.5);
+    assert.deepEqual(weights.urls.note!["/tools/loan"], { samples: 2, meanReward: 30, multiplier: 1.374 });
+    assert.equal(weights.urls.note!["/tools/shohiyo"].multiplier, 0.626);
+    assert.equal(weights.articleTypes.note!["how-to"]?.multiplier, 1.374);
+    assert.equal(weights.combos.note!["/tools/shohiyo|case-review"].multiplier, 0.626);
+
+    assert.deepEqual(getUrlWeightMultipliers("note"), { "/tools/loan": 1.374, "/tools/shohiyo": 0.626 });
+    assert.equal(getUrlWeightMultipliers("ameba"), undefined);
+    assert.equal(
+      choosePerformanceArticleType("note", "https://takkenai.jp/tools/shohiyo", "case-review"),
+      "how-to"
+    );
+    assert.equal(choosePerformanceArticleType("note", "/tools/loan", "how-to"), "how-to");
+    assert.equal(choosePerformanceArticleType("hatena", "/tools/loan", "tool-ranking"), "tool-ranking");
+
+    assert.throws(
+      () => recordEntryPerformance("2026-06-05", "note", { views: 10 }),
+      (err: unknown) => isPerformanceInputError(err) && /公開済み/.test(err.message)
+    );
+    assert.throws(
+      () => recordEntryPerformance("2026-06-01", "note", { views: -1 }),
+      isPerformanceInputError
+    );
+  }, WEIGHTS_ENV);
+});
+
+test("performance multipliers shift traffic URL picks without changing the default", () => {
+  const profile: TrafficUrlProfile = {
+    version: "test",
+    generatedAt: "2026-01-01T00:00:00.000Z",
+    strategy: { highShare: 0.7, exploreShare: 0.3 },
+    items: ["/tools/loan", "/tools/shohiyo"].map((itemPath) => ({
+      path: itemPath,
+      labelJa: itemPath,
+      group: "tool" as const,
+      tier: "high" as const,
+      weight: 10,
+      sourceScore: 100,
+    })),
+  };
+  const pickCounts = (weightMultipliers?: Record<string, number>) => {
+    let loan = 0;
+    for (let day = 1; day <= 60; day++) {
+      const picked = pickTrafficUrlForSlot({
+        profile,
+        date: `2026-07-${String(((day - 1) % 30) + 1).padStart(2, "0")}`,
+        platform: "note",
+        group: "tool",
+        preferredTier: "high",
+        attempt: day > 30 ? 1 : 0,
+        weightMultipliers,
+      });
+      if (picked?.path === "/tools/loan") loan++;
+    }
+    return loan;
+  };
+
+  const baseline = pickCounts();
+  assert.equal(pickCounts({}), baseline);
+  assert.ok(pickCounts({ "/tools/loan": 2, "/tools/shohiyo": 0.5 }) > baseline);
+  assert.ok(pickCounts({ "/tools/loan": 0.5, "/tools/shohiyo": 2 }) < baseline);
+});
+
+test("CSV imports credit per-post metrics and GA4 utm sessions to published posts", () => {
+  withTempCalendar(() => {
+    publishSamplePosts();
+    recordEntryPerformance("2026-06-03", "note", { views: 100 });
+
+    const invalid = importPerformanceCsv(
+      ["date,platform,views,likes", "2026-06-03,note,200,5", "2026-06-05,note,10,1"].join("\n")
+    );
+    assert.deepEqual(invalid.updated, []);
+    assert.deepEqual(invalid.errors, [{ line: 3, message: "公開済みの記事が見つかりません" }]);
+    assert.equal(getCalendarDay(2026, 6, 3)?.platforms.note!.performance?.views, 100);
+
+    const entries = importPerformanceCsv(
+      ["date,platform,閲覧数,スキ", "2026-06-03,note,\"1,200\",5"].join("\r\n"),
+      { actor: "田中" }
+    );
+    assert.equal(entries.layout, "entries");
+    assert.deepEqual(entries.updated, [
+      { date: "2026-06-03", platform: "note", metrics: { views: 1200, likes: 5 } },
+    ]);
+    const imported = getCalendarDay(2026, 6, 3)?.platforms.note!.performance;
+    assert.equal(imported?.views, 1200);
+    assert.equal(imported?.source, "csv");
+    assert.equal(imported?.updatedBy, "田中");
+
+    const ga4 = importPerformanceCsv(
+      [
+        "# セッションのソース別ランディングページ",
+        "Session source,Session campaign,Landing page + query string,Sessions",
+        "note,daily_content,/tools/loan?utm_source=note,12",
+        "note,daily_content,/tools/loan,3",
+        "google,(organic),/tools/loan,500",
+        "hatena,daily_content,/tools/loan,4",
+        "note,spring_sale,/tools/loan,9",
+      ].join("\n")
+    );
+    assert.equal(ga4.layout, "ga4");
+    assert.deepEqual(ga4.errors, []);
+    assert.equal(ga4.skipped, 3);
+    assert.deepEqual(ga4.unmatched, [{ line: 6, platform: "hatena", path: "/tools/loan", sessions: 4 }]);
+    // The latest published note post linking to the page gets the sessions.
+    assert.deepEqual(ga4.updated, [
+      { date: "2026-06-02", platform: "note", metrics: { referralClicks: 15 } },
+    ]);
+    assert.equal(getCalendarDay(2026, 6, 2)?.platforms.note!.performance?.referralClicks, 15);
+    assert.equal(getCalendarDay(2026, 6, 1)?.platforms.note!.performance, undefined);
+    assert.equal(loadPerformanceWeights()?.samples, 2);
+
+    const unknown = importPerformanceCsv("title,count\nfoo,1");
+    assert.equal(unknown.errors.length, 1);
+  }, WEIGHTS_ENV);
+});
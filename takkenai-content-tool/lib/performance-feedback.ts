@@ -0,0 +1,382 @@
+import {
+  getDayPlatforms,
+  loadCalendarStore,
+  updatePlatformEntryWith,
+  type CalendarDay,
+  type EntryPerformance,
+  type MonthCalendar,
+  type PlatformEntry,
+} from "./calendar-engine";
+import { isPlatform, PLATFORM_IDS } from "./platform-registry";
+import { parseCsv } from "./calendar-sync";
+import {
+  computePerformanceWeights,
+  savePerformanceWeights,
+  type PerformanceWeights,
+} from "./performance-weights";
+import type { Platform } from "./topic-engine";
+import { canonicalizeTakkenaiPath } from "./traffic-url-profile";
+import {
+  DEFAULT_TRACKING_CONFIG,
+  resolveEntryTrackingParams,
+  resolveTrackingParams,
+  trackedContentKeys,
+  type SiteTrackingSettings,
+} from "./tracking-template";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type PerformanceInputError = Error & { code: "PERFORMANCE_INPUT_INVALID" };
+
+export function isPerformanceInputError(error: unknown): error is PerformanceInputError {
+  return (
+    error instanceof Error &&
+    (error as Partial<PerformanceInputError>).code === "PERFORMANCE_INPUT_INVALID"
+  );
+}
+
+function createPerformanceInputError(message: string): PerformanceInputError {
+  const error = new Error(message) as PerformanceInputError;
+  error.code = "PERFORMANCE_INPUT_INVALID";
+  return error;
+}
+
+export type PerformanceMetrics = Pick<EntryPerformance, "referralClicks" | "views" | "likes">;
+
+export interface PerformanceImportRowError {
+  /** 1-based line number in the CSV, comment lines included */
+  line: number;
+  message: string;
+}
+
+export interface PerformanceImportChange {
+  date: string;
+  platform: Platform;
+  metrics: PerformanceMetrics;
+}
+
+/** GA4 rows whose utm_source belongs to a platform but no published post links to the page. */
+export interface PerformanceImportUnmatched {
+  line: number;
+  platform: Platform;
+  path: string;
+  sessions: number;
+}
+
+export interface PerformanceImportResult {
+  layout: "entries" | "ga4";
+  updated: PerformanceImportChange[];
+  unmatched: PerformanceImportUnmatched[];
+  /** Rows that are not about this tool's posts (other traffic sources, blank rows) */
+  skipped: number;
+  errors: PerformanceImportRowError[];
+}
+
+const METRIC_KEYS: Array<keyof PerformanceMetrics> = ["referralClicks", "views", "likes"];
+
+// ---------------------------------------------------------------------------
+// Recording
+// ---------------------------------------------------------------------------
+
+/** Recompute the multipliers used by topic selection from the stored calendars. */
+export function rebuildPerformanceWeights(
+  calendars: MonthCalendar[] = loadCalendarStore().calendars
+): PerformanceWeights {
+  const weights = computePerformanceWeights(calendars);
+  savePerformanceWeights(weights);
+  return weights;
+}
+
+function parseMetricValue(name: string, value: unknown): number | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const parsed = typeof value === "number" ? value : Number(String(value).replace(/[,\s]/g, ""));
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw createPerformanceInputError(`${name} は0以上の整数で指定してください`);
+  }
+  return parsed;
+}
+
+/** Keeps the provided metrics only; throws when none is a valid count. */
+export function normalizePerformanceMetrics(raw: Record<string, unknown>): PerformanceMetrics {
+  const metrics: PerformanceMetrics = {};
+  for (const key of METRIC_KEYS) {
+    const value = parseMetricValue(key, raw[key]);
+    if (value !== undefined) metrics[key] = value;
+  }
+  if (Object.keys(metrics).length === 0) {
+    throw createPerformanceInputError("referralClicks / views / likes のいずれかを指定してください");
+  }
+  return metrics;
+}
+
+function writeEntryPerformance(
+  date: string,
+  platform: Platform,
+  metrics: PerformanceMetrics,
+  options: { actor?: string; source: EntryPerformance["source"] }
+): CalendarDay {
+  const match = date.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) throw createPerformanceInputError("不正な日付形式です（YYYY-MM-DD）");
+  if (!isPlatform(platform)) {
+    throw createPerformanceInputError(`platform は ${PLATFORM_IDS.join(" / ")} のいずれかです`);
+  }
+  const counts = normalizePerformanceMetrics({ ...metrics });
+  const day = updatePlatformEntryWith(
+    parseInt(match[1], 10),
+    parseInt(match[2], 10),
+    parseInt(match[3], 10),
+    platform,
+    (entry) => {
+      if (entry.status !== "published") {
+        throw createPerformanceInputError("成果を記録できるのは公開済みの記事だけです");
+      }
+      const actor = (options.actor || "").trim();
+      return {
+        performance: {
+          ...entry.performance,
+          ...counts,
+          source: options.source,
+          updatedAt: new Date().toISOString(),
+          ...(actor ? { updatedBy: actor } : {}),
+        },
+      };
+    }
+  );
+  if (!day) throw createPerformanceInputError("指定された日付のデータが見つかりません");
+  return day;
+}
+
+/**
+ * Records views / likes / referral clicks of a published post (metrics that
+ * are left out keep their stored value) and refreshes the weights.
+ */
+export function recordEntryPerformance(
+  date: string,
+  platform: Platform,
+  metrics: PerformanceMetrics,
+  options: { actor?: string } = {}
+): CalendarDay {
+  const day = writeEntryPerformance(date, platform, metrics, { ...options, source: "manual" });
+  rebuildPerformanceWeights();
+  return day;
+}
+
+// ---------------------------------------------------------------------------
+// CSV import
+// ---------------------------------------------------------------------------
+
+type ColumnKey = "date" | "platform" | "source" | "campaign" | "path" | "sessions" | keyof PerformanceMetrics;
+
+/** Compared after lower-casing and removing spaces, "+", "_" and "-". */
+const COLUMN_ALIASES: Record<ColumnKey, string[]> = {
+  date: ["date", "日付", "公開日"],
+  platform: ["platform", "プラットフォーム"],
+  referralClicks: ["referralclicks", "clicks", "クリック", "クリック数", "送客数"],
+  views: ["views", "pv", "ビュー", "閲覧数", "アクセス数"],
+  likes: ["likes", "スキ", "いいね", "いいね数", "スター"],
+  source: ["sessionsource", "source", "firstusersource", "セッションのソース", "参照元"],
+  campaign: ["sessioncampaign", "sessioncampaignname", "campaign", "セッションのキャンペーン"],
+  path: [
+    "landingpage",
+    "landingpageplusquerystring",
+    "landingpagequerystring",
+    "pagepath",
+    "ランディングページ",
+    "ランディングページクエリ文字列",
+  ],
+  sessions: ["sessions", "セッション", "セッション数"],
+};
+
+function normalizeHeader(raw: string): string {
+  return raw.toLowerCase().replace(/[\s+_\-]/g, "");
+}
+
+function resolveColumns(headers: string[]): Partial<Record<ColumnKey, number>> {
+  const normalized = headers.map(normalizeHeader);
+  const columns: Partial<Record<ColumnKey, number>> = {};
+  (Object.keys(COLUMN_ALIASES) as ColumnKey[]).forEach((key) => {
+    const index = normalized.findIndex((header) => COLUMN_ALIASES[key].includes(header));
+    if (index >= 0) columns[key] = index;
+  });
+  return columns;
+}
+
+type PublishedTarget = { date: string; platform: Platform };
+
+/**
+ * The utm_source / utm_campaign values the site's tracked links carry.
+ * Published entries are indexed by `${source}|${campaign}|${path}` and, for
+ * GA4 rows without a campaign column, by `${source}||${path}` (latest wins).
+ */
+function indexTrackedEntries(calendars: MonthCalendar[], site: SiteTrackingSettings) {
+  const platformBySource = new Map<string, Platform>();
+  const campaigns = new Set<string>();
+  for (const platform of PLATFORM_IDS) {
+    const params = resolveTrackingParams(site.config, {
+      platform,
+      platformSource: site.platformSources?.[platform],
+    });
+    if (params.utm_source) platformBySource.set(params.utm_source.toLowerCase(), platform);
+    if (params.utm_campaign) campaigns.add(params.utm_campaign.toLowerCase());
+  }
+
+  const entries = new Map<string, PublishedTarget>();
+  const days = calendars.flatMap((calendar) => calendar.days).sort((a, b) => a.date.localeCompare(b.date));
+  for (const day of days) {
+    for (const platform of getDayPlatforms(day)) {
+      const entry = day.platforms[platform] as PlatformEntry;
+      const urlPath = canonicalizeTakkenaiPath(entry.takkenaiUrl);
+      if (entry.status !== "published" || !urlPath) continue;
+      for (const contentKey of trackedContentKeys(platform)) {
+        const params = resolveEntryTrackingParams(site, {
+          date: day.date,
+          platform,
+          contentKey,
+          articleType: contentKey === "note-viral" ? undefined : entry.articleType,
+          campaign: entry.campaign,
+        });
+        const source = (params.utm_source || "").toLowerCase();
+        const campaign = (params.utm_campaign || "").toLowerCase();
+        if (!source) continue;
+        if (!platformBySource.has(source)) platformBySource.set(source, platform);
+        if (campaign) campaigns.add(campaign);
+        entries.set(`${source}|${campaign}|${urlPath}`, { date: day.date, platform });
+        entries.set(`${source}||${urlPath}`, { date: day.date, platform });
+      }
+    }
+  }
+  return { platformBySource, campaigns, entries };
+}
+
+/**
+ * Imports post outcomes from a CSV in one of two layouts:
+ *
+ * - per post: `date`, `platform` and any of `views` / `likes` / `referralClicks`
+ *   (e.g. numbers copied from the platform dashboards)
+ * - a GA4 export with session source, landing page and sessions: rows whose
+ *   source and campaign are ones the site's tracking templates put on its
+ *   links (lib/tracking-template.ts) are credited as referral clicks to the
+ *   latest published post carrying those values and linking to the page.
+ *   Other sources and campaigns are skipped; unmatched pages are reported.
+ *
+ * Nothing is written when a row fails validation.
+ */
+export function importPerformanceCsv(
+  text: string,
+  options: { actor?: string; tracking?: SiteTrackingSettings } = {}
+): PerformanceImportResult {
+  const lines = parseCsv(text).map((cells, index) => ({ cells, line: index + 1 }));
+  const rows = lines.filter(
+    ({ cells }) => !cells.every((cell) => !cell.trim()) && !cells[0].trim().startsWith("#")
+  );
+  const [header, ...records] = rows;
+  const columns = resolveColumns(header ? header.cells : []);
+  const result: PerformanceImportResult = {
+    layout: columns.date !== undefined ? "entries" : "ga4",
+    updated: [],
+    unmatched: [],
+    skipped: lines.length - rows.length,
+    errors: [],
+  };
+  const cell = (cells: string[], key: ColumnKey) => {
+    const position = columns[key];
+    return position === undefined ? "" : String(cells[position] ?? "").trim();
+  };
+
+  if (result.layout === "entries") {
+    if (columns.platform === undefined || !METRIC_KEYS.some((key) => columns[key] !== undefined)) {
+      result.errors.push({
+        line: header.line,
+        message: "date と platform に加えて views / likes / referralClicks のいずれかの列が必要です",
+      });
+      return result;
+    }
+    const published = new Set(
+      loadCalendarStore().calendars.flatMap((calendar) =>
+        calendar.days.flatMap((day) =>
+          getDayPlatforms(day).filter((platform) => day.platforms[platform]?.status === "published").map(
+            (platform) => `${day.date}:${platform}`
+          )
+        )
+      )
+    );
+    const seen = new Set<string>();
+    for (const { cells, line } of records) {
+      const date = cell(cells, "date");
+      const platform = cell(cells, "platform").toLowerCase() as Platform;
+      try {
+        if (!isPlatform(platform)) {
+          throw createPerformanceInputError(`platform は ${PLATFORM_IDS.join(" / ")} のいずれかです`);
+        }
+        if (seen.has(`${date}:${platform}`)) {
+          throw createPerformanceInputError("同じ日付・プラットフォームの行が重複しています");
+        }
+        seen.add(`${date}:${platform}`);
+        if (!published.has(`${date}:${platform}`)) {
+          throw createPerformanceInputError("公開済みの記事が見つかりません");
+        }
+        const raw: Record<string, unknown> = {};
+        for (const key of METRIC_KEYS) raw[key] = cell(cells, key);
+        result.updated.push({ date, platform, metrics: normalizePerformanceMetrics(raw) });
+      } catch (error) {
+        if (!isPerformanceInputError(error)) throw error;
+        result.errors.push({ line, message: error.message });
+      }
+    }
+  } else {
+    if (columns.source === undefined || columns.path === undefined || columns.sessions === undefined) {
+      result.errors.push({
+        line: header ? header.line : 1,
+        message:
+          "date・platform の列、または GA4 のセッションのソース・ランディングページ・セッションの列が必要です",
+      });
+      return result;
+    }
+    const tracked = indexTrackedEntries(
+      loadCalendarStore().calendars,
+      options.tracking || { config: DEFAULT_TRACKING_CONFIG }
+    );
+    const clicks = new Map<string, PerformanceImportChange>();
+    for (const { cells, line } of records) {
+      const source = cell(cells, "source").toLowerCase();
+      const campaign = cell(cells, "campaign").toLowerCase();
+      const platform = tracked.platformBySource.get(source);
+      if (!platform || (campaign && !tracked.campaigns.has(campaign))) {
+        result.skipped++;
+        continue;
+      }
+      const sessions = Number(cell(cells, "sessions").replace(/[,\s]/g, ""));
+      if (!Number.isFinite(sessions) || sessions < 0) {
+        result.errors.push({ line, message: "セッションは0以上の数値で指定してください" });
+        continue;
+      }
+      const urlPath = canonicalizeTakkenaiPath(cell(cells, "path"));
+      const target = tracked.entries.get(`${source}|${campaign}|${urlPath}`);
+      if (!target) {
+        result.unmatched.push({ line, platform, path: urlPath, sessions });
+        continue;
+      }
+      // Query-string variants of the same landing page add up.
+      const key = `${target.date}:${target.platform}`;
+      const change = clicks.get(key) || { ...target, metrics: { referralClicks: 0 } };
+      change.metrics.referralClicks = (change.metrics.referralClicks || 0) + Math.round(sessions);
+      clicks.set(key, change);
+    }
+    result.updated = Array.from(clicks.values());
+  }
+
+  if (result.errors.length > 0) {
+    result.updated = [];
+    return result;
+  }
+  for (const change of result.updated) {
+    writeEntryPerformance(change.date, change.platform, change.metrics, {
+      actor: options.actor,
+      source: "csv",
+    });
+  }
+  if (result.updated.length > 0) rebuildPerformanceWeights();
+  return result;
+}
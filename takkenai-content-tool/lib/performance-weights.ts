@@ -0,0 +1,228 @@
+import fs from "fs";
+import path from "path";
+import type { EntryPerformance, MonthCalendar } from "./calendar-engine";
+import {
+  ARTICLE_TYPE_OPTIONS,
+  isCoreArticleType,
+  type CoreArticleType,
+} from "./article-type";
+import type { Platform } from "./topic-engine";
+import { writeJsonAtomic } from "./json-file";
+import { PLATFORM_IDS, type PlatformMap } from "./platform-registry";
+import { canonicalizeTakkenaiPath } from "./traffic-url-profile";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Aggregated outcomes of one arm (URL, article type or URL × article type) on a platform. */
+export interface PerformanceArmStats {
+  samples: number;
+  meanReward: number;
+  /** Factor applied to the arm's scheduling weight (1 = no evidence either way) */
+  multiplier: number;
+}
+
+export interface PerformanceWeights {
+  generatedAt: string;
+  /** Published entries with recorded outcomes */
+  samples: number;
+  platformMeans: PlatformMap<number>;
+  /** Canonical takkenai path → stats */
+  urls: PlatformMap<Record<string, PerformanceArmStats>>;
+  articleTypes: PlatformMap<Partial<Record<CoreArticleType, PerformanceArmStats>>>;
+  /** `${path}|${articleType}` → stats */
+  combos: PlatformMap<Record<string, PerformanceArmStats>>;
+}
+
+// ---------------------------------------------------------------------------
+// Reward and reweighting
+// ---------------------------------------------------------------------------
+
+/** Pseudo-observations at the platform mean every arm starts with. */
+const PRIOR_SAMPLES = 3;
+export const MIN_MULTIPLIER = 0.5;
+export const MAX_MULTIPLIER = 2;
+/** An article type must beat the default by this factor before it is recommended. */
+const ARTICLE_TYPE_SWITCH_MARGIN = 1.1;
+
+/**
+ * reward = referralClicks + 0.5 × likes + views / 100
+ *
+ * Clicks through the tracked takkenai.jp link (GA4 sessions with its UTM values) are
+ * what the content is for; likes and views are weaker signals that still
+ * count when GA4 attribution is missing.
+ */
+export function computeEntryReward(
+  performance: Pick<EntryPerformance, "referralClicks" | "views" | "likes">
+): number {
+  return (performance.referralClicks || 0) + 0.5 * (performance.likes || 0) + (performance.views || 0) / 100;
+}
+
+type ArmTotals = { samples: number; reward: number };
+
+function addSample(arms: Record<string, ArmTotals>, key: string, reward: number): void {
+  const current = arms[key] || { samples: 0, reward: 0 };
+  current.samples++;
+  current.reward += reward;
+  arms[key] = current;
+}
+
+/**
+ * Bandit-style reweighting (empirical Bayes): each arm's mean reward is
+ * shrunk towards the platform mean with PRIOR_SAMPLES pseudo-observations,
+ * then divided by that mean. Arms without data keep multiplier 1, so they
+ * are still explored; proven losers are damped to MIN_MULTIPLIER and
+ * winners boosted up to MAX_MULTIPLIER.
+ */
+function toArmStats(arms: Record<string, ArmTotals>, platformMean: number): Record<string, PerformanceArmStats> {
+  const result: Record<string, PerformanceArmStats> = {};
+  for (const key of Object.keys(arms).sort()) {
+    const { samples, reward } = arms[key];
+    const shrunk = (reward + PRIOR_SAMPLES * platformMean) / (samples + PRIOR_SAMPLES);
+    const multiplier =
+      platformMean > 0
+        ? Math.min(MAX_MULTIPLIER, Math.max(MIN_MULTIPLIER, shrunk / platformMean))
+        : 1;
+    result[key] = {
+      samples,
+      meanReward: Math.round((reward / samples) * 100) / 100,
+      multiplier: Math.round(multiplier * 1000) / 1000,
+    };
+  }
+  return result;
+}
+
+/** Recompute all multipliers from the published entries that have outcomes. */
+export function computePerformanceWeights(
+  calendars: MonthCalendar[],
+  now: Date = new Date()
+): PerformanceWeights {
+  const weights: PerformanceWeights = {
+    generatedAt: now.toISOString(),
+    samples: 0,
+    platformMeans: {},
+    urls: {},
+    articleTypes: {},
+    combos: {},
+  };
+
+  for (const platform of PLATFORM_IDS) {
+    const urls: Record<string, ArmTotals> = {};
+    const articleTypes: Record<string, ArmTotals> = {};
+    const combos: Record<string, ArmTotals> = {};
+    let total = 0;
+    let samples = 0;
+    for (const calendar of calendars) {
+      for (const day of calendar.days) {
+        const entry = day.platforms[platform];
+        if (!entry || entry.status !== "published" || !entry.performance) continue;
+        const reward = computeEntryReward(entry.performance);
+        const urlPath = canonicalizeTakkenaiPath(entry.takkenaiUrl);
+        total += reward;
+        samples++;
+        if (urlPath) addSample(urls, urlPath, reward);
+        if (isCoreArticleType(entry.articleType)) {
+          addSample(articleTypes, entry.articleType, reward);
+          if (urlPath) addSample(combos, `${urlPath}|${entry.articleType}`, reward);
+        }
+      }
+    }
+    const mean = samples > 0 ? total / samples : 0;
+    weights.samples += samples;
+    weights.platformMeans[platform] = Math.round(mean * 100) / 100;
+    weights.urls[platform] = toArmStats(urls, mean);
+    weights.articleTypes[platform] = toArmStats(articleTypes, mean);
+    weights.combos[platform] = toArmStats(combos, mean);
+  }
+  return weights;
+}
+
+// ---------------------------------------------------------------------------
+// Persistence
+// ---------------------------------------------------------------------------
+
+const DEFAULT_WEIGHTS_FILE = path.join(process.cwd(), "data", "performance-weights.json");
+
+let cachedWeights: PerformanceWeights | null = null;
+let cachedPath = "";
+let cachedMtimeMs = 0;
+
+function resolveWeightsFilePath(): string {
+  const fromEnv = (process.env.PERFORMANCE_WEIGHTS_FILE || "").trim();
+  if (!fromEnv) return DEFAULT_WEIGHTS_FILE;
+  return path.isAbsolute(fromEnv) ? fromEnv : path.join(process.cwd(), fromEnv);
+}
+
+/** Current multipliers, or null before any outcome was recorded. */
+export function loadPerformanceWeights(): PerformanceWeights | null {
+  const filePath = resolveWeightsFilePath();
+  if (!fs.existsSync(filePath)) return null;
+  const stat = fs.statSync(filePath);
+  if (cachedPath === filePath && cachedMtimeMs === stat.mtimeMs) {
+    return cachedWeights;
+  }
+  try {
+    cachedWeights = JSON.parse(fs.readFileSync(filePath, "utf-8")) as PerformanceWeights;
+  } catch {
+    cachedWeights = null;
+  }
+  cachedPath = filePath;
+  cachedMtimeMs = stat.mtimeMs;
+  return cachedWeights;
+}
+
+export function savePerformanceWeights(weights: PerformanceWeights): void {
+  writeJsonAtomic(resolveWeightsFilePath(), weights);
+  clearPerformanceWeightsCache();
+}
+
+export function clearPerformanceWeightsCache(): void {
+  cachedWeights = null;
+  cachedPath = "";
+  cachedMtimeMs = 0;
+}
+
+// ---------------------------------------------------------------------------
+// Lookups used by topic selection and generation
+// ---------------------------------------------------------------------------
+
+/** Per-path weight multipliers for traffic URL picks on a platform. */
+export function getUrlWeightMultipliers(platform: Platform): Record<string, number> | undefined {
+  const arms = loadPerformanceWeights()?.urls?.[platform];
+  if (!arms || Object.keys(arms).length === 0) return undefined;
+  const multipliers: Record<string, number> = {};
+  for (const key of Object.keys(arms)) multipliers[key] = arms[key].multiplier;
+  return multipliers;
+}
+
+/**
+ * The article type that has performed best for this URL on this platform
+ * (falling back to the platform-wide article type stats). Stays with
+ * `fallback` unless another type beats it clearly.
+ */
+export function choosePerformanceArticleType(
+  platform: Platform,
+  takkenaiUrl: string,
+  fallback: CoreArticleType
+): CoreArticleType {
+  const weights = loadPerformanceWeights();
+  if (!weights) return fallback;
+  const urlPath = canonicalizeTakkenaiPath(takkenaiUrl);
+  const scoreOf = (type: CoreArticleType): number =>
+    weights.combos?.[platform]?.[`${urlPath}|${type}`]?.multiplier ??
+    weights.articleTypes?.[platform]?.[type]?.multiplier ??
+    1;
+
+  let best = fallback;
+  let bestScore = scoreOf(fallback) * ARTICLE_TYPE_SWITCH_MARGIN;
+  for (const option of ARTICLE_TYPE_OPTIONS) {
+    if (!isCoreArticleType(option.id) || option.id === fallback) continue;
+    const score = scoreOf(option.id);
+    if (score > bestScore) {
+      best = option.id;
+      bestScore = score;
+    }
+  }
+  return best;
+}
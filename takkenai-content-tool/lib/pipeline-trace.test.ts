@@ -0,0 +1,136 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import {
+  annotateTraceStep,
+  getPipelineTraceFilePath,
+  listPipelineTraces,
+  recordModelAttempt,
+  recordSanitizerEffect,
+  recordTraceStep,
+  traceStep,
+  tracePipelineRun,
+  type PipelineTraceTarget,
+} from "./pipeline-trace";
+
+function createTarget(): PipelineTraceTarget {
+  return {
+    generatedDir: fs.mkdtempSync(path.join(os.tmpdir(), "pipeline-trace-")),
+    date: "2026-03-01",
+    platform: "ameba",
+    contentKey: "standard",
+  };
+}
+
+test("steps nest across awaits and collect issues, model fallbacks and sanitizer effects", async () => {
+  const target = createTarget();
+  const { result, trace } = await tracePipelineRun(target, async () => {
+    recordTraceStep("topic-resolution", { durationMs: 5, output: { assetType: "tool" } });
+    return traceStep("generate-attempt", { label: "attempt 1/2" }, async () => {
+      await traceStep(
+        "draft",
+        { input: { promptChars: 1200 } },
+        async () => {
+          recordModelAttempt(["model-a", "model-b"], {
+            model: "model-a",
+            attempt: 1,
+            outcome: "fallback",
+            durationMs: 10,
+            error: new Error("no endpoints found"),
+            fallbackTo: "model-b",
+          });
+          await new Promise((resolve) => setTimeout(resolve, 1));
+          recordModelAttempt(["model-a", "model-b"], {
+            model: "model-b",
+            attempt: 1,
+            outcome: "ok",
+            durationMs: 20,
+          });
+          recordSanitizerEffect("removeNonReaderFacingArtifacts", "本文\nSEO対策: メモ", "本文");
+          recordSanitizerEffect("removeNonReaderFacingArtifacts", "abc", "ab");
+          recordSanitizerEffect("stripForeignUrls", "same", "same");
+          annotateTraceStep({ model: "model-b" });
+          return "draft";
+        },
+        () => ({ output: { bodyChars: 2 } })
+      );
+      await traceStep(
+        "review",
+        { label: "round 1" },
+        async () => ({ passed: false, issues: ["見出し直後の説明が不足しています"] }),
+        (review) => ({ status: review.passed ? "ok" : "failed", issues: review.issues })
+      );
+      return "content";
+    });
+  });
+
+  assert.equal(result, "content");
+  assert.equal(trace.status, "succeeded");
+  assert.deepEqual(
+    trace.steps.map((step) => [step.name, step.depth]),
+    [
+      ["topic-resolution", 0],
+      ["generate-attempt", 0],
+      ["draft", 1],
+      ["review", 1],
+    ]
+  );
+  const draft = trace.steps[2];
+  assert.deepEqual(draft.modelCandidates, ["model-a", "model-b"]);
+  assert.deepEqual(
+    draft.modelAttempts?.map((attempt) => [attempt.model, attempt.outcome, attempt.fallbackTo]),
+    [
+      ["model-a", "fallback", "model-b"],
+      ["model-b", "ok", undefined],
+    ]
+  );
+  assert.equal(draft.modelAttempts?.[0].error, "no endpoints found");
+  assert.deepEqual(draft.sanitizers, [
+    { name: "removeNonReaderFacingArtifacts", runs: 2, charDelta: -11 },
+  ]);
+  assert.deepEqual(draft.output, { model: "model-b", bodyChars: 2 });
+  assert.equal(trace.steps[3].status, "failed");
+  assert.deepEqual(trace.steps[3].issues, ["見出し直後の説明が不足しています"]);
+
+  assert.ok(fs.existsSync(getPipelineTraceFilePath(target)));
+  assert.equal(listPipelineTraces(target)[0].id, trace.id);
+});
+
+test("failed runs are persisted with the failing step and only the latest runs are kept", async () => {
+  const target = createTarget();
+  await assert.rejects(
+    tracePipelineRun(target, () =>
+      traceStep("final-check", {}, async () => {
+        throw new Error("[ameba] 最終品質チェック失敗: 中国語が混入しています");
+      })
+    )
+  );
+  const [failed] = listPipelineTraces(target);
+  assert.equal(failed.status, "failed");
+  assert.match(failed.error || "", /最終品質チェック失敗/);
+  assert.equal(failed.steps[0].status, "failed");
+
+  for (let i = 0; i < 12; i++) {
+    await tracePipelineRun(target, async () => recordTraceStep("research", { status: "skipped" }));
+  }
+  const traces = listPipelineTraces(target);
+  assert.equal(traces.length, 10);
+  assert.ok(traces.every((trace) => trace.status === "succeeded"));
+});
+
+test("recording is a no-op outside a traced run and long values are cut to previews", async () => {
+  assert.equal(await traceStep("research", {}, async () => "plain"), "plain");
+  recordTraceStep("research", { status: "skipped" });
+  recordModelAttempt(["m"], { model: "m", attempt: 1, outcome: "ok", durationMs: 1 });
+
+  const target = createTarget();
+  const { trace } = await tracePipelineRun(target, async () =>
+    recordTraceStep("research", { output: { preview: "あ".repeat(500), missing: undefined } })
+  );
+  const preview = String(trace.steps[0].output?.preview);
+  assert.equal(preview.length, 301);
+  assert.equal("missing" in (trace.steps[0].output || {}), false);
+});
@@ -0,0 +1,373 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { AsyncLocalStorage } from "async_hooks";
+import type { Platform } from "./topic-engine";
+import { getContentFileBase, type ContentKey } from "./content-variant";
+import { writeJsonAtomic } from "./json-file";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type PipelineTraceStepName =
+  | "topic-resolution"
+  | "generate-attempt"
+  | "research"
+  | "draft"
+  | "review"
+  | "compliance-fix"
+  | "final-check"
+  | "auto-sanitize"
+  | "emergency-regeneration"
+  | "contamination-rescue"
+  | "platform-compliance"
+  | "seo-geo-scoring"
+  | "chatgpt-search-revision"
+  | "ai-review"
+  | "translation";
+
+export type PipelineTraceStepStatus = "ok" | "failed" | "skipped";
+
+/** Small, display-only values: long strings are cut to a preview */
+export type PipelineTraceValue = string | number | boolean | null | string[];
+export type PipelineTraceFields = Record<string, PipelineTraceValue | undefined>;
+
+/** One call to a writing-model candidate (see resolveWritingModelCandidates) */
+export interface PipelineModelAttempt {
+  model: string;
+  /** 1-based retry counter for this candidate */
+  attempt: number;
+  outcome: "ok" | "retry" | "fallback" | "failed";
+  durationMs: number;
+  error?: string;
+  /** Next candidate when outcome is "fallback" */
+  fallbackTo?: string;
+}
+
+/** Net text change made by a deterministic sanitizer inside a step */
+export interface PipelineSanitizerEffect {
+  name: string;
+  /** Runs that actually changed the text */
+  runs: number;
+  /** Sum of (after - before) characters; negative when text was removed */
+  charDelta: number;
+}
+
+export interface PipelineTraceStep {
+  name: PipelineTraceStepName;
+  /** e.g. "round 2" for review rounds */
+  label?: string;
+  /** Nesting level (steps inside a generate attempt are depth 1) */
+  depth: number;
+  startedAt: string;
+  durationMs: number;
+  status: PipelineTraceStepStatus;
+  input?: Record<string, PipelineTraceValue>;
+  output?: Record<string, PipelineTraceValue>;
+  issues?: string[];
+  modelCandidates?: string[];
+  modelAttempts?: PipelineModelAttempt[];
+  sanitizers?: PipelineSanitizerEffect[];
+  error?: string;
+}
+
+export interface PipelineTrace {
+  id: string;
+  date: string;
+  platform: Platform;
+  contentKey: ContentKey;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  status: "succeeded" | "failed";
+  error?: string;
+  steps: PipelineTraceStep[];
+}
+
+interface PipelineTraceFile {
+  version: "v1";
+  date: string;
+  platform: Platform;
+  contentKey: ContentKey;
+  /** Oldest first, capped at MAX_TRACES_PER_CONTENT */
+  traces: PipelineTrace[];
+}
+
+export interface PipelineTraceTarget {
+  generatedDir: string;
+  date: string;
+  platform: Platform;
+  contentKey: ContentKey;
+}
+
+// ---------------------------------------------------------------------------
+// Recording (per run, across awaits)
+// ---------------------------------------------------------------------------
+
+const PREVIEW_MAX_CHARS = 300;
+const MAX_ISSUES_PER_STEP = 30;
+
+type TraceScope = {
+  trace: PipelineTrace;
+  step: PipelineTraceStep | null;
+  depth: number;
+};
+
+const traceStorage = new AsyncLocalStorage<TraceScope>();
+
+function toPreview(value: string): string {
+  const normalized = value.replace(/\s+/g, " ").trim();
+  return normalized.length > PREVIEW_MAX_CHARS
+    ? `${normalized.slice(0, PREVIEW_MAX_CHARS)}…`
+    : normalized;
+}
+
+function compactFields(
+  fields: PipelineTraceFields | undefined
+): Record<string, PipelineTraceValue> | undefined {
+  if (!fields) return undefined;
+  const out: Record<string, PipelineTraceValue> = {};
+  for (const [key, value] of Object.entries(fields)) {
+    if (value === undefined) continue;
+    if (typeof value === "string") {
+      out[key] = toPreview(value);
+    } else if (Array.isArray(value)) {
+      out[key] = value.slice(0, MAX_ISSUES_PER_STEP).map(toPreview);
+    } else {
+      out[key] = value;
+    }
+  }
+  return Object.keys(out).length > 0 ? out : undefined;
+}
+
+function compactIssues(issues: string[] | undefined): string[] | undefined {
+  if (!issues || issues.length === 0) return undefined;
+  return issues.slice(0, MAX_ISSUES_PER_STEP).map(toPreview);
+}
+
+function errorMessage(error: unknown): string {
+  return toPreview(error instanceof Error ? error.message : String(error));
+}
+
+export interface PipelineStepDetail {
+  label?: string;
+  status?: PipelineTraceStepStatus;
+  input?: PipelineTraceFields;
+  output?: PipelineTraceFields;
+  issues?: string[];
+}
+
+/** true while running inside tracePipelineRun */
+export function isPipelineTraceActive(): boolean {
+  return Boolean(traceStorage.getStore());
+}
+
+/**
+ * Runs one pipeline step and records its duration, status and details.
+ * `describe` turns the step result into output/issues for the timeline.
+ * Outside a traced run this is a plain call.
+ */
+export async function traceStep<T>(
+  name: PipelineTraceStepName,
+  detail: Omit<PipelineStepDetail, "output" | "issues" | "status">,
+  run: () => Promise<T>,
+  describe?: (result: T) => Omit<PipelineStepDetail, "label" | "input">
+): Promise<T> {
+  const scope = traceStorage.getStore();
+  if (!scope) return run();
+
+  const startedAt = Date.now();
+  const step: PipelineTraceStep = {
+    name,
+    ...(detail.label ? { label: detail.label } : {}),
+    depth: scope.depth,
+    startedAt: new Date(startedAt).toISOString(),
+    durationMs: 0,
+    status: "ok",
+    ...(detail.input ? { input: compactFields(detail.input) } : {}),
+  };
+  scope.trace.steps.push(step);
+  try {
+    const result = await traceStorage.run(
+      { trace: scope.trace, step, depth: scope.depth + 1 },
+      run
+    );
+    const described = describe ? describe(result) : {};
+    step.status = described.status || "ok";
+    const output = compactFields(described.output);
+    if (output) step.output = { ...(step.output || {}), ...output };
+    const issues = compactIssues(described.issues);
+    if (issues) step.issues = issues;
+    return result;
+  } catch (error) {
+    step.status = "failed";
+    step.error = errorMessage(error);
+    throw error;
+  } finally {
+    step.durationMs = Date.now() - startedAt;
+  }
+}
+
+/**
+ * Records a synchronous step (a deterministic check or sanitizer pass) that
+ * has already finished.
+ */
+export function recordTraceStep(
+  name: PipelineTraceStepName,
+  detail: PipelineStepDetail & { durationMs?: number }
+): void {
+  const scope = traceStorage.getStore();
+  if (!scope) return;
+  const durationMs = Math.max(0, detail.durationMs || 0);
+  const issues = compactIssues(detail.issues);
+  const input = compactFields(detail.input);
+  const output = compactFields(detail.output);
+  scope.trace.steps.push({
+    name,
+    ...(detail.label ? { label: detail.label } : {}),
+    depth: scope.depth,
+    startedAt: new Date(Date.now() - durationMs).toISOString(),
+    durationMs,
+    status: detail.status || "ok",
+    ...(input ? { input } : {}),
+    ...(output ? { output } : {}),
+    ...(issues ? { issues } : {}),
+  });
+}
+
+/** Adds output fields to the step currently running (no-op outside a step). */
+export function annotateTraceStep(output: PipelineTraceFields): void {
+  const step = traceStorage.getStore()?.step;
+  if (!step) return;
+  const compacted = compactFields(output);
+  if (compacted) step.output = { ...(step.output || {}), ...compacted };
+}
+
+/** Called by the model fallback loop for every candidate attempt. */
+export function recordModelAttempt(
+  candidates: string[],
+  attempt: Omit<PipelineModelAttempt, "error"> & { error?: unknown }
+): void {
+  const step = traceStorage.getStore()?.step;
+  if (!step) return;
+  step.modelCandidates = [...candidates];
+  step.modelAttempts = step.modelAttempts || [];
+  step.modelAttempts.push({
+    model: attempt.model,
+    attempt: attempt.attempt,
+    outcome: attempt.outcome,
+    durationMs: attempt.durationMs,
+    ...(attempt.error !== undefined ? { error: errorMessage(attempt.error) } : {}),
+    ...(attempt.fallbackTo ? { fallbackTo: attempt.fallbackTo } : {}),
+  });
+}
+
+/**
+ * Counts what a sanitizer changed, so the timeline shows which passes
+ * (e.g. removeNonReaderFacingArtifacts) actually rewrote the draft.
+ */
+export function recordSanitizerEffect(name: string, before: string, after: string): void {
+  const step = traceStorage.getStore()?.step;
+  if (!step || before === after) return;
+  step.sanitizers = step.sanitizers || [];
+  const existing = step.sanitizers.find((item) => item.name === name);
+  const delta = after.length - before.length;
+  if (existing) {
+    existing.runs += 1;
+    existing.charDelta += delta;
+  } else {
+    step.sanitizers.push({ name, runs: 1, charDelta: delta });
+  }
+}
+
+/**
+ * Runs one generation while collecting its steps, then appends the trace
+ * to the content's trace file (also when the run fails: that is when the
+ * trace is needed most).
+ */
+export async function tracePipelineRun<T>(
+  target: PipelineTraceTarget,
+  run: () => Promise<T>
+): Promise<{ result: T; trace: PipelineTrace }> {
+  const startedAt = Date.now();
+  const trace: PipelineTrace = {
+    id: `trace-${startedAt.toString(36)}-${crypto.randomBytes(3).toString("hex")}`,
+    date: target.date,
+    platform: target.platform,
+    contentKey: target.contentKey,
+    startedAt: new Date(startedAt).toISOString(),
+    finishedAt: "",
+    durationMs: 0,
+    status: "succeeded",
+    steps: [],
+  };
+  const finish = (error?: unknown) => {
+    trace.finishedAt = new Date().toISOString();
+    trace.durationMs = Date.now() - startedAt;
+    if (error !== undefined) {
+      trace.status = "failed";
+      trace.error = errorMessage(error);
+    }
+    try {
+      appendPipelineTrace(target, trace);
+    } catch (writeError) {
+      console.warn(`[${target.platform}] failed to persist pipeline trace:`, writeError);
+    }
+  };
+
+  let result: T;
+  try {
+    result = await traceStorage.run({ trace, step: null, depth: 0 }, run);
+  } catch (error) {
+    finish(error);
+    throw error;
+  }
+  finish();
+  return { result, trace };
+}
+
+// ---------------------------------------------------------------------------
+// Storage (<generatedDir>/traces/<fileBase>.json)
+// ---------------------------------------------------------------------------
+
+const TRACES_DIR_NAME = "traces";
+const MAX_TRACES_PER_CONTENT = 10;
+
+export function getPipelineTraceFilePath(target: PipelineTraceTarget): string {
+  return path.join(
+    target.generatedDir,
+    TRACES_DIR_NAME,
+    `${getContentFileBase(target.date, target.platform, target.contentKey)}.json`
+  );
+}
+
+function readTraceFile(target: PipelineTraceTarget): PipelineTraceFile {
+  const filePath = getPipelineTraceFilePath(target);
+  const empty: PipelineTraceFile = {
+    version: "v1",
+    date: target.date,
+    platform: target.platform,
+    contentKey: target.contentKey,
+    traces: [],
+  };
+  if (!fs.existsSync(filePath)) return empty;
+  try {
+    const parsed = JSON.parse(fs.readFileSync(filePath, "utf-8")) as Partial<PipelineTraceFile>;
+    return { ...empty, traces: Array.isArray(parsed.traces) ? parsed.traces : [] };
+  } catch {
+    // Traces are diagnostics only: a broken file is replaced by the next run.
+    return empty;
+  }
+}
+
+export function appendPipelineTrace(target: PipelineTraceTarget, trace: PipelineTrace): void {
+  const file = readTraceFile(target);
+  file.traces = [...file.traces, trace].slice(-MAX_TRACES_PER_CONTENT);
+  writeJsonAtomic(getPipelineTraceFilePath(target), file);
+}
+
+/** Stored traces, newest first. */
+export function listPipelineTraces(target: PipelineTraceTarget): PipelineTrace[] {
+  return readTraceFile(target).traces.slice().reverse();
+}
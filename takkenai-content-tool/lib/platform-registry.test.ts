@@ -0,0 +1,127 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import { clearCalendarStoreCache } from "./calendar-store";
+import { getDayPlatforms, getOrCreateCalendar, updatePlatformEntry } from "./calendar-engine";
+import {
+  PLATFORM_IDS,
+  getPlatformDefinition,
+  listPlatforms,
+  platformsOf,
+  type Platform,
+} from "./platform-registry";
+import { getPlatformPrompt } from "./prompts";
+import { composeBodyPublishPayload } from "./publish-composer";
+import { getEnabledPlatforms } from "./site-config";
+import { generateDayTopics } from "./topic-engine";
+import { splitIntoThread, xWeightedLength, X_POST_MAX_WEIGHT } from "./x-thread";
+
+const ENV_KEYS = [
+  "CALENDAR_STORE_BACKEND",
+  "CALENDAR_STORE_FILE",
+  "NOTE_INTERNAL_LINK_POOL_FILE",
+  "SITE_MANIFEST_DIR",
+] as const;
+
+function withTempSite(run: (writeManifest: (manifest: unknown) => void) => void): void {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "platform-registry-"));
+  const previousEnv = ENV_KEYS.map((name) => [name, process.env[name]] as const);
+  process.env.CALENDAR_STORE_BACKEND = "json";
+  process.env.CALENDAR_STORE_FILE = path.join(tmpDir, "calendar.json");
+  process.env.NOTE_INTERNAL_LINK_POOL_FILE = path.join(tmpDir, "note-pool.json");
+  process.env.SITE_MANIFEST_DIR = tmpDir;
+  clearCalendarStoreCache();
+  try {
+    run((manifest) =>
+      fs.writeFileSync(path.join(tmpDir, "takkenai-jp.json"), JSON.stringify(manifest), "utf-8")
+    );
+  } finally {
+    for (const [name, value] of previousEnv) {
+      if (value === undefined) delete process.env[name];
+      else process.env[name] = value;
+    }
+    clearCalendarStoreCache();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  }
+}
+
+test("every registered platform has a prompt and only the original three are on by default", () => {
+  for (const platform of PLATFORM_IDS) {
+    const definition = getPlatformDefinition(platform);
+    assert.equal(definition.id, platform);
+    assert.ok(definition.targetLength.min < definition.targetLength.max);
+    assert.ok(getPlatformPrompt(platform).systemPrompt.length > 0);
+  }
+  assert.deepEqual(getEnabledPlatforms(), ["ameba", "note", "hatena"]);
+  const requested: Platform[] = ["x", "ameba"];
+  assert.deepEqual(listPlatforms(requested), ["ameba", "x"]);
+  assert.deepEqual(platformsOf({ qiita: 1, note: 2 }), ["note", "qiita"]);
+});
+
+test("all six platforms get their own topic for the same day", () => {
+  const topics = generateDayTopics("2026-07-15", 0, { platforms: [...PLATFORM_IDS] });
+  assert.deepEqual(platformsOf(topics.platforms), [...PLATFORM_IDS]);
+  assert.deepEqual(platformsOf(topics.motherTopics), [...PLATFORM_IDS]);
+  const urls = PLATFORM_IDS.map((platform) => topics.motherTopics[platform]!.takkenaiUrl);
+  assert.equal(new Set(urls).size, urls.length);
+
+  const subset = generateDayTopics("2026-07-15", 0, { platforms: ["x"] });
+  assert.deepEqual(platformsOf(subset.platforms), ["x"]);
+});
+
+test("X threads respect the weighted 280 limit and keep URLs whole", () => {
+  assert.equal(xWeightedLength("宅建abc"), 7);
+  assert.equal(xWeightedLength("詳しくは https://takkenai.jp/tools/loan/?utm_source=x"), 8 + 1 + 23);
+
+  assert.deepEqual(splitIntoThread("## 見出し\n\n短い本文です。"), [
+    "見出し (1/2)",
+    "短い本文です。 (2/2)",
+  ]);
+  assert.deepEqual(splitIntoThread("一つだけの投稿。"), ["一つだけの投稿。"]);
+
+  const sentence = "重要事項説明は契約の前に宅建士が行います。";
+  const body = [
+    sentence.repeat(12),
+    "あ".repeat(300),
+    "参考: [ローン計算](https://takkenai.jp/tools/loan/)",
+  ].join("\n\n");
+  const thread = splitIntoThread(body);
+  assert.ok(thread.length > 4);
+  thread.forEach((post, index) => {
+    assert.ok(xWeightedLength(post) <= X_POST_MAX_WEIGHT, post);
+    assert.ok(post.endsWith(` (${index + 1}/${thread.length})`));
+  });
+  // Long paragraphs break at sentence ends; the link survives as a bare URL.
+  assert.ok(thread[0].startsWith(sentence) && thread[0].includes(`${sentence} (1/`));
+  assert.match(thread[thread.length - 1], /^参考: ローン計算 https:\/\/takkenai\.jp\/tools\/loan\/ \(/);
+
+  const composed = composeBodyPublishPayload({ title: "t", body, platform: "x" });
+  assert.equal(composed.format, "thread");
+  assert.deepEqual(composed.thread, thread);
+  assert.equal(composeBodyPublishPayload({ title: "t", body, platform: "hatena" }).thread, undefined);
+});
+
+test("enabling and disabling platforms in the manifest reconciles the calendar", () => {
+  withTempSite((writeManifest) => {
+    const initial = getOrCreateCalendar(2026, 7);
+    assert.deepEqual(getDayPlatforms(initial.days[0]), ["ameba", "note", "hatena"]);
+    updatePlatformEntry(2026, 7, 3, "hatena", { status: "generated" });
+
+    writeManifest({ platforms: { hatena: { enabled: false }, x: { enabled: true } } });
+    const reconciled = getOrCreateCalendar(2026, 7);
+    assert.deepEqual(getDayPlatforms(reconciled.days[0]), ["ameba", "note", "x"]);
+    // Generated work is never thrown away, nor re-planned.
+    assert.deepEqual(getDayPlatforms(reconciled.days[2]), ["ameba", "note", "hatena", "x"]);
+    for (const day of reconciled.days) {
+      assert.equal(day.platforms.x!.status, "pending");
+      assert.ok(day.motherTopics.x!.takkenaiUrl);
+    }
+    assert.equal(
+      reconciled.days[2].platforms.hatena!.takkenaiUrl,
+      initial.days[2].platforms.hatena!.takkenaiUrl
+    );
+  });
+});
@@ -0,0 +1,275 @@
+/**
+ * Platform registry.
+ *
+ * Every publishing target is described here once: labels, length targets,
+ * link compliance, cover image settings and how the finished article is
+ * handed over for publishing. Prompt builders live next to the other
+ * prompts (lib/prompts/index.ts) because they are server-only; everything
+ * in this file is plain data and safe to import from client components.
+ *
+ * Adding a platform: add its id to PLATFORM_IDS, a definition below and a
+ * prompt builder in lib/prompts — the compiler points at every other
+ * per-platform table that needs an entry. New platforms start disabled;
+ * a site turns them on with `platforms.<id>.enabled` in its manifest.
+ */
+
+export const PLATFORM_IDS = ["ameba", "note", "hatena", "wordpress", "qiita", "x"] as const;
+
+export type Platform = (typeof PLATFORM_IDS)[number];
+
+/** Per-platform values for the platforms a day / site actually uses. */
+export type PlatformMap<T> = Partial<Record<Platform, T>>;
+
+/** How the article is handed over on the publish screen. */
+export type PublishFormat = "rich-text" | "markdown" | "thread";
+
+export interface PlatformComplianceProfile {
+  maxLinks: number;
+  allowExternalDomains: string[];
+  allowShorteners: boolean;
+  maxCtaLines: number;
+  bannedPatterns: RegExp[];
+  preferredLinkStyle: string[];
+  placementRules: {
+    avoidFirstParagraph: boolean;
+    preferSectionEnd: boolean;
+  };
+}
+
+export interface PlatformImageConfig {
+  /** Image size for the API (e.g. "1536x1024") */
+  size: string;
+  /** Style guidance for the image generation prompt */
+  styleGuidance: string;
+}
+
+export interface PlatformDefinition {
+  id: Platform;
+  /** Japanese label for plans and prompts, e.g. "Ameba（アメブロ）" */
+  label: string;
+  /** Short label for badges and tables */
+  shortLabel: string;
+  /** The content angle/approach for this platform */
+  angle: string;
+  /** Target character count of the body */
+  targetLength: { min: number; max: number };
+  /** Whether a site without a `platforms.<id>` manifest entry publishes here */
+  defaultEnabled: boolean;
+  /** Seed offset so each platform gets its own daily topic (primes) */
+  topicSeedOffset: number;
+  /** FAQ questions the SEO/GEO pass requires (0 = no FAQ section) */
+  requiredFaqCount: number;
+  publishFormat: PublishFormat;
+  compliance: PlatformComplianceProfile;
+  image: PlatformImageConfig;
+}
+
+const SINGLE_LINK_RULES = {
+  maxLinks: 1,
+  allowExternalDomains: [],
+  allowShorteners: false,
+  placementRules: {
+    avoidFirstParagraph: true,
+    preferSectionEnd: true,
+  },
+};
+
+export const PLATFORM_REGISTRY: Record<Platform, PlatformDefinition> = {
+  ameba: {
+    id: "ameba",
+    label: "Ameba（アメブロ）",
+    shortLabel: "Ameba",
+    angle: "場面別やさしい解説 / 実務ヒント",
+    targetLength: { min: 800, max: 1200 },
+    defaultEnabled: true,
+    topicSeedOffset: 0,
+    requiredFaqCount: 1,
+    publishFormat: "rich-text",
+    compliance: {
+      ...SINGLE_LINK_RULES,
+      maxCtaLines: 2,
+      bannedPatterns: [/今すぐやらないと損/, /絶対に合格/, /必ず稼げる/],
+      preferredLinkStyle: [
+        "本文の流れに沿う補足リンク",
+        "末尾の自然な学習導線",
+      ],
+    },
+    image: {
+      size: "1792x1024",
+      styleGuidance:
+        "アメブロのブログヘッダー画像。明るくポップなアニメ・イラスト風。" +
+        "記事タイトルを大きく目立つ日本語テキストとして画像内に配置する。" +
+        "暖色系（オレンジ、イエロー、ピンク）をベースに、" +
+        "宅建・不動産学習に関連するアイコンやキャラクターイラストを添える。" +
+        "親しみやすく、スマホで見ても目を引くデザイン。" +
+        "サブタイトルやキーポイントも小さめのテキストで入れる。",
+    },
+  },
+  note: {
+    id: "note",
+    label: "note",
+    shortLabel: "note",
+    angle: "深掘り分析 / 実務視点",
+    targetLength: { min: 2000, max: 3000 },
+    defaultEnabled: true,
+    topicSeedOffset: 997,
+    requiredFaqCount: 2,
+    publishFormat: "rich-text",
+    compliance: {
+      ...SINGLE_LINK_RULES,
+      maxCtaLines: 2,
+      bannedPatterns: [/登録しないと損/, /無料で稼ぐ/, /今すぐクリック/],
+      preferredLinkStyle: [
+        "検証内容の参考リンク",
+        "読後の補助資料リンク",
+      ],
+    },
+    image: {
+      size: "1792x1024",
+      styleGuidance:
+        "noteの記事ヘッダー画像。洗練されたプロフェッショナルなデザイン。" +
+        "記事タイトルを大きな日本語テキストとして画像の中心に配置する。" +
+        "落ち着いたブルーやネイビー系の配色。" +
+        "サブタイトルや要点を小さめテキストで添える。" +
+        "不動産やAIに関連するアイコン、建物のシルエット、グラフ要素を背景に。" +
+        "知的で信頼感のあるデザイン。",
+    },
+  },
+  hatena: {
+    id: "hatena",
+    label: "はてなブログ",
+    shortLabel: "はてな",
+    angle: "完全ガイド / 保存版まとめ",
+    targetLength: { min: 1500, max: 3000 },
+    defaultEnabled: true,
+    topicSeedOffset: 1999,
+    requiredFaqCount: 2,
+    publishFormat: "markdown",
+    compliance: {
+      ...SINGLE_LINK_RULES,
+      maxCtaLines: 2,
+      bannedPatterns: [/今すぐ登録/, /限定オファー/, /絶対に得する/],
+      preferredLinkStyle: [
+        "関連ツール・リソース節の補助リンク",
+        "解説末尾の参考リンク",
+      ],
+    },
+    image: {
+      size: "1792x1024",
+      styleGuidance:
+        "はてなブログのアイキャッチ画像。情報的で構造化されたインフォグラフィック風。" +
+        "記事タイトルを大きな日本語テキストとして配置する。" +
+        "キーポイントを箇条書きや番号付きで画像内にレイアウトする。" +
+        "ブルーとホワイトを基調に、アクセントカラーでハイライト。" +
+        "データ可視化要素（テーブル風、フローチャート風）を背景に。" +
+        "「保存版」「完全ガイド」感のある体系的なデザイン。",
+    },
+  },
+  wordpress: {
+    id: "wordpress",
+    label: "WordPressブログ",
+    shortLabel: "WordPress",
+    angle: "検索流入向け解説 / 手順ガイド",
+    targetLength: { min: 2500, max: 4000 },
+    defaultEnabled: false,
+    topicSeedOffset: 3001,
+    requiredFaqCount: 2,
+    publishFormat: "rich-text",
+    compliance: {
+      ...SINGLE_LINK_RULES,
+      maxCtaLines: 2,
+      bannedPatterns: [/今すぐ申し込/, /期間限定/, /絶対に損しない/],
+      preferredLinkStyle: [
+        "手順説明の直後に置く補助リンク",
+        "まとめ節の参考リンク",
+      ],
+    },
+    image: {
+      size: "1792x1024",
+      styleGuidance:
+        "WordPressブログ記事のアイキャッチ画像。検索結果やSNSで見栄えする横長デザイン。" +
+        "記事タイトルを大きな日本語テキストとして左寄せで配置する。" +
+        "グリーンとホワイトを基調に、手順や比較を示すアイコンを添える。" +
+        "清潔感があり、解説記事として信頼できるデザイン。",
+    },
+  },
+  qiita: {
+    id: "qiita",
+    label: "Qiita（技術記事）",
+    shortLabel: "Qiita",
+    angle: "計算ロジック解説 / 実装視点",
+    targetLength: { min: 1500, max: 3000 },
+    defaultEnabled: false,
+    topicSeedOffset: 4001,
+    requiredFaqCount: 1,
+    publishFormat: "markdown",
+    compliance: {
+      ...SINGLE_LINK_RULES,
+      maxCtaLines: 1,
+      bannedPatterns: [/無料登録/, /今すぐ使って/, /稼げる/, /お得/],
+      preferredLinkStyle: [
+        "参考実装・参考ツールとしてのリンク",
+        "末尾の参考文献リンク",
+      ],
+    },
+    image: {
+      size: "1792x1024",
+      styleGuidance:
+        "技術記事向けのヘッダー画像。ダークな背景にコードエディタ風の要素と数式・フローチャートを配置する。" +
+        "記事タイトルを日本語テキストで中央に配置する。" +
+        "グリーンとグレーを基調に、装飾は控えめでエンジニアに好まれるデザイン。",
+    },
+  },
+  x: {
+    id: "x",
+    label: "X（スレッド）",
+    shortLabel: "X",
+    angle: "要点スレッド / ひとこと解説",
+    targetLength: { min: 300, max: 900 },
+    defaultEnabled: false,
+    topicSeedOffset: 5003,
+    requiredFaqCount: 0,
+    publishFormat: "thread",
+    compliance: {
+      ...SINGLE_LINK_RULES,
+      maxCtaLines: 1,
+      placementRules: {
+        avoidFirstParagraph: true,
+        preferSectionEnd: false,
+      },
+      bannedPatterns: [/拡散希望/, /今すぐフォロー/, /絶対に受かる/, /RTで/],
+      preferredLinkStyle: ["スレッド最後の投稿に置く参考リンク"],
+    },
+    image: {
+      size: "1792x1024",
+      styleGuidance:
+        "Xのタイムラインで目を引く横長の画像。要点を1つだけ大きな日本語テキストで示す。" +
+        "コントラストの強い配色（ブラック、ホワイト、アクセントにブルー）。" +
+        "文字は少なく、スマホの小さな表示でも読めるデザイン。",
+    },
+  },
+};
+
+export function isPlatform(value: unknown): value is Platform {
+  return typeof value === "string" && (PLATFORM_IDS as readonly string[]).includes(value);
+}
+
+export function getPlatformDefinition(platform: Platform): PlatformDefinition {
+  return PLATFORM_REGISTRY[platform];
+}
+
+export function getPlatformLabel(platform: Platform): string {
+  return PLATFORM_REGISTRY[platform].shortLabel;
+}
+
+/** The platforms present in `map`, in display order. */
+export function platformsOf<T>(map: PlatformMap<T>): Platform[] {
+  return PLATFORM_IDS.filter((id) => map[id] !== undefined);
+}
+
+/** Registered platforms in display order, optionally only those in `ids`. */
+export function listPlatforms(ids?: Iterable<Platform>): Platform[] {
+  if (!ids) return [...PLATFORM_IDS];
+  const wanted = new Set(Array.from(ids));
+  return PLATFORM_IDS.filter((id) => wanted.has(id));
+}
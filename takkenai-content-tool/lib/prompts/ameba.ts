@@ -7,6 +7,7 @@
  * 構成: シーン導入→解説→ワンポイント→導線
  * CTA: 記事末尾に takkenai.jp への自然なリンク1つ
  */
+import { cassetteRandom } from "../cassette";
 
 export const AMEBA_SYSTEM_PROMPT = `あなたは「宅建AI」の中の人として、アメブロで宅建受験生に向けたブログ記事を書きます。
 
@@ -140,12 +141,12 @@ const AMEBA_OPENING_STYLES = [
 ];
 
 function pickAmebaCtaTemplate(url: string): string {
-  const idx = Math.floor(Math.random() * AMEBA_CTA_TEMPLATES.length);
+  const idx = Math.floor(cassetteRandom() * AMEBA_CTA_TEMPLATES.length);
   return AMEBA_CTA_TEMPLATES[idx].replace("{{url}}", url);
 }
 
 function pickAmebaOpeningStyle(): string {
-  const idx = Math.floor(Math.random() * AMEBA_OPENING_STYLES.length);
+  const idx = Math.floor(cassetteRandom() * AMEBA_OPENING_STYLES.length);
   return AMEBA_OPENING_STYLES[idx];
 }
 
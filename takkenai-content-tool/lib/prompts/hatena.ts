@@ -7,6 +7,7 @@
  * 構成: H2/H3見出し、リスト（必要ならテーブル）→ まとめ → FAQ
  * リンク: takkenai.jp ツールセクション
  */
+import { cassetteRandom } from "../cassette";
 
 export const HATENA_SYSTEM_PROMPT = `あなたは「不動産AI（takkenai.jp）」のはてなブログ執筆担当として、宅建・不動産に関する「保存版」品質の記事を書きます。
 
@@ -94,12 +95,12 @@ const HATENA_OPENING_STYLES = [
 ];
 
 function pickHatenaCtaTemplate(url: string): string {
-  const idx = Math.floor(Math.random() * HATENA_CTA_TEMPLATES.length);
+  const idx = Math.floor(cassetteRandom() * HATENA_CTA_TEMPLATES.length);
   return HATENA_CTA_TEMPLATES[idx].replace("{{url}}", url);
 }
 
 function pickHatenaOpeningStyle(): string {
-  const idx = Math.floor(Math.random() * HATENA_OPENING_STYLES.length);
+  const idx = Math.floor(cassetteRandom() * HATENA_OPENING_STYLES.length);
   return HATENA_OPENING_STYLES[idx];
 }
 
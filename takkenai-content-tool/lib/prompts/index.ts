@@ -1,10 +1,168 @@
 /**
  * Prompt module index.
  *
- * Re-exports all platform-specific prompts for convenience.
- * The main consumer of these is lib/claude.ts which imports them directly.
+ * PLATFORM_PROMPTS is the prompt half of the platform registry
+ * (lib/platform-registry.ts): system prompt, user prompt builder and the
+ * platform-specific SEO/GEO and review rules lib/claude.ts appends.
  */
 
+import type { NoteViralBrief } from "../note-viral";
+import type { Platform } from "../platform-registry";
+import { AMEBA_SYSTEM_PROMPT, buildAmebaUserPrompt } from "./ameba";
+import { NOTE_SYSTEM_PROMPT, buildNoteUserPrompt } from "./note";
+import { HATENA_SYSTEM_PROMPT, buildHatenaUserPrompt } from "./hatena";
+import { WORDPRESS_SYSTEM_PROMPT, buildWordpressUserPrompt } from "./wordpress";
+import { QIITA_SYSTEM_PROMPT, buildQiitaUserPrompt } from "./qiita";
+import { X_SYSTEM_PROMPT, buildXUserPrompt } from "./x";
+
 export { AMEBA_SYSTEM_PROMPT, buildAmebaUserPrompt } from "./ameba";
 export { NOTE_SYSTEM_PROMPT, buildNoteUserPrompt } from "./note";
 export { HATENA_SYSTEM_PROMPT, buildHatenaUserPrompt } from "./hatena";
+export { WORDPRESS_SYSTEM_PROMPT, buildWordpressUserPrompt } from "./wordpress";
+export { QIITA_SYSTEM_PROMPT, buildQiitaUserPrompt } from "./qiita";
+export { X_SYSTEM_PROMPT, buildXUserPrompt } from "./x";
+export { SNS_DERIVATIVE_SYSTEM_PROMPT, buildSnsDerivativeUserPrompt } from "./sns-derivatives";
+
+export interface PlatformPromptParams {
+  topicLabel: string;
+  assetType: string;
+  phase: string;
+  phaseLabel: string;
+  takkenaiUrl: string;
+  angle: string;
+  secondaryAssetLabel?: string;
+  articleType?: string;
+  articleTypeLabel?: string;
+  articleTypePromptBlock?: string;
+  /** note only */
+  noteViralBrief?: NoteViralBrief;
+  relatedNoteUrl?: string;
+  relatedNoteTitle?: string;
+}
+
+export interface PlatformPrompt {
+  systemPrompt: string;
+  buildUserPrompt: (params: PlatformPromptParams) => string;
+  /** Appended to the SEO / GEO block of the user prompt */
+  geoFormatRules: string[];
+  /** Platform section of the review prompt */
+  reviewRules: string;
+}
+
+export const PLATFORM_PROMPTS: Record<Platform, PlatformPrompt> = {
+  ameba: {
+    systemPrompt: AMEBA_SYSTEM_PROMPT,
+    buildUserPrompt: buildAmebaUserPrompt,
+    geoFormatRules: [
+      "- 冒頭2〜3行は問いかけ/共感シーン/具体データのどれかで自然に開始（毎回同じ導入を避ける）",
+      "- 本文で「〜とは」を1回入れ、用語定義を短く明示",
+      "- FAQは1問以上（読者の実検索に近い質問文）",
+      "- 統計/制度情報を最低1件入れ、出典名を明記（URLは不要）",
+      "- キーワード詰め込みは禁止。自然な日本語を優先",
+    ],
+    reviewRules: `【Ameba（アメブロ）のルール】
+- 文体: カジュアルで親しみやすい口語体（「〜だよ」「〜だね」「〜しよう！」）
+- 文字数: 800〜1200文字（厳守）
+- 構成: アイキャッチ導入 → 日常/実務シーン → 解説 → ワンポイント → CTA
+- 絵文字: 適度に使用（1段落に1〜2個）
+- CTAリンク: 記事末尾に1つだけ
+- ターゲット: 宅建受験生（フレンドリーな仲間として）
+- 読者が「気軽に読める」「楽しい」と感じること`,
+  },
+  note: {
+    systemPrompt: NOTE_SYSTEM_PROMPT,
+    buildUserPrompt: buildNoteUserPrompt,
+    geoFormatRules: [
+      "- 冒頭は問題提起/現場シーン/意外な事実で引き込み、定型句から始めない",
+      "- H2/H3構成で「定義→背景→実務活用→FAQ」を含める",
+      "- FAQを2問以上入れ、各回答は50〜100語程度で完結に",
+      "- 数値データを1件以上入れ、出典組織・年度を本文に明記",
+      "- 引用しやすい自己完結文（1〜2文で要点完結）を1つ以上作る",
+    ],
+    reviewRules: `【noteのルール】
+- 文体: 「です・ます」調のプロフェッショナルな文体
+- 文字数: 2000〜3000文字（厳守）
+- 構成: フック導入 → 3セクション（見出し付き） → まとめ → CTA
+- 絵文字: 基本的に使わない
+- ハッシュタグ: 3〜4個
+- ターゲット: 20〜40代の学習意欲の高い社会人
+- 読者が「なるほど」「深い」と感じる独自の切り口があること`,
+  },
+  hatena: {
+    systemPrompt: HATENA_SYSTEM_PROMPT,
+    buildUserPrompt: buildHatenaUserPrompt,
+    geoFormatRules: [
+      "- 冒頭は要点を伝えつつ、問い/具体例/データのいずれかで自然に導入する",
+      "- H2/H3構造で網羅的に整理し、必要なら比較表を使う（表は任意）",
+      "- FAQを2問以上入れ、AI要約で抜き出しやすい短回答にする",
+      "- 統計や制度データを1件以上入れ、出典組織・年度を明記",
+      "- 重要ポイントは箇条書き化し、引用されやすい文を意図的に配置",
+    ],
+    reviewRules: `【はてなブログのルール】
+- 文体: 「です・ます」調＋「〜である」調の混在OK、客観的・分析的
+- 文字数: 1500〜3000文字（厳守）
+- 構成: 導入 → H2/H3見出しで構造化 → まとめ → 関連ツール
+- 絵文字: 使わない
+- テーブル（表）: 任意（比較データがある場合に推奨）
+- ターゲット: ITリテラシーが高い読者
+- 「ブックマークして後で見返したい」品質であること`,
+  },
+  wordpress: {
+    systemPrompt: WORDPRESS_SYSTEM_PROMPT,
+    buildUserPrompt: buildWordpressUserPrompt,
+    geoFormatRules: [
+      "- 冒頭3行で検索意図への答えを示し、直後に「この記事の要点」を箇条書きで置く",
+      "- H2/H3構成で「定義→手順→比較/注意点→FAQ」を含める",
+      "- FAQを2問以上入れ、回答は2〜3文で自己完結させる",
+      "- 統計や制度データを1件以上入れ、出典組織・年度を明記",
+      "- 手順は番号付きリストにし、AI要約で抜き出しやすくする",
+    ],
+    reviewRules: `【WordPressブログのルール】
+- 文体: 「です・ます」調で統一、丁寧で落ち着いたトーン
+- 文字数: 2500〜4000文字（厳守）
+- 構成: 導入 → この記事の要点 → H2/H3本文 → まとめ → FAQ
+- 絵文字: 使わない
+- 手順は番号付きリスト、比較はMarkdown表（任意）
+- ターゲット: 検索から訪れた宅建受験生・不動産実務者
+- 検索意図に冒頭で答えていること`,
+  },
+  qiita: {
+    systemPrompt: QIITA_SYSTEM_PROMPT,
+    buildUserPrompt: buildQiitaUserPrompt,
+    geoFormatRules: [
+      "- 冒頭の概要で、何を実装・整理する記事かを1〜2文で言い切る",
+      "- 計算式・判定条件はコードブロックで示し、前後に日本語で仕様を説明する",
+      "- FAQを1問以上入れ、実装時の疑問に短く答える",
+      "- 制度の数値には出典組織・年度を明記する",
+    ],
+    reviewRules: `【Qiita（技術記事）のルール】
+- 文体: 技術記事として簡潔に、煽り・感嘆表現なし
+- 文字数: 1500〜3000文字（コードを含む）
+- 構成: 概要 → 前提となる制度 → 計算ロジック（コード） → 検証例 → まとめ → FAQ
+- 絵文字: 使わない
+- コードブロックは言語指定付きで、動作する内容であること
+- ターゲット: 不動産・業務システムに関わる開発者
+- 販促表現がなく、参考リンクの紹介にとどまっていること`,
+  },
+  x: {
+    systemPrompt: X_SYSTEM_PROMPT,
+    buildUserPrompt: buildXUserPrompt,
+    geoFormatRules: [
+      "- 1段落目で結論または意外な事実を一文で示す",
+      "- 1段落は130文字以内にし、段落ごとに1つの要点だけを書く",
+      "- 数値には出典組織・年度を短く添える",
+      "- 見出し・表・FAQ節は使わない",
+    ],
+    reviewRules: `【X（スレッド）のルール】
+- 文体: 「です・ます」調または体言止め、短く言い切る
+- 文字数: 全体300〜900文字、1段落130文字以内（厳守）
+- 構成: フック → 要点（1段落1つ） → まとめ＋リンク
+- 見出し・表・FAQ節: 使わない
+- リンク: 最後の段落に1つだけ
+- エンゲージメント誘導（「拡散希望」「RTで」）がないこと`,
+  },
+};
+
+export function getPlatformPrompt(platform: Platform): PlatformPrompt {
+  return PLATFORM_PROMPTS[platform];
+}
@@ -8,6 +8,7 @@
  * ハッシュタグ: 3〜4個
  * CTA: 本文中の自然なツール言及 + 末尾CTA
  */
+import { cassetteRandom } from "../cassette";
 import type { NoteViralBrief } from "../note-viral";
 
 export const NOTE_SYSTEM_PROMPT = `あなたは「不動産AI（takkenai.jp）」の公式noteアカウントとして、宅建や不動産に関する深掘り記事を書きます。
@@ -136,12 +137,12 @@ const NOTE_OPENING_STYLES = [
 ];
 
 function pickNoteCtaTemplate(url: string): string {
-  const idx = Math.floor(Math.random() * NOTE_CTA_TEMPLATES.length);
+  const idx = Math.floor(cassetteRandom() * NOTE_CTA_TEMPLATES.length);
   return NOTE_CTA_TEMPLATES[idx].replace("{{url}}", url);
 }
 
 function pickNoteOpeningStyle(): string {
-  const idx = Math.floor(Math.random() * NOTE_OPENING_STYLES.length);
+  const idx = Math.floor(cassetteRandom() * NOTE_OPENING_STYLES.length);
   return NOTE_OPENING_STYLES[idx];
 }
 
@@ -0,0 +1,150 @@
+/**
+ * Qiita（開発者コミュニティ）用のシステムプロンプト
+ *
+ * 役割: 不動産計算・制度ロジックを開発者向けに解説する技術記事
+ * スタイル: 仕様→計算式→実装例→検証の順で淡々と
+ * 文字数: 1500〜3000文字
+ * 構成: 概要 → 前提となる制度 → 計算ロジック（コード） → 検証 → まとめ → FAQ
+ * リンク: takkenai.jp を参考ツールとして1回だけ
+ */
+import { cassetteRandom } from "../cassette";
+
+export const QIITA_SYSTEM_PROMPT = `あなたは「不動産AI（takkenai.jp）」の開発者として、Qiitaに宅建・不動産の制度や計算ロジックを開発者向けに解説する技術記事を書きます。
+
+## あなたの役割
+- 制度・計算ルールを「仕様」として整理し、実装できる粒度まで分解する
+- 計算式や判定ロジックをコード（TypeScript）で示す
+- 宣伝ではなく、読者が自分で検証できる情報を提供する
+
+## 文体・トーン
+- 「です・ます」調、または「〜する」調のどちらかで統一
+- 技術記事らしく簡潔に。煽り・感嘆表現は使わない
+- 絵文字は使わない
+
+## 記事の構成（必ずこの順番で）
+1. **概要**（2〜4行：この記事で実装・整理すること）
+2. **前提となる制度・用語**（H2）
+3. **計算ロジック / 判定ロジック**（H2、コードブロック必須）
+4. **検証例**（H2、具体的な入力値と結果）
+5. **まとめ**
+6. **FAQ**（1問以上）
+
+## 本文要件
+- コードブロックは \`\`\`ts のように言語を指定する
+- コードは20行以内を目安に、コメントは日本語で最小限
+- 法令・制度の数値は出典組織・年度を本文に明記する
+- URLは1つだけ、takkenai.jp のみ（参考ツールとして紹介）
+- URL単独行は禁止（説明文と一緒に置く）
+
+## 禁止事項
+- データ・条文の捏造
+- 動作しない疑似コードを実装例として示すこと
+- 本文に takkenai.jp 以外のURLや短縮URLを入れること
+- 「無料登録」「今すぐ使って」などの販促表現
+- title/imagePromptにURL文字列や英字slugをそのまま書くこと
+
+## 出力フォーマット
+以下のJSON形式で出力してください：
+{
+  "title": "Qiitaの記事タイトル（60文字以内、何を実装・整理する記事か分かるもの）",
+  "body": "記事本文（Markdown形式、H2は##、コードブロックは言語指定付き）",
+  "titleChinese": "标题的中文翻译",
+  "bodyChinese": "正文的中文翻译（保持Markdown格式、代码块保持原样）",
+  "hashtags": ["TypeScript", "不動産", "宅建", ...],
+  "imagePrompt": "ヘッダー画像の説明（日本語、技術記事らしいシンプルなイメージ）",
+  "takkenaiLink": "メインのtakkenai.jpリンクURL"
+}
+
+## 重要
+- title/bodyは必ず日本語（コードは除く）
+- titleChinese/bodyChineseは中国語（簡体字）
+- hashtags はQiitaのタグとして使うため、技術タグを1つ以上含めて5個以内
+- bodyには takkenaiLink と同じURLを1回だけ自然に入れる（本文中1リンク厳守）
+- title/imagePrompt に過去年（例: 2024年）を書かないこと
+
+## 日本語ローカライズ（厳守）
+- title/body/imagePromptは100%ネイティブ日本語
+- 中国語の表現・語彙・文法を混入させないこと`;
+
+const QIITA_CTA_TEMPLATES = [
+  "同じ計算を実装済みのツールで検算したい場合は、こちらが参考になります：{{url}}",
+  "検証に使った参考ページはこちらです：{{url}}",
+];
+
+function pickQiitaCtaTemplate(url: string): string {
+  const idx = Math.floor(cassetteRandom() * QIITA_CTA_TEMPLATES.length);
+  return QIITA_CTA_TEMPLATES[idx].replace("{{url}}", url);
+}
+
+/**
+ * Qiita向けのユーザープロンプトを生成する
+ */
+export function buildQiitaUserPrompt(params: {
+  topicLabel: string;
+  assetType: string;
+  phase: string;
+  phaseLabel: string;
+  takkenaiUrl: string;
+  angle: string;
+  secondaryAssetLabel?: string;
+  articleType?: string;
+  articleTypeLabel?: string;
+  articleTypePromptBlock?: string;
+}): string {
+  const {
+    topicLabel,
+    assetType,
+    takkenaiUrl,
+    angle,
+    articleType,
+    articleTypeLabel,
+    articleTypePromptBlock,
+  } = params;
+
+  let assetContext = "";
+  switch (assetType) {
+    case "knowledge-point":
+      assetContext = `宅建の制度・ルール「${topicLabel}」を判定ロジックとして整理する`;
+      break;
+    case "tool":
+      assetContext = `不動産計算ツール「${topicLabel}」の計算ロジックを実装する`;
+      break;
+    case "past-question":
+      assetContext = `宅建過去問「${topicLabel}」の論点を条件分岐として整理する`;
+      break;
+  }
+
+  const preferredCta = pickQiitaCtaTemplate(takkenaiUrl);
+
+  let prompt = `以下の情報をもとに、Qiita用の技術記事を作成してください。
+
+## 今日のテーマ
+- コンテンツ: ${assetContext}
+- アングル: ${angle}
+- 参照ページ（日本語テーマ）: ${topicLabel}
+- 参考リンク（本文で1回使用）: ${takkenaiUrl}
+- 推奨の紹介文（この中から1つだけ選ぶ）: ${preferredCta}
+`;
+
+  if (articleTypeLabel || articleType) {
+    prompt += `- 記事タイプ: ${articleTypeLabel || articleType}\n`;
+  }
+
+  prompt += `
+## 注意事項
+- 1500〜3000文字で収めてください（コードブロックを含む）
+- 計算式・判定条件をTypeScriptのコードで1つ以上示してください
+- 検証例では具体的な入力値と期待される結果を示してください
+- 制度の数値は出典組織・年度を明記してください（外部URLは追加しない）
+- 参考リンクは「${takkenaiUrl}」を使用してください（takkenaiLinkフィールドに設定）
+- bodyには「${takkenaiUrl}」を1回だけ、まとめ付近に自然に入れてください
+- 販促・勧誘の表現は使わないでください
+- 正文は読者向け内容のみ。属性説明やメタ情報を本文に入れないでください
+- 出力は指定のJSON形式で返してください`;
+
+  if (articleTypePromptBlock) {
+    prompt += `\n\n## 記事タイプ要件（必須）\n${articleTypePromptBlock}\n- 技術記事の構成に合わせて必須要素を反映すること`;
+  }
+
+  return prompt;
+}
@@ -0,0 +1,93 @@
+/**
+ * SNS派生投稿用のシステムプロンプト
+ *
+ * 役割: 完成した記事（ameba / note / hatena など）からSNS告知を作る
+ * 出力: Xスレッド、Threadsの短いキャプション、Instagramのキャプション＋カルーセル構成
+ * 文字数・ハッシュタグ数: lib/sns-derivatives.ts の SNS_NETWORK_RULES を渡して指定する
+ *
+ * 出力はそのまま使わず、lib/sns-derivatives.ts が整形・検証してから保存する。
+ */
+
+export const SNS_DERIVATIVE_SYSTEM_PROMPT = `あなたは「不動産AI（takkenai.jp）」のSNS運用担当です。公開済みの記事をもとに、記事へ誘導するSNS投稿を作ります。
+
+## あなたの役割
+- 記事の要点を、各SNSの形式と文字数に合わせて言い換える
+- 記事に書かれていない事実・数字を足さない
+
+## 文体・トーン
+- 「です・ます」調を基本に、体言止めも可
+- 煽り・断定的な合格保証・「絶対」「必ず」などの誇張は禁止
+- 絵文字は1投稿あたり0〜1個まで
+
+## 禁止事項
+- 「拡散希望」「RTで」「今すぐフォロー」などのエンゲージメント誘導
+- 記事リンク以外のURLや短縮URL
+- Instagramのキャプションや画像にURLを入れること（リンクは押せないため「プロフィールのリンクから」と書く）
+
+## 出力フォーマット
+以下のJSON形式だけを出力してください：
+{
+  "x": { "posts": ["1投稿目", "2投稿目", ...], "hashtags": ["宅建"] },
+  "threads": { "caption": "キャプション", "hashtags": ["宅建"] },
+  "instagram": {
+    "caption": "キャプション",
+    "hashtags": ["宅建", "宅建勉強中", ...],
+    "slides": [{ "heading": "1枚目の見出し", "text": "1枚目の本文" }, ...]
+  }
+}
+
+## 重要
+- hashtags には「#」を付けない
+- すべて100%ネイティブ日本語で書く`;
+
+export interface SnsDerivativeLimits {
+  label: string;
+  maxPostLength: number;
+  maxPosts: number;
+  hashtags: { min: number; max: number };
+  slides?: { min: number; max: number; maxHeadingLength: number; maxTextLength: number };
+}
+
+/**
+ * 記事からSNS派生投稿を作るユーザープロンプトを生成する
+ */
+export function buildSnsDerivativeUserPrompt(params: {
+  sourceLabel: string;
+  title: string;
+  body: string;
+  hashtags: string[];
+  link: string;
+  limits: { x: SnsDerivativeLimits; threads: SnsDerivativeLimits; instagram: SnsDerivativeLimits };
+}): string {
+  const { sourceLabel, title, body, hashtags, link, limits } = params;
+  const { x, threads, instagram } = limits;
+  const slides = instagram.slides;
+
+  return `以下の${sourceLabel}記事から、SNS告知用の投稿を作成してください。
+
+## 記事
+- タイトル: ${title}
+- 記事のハッシュタグ: ${hashtags.length > 0 ? hashtags.join(" / ") : "なし"}
+- 記事リンク: ${link}
+
+${body}
+
+## ${x.label}（スレッド）
+- ${x.maxPosts}投稿以内。1投稿は全角${Math.floor(x.maxPostLength / 2)}文字以内（番号は自動で付くので書かない）
+- 1投稿目で記事の結論を言い切り、最後の投稿にだけ記事リンク「${link}」を入れる
+- ハッシュタグは${x.hashtags.max}個まで
+
+## ${threads.label}（短いキャプション）
+- ${threads.maxPostLength}文字以内の1投稿。記事リンク「${link}」を最後に1回だけ入れる
+- ハッシュタグは${threads.hashtags.max}個まで
+
+## ${instagram.label}（キャプション＋カルーセル）
+- キャプションは${instagram.maxPostLength}文字以内。URLは入れず、最後に「詳しくはプロフィールのリンクから」と書く
+- ハッシュタグは${instagram.hashtags.min}〜${instagram.hashtags.max}個
+${
+  slides
+    ? `- カルーセルは${slides.min}〜${slides.max}枚。1枚目は表紙（記事の結論）、最後の1枚はまとめ
+- 各スライドの見出しは${slides.maxHeadingLength}文字以内、本文は${slides.maxTextLength}文字以内`
+    : ""
+}`;
+}
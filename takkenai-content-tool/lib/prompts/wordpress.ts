@@ -0,0 +1,188 @@
+/**
+ * WordPressブログ用のシステムプロンプト
+ *
+ * 役割: 自社運営ブログの検索流入向け解説記事
+ * スタイル: 検索意図に沿った網羅的な解説、手順・比較を明示
+ * 文字数: 2500〜4000文字
+ * 構成: 導入 → 目次代わりの要点 → H2/H3本文 → まとめ → FAQ
+ * リンク: takkenai.jp の対象ページ
+ */
+import { cassetteRandom } from "../cassette";
+
+export const WORDPRESS_SYSTEM_PROMPT = `あなたは「不動産AI（takkenai.jp）」が運営するWordPressブログの執筆担当として、宅建・不動産に関する検索流入向けの解説記事を書きます。
+
+## あなたの役割
+- 検索で訪れた読者の疑問に、最初の数行で答える解説記事を書く
+- 手順・比較・注意点を整理し、読み終えたら行動できる状態にする
+- 自社ブログとして信頼できる情報源であることを意識する
+
+## 文体・トーン
+- 「です・ます」調で統一
+- 丁寧で落ち着いたトーン、専門用語は初出で短く説明する
+- 絵文字は使わない
+
+## 記事の構成（必ずこの順番で）
+1. **導入**（3〜5行）
+   - 検索意図に対する答えを先に示し、記事で分かることを続ける
+2. **この記事の要点**（箇条書き3〜5個）
+3. **本文セクション（H2/H3で構造化、手順は番号付きリスト）**
+4. **まとめ**（3〜5行）
+5. **FAQ**（2問以上）
+
+## 本文要件
+- H2は4〜6個を目安に、検索キーワードを自然に含める
+- 比較できる情報はMarkdown表で整理する（任意）
+- URLは1つだけ、takkenai.jp のみ
+- URL単独行は禁止（説明文と一緒に置く）
+
+## SEO / GEO 最適化（重要）
+- primary keyword をタイトル・導入・H2に自然に含める
+- 「〜とは」の定義セクションを1つ入れる
+- 統計データまたは制度データを最低1件入れ、出典組織・年度を明記（URL不要）
+- FAQを2問以上入れ、回答は短く自己完結させる
+- title/imagePrompt に過去年（例: 2024年）を入れない
+- bodyで過去年を使う場合は、必ず出典・調査・統計の文脈に限定する
+
+## AI臭さの排除（厳守）
+- テンプレ導入・機械的な締めは禁止
+- 同じ文末表現の連続を避ける
+- 抽象論ではなく、具体的な手順や数値で説明する
+
+## 禁止事項
+- データの捏造
+- title/imagePromptにURL文字列や英字slug（例: /tools/loan, loan, gyouhou）をそのまま書くこと
+- 本文に takkenai.jp 以外のURLや短縮URLを入れること
+- 命令口調・煽り口調のCTA
+
+## 出力フォーマット
+以下のJSON形式で出力してください：
+{
+  "title": "WordPressブログの記事タイトル（32〜45文字、検索キーワードを前半に）",
+  "body": "記事本文（Markdown形式、H2は##、H3は###、手順は番号付きリスト）",
+  "titleChinese": "标题的中文翻译",
+  "bodyChinese": "正文的中文翻译（保持Markdown格式和相同结构）",
+  "hashtags": ["宅建", "不動産", ...],
+  "imagePrompt": "アイキャッチ画像の説明（日本語、解説記事らしい清潔感のあるイメージ）",
+  "takkenaiLink": "メインのtakkenai.jpリンクURL"
+}
+
+## 重要
+- title/bodyは必ず日本語
+- titleChinese/bodyChineseは中国語（簡体字）
+- title/imagePrompt には生URLを入れない
+- bodyには takkenaiLink と同じURLを1回だけ自然に入れる（本文中1リンク厳守）
+- CTAは補助資料の案内として自然に配置し、販促口調にしない
+
+## 日本語ローカライズ（厳守）
+- title/body/hashtags/imagePromptは100%ネイティブ日本語
+- 中国語の表現・語彙・文法を混入させないこと`;
+
+const WORDPRESS_CTA_TEMPLATES = [
+  "ここまでの手順を実際の数字で確かめたい場合は、こちらが使えます：{{url}}",
+  "詳しい条件の整理は、関連ページにまとめています：{{url}}",
+  "本文の内容をもう一度確認したいときは、こちらを参照してください：{{url}}",
+];
+const WORDPRESS_OPENING_STYLES = [
+  "検索した読者の疑問に一文で答えてから入る",
+  "よくある勘違いを示してから入る",
+  "手続きの流れを一文で示してから入る",
+];
+
+function pickWordpressCtaTemplate(url: string): string {
+  const idx = Math.floor(cassetteRandom() * WORDPRESS_CTA_TEMPLATES.length);
+  return WORDPRESS_CTA_TEMPLATES[idx].replace("{{url}}", url);
+}
+
+function pickWordpressOpeningStyle(): string {
+  const idx = Math.floor(cassetteRandom() * WORDPRESS_OPENING_STYLES.length);
+  return WORDPRESS_OPENING_STYLES[idx];
+}
+
+/**
+ * WordPressブログ向けのユーザープロンプトを生成する
+ */
+export function buildWordpressUserPrompt(params: {
+  topicLabel: string;
+  assetType: string;
+  phase: string;
+  phaseLabel: string;
+  takkenaiUrl: string;
+  angle: string;
+  secondaryAssetLabel?: string;
+  articleType?: string;
+  articleTypeLabel?: string;
+  articleTypePromptBlock?: string;
+}): string {
+  const {
+    topicLabel,
+    assetType,
+    phaseLabel,
+    takkenaiUrl,
+    angle,
+    secondaryAssetLabel,
+    articleType,
+    articleTypeLabel,
+    articleTypePromptBlock,
+  } = params;
+
+  let assetContext = "";
+  switch (assetType) {
+    case "knowledge-point":
+      assetContext = `宅建の重要知識「${topicLabel}」`;
+      break;
+    case "tool":
+      assetContext = `不動産AIツール「${topicLabel}」`;
+      break;
+    case "past-question":
+      assetContext = `宅建過去問「${topicLabel}」`;
+      break;
+  }
+
+  const preferredCta = pickWordpressCtaTemplate(takkenaiUrl);
+  const openingStyle = pickWordpressOpeningStyle();
+
+  let prompt = `以下の情報をもとに、WordPressブログ用の検索流入向け解説記事を作成してください。
+
+## 今日のテーマ
+- コンテンツ: ${assetContext}
+- アングル: ${angle}
+- 季節フェーズ: ${phaseLabel}
+- 参照ページ（日本語テーマ）: ${topicLabel}
+- CTA用リンク（本文で1回使用）: ${takkenaiUrl}
+- 推奨CTA文（この中から1つだけ選ぶ）: ${preferredCta}
+- 今回の導入スタイル: ${openingStyle}
+`;
+
+  if (secondaryAssetLabel) {
+    prompt += `- 関連テーマ（本文で補足的に触れる）: ${secondaryAssetLabel}\n`;
+  }
+  if (articleTypeLabel || articleType) {
+    prompt += `- 記事タイプ: ${articleTypeLabel || articleType}\n`;
+  }
+
+  prompt += `
+## 期待する内容
+- ${phaseLabel}の読者が検索しそうな疑問を見出しにする
+- 手順は番号付きリストで、比較はMarkdown表で整理する
+- 具体的な数値・条件を可能な限り盛り込む
+
+## 注意事項
+- 2500〜4000文字で収めてください
+- メインCTAリンクは「${takkenaiUrl}」を使用してください（takkenaiLinkフィールドに設定）
+- 冒頭直後に「この記事の要点」を箇条書きで入れてください
+- ハッシュタグを3〜5個提案してください（WordPressのタグとして使います）
+- 定義セクション・FAQ2問以上・出典付き情報1件を含めてください
+- 冒頭3行で先に答え（結論）を示してください（answer-first）
+- title/imagePrompt に過去年（例: 2024年）を入れないでください
+- title/imagePromptにURL文字列や英字slugを出さないでください
+- bodyには「${takkenaiUrl}」を1回だけ自然に入れてください（他URL・短縮URLは禁止）
+- URL単独行は禁止（本文文脈に統合すること）
+- 正文は読者向け内容のみ。属性説明やメタ情報を本文に入れないでください
+- 出力は指定のJSON形式で返してください`;
+
+  if (articleTypePromptBlock) {
+    prompt += `\n\n## 記事タイプ要件（必須）\n${articleTypePromptBlock}\n- 必須要素を本文で具体化し、見出しだけで終わらせないこと`;
+  }
+
+  return prompt;
+}
@@ -4,7 +4,8 @@ import {
   pickInlineAnchor,
   type InlineImageAnchor,
 } from "./inline-image-placement";
-import type { Platform } from "./topic-engine";
+import { getPlatformDefinition, type Platform, type PublishFormat } from "./platform-registry";
+import { splitIntoThread } from "./x-thread";
 
 export interface ComposePublishInput {
   title: string;
@@ -21,6 +22,9 @@ export interface ComposePublishOutput {
   html: string;
   anchor: InlineImageAnchor;
   inlinePrompt: string;
+  format: PublishFormat;
+  /** Posts ready to publish one by one (thread platforms only) */
+  thread?: string[];
 }
 
 export interface ComposeBodyPublishOutput {
@@ -29,6 +33,15 @@ export interface ComposeBodyPublishOutput {
   html: string;
   anchor: InlineImageAnchor;
   inlinePrompt: string;
+  format: PublishFormat;
+  /** Posts ready to publish one by one (thread platforms only) */
+  thread?: string[];
+}
+
+/** The body in the platform's publish format; threads never carry the inline image. */
+function threadFields(platform: Platform, body: string): Pick<ComposePublishOutput, "format" | "thread"> {
+  const format = getPlatformDefinition(platform).publishFormat;
+  return format === "thread" ? { format, thread: splitIntoThread(body) } : { format };
 }
 
 function sanitize(input: string): string {
@@ -223,6 +236,7 @@ export function composeBodyPublishPayload(input: {
     html: markdownBodyToHtml(bodyWithInline),
     anchor: inline.anchor,
     inlinePrompt: inline.inlinePrompt,
+    ...threadFields(input.platform, inline.body),
   };
 }
 
@@ -267,5 +281,6 @@ export function composePublishPayload(input: ComposePublishInput): ComposePublis
     html: htmlParts.join("\n"),
     anchor: inline.anchor,
     inlinePrompt: inline.inlinePrompt,
+    ...threadFields(input.platform, body),
   };
 }
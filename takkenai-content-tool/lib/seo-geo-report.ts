@@ -1,4 +1,5 @@
 import type { Platform } from "./topic-engine";
+import { getPlatformDefinition } from "./platform-registry";
 import type { AiActionReport } from "./ai-action-report";
 import {
   evaluateChatgptSearchRules,
@@ -119,8 +120,7 @@ function detectQuoteFriendlyBullets(body: string): boolean {
 }
 
 function requiredFaqCount(platform: Platform): number {
-  if (platform === "ameba") return 1;
-  return 2;
+  return getPlatformDefinition(platform).requiredFaqCount;
 }
 
 const PASS_SCORE_THRESHOLD = 85;
@@ -1,11 +1,26 @@
 import fs from "fs";
 import path from "path";
-import type { Platform } from "./topic-engine";
-import type {
-  CoverImageProfile,
-  CoverRegion,
-  CoverTextDensity,
+import { PLATFORM_IDS, PLATFORM_REGISTRY, type Platform } from "./platform-registry";
+import {
+  isCoverRenderMode,
+  type CoverImageProfile,
+  type CoverRegion,
+  type CoverTextDensity,
 } from "./cover-profile";
+import { isCoverStyleId } from "./cover-style";
+import { DEFAULT_TOPIC_MIX, parseTopicMix, type TopicMixConfig } from "./topic-mix";
+import {
+  DEFAULT_TOPIC_ROTATION,
+  parseTopicRotation,
+  type TopicRotationConfig,
+} from "./topic-rotation";
+import {
+  DEFAULT_TRACKING_CONFIG,
+  parseTrackingConfig,
+  type SiteTrackingSettings,
+  type TrackingConfig,
+  type TrackingTemplate,
+} from "./tracking-template";
 
 export type SkillRunMode = "shadow" | "promote";
 
@@ -30,6 +45,18 @@ export interface SiteManifest {
   profileVersion: string;
   skillVersion: string;
   cover: CoverImageProfile;
+  topicMix: TopicMixConfig;
+  topicRotation: TopicRotationConfig;
+  tracking: TrackingConfig;
+  /** Sections of the manifest file that were invalid and fell back to defaults */
+  configIssues?: ManifestConfigIssue[];
+}
+
+export interface ManifestConfigIssue {
+  section: "topicMix" | "topicRotation" | "tracking";
+  /** What is used instead, e.g. "既定の配分を使います" */
+  fallback: string;
+  issues: string[];
 }
 
 export interface ResolveRunContextInput {
@@ -59,11 +86,9 @@ const DEFAULT_SITE_MANIFEST: SiteManifest = {
     { code: "ja", label: "Japanese" },
     { code: "zh", label: "Chinese (Simplified)" },
   ],
-  platforms: {
-    ameba: { enabled: true, utmSource: "ameba" },
-    note: { enabled: true, utmSource: "note" },
-    hatena: { enabled: true, utmSource: "hatena" },
-  },
+  platforms: Object.fromEntries(
+    PLATFORM_IDS.map((id) => [id, { enabled: PLATFORM_REGISTRY[id].defaultEnabled, utmSource: id }])
+  ) as Record<Platform, PlatformProfile>,
   profileVersion: DEFAULT_PROFILE_VERSION,
   skillVersion: DEFAULT_SKILL_VERSION,
   cover: {
@@ -77,6 +102,9 @@ const DEFAULT_SITE_MANIFEST: SiteManifest = {
       hatena: { textDensity: "medium" },
     },
   },
+  topicMix: DEFAULT_TOPIC_MIX,
+  topicRotation: DEFAULT_TOPIC_ROTATION,
+  tracking: DEFAULT_TRACKING_CONFIG,
 };
 
 function sanitizeSiteId(siteId?: string): string {
@@ -93,6 +121,15 @@ function normalizeLanguage(value: string | undefined, manifest: SiteManifest): s
   return allowed.has(candidate) ? candidate : manifest.defaultLanguage;
 }
 
+function parseCoverRenderModes(raw: unknown): CoverImageProfile["renderModes"] {
+  if (!raw || typeof raw !== "object") return undefined;
+  const modes: NonNullable<CoverImageProfile["renderModes"]> = {};
+  for (const [styleId, mode] of Object.entries(raw as Record<string, unknown>)) {
+    if (isCoverStyleId(styleId) && isCoverRenderMode(mode)) modes[styleId] = mode;
+  }
+  return Object.keys(modes).length > 0 ? modes : undefined;
+}
+
 function parseCover(raw: unknown): CoverImageProfile {
   const input = (raw && typeof raw === "object" ? raw : {}) as Partial<CoverImageProfile>;
   const region = input.region === "na" ? "na" : ("jp" as CoverRegion);
@@ -116,6 +153,7 @@ function parseCover(raw: unknown): CoverImageProfile {
     stylePack,
     textDensity,
     styleId: typeof input.styleId === "string" ? (input.styleId as CoverImageProfile["styleId"]) : "lecture_blue",
+    renderModes: parseCoverRenderModes(input.renderModes),
     platformOverrides:
       input.platformOverrides && typeof input.platformOverrides === "object"
         ? input.platformOverrides
@@ -170,35 +208,28 @@ function parseManifest(raw: unknown, fallbackSiteId: string): SiteManifest | nul
   const defaultPlatforms = DEFAULT_SITE_MANIFEST.platforms;
   const inputPlatforms =
     input.platforms && typeof input.platforms === "object" ? input.platforms : {};
-  const platforms: Record<Platform, PlatformProfile> = {
-    ameba: {
+  const platforms = {} as Record<Platform, PlatformProfile>;
+  for (const id of PLATFORM_IDS) {
+    const profile = (inputPlatforms as Record<string, Partial<PlatformProfile> | undefined>)[id];
+    platforms[id] = {
       enabled:
-        typeof (inputPlatforms as Record<string, PlatformProfile>)?.ameba?.enabled === "boolean"
-          ? Boolean((inputPlatforms as Record<string, PlatformProfile>).ameba.enabled)
-          : defaultPlatforms.ameba.enabled,
-      utmSource:
-        (inputPlatforms as Record<string, PlatformProfile>)?.ameba?.utmSource ||
-        defaultPlatforms.ameba.utmSource,
-    },
-    note: {
-      enabled:
-        typeof (inputPlatforms as Record<string, PlatformProfile>)?.note?.enabled === "boolean"
-          ? Boolean((inputPlatforms as Record<string, PlatformProfile>).note.enabled)
-          : defaultPlatforms.note.enabled,
-      utmSource:
-        (inputPlatforms as Record<string, PlatformProfile>)?.note?.utmSource ||
-        defaultPlatforms.note.utmSource,
-    },
-    hatena: {
-      enabled:
-        typeof (inputPlatforms as Record<string, PlatformProfile>)?.hatena?.enabled === "boolean"
-          ? Boolean((inputPlatforms as Record<string, PlatformProfile>).hatena.enabled)
-          : defaultPlatforms.hatena.enabled,
-      utmSource:
-        (inputPlatforms as Record<string, PlatformProfile>)?.hatena?.utmSource ||
-        defaultPlatforms.hatena.utmSource,
+        typeof profile?.enabled === "boolean" ? profile.enabled : defaultPlatforms[id].enabled,
+      utmSource: profile?.utmSource || defaultPlatforms[id].utmSource,
+    };
+  }
+
+  const topicMix = parseTopicMix(input.topicMix);
+  const topicRotation = parseTopicRotation(input.topicRotation);
+  const tracking = parseTrackingConfig(input.tracking);
+  const configIssues: ManifestConfigIssue[] = [
+    { section: "topicMix" as const, fallback: "既定の配分を使います", issues: topicMix.issues },
+    {
+      section: "topicRotation" as const,
+      fallback: "既定のクールダウンを使います",
+      issues: topicRotation.issues,
     },
-  };
+    { section: "tracking" as const, fallback: "既定のUTMパラメータを使います", issues: tracking.issues },
+  ].filter((item) => item.issues.length > 0);
 
   return {
     siteId,
@@ -217,11 +248,40 @@ function parseManifest(raw: unknown, fallbackSiteId: string): SiteManifest | nul
         ? input.skillVersion.trim()
         : DEFAULT_SKILL_VERSION,
     cover: parseCover(input.cover),
+    topicMix: topicMix.mix,
+    topicRotation: topicRotation.rotation,
+    tracking: tracking.config,
+    ...(configIssues.length > 0 ? { configIssues } : {}),
   };
 }
 
+/** The platforms a site publishes to, in registry order. */
+export function getEnabledPlatforms(manifest: SiteManifest = resolveSiteManifest()): Platform[] {
+  return PLATFORM_IDS.filter((id) => manifest.platforms[id].enabled);
+}
+
+/** Tracking inputs of a site; campaign templates come from lib/campaigns.ts. */
+export function getSiteTrackingSettings(
+  manifest: SiteManifest,
+  campaignTracking?: Record<string, TrackingTemplate>
+): SiteTrackingSettings {
+  return {
+    config: manifest.tracking,
+    platformSources: Object.fromEntries(
+      PLATFORM_IDS.map((id) => [id, manifest.platforms[id].utmSource])
+    ) as Partial<Record<Platform, string>>,
+    ...(campaignTracking ? { campaignTracking } : {}),
+  };
+}
+
+function resolveManifestDir(): string {
+  const fromEnv = (process.env.SITE_MANIFEST_DIR || "").trim();
+  if (!fromEnv) return path.join(process.cwd(), "data", "site-manifests");
+  return path.isAbsolute(fromEnv) ? fromEnv : path.join(process.cwd(), fromEnv);
+}
+
 function manifestPathForSite(siteId: string): string {
-  return path.join(process.cwd(), "data", "site-manifests", `${siteId}.json`);
+  return path.join(resolveManifestDir(), `${siteId}.json`);
 }
 
 export function resolveSiteManifest(siteId?: string): SiteManifest {
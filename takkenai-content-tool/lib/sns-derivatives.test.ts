@@ -0,0 +1,168 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  getOrCreateCalendar,
+  loadCalendarStore,
+  regenerateCalendar,
+  updatePlatformEntry,
+} from "./calendar-engine";
+import { withTempCalendar } from "./calendar-test-helpers";
+import type { GeneratedContent } from "./claude";
+import { createFixtureProvider, setLlmProviderOverride } from "./llm-provider";
+import {
+  generateSnsDerivatives,
+  isSnsDerivativeError,
+  markSnsDerivativePublished,
+  validateSnsDerivative,
+} from "./sns-derivatives";
+import { xWeightedLength } from "./x-thread";
+
+const LINK = "https://takkenai.jp/tools/loan/?utm_source=ameba&utm_medium=blog";
+
+function article(): GeneratedContent {
+  return {
+    title: "住宅ローンの返済額は金利1%でどれだけ変わる？",
+    body: "## 結論\n\n金利が1%上がると、3000万円・35年の返済総額は約600万円増えます。",
+    titleChinese: "",
+    bodyChinese: "",
+    hashtags: ["宅建", "住宅ローン", "不動産"],
+    imagePrompt: "",
+    takkenaiLink: LINK,
+  };
+}
+
+const ANSWER = {
+  x: {
+    posts: [
+      "金利が1%上がると、3000万円・35年ローンの返済総額は約600万円増えます。",
+      "毎月の返済額でいうと約1万4千円の差です。".repeat(8),
+      "自分の条件で試算できます。",
+    ],
+    hashtags: ["#宅建", "住宅 ローン", "宅建"],
+  },
+  threads: {
+    caption: "金利1%の差で返済総額は約600万円。絶対合格を目指す人にも役立つ知識です。",
+    hashtags: ["住宅ローン", "宅建"],
+  },
+  instagram: {
+    caption: `金利1%の差を図解しました。${LINK}`,
+    hashtags: [],
+    slides: Array.from({ length: 12 }, (_, i) => ({ heading: `ポイント${i + 1}`, text: "金利と返済額の関係" })),
+  },
+};
+
+test("derivatives are checked per network with the article compliance rules", () => {
+  const base = { sourcePlatform: "ameba" as const, link: LINK };
+  assert.deepEqual(
+    validateSnsDerivative({
+      ...base,
+      network: "threads",
+      posts: [`今すぐやらないと損！必ず稼げる方法 ${LINK} https://bit.ly/abc`],
+      hashtags: ["宅建", "不動産"],
+    }),
+    [
+      "Threads のハッシュタグは0〜1個にしてください（実際:2個）",
+      "Threads の投稿に記事リンク以外のURLが含まれています",
+      "Threads の記事リンクは1回だけにしてください",
+      "Threads: プラットフォームの誘導禁止パターンに該当する表現があります",
+      "Threads: 合格保証・収益保証などの誇張表現があります",
+    ]
+  );
+  assert.deepEqual(
+    validateSnsDerivative({
+      ...base,
+      network: "instagram",
+      posts: [`詳しくはこちら ${LINK}`],
+      slides: [{ heading: "とても長い見出しになってしまったスライドの例です", text: "本文" }],
+      hashtags: ["宅建"],
+    }),
+    [
+      "Instagram のハッシュタグは3〜10個にしてください（実際:1個）",
+      "Instagram の投稿文にURLは入れられません",
+      "Instagram のカルーセルは3〜10枚にしてください（実際:1枚）",
+      "Instagram の1枚目の見出しが長すぎます（最大20文字）",
+    ]
+  );
+  assert.deepEqual(
+    validateSnsDerivative({ ...base, network: "x", posts: ["あ".repeat(141)], hashtags: [] }),
+    [
+      "X の投稿が文字数上限を超えています（282/280）",
+      "X の投稿に記事リンクがありません",
+    ]
+  );
+});
+
+test("finished articles get X, Threads and Instagram posts stored on the calendar day", () =>
+  withTempCalendar(async (tmpDir) => {
+    const prompts: string[] = [];
+    setLlmProviderOverride(
+      createFixtureProvider({
+        dir: tmpDir,
+        responder: (request) => {
+          prompts.push(request.userPrompt);
+          return "```json\n" + JSON.stringify(ANSWER) + "\n```";
+        },
+      })
+    );
+    getOrCreateCalendar(2026, 8);
+    const slot = { date: "2026-08-05", platform: "ameba" as const };
+
+    await assert.rejects(
+      generateSnsDerivatives({ slot, content: article() }),
+      (err: unknown) =>
+        isSnsDerivativeError(err) &&
+        err.message === "2026-08-05 Ameba の記事はまだ完成していません（現在: pending）"
+    );
+    assert.equal(prompts.length, 0);
+
+    updatePlatformEntry(2026, 8, 5, "ameba", { status: "generated" });
+    const derivatives = await generateSnsDerivatives({ slot, content: article() });
+    assert.match(prompts[0], /全角140文字以内/);
+    assert.deepEqual(
+      derivatives.map((derivative) => [derivative.id, derivative.kind]),
+      [
+        ["ameba-x", "thread"],
+        ["ameba-threads", "caption"],
+        ["ameba-instagram", "carousel"],
+      ]
+    );
+
+    const [x, threads, instagram] = derivatives;
+    assert.deepEqual(x.hashtags, ["宅建", "住宅ローン"]);
+    assert.ok(x.posts[0].includes("#宅建 #住宅ローン"));
+    assert.ok(x.posts.length > 3);
+    x.posts.forEach((post, index) => {
+      assert.ok(xWeightedLength(post) <= 280);
+      assert.ok(post.endsWith(`(${index + 1}/${x.posts.length})`));
+    });
+    assert.ok(x.posts[x.posts.length - 1].includes(LINK));
+    assert.deepEqual(x.issues, []);
+
+    assert.deepEqual(threads.hashtags, ["住宅ローン"]);
+    assert.ok(threads.posts[0].includes(`${LINK}\n#住宅ローン`));
+    assert.deepEqual(threads.issues, ["Threads: 合格保証・収益保証などの誇張表現があります"]);
+
+    // No link on Instagram; the article's hashtags fill in for missing ones.
+    assert.doesNotMatch(instagram.posts[0], /https?:\/\//);
+    assert.match(instagram.posts[0], /詳しくはプロフィールのリンクから\n\n#宅建 #住宅ローン #不動産$/);
+    assert.equal(instagram.slides!.length, 10);
+    assert.deepEqual(instagram.issues, []);
+
+    const stored = () =>
+      loadCalendarStore()
+        .calendars.find((calendar) => calendar.month === 8)!
+        .days[4].derivatives!;
+    assert.deepEqual(stored(), derivatives);
+
+    // A posted derivative is frozen; the others are rewritten.
+    const posted = markSnsDerivativePublished(slot, "instagram");
+    assert.equal(posted.status, "published");
+    await generateSnsDerivatives({ slot, content: article(), networks: ["x", "instagram"] });
+    assert.deepEqual(stored()[2], posted);
+    assert.equal(stored().length, 3);
+
+    // Regenerating the month keeps the derivatives with their article.
+    regenerateCalendar(2026, 8);
+    assert.equal(stored().length, 3);
+  }, { reset: () => setLlmProviderOverride(null) }));
@@ -0,0 +1,446 @@
+import {
+  loadCalendarStore,
+  updateSnsDerivativesWith,
+  type CalendarSlot,
+  type PlatformEntry,
+  waitForCalendarStore,
+} from "./calendar-engine";
+import { hasOverclaim } from "./chatgpt-search-report";
+import type { GeneratedContent } from "./claude";
+import { getLlmProvider } from "./llm-provider";
+import { getPlatformDefinition, type Platform } from "./platform-registry";
+import {
+  SNS_DERIVATIVE_SYSTEM_PROMPT,
+  buildSnsDerivativeUserPrompt,
+} from "./prompts/sns-derivatives";
+import { splitIntoThread, xWeightedLength, X_POST_MAX_WEIGHT } from "./x-thread";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * Social networks a finished article is announced on. These are not
+ * publishing platforms (lib/platform-registry.ts): a derivative always points
+ * back to an article on one of the day's platforms.
+ */
+export const SNS_NETWORKS = ["x", "threads", "instagram"] as const;
+
+export type SnsNetwork = (typeof SNS_NETWORKS)[number];
+
+/** thread: several numbered posts; caption: one post; carousel: caption + slide outline. */
+export type SnsDerivativeKind = "thread" | "caption" | "carousel";
+
+export interface SnsNetworkRules {
+  label: string;
+  kind: SnsDerivativeKind;
+  /** Per post; X counts weighted length (see lib/x-thread.ts), the others characters */
+  maxPostLength: number;
+  maxPosts: number;
+  hashtags: { min: number; max: number };
+  /** Whether the article link may appear in the text (Instagram captions cannot link) */
+  allowLink: boolean;
+  slides?: { min: number; max: number; maxHeadingLength: number; maxTextLength: number };
+}
+
+export const SNS_NETWORK_RULES: Record<SnsNetwork, SnsNetworkRules> = {
+  x: {
+    label: "X",
+    kind: "thread",
+    maxPostLength: X_POST_MAX_WEIGHT,
+    maxPosts: 8,
+    hashtags: { min: 0, max: 2 },
+    allowLink: true,
+  },
+  threads: {
+    label: "Threads",
+    kind: "caption",
+    maxPostLength: 500,
+    maxPosts: 1,
+    hashtags: { min: 0, max: 1 },
+    allowLink: true,
+  },
+  instagram: {
+    label: "Instagram",
+    kind: "carousel",
+    maxPostLength: 2200,
+    maxPosts: 1,
+    hashtags: { min: 3, max: 10 },
+    allowLink: false,
+    slides: { min: 3, max: 10, maxHeadingLength: 20, maxTextLength: 80 },
+  },
+};
+
+export interface SnsCarouselSlide {
+  heading: string;
+  text: string;
+}
+
+/** One network's posts for one article, stored on the calendar day. */
+export interface SnsDerivative {
+  /** `${sourcePlatform}-${network}` — unique within the day */
+  id: string;
+  network: SnsNetwork;
+  /** Platform of the article the posts announce */
+  sourcePlatform: Platform;
+  kind: SnsDerivativeKind;
+  /** Thread posts in order, or the caption as the only post; hashtags included */
+  posts: string[];
+  slides?: SnsCarouselSlide[];
+  hashtags: string[];
+  /** Tracked takkenai.jp link of the article */
+  link: string;
+  /** Rule violations left after normalization; empty = ready to post */
+  issues: string[];
+  status: "draft" | "published";
+  generatedAt: string;
+  publishedAt?: string;
+  model?: string;
+}
+
+/** Thrown when derivatives cannot be generated for a slot. */
+export type SnsDerivativeError = Error & {
+  code: "SNS_DERIVATIVE_REJECTED";
+};
+
+export function isSnsDerivativeError(error: unknown): error is SnsDerivativeError {
+  return (
+    error instanceof Error &&
+    (error as Partial<SnsDerivativeError>).code === "SNS_DERIVATIVE_REJECTED"
+  );
+}
+
+function createSnsDerivativeError(message: string): SnsDerivativeError {
+  const error = new Error(message) as SnsDerivativeError;
+  error.code = "SNS_DERIVATIVE_REJECTED";
+  return error;
+}
+
+const DEFAULT_SNS_DERIVATIVE_MODEL = "openai/gpt-4o-mini";
+const URL_REGEX = /https?:\/\/[^\s)）]+/g;
+const FINISHED_STATUSES = ["generated", "reviewed", "published"];
+const INSTAGRAM_LINK_LINE = "詳しくはプロフィールのリンクから";
+
+function assertFinishedEntry(slot: CalendarSlot, entry: PlatformEntry | undefined): void {
+  const label = `${slot.date} ${getPlatformDefinition(slot.platform).shortLabel}`;
+  if (!entry) {
+    throw createSnsDerivativeError(`${label} の記事がカレンダーにありません`);
+  }
+  if (!FINISHED_STATUSES.includes(entry.status)) {
+    throw createSnsDerivativeError(`${label} の記事はまだ完成していません（現在: ${entry.status}）`);
+  }
+}
+
+export function isSnsNetwork(value: unknown): value is SnsNetwork {
+  return typeof value === "string" && (SNS_NETWORKS as readonly string[]).includes(value);
+}
+
+// ---------------------------------------------------------------------------
+// Normalization
+// ---------------------------------------------------------------------------
+
+/** Model answer before normalization; every field may be missing. */
+interface SnsDerivativeDraft {
+  x?: { posts?: unknown; hashtags?: unknown };
+  threads?: { caption?: unknown; hashtags?: unknown };
+  instagram?: { caption?: unknown; hashtags?: unknown; slides?: unknown };
+}
+
+function parseDraft(rawText: string): SnsDerivativeDraft {
+  let jsonStr = rawText.trim();
+  const codeBlockMatch = jsonStr.match(/```(?:json)?\s*([\s\S]*?)```/);
+  if (codeBlockMatch) jsonStr = codeBlockMatch[1].trim();
+  try {
+    const parsed = JSON.parse(jsonStr);
+    return parsed && typeof parsed === "object" ? (parsed as SnsDerivativeDraft) : {};
+  } catch {
+    throw createSnsDerivativeError("SNS投稿の生成結果をJSONとして読み取れませんでした");
+  }
+}
+
+function toText(value: unknown): string {
+  return typeof value === "string" ? value.replace(/\r/g, "").trim() : "";
+}
+
+function toStrings(value: unknown): string[] {
+  return Array.isArray(value) ? value.map(toText).filter(Boolean) : [];
+}
+
+/** "#宅建 試験" → "宅建試験"; duplicates dropped, capped at the network's maximum. */
+function normalizeHashtags(tags: string[], max: number): string[] {
+  const normalized = tags
+    .map((tag) => tag.replace(/^[#＃]+/, "").replace(/\s+/g, ""))
+    .filter(Boolean);
+  return Array.from(new Set(normalized)).slice(0, max);
+}
+
+function hashtagLine(tags: string[]): string {
+  return tags.map((tag) => `#${tag}`).join(" ");
+}
+
+function withLink(text: string, link: string): string {
+  return text.includes(link) ? text : `${text}\n${link}`.trim();
+}
+
+function stripUrls(text: string): string {
+  return text
+    .replace(URL_REGEX, "")
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .join("\n");
+}
+
+function measure(network: SnsNetwork, text: string): number {
+  return network === "x" ? xWeightedLength(text) : Array.from(text).length;
+}
+
+/**
+ * Shape a model answer into one derivative per network: hashtags capped and
+ * appended, the link added where it belongs (and removed where it cannot
+ * work), X posts re-split so each fits. Whatever still breaks a rule is left
+ * for validateSnsDerivative to report.
+ */
+function normalizeDerivatives(
+  draft: SnsDerivativeDraft,
+  params: { sourcePlatform: Platform; link: string; fallbackHashtags: string[]; networks: SnsNetwork[] }
+): Array<Omit<SnsDerivative, "issues" | "status" | "generatedAt" | "model">> {
+  const { sourcePlatform, link, fallbackHashtags, networks } = params;
+  const tagsFor = (network: SnsNetwork, raw: unknown) => {
+    const tags = toStrings(raw);
+    return normalizeHashtags(
+      tags.length > 0 ? tags : fallbackHashtags,
+      SNS_NETWORK_RULES[network].hashtags.max
+    );
+  };
+  const base = (network: SnsNetwork) => ({
+    id: `${sourcePlatform}-${network}`,
+    network,
+    sourcePlatform,
+    kind: SNS_NETWORK_RULES[network].kind,
+    link,
+  });
+
+  return networks.map((network) => {
+    if (network === "x") {
+      const hashtags = tagsFor(network, draft.x?.hashtags);
+      const paragraphs = toStrings(draft.x?.posts).map((post) => post.replace(/\s*\(\d+\/\d+\)$/, ""));
+      if (paragraphs.length > 0) {
+        const last = paragraphs.length - 1;
+        paragraphs[last] = withLink(paragraphs[last], link);
+        if (hashtags.length > 0) paragraphs[0] = `${paragraphs[0]}\n${hashtagLine(hashtags)}`;
+      }
+      return { ...base(network), posts: splitIntoThread(paragraphs.join("\n\n")), hashtags };
+    }
+
+    if (network === "threads") {
+      const hashtags = tagsFor(network, draft.threads?.hashtags);
+      const caption = toText(draft.threads?.caption);
+      const posts = caption
+        ? [[withLink(caption, link), hashtagLine(hashtags)].filter(Boolean).join("\n")]
+        : [];
+      return { ...base(network), posts, hashtags };
+    }
+
+    const rules = SNS_NETWORK_RULES.instagram.slides!;
+    const hashtags = tagsFor(network, draft.instagram?.hashtags);
+    let caption = stripUrls(toText(draft.instagram?.caption));
+    if (caption && !caption.includes(INSTAGRAM_LINK_LINE)) {
+      caption = `${caption}\n\n${INSTAGRAM_LINK_LINE}`;
+    }
+    const slides = (Array.isArray(draft.instagram?.slides) ? draft.instagram!.slides as unknown[] : [])
+      .map((slide) => {
+        const value = (slide || {}) as { heading?: unknown; text?: unknown };
+        return { heading: stripUrls(toText(value.heading)), text: stripUrls(toText(value.text)) };
+      })
+      .filter((slide) => slide.heading || slide.text)
+      .slice(0, rules.max);
+    const posts = caption ? [[caption, hashtagLine(hashtags)].filter(Boolean).join("\n\n")] : [];
+    return { ...base(network), posts, slides, hashtags };
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+/**
+ * Per-network limits plus the checks the articles themselves go through:
+ * the source platform's banned patterns (validatePlatformCompliance) and the
+ * overclaim check of the ChatGPT search report.
+ */
+export function validateSnsDerivative(
+  derivative: Pick<SnsDerivative, "network" | "sourcePlatform" | "posts" | "slides" | "hashtags" | "link">
+): string[] {
+  const { network, posts, hashtags, link } = derivative;
+  const rules = SNS_NETWORK_RULES[network];
+  const label = rules.label;
+  const issues: string[] = [];
+
+  if (posts.length === 0) {
+    issues.push(`${label} の投稿文がありません`);
+  }
+  if (posts.length > rules.maxPosts) {
+    issues.push(`${label} の投稿数が多すぎます（最大${rules.maxPosts}件 / 実際:${posts.length}件）`);
+  }
+  posts.forEach((post, index) => {
+    const length = measure(network, post);
+    if (length > rules.maxPostLength) {
+      const which = posts.length > 1 ? `${index + 1}件目の投稿` : "投稿";
+      issues.push(`${label} の${which}が文字数上限を超えています（${length}/${rules.maxPostLength}）`);
+    }
+  });
+
+  if (hashtags.length < rules.hashtags.min || hashtags.length > rules.hashtags.max) {
+    issues.push(
+      `${label} のハッシュタグは${rules.hashtags.min}〜${rules.hashtags.max}個にしてください（実際:${hashtags.length}個）`
+    );
+  }
+
+  const urls: string[] = posts.join("\n").match(URL_REGEX) || [];
+  if (!rules.allowLink) {
+    if (urls.length > 0) issues.push(`${label} の投稿文にURLは入れられません`);
+  } else if (posts.length > 0) {
+    if (!urls.includes(link)) issues.push(`${label} の投稿に記事リンクがありません`);
+    if (urls.some((url) => url !== link)) {
+      issues.push(`${label} の投稿に記事リンク以外のURLが含まれています`);
+    }
+    if (urls.length > 1) issues.push(`${label} の記事リンクは1回だけにしてください`);
+  }
+
+  if (rules.slides) {
+    const slides = derivative.slides || [];
+    if (slides.length < rules.slides.min || slides.length > rules.slides.max) {
+      issues.push(
+        `${label} のカルーセルは${rules.slides.min}〜${rules.slides.max}枚にしてください（実際:${slides.length}枚）`
+      );
+    }
+    slides.forEach((slide, index) => {
+      if (Array.from(slide.heading).length > rules.slides!.maxHeadingLength) {
+        issues.push(`${label} の${index + 1}枚目の見出しが長すぎます（最大${rules.slides!.maxHeadingLength}文字）`);
+      }
+      if (Array.from(slide.text).length > rules.slides!.maxTextLength) {
+        issues.push(`${label} の${index + 1}枚目の本文が長すぎます（最大${rules.slides!.maxTextLength}文字）`);
+      }
+    });
+  }
+
+  const text = [...posts, ...(derivative.slides || []).map((slide) => `${slide.heading}\n${slide.text}`)].join("\n");
+  const bannedPatterns = [
+    ...getPlatformDefinition(derivative.sourcePlatform).compliance.bannedPatterns,
+    ...(network === "x" ? getPlatformDefinition("x").compliance.bannedPatterns : []),
+  ];
+  if (bannedPatterns.some((rule) => rule.test(text))) {
+    issues.push(`${label}: プラットフォームの誘導禁止パターンに該当する表現があります`);
+  }
+  if (hasOverclaim(text)) {
+    issues.push(`${label}: 合格保証・収益保証などの誇張表現があります`);
+  }
+
+  return issues;
+}
+
+// ---------------------------------------------------------------------------
+// Generation
+// ---------------------------------------------------------------------------
+
+export interface GenerateSnsDerivativesInput {
+  slot: CalendarSlot;
+  /** The finished article (generated/<date>-<platform>.json) */
+  content: GeneratedContent;
+  /** Defaults to every network */
+  networks?: SnsNetwork[];
+}
+
+/**
+ * Write the SNS posts for a finished article and store them on the calendar
+ * day, replacing earlier drafts for the same networks. Published
+ * derivatives are never overwritten.
+ */
+export async function generateSnsDerivatives(
+  input: GenerateSnsDerivativesInput
+): Promise<SnsDerivative[]> {
+  const { slot, content } = input;
+  const [year, month] = slot.date.split("-").map(Number);
+  const stored = loadCalendarStore().calendars.find(
+    (calendar) => calendar.year === year && calendar.month === month
+  );
+  assertFinishedEntry(slot, stored?.days.find((d) => d.date === slot.date)?.platforms[slot.platform]);
+  const networks = SNS_NETWORKS.filter((network) => (input.networks || SNS_NETWORKS).includes(network));
+  const link = (content.takkenaiLink || "").trim();
+  if (!content.title || !content.body) {
+    throw createSnsDerivativeError("記事の本文がないためSNS投稿を作成できません");
+  }
+  if (!link) {
+    throw createSnsDerivativeError("記事リンク（takkenaiLink）がないためSNS投稿を作成できません");
+  }
+
+  const limits = {
+    x: SNS_NETWORK_RULES.x,
+    threads: SNS_NETWORK_RULES.threads,
+    instagram: SNS_NETWORK_RULES.instagram,
+  };
+  const model = (process.env.SNS_DERIVATIVE_MODEL || "").trim() || DEFAULT_SNS_DERIVATIVE_MODEL;
+  const response = await getLlmProvider().complete({
+    systemPrompt: SNS_DERIVATIVE_SYSTEM_PROMPT,
+    userPrompt: buildSnsDerivativeUserPrompt({
+      sourceLabel: getPlatformDefinition(slot.platform).label,
+      title: content.title,
+      body: content.body,
+      hashtags: content.hashtags || [],
+      link,
+      limits,
+    }),
+    model,
+    maxTokens: 4096,
+  });
+
+  const generatedAt = new Date().toISOString();
+  const derivatives: SnsDerivative[] = normalizeDerivatives(parseDraft(response.text), {
+    sourcePlatform: slot.platform,
+    link,
+    fallbackHashtags: content.hashtags || [],
+    networks,
+  }).map((derivative) => ({
+    ...derivative,
+    issues: validateSnsDerivative(derivative),
+    status: "draft",
+    generatedAt,
+    model: response.model,
+  }));
+
+  await waitForCalendarStore();
+  const day = updateSnsDerivativesWith(slot, (current, entry) => {
+    assertFinishedEntry(slot, entry);
+    const published = current.filter(
+      (derivative) => derivative.status === "published" && networks.includes(derivative.network)
+    );
+    const fresh = derivatives.filter(
+      (derivative) => !published.some((kept) => kept.network === derivative.network)
+    );
+    const untouched = current.filter((derivative) => !networks.includes(derivative.network));
+    return [...untouched, ...published, ...fresh].sort(
+      (a, b) => SNS_NETWORKS.indexOf(a.network) - SNS_NETWORKS.indexOf(b.network)
+    );
+  });
+  if (!day) assertFinishedEntry(slot, undefined);
+  return (day!.derivatives || []).filter((derivative) => derivative.sourcePlatform === slot.platform);
+}
+
+/** Record that a derivative was posted; its text is frozen from then on. */
+export function markSnsDerivativePublished(slot: CalendarSlot, network: SnsNetwork): SnsDerivative {
+  let marked: SnsDerivative | undefined;
+  const day = updateSnsDerivativesWith(slot, (current) =>
+    current.map((derivative) => {
+      if (derivative.network !== network) return derivative;
+      marked = { ...derivative, status: "published", publishedAt: new Date().toISOString() };
+      return marked;
+    })
+  );
+  if (!day || !marked) {
+    throw createSnsDerivativeError(
+      `${slot.date} ${slot.platform} の ${SNS_NETWORK_RULES[network].label} 投稿が見つかりません`
+    );
+  }
+  return marked;
+}
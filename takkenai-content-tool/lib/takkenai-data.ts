@@ -10,10 +10,29 @@ export const TAKKENAI_BASE_URL = "https://takkenai.jp";
 // Types
 // ---------------------------------------------------------------------------
 
+/** 難易度 */
+export type AssetDifficulty = "basic" | "standard" | "advanced";
+
+/**
+ * Editorial facts shared by every asset type. Maintained by hand on the
+ * /assets admin page and injected into the generation prompt so articles
+ * restate our own content instead of guessing from research.
+ */
+export interface AssetMetadata {
+  /** 1–3 sentence summary of what the page teaches or does */
+  summary?: string;
+  /** Short factual statements (numbers, deadlines, requirements) */
+  keyFacts?: string[];
+  /** e.g. "宅建業法35条", "民法第96条" */
+  lawArticles?: string[];
+  difficulty?: AssetDifficulty;
+}
+
 /** 知識ポイント – 187 items covering 宅建 knowledge areas */
-export interface KnowledgePoint {
+export interface KnowledgePoint extends AssetMetadata {
   id: string;
   subject: KnowledgeSubject;
+  /** 日本語タイトル */
   title: string;
   slug: string;
   takkenaiUrl: string;
@@ -21,18 +40,24 @@ export interface KnowledgePoint {
 
 /** 宅建知識科目 */
 export type KnowledgeSubject =
+  | "権利関係"
   | "宅建業法"
   | "法令上の制限"
   | "税・その他"
   | "その他";
 
 /** ツール – 72 items for calculators and utilities on takkenai.jp */
-export interface Tool {
+export interface Tool extends AssetMetadata {
   id: string;
+  /** 日本語のツール名 */
   name: string;
   slug: string;
   category: ToolCategory;
   takkenaiUrl: string;
+  /** What the user enters, e.g. "物件価格" */
+  inputs?: string[];
+  /** What the tool returns, e.g. "仲介手数料の上限額（税込）" */
+  outputs?: string[];
 }
 
 export type ToolCategory =
@@ -50,12 +75,17 @@ export type ToolCategory =
   | "commercial";
 
 /** 過去問 – 1950 items spanning years 1989-2025 */
-export interface PastQuestion {
+export interface PastQuestion extends AssetMetadata {
   id: string;
   year: number;
   number: number;
   subject: string;
   takkenaiUrl: string;
+  /** 日本語タイトル (問題の論点) */
+  title?: string;
+  /** 正解の選択肢番号 (1–4) */
+  correctAnswer?: number;
+  explanation?: string;
 }
 
 /** Union type for any content asset */
@@ -68,10 +98,17 @@ export type ContentAsset =
 // Data directory resolution
 // ---------------------------------------------------------------------------
 
-const DATA_DIR = path.join(process.cwd(), "data");
+const DEFAULT_DATA_DIR = path.join(process.cwd(), "data");
+
+/** Where the asset catalogs live (TAKKENAI_DATA_DIR, default data/). */
+export function getTakkenaiDataDir(): string {
+  const fromEnv = (process.env.TAKKENAI_DATA_DIR || "").trim();
+  if (!fromEnv) return DEFAULT_DATA_DIR;
+  return path.isAbsolute(fromEnv) ? fromEnv : path.join(process.cwd(), fromEnv);
+}
 
 function loadJson<T>(filename: string): T {
-  const filePath = path.join(DATA_DIR, filename);
+  const filePath = path.join(getTakkenaiDataDir(), filename);
   const raw = fs.readFileSync(filePath, "utf-8");
   return JSON.parse(raw) as T;
 }
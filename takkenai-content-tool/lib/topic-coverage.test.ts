@@ -0,0 +1,127 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  getOrCreateCalendar,
+  loadCalendarStore,
+  regenerateCalendar,
+  updatePlatformEntry,
+} from "./calendar-engine";
+import { withTempCalendar } from "./calendar-test-helpers";
+import { buildTopicCoverageReport } from "./topic-coverage";
+import { DEFAULT_TOPIC_ROTATION, parseTopicRotation } from "./topic-rotation";
+import { getKnowledgeSubjects } from "./takkenai-data";
+import { canonicalizeTakkenaiPath } from "./traffic-url-profile";
+
+test("topicRotation validation rejects the whole section on any issue", () => {
+  assert.deepEqual(parseTopicRotation(undefined), {
+    rotation: DEFAULT_TOPIC_ROTATION,
+    issues: [],
+  });
+
+  const valid = parseTopicRotation({
+    cooldownDays: 7,
+    paths: { "https://takkenai.jp/tools/loan/?utm_source=note": 14 },
+  });
+  assert.deepEqual(valid, {
+    rotation: { cooldownDays: 7, paths: { "/tools/loan": 14 } },
+    issues: [],
+  });
+
+  const invalid = parseTopicRotation({
+    cooldownDays: 60,
+    paths: { "https://example.com/tools/loan": 3, "/tools/loan": -1 },
+  });
+  assert.equal(invalid.rotation, DEFAULT_TOPIC_ROTATION);
+  assert.deepEqual(invalid.issues, [
+    "topicRotation.cooldownDays は0〜28の整数で指定してください",
+    "topicRotation.paths.https://example.com/tools/loan は takkenai.jp のパスではありません",
+    "topicRotation.paths./tools/loan は0〜28の整数で指定してください",
+  ]);
+});
+
+test("calendar months never repeat a page within the cooldown, even across months", () => {
+  withTempCalendar(() => {
+    getOrCreateCalendar(2026, 3);
+    const april = getOrCreateCalendar(2026, 4);
+
+    const report = buildTopicCoverageReport(
+      loadCalendarStore().calendars,
+      DEFAULT_TOPIC_ROTATION
+    );
+    assert.deepEqual(report.repeats, []);
+    assert.deepEqual(report.range, { from: "2026-03-01", to: "2026-04-30" });
+
+    // Loading again does not reshuffle pending topics.
+    const urlsOf = (days: typeof april.days) =>
+      days.map((day) => [day.platforms.ameba, day.platforms.note, day.platforms.hatena]
+        .map((entry) => `${entry?.takkenaiUrl}@${entry?.version ?? 0}`));
+    assert.deepEqual(urlsOf(getOrCreateCalendar(2026, 4).days), urlsOf(april.days));
+
+    // Regenerating keeps locked entries and still honours the cooldown.
+    updatePlatformEntry(2026, 4, 10, "note", { status: "published" });
+    const lockedUrl = april.days[9].platforms.note!.takkenaiUrl;
+    const regenerated = regenerateCalendar(2026, 4);
+    assert.equal(regenerated.days[9].platforms.note!.takkenaiUrl, lockedUrl);
+    assert.deepEqual(
+      buildTopicCoverageReport(loadCalendarStore().calendars, DEFAULT_TOPIC_ROTATION).repeats,
+      []
+    );
+  });
+});
+
+test("coverage report counts used and published pages per asset and subject", () => {
+  withTempCalendar(() => {
+    const calendar = getOrCreateCalendar(2026, 5);
+    // Days whose ameba slot is an asset page (not a direct traffic-profile URL)
+    const assetDays = calendar.days
+      .map((day, index) => ({ day: index + 1, mode: day.motherTopics.ameba!.urlSelectionMode }))
+      .filter((slot) => slot.mode === "asset")
+      .map((slot) => slot.day);
+    const [publishedDay, generatedDay, skippedDay] = assetDays;
+    updatePlatformEntry(2026, 5, publishedDay, "ameba", { status: "published" });
+    updatePlatformEntry(2026, 5, generatedDay, "ameba", { status: "generated" });
+    updatePlatformEntry(2026, 5, skippedDay, "ameba", { status: "skipped" });
+
+    const report = buildTopicCoverageReport(
+      loadCalendarStore().calendars,
+      DEFAULT_TOPIC_ROTATION
+    );
+    const pathOf = (day: number) =>
+      canonicalizeTakkenaiPath(calendar.days[day - 1].platforms.ameba!.takkenaiUrl);
+
+    const published = report.assets.find((asset) => asset.path === pathOf(publishedDay));
+    assert.ok(published);
+    assert.ok(published.used >= 1);
+    assert.ok(published.published >= 1);
+    assert.ok(published.lastPublishedDate);
+
+    const generated = report.assets.find((asset) => asset.path === pathOf(generatedDay));
+    assert.ok(generated);
+    assert.ok(generated.used >= 1);
+
+    const planned = calendar.days.length * 3 - 1;
+    const totalPlanned =
+      report.assets.reduce((sum, asset) => sum + asset.planned, 0) +
+      report.otherPages.reduce((sum, page) => sum + page.planned, 0);
+    assert.equal(totalPlanned, planned);
+
+    // Nothing else has been generated yet, so almost everything is uncovered.
+    const usedAssets = report.assets.filter((asset) => asset.used > 0).length;
+    const pickable =
+      report.byType.tool.total +
+      report.byType["knowledge-point"].total +
+      report.byType["past-question"].total;
+    assert.equal(report.neverCovered.length, pickable - usedAssets);
+    assert.ok(report.neverCovered.every((asset) => asset.path !== pathOf(publishedDay)));
+
+    assert.deepEqual(
+      report.subjects.map((subject) => subject.subject),
+      getKnowledgeSubjects()
+    );
+    for (const subject of report.subjects) {
+      assert.ok(subject.covered <= subject.total);
+      assert.equal(subject.coverageRate, Math.round((subject.covered / subject.total) * 1000) / 1000);
+    }
+  });
+});
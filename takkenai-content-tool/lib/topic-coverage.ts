@@ -0,0 +1,295 @@
+import type { ContentStatus, MonthCalendar } from "./calendar-engine";
+import {
+  getKnowledgePoints,
+  getKnowledgeSubjects,
+  getPastQuestions,
+  getTools,
+  type ContentAsset,
+  type KnowledgeSubject,
+} from "./takkenai-data";
+import { getAssetLabel, getLatestPastQuestionYear, type Platform } from "./topic-engine";
+import type { TopicAssetType } from "./topic-mix";
+import {
+  daysBetweenDates,
+  getPathCooldownDays,
+  type TopicRotationConfig,
+} from "./topic-rotation";
+import { canonicalizeTakkenaiPath } from "./traffic-url-profile";
+import { platformsOf } from "./platform-registry";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface CoverageCounts {
+  /** Planned on the calendar (any status except skipped) */
+  planned: number;
+  /** Generated, reviewed or published */
+  used: number;
+  published: number;
+}
+
+export interface AssetCoverage extends CoverageCounts {
+  type: TopicAssetType;
+  id: string;
+  label: string;
+  path: string;
+  /** Knowledge subject, tool category or past-question subject */
+  group: string;
+  firstDate: string;
+  lastDate: string;
+  lastPublishedDate?: string;
+  /** Smallest gap in days between two plans of the same page */
+  minGapDays?: number;
+}
+
+export interface UncoveredAsset {
+  type: TopicAssetType;
+  id: string;
+  label: string;
+  path: string;
+  group: string;
+}
+
+export interface TypeCoverage {
+  /** Assets the topic engine can pick (past questions: latest exam year only) */
+  total: number;
+  planned: number;
+  used: number;
+  published: number;
+}
+
+export interface SubjectCoverage {
+  subject: KnowledgeSubject;
+  total: number;
+  /** Knowledge points generated or published at least once */
+  covered: number;
+  published: number;
+  /** covered / total (0-1) */
+  coverageRate: number;
+  uses: number;
+}
+
+export interface RepeatedTopic {
+  path: string;
+  label: string;
+  firstDate: string;
+  firstPlatform: Platform;
+  secondDate: string;
+  secondPlatform: Platform;
+  gapDays: number;
+  cooldownDays: number;
+}
+
+export interface TopicCoverageReport {
+  /** First and last calendar day considered */
+  range: { from: string; to: string } | null;
+  byType: Record<TopicAssetType, TypeCoverage>;
+  /** Every asset that appears on the calendar, most planned first */
+  assets: AssetCoverage[];
+  neverCovered: UncoveredAsset[];
+  subjects: SubjectCoverage[];
+  /** Pages picked directly from the traffic profile that map to no asset */
+  otherPages: Array<CoverageCounts & { path: string; label: string }>;
+  /** Consecutive plans of the same page closer than its cooldown */
+  repeats: RepeatedTopic[];
+}
+
+interface AssetIndexEntry {
+  type: TopicAssetType;
+  id: string;
+  label: string;
+  group: string;
+}
+
+// ---------------------------------------------------------------------------
+// Report
+// ---------------------------------------------------------------------------
+
+const USED_STATUSES: ContentStatus[] = ["generated", "reviewed", "published"];
+
+function describeAsset(asset: ContentAsset): AssetIndexEntry {
+  switch (asset.type) {
+    case "knowledge-point":
+      return { type: asset.type, id: asset.data.id, label: getAssetLabel(asset), group: asset.data.subject };
+    case "tool":
+      return { type: asset.type, id: asset.data.id, label: getAssetLabel(asset), group: asset.data.category };
+    case "past-question":
+      return {
+        type: asset.type,
+        id: asset.data.id,
+        label: getAssetLabel(asset),
+        group: `${asset.data.year}年度`,
+      };
+  }
+}
+
+/** Canonical path → asset, in the topic engine's precedence (tools first). */
+function buildAssetIndex(): { byPath: Map<string, AssetIndexEntry>; pickable: Map<string, AssetIndexEntry> } {
+  const byPath = new Map<string, AssetIndexEntry>();
+  const pickable = new Map<string, AssetIndexEntry>();
+  const latestYear = getLatestPastQuestionYear();
+  const assets: ContentAsset[] = [
+    ...getTools().map((data) => ({ type: "tool" as const, data })),
+    ...getKnowledgePoints().map((data) => ({ type: "knowledge-point" as const, data })),
+    ...getPastQuestions().map((data) => ({ type: "past-question" as const, data })),
+  ];
+  for (const asset of assets) {
+    const path = canonicalizeTakkenaiPath(asset.data.takkenaiUrl);
+    if (!path || byPath.has(path)) continue;
+    const entry = describeAsset(asset);
+    byPath.set(path, entry);
+    if (asset.type !== "past-question" || asset.data.year === latestYear) {
+      pickable.set(path, entry);
+    }
+  }
+  return { byPath, pickable };
+}
+
+function emptyTypeCoverage(): TypeCoverage {
+  return { total: 0, planned: 0, used: 0, published: 0 };
+}
+
+/**
+ * Historical coverage of the content assets across every stored calendar:
+ * how often each page was planned / used / published, what was never
+ * covered, knowledge-subject coverage and repeats closer than the cooldown.
+ */
+export function buildTopicCoverageReport(
+  calendars: MonthCalendar[],
+  rotation: TopicRotationConfig
+): TopicCoverageReport {
+  const { byPath, pickable } = buildAssetIndex();
+  const days = calendars
+    .flatMap((calendar) => calendar.days)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const assets = new Map<string, AssetCoverage>();
+  const otherPages = new Map<string, CoverageCounts & { path: string; label: string }>();
+  const lastPlan = new Map<string, { date: string; platform: Platform }>();
+  const repeats: RepeatedTopic[] = [];
+
+  for (const day of days) {
+    for (const platform of platformsOf(day.platforms)) {
+      const entry = day.platforms[platform];
+      const topic = day.motherTopics[platform];
+      if (!entry || !topic || entry.status === "skipped") continue;
+      const path = canonicalizeTakkenaiPath(entry.takkenaiUrl || topic.takkenaiUrl);
+      if (!path) continue;
+
+      const used = USED_STATUSES.includes(entry.status) ? 1 : 0;
+      const published = entry.status === "published" ? 1 : 0;
+      const asset = byPath.get(path);
+      if (asset) {
+        const current = assets.get(path);
+        if (current) {
+          current.planned++;
+          current.used += used;
+          current.published += published;
+          current.lastDate = day.date;
+          if (published) current.lastPublishedDate = day.date;
+        } else {
+          assets.set(path, {
+            ...asset,
+            path,
+            planned: 1,
+            used,
+            published,
+            firstDate: day.date,
+            lastDate: day.date,
+            ...(published ? { lastPublishedDate: day.date } : {}),
+          });
+        }
+      } else {
+        const current = otherPages.get(path) || {
+          path,
+          label: topic.topicLabelOverride || path,
+          planned: 0,
+          used: 0,
+          published: 0,
+        };
+        current.planned++;
+        current.used += used;
+        current.published += published;
+        otherPages.set(path, current);
+      }
+
+      const previous = lastPlan.get(path);
+      if (previous) {
+        const gapDays = daysBetweenDates(previous.date, day.date);
+        const coverage = assets.get(path);
+        if (coverage && (coverage.minGapDays === undefined || gapDays < coverage.minGapDays)) {
+          coverage.minGapDays = gapDays;
+        }
+        const cooldownDays = getPathCooldownDays(rotation, path);
+        if (gapDays < cooldownDays) {
+          repeats.push({
+            path,
+            label: asset?.label || topic.topicLabelOverride || path,
+            firstDate: previous.date,
+            firstPlatform: previous.platform,
+            secondDate: day.date,
+            secondPlatform: platform,
+            gapDays,
+            cooldownDays,
+          });
+        }
+      }
+      lastPlan.set(path, { date: day.date, platform });
+    }
+  }
+
+  const byType: Record<TopicAssetType, TypeCoverage> = {
+    "knowledge-point": emptyTypeCoverage(),
+    tool: emptyTypeCoverage(),
+    "past-question": emptyTypeCoverage(),
+  };
+  const neverCovered: UncoveredAsset[] = [];
+  pickable.forEach((asset, path) => {
+    const coverage = assets.get(path);
+    const totals = byType[asset.type];
+    totals.total++;
+    if (coverage) {
+      totals.planned++;
+      if (coverage.used > 0) totals.used++;
+      if (coverage.published > 0) totals.published++;
+    }
+    if (!coverage || coverage.used === 0) {
+      neverCovered.push({ ...asset, path });
+    }
+  });
+
+  const subjects: SubjectCoverage[] = getKnowledgeSubjects().map((subject) => {
+    const points = getKnowledgePoints().filter((kp) => kp.subject === subject);
+    let covered = 0;
+    let published = 0;
+    let uses = 0;
+    for (const kp of points) {
+      const coverage = assets.get(canonicalizeTakkenaiPath(kp.takkenaiUrl));
+      if (!coverage) continue;
+      if (coverage.used > 0) covered++;
+      if (coverage.published > 0) published++;
+      uses += coverage.used;
+    }
+    return {
+      subject,
+      total: points.length,
+      covered,
+      published,
+      coverageRate: points.length > 0 ? Math.round((covered / points.length) * 1000) / 1000 : 0,
+      uses,
+    };
+  });
+
+  return {
+    range: days.length > 0 ? { from: days[0].date, to: days[days.length - 1].date } : null,
+    byType,
+    assets: Array.from(assets.values()).sort(
+      (a, b) => b.planned - a.planned || b.used - a.used || a.path.localeCompare(b.path)
+    ),
+    neverCovered,
+    subjects,
+    otherPages: Array.from(otherPages.values()).sort((a, b) => b.planned - a.planned),
+    repeats,
+  };
+}
@@ -18,9 +18,9 @@ test("traffic allocator should keep unique urls per day across 3 platforms", ()
     const date = shiftDate("2026-02-01", i);
     const topics = generateDayTopics(date);
     const paths = [
-      canonicalizeTakkenaiPath(topics.motherTopics.ameba.takkenaiUrl),
-      canonicalizeTakkenaiPath(topics.motherTopics.note.takkenaiUrl),
-      canonicalizeTakkenaiPath(topics.motherTopics.hatena.takkenaiUrl),
+      canonicalizeTakkenaiPath(topics.motherTopics.ameba!.takkenaiUrl),
+      canonicalizeTakkenaiPath(topics.motherTopics.note!.takkenaiUrl),
+      canonicalizeTakkenaiPath(topics.motherTopics.hatena!.takkenaiUrl),
     ];
     assert.equal(new Set(paths).size, 3, `${date} has duplicate URL paths: ${paths.join(", ")}`);
   }
@@ -36,7 +36,7 @@ test("traffic allocator should roughly follow 70/30 high-explore split", () => {
     const date = shiftDate("2026-02-01", i);
     const topics = generateDayTopics(date);
     for (const platform of ["ameba", "note", "hatena"] as const) {
-      const tier = topics.motherTopics[platform].urlTier;
+      const tier = topics.motherTopics[platform]!.urlTier;
       if (!tier) continue;
       total += 1;
       if (tier === "high") high += 1;
@@ -60,7 +60,7 @@ test("url-direct mode should provide a topicLabelOverride", () => {
     const date = shiftDate("2026-01-01", i);
     const topics = generateDayTopics(date);
     for (const platform of ["ameba", "note", "hatena"] as const) {
-      const topic = topics.motherTopics[platform];
+      const topic = topics.motherTopics[platform]!;
       if (topic.urlSelectionMode !== "url-direct") continue;
       directCount += 1;
       assert.ok(
@@ -79,9 +79,9 @@ test("missing traffic profile should fallback without throwing", () => {
 
   try {
     const topics = generateDayTopics("2026-02-26");
-    assert.ok(topics.motherTopics.ameba.takkenaiUrl);
-    assert.ok(topics.motherTopics.note.takkenaiUrl);
-    assert.ok(topics.motherTopics.hatena.takkenaiUrl);
+    assert.ok(topics.motherTopics.ameba!.takkenaiUrl);
+    assert.ok(topics.motherTopics.note!.takkenaiUrl);
+    assert.ok(topics.motherTopics.hatena!.takkenaiUrl);
   } finally {
     if (prev === undefined) {
       delete process.env.TRAFFIC_URL_PROFILE_FILE;
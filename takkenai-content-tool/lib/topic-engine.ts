@@ -5,34 +5,67 @@ import {
   seededRandom,
   dateToSeed,
   buildFullUrl,
+  getKnowledgePointById,
+  getPastQuestionById,
+  getToolById,
   type KnowledgePoint,
   type Tool,
   type PastQuestion,
   type ContentAsset,
 } from "./takkenai-data";
 import { normalizeAssetLabel } from "./topic-label";
+import {
+  getPlatformDefinition,
+  listPlatforms,
+  platformsOf,
+  type Platform,
+  type PlatformMap,
+} from "./platform-registry";
+import { getUrlWeightMultipliers } from "./performance-weights";
 import {
   buildTakkenaiUrlFromPath,
   canonicalizeTakkenaiPath,
   choosePreferredTierForSlot,
+  inferTrafficUrlGroup,
   loadTrafficUrlProfile,
   pickTrafficUrlForSlot,
   type TrafficUrlGroup,
   type TrafficUrlTier,
 } from "./traffic-url-profile";
+import {
+  formatExamDate,
+  getExamPhase,
+  getExamTimeline,
+  type ExamTimeline,
+} from "./exam-calendar";
+import {
+  getTopicMixWeekday,
+  pickTopicAssetType,
+  resolveTopicMix,
+  TOPIC_MIX_WEEKDAYS,
+  type TopicAssetType,
+  type TopicMixConfig,
+  type TopicMixWeekday,
+} from "./topic-mix";
+import { getEnabledPlatforms, resolveSiteManifest } from "./site-config";
+import {
+  collectCoolingDownPaths,
+  type TopicPathUsage,
+  type TopicRotationConfig,
+} from "./topic-rotation";
 
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
 
-export type Platform = "ameba" | "note" | "hatena";
+export type { Platform, PlatformMap } from "./platform-registry";
 
 export type SeasonalPhase =
   | "motivation-basics"    // Jan-Mar
-  | "deep-dive"            // Apr-Jun
-  | "practice-intensive"   // Jul-Sep
-  | "exam-tips"            // Oct
-  | "results-career";      // Nov-Dec
+  | "deep-dive"            // Apr until applications open
+  | "practice-intensive"   // applications open until 4 weeks before the exam
+  | "exam-tips"            // last 4 weeks up to the exam day
+  | "results-career";      // day after the exam until Dec 31
 
 export interface MotherTopic {
   /** The primary content asset driving today's content */
@@ -70,90 +103,48 @@ export interface PlatformPlan {
 }
 
 export interface DayTopics {
+  /** YYYY-MM-DD */
+  date: string;
   /** Per-platform mother topics — each platform gets its own independent topic */
-  motherTopics: {
-    ameba: MotherTopic;
-    note: MotherTopic;
-    hatena: MotherTopic;
-  };
-  platforms: {
-    ameba: PlatformPlan;
-    note: PlatformPlan;
-    hatena: PlatformPlan;
-  };
+  motherTopics: PlatformMap<MotherTopic>;
+  /** Plans for the same platforms as `motherTopics` */
+  platforms: PlatformMap<PlatformPlan>;
 }
 
 // ---------------------------------------------------------------------------
 // Seasonal phase detection
 // ---------------------------------------------------------------------------
 
-// 選題比率（全フェーズ共通）
-// 1) ツール: 80%
-// 2) ツール以外20%は、過去問 : 知識ポイント = 2 : 1
-//    => 過去問 13.3% / 知識ポイント 6.7%
-const TOOL_SHARE = 0.8;
-const TOOL_VIDEO_MARKETING_SHARE = 0.4; // ツール内の40%を video/marketing 系に寄せる
-const TOOL_FIRST_WEIGHTS = {
-  knowledgePoint: 0.067,
-  tool: TOOL_SHARE,
-  pastQuestion: 0.133,
-};
+// 選題比率（ツール / 過去問 / 知識ポイント）はサイトマニフェストの topicMix で
+// フェーズ・プラットフォーム・曜日ごとに指定する（lib/topic-mix.ts）。
 
-const PHASE_CONFIG: Record<
-  SeasonalPhase,
-  {
-    label: string;
-    weights: { knowledgePoint: number; tool: number; pastQuestion: number };
-  }
-> = {
+const PHASE_CONFIG: Record<SeasonalPhase, { label: string }> = {
   "motivation-basics": {
     label: "モチベーション・基礎固め期（1〜3月）",
-    weights: TOOL_FIRST_WEIGHTS,
   },
   "deep-dive": {
-    label: "深掘り・科目別学習期（4〜6月）",
-    weights: TOOL_FIRST_WEIGHTS,
+    label: "深掘り・科目別学習期（4月〜申込開始）",
   },
   "practice-intensive": {
-    label: "実践・模試・追い込み期（7〜9月）",
-    weights: TOOL_FIRST_WEIGHTS,
+    label: "実践・模試・追い込み期（申込開始〜試験4週間前）",
   },
   "exam-tips": {
-    label: "直前対策・予想期（10月）",
-    weights: TOOL_FIRST_WEIGHTS,
+    label: "直前対策・予想期（試験4週間前〜試験当日）",
   },
   "results-career": {
-    label: "結果・キャリア期（11〜12月）",
-    weights: TOOL_FIRST_WEIGHTS,
+    label: "結果・キャリア期（試験翌日〜12月）",
   },
 };
 
-export function getSeasonalPhase(month: number): SeasonalPhase {
-  if (month >= 1 && month <= 3) return "motivation-basics";
-  if (month >= 4 && month <= 6) return "deep-dive";
-  if (month >= 7 && month <= 9) return "practice-intensive";
-  if (month === 10) return "exam-tips";
-  return "results-career";
+/** Phase for a YYYY-MM-DD date; boundaries come from data/exam-calendar.json. */
+export function getSeasonalPhase(dateStr: string): SeasonalPhase {
+  return getExamPhase(dateStr);
 }
 
 // ---------------------------------------------------------------------------
 // Deterministic asset selection
 // ---------------------------------------------------------------------------
 
-/**
- * Pick a content asset type based on seasonal weights and a seeded RNG.
- */
-function pickAssetType(
-  rng: () => number,
-  phase: SeasonalPhase
-): "knowledge-point" | "tool" | "past-question" {
-  const w = PHASE_CONFIG[phase].weights;
-  const roll = rng();
-  if (roll < w.knowledgePoint) return "knowledge-point";
-  if (roll < w.knowledgePoint + w.pastQuestion) return "past-question";
-  return "tool";
-}
-
 /**
  * Select a specific asset from a pool using modular arithmetic for even rotation.
  * Uses the day-of-year + seed to cycle through items without repeating within
@@ -170,12 +161,17 @@ function isVideoOrMarketingTool(tool: Tool): boolean {
   return category === "marketing" || /video/.test(haystack);
 }
 
-function selectToolByMix(seed: number, dayOfYear: number, rng: () => number): Tool {
+function selectToolByMix(
+  seed: number,
+  dayOfYear: number,
+  rng: () => number,
+  videoMarketingShare: number
+): Tool {
   const tools = getTools();
   const videoMarketingTools = tools.filter(isVideoOrMarketingTool);
   const standardTools = tools.filter((tool) => !isVideoOrMarketingTool(tool));
 
-  const preferVideoMarketing = rng() < TOOL_VIDEO_MARKETING_SHARE;
+  const preferVideoMarketing = rng() < videoMarketingShare;
   const primaryPool =
     preferVideoMarketing && videoMarketingTools.length > 0
       ? videoMarketingTools
@@ -226,17 +222,19 @@ export function getLatestPastQuestionYear(): number {
  */
 function generateMotherTopic(
   dateStr: string,
+  platform: Platform,
+  topicMix: TopicMixConfig,
   platformOffset: number = 0,
   seedSalt: number = 0
 ): MotherTopic {
   const date = new Date(dateStr + "T00:00:00");
-  const month = date.getMonth() + 1;
   const dayOfYear = getDayOfYear(date);
-  const phase = getSeasonalPhase(month);
+  const phase = getSeasonalPhase(dateStr);
   const seed = dateToSeed(dateStr) + platformOffset + seedSalt * 7919;
   const rng = seededRandom(seed);
 
-  const assetType = pickAssetType(rng, phase);
+  const mix = resolveTopicMix(topicMix, { phase, platform, date: dateStr });
+  const assetType: TopicAssetType = pickTopicAssetType(rng(), mix.weights);
 
   let asset: ContentAsset;
   let takkenaiUrl: string;
@@ -250,7 +248,7 @@ function generateMotherTopic(
       break;
     }
     case "tool": {
-      const item = selectToolByMix(seed, dayOfYear, rng);
+      const item = selectToolByMix(seed, dayOfYear, rng, mix.toolVideoMarketingShare);
       asset = { type: "tool", data: item };
       takkenaiUrl = buildFullUrl(item.takkenaiUrl);
       break;
@@ -379,6 +377,7 @@ function applyTrafficUrlSelection(params: {
     excludeCanonicalPaths: params.usedCanonicalUrls,
     seedSalt: params.seedSalt,
     attempt: params.attempt,
+    weightMultipliers: getUrlWeightMultipliers(params.platform),
   });
   if (!picked) return params.topic;
 
@@ -415,6 +414,39 @@ function applyTrafficUrlSelection(params: {
 // Platform-specific angle generation
 // ---------------------------------------------------------------------------
 
+function generatePlatformTitle(platform: Platform, topicLabel: string, phase: SeasonalPhase): string {
+  switch (platform) {
+    case "ameba":
+      return generateAmebaTitle(topicLabel, phase);
+    case "note":
+      return generateNoteTitle(topicLabel, phase);
+    case "hatena":
+      return generateHatenaTitle(topicLabel, phase);
+    case "wordpress":
+      return generateWordpressTitle(topicLabel, phase);
+    case "qiita":
+      return generateQiitaTitle(topicLabel, phase);
+    case "x":
+      return generateXTitle(topicLabel, phase);
+  }
+}
+
+function generatePlatformPlan(
+  platform: Platform,
+  motherTopic: MotherTopic,
+  topicLabel: string
+): PlatformPlan {
+  const definition = getPlatformDefinition(platform);
+  return {
+    platform,
+    platformLabel: definition.label,
+    angle: definition.angle,
+    titleSuggestion: generatePlatformTitle(platform, topicLabel, motherTopic.phase),
+    targetLength: { ...definition.targetLength },
+    takkenaiUrl: motherTopic.takkenaiUrl,
+  };
+}
+
 /**
  * Generate platform-specific content angles based on per-platform mother topics.
  * Each platform has its own topic, style, audience expectation, and content structure.
@@ -422,39 +454,19 @@ function applyTrafficUrlSelection(params: {
 function generatePlatformPlans(
   motherTopics: DayTopics["motherTopics"]
 ): DayTopics["platforms"] {
-  return {
-    ameba: {
-      platform: "ameba",
-      platformLabel: "Ameba（アメブロ）",
-      angle: "場面別やさしい解説 / 実務ヒント",
-      titleSuggestion: generateAmebaTitle(getAssetLabel(motherTopics.ameba.asset), motherTopics.ameba.phase),
-      targetLength: { min: 800, max: 1200 },
-      takkenaiUrl: motherTopics.ameba.takkenaiUrl,
-    },
-    note: {
-      platform: "note",
-      platformLabel: "note",
-      angle: "深掘り分析 / 実務視点",
-      titleSuggestion: generateNoteTitle(getAssetLabel(motherTopics.note.asset), motherTopics.note.phase),
-      targetLength: { min: 2000, max: 3000 },
-      takkenaiUrl: motherTopics.note.takkenaiUrl,
-    },
-    hatena: {
-      platform: "hatena",
-      platformLabel: "はてなブログ",
-      angle: "完全ガイド / 保存版まとめ",
-      titleSuggestion: generateHatenaTitle(getAssetLabel(motherTopics.hatena.asset), motherTopics.hatena.phase),
-      targetLength: { min: 1500, max: 3000 },
-      takkenaiUrl: motherTopics.hatena.takkenaiUrl,
-    },
-  };
+  const plans: DayTopics["platforms"] = {};
+  for (const platform of platformsOf(motherTopics)) {
+    const motherTopic = motherTopics[platform] as MotherTopic;
+    plans[platform] = generatePlatformPlan(platform, motherTopic, getAssetLabel(motherTopic.asset));
+  }
+  return plans;
 }
 
 // ---------------------------------------------------------------------------
 // Title generation helpers
 // ---------------------------------------------------------------------------
 
-function getAssetLabel(asset: ContentAsset): string {
+export function getAssetLabel(asset: ContentAsset): string {
   switch (asset.type) {
     case "knowledge-point": {
       const kp = asset.data as KnowledgePoint;
@@ -588,14 +600,195 @@ function generateHatenaTitle(topicLabel: string, phase: SeasonalPhase): string {
   return options[0];
 }
 
+/** WordPress: search-driven how-to guide */
+function generateWordpressTitle(topicLabel: string, phase: SeasonalPhase): string {
+  const templates: Record<SeasonalPhase, string[]> = {
+    "motivation-basics": [
+      `${topicLabel}とは？宅建の基礎からわかりやすく解説`,
+      `初心者向け：${topicLabel}の基本と覚え方`,
+    ],
+    "deep-dive": [
+      `${topicLabel}の要点と手順をわかりやすく解説【宅建】`,
+      `${topicLabel}を事例で理解する：判断手順と注意点`,
+    ],
+    "practice-intensive": [
+      `${topicLabel}の頻出パターンと解き方を手順で解説`,
+      `${topicLabel}でよくある間違いと対策まとめ`,
+    ],
+    "exam-tips": [
+      `試験直前に確認したい${topicLabel}のポイント`,
+      `${topicLabel}の最終チェック：本番で迷わないために`,
+    ],
+    "results-career": [
+      `${topicLabel}を実務で使う：宅建合格後の活用ガイド`,
+      `宅建士が知っておきたい${topicLabel}の実務ポイント`,
+    ],
+  };
+
+  const options = templates[phase];
+  return options[0];
+}
+
+/** Qiita: the calculation / decision logic behind the topic, for developers */
+function generateQiitaTitle(topicLabel: string, phase: SeasonalPhase): string {
+  const templates: Record<SeasonalPhase, string[]> = {
+    "motivation-basics": [
+      `${topicLabel}のルールを判定ロジックとして整理してみた`,
+      `エンジニア向け：${topicLabel}の仕組みを分解する`,
+    ],
+    "deep-dive": [
+      `${topicLabel}の計算・判定ロジックを実装視点で解説する`,
+      `${topicLabel}の条件分岐をフローチャートで整理する`,
+    ],
+    "practice-intensive": [
+      `${topicLabel}のエッジケースをテストケースで洗い出す`,
+      `${topicLabel}の判定ミスが起きやすい条件を整理する`,
+    ],
+    "exam-tips": [
+      `${topicLabel}の判定フローを最短で確認するチートシート`,
+      `${topicLabel}のルールを表とコードで一気に見直す`,
+    ],
+    "results-career": [
+      `不動産実務の${topicLabel}をシステム化するときの設計メモ`,
+      `${topicLabel}を業務ツールに組み込むときの注意点`,
+    ],
+  };
+
+  const options = templates[phase];
+  return options[0];
+}
+
+/** X: the hook post of a short thread */
+function generateXTitle(topicLabel: string, phase: SeasonalPhase): string {
+  const templates: Record<SeasonalPhase, string[]> = {
+    "motivation-basics": [
+      `${topicLabel}、最初に押さえる3つのポイント`,
+      `${topicLabel}を1分で整理`,
+    ],
+    "deep-dive": [
+      `${topicLabel}で迷いやすいところをスレッドで解説`,
+      `${topicLabel}の判断手順まとめ`,
+    ],
+    "practice-intensive": [
+      `${topicLabel}のひっかけポイント、まとめました`,
+      `${topicLabel}で失点しないためのチェック`,
+    ],
+    "exam-tips": [
+      `試験直前：${topicLabel}の最終チェック`,
+      `本番前に${topicLabel}をおさらい`,
+    ],
+    "results-career": [
+      `${topicLabel}は実務でこう使う`,
+      `合格後に役立つ${topicLabel}の話`,
+    ],
+  };
+
+  const options = templates[phase];
+  return options[0];
+}
+
 // ---------------------------------------------------------------------------
 // Date-aware seasonal context (月別・時期別の時令ガイド)
 // ---------------------------------------------------------------------------
 
+/** 試験50日前を切ったら「基礎固め」はミスマッチ */
+const BASICS_CUTOFF_DAYS = 50;
+/** 申込開始の何日前から申込準備を切り口にするか */
+const APPLICATION_LEAD_DAYS = 45;
+
+interface ExamSeasonRules {
+  /** 試験直前・当日・合格発表待ちの間は月のテーマより優先する */
+  theme?: string;
+  hooks: string[];
+  avoid: string[];
+}
+
+function formatMonthDay(isoDate: string): string {
+  const [, month, day] = isoDate.split("-");
+  return `${Number(month)}月${Number(day)}日`;
+}
+
+/**
+ * 試験カレンダー（data/exam-calendar.json）から、本試験・申込期間・
+ * 合格発表・登録実務講習に連動する切り口と禁止テーマを組み立てる。
+ */
+function buildExamSeasonRules(timeline: ExamTimeline): ExamSeasonRules {
+  const { nextExam, finishedExam, daysToExam, application } = timeline;
+  const rules: ExamSeasonRules = { hooks: [], avoid: [] };
+
+  if (daysToExam === 0) {
+    rules.theme = "宅建試験当日";
+    rules.hooks.push("試験当日の心構え、持ち物と時間配分の最終確認、見直しのコツ");
+    rules.avoid.push("「基礎固め」「今から始める学習計画」— 今日が本試験日");
+  } else if (finishedExam) {
+    const resultDay = formatMonthDay(finishedExam.resultDate);
+    if (timeline.resultsAnnounced) {
+      rules.hooks.push(
+        `合格発表（${resultDay}）後の登録手続き、キャリアプラン、来年度受験者への助言`
+      );
+    } else {
+      rules.theme = "試験終了・合格発表待ち期";
+      rules.hooks.push(
+        `自己採点と振り返り、合格発表（${resultDay}）までの過ごし方、登録手続きの下調べ`
+      );
+      rules.avoid.push(`「合格おめでとう」「合格発表の結果」— 合格発表は${resultDay}でまだ行われていない`);
+    }
+    rules.avoid.push(
+      `「直前対策」「試験対策」「試験まであと○日」— ${finishedExam.year}年度の試験（${formatMonthDay(finishedExam.examDate)}）は終了済み`
+    );
+  } else {
+    if (timeline.phase === "exam-tips") {
+      rules.theme = "試験直前期";
+      rules.hooks.push(
+        `試験直前の最終確認（本試験まで残り${daysToExam}日）、当日の心構え、直前に差がつくポイント、合格ラインの予想`
+      );
+    }
+    if (daysToExam <= BASICS_CUTOFF_DAYS) {
+      rules.avoid.push(`「基礎固め」「今から始める」— 試験まで残り${daysToExam}日で基礎の話はミスマッチ`);
+    }
+
+    if (application.status === "open") {
+      const deadlines = nextExam.applicationWindows
+        .map((window) => `${window.label}は${formatMonthDay(window.end)}まで`)
+        .join("・");
+      rules.hooks.push(`試験申込（受付中: ${deadlines}、締切まで残り${application.daysLeft}日）`);
+    } else if (application.status === "upcoming") {
+      if (application.daysLeft <= APPLICATION_LEAD_DAYS) {
+        rules.hooks.push(`試験申込の準備（受付開始は${formatMonthDay(application.opensOn)}）`);
+      }
+      rules.avoid.push(
+        `「申込受付中」「今すぐ申込」— ${nextExam.year}年度の申込受付は${formatMonthDay(application.opensOn)}から`
+      );
+    } else {
+      rules.avoid.push(
+        `「今から申し込める」「申込受付中」— ${nextExam.year}年度の申込受付は${formatMonthDay(application.closesOn)}に終了`
+      );
+    }
+  }
+
+  for (const course of timeline.activeRegistrationCourses) {
+    rules.hooks.push(
+      `${course.label}・受講期間${formatMonthDay(course.start)}〜${formatMonthDay(course.end)}`
+    );
+  }
+  return rules;
+}
+
+function describeExamCountdown(timeline: ExamTimeline): string {
+  const { nextExam, daysToExam } = timeline;
+  const examDay = `${formatExamDate(nextExam.examDate)}${nextExam.estimated ? "・見込み" : ""}`;
+  if (daysToExam === 0) return `本日が本試験日（${examDay}）`;
+  if (timeline.finishedExam) {
+    return `次回（${nextExam.year}年度）の本試験まで残り${daysToExam}日（${examDay}）`;
+  }
+  return `残り${daysToExam}日（${nextExam.year}年度本試験: ${examDay}）`;
+}
+
 /**
  * 日付に基づいた精細な時令コンテキストを返す。
  * AI が「新年」を2月に書くような季節ズレを防ぐために、
  * 具体的な日付を伝え、適切なテーマと禁止テーマを明示する。
+ * 試験まわりの日数・切り口・禁止テーマは試験カレンダーに従う。
  */
 export function getDateSeasonalContext(dateStr: string): string {
   const date = new Date(dateStr + "T00:00:00");
@@ -607,13 +800,9 @@ export function getDateSeasonalContext(dateStr: string): string {
   const weekday = weekdays[date.getDay()];
   const dateDisplay = `${month}月${day}日（${weekday}）`;
 
-  // 宅建試験は毎年10月第3日曜日 — 残り日数の目安
-  const examMonth = 10;
-  const examYear = month <= 10 ? date.getFullYear() : date.getFullYear() + 1;
-  const examApprox = new Date(examYear, examMonth - 1, 15); // 10月15日を概算
-  const daysToExam = Math.round(
-    (examApprox.getTime() - date.getTime()) / (1000 * 60 * 60 * 24)
-  );
+  const timeline = getExamTimeline(dateStr);
+  const examRules = buildExamSeasonRules(timeline);
+  const scheduleExam = timeline.finishedExam || timeline.nextExam;
 
   let seasonalTheme: string;
   let appropriateHooks: string;
@@ -666,12 +855,12 @@ export function getDateSeasonalContext(dateStr: string): string {
   } else if (month === 6) {
     seasonalTheme = "梅雨・申込準備期";
     appropriateHooks =
-      "梅雨の自宅学習、試験申込の準備、科目別の仕上げ、折り返し地点";
+      "梅雨の自宅学習、科目別の仕上げ、折り返し地点";
     avoidThemes = "「新年」「年始」";
   } else if (month === 7) {
     seasonalTheme = "夏の集中学習・申込開始";
     appropriateHooks =
-      "夏の集中学習、試験申込手続き、過去問演習の開始、模試の活用";
+      "夏の集中学習、過去問演習の開始、模試の活用";
     avoidThemes = "「新年」「年始」";
   } else if (month === 8) {
     seasonalTheme = "お盆返上・模試シーズン";
@@ -682,30 +871,40 @@ export function getDateSeasonalContext(dateStr: string): string {
     seasonalTheme = "追い込み・直前対策開始";
     appropriateHooks =
       "直前期の追い込み、頻出論点の総復習、時間配分の練習、メンタル管理";
-    avoidThemes = "「新年」「年始」「基礎固め」— 9月は基礎ではなく実践";
+    avoidThemes = "「新年」「年始」";
   } else if (month === 10) {
-    seasonalTheme = "試験直前・本番月";
-    appropriateHooks =
-      "試験直前の最終確認、当日の心構え、直前に差がつくポイント、合格ラインの予想";
-    avoidThemes =
-      "「新年」「基礎固め」— 試験直前期に基礎の話はミスマッチ";
+    // 10〜11月の切り口は試験カレンダー側で決まる
+    seasonalTheme = "秋の本番シーズン";
+    appropriateHooks = "";
+    avoidThemes = "「新年」「年始」";
   } else if (month === 11) {
-    seasonalTheme = "合格発表・結果期";
-    appropriateHooks =
-      "合格発表、合格後の登録手続き、実務講習、キャリアプラン、来年度受験者への助言";
-    avoidThemes = "「直前対策」「試験対策」— 試験は終了済み";
+    seasonalTheme = "晩秋・結果期";
+    appropriateHooks = "";
+    avoidThemes = "「新年」「年始」";
   } else {
     // 12月
     seasonalTheme = "年末・来年度計画期";
     appropriateHooks =
       "年末の振り返り、来年の宅建学習計画、キャリア検討、不動産業界の年末動向";
-    avoidThemes = "「直前対策」「試験対策」— 試験は終了済み";
+    avoidThemes = "特になし";
   }
 
+  if (examRules.theme) seasonalTheme = examRules.theme;
+  appropriateHooks = [appropriateHooks, ...examRules.hooks].filter(Boolean).join("、");
+  const avoidList = [avoidThemes, ...examRules.avoid].filter(
+    (item) => item && item !== "特になし"
+  );
+  avoidThemes = avoidList.length > 0 ? avoidList.join(" ／ ") : "特になし";
+  const applicationPeriods = timeline.nextExam.applicationWindows
+    .map((window) => `${window.label} ${formatMonthDay(window.start)}〜${formatMonthDay(window.end)}`)
+    .join(" / ");
+
   return `## 時令ガイド（厳守）
 - 今日の日付: ${dateDisplay}
 - 時期テーマ: ${seasonalTheme}
-- 試験まで: 約${daysToExam}日
+- 試験まで: ${describeExamCountdown(timeline)}
+- 申込期間（${timeline.nextExam.year}年度${timeline.nextExam.estimated ? "・見込み" : ""}）: ${applicationPeriods}
+- 合格発表（${scheduleExam.year}年度）: ${formatExamDate(scheduleExam.resultDate)}
 - 適切な切り口: ${appropriateHooks}
 - 禁止テーマ: ${avoidThemes}
 
@@ -749,33 +948,43 @@ function getMotherTopicUrlKey(mt: MotherTopic): string {
   return `asset:${getMotherTopicAssetId(mt)}`;
 }
 
+export interface TopicGenerationOptions {
+  /** Topic mix to use instead of the default site manifest's `topicMix` */
+  topicMix?: TopicMixConfig;
+  /** Canonical paths still cooling down from nearby days (see topic-rotation) */
+  excludeUrlKeys?: Set<string>;
+  /** Platforms to plan; defaults to those enabled in the default site manifest */
+  platforms?: Platform[];
+}
+
 /**
- * Generate 3 independent mother topics and platform-specific content plans for a given date.
+ * Generate independent mother topics and platform-specific content plans for a given date,
+ * one per platform.
  * Each platform gets its own unique topic to maximize content variety.
  *
  * @param date - Date string in YYYY-MM-DD format
  * @returns DayTopics with per-platform motherTopics and platform plans
  */
-export function generateDayTopics(date: string, seedSalt: number = 0): DayTopics {
-  // Use prime-number offsets to ensure different topics per platform
-  const PLATFORM_OFFSETS: Record<Platform, number> = {
-    ameba: 0,
-    note: 997,
-    hatena: 1999,
-  };
-
-  const motherTopics = {} as DayTopics["motherTopics"];
-  const usedUrlKeys = new Set<string>();
+export function generateDayTopics(
+  date: string,
+  seedSalt: number = 0,
+  options: TopicGenerationOptions = {}
+): DayTopics {
+  const topicMix = options.topicMix || resolveSiteManifest().topicMix;
+  const motherTopics: DayTopics["motherTopics"] = {};
+  const usedUrlKeys = new Set<string>(Array.from(options.excludeUrlKeys || []));
   const debugRows: string[] = [];
 
-  for (const platform of ["ameba", "note", "hatena"] as const) {
+  for (const platform of listPlatforms(options.platforms || getEnabledPlatforms())) {
+    // Prime-number offsets from the registry give each platform its own topic
+    const seedOffset = getPlatformDefinition(platform).topicSeedOffset;
     let selectedTopic: MotherTopic | null = null;
     let attempts = 0;
 
     // Generate topic and ensure no duplicate URLs across platforms (canonical path).
     while (attempts < 20) {
-      const offset = PLATFORM_OFFSETS[platform] + attempts * 7;
-      const baseTopic = generateMotherTopic(date, offset, seedSalt);
+      const offset = seedOffset + attempts * 7;
+      const baseTopic = generateMotherTopic(date, platform, topicMix, offset, seedSalt);
       const withTraffic = applyTrafficUrlSelection({
         date,
         platform,
@@ -794,8 +1003,14 @@ export function generateDayTopics(date: string, seedSalt: number = 0): DayTopics
     }
 
     if (!selectedTopic) {
-      const fallbackOffset = PLATFORM_OFFSETS[platform] + 9973;
-      const fallbackTopic = generateMotherTopic(date, fallbackOffset, seedSalt + 1);
+      const fallbackOffset = seedOffset + 9973;
+      const fallbackTopic = generateMotherTopic(
+        date,
+        platform,
+        topicMix,
+        fallbackOffset,
+        seedSalt + 1
+      );
       const fallbackKey = getMotherTopicUrlKey(fallbackTopic);
       if (!usedUrlKeys.has(fallbackKey)) {
         usedUrlKeys.add(fallbackKey);
@@ -818,28 +1033,266 @@ export function generateDayTopics(date: string, seedSalt: number = 0): DayTopics
   const platforms = generatePlatformPlans(motherTopics);
 
   return {
+    date,
     motherTopics,
     platforms,
   };
 }
 
+export interface PreviewTopicsOptions {
+  topicMix?: TopicMixConfig;
+  /** Defaults to the default site manifest's `topicRotation` */
+  topicRotation?: TopicRotationConfig;
+  /** Pages already planned around the range (e.g. the previous month's tail) */
+  history?: TopicPathUsage[];
+  /** Defaults to the platforms enabled in the default site manifest */
+  platforms?: Platform[];
+}
+
 /**
  * Preview topics for a range of dates.
- * Useful for calendar views and batch planning.
+ * Useful for calendar views and batch planning. Days are planned in order so
+ * each one respects the rotation cooldown of the days before it.
  */
 export function previewTopics(
   startDate: string,
-  days: number
+  days: number,
+  options: PreviewTopicsOptions = {}
 ): DayTopics[] {
   const result: DayTopics[] = [];
   const start = new Date(startDate + "T00:00:00");
+  const rotation = options.topicRotation || resolveSiteManifest().topicRotation;
+  const usages: TopicPathUsage[] = [...(options.history || [])];
 
   for (let i = 0; i < days; i++) {
     const d = new Date(start);
     d.setDate(d.getDate() + i);
-    const dateStr = d.toISOString().split("T")[0];
-    result.push(generateDayTopics(dateStr));
+    // Local date parts: toISOString() would shift the day east of UTC.
+    const dateStr = [
+      d.getFullYear(),
+      String(d.getMonth() + 1).padStart(2, "0"),
+      String(d.getDate()).padStart(2, "0"),
+    ].join("-");
+    const topics = generateDayTopics(dateStr, 0, {
+      topicMix: options.topicMix,
+      excludeUrlKeys: collectCoolingDownPaths(usages, dateStr, rotation),
+      platforms: options.platforms,
+    });
+    for (const topic of Object.values(topics.motherTopics)) {
+      const path = topic ? canonicalizeTakkenaiPath(topic.takkenaiUrl) : "";
+      if (path) usages.push({ date: dateStr, path });
+    }
+    result.push(topics);
   }
 
   return result;
 }
+
+// ---------------------------------------------------------------------------
+// Topic mix dry run
+// ---------------------------------------------------------------------------
+
+export type TopicTypeCounts = Record<TopicAssetType, number>;
+
+export interface TopicMixPreviewSlot {
+  date: string;
+  platform: Platform;
+  phase: SeasonalPhase;
+  assetType: TopicAssetType;
+  topicLabel: string;
+  takkenaiUrl: string;
+}
+
+export interface TopicMixPreview {
+  startDate: string;
+  days: number;
+  counts: TopicTypeCounts;
+  /** Actual shares after URL allocation */
+  shares: TopicTypeCounts;
+  /** Configured weights averaged over the same slots */
+  targetShares: TopicTypeCounts;
+  byPlatform: PlatformMap<TopicTypeCounts>;
+  byPhase: Partial<Record<SeasonalPhase, TopicTypeCounts>>;
+  byWeekday: Record<TopicMixWeekday, TopicTypeCounts>;
+  /** Tool slots that went to video / marketing tools */
+  videoMarketingTools: number;
+  slots: TopicMixPreviewSlot[];
+}
+
+function emptyTypeCounts(): TopicTypeCounts {
+  return { "knowledge-point": 0, tool: 0, "past-question": 0 };
+}
+
+function toShares(counts: TopicTypeCounts, total: number): TopicTypeCounts {
+  const round = (value: number) => (total > 0 ? Math.round((value / total) * 1000) / 1000 : 0);
+  return {
+    "knowledge-point": round(counts["knowledge-point"]),
+    tool: round(counts.tool),
+    "past-question": round(counts["past-question"]),
+  };
+}
+
+/**
+ * Dry run of `previewTopics`: what the topic mix would produce for a date
+ * range, without touching the stored calendar.
+ */
+export function previewTopicMix(
+  startDate: string,
+  days: number,
+  options: PreviewTopicsOptions = {}
+): TopicMixPreview {
+  const topicMix = options.topicMix || resolveSiteManifest().topicMix;
+  const dayTopics = previewTopics(startDate, days, { ...options, topicMix });
+
+  const counts = emptyTypeCounts();
+  const target = emptyTypeCounts();
+  const byPlatform: PlatformMap<TopicTypeCounts> = {};
+  const byPhase: Partial<Record<SeasonalPhase, TopicTypeCounts>> = {};
+  const byWeekday = {} as Record<TopicMixWeekday, TopicTypeCounts>;
+  for (const weekday of TOPIC_MIX_WEEKDAYS) byWeekday[weekday] = emptyTypeCounts();
+  const slots: TopicMixPreviewSlot[] = [];
+  let videoMarketingTools = 0;
+
+  for (const day of dayTopics) {
+    for (const platform of platformsOf(day.motherTopics)) {
+      const topic = day.motherTopics[platform] as MotherTopic;
+      const assetType = topic.asset.type;
+      const phaseCounts = byPhase[topic.phase] || (byPhase[topic.phase] = emptyTypeCounts());
+      const platformCounts = byPlatform[platform] || (byPlatform[platform] = emptyTypeCounts());
+      counts[assetType]++;
+      platformCounts[assetType]++;
+      phaseCounts[assetType]++;
+      byWeekday[getTopicMixWeekday(topic.date)][assetType]++;
+      if (assetType === "tool" && isVideoOrMarketingTool(topic.asset.data as Tool)) {
+        videoMarketingTools++;
+      }
+
+      const { weights } = resolveTopicMix(topicMix, {
+        phase: topic.phase,
+        platform,
+        date: topic.date,
+      });
+      target["knowledge-point"] += weights.knowledgePoint;
+      target.tool += weights.tool;
+      target["past-question"] += weights.pastQuestion;
+
+      slots.push({
+        date: topic.date,
+        platform,
+        phase: topic.phase,
+        assetType,
+        topicLabel: topic.topicLabelOverride || getAssetLabel(topic.asset),
+        takkenaiUrl: topic.takkenaiUrl,
+      });
+    }
+  }
+
+  return {
+    startDate,
+    days,
+    counts,
+    shares: toShares(counts, slots.length),
+    targetShares: toShares(target, slots.length),
+    byPlatform,
+    byPhase,
+    byWeekday,
+    videoMarketingTools,
+    slots,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Manual pins
+// ---------------------------------------------------------------------------
+
+/** What an editor pins to a date + platform: a content asset or a takkenai.jp URL. */
+export interface TopicPinTarget {
+  assetType?: TopicAssetType;
+  assetId?: string;
+  /** Used as-is for asset pins; on its own it is resolved to an asset when possible */
+  takkenaiUrl?: string;
+}
+
+function findAssetById(type: TopicAssetType, id: string): ContentAsset | undefined {
+  switch (type) {
+    case "knowledge-point": {
+      const data = getKnowledgePointById(id);
+      return data ? { type, data } : undefined;
+    }
+    case "tool": {
+      const data = getToolById(id);
+      return data ? { type, data } : undefined;
+    }
+    case "past-question": {
+      const data = getPastQuestionById(id);
+      return data ? { type, data } : undefined;
+    }
+  }
+}
+
+/**
+ * Mother topic and platform plan for a pinned slot. The phase follows the
+ * date; a URL that maps to no asset is planned like a url-direct traffic pick
+ * on top of the slot's default topic. Returns null when the asset or URL is
+ * unknown.
+ */
+export function buildPinnedTopic(
+  date: string,
+  platform: Platform,
+  target: TopicPinTarget
+): { motherTopic: MotherTopic; plan: PlatformPlan } | null {
+  const base = generateDayTopics(date, 0, { platforms: [platform] }).motherTopics[platform] as MotherTopic;
+  const canonicalPath = target.takkenaiUrl ? canonicalizeTakkenaiPath(target.takkenaiUrl) : "";
+  if (target.takkenaiUrl && !canonicalPath) return null;
+
+  let motherTopic: MotherTopic;
+  const asset =
+    target.assetType && target.assetId
+      ? findAssetById(target.assetType, target.assetId)
+      : canonicalPath
+        ? getAssetByCanonicalPath().get(canonicalPath)
+        : undefined;
+  if (asset) {
+    motherTopic = {
+      ...base,
+      asset,
+      takkenaiUrl: canonicalPath
+        ? buildTakkenaiUrlFromPath(canonicalPath)
+        : buildFullUrl(asset.data.takkenaiUrl),
+      topicLabelOverride: undefined,
+      urlSelectionMode: "asset",
+      urlTier: undefined,
+      secondaryAsset:
+        base.secondaryAsset && base.secondaryAsset.type !== asset.type
+          ? base.secondaryAsset
+          : undefined,
+    };
+  } else if (canonicalPath && !target.assetType) {
+    const takkenaiUrl = buildTakkenaiUrlFromPath(canonicalPath);
+    const profileItem = loadTrafficUrlProfile()?.items.find(
+      (item) => canonicalizeTakkenaiPath(item.path) === canonicalPath
+    );
+    motherTopic = {
+      ...base,
+      takkenaiUrl,
+      topicLabelOverride: normalizeAssetLabel(
+        profileItem?.labelJa || canonicalPath,
+        inferTrafficUrlGroup(canonicalPath) === "tool" ? "tool" : "knowledge-point",
+        takkenaiUrl
+      ),
+      urlSelectionMode: "url-direct",
+      urlTier: profileItem?.tier,
+    };
+  } else {
+    return null;
+  }
+
+  return {
+    motherTopic,
+    plan: generatePlatformPlan(
+      platform,
+      motherTopic,
+      motherTopic.topicLabelOverride || getAssetLabel(motherTopic.asset)
+    ),
+  };
+}
@@ -0,0 +1,113 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import { resolveSiteManifest } from "./site-config";
+import { DEFAULT_TOPIC_MIX, parseTopicMix, resolveTopicMix } from "./topic-mix";
+import { DEFAULT_TOPIC_ROTATION } from "./topic-rotation";
+import { generateDayTopics, previewTopicMix } from "./topic-engine";
+
+test("topicMix validation rejects the whole section on any issue", () => {
+  assert.deepEqual(parseTopicMix(undefined), { mix: DEFAULT_TOPIC_MIX, issues: [] });
+
+  const invalid = parseTopicMix({
+    weights: { tool: 3, pastQuestion: -1 },
+    toolVideoMarketingShare: 1.5,
+    platforms: { note: { weights: { tool: 1 } }, mixi: {} },
+    weekdays: { monday: {} },
+  });
+  assert.equal(invalid.mix, DEFAULT_TOPIC_MIX);
+  assert.deepEqual(invalid.issues, [
+    "topicMix.weights.pastQuestion は0以上の数値で指定してください",
+    "topicMix.toolVideoMarketingShare は0〜1で指定してください",
+    "topicMix.platforms.mixi は不明なキーです（ameba / note / hatena / wordpress / qiita / x）",
+    "topicMix.weekdays.monday は不明なキーです（sun / mon / tue / wed / thu / fri / sat）",
+  ]);
+
+  const zero = parseTopicMix({ phases: { "exam-tips": { weights: { tool: 0 } } } });
+  assert.deepEqual(zero.issues, ["topicMix.phases.exam-tips.weights の合計が0です"]);
+});
+
+test("invalid manifest sections fall back to defaults and are reported with the manifest", () => {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "topic-mix-"));
+  const previous = process.env.SITE_MANIFEST_DIR;
+  process.env.SITE_MANIFEST_DIR = tmpDir;
+  try {
+    fs.writeFileSync(
+      path.join(tmpDir, "takkenai-jp.json"),
+      JSON.stringify({ topicMix: { weights: { tool: -1 } }, topicRotation: { cooldownDays: "x" } })
+    );
+    const manifest = resolveSiteManifest();
+    assert.equal(manifest.topicMix, DEFAULT_TOPIC_MIX);
+    assert.equal(manifest.topicRotation, DEFAULT_TOPIC_ROTATION);
+    assert.deepEqual(
+      manifest.configIssues?.map((item) => [item.section, item.fallback, item.issues.length]),
+      [
+        ["topicMix", "既定の配分を使います", 1],
+        ["topicRotation", "既定のクールダウンを使います", 1],
+      ]
+    );
+
+    fs.writeFileSync(path.join(tmpDir, "takkenai-jp.json"), JSON.stringify({ topicMix: {} }));
+    assert.equal(resolveSiteManifest().configIssues, undefined);
+  } finally {
+    if (previous === undefined) delete process.env.SITE_MANIFEST_DIR;
+    else process.env.SITE_MANIFEST_DIR = previous;
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  }
+});
+
+test("overrides apply phase → platform → weekday and are normalized", () => {
+  const { mix, issues } = parseTopicMix({
+    weights: { knowledgePoint: 1, tool: 2, pastQuestion: 1 },
+    phases: { "exam-tips": { weights: { pastQuestion: 1 }, toolVideoMarketingShare: 0 } },
+    platforms: { note: { weights: { knowledgePoint: 1, tool: 1 } } },
+    weekdays: { sun: { weights: { tool: 1 } } },
+  });
+  assert.deepEqual(issues, []);
+
+  const base = resolveTopicMix(mix, { phase: "deep-dive", platform: "ameba", date: "2026-05-13" });
+  assert.deepEqual(base.weights, { knowledgePoint: 0.25, tool: 0.5, pastQuestion: 0.25 });
+  assert.equal(base.toolVideoMarketingShare, DEFAULT_TOPIC_MIX.toolVideoMarketingShare);
+
+  const examTips = resolveTopicMix(mix, { phase: "exam-tips", platform: "ameba", date: "2026-10-14" });
+  assert.deepEqual(examTips, {
+    weights: { knowledgePoint: 0, tool: 0, pastQuestion: 1 },
+    toolVideoMarketingShare: 0,
+  });
+  // 2026-10-14 is a Wednesday: the platform override beats the phase one
+  const note = resolveTopicMix(mix, { phase: "exam-tips", platform: "note", date: "2026-10-14" });
+  assert.deepEqual(note.weights, { knowledgePoint: 0.5, tool: 0.5, pastQuestion: 0 });
+  // ...and the weekday override beats both
+  const sunday = resolveTopicMix(mix, { phase: "exam-tips", platform: "note", date: "2026-10-18" });
+  assert.deepEqual(sunday.weights, { knowledgePoint: 0, tool: 1, pastQuestion: 0 });
+});
+
+test("dry run reports the month distribution for a candidate mix", () => {
+  const topicMix = parseTopicMix({
+    weights: { tool: 1 },
+    toolVideoMarketingShare: 1,
+    platforms: { hatena: { weights: { knowledgePoint: 1, pastQuestion: 1 } } },
+  }).mix;
+  const preview = previewTopicMix("2026-04-01", 30, { topicMix });
+
+  assert.equal(preview.slots.length, 90);
+  assert.equal(preview.counts.tool + preview.counts["knowledge-point"] + preview.counts["past-question"], 90);
+  assert.equal(preview.byPlatform.ameba!.tool, 30);
+  assert.equal(preview.byPlatform.hatena!.tool, 0);
+  assert.deepEqual(preview.targetShares, {
+    "knowledge-point": 0.167,
+    tool: 0.667,
+    "past-question": 0.167,
+  });
+  assert.equal(preview.byWeekday.wed.tool, 2 * 5);
+  assert.deepEqual(Object.keys(preview.byPhase), ["deep-dive"]);
+  assert.ok(preview.videoMarketingTools > 0);
+
+  // The default mix keeps producing the same calendar as before.
+  const defaultDay = generateDayTopics("2026-04-01");
+  const explicitDay = generateDayTopics("2026-04-01", 0, { topicMix: DEFAULT_TOPIC_MIX });
+  assert.deepEqual(explicitDay, defaultDay);
+});
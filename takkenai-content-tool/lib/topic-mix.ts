@@ -0,0 +1,244 @@
+import type { Platform, SeasonalPhase } from "./topic-engine";
+import { PLATFORM_IDS } from "./platform-registry";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type TopicAssetType = "knowledge-point" | "tool" | "past-question";
+
+export type TopicMixWeekday = "sun" | "mon" | "tue" | "wed" | "thu" | "fri" | "sat";
+
+export interface TopicMixWeights {
+  knowledgePoint: number;
+  tool: number;
+  pastQuestion: number;
+}
+
+export interface TopicMixOverride {
+  weights?: TopicMixWeights;
+  /** Share of tool slots that go to video / marketing tools (0-1) */
+  toolVideoMarketingShare?: number;
+}
+
+/**
+ * Topic mix declared in the site manifest (`topicMix`). Overrides are applied
+ * phase → platform → weekday, so the most specific match wins.
+ */
+export interface TopicMixConfig {
+  weights: TopicMixWeights;
+  toolVideoMarketingShare: number;
+  phases?: Partial<Record<SeasonalPhase, TopicMixOverride>>;
+  platforms?: Partial<Record<Platform, TopicMixOverride>>;
+  weekdays?: Partial<Record<TopicMixWeekday, TopicMixOverride>>;
+}
+
+export interface ResolvedTopicMix {
+  /** Normalized to sum to 1 */
+  weights: TopicMixWeights;
+  toolVideoMarketingShare: number;
+}
+
+// ---------------------------------------------------------------------------
+// Defaults
+// ---------------------------------------------------------------------------
+
+// 選題比率（全フェーズ共通）
+// 1) ツール: 80%
+// 2) ツール以外20%は、過去問 : 知識ポイント = 2 : 1
+//    => 過去問 13.3% / 知識ポイント 6.7%
+// ツール内の40%を video/marketing 系に寄せる
+export const DEFAULT_TOPIC_MIX: TopicMixConfig = {
+  weights: { knowledgePoint: 0.067, tool: 0.8, pastQuestion: 0.133 },
+  toolVideoMarketingShare: 0.4,
+};
+
+export const TOPIC_MIX_WEEKDAYS: TopicMixWeekday[] = [
+  "sun",
+  "mon",
+  "tue",
+  "wed",
+  "thu",
+  "fri",
+  "sat",
+];
+
+const SEASONAL_PHASES: SeasonalPhase[] = [
+  "motivation-basics",
+  "deep-dive",
+  "practice-intensive",
+  "exam-tips",
+  "results-career",
+];
+
+const PLATFORMS: Platform[] = [...PLATFORM_IDS];
+
+const WEIGHT_KEYS: Array<keyof TopicMixWeights> = ["knowledgePoint", "tool", "pastQuestion"];
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+function parseWeights(raw: unknown, where: string, issues: string[]): TopicMixWeights | undefined {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    issues.push(`${where}.weights はオブジェクトで指定してください`);
+    return undefined;
+  }
+  const input = raw as Record<string, unknown>;
+  const weights = {} as TopicMixWeights;
+  for (const key of WEIGHT_KEYS) {
+    const value = input[key] === undefined ? 0 : Number(input[key]);
+    if (!Number.isFinite(value) || value < 0) {
+      issues.push(`${where}.weights.${key} は0以上の数値で指定してください`);
+      return undefined;
+    }
+    weights[key] = value;
+  }
+  for (const key of Object.keys(input)) {
+    if (!WEIGHT_KEYS.includes(key as keyof TopicMixWeights)) {
+      issues.push(`${where}.weights.${key} は不明なキーです（${WEIGHT_KEYS.join(" / ")}）`);
+    }
+  }
+  if (weights.knowledgePoint + weights.tool + weights.pastQuestion <= 0) {
+    issues.push(`${where}.weights の合計が0です`);
+    return undefined;
+  }
+  return weights;
+}
+
+function parseShare(raw: unknown, where: string, issues: string[]): number | undefined {
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0 || value > 1) {
+    issues.push(`${where}.toolVideoMarketingShare は0〜1で指定してください`);
+    return undefined;
+  }
+  return value;
+}
+
+function parseOverride(raw: unknown, where: string, issues: string[]): TopicMixOverride | undefined {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    issues.push(`${where} はオブジェクトで指定してください`);
+    return undefined;
+  }
+  const input = raw as Record<string, unknown>;
+  const override: TopicMixOverride = {};
+  if (input.weights !== undefined) {
+    const weights = parseWeights(input.weights, where, issues);
+    if (weights) override.weights = weights;
+  }
+  if (input.toolVideoMarketingShare !== undefined) {
+    const share = parseShare(input.toolVideoMarketingShare, where, issues);
+    if (share !== undefined) override.toolVideoMarketingShare = share;
+  }
+  return override;
+}
+
+function parseOverrideMap<K extends string>(
+  raw: unknown,
+  field: string,
+  allowed: K[],
+  issues: string[]
+): Partial<Record<K, TopicMixOverride>> | undefined {
+  if (raw === undefined) return undefined;
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    issues.push(`topicMix.${field} はオブジェクトで指定してください`);
+    return undefined;
+  }
+  const result: Partial<Record<K, TopicMixOverride>> = {};
+  for (const [key, value] of Object.entries(raw as Record<string, unknown>)) {
+    if (!allowed.includes(key as K)) {
+      issues.push(`topicMix.${field}.${key} は不明なキーです（${allowed.join(" / ")}）`);
+      continue;
+    }
+    const override = parseOverride(value, `topicMix.${field}.${key}`, issues);
+    if (override) result[key as K] = override;
+  }
+  return result;
+}
+
+/**
+ * Validates a `topicMix` manifest section. A missing section means the
+ * defaults; any issue rejects the whole section so a typo never silently
+ * applies half a strategy.
+ */
+export function parseTopicMix(raw: unknown): { mix: TopicMixConfig; issues: string[] } {
+  if (raw === undefined || raw === null) {
+    return { mix: DEFAULT_TOPIC_MIX, issues: [] };
+  }
+  const issues: string[] = [];
+  if (typeof raw !== "object" || Array.isArray(raw)) {
+    return { mix: DEFAULT_TOPIC_MIX, issues: ["topicMix はオブジェクトで指定してください"] };
+  }
+  const input = raw as Record<string, unknown>;
+  const weights =
+    input.weights === undefined
+      ? DEFAULT_TOPIC_MIX.weights
+      : parseWeights(input.weights, "topicMix", issues);
+  const share =
+    input.toolVideoMarketingShare === undefined
+      ? DEFAULT_TOPIC_MIX.toolVideoMarketingShare
+      : parseShare(input.toolVideoMarketingShare, "topicMix", issues);
+  const phases = parseOverrideMap(input.phases, "phases", SEASONAL_PHASES, issues);
+  const platforms = parseOverrideMap(input.platforms, "platforms", PLATFORMS, issues);
+  const weekdays = parseOverrideMap(input.weekdays, "weekdays", TOPIC_MIX_WEEKDAYS, issues);
+
+  if (issues.length > 0 || !weights || share === undefined) {
+    return { mix: DEFAULT_TOPIC_MIX, issues };
+  }
+  return {
+    mix: {
+      weights,
+      toolVideoMarketingShare: share,
+      ...(phases ? { phases } : {}),
+      ...(platforms ? { platforms } : {}),
+      ...(weekdays ? { weekdays } : {}),
+    },
+    issues: [],
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Resolution
+// ---------------------------------------------------------------------------
+
+export function getTopicMixWeekday(dateStr: string): TopicMixWeekday {
+  const [year, month, day] = dateStr.split("-").map(Number);
+  return TOPIC_MIX_WEEKDAYS[new Date(Date.UTC(year, month - 1, day)).getUTCDay()];
+}
+
+export function resolveTopicMix(
+  mix: TopicMixConfig,
+  slot: { phase: SeasonalPhase; platform: Platform; date: string }
+): ResolvedTopicMix {
+  let weights = mix.weights;
+  let toolVideoMarketingShare = mix.toolVideoMarketingShare;
+  const overrides = [
+    mix.phases?.[slot.phase],
+    mix.platforms?.[slot.platform],
+    mix.weekdays?.[getTopicMixWeekday(slot.date)],
+  ];
+  for (const override of overrides) {
+    if (!override) continue;
+    if (override.weights) weights = override.weights;
+    if (override.toolVideoMarketingShare !== undefined) {
+      toolVideoMarketingShare = override.toolVideoMarketingShare;
+    }
+  }
+
+  const total = weights.knowledgePoint + weights.tool + weights.pastQuestion;
+  return {
+    weights: {
+      knowledgePoint: weights.knowledgePoint / total,
+      tool: weights.tool / total,
+      pastQuestion: weights.pastQuestion / total,
+    },
+    toolVideoMarketingShare,
+  };
+}
+
+/** Maps a roll in [0, 1) onto an asset type (knowledge points, past questions, then tools). */
+export function pickTopicAssetType(roll: number, weights: TopicMixWeights): TopicAssetType {
+  if (roll < weights.knowledgePoint) return "knowledge-point";
+  if (roll < weights.knowledgePoint + weights.pastQuestion) return "past-question";
+  return "tool";
+}
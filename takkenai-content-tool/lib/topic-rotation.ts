@@ -0,0 +1,134 @@
+import { canonicalizeTakkenaiPath } from "./traffic-url-profile";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * Cross-day rotation declared in the site manifest (`topicRotation`): a page
+ * (canonical takkenai.jp path) is not planned again on any platform until its
+ * cooldown has passed.
+ */
+export interface TopicRotationConfig {
+  /** Days before the same page may be planned again (0 disables the rule) */
+  cooldownDays: number;
+  /** Per canonical path overrides, e.g. { "/tools/loan": 14 } */
+  paths?: Record<string, number>;
+}
+
+// 5日: GA4 プロファイルのツールURLは20件弱なので、これ以上長いと
+// high ティアのURLがほとんど使えなくなる。
+export const DEFAULT_TOPIC_ROTATION: TopicRotationConfig = {
+  cooldownDays: 5,
+};
+
+// The calendar only looks at the adjacent months, so a cooldown may not
+// reach further than that.
+const MAX_COOLDOWN_DAYS = 28;
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+function parseCooldown(raw: unknown, where: string, issues: string[]): number | undefined {
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0 || value > MAX_COOLDOWN_DAYS) {
+    issues.push(`${where} は0〜${MAX_COOLDOWN_DAYS}の整数で指定してください`);
+    return undefined;
+  }
+  return value;
+}
+
+/** Validates a `topicRotation` manifest section; any issue rejects the whole section. */
+export function parseTopicRotation(raw: unknown): {
+  rotation: TopicRotationConfig;
+  issues: string[];
+} {
+  if (raw === undefined || raw === null) {
+    return { rotation: DEFAULT_TOPIC_ROTATION, issues: [] };
+  }
+  if (typeof raw !== "object" || Array.isArray(raw)) {
+    return {
+      rotation: DEFAULT_TOPIC_ROTATION,
+      issues: ["topicRotation はオブジェクトで指定してください"],
+    };
+  }
+  const input = raw as Record<string, unknown>;
+  const issues: string[] = [];
+  const cooldownDays =
+    input.cooldownDays === undefined
+      ? DEFAULT_TOPIC_ROTATION.cooldownDays
+      : parseCooldown(input.cooldownDays, "topicRotation.cooldownDays", issues);
+
+  let paths: Record<string, number> | undefined;
+  if (input.paths !== undefined) {
+    if (!input.paths || typeof input.paths !== "object" || Array.isArray(input.paths)) {
+      issues.push("topicRotation.paths はオブジェクトで指定してください");
+    } else {
+      paths = {};
+      for (const [rawPath, rawDays] of Object.entries(input.paths as Record<string, unknown>)) {
+        const canonicalPath = canonicalizeTakkenaiPath(rawPath);
+        if (!canonicalPath) {
+          issues.push(`topicRotation.paths.${rawPath} は takkenai.jp のパスではありません`);
+          continue;
+        }
+        const days = parseCooldown(rawDays, `topicRotation.paths.${rawPath}`, issues);
+        if (days !== undefined) paths[canonicalPath] = days;
+      }
+    }
+  }
+
+  if (issues.length > 0 || cooldownDays === undefined) {
+    return { rotation: DEFAULT_TOPIC_ROTATION, issues };
+  }
+  return { rotation: { cooldownDays, ...(paths ? { paths } : {}) }, issues: [] };
+}
+
+// ---------------------------------------------------------------------------
+// Cooldown checks
+// ---------------------------------------------------------------------------
+
+export function getPathCooldownDays(rotation: TopicRotationConfig, canonicalPath: string): number {
+  const override = rotation.paths?.[canonicalPath];
+  return override === undefined ? rotation.cooldownDays : override;
+}
+
+export function daysBetweenDates(fromDate: string, toDate: string): number {
+  const toUtc = (date: string) => {
+    const [year, month, day] = date.split("-").map(Number);
+    return Date.UTC(year, month - 1, day);
+  };
+  return Math.round((toUtc(toDate) - toUtc(fromDate)) / (24 * 60 * 60 * 1000));
+}
+
+/** True when `canonicalPath` used on `usedDate` still blocks it on `date`. */
+export function isPathCoolingDown(
+  rotation: TopicRotationConfig,
+  canonicalPath: string,
+  usedDate: string,
+  date: string
+): boolean {
+  const gap = Math.abs(daysBetweenDates(usedDate, date));
+  return gap > 0 && gap < getPathCooldownDays(rotation, canonicalPath);
+}
+
+export interface TopicPathUsage {
+  date: string;
+  /** Canonical takkenai.jp path */
+  path: string;
+}
+
+/** Paths that may not be planned on `date` given nearby usages (either direction). */
+export function collectCoolingDownPaths(
+  usages: TopicPathUsage[],
+  date: string,
+  rotation: TopicRotationConfig
+): Set<string> {
+  const blocked = new Set<string>();
+  for (const usage of usages) {
+    if (isPathCoolingDown(rotation, usage.path, usage.date, date)) {
+      blocked.add(usage.path);
+    }
+  }
+  return blocked;
+}
@@ -0,0 +1,179 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import type { MonthCalendar, PlatformEntry } from "./calendar-engine";
+import { buildTrackedTakkenaiUrl, validatePlatformCompliance } from "./claude";
+import {
+  applyTrackingParams,
+  buildTrackingDecodeReport,
+  DEFAULT_TRACKING_CONFIG,
+  parseTrackingConfig,
+  resolveEntryTrackingParams,
+  resolveTrackingParams,
+  type SiteTrackingSettings,
+} from "./tracking-template";
+
+const BASE_URL = "https://takkenai.jp/tools/loan";
+
+const SITE: SiteTrackingSettings = {
+  config: parseTrackingConfig({
+    default: { content: "{date}" },
+    platforms: { hatena: { medium: "social" } },
+    variants: { "note-viral": { campaign: "viral_{campaign}", params: { ref: "v_{platform}" } } },
+  }).config,
+  platformSources: { ameba: "ameblo", note: "note", hatena: "hatena" },
+  campaignTracking: { spring: { campaign: "spring_sale", content: "part{part}" } },
+};
+
+function entry(overrides: Partial<PlatformEntry>): PlatformEntry {
+  return {
+    status: "published",
+    takkenaiUrl: BASE_URL,
+    titleSuggestion: "住宅ローン計算",
+    ...overrides,
+  } as PlatformEntry;
+}
+
+function calendarOf(days: Array<{ date: string; platforms: Record<string, PlatformEntry> }>): MonthCalendar {
+  const pending = entry({ status: "pending" });
+  return {
+    year: 2026,
+    month: 6,
+    days: days.map((day) => ({
+      date: day.date,
+      platforms: { ameba: pending, note: pending, hatena: pending, ...day.platforms },
+    })),
+  } as unknown as MonthCalendar;
+}
+
+test("manifest tracking sections are validated and fall back to the default", () => {
+  assert.deepEqual(parseTrackingConfig(undefined), { config: DEFAULT_TRACKING_CONFIG, issues: [] });
+
+  const invalid = parseTrackingConfig({
+    default: { source: "{site}", term: "x" },
+    platforms: { mixi: {} },
+    variants: { "note-viral": { params: { utm_source: "a", "bad-name": "b" } } },
+  });
+  assert.equal(invalid.config, DEFAULT_TRACKING_CONFIG);
+  assert.deepEqual(invalid.issues, [
+    "tracking.default.term は指定できません（source / medium / campaign / content / params）",
+    "tracking.default.source に不明なプレースホルダーがあります: {site}",
+    "tracking.platforms.mixi は ameba / note / hatena / wordpress / qiita / x のいずれかで指定してください",
+    "tracking.variants.note-viral.params.utm_source は使用できないパラメータ名です（英数字と_、utm_source などは専用の項目で指定）",
+    "tracking.variants.note-viral.params.bad-name は使用できないパラメータ名です（英数字と_、utm_source などは専用の項目で指定）",
+  ]);
+});
+
+test("templates are layered per platform, variant and campaign with placeholders", () => {
+  // The built-in template keeps the historical fixed UTM set.
+  assert.deepEqual(resolveTrackingParams(DEFAULT_TRACKING_CONFIG, { platform: "note" }), {
+    utm_source: "note",
+    utm_medium: "blog",
+    utm_campaign: "daily_content",
+  });
+  assert.equal(
+    buildTrackedTakkenaiUrl(BASE_URL, "ameba"),
+    `${BASE_URL}?utm_source=ameba&utm_medium=blog&utm_campaign=daily_content`
+  );
+
+  assert.deepEqual(resolveEntryTrackingParams(SITE, { date: "2026-06-03", platform: "ameba" }), {
+    utm_source: "ameblo",
+    utm_medium: "blog",
+    utm_campaign: "daily_content",
+    utm_content: "20260603",
+  });
+  assert.equal(resolveEntryTrackingParams(SITE, { date: "2026-06-03", platform: "hatena" }).utm_medium, "social");
+  assert.deepEqual(
+    resolveEntryTrackingParams(SITE, {
+      date: "2026-06-03",
+      platform: "note",
+      contentKey: "note-viral",
+      campaign: { campaignId: "spring", part: 2 },
+    }),
+    {
+      utm_source: "note",
+      utm_medium: "blog",
+      utm_campaign: "spring_sale",
+      utm_content: "part2",
+      ref: "v_note",
+    }
+  );
+});
+
+test("compliance flags links whose tracking parameters were changed or dropped", () => {
+  const params = resolveEntryTrackingParams(SITE, { date: "2026-06-03", platform: "note" });
+  const expected = buildTrackedTakkenaiUrl(BASE_URL, "note", params);
+  assert.equal(expected, applyTrackingParams(BASE_URL, params));
+
+  const check = (link: string) =>
+    validatePlatformCompliance(
+      {
+        title: "住宅ローン計算のポイント",
+        body: `返済額の目安は計算ツールで確認できます。\n詳しくはこちら: ${link}`,
+        titleChinese: "",
+        bodyChinese: "",
+        hashtags: [],
+        imagePrompt: "",
+        takkenaiLink: expected,
+      },
+      "note",
+      expected
+    ).filter((issue) => issue.startsWith("トラッキングパラメータ"));
+
+  assert.deepEqual(check(`${expected}&ref=extra`), []);
+  assert.deepEqual(check(expected.replace("utm_content=20260603", "utm_content=20260604")), [
+    "トラッキングパラメータ utm_content が一致しません（期待: 20260603 / 実際: 20260604）",
+  ]);
+  assert.deepEqual(check(`${BASE_URL}?utm_source=note&utm_medium=blog&utm_campaign=daily_content`), [
+    "トラッキングパラメータ utm_content が一致しません（期待: 20260603 / 実際: なし）",
+  ]);
+});
+
+test("decode report maps UTM values back to calendar entries", () => {
+  const calendars = [
+    calendarOf([
+      {
+        date: "2026-06-02",
+        platforms: {
+          note: entry({ campaign: { campaignId: "spring", part: 1 } } as Partial<PlatformEntry>),
+        },
+      },
+      { date: "2026-06-03", platforms: { note: entry({}), ameba: entry({ status: "generated" }) } },
+      { date: "2026-06-04", platforms: { hatena: entry({ status: "skipped" }) } },
+    ]),
+  ];
+  const rows = buildTrackingDecodeReport({
+    calendars,
+    site: SITE,
+    inputs: [
+      "https://takkenai.jp/tools/loan/?utm_source=note&utm_medium=blog&utm_campaign=daily_content&utm_content=20260603&gclid=1",
+      "/tools/loan?utm_source=note&utm_medium=blog&utm_campaign=spring_sale&utm_content=part1",
+      "utm_source=ameblo&utm_medium=blog&utm_campaign=daily_content&utm_content=20260603",
+      "/tools/loan?utm_source=hatena&utm_medium=social&utm_campaign=daily_content&utm_content=20260604",
+      " ",
+    ],
+  });
+
+  assert.deepEqual(
+    rows.map((row) => [row.status, row.matches.map((match) => `${match.date}:${match.platform}:${match.contentKey}`)]),
+    [
+      ["matched", ["2026-06-03:note:standard"]],
+      ["matched", ["2026-06-02:note:standard"]],
+      ["matched", ["2026-06-03:ameba:standard"]],
+      ["unmatched", []],
+    ]
+  );
+  assert.equal(rows[0].path, "/tools/loan");
+
+  // Without per-entry values every post linking to the page matches.
+  const ambiguous = buildTrackingDecodeReport({
+    calendars,
+    site: { config: DEFAULT_TRACKING_CONFIG },
+    inputs: [`${BASE_URL}?utm_source=note&utm_medium=blog&utm_campaign=daily_content`],
+  });
+  assert.equal(ambiguous[0].status, "ambiguous");
+  assert.deepEqual(
+    ambiguous[0].matches.map((match) => match.date),
+    ["2026-06-03", "2026-06-02"]
+  );
+});
@@ -0,0 +1,417 @@
+import type { ContentStatus, MonthCalendar } from "./calendar-engine";
+import type { ContentKey } from "./content-variant";
+import type { Platform } from "./topic-engine";
+import { PLATFORM_IDS, platformsOf } from "./platform-registry";
+import { canonicalizeTakkenaiPath } from "./traffic-url-profile";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * Query parameters added to the takkenai.jp link of a post. Values may use
+ * placeholders: {source} (the platform's utmSource), {platform}, {date}
+ * (YYYYMMDD), {variant} (standard / note-viral), {campaign} (campaign id),
+ * {part} (campaign part) and {articleType}. Parameters that resolve to an
+ * empty string are left out.
+ */
+export interface TrackingTemplate {
+  source?: string;
+  medium?: string;
+  campaign?: string;
+  content?: string;
+  /** Extra parameters, e.g. { "ref": "takken_{platform}" } */
+  params?: Record<string, string>;
+}
+
+/**
+ * `tracking` section of the site manifest. Layers are merged field by field:
+ * default → platforms[platform] → variants[contentKey] → the campaign's own
+ * template (see lib/campaigns.ts).
+ */
+export interface TrackingConfig {
+  default: TrackingTemplate;
+  platforms?: Partial<Record<Platform, TrackingTemplate>>;
+  variants?: Partial<Record<ContentKey, TrackingTemplate>>;
+}
+
+export interface TrackingContext {
+  platform: Platform;
+  /** PlatformProfile.utmSource; defaults to the platform name */
+  platformSource?: string;
+  date?: string;
+  contentKey?: ContentKey;
+  campaign?: { id: string; part: number; tracking?: TrackingTemplate };
+  articleType?: string;
+}
+
+/** Resolved parameters in URL order (utm_source, utm_medium, utm_campaign, utm_content, custom). */
+export type TrackingParams = Record<string, string>;
+
+export const DEFAULT_TRACKING_CONFIG: TrackingConfig = {
+  default: {
+    source: "{source}",
+    medium: "blog",
+    campaign: "daily_content",
+  },
+};
+
+const UTM_FIELDS = [
+  ["source", "utm_source"],
+  ["medium", "utm_medium"],
+  ["campaign", "utm_campaign"],
+  ["content", "utm_content"],
+] as const;
+
+const PLACEHOLDERS = ["source", "platform", "date", "variant", "campaign", "part", "articleType"];
+const PLATFORMS: Platform[] = [...PLATFORM_IDS];
+const CONTENT_KEYS: ContentKey[] = ["standard", "note-viral"];
+const MAX_VALUE_LENGTH = 100;
+const PARAM_NAME_PATTERN = /^[a-z][a-z0-9_]{0,39}$/i;
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+function parseTemplateValue(raw: unknown, where: string, issues: string[]): string | undefined {
+  if (typeof raw !== "string") {
+    issues.push(`${where} は文字列で指定してください`);
+    return undefined;
+  }
+  const value = raw.trim();
+  if (value.length > MAX_VALUE_LENGTH) {
+    issues.push(`${where} は${MAX_VALUE_LENGTH}文字以内で指定してください`);
+    return undefined;
+  }
+  const unknown = (value.match(/\{([^}]*)\}/g) || [])
+    .map((token) => token.slice(1, -1))
+    .filter((name) => !PLACEHOLDERS.includes(name));
+  if (unknown.length > 0) {
+    issues.push(`${where} に不明なプレースホルダーがあります: {${unknown.join("}, {")}}`);
+    return undefined;
+  }
+  return value;
+}
+
+/** Validates one template (a manifest layer or a campaign's `tracking`). */
+export function parseTrackingTemplate(
+  raw: unknown,
+  where = "tracking"
+): { template?: TrackingTemplate; issues: string[] } {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return { issues: [`${where} はオブジェクトで指定してください`] };
+  }
+  const input = raw as Record<string, unknown>;
+  const issues: string[] = [];
+  const template: TrackingTemplate = {};
+  for (const key of Object.keys(input)) {
+    if (key !== "params" && !UTM_FIELDS.some(([field]) => field === key)) {
+      issues.push(`${where}.${key} は指定できません（source / medium / campaign / content / params）`);
+    }
+  }
+  for (const [field] of UTM_FIELDS) {
+    if (input[field] === undefined) continue;
+    const value = parseTemplateValue(input[field], `${where}.${field}`, issues);
+    if (value !== undefined) template[field] = value;
+  }
+  if (input.params !== undefined) {
+    if (!input.params || typeof input.params !== "object" || Array.isArray(input.params)) {
+      issues.push(`${where}.params はオブジェクトで指定してください`);
+    } else {
+      const params: Record<string, string> = {};
+      for (const [name, rawValue] of Object.entries(input.params as Record<string, unknown>)) {
+        if (!PARAM_NAME_PATTERN.test(name) || UTM_FIELDS.some(([, param]) => param === name)) {
+          issues.push(
+            `${where}.params.${name} は使用できないパラメータ名です（英数字と_、utm_source などは専用の項目で指定）`
+          );
+          continue;
+        }
+        const value = parseTemplateValue(rawValue, `${where}.params.${name}`, issues);
+        if (value !== undefined) params[name] = value;
+      }
+      if (Object.keys(params).length > 0) template.params = params;
+    }
+  }
+  return { template: issues.length > 0 ? undefined : template, issues };
+}
+
+/** Validates a `tracking` manifest section; any issue rejects the whole section. */
+export function parseTrackingConfig(raw: unknown): { config: TrackingConfig; issues: string[] } {
+  if (raw === undefined || raw === null) {
+    return { config: DEFAULT_TRACKING_CONFIG, issues: [] };
+  }
+  if (typeof raw !== "object" || Array.isArray(raw)) {
+    return { config: DEFAULT_TRACKING_CONFIG, issues: ["tracking はオブジェクトで指定してください"] };
+  }
+  const input = raw as Record<string, unknown>;
+  const issues: string[] = [];
+  const config: TrackingConfig = { default: { ...DEFAULT_TRACKING_CONFIG.default } };
+
+  if (input.default !== undefined) {
+    const parsed = parseTrackingTemplate(input.default, "tracking.default");
+    issues.push(...parsed.issues);
+    if (parsed.template) config.default = { ...config.default, ...parsed.template };
+  }
+
+  const parseLayer = <K extends string>(name: "platforms" | "variants", keys: K[]) => {
+    const layer = input[name];
+    if (layer === undefined) return undefined;
+    if (!layer || typeof layer !== "object" || Array.isArray(layer)) {
+      issues.push(`tracking.${name} はオブジェクトで指定してください`);
+      return undefined;
+    }
+    const result: Partial<Record<K, TrackingTemplate>> = {};
+    for (const [key, value] of Object.entries(layer as Record<string, unknown>)) {
+      if (!keys.includes(key as K)) {
+        issues.push(`tracking.${name}.${key} は ${keys.join(" / ")} のいずれかで指定してください`);
+        continue;
+      }
+      const parsed = parseTrackingTemplate(value, `tracking.${name}.${key}`);
+      issues.push(...parsed.issues);
+      if (parsed.template) result[key as K] = parsed.template;
+    }
+    return result;
+  };
+  const platforms = parseLayer("platforms", PLATFORMS);
+  const variants = parseLayer("variants", CONTENT_KEYS);
+  if (platforms) config.platforms = platforms;
+  if (variants) config.variants = variants;
+
+  if (issues.length > 0) return { config: DEFAULT_TRACKING_CONFIG, issues };
+  return { config, issues };
+}
+
+// ---------------------------------------------------------------------------
+// Resolution
+// ---------------------------------------------------------------------------
+
+function mergeTemplates(layers: Array<TrackingTemplate | undefined>): TrackingTemplate {
+  const merged: TrackingTemplate = {};
+  for (const layer of layers) {
+    if (!layer) continue;
+    for (const [field] of UTM_FIELDS) {
+      if (layer[field] !== undefined) merged[field] = layer[field];
+    }
+    if (layer.params) merged.params = { ...merged.params, ...layer.params };
+  }
+  return merged;
+}
+
+function fillPlaceholders(value: string, context: TrackingContext): string {
+  const values: Record<string, string> = {
+    source: context.platformSource || context.platform,
+    platform: context.platform,
+    date: (context.date || "").replace(/-/g, ""),
+    variant: context.contentKey || "standard",
+    campaign: context.campaign?.id || "",
+    part: context.campaign ? String(context.campaign.part) : "",
+    articleType: context.articleType || "",
+  };
+  return value.replace(/\{([^}]*)\}/g, (_, name: string) => values[name] ?? "").trim();
+}
+
+/** The query parameters a post's takkenai.jp link carries. */
+export function resolveTrackingParams(
+  config: TrackingConfig,
+  context: TrackingContext
+): TrackingParams {
+  const template = mergeTemplates([
+    config.default,
+    config.platforms?.[context.platform],
+    config.variants?.[context.contentKey || "standard"],
+    context.campaign?.tracking,
+  ]);
+  const params: TrackingParams = {};
+  for (const [field, name] of UTM_FIELDS) {
+    const value = fillPlaceholders(template[field] || "", context);
+    if (value) params[name] = value;
+  }
+  for (const [name, raw] of Object.entries(template.params || {})) {
+    const value = fillPlaceholders(raw, context);
+    if (value) params[name] = value;
+  }
+  return params;
+}
+
+/** Content variants whose links are tracked on a platform. */
+export function trackedContentKeys(platform: Platform): ContentKey[] {
+  return platform === "note" ? CONTENT_KEYS : ["standard"];
+}
+
+/** Site-level inputs shared by every entry's resolution. */
+export interface SiteTrackingSettings {
+  config: TrackingConfig;
+  /** PlatformProfile.utmSource per platform */
+  platformSources?: Partial<Record<Platform, string>>;
+  /** Campaign id → the campaign's own template */
+  campaignTracking?: Record<string, TrackingTemplate | undefined>;
+}
+
+/** Tracking parameters of one calendar entry (and content variant). */
+export function resolveEntryTrackingParams(
+  site: SiteTrackingSettings,
+  entry: {
+    date: string;
+    platform: Platform;
+    contentKey?: ContentKey;
+    articleType?: string;
+    campaign?: { campaignId: string; part: number };
+  }
+): TrackingParams {
+  return resolveTrackingParams(site.config, {
+    platform: entry.platform,
+    platformSource: site.platformSources?.[entry.platform],
+    date: entry.date,
+    contentKey: entry.contentKey,
+    articleType: entry.articleType,
+    ...(entry.campaign
+      ? {
+          campaign: {
+            id: entry.campaign.campaignId,
+            part: entry.campaign.part,
+            tracking: site.campaignTracking?.[entry.campaign.campaignId],
+          },
+        }
+      : {}),
+  });
+}
+
+/** Sets the parameters on the URL (existing values are replaced); invalid URLs are returned as-is. */
+export function applyTrackingParams(baseUrl: string, params: TrackingParams): string {
+  const trimmed = baseUrl.trim();
+  if (!trimmed) return trimmed;
+  try {
+    const parsed = new URL(trimmed);
+    for (const [name, value] of Object.entries(params)) {
+      parsed.searchParams.set(name, value);
+    }
+    return parsed.toString();
+  } catch {
+    return trimmed;
+  }
+}
+
+/**
+ * Issues for a link whose tracking parameters differ from the expected ones
+ * (missing or changed values). Extra parameters are allowed.
+ */
+export function checkTrackingParams(url: string, expected: TrackingParams): string[] {
+  const actual = decodeTrackingParams(url).params;
+  return Object.keys(expected)
+    .filter((name) => actual[name] !== expected[name])
+    .map(
+      (name) =>
+        `トラッキングパラメータ ${name} が一致しません（期待: ${expected[name]} / 実際: ${actual[name] ?? "なし"}）`
+    );
+}
+
+// ---------------------------------------------------------------------------
+// Decoding
+// ---------------------------------------------------------------------------
+
+/**
+ * Splits a URL, a path with a query, or a bare query string
+ * ("utm_source=note&...") into the canonical takkenai.jp path and its
+ * parameters. `path` is empty for bare query strings.
+ */
+export function decodeTrackingParams(input: string): { path: string; params: TrackingParams } {
+  const raw = input.trim();
+  const queryStart = raw.indexOf("?");
+  const isBareQuery = queryStart < 0 && raw.includes("=");
+  const query = isBareQuery ? raw : queryStart >= 0 ? raw.slice(queryStart + 1) : "";
+  const params: TrackingParams = {};
+  new URLSearchParams(query.split("#")[0]).forEach((value, name) => {
+    params[name] = value;
+  });
+  return {
+    path: isBareQuery ? "" : canonicalizeTakkenaiPath(queryStart >= 0 ? raw.slice(0, queryStart) : raw),
+    params,
+  };
+}
+
+export interface TrackingEntryMatch {
+  date: string;
+  platform: Platform;
+  contentKey: ContentKey;
+  status: ContentStatus;
+  title: string;
+}
+
+export interface TrackingDecodeRow {
+  input: string;
+  path: string;
+  params: TrackingParams;
+  status: "matched" | "ambiguous" | "unmatched";
+  /** Newest first */
+  matches: TrackingEntryMatch[];
+}
+
+type TrackedCandidate = TrackingEntryMatch & { path: string; params: TrackingParams };
+
+/**
+ * Maps incoming links / UTM values back to the calendar entries whose
+ * tracked link they match: same page (when the input has one) and every
+ * parameter the entry's template sets. Templates without per-entry values
+ * (such as {date}) make several entries match; those rows are "ambiguous".
+ */
+export function buildTrackingDecodeReport(params: {
+  inputs: string[];
+  calendars: MonthCalendar[];
+  site: SiteTrackingSettings;
+}): TrackingDecodeRow[] {
+  const candidates: TrackedCandidate[] = [];
+  for (const calendar of params.calendars) {
+    for (const day of calendar.days) {
+      for (const platform of platformsOf(day.platforms)) {
+        const entry = day.platforms[platform];
+        if (!entry || entry.status === "pending" || entry.status === "skipped") continue;
+        const contentKeys = trackedContentKeys(platform);
+        const seen = new Set<string>();
+        for (const contentKey of contentKeys) {
+          const trackingParams = resolveEntryTrackingParams(params.site, {
+            date: day.date,
+            platform,
+            contentKey,
+            // note-viral drafts are generated without an article type.
+            articleType: contentKey === "note-viral" ? undefined : entry.articleType,
+            campaign: entry.campaign,
+          });
+          // Variants whose links are identical cannot be told apart; keep "standard".
+          const key = JSON.stringify(trackingParams);
+          if (seen.has(key)) continue;
+          seen.add(key);
+          candidates.push({
+            date: day.date,
+            platform,
+            contentKey,
+            status: entry.status,
+            title: entry.generatedTitle || entry.titleSuggestion,
+            path: canonicalizeTakkenaiPath(entry.takkenaiUrl),
+            params: trackingParams,
+          });
+        }
+      }
+    }
+  }
+
+  return params.inputs
+    .map((input) => input.trim())
+    .filter(Boolean)
+    .map((input): TrackingDecodeRow => {
+      const decoded = decodeTrackingParams(input);
+      const matches = candidates
+        .filter(
+          (candidate) =>
+            (!decoded.path || decoded.path === candidate.path) &&
+            Object.keys(candidate.params).every((name) => decoded.params[name] === candidate.params[name])
+        )
+        .sort((a, b) => b.date.localeCompare(a.date))
+        .map(({ date, platform, contentKey, status, title }) => ({ date, platform, contentKey, status, title }));
+      return {
+        input,
+        ...decoded,
+        status: matches.length === 0 ? "unmatched" : matches.length === 1 ? "matched" : "ambiguous",
+        matches,
+      };
+    });
+}
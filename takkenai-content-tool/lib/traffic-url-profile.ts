@@ -1,11 +1,12 @@
 import fs from "fs";
 import path from "path";
 import { dateToSeed, seededRandom } from "./takkenai-data";
+import type { Platform } from "./platform-registry";
 import { normalizeAssetLabel } from "./topic-label";
 
 export type TrafficUrlGroup = "tool" | "takken";
 export type TrafficUrlTier = "high" | "explore" | "cooldown";
-export type TrafficPlatform = "ameba" | "note" | "hatena";
+export type TrafficPlatform = Platform;
 
 export interface TrafficUrlProfileItem {
   path: string;
@@ -38,6 +39,8 @@ export interface PickTrafficUrlInput {
   excludeCanonicalPaths?: Set<string>;
   seedSalt?: number;
   attempt?: number;
+  /** Canonical path → factor from published-post performance (see lib/performance-weights.ts) */
+  weightMultipliers?: Record<string, number>;
 }
 
 const DEFAULT_PROFILE_FILE = path.join(
@@ -106,7 +109,7 @@ function normalizeItem(raw: unknown): TrafficUrlProfileItem | null {
   };
 }
 
-function normalizeProfile(raw: unknown): TrafficUrlProfile | null {
+export function normalizeTrafficUrlProfile(raw: unknown): TrafficUrlProfile | null {
   if (!raw || typeof raw !== "object") return null;
   const input = raw as Partial<TrafficUrlProfile>;
   const sourceItems = Array.isArray(input.items) ? input.items : [];
@@ -142,15 +145,16 @@ function normalizeProfile(raw: unknown): TrafficUrlProfile | null {
 
 function pickWeightedItem<T extends { weight: number }>(
   items: T[],
-  rng: () => number
+  rng: () => number,
+  weightOf: (item: T) => number = (item) => Math.max(1, item.weight)
 ): T | null {
   if (items.length === 0) return null;
-  const totalWeight = items.reduce((sum, item) => sum + Math.max(1, item.weight), 0);
+  const totalWeight = items.reduce((sum, item) => sum + weightOf(item), 0);
   if (totalWeight <= 0) return items[0];
 
   let roll = rng() * totalWeight;
   for (let i = 0; i < items.length; i++) {
-    const weight = Math.max(1, items[i].weight);
+    const weight = weightOf(items[i]);
     roll -= weight;
     if (roll <= 0) return items[i];
   }
@@ -207,7 +211,7 @@ export function inferTrafficUrlGroup(pathValue: string): TrafficUrlGroup {
   return canonicalPath.startsWith("/tools/") ? "tool" : "takken";
 }
 
-function getTrafficProfilePath(): string {
+export function getTrafficProfilePath(): string {
   const fromEnv = (process.env.TRAFFIC_URL_PROFILE_FILE || "").trim();
   if (!fromEnv) return DEFAULT_PROFILE_FILE;
   return path.isAbsolute(fromEnv)
@@ -227,7 +231,7 @@ export function loadTrafficUrlProfile(): TrafficUrlProfile | null {
   try {
     const raw = fs.readFileSync(profilePath, "utf-8");
     const parsed = JSON.parse(raw);
-    const normalized = normalizeProfile(parsed);
+    const normalized = normalizeTrafficUrlProfile(parsed);
     cachedProfile = normalized;
     cachedMtimeMs = stat.mtimeMs;
     return normalized;
@@ -292,13 +296,16 @@ export function pickTrafficUrlForSlot(
     attempt: input.attempt,
   });
   const rng = seededRandom(seed);
+  const multipliers = input.weightMultipliers || {};
+  const weightOf = (item: TrafficUrlProfileItem) =>
+    Math.max(1, item.weight) * (multipliers[canonicalizeTakkenaiPath(item.path)] ?? 1);
 
   for (let i = 0; i < preferredOrder.length; i++) {
     const tier = preferredOrder[i];
     const tierItems = allCandidates.filter((item) => item.tier === tier);
-    const picked = pickWeightedItem(tierItems, rng);
+    const picked = pickWeightedItem(tierItems, rng, weightOf);
     if (picked) return picked;
   }
 
-  return pickWeightedItem(allCandidates, rng);
+  return pickWeightedItem(allCandidates, rng, weightOf);
 }
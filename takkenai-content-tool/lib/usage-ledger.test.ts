@@ -0,0 +1,122 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import {
+  assertUsageBudgetAvailable,
+  buildMonthUsageReport,
+  findModelPrice,
+  formatUsageMonth,
+  getUsageBudgetStatus,
+  isUsageBudgetExceededError,
+  mergeGenerationUsage,
+  readReportedTokenUsage,
+  recordModelUsage,
+  setMonthlyBudgetUsd,
+  summarizeModelCalls,
+  trackUsage,
+} from "./usage-ledger";
+
+function useTempUsageDir(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "usage-ledger-"));
+  process.env.USAGE_LEDGER_DIR = dir;
+  process.env.MODEL_PRICE_TABLE = path.join(dir, "model-prices.json");
+  delete process.env.USAGE_MONTHLY_BUDGET_USD;
+  return dir;
+}
+
+test("prices resolve by provider-less id, longest prefix and table overrides", () => {
+  const dir = useTempUsageDir();
+  assert.equal(findModelPrice("anthropic/claude-sonnet-4.5")?.outputPerMillion, 15);
+  assert.equal(findModelPrice("gemini-3-pro-image-preview")?.perImage, 0.134);
+  assert.equal(findModelPrice("unknown/model"), null);
+
+  fs.writeFileSync(
+    path.join(dir, "model-prices.json"),
+    JSON.stringify({ "openai/gpt-4o-mini": { inputPerMillion: 1, outputPerMillion: 2 } })
+  );
+  assert.equal(findModelPrice("openai/gpt-4o-mini")?.inputPerMillion, 1);
+});
+
+test("model calls are summarized per model with estimated cost", () => {
+  useTempUsageDir();
+  const usage = summarizeModelCalls([
+    { model: "anthropic/claude-sonnet-4.5", provider: "openrouter", kind: "text", promptTokens: 1_000_000, completionTokens: 100_000 },
+    { model: "anthropic/claude-sonnet-4.5", provider: "openrouter", kind: "text", promptTokens: 0, completionTokens: 100_000 },
+    { model: "gemini-3-pro-image-preview", provider: "closeai", kind: "image", promptTokens: 0, completionTokens: 0, images: 1, estimated: true },
+  ]);
+  assert.equal(usage.calls, 3);
+  assert.equal(usage.images, 1);
+  assert.equal(usage.estimatedCalls, 1);
+  assert.equal(usage.estimatedCostUsd, 6.134);
+  assert.equal(usage.byModel[0].model, "anthropic/claude-sonnet-4.5");
+  assert.equal(usage.byModel[0].calls, 2);
+
+  const merged = mergeGenerationUsage(usage, usage, null);
+  assert.equal(merged.calls, 6);
+  assert.equal(merged.estimatedCostUsd, 12.268);
+  assert.equal(merged.byModel[0].calls, 4);
+});
+
+test("trackUsage collects calls across awaits and writes one ledger entry", async () => {
+  const dir = useTempUsageDir();
+  const { result, usage } = await trackUsage(
+    { operation: "generate", date: "2026-03-01", platform: "ameba" },
+    async () => {
+      recordModelUsage({ model: "openai/gpt-4o-mini", provider: "openrouter", kind: "text", promptTokens: 1000, completionTokens: 500 });
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      const nested = await trackUsage({ operation: "cover-image" }, async () => {
+        recordModelUsage({ model: "gemini-3-pro-image-preview", provider: "closeai", kind: "image", promptTokens: 0, completionTokens: 0, images: 1 });
+        return "cover";
+      });
+      assert.equal(nested.usage.calls, 1);
+      return "done";
+    }
+  );
+  assert.equal(result, "done");
+  assert.equal(usage.calls, 2);
+
+  const month = formatUsageMonth(new Date());
+  const lines = fs.readFileSync(path.join(dir, `${month}.jsonl`), "utf-8").trim().split("\n");
+  assert.equal(lines.length, 1);
+  const report = buildMonthUsageReport(month);
+  assert.equal(report.total.calls, 2);
+  assert.equal(report.byEntry["2026-03-01:ameba"].images, 1);
+  assert.equal(report.byOperation[0].operation, "generate");
+});
+
+test("failed operations are still charged and the monthly budget blocks new work", async () => {
+  useTempUsageDir();
+  await assert.rejects(
+    trackUsage({ operation: "generate" }, async () => {
+      recordModelUsage({ model: "anthropic/claude-sonnet-4.5", provider: "openrouter", kind: "text", promptTokens: 0, completionTokens: 1_000_000 });
+      throw new Error("最終品質チェック失敗");
+    })
+  );
+  assert.equal(getUsageBudgetStatus().spentUsd, 15);
+  assert.equal(getUsageBudgetStatus().monthlyBudgetUsd, null);
+  assert.doesNotThrow(() => assertUsageBudgetAvailable());
+
+  setMonthlyBudgetUsd(10);
+  assert.equal(getUsageBudgetStatus().exceeded, true);
+  assert.throws(() => assertUsageBudgetAvailable(), isUsageBudgetExceededError);
+
+  setMonthlyBudgetUsd(null);
+  process.env.USAGE_MONTHLY_BUDGET_USD = "5";
+  assert.equal(getUsageBudgetStatus().monthlyBudgetUsd, null);
+  delete process.env.USAGE_MONTHLY_BUDGET_USD;
+});
+
+test("provider usage is read from OpenAI and Gemini payloads", () => {
+  assert.deepEqual(readReportedTokenUsage({ usage: { prompt_tokens: 12, completion_tokens: 3 } }), {
+    promptTokens: 12,
+    completionTokens: 3,
+  });
+  assert.deepEqual(
+    readReportedTokenUsage({ usageMetadata: { promptTokenCount: 7, candidatesTokenCount: 1290 } }),
+    { promptTokens: 7, completionTokens: 1290 }
+  );
+  assert.equal(readReportedTokenUsage({}).estimated, true);
+});
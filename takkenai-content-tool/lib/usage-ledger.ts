@@ -0,0 +1,557 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { AsyncLocalStorage } from "async_hooks";
+import { resolveCassetteMode } from "./cassette";
+import { writeJsonAtomic } from "./json-file";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type ModelUsageKind = "text" | "image";
+
+/** One model call as reported by the provider (or estimated when it reports nothing) */
+export interface ModelCallUsage {
+  model: string;
+  provider: string;
+  kind: ModelUsageKind;
+  promptTokens: number;
+  completionTokens: number;
+  /** Number of images returned (image calls only) */
+  images?: number;
+  /** true when the provider did not report token counts */
+  estimated?: boolean;
+}
+
+export interface ModelUsageSummary {
+  model: string;
+  provider: string;
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  images: number;
+  estimatedCostUsd: number;
+}
+
+/** Usage of one operation (a generation, an optimization, a cover...) */
+export interface GenerationUsage {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  images: number;
+  estimatedCostUsd: number;
+  /** Calls whose token counts were estimated from text length */
+  estimatedCalls: number;
+  byModel: ModelUsageSummary[];
+}
+
+export type UsageOperation =
+  | "generate"
+  | "optimize-seo-geo"
+  | "cover-image"
+  | "inline-image"
+  | "note-viral-options"
+  | "other";
+
+export interface UsageContext {
+  operation: UsageOperation;
+  /** Calendar date of the article (YYYY-MM-DD) */
+  date?: string;
+  platform?: string;
+  contentKey?: string;
+  jobId?: string;
+}
+
+export interface UsageLedgerEntry extends UsageContext {
+  id: string;
+  /** When the money was spent (ISO) */
+  at: string;
+  failed?: boolean;
+  usage: GenerationUsage;
+}
+
+export interface ModelPrice {
+  /** USD per 1M prompt tokens */
+  inputPerMillion: number;
+  /** USD per 1M completion tokens */
+  outputPerMillion: number;
+  /** USD per generated image (image models) */
+  perImage?: number;
+}
+
+export interface UsageBudgetStatus {
+  month: string;
+  monthlyBudgetUsd: number | null;
+  spentUsd: number;
+  remainingUsd: number | null;
+  exceeded: boolean;
+}
+
+export interface MonthUsageReport {
+  month: string;
+  total: GenerationUsage;
+  byDay: Array<{ day: string; usage: GenerationUsage }>;
+  byOperation: Array<{ operation: UsageOperation; usage: GenerationUsage }>;
+  /** Keyed by `${date}:${platform}` (article date, not spend date) */
+  byEntry: Record<string, GenerationUsage>;
+  budget: UsageBudgetStatus;
+}
+
+export type UsageBudgetExceededError = Error & {
+  code: "USAGE_BUDGET_EXCEEDED";
+  budget: UsageBudgetStatus;
+};
+
+export function isUsageBudgetExceededError(
+  error: unknown
+): error is UsageBudgetExceededError {
+  return (
+    error instanceof Error &&
+    (error as Partial<UsageBudgetExceededError>).code === "USAGE_BUDGET_EXCEEDED"
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Price table
+// ---------------------------------------------------------------------------
+
+/**
+ * List prices (USD) used when no price table file overrides them. Keys are
+ * model ids without the provider prefix; lookups fall back to the longest
+ * matching prefix, so dated or suffixed variants resolve to their family.
+ */
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  "claude-sonnet-4.5": { inputPerMillion: 3, outputPerMillion: 15 },
+  "claude-sonnet-4-5": { inputPerMillion: 3, outputPerMillion: 15 },
+  "claude-sonnet-4": { inputPerMillion: 3, outputPerMillion: 15 },
+  "claude-haiku-4-5": { inputPerMillion: 1, outputPerMillion: 5 },
+  "gpt-4o-mini": { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  "gpt-4.1-mini": { inputPerMillion: 0.4, outputPerMillion: 1.6 },
+  "gpt-4o": { inputPerMillion: 2.5, outputPerMillion: 10 },
+  "gemini-2.0-flash": { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  "gemini-2.5-flash": { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+  "gemini-2.5-pro": { inputPerMillion: 1.25, outputPerMillion: 10 },
+  "gemini-3-pro-image": { inputPerMillion: 2, outputPerMillion: 12, perImage: 0.134 },
+  "gemini-2.5-flash-image": { inputPerMillion: 0.3, outputPerMillion: 2.5, perImage: 0.039 },
+  "llama-3.3-70b-instruct": { inputPerMillion: 0.13, outputPerMillion: 0.4 },
+  "sonar-pro": { inputPerMillion: 3, outputPerMillion: 15 },
+  "dall-e-3": { inputPerMillion: 0, outputPerMillion: 0, perImage: 0.08 },
+};
+
+export function resolveModelPriceTablePath(): string {
+  const configured = (process.env.MODEL_PRICE_TABLE || "").trim();
+  if (configured) {
+    return path.isAbsolute(configured)
+      ? configured
+      : path.join(process.cwd(), configured);
+  }
+  return path.join(process.cwd(), "data", "model-prices.json");
+}
+
+function isModelPrice(value: unknown): value is ModelPrice {
+  if (!value || typeof value !== "object") return false;
+  const price = value as Record<string, unknown>;
+  return (
+    typeof price.inputPerMillion === "number" &&
+    typeof price.outputPerMillion === "number" &&
+    (price.perImage === undefined || typeof price.perImage === "number")
+  );
+}
+
+/** Defaults merged with `data/model-prices.json` (MODEL_PRICE_TABLE) when present. */
+export function loadModelPriceTable(): Record<string, ModelPrice> {
+  const table: Record<string, ModelPrice> = { ...DEFAULT_MODEL_PRICES };
+  const filePath = resolveModelPriceTablePath();
+  if (!fs.existsSync(filePath)) return table;
+  try {
+    const parsed = JSON.parse(fs.readFileSync(filePath, "utf-8")) as Record<string, unknown>;
+    for (const [model, price] of Object.entries(parsed || {})) {
+      if (isModelPrice(price)) table[normalizeModelId(model)] = price;
+    }
+  } catch (error) {
+    console.warn(`[usage] failed to read price table ${filePath}:`, error);
+  }
+  return table;
+}
+
+function normalizeModelId(model: string): string {
+  const trimmed = (model || "").trim().toLowerCase();
+  const slash = trimmed.lastIndexOf("/");
+  return slash >= 0 ? trimmed.slice(slash + 1) : trimmed;
+}
+
+export function findModelPrice(
+  model: string,
+  table: Record<string, ModelPrice> = loadModelPriceTable()
+): ModelPrice | null {
+  const id = normalizeModelId(model);
+  if (table[id]) return table[id];
+  const prefix = Object.keys(table)
+    .filter((key) => id.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? table[prefix] : null;
+}
+
+export function estimateCallCostUsd(
+  call: ModelCallUsage,
+  table?: Record<string, ModelPrice>
+): number {
+  const price = findModelPrice(call.model, table);
+  if (!price) return 0;
+  return (
+    (call.promptTokens / 1_000_000) * price.inputPerMillion +
+    (call.completionTokens / 1_000_000) * price.outputPerMillion +
+    (call.images || 0) * (price.perImage || 0)
+  );
+}
+
+/** Rough token count for providers that report none (kana/kanji ≈ 1 token/char). */
+export function estimateTokens(text: string): number {
+  const value = text || "";
+  const cjk = (value.match(/[぀-ヿ㐀-鿿]/g) || []).length;
+  return cjk + Math.ceil((value.length - cjk) / 4);
+}
+
+/**
+ * Token counts from a raw provider response: OpenAI-style `usage` or
+ * Gemini-style `usageMetadata`. Missing counts are zero and flagged.
+ */
+export function readReportedTokenUsage(
+  data: unknown
+): Pick<ModelCallUsage, "promptTokens" | "completionTokens" | "estimated"> {
+  const payload = (data || {}) as {
+    usage?: { prompt_tokens?: unknown; completion_tokens?: unknown };
+    usageMetadata?: { promptTokenCount?: unknown; candidatesTokenCount?: unknown };
+  };
+  if (payload.usage) {
+    return {
+      promptTokens: Number(payload.usage.prompt_tokens) || 0,
+      completionTokens: Number(payload.usage.completion_tokens) || 0,
+    };
+  }
+  if (payload.usageMetadata) {
+    return {
+      promptTokens: Number(payload.usageMetadata.promptTokenCount) || 0,
+      completionTokens: Number(payload.usageMetadata.candidatesTokenCount) || 0,
+    };
+  }
+  return { promptTokens: 0, completionTokens: 0, estimated: true };
+}
+
+// ---------------------------------------------------------------------------
+// Aggregation
+// ---------------------------------------------------------------------------
+
+export function emptyGenerationUsage(): GenerationUsage {
+  return {
+    calls: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    images: 0,
+    estimatedCostUsd: 0,
+    estimatedCalls: 0,
+    byModel: [],
+  };
+}
+
+function roundUsd(value: number): number {
+  return Math.round(value * 1_000_000) / 1_000_000;
+}
+
+export function summarizeModelCalls(
+  calls: ModelCallUsage[],
+  table: Record<string, ModelPrice> = loadModelPriceTable()
+): GenerationUsage {
+  const usage = emptyGenerationUsage();
+  const byModel = new Map<string, ModelUsageSummary>();
+  for (const call of calls) {
+    const cost = estimateCallCostUsd(call, table);
+    usage.calls += 1;
+    usage.promptTokens += call.promptTokens;
+    usage.completionTokens += call.completionTokens;
+    usage.images += call.images || 0;
+    usage.estimatedCostUsd += cost;
+    if (call.estimated) usage.estimatedCalls += 1;
+
+    const key = `${call.provider}|${call.model}`;
+    const summary = byModel.get(key) || {
+      model: call.model,
+      provider: call.provider,
+      calls: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      images: 0,
+      estimatedCostUsd: 0,
+    };
+    summary.calls += 1;
+    summary.promptTokens += call.promptTokens;
+    summary.completionTokens += call.completionTokens;
+    summary.images += call.images || 0;
+    summary.estimatedCostUsd += cost;
+    byModel.set(key, summary);
+  }
+  usage.estimatedCostUsd = roundUsd(usage.estimatedCostUsd);
+  usage.byModel = Array.from(byModel.values())
+    .map((summary) => ({ ...summary, estimatedCostUsd: roundUsd(summary.estimatedCostUsd) }))
+    .sort((a, b) => b.estimatedCostUsd - a.estimatedCostUsd);
+  return usage;
+}
+
+export function mergeGenerationUsage(
+  ...items: Array<GenerationUsage | null | undefined>
+): GenerationUsage {
+  const merged = emptyGenerationUsage();
+  const byModel = new Map<string, ModelUsageSummary>();
+  for (const item of items) {
+    if (!item) continue;
+    merged.calls += item.calls;
+    merged.promptTokens += item.promptTokens;
+    merged.completionTokens += item.completionTokens;
+    merged.images += item.images;
+    merged.estimatedCostUsd += item.estimatedCostUsd;
+    merged.estimatedCalls += item.estimatedCalls || 0;
+    for (const summary of item.byModel || []) {
+      const key = `${summary.provider}|${summary.model}`;
+      const current = byModel.get(key);
+      byModel.set(
+        key,
+        current
+          ? {
+              ...current,
+              calls: current.calls + summary.calls,
+              promptTokens: current.promptTokens + summary.promptTokens,
+              completionTokens: current.completionTokens + summary.completionTokens,
+              images: current.images + summary.images,
+              estimatedCostUsd: current.estimatedCostUsd + summary.estimatedCostUsd,
+            }
+          : { ...summary }
+      );
+    }
+  }
+  merged.estimatedCostUsd = roundUsd(merged.estimatedCostUsd);
+  merged.byModel = Array.from(byModel.values())
+    .map((summary) => ({ ...summary, estimatedCostUsd: roundUsd(summary.estimatedCostUsd) }))
+    .sort((a, b) => b.estimatedCostUsd - a.estimatedCostUsd);
+  return merged;
+}
+
+// ---------------------------------------------------------------------------
+// Call tracking (per operation, across awaits)
+// ---------------------------------------------------------------------------
+
+type UsageScope = { calls: ModelCallUsage[]; parent: UsageScope | null };
+
+const usageStorage = new AsyncLocalStorage<UsageScope>();
+
+/**
+ * Called by the provider layers after every successful model call. Outside
+ * a tracked operation the call is only written to the ledger.
+ */
+export function recordModelUsage(call: ModelCallUsage): void {
+  // Cassette replays never reach the provider, so nothing was spent.
+  if (resolveCassetteMode() === "replay") return;
+  const scope = usageStorage.getStore();
+  if (!scope) {
+    appendUsageLedgerEntry({ operation: "other" }, summarizeModelCalls([call]));
+    return;
+  }
+  // Nested operations (a job chaining generate + cover) count toward every level.
+  for (let current: UsageScope | null = scope; current; current = current.parent) {
+    current.calls.push(call);
+  }
+}
+
+/**
+ * Runs one operation while collecting its model calls, then writes a ledger
+ * entry (also when the operation fails: the spend happened anyway).
+ */
+export async function trackUsage<T>(
+  context: UsageContext,
+  run: () => Promise<T>
+): Promise<{ result: T; usage: GenerationUsage }> {
+  const scope: UsageScope = { calls: [], parent: usageStorage.getStore() || null };
+  let result: T;
+  try {
+    result = await usageStorage.run(scope, run);
+  } catch (error) {
+    if (scope.calls.length > 0 && !scope.parent) {
+      appendUsageLedgerEntry(context, summarizeModelCalls(scope.calls), { failed: true });
+    }
+    throw error;
+  }
+  const usage = summarizeModelCalls(scope.calls);
+  // Only the outermost operation is written, so nested spend is not counted twice.
+  if (usage.calls > 0 && !scope.parent) {
+    appendUsageLedgerEntry(context, usage);
+  }
+  return { result, usage };
+}
+
+// ---------------------------------------------------------------------------
+// Ledger (data/usage/YYYY-MM.jsonl, append-only)
+// ---------------------------------------------------------------------------
+
+export function resolveUsageDir(): string {
+  const configured = (process.env.USAGE_LEDGER_DIR || "").trim();
+  if (configured) {
+    return path.isAbsolute(configured)
+      ? configured
+      : path.join(process.cwd(), configured);
+  }
+  return path.join(process.cwd(), "data", "usage");
+}
+
+/** Local YYYY-MM (spend months follow the operator's clock, like the calendar) */
+export function formatUsageMonth(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+}
+
+function formatUsageDay(date: Date): string {
+  return `${formatUsageMonth(date)}-${String(date.getDate()).padStart(2, "0")}`;
+}
+
+function ledgerPathForMonth(month: string): string {
+  return path.join(resolveUsageDir(), `${month}.jsonl`);
+}
+
+export function appendUsageLedgerEntry(
+  context: UsageContext,
+  usage: GenerationUsage,
+  options: { failed?: boolean; at?: Date } = {}
+): UsageLedgerEntry {
+  const at = options.at || new Date();
+  const entry: UsageLedgerEntry = {
+    id: crypto.randomUUID(),
+    at: at.toISOString(),
+    ...context,
+    ...(options.failed ? { failed: true } : {}),
+    usage,
+  };
+  try {
+    fs.mkdirSync(resolveUsageDir(), { recursive: true });
+    fs.appendFileSync(ledgerPathForMonth(formatUsageMonth(at)), `${JSON.stringify(entry)}\n`, "utf-8");
+  } catch (error) {
+    // Accounting must never break a generation.
+    console.warn("[usage] failed to append ledger entry:", error);
+  }
+  return entry;
+}
+
+export function listUsageLedgerEntries(month: string): UsageLedgerEntry[] {
+  const filePath = ledgerPathForMonth(month);
+  if (!fs.existsSync(filePath)) return [];
+  return fs
+    .readFileSync(filePath, "utf-8")
+    .split("\n")
+    .filter((line) => line.trim())
+    .flatMap((line) => {
+      try {
+        return [JSON.parse(line) as UsageLedgerEntry];
+      } catch {
+        return [];
+      }
+    });
+}
+
+// ---------------------------------------------------------------------------
+// Budget
+// ---------------------------------------------------------------------------
+
+function budgetConfigPath(): string {
+  return path.join(resolveUsageDir(), "budget.json");
+}
+
+/** Saved budget first, then USAGE_MONTHLY_BUDGET_USD; null means no cap. */
+export function getMonthlyBudgetUsd(): number | null {
+  const filePath = budgetConfigPath();
+  if (fs.existsSync(filePath)) {
+    try {
+      const saved = JSON.parse(fs.readFileSync(filePath, "utf-8")) as {
+        monthlyBudgetUsd?: unknown;
+      };
+      if (saved.monthlyBudgetUsd === null) return null;
+      if (typeof saved.monthlyBudgetUsd === "number" && saved.monthlyBudgetUsd > 0) {
+        return saved.monthlyBudgetUsd;
+      }
+    } catch {
+      // fall back to the environment
+    }
+  }
+  const fromEnv = Number((process.env.USAGE_MONTHLY_BUDGET_USD || "").trim());
+  return Number.isFinite(fromEnv) && fromEnv > 0 ? fromEnv : null;
+}
+
+export function setMonthlyBudgetUsd(value: number | null): void {
+  writeJsonAtomic(budgetConfigPath(), {
+    monthlyBudgetUsd: value,
+    updatedAt: new Date().toISOString(),
+  });
+}
+
+export function getUsageBudgetStatus(
+  month: string = formatUsageMonth(new Date())
+): UsageBudgetStatus {
+  const spentUsd = roundUsd(
+    listUsageLedgerEntries(month).reduce(
+      (sum, entry) => sum + (entry.usage?.estimatedCostUsd || 0),
+      0
+    )
+  );
+  const monthlyBudgetUsd = getMonthlyBudgetUsd();
+  return {
+    month,
+    monthlyBudgetUsd,
+    spentUsd,
+    remainingUsd:
+      monthlyBudgetUsd === null ? null : roundUsd(Math.max(0, monthlyBudgetUsd - spentUsd)),
+    exceeded: monthlyBudgetUsd !== null && spentUsd >= monthlyBudgetUsd,
+  };
+}
+
+export function assertUsageBudgetAvailable(): void {
+  const budget = getUsageBudgetStatus();
+  if (!budget.exceeded) return;
+  const error = new Error(
+    `今月の予算上限（$${budget.monthlyBudgetUsd?.toFixed(2)}）に達しました（使用額 $${budget.spentUsd.toFixed(2)}）`
+  ) as UsageBudgetExceededError;
+  error.code = "USAGE_BUDGET_EXCEEDED";
+  error.budget = budget;
+  throw error;
+}
+
+// ---------------------------------------------------------------------------
+// Reports
+// ---------------------------------------------------------------------------
+
+export function buildMonthUsageReport(month: string): MonthUsageReport {
+  const entries = listUsageLedgerEntries(month);
+  const byDay = new Map<string, GenerationUsage[]>();
+  const byOperation = new Map<UsageOperation, GenerationUsage[]>();
+  const byEntry = new Map<string, GenerationUsage[]>();
+  for (const entry of entries) {
+    const day = formatUsageDay(new Date(entry.at));
+    byDay.set(day, [...(byDay.get(day) || []), entry.usage]);
+    byOperation.set(entry.operation, [...(byOperation.get(entry.operation) || []), entry.usage]);
+    if (entry.date && entry.platform) {
+      const key = `${entry.date}:${entry.platform}`;
+      byEntry.set(key, [...(byEntry.get(key) || []), entry.usage]);
+    }
+  }
+
+  return {
+    month,
+    total: mergeGenerationUsage(...entries.map((entry) => entry.usage)),
+    byDay: Array.from(byDay.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([day, usages]) => ({ day, usage: mergeGenerationUsage(...usages) })),
+    byOperation: Array.from(byOperation.entries()).map(([operation, usages]) => ({
+      operation,
+      usage: mergeGenerationUsage(...usages),
+    })),
+    byEntry: Object.fromEntries(
+      Array.from(byEntry.entries()).map(([key, usages]) => [key, mergeGenerationUsage(...usages)])
+    ),
+    budget: getUsageBudgetStatus(month),
+  };
+}
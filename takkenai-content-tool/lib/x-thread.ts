@@ -0,0 +1,156 @@
+/**
+ * X (Twitter) thread splitting.
+ *
+ * X limits a post by weighted length, not by characters: CJK / full-width
+ * characters weigh 2, Latin text weighs 1 and every URL weighs 23 because it
+ * is shortened by t.co. A post may weigh 280 — 140 Japanese characters.
+ *
+ * The X prompt asks for one post per paragraph; this module turns the
+ * generated body into posts that are guaranteed to fit, splitting long
+ * paragraphs at sentence ends and numbering the posts "(1/5)" when there
+ * is more than one.
+ */
+
+export const X_POST_MAX_WEIGHT = 280;
+const URL_WEIGHT = 23;
+const URL_PATTERN = /https?:\/\/[^\s<>()（）「」]+/g;
+
+/** Code point ranges X counts as weight 1 (twitter-text defaults). */
+const LIGHT_RANGES: Array<[number, number]> = [
+  [0x0000, 0x10ff],
+  [0x2000, 0x200d],
+  [0x2010, 0x201f],
+  [0x2032, 0x2037],
+];
+
+function charWeight(char: string): number {
+  const code = char.codePointAt(0) || 0;
+  return LIGHT_RANGES.some(([from, to]) => code >= from && code <= to) ? 1 : 2;
+}
+
+/** Splits text into URL tokens and single characters (URLs are never cut). */
+function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  let last = 0;
+  text.replace(URL_PATTERN, (url: string, offset: number) => {
+    tokens.push(...Array.from(text.slice(last, offset)));
+    tokens.push(url);
+    last = offset + url.length;
+    return url;
+  });
+  tokens.push(...Array.from(text.slice(last)));
+  return tokens;
+}
+
+function tokenWeight(token: string): number {
+  return token.length > 2 && /^https?:\/\//.test(token) ? URL_WEIGHT : charWeight(token);
+}
+
+/** Weighted length of a post as X counts it. */
+export function xWeightedLength(text: string): number {
+  return tokenize(text).reduce((sum, token) => sum + tokenWeight(token), 0);
+}
+
+/** Markdown the generator may still emit, flattened to what X displays. */
+function toPlainParagraphs(body: string): string[] {
+  return (body || "")
+    .replace(/\r/g, "")
+    .replace(/!\[[^\]]*\]\([^)]+\)/g, "")
+    .replace(/\[([^\]]+)\]\((https?:\/\/[^)]+)\)/g, "$1 $2")
+    .replace(/^\s{0,3}#{1,6}\s+/gm, "")
+    .replace(/\*\*([^*]+)\*\*/g, "$1")
+    .split(/\n\s*\n/)
+    .map((paragraph) =>
+      paragraph
+        .split("\n")
+        .map((line) => line.trim())
+        .filter(Boolean)
+        .join("\n")
+    )
+    .filter(Boolean);
+}
+
+function splitSentences(paragraph: string): string[] {
+  const sentences: string[] = [];
+  let current = "";
+  for (const token of tokenize(paragraph)) {
+    current += token;
+    if (/^[。！？!?\n]$/.test(token)) {
+      sentences.push(current.trim());
+      current = "";
+    }
+  }
+  if (current.trim()) sentences.push(current.trim());
+  return sentences.filter(Boolean);
+}
+
+function hardSplit(text: string, budget: number): string[] {
+  const parts: string[] = [];
+  let current = "";
+  let weight = 0;
+  for (const token of tokenize(text)) {
+    const next = tokenWeight(token);
+    if (current && weight + next > budget) {
+      parts.push(current.trim());
+      current = "";
+      weight = 0;
+    }
+    current += token;
+    weight += next;
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+function packParagraph(paragraph: string, budget: number): string[] {
+  if (xWeightedLength(paragraph) <= budget) return [paragraph];
+  const posts: string[] = [];
+  let current = "";
+  for (const sentence of splitSentences(paragraph)) {
+    if (xWeightedLength(sentence) > budget) {
+      if (current) posts.push(current);
+      current = "";
+      posts.push(...hardSplit(sentence, budget));
+      continue;
+    }
+    const joined = `${current}${sentence}`;
+    if (xWeightedLength(joined) <= budget) {
+      current = joined;
+    } else {
+      posts.push(current);
+      current = sentence;
+    }
+  }
+  if (current) posts.push(current);
+  return posts;
+}
+
+function numberSuffix(index: number, total: number): string {
+  return ` (${index}/${total})`;
+}
+
+/**
+ * Splits an article body into X posts that each fit `maxWeight`, numbered
+ * "(n/m)" when the thread has more than one post. The suffix is counted
+ * against the limit.
+ */
+export function splitIntoThread(body: string, maxWeight = X_POST_MAX_WEIGHT): string[] {
+  const paragraphs = toPlainParagraphs(body);
+  if (paragraphs.length === 0) return [];
+
+  const single = paragraphs.length === 1 && xWeightedLength(paragraphs[0]) <= maxWeight;
+  if (single) return paragraphs;
+
+  // Reserve room for the widest suffix; widen when the thread outgrows it.
+  for (let digits = 1; ; digits++) {
+    const widest = "9".repeat(digits);
+    const budget = maxWeight - xWeightedLength(numberSuffix(Number(widest), Number(widest)));
+    const posts = paragraphs.reduce<string[]>(
+      (all, paragraph) => all.concat(packParagraph(paragraph, budget)),
+      []
+    );
+    if (posts.length < Math.pow(10, digits)) {
+      return posts.map((post, index) => `${post}${numberSuffix(index + 1, posts.length)}`);
+    }
+  }
+}
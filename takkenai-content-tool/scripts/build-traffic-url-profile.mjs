@@ -1,8 +1,6 @@
 import fs from "fs";
 import path from "path";
 
-const DEFAULT_INPUT =
-  "/Users/yoyomm/Desktop/takken/2026-02-25-GA4-综合分析报告.md";
 const DEFAULT_OUTPUT = path.join(
   process.cwd(),
   "data",
@@ -11,7 +9,7 @@ const DEFAULT_OUTPUT = path.join(
 
 function parseArgs(argv) {
   const args = {
-    input: DEFAULT_INPUT,
+    input: "",
     output: DEFAULT_OUTPUT,
   };
   for (let i = 0; i < argv.length; i++) {
@@ -138,6 +136,12 @@ function buildWeight(row) {
 
 function main() {
   const args = parseArgs(process.argv.slice(2));
+  if (!args.input) {
+    throw new Error(
+      "Usage: node scripts/build-traffic-url-profile.mjs --input <GA4 report.md> [--output <path>]\n" +
+        "For GA4 CSV/JSON exports use: npm run ingest:ga4 -- --input <export.csv|json>"
+    );
+  }
   if (!fs.existsSync(args.input)) {
     throw new Error(`GA4 report not found: ${args.input}`);
   }
@@ -0,0 +1,69 @@
+#!/usr/bin/env node
+
+import fs from "fs";
+import path from "path";
+import * as ingestModule from "../lib/ga4-ingest.ts";
+
+const importGa4Export = ingestModule.importGa4Export || ingestModule.default?.importGa4Export;
+const activateTrafficProfileVersion =
+  ingestModule.activateTrafficProfileVersion ||
+  ingestModule.default?.activateTrafficProfileVersion;
+
+function parseArgs(argv) {
+  const args = { input: "", activate: false };
+  for (let i = 0; i < argv.length; i++) {
+    const item = argv[i];
+    if (item === "--input") {
+      args.input = (argv[i + 1] || "").trim();
+      i += 1;
+      continue;
+    }
+    if (item === "--activate") {
+      args.activate = true;
+    }
+  }
+  return args;
+}
+
+function main() {
+  const args = parseArgs(process.argv.slice(2));
+  if (!args.input) {
+    console.error(
+      "Usage: node --import tsx scripts/ingest-ga4-export.mjs --input <GA4 export.csv|json> [--activate]"
+    );
+    process.exit(1);
+  }
+  const inputPath = path.isAbsolute(args.input) ? args.input : path.join(process.cwd(), args.input);
+  if (!fs.existsSync(inputPath)) {
+    console.error(`GA4 export not found: ${inputPath}`);
+    process.exit(1);
+  }
+
+  const { version, diff } = importGa4Export({
+    content: fs.readFileSync(inputPath, "utf-8"),
+    fileName: path.basename(inputPath),
+  });
+  if (args.activate) {
+    activateTrafficProfileVersion(version.meta.version);
+  }
+
+  console.log(
+    JSON.stringify(
+      {
+        version: version.meta.version,
+        activated: args.activate,
+        source: version.meta.source,
+        tiers: diff.tierCounts,
+        tierChanges: diff.tierChanges.map(
+          (change) => `${change.path}: ${change.from} -> ${change.to}`
+        ),
+        added: diff.added.length,
+        removed: diff.removed.length,
+      },
+      null,
+      2
+    )
+  );
+}
+
+main();
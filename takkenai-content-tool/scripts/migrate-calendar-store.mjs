@@ -0,0 +1,87 @@
+#!/usr/bin/env node
+
+import fs from "fs";
+import path from "path";
+import * as storeModule from "../lib/calendar-store.ts";
+
+const createCalendarStore =
+  storeModule.createCalendarStore || storeModule.default?.createCalendarStore;
+const importCalendarSnapshot =
+  storeModule.importCalendarSnapshot || storeModule.default?.importCalendarSnapshot;
+const readLegacyCalendarFile =
+  storeModule.readLegacyCalendarFile || storeModule.default?.readLegacyCalendarFile;
+const resolveCalendarStoreLocation =
+  storeModule.resolveCalendarStoreLocation ||
+  storeModule.default?.resolveCalendarStoreLocation;
+
+const VALID_BACKENDS = new Set(["json", "sqlite"]);
+
+function parseArgs(argv) {
+  const args = { from: "", to: "sqlite", target: "", overwrite: false };
+  for (let i = 0; i < argv.length; i++) {
+    const item = argv[i];
+    if (item === "--from") {
+      args.from = (argv[i + 1] || "").trim();
+      i += 1;
+      continue;
+    }
+    if (item === "--to") {
+      args.to = (argv[i + 1] || "").trim().toLowerCase();
+      i += 1;
+      continue;
+    }
+    if (item === "--target") {
+      args.target = (argv[i + 1] || "").trim();
+      i += 1;
+      continue;
+    }
+    if (item === "--overwrite") {
+      args.overwrite = true;
+    }
+  }
+  return args;
+}
+
+function resolvePath(value, fallback) {
+  if (!value) return fallback;
+  return path.isAbsolute(value) ? value : path.join(process.cwd(), value);
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  if (!VALID_BACKENDS.has(args.to)) {
+    console.error(
+      "Usage: node --import tsx scripts/migrate-calendar-store.mjs [--from data/calendar.json] [--to sqlite|json] [--target <path>] [--overwrite]"
+    );
+    process.exit(1);
+  }
+
+  const sourcePath = resolvePath(args.from, path.join(process.cwd(), "data", "calendar.json"));
+  if (!fs.existsSync(sourcePath)) {
+    throw new Error(`Source file not found: ${sourcePath}`);
+  }
+  const targetPath = resolvePath(args.target, resolveCalendarStoreLocation(args.to));
+  if (path.resolve(targetPath) === path.resolve(sourcePath)) {
+    throw new Error("Source and target must be different files");
+  }
+
+  const snapshot = readLegacyCalendarFile(sourcePath);
+  const store = createCalendarStore(args.to, targetPath);
+  const result = importCalendarSnapshot(store, snapshot, { overwrite: args.overwrite });
+
+  console.log("migration finished");
+  console.log(`source: ${sourcePath} (${snapshot.calendars.length} months)`);
+  console.log(`target: ${store.kind} ${store.location}`);
+  console.log(`imported: ${result.imported}, skipped: ${result.skipped}`);
+  if (result.months.length > 0) {
+    console.log(`months: ${result.months.join(", ")}`);
+  }
+  if (args.to === "sqlite") {
+    console.log("Set CALENDAR_STORE_BACKEND=sqlite in .env.local to switch the app to the new store.");
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : String(error));
+  process.exit(1);
+});
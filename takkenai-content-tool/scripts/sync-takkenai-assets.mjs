@@ -0,0 +1,73 @@
+#!/usr/bin/env node
+
+import path from "path";
+import * as syncModule from "../lib/asset-sync.ts";
+
+const planAssetSync = syncModule.planAssetSync || syncModule.default?.planAssetSync;
+const applyAssetSync = syncModule.applyAssetSync || syncModule.default?.applyAssetSync;
+
+function parseArgs(argv) {
+  const args = { sitemap: "", mirror: "", apply: false, probe: false };
+  for (let i = 0; i < argv.length; i++) {
+    const item = argv[i];
+    if (item === "--sitemap" || item === "--mirror") {
+      args[item.slice(2)] = (argv[i + 1] || "").trim();
+      i += 1;
+      continue;
+    }
+    if (item === "--apply") args.apply = true;
+    if (item === "--probe-redirects") args.probe = true;
+  }
+  return args;
+}
+
+function resolveLocal(value) {
+  if (!value || /^https?:\/\//i.test(value)) return value;
+  return path.isAbsolute(value) ? value : path.join(process.cwd(), value);
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const plan = await planAssetSync({
+    sitemap: resolveLocal(args.sitemap) || undefined,
+    mirrorDir: resolveLocal(args.mirror) || undefined,
+    probeRedirects: args.probe,
+  });
+  const { diff } = plan;
+
+  console.log(
+    JSON.stringify(
+      {
+        sitemapUrls: plan.sitemapUrls,
+        counts: diff.counts,
+        added: diff.added.map((ref) => `${ref.type} ${ref.takkenaiUrl} ${ref.label}`),
+        removed: diff.removed.map((ref) => `${ref.type} ${ref.takkenaiUrl} ${ref.label}`),
+        redirected: diff.redirected.map((ref) => `${ref.takkenaiUrl} -> ${ref.redirectTo}`),
+        changed: diff.changed.map((change) => `${change.id} ${change.field}: ${change.from} -> ${change.to}`),
+        unchanged: diff.unchanged,
+        staleCalendarEntries: plan.staleEntries.map(
+          (entry) =>
+            `${entry.date} ${entry.platform} (${entry.status}) ${entry.takkenaiUrl}: ${entry.state}` +
+            (entry.redirectTo ? ` -> ${entry.redirectTo}` : "")
+        ),
+        recoveredCalendarEntries: plan.recoveredEntries.length,
+      },
+      null,
+      2
+    )
+  );
+
+  if (!args.apply) {
+    console.log("\nDry run: re-run with --apply to write the catalogs and mark calendar entries.");
+    return;
+  }
+  const result = applyAssetSync(plan);
+  console.log(
+    `\nWrote ${result.files.length} files; marked ${result.marked} and cleared ${result.cleared} calendar entries.`
+  );
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});